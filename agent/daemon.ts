@@ -16,6 +16,7 @@ import Fastify from 'fastify';
 import fs from 'node:fs/promises';
 import { initDatabase, closeDatabase } from './db.js';
 import * as queries from './queries.js';
+import { getSettings } from './settings.js';
 import { logger } from './logger.js';
 import {
   CreateTaskSchema,
@@ -184,6 +185,9 @@ async function start() {
 
   app.get('/context/today', async () => queries.getTodayContext());
 
+  // The desktop app's settings, secrets left out
+  app.get('/settings', async () => getSettings());
+
   app.get('/tasks', async (req) => {
     const { status } = req.query as { status?: string };
     return queries.getTasksByStatus(status || 'inbox');
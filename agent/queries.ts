@@ -1,5 +1,6 @@
 import { getDatabase } from './db.js';
 import type { Task, Project, Note } from '../src/shared/types.js';
+import { HISTORY_TABLES, changeAction, diffFields } from '../src/shared/change-log.js';
 import crypto from 'node:crypto';
 
 interface Meeting {
@@ -78,6 +79,24 @@ export async function getUpcomingMeetings(days: number): Promise<Meeting[]> {
 
 const AGENT_ID = process.env.CORTEX_AGENT_ID;
 
+type Row = Record<string, unknown>;
+
+async function getRow(table: string, id: string): Promise<Row | null> {
+  return getDatabase().getOptional<Row>(`SELECT * FROM ${table} WHERE id = ?`, [id]);
+}
+
+/** Add this agent's write to the change history shown in the app (see src/shared/change-log.ts) */
+async function logChange(table: string, id: string, before: Row | null): Promise<void> {
+  const after = await getRow(table, id);
+  const changes = diffFields(before, after);
+  if (Object.keys(changes).length === 0) return;
+  await getDatabase().execute(
+    `INSERT INTO entity_changes (id, entity_type, entity_id, action, changes, created_at, source, agent_id)
+     VALUES (?, ?, ?, ?, ?, ?, 'ai', ?)`,
+    [crypto.randomUUID(), HISTORY_TABLES[table], id, changeAction(before, after), JSON.stringify(changes), new Date().toISOString(), AGENT_ID ?? null],
+  );
+}
+
 export async function createTask(
   title: string,
   options: { status?: string; priority?: string; project_id?: string; when_date?: string; deadline?: string } = {},
@@ -92,6 +111,7 @@ export async function createTask(
      VALUES (?, ?, ?, ?, ?, ?, ?, 0, ?, ?, 'ai', ?)`,
     [id, title, status, options.priority ?? null, options.project_id ?? null, options.when_date ?? null, options.deadline ?? null, now, now, AGENT_ID ?? null],
   );
+  await logChange('tasks', id, null);
 
   const task = await db.getOptional<Task>(
     `SELECT * FROM tasks WHERE id = ?`,
@@ -153,7 +173,7 @@ export async function updateTask(
   const db = getDatabase();
 
   // Verify task exists
-  const existing = await db.getOptional<Task>('SELECT id FROM tasks WHERE id = ?', [id]);
+  const existing = await getRow('tasks', id);
   if (!existing) return false;
 
   const updates: string[] = ['updated_at = ?', 'updated_by_source = ?', 'updated_by_agent_id = ?'];
@@ -181,6 +201,7 @@ export async function updateTask(
     `UPDATE tasks SET ${updates.join(', ')} WHERE id = ?`,
     values,
   );
+  await logChange('tasks', id, existing);
   return true;
 }
 
@@ -199,6 +220,7 @@ export async function createNote(
      VALUES (?, ?, ?, ?, ?, 0, ?, ?, 'ai', ?)`,
     [id, title, options.content ?? null, options.context_id ?? null, options.project_id ?? null, now, now, AGENT_ID ?? null],
   );
+  await logChange('notes', id, null);
 
   return (await db.getOptional<Note>('SELECT * FROM notes WHERE id = ?', [id]))!;
 }
@@ -208,7 +230,7 @@ export async function updateNote(
   fields: { title?: string; content?: string; context_id?: string | null; project_id?: string | null; is_pinned?: number },
 ): Promise<boolean> {
   const db = getDatabase();
-  const existing = await db.getOptional<Note>('SELECT id FROM notes WHERE id = ?', [id]);
+  const existing = await getRow('notes', id);
   if (!existing) return false;
 
   const updates: string[] = ['updated_at = ?', 'updated_by_source = ?', 'updated_by_agent_id = ?'];
@@ -222,12 +244,14 @@ export async function updateNote(
 
   values.push(id);
   await db.execute(`UPDATE notes SET ${updates.join(', ')} WHERE id = ?`, values);
+  await logChange('notes', id, existing);
   return true;
 }
 
 export async function deleteNote(id: string): Promise<boolean> {
   const db = getDatabase();
   const now = new Date().toISOString();
+  const before = await getRow('notes', id);
   
   // Use RETURNING clause — rowsAffected is unreliable with PowerSync's JSON table views
   // See: https://github.com/powersync-ja/powersync-js/issues/865
@@ -235,7 +259,9 @@ export async function deleteNote(id: string): Promise<boolean> {
     'UPDATE notes SET deleted_at = ?, updated_at = ? WHERE id = ? AND deleted_at IS NULL RETURNING id',
     [now, now, id],
   );
-  return (result.rows?.length ?? 0) > 0;
+  const deleted = (result.rows?.length ?? 0) > 0;
+  if (deleted) await logChange('notes', id, before);
+  return deleted;
 }
 
 // --- Projects CRUD ---
@@ -254,6 +280,7 @@ export async function createProject(
      VALUES (?, ?, ?, ?, ?, 0, ?, ?, 'ai', ?)`,
     [id, title, options.description ?? null, status, options.context_id ?? null, now, now, AGENT_ID ?? null],
   );
+  await logChange('projects', id, null);
 
   return (await db.getOptional<Project>('SELECT * FROM projects WHERE id = ?', [id]))!;
 }
@@ -263,7 +290,7 @@ export async function updateProject(
   fields: { title?: string; description?: string; status?: string; context_id?: string | null },
 ): Promise<boolean> {
   const db = getDatabase();
-  const existing = await db.getOptional<Project>('SELECT id FROM projects WHERE id = ?', [id]);
+  const existing = await getRow('projects', id);
   if (!existing) return false;
 
   const updates: string[] = ['updated_at = ?', 'updated_by_source = ?', 'updated_by_agent_id = ?'];
@@ -281,12 +308,14 @@ export async function updateProject(
 
   values.push(id);
   await db.execute(`UPDATE projects SET ${updates.join(', ')} WHERE id = ?`, values);
+  await logChange('projects', id, existing);
   return true;
 }
 
 export async function deleteProject(id: string): Promise<boolean> {
   const db = getDatabase();
   const now = new Date().toISOString();
+  const before = await getRow('projects', id);
   
   // Use RETURNING clause — rowsAffected is unreliable with PowerSync's JSON table views
   // See: https://github.com/powersync-ja/powersync-js/issues/865
@@ -294,7 +323,9 @@ export async function deleteProject(id: string): Promise<boolean> {
     'UPDATE projects SET deleted_at = ?, updated_at = ? WHERE id = ? AND deleted_at IS NULL RETURNING id',
     [now, now, id],
   );
-  return (result.rows?.length ?? 0) > 0;
+  const deleted = (result.rows?.length ?? 0) > 0;
+  if (deleted) await logChange('projects', id, before);
+  return deleted;
 }
 
 // --- Tasks (delete) ---
@@ -302,6 +333,7 @@ export async function deleteProject(id: string): Promise<boolean> {
 export async function deleteTask(id: string): Promise<boolean> {
   const db = getDatabase();
   const now = new Date().toISOString();
+  const before = await getRow('tasks', id);
   
   // Use RETURNING clause — rowsAffected is unreliable with PowerSync's JSON table views
   // See: https://github.com/powersync-ja/powersync-js/issues/865
@@ -309,7 +341,9 @@ export async function deleteTask(id: string): Promise<boolean> {
     'UPDATE tasks SET deleted_at = ?, updated_at = ? WHERE id = ? AND deleted_at IS NULL RETURNING id',
     [now, now, id],
   );
-  return (result.rows?.length ?? 0) > 0;
+  const deleted = (result.rows?.length ?? 0) > 0;
+  if (deleted) await logChange('tasks', id, before);
+  return deleted;
 }
 
 // --- Context ---
@@ -0,0 +1,49 @@
+/**
+ * App settings, read from the settings file the desktop app's main process
+ * writes (src/main/settings/settings-store.ts). The file is read again on
+ * every call, so changes made in the app show up without a restart.
+ *
+ * Only the plain `settings` object is read. Secrets such as the OpenAI key
+ * are encrypted with the app's OS keychain entry and are left out.
+ *
+ * Set CORTEX_SETTINGS_DIR to the app's userData directory if it is not in
+ * the platform's default place.
+ */
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { DEFAULT_SETTINGS, SECRET_SETTING_KEYS, type AppSettings } from '../src/shared/settings-types.js';
+import { AppSettingsSchema } from '../src/shared/validation.js';
+import { logger } from './logger.js';
+
+export type SharedSettings = Omit<AppSettings, 'openaiApiKey'>;
+
+/** Where Electron keeps userData for the app name `cortex` */
+function defaultSettingsDir(): string {
+  const home = os.homedir();
+  if (process.platform === 'darwin') return path.join(home, 'Library', 'Application Support', 'cortex');
+  if (process.platform === 'win32') return path.join(process.env.APPDATA ?? path.join(home, 'AppData', 'Roaming'), 'cortex');
+  return path.join(process.env.XDG_CONFIG_HOME ?? path.join(home, '.config'), 'cortex');
+}
+
+const SETTINGS_FILE = path.join(process.env.CORTEX_SETTINGS_DIR ?? defaultSettingsDir(), 'settings.json');
+
+/** The app's settings, with defaults for anything missing or invalid and without secrets */
+export async function getSettings(): Promise<SharedSettings> {
+  const settings: Record<string, unknown> = { ...DEFAULT_SETTINGS };
+  try {
+    const file = JSON.parse(await fs.readFile(SETTINGS_FILE, 'utf-8')) as { settings?: Record<string, unknown> };
+    for (const [key, value] of Object.entries(file.settings ?? {})) {
+      const schema = AppSettingsSchema.shape[key as keyof AppSettings];
+      const parsed = schema?.safeParse(value);
+      if (parsed?.success) settings[key] = parsed.data;
+    }
+  } catch (err) {
+    // No file yet means the app has only ever used the defaults
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger.warn('Failed to read app settings, using defaults:', err);
+    }
+  }
+  for (const key of SECRET_SETTING_KEYS) delete settings[key];
+  return settings as SharedSettings;
+}
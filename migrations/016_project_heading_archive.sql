@@ -0,0 +1,2 @@
+-- Archived headings are hidden from the project; their tasks move to logbook
+ALTER TABLE project_headings ADD COLUMN archived_at TEXT;
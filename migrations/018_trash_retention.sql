@@ -0,0 +1,6 @@
+-- Trash retention covers every trashable entity, not just tasks
+-- "In trash" = deleted_at IS NOT NULL AND permanently_deleted_at IS NULL
+ALTER TABLE projects ADD COLUMN permanently_deleted_at TEXT;
+ALTER TABLE notes ADD COLUMN permanently_deleted_at TEXT;
+ALTER TABLE meetings ADD COLUMN permanently_deleted_at TEXT;
+ALTER TABLE stakeholders ADD COLUMN permanently_deleted_at TEXT;
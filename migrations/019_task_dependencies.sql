@@ -0,0 +1,12 @@
+-- "Blocked by" links between tasks: task_id waits on blocked_by_task_id.
+-- Removing a link sets deleted_at so the removal syncs like any other row
+CREATE TABLE IF NOT EXISTS task_dependencies (
+  id TEXT PRIMARY KEY,
+  task_id TEXT NOT NULL REFERENCES tasks(id),
+  blocked_by_task_id TEXT NOT NULL REFERENCES tasks(id),
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  deleted_at TEXT,
+  UNIQUE (task_id, blocked_by_task_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_blocked_by ON task_dependencies(blocked_by_task_id);
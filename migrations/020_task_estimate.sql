@@ -0,0 +1,2 @@
+-- Planned effort in minutes, used for daily capacity planning
+ALTER TABLE tasks ADD COLUMN estimate_minutes INTEGER;
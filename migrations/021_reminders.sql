@@ -0,0 +1,19 @@
+-- Reminders on tasks and meetings. A reminder fires at remind_at, or
+-- offset_minutes before the task's deadline or the meeting's start.
+-- fired_at/fired_by record which device showed it, so synced devices skip it
+CREATE TABLE IF NOT EXISTS reminders (
+  id TEXT PRIMARY KEY,
+  task_id TEXT REFERENCES tasks(id),
+  meeting_id TEXT REFERENCES meetings(id),
+  remind_at TEXT,
+  offset_minutes INTEGER,
+  snoozed_until TEXT,
+  fired_at TEXT,
+  fired_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  deleted_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_reminders_task ON reminders(task_id);
+CREATE INDEX IF NOT EXISTS idx_reminders_meeting ON reminders(meeting_id);
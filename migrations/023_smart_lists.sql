@@ -0,0 +1,10 @@
+-- Smart lists: saved task queries such as "priority:p1 context:Work due:this-week".
+-- The query is stored as typed and compiled to SQL when the list is opened
+CREATE TABLE IF NOT EXISTS smart_lists (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  query TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  deleted_at TEXT
+);
@@ -0,0 +1,15 @@
+-- Change history: one row per write to a task, project, note or meeting,
+-- with the changed fields' old and new values as JSON. Rows are only ever
+-- added, except that back-to-back autosaves fold into the latest one
+CREATE TABLE IF NOT EXISTS entity_changes (
+  id TEXT PRIMARY KEY,
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  action TEXT NOT NULL,
+  changes TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  source TEXT DEFAULT 'user',
+  agent_id TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_entity_changes_entity ON entity_changes(entity_id, created_at);
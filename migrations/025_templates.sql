@@ -0,0 +1,11 @@
+-- Templates: reusable projects (headings, tasks, checklists) and tasks.
+-- The body is JSON with dates stored as days after the day the template is applied
+CREATE TABLE IF NOT EXISTS templates (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('task', 'project')),
+  body TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  deleted_at TEXT
+);
@@ -0,0 +1,12 @@
+import { createHash } from 'crypto';
+
+/**
+ * A name-based (v5-style) UUID: the same name always gives the same id.
+ * For rows that several devices may create independently before syncing,
+ * so their copies become one row instead of clashing.
+ */
+export function nameBasedId(name: string): string {
+  const hex = createHash('sha1').update(name).digest('hex');
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
@@ -17,7 +17,7 @@ function createPowerSyncAdapter(
   return {
     async execute(sql: string, params: unknown[] = []): Promise<QueryResult> {
       const result = await psDb.execute(sql, params);
-      return { rowsAffected: result.rowsAffected };
+      return { rowsAffected: result.rowsAffected, rows: result.rows?._array };
     },
     async getAll<T>(sql: string, params: unknown[] = []): Promise<T[]> {
       return await psDb.getAll<T>(sql, params);
@@ -30,7 +30,7 @@ function createPowerSyncAdapter(
         const txAdapter: AsyncDatabase = {
           async execute(sql: string, params: unknown[] = []): Promise<QueryResult> {
             const result = await psTx.execute(sql, params);
-            return { rowsAffected: result.rowsAffected };
+            return { rowsAffected: result.rowsAffected, rows: result.rows?._array };
           },
           async getAll<T>(sql: string, params: unknown[] = []): Promise<T[]> {
             return await psTx.getAll<T>(sql, params);
@@ -0,0 +1,117 @@
+import { addDaysToDate } from '@shared/recurrence';
+import type { SmartListTerm, DateAtom, DueMatch, DuePeriod, NameMatch } from '@shared/smart-list-query';
+
+/** A WHERE clause over `tasks t` and its parameters */
+export interface CompiledSmartList {
+  where: string;
+  params: unknown[];
+}
+
+// The project's context wins over the task's own, as in the renderer's context filter
+const CONTEXT_COLUMN = 'COALESCE((SELECT p.context_id FROM projects p WHERE p.id = t.project_id), t.context_id)';
+
+const NAME_LOOKUPS: Record<'context' | 'project' | 'assignee', { column: string; ids: string; params: number }> = {
+  context: {
+    column: CONTEXT_COLUMN,
+    ids: 'SELECT id FROM contexts WHERE name = ? COLLATE NOCASE AND deleted_at IS NULL',
+    params: 1,
+  },
+  project: {
+    column: 't.project_id',
+    ids: 'SELECT id FROM projects WHERE title = ? COLLATE NOCASE AND deleted_at IS NULL',
+    params: 1,
+  },
+  assignee: {
+    column: 't.assignee_id',
+    ids: `SELECT id FROM ai_agents WHERE name = ? COLLATE NOCASE
+      UNION SELECT id FROM stakeholders WHERE name = ? COLLATE NOCASE AND deleted_at IS NULL`,
+    params: 2,
+  },
+};
+
+function resolveDate(atom: DateAtom, today: string): string {
+  return 'date' in atom ? atom.date : addDaysToDate(today, atom.days);
+}
+
+function periodRange(period: DuePeriod, today: string): [string, string] {
+  const [year, month] = today.split('-').map(Number);
+  switch (period) {
+    case 'this-week':
+    case 'next-week': {
+      const sinceMonday = (new Date(`${today}T00:00:00Z`).getUTCDay() + 6) % 7;
+      const monday = addDaysToDate(today, -sinceMonday + (period === 'next-week' ? 7 : 0));
+      return [monday, addDaysToDate(monday, 6)];
+    }
+    case 'this-month':
+    case 'next-month': {
+      const offset = period === 'next-month' ? 1 : 0;
+      const first = new Date(Date.UTC(year, month - 1 + offset, 1));
+      const last = new Date(Date.UTC(year, month + offset, 0));
+      return [first.toISOString().split('T')[0], last.toISOString().split('T')[0]];
+    }
+  }
+}
+
+function compileName(field: keyof typeof NAME_LOOKUPS, match: NameMatch, params: unknown[]): string {
+  const { column, ids, params: count } = NAME_LOOKUPS[field];
+  if (match.kind === 'none') return `${column} IS NULL`;
+  if (match.kind === 'any') return `${column} IS NOT NULL`;
+  for (let i = 0; i < count; i++) params.push(match.name);
+  return `${column} IN (${ids})`;
+}
+
+function compileDue(match: DueMatch, today: string, params: unknown[]): string {
+  switch (match.kind) {
+    case 'none':
+      return 't.deadline IS NULL';
+    case 'any':
+      return 't.deadline IS NOT NULL';
+    case 'compare':
+      params.push(resolveDate(match.at, today));
+      return `t.deadline ${match.op} ?`;
+    case 'between':
+      params.push(resolveDate(match.from, today), resolveDate(match.to, today));
+      return 't.deadline BETWEEN ? AND ?';
+    case 'period':
+      params.push(...periodRange(match.period, today));
+      return 't.deadline BETWEEN ? AND ?';
+  }
+}
+
+function compileTerm(term: SmartListTerm, today: string, params: unknown[]): string {
+  const alternatives = term.values.map((value) => {
+    switch (term.field) {
+      case 'status':
+        params.push(value);
+        return 't.status = ?';
+      case 'priority':
+        if (value === 'none') return 't.priority IS NULL';
+        if (value === 'any') return 't.priority IS NOT NULL';
+        params.push(value);
+        return 't.priority = ?';
+      case 'due':
+        return compileDue(value as DueMatch, today, params);
+      case 'has':
+        return 'EXISTS (SELECT 1 FROM task_checklists c WHERE c.task_id = t.id AND c.deleted_at IS NULL)';
+      default:
+        return compileName(term.field, value as NameMatch, params);
+    }
+  });
+  // IFNULL keeps a NULL column from dropping the row out of a negated term
+  const clause = `IFNULL((${alternatives.join(' OR ')}), 0)`;
+  return term.negated ? `NOT ${clause}` : clause;
+}
+
+/**
+ * Turn parsed smart list terms into SQL. Relative dates are resolved against
+ * `today` (yyyy-MM-dd), so the same list moves along with the calendar.
+ */
+export function compileSmartListQuery(terms: SmartListTerm[], today: string): CompiledSmartList {
+  const params: unknown[] = [];
+  const clauses = ['t.deleted_at IS NULL'];
+  if (!terms.some((term) => term.field === 'status' && !term.negated)) {
+    clauses.push("t.status NOT IN ('logbook', 'cancelled')");
+  }
+  for (const term of terms) clauses.push(compileTerm(term, today, params));
+  return { where: clauses.join(' AND '), params };
+}
@@ -0,0 +1,41 @@
+import { sortKeyBetween } from '@shared/sort-order';
+import type { AsyncDatabase } from './types';
+
+/**
+ * Give `id` a sort key between its neighbours in `orderedIds`, the list as
+ * the user sees it after the move. Usually that writes one row; if the
+ * neighbours leave no room, every row in the list is renumbered 0..n-1.
+ * Returns the ids whose sort_order changed. The caller owns the transaction.
+ */
+export async function moveRow(
+  conn: AsyncDatabase,
+  table: string,
+  id: string,
+  orderedIds: string[],
+  now: string,
+): Promise<string[]> {
+  const index = orderedIds.indexOf(id);
+  if (index === -1) {
+    throw new Error('Moved row is not in the list');
+  }
+
+  const keyOf = async (neighbour: string | undefined): Promise<number | null> => {
+    if (!neighbour) return null;
+    const row = await conn.getOptional<{ sort_order: number | null }>(
+      `SELECT sort_order FROM ${table} WHERE id = ?`,
+      [neighbour]
+    );
+    return row?.sort_order ?? 0;
+  };
+
+  const key = sortKeyBetween(await keyOf(orderedIds[index - 1]), await keyOf(orderedIds[index + 1]));
+  if (key !== null) {
+    await conn.execute(`UPDATE ${table} SET sort_order = ?, updated_at = ? WHERE id = ?`, [key, now, id]);
+    return [id];
+  }
+
+  for (let i = 0; i < orderedIds.length; i++) {
+    await conn.execute(`UPDATE ${table} SET sort_order = ?, updated_at = ? WHERE id = ?`, [i, now, orderedIds[i]]);
+  }
+  return orderedIds;
+}
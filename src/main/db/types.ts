@@ -1,5 +1,12 @@
 export interface QueryResult {
+  /**
+   * Unreliable on PowerSync: its tables are views with INSTEAD OF triggers,
+   * so this is 0 even when rows changed. Add `RETURNING id` and count `rows`
+   * when the outcome matters.
+   */
   rowsAffected: number;
+  /** Rows produced by a RETURNING clause */
+  rows?: Record<string, unknown>[];
 }
 
 export interface AsyncDatabase {
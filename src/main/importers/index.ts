@@ -0,0 +1,34 @@
+import { readFile } from 'fs/promises';
+import { basename, extname } from 'path';
+import type { ImportFormat } from '@shared/types';
+import { parseThingsJson, readThingsDatabase } from './things';
+import { parseTodoistCsv, parseTodoistJson } from './todoist';
+import { parseOmniFocusTaskPaper } from './omnifocus';
+import type { ParsedImport } from './types';
+
+export type { ParsedImport, ImportedTask, ImportedProject, ImportedChecklistItem } from './types';
+
+/** File extensions offered in the open dialog for each format */
+export const IMPORT_FILE_EXTENSIONS: Record<ImportFormat, string[]> = {
+  things: ['json', 'sqlite', 'sqlite3', 'db'],
+  todoist: ['csv', 'json'],
+  omnifocus: ['taskpaper', 'txt'],
+};
+
+/** Read and parse an export file, picking the parser from the file extension */
+export async function readImportFile(format: ImportFormat, filePath: string): Promise<ParsedImport> {
+  const ext = extname(filePath).toLowerCase().slice(1);
+
+  switch (format) {
+    case 'things':
+      return ext === 'json'
+        ? parseThingsJson(await readFile(filePath, 'utf-8'))
+        : readThingsDatabase(filePath);
+    case 'todoist':
+      return ext === 'csv'
+        ? parseTodoistCsv(await readFile(filePath, 'utf-8'), basename(filePath, extname(filePath)))
+        : parseTodoistJson(await readFile(filePath, 'utf-8'));
+    case 'omnifocus':
+      return parseOmniFocusTaskPaper(await readFile(filePath, 'utf-8'));
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { parseOmniFocusTaskPaper } from './omnifocus';
+
+describe('parseOmniFocusTaskPaper', () => {
+  const taskpaper = [
+    'Inbox:',
+    '\t- Call dentist @context(Phone) @flagged',
+    'Work:',
+    '\tLaunch:',
+    '\t\tShip the Q3 release',
+    '\t\t- Write spec @defer(2026-03-02) @due(2026-03-06 17:00)',
+    '\t\t\tKeep it short',
+    '\t\t\t- Outline @done(2026-02-28)',
+    '\t\t\t- Draft',
+    '\t\t- Book venue @done(2026-02-20 10:30)',
+    '\t\t- Old idea @dropped(2026-01-01)',
+    '- Errands @parallel(true) @autodone(false)',
+    '\t- Pick up parcel @repeat-rule(FREQ=WEEKLY)',
+  ].join('\n');
+
+  it('maps folders, projects, actions and action groups', () => {
+    const parsed = parseOmniFocusTaskPaper(taskpaper);
+
+    expect(parsed.projects).toEqual([
+      { input: { title: 'Launch', description: 'Ship the Q3 release', status: undefined }, area: 'Work', headings: [] },
+      { input: { title: 'Errands', description: undefined, status: undefined }, area: null, headings: [] },
+    ]);
+    expect(parsed.tasks.map((t) => t.input.title)).toEqual([
+      'Call dentist', 'Write spec', 'Book venue', 'Old idea', 'Pick up parcel',
+    ]);
+    expect(parsed.tasks[0]).toMatchObject({ project: null, area: 'Phone', input: { status: 'inbox', priority: 'P1' } });
+    expect(parsed.tasks[1]).toMatchObject({
+      project: 'Launch',
+      input: { when_date: '2026-03-02', deadline: '2026-03-06', notes: 'Keep it short' },
+      checklist: [{ title: 'Outline', is_done: true }, { title: 'Draft', is_done: false }],
+    });
+    expect(parsed.tasks[2].input.status).toBe('logbook');
+    expect(parsed.tasks[2].completed_at).toBe(new Date('2026-02-20T10:30').toISOString());
+    expect(parsed.tasks[3].input.status).toBe('cancelled');
+    expect(parsed.tasks[4]).toMatchObject({ project: 'Errands', input: { status: 'anytime' } });
+  });
+
+  it('warns about repeat rules it drops', () => {
+    expect(parseOmniFocusTaskPaper(taskpaper).warnings).toEqual(['Dropped repeat rule on "Pick up parcel"']);
+  });
+
+  it('rejects text without projects or actions', () => {
+    expect(() => parseOmniFocusTaskPaper('just some notes')).toThrow('File is not an OmniFocus TaskPaper export');
+  });
+});
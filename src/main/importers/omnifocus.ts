@@ -0,0 +1,179 @@
+import { toDateOnly } from './types';
+import type { ImportedTask, ImportedProject, ParsedImport } from './types';
+
+interface TaskPaperNode {
+  kind: 'project' | 'item' | 'note';
+  text: string;
+  tags: Map<string, string>;
+  children: TaskPaperNode[];
+}
+
+function indentWidth(line: string): number {
+  let width = 0;
+  for (const ch of line) {
+    if (ch === '\t') width += 4;
+    else if (ch === ' ') width += 1;
+    else break;
+  }
+  return width;
+}
+
+/** Split trailing "@tag" / "@tag(value)" markers off a TaskPaper line */
+function splitTags(text: string): { text: string; tags: Map<string, string> } {
+  const tags = new Map<string, string>();
+  const stripped = text.replace(/(^|\s)@([\w-]+)(?:\(([^)]*)\))?/g, (_, lead: string, name: string, value?: string) => {
+    tags.set(name.toLowerCase(), (value ?? '').trim());
+    return lead;
+  });
+  return { text: stripped.replace(/\s+/g, ' ').trim(), tags };
+}
+
+function parseLine(raw: string): Omit<TaskPaperNode, 'children'> {
+  const line = raw.trim();
+  if (line.startsWith('- ') || line === '-') {
+    return { kind: 'item', ...splitTags(line.slice(1)) };
+  }
+  const { text, tags } = splitTags(line);
+  if (text.endsWith(':')) {
+    return { kind: 'project', text: text.slice(0, -1).trim(), tags };
+  }
+  return { kind: 'note', text: line, tags: new Map() };
+}
+
+/** Build the outline tree; deeper indentation nests under the line above */
+function parseOutline(text: string): TaskPaperNode[] {
+  const root: TaskPaperNode[] = [];
+  const stack: { width: number; node: TaskPaperNode }[] = [];
+
+  for (const raw of text.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    if (!raw.trim()) continue;
+    const width = indentWidth(raw);
+    const node: TaskPaperNode = { ...parseLine(raw), children: [] };
+
+    while (stack.length > 0 && stack[stack.length - 1].width >= width) stack.pop();
+    if (stack.length > 0) stack[stack.length - 1].node.children.push(node);
+    else root.push(node);
+    stack.push({ width, node });
+  }
+
+  return root;
+}
+
+/** OmniFocus writes projects either as "Name:" or as "- Name @parallel(...)" */
+function isProject(node: TaskPaperNode): boolean {
+  return node.kind === 'project' || (node.kind === 'item' && (node.tags.has('parallel') || node.tags.has('autodone')));
+}
+
+/**
+ * A folder is a "Name:" line holding other projects. Action groups also carry
+ * @parallel, so a line only counts as a folder when every action in it does.
+ */
+function isFolder(node: TaskPaperNode): boolean {
+  if (node.kind !== 'project') return false;
+  const items = node.children.filter((c) => c.kind !== 'note');
+  return node.children.some((c) => c.kind === 'project') || (items.length > 0 && items.every(isProject));
+}
+
+function notesOf(node: TaskPaperNode): string | undefined {
+  const lines = node.children.filter((c) => c.kind === 'note').map((c) => c.text);
+  return lines.length > 0 ? lines.join('\n') : undefined;
+}
+
+function toTimestamp(value: string | undefined): string | null {
+  if (!value) return null;
+  const date = new Date(value.replace(' ', 'T'));
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Parse an OmniFocus TaskPaper export. Folders (project lines containing other
+ * projects) become areas, "Inbox:" holds unfiled tasks, nested actions become
+ * checklist items, and @context/@tags name the area for unfiled tasks.
+ */
+export function parseOmniFocusTaskPaper(text: string): ParsedImport {
+  const projects: ImportedProject[] = [];
+  const tasks: ImportedTask[] = [];
+  const warnings: string[] = [];
+
+  function addTask(node: TaskPaperNode, project: string | null, area: string | null) {
+    const { tags } = node;
+    const done = tags.has('done');
+    const dropped = tags.has('dropped');
+    const whenDate = toDateOnly(tags.get('defer'));
+
+    if (tags.has('repeat-rule')) {
+      warnings.push(`Dropped repeat rule on "${node.text}"`);
+    }
+
+    let status: ImportedTask['input']['status'];
+    if (done) status = 'logbook';
+    else if (dropped) status = 'cancelled';
+    else if (!whenDate) status = project ? 'anytime' : 'inbox';
+
+    const context = (tags.get('context') ?? tags.get('tags') ?? '').split(',')[0].trim() || null;
+
+    tasks.push({
+      input: {
+        title: node.text || 'Untitled',
+        notes: notesOf(node),
+        status,
+        when_date: whenDate ?? undefined,
+        deadline: toDateOnly(tags.get('due')) ?? undefined,
+        priority: tags.has('flagged') ? 'P1' : undefined,
+      },
+      project,
+      heading: null,
+      area: project ? area : context ?? area,
+      completed_at: done ? toTimestamp(tags.get('done')) : null,
+      checklist: flattenItems(node.children).map((child) => ({
+        title: child.text,
+        is_done: child.tags.has('done'),
+      })),
+    });
+  }
+
+  // Action groups at any depth collapse into the top-level action's checklist
+  function flattenItems(nodes: TaskPaperNode[]): TaskPaperNode[] {
+    return nodes
+      .filter((n) => n.kind === 'item' && n.text)
+      .flatMap((n) => [n, ...flattenItems(n.children)]);
+  }
+
+  function walk(nodes: TaskPaperNode[], area: string | null) {
+    for (const node of nodes) {
+      if (isProject(node)) {
+        if (isFolder(node)) {
+          walk(node.children, area ?? node.text);
+          continue;
+        }
+
+        const isInbox = node.kind === 'project' && node.text.toLowerCase() === 'inbox';
+        if (!isInbox) {
+          const { tags } = node;
+          projects.push({
+            input: {
+              title: node.text || 'Untitled',
+              description: notesOf(node),
+              status: tags.has('done') ? 'completed' : tags.has('dropped') ? 'archived' : undefined,
+            },
+            area,
+            headings: [],
+          });
+        }
+        for (const child of node.children.filter((c) => c.kind === 'item')) {
+          addTask(child, isInbox ? null : node.text, area);
+        }
+      } else if (node.kind === 'item') {
+        addTask(node, null, area);
+      }
+    }
+  }
+
+  walk(parseOutline(text), null);
+
+  if (projects.length === 0 && tasks.length === 0) {
+    throw new Error('File is not an OmniFocus TaskPaper export');
+  }
+
+  return { format: 'omnifocus', projects, tasks, warnings };
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import Database from 'better-sqlite3';
+import { parseThingsJson, parseThingsDatabase, decodeThingsDate } from './things';
+
+describe('parseThingsJson', () => {
+  it('maps projects, headings, to-dos and checklists', () => {
+    const parsed = parseThingsJson(JSON.stringify([
+      {
+        type: 'project',
+        attributes: {
+          title: 'Launch',
+          notes: 'Q3 release',
+          area: 'Work',
+          items: [
+            { type: 'to-do', attributes: { title: 'Kickoff' } },
+            { type: 'heading', attributes: { title: 'Build' } },
+            {
+              type: 'to-do',
+              attributes: {
+                title: 'Write spec',
+                when: '2026-03-02',
+                deadline: '2026-03-06',
+                'checklist-items': [
+                  { type: 'checklist-item', attributes: { title: 'Outline', completed: true } },
+                  { type: 'checklist-item', attributes: { title: 'Draft' } },
+                ],
+              },
+            },
+          ],
+        },
+      },
+      { type: 'to-do', attributes: { title: 'Buy milk' } },
+      { type: 'to-do', attributes: { title: 'Plan trip', when: 'someday', list: 'Home' } },
+      { type: 'to-do', attributes: { title: 'Old', completed: true, 'completion-date': '2026-01-05T09:00:00Z' } },
+    ]));
+
+    expect(parsed.projects).toEqual([
+      { input: { title: 'Launch', description: 'Q3 release', status: 'active' }, area: 'Work', headings: ['Build'] },
+    ]);
+    expect(parsed.tasks[0]).toMatchObject({ project: 'Launch', heading: null, input: { status: 'anytime' } });
+    expect(parsed.tasks[1]).toMatchObject({
+      project: 'Launch',
+      heading: 'Build',
+      input: { title: 'Write spec', when_date: '2026-03-02', deadline: '2026-03-06' },
+      checklist: [{ title: 'Outline', is_done: true }, { title: 'Draft', is_done: false }],
+    });
+    expect(parsed.tasks[2]).toMatchObject({ project: null, input: { status: 'inbox' } });
+    expect(parsed.tasks[3]).toMatchObject({ project: 'Home', input: { status: 'someday' } });
+    expect(parsed.tasks[4]).toMatchObject({ input: { status: 'logbook' }, completed_at: '2026-01-05T09:00:00Z' });
+  });
+
+  it('treats a list naming an area as the area', () => {
+    const parsed = parseThingsJson(JSON.stringify([
+      { type: 'project', attributes: { title: 'Launch', area: 'Work' } },
+      { type: 'to-do', attributes: { title: 'Expenses', list: 'Work' } },
+    ]));
+
+    expect(parsed.tasks[0]).toMatchObject({ project: null, area: 'Work', input: { status: 'anytime' } });
+  });
+
+  it('dates to-dos planned for today with today', () => {
+    const parsed = parseThingsJson(JSON.stringify([
+      { type: 'to-do', attributes: { title: 'Call the bank', when: 'today' } },
+      { type: 'to-do', attributes: { title: 'Read', when: 'evening' } },
+    ]));
+
+    const today = new Date().toISOString().split('T')[0];
+    expect(parsed.tasks.map((task) => task.input)).toEqual([
+      expect.objectContaining({ status: 'today', when_date: today }),
+      expect.objectContaining({ status: 'today', when_date: today }),
+    ]);
+  });
+
+  it('rejects files that are not a Things payload', () => {
+    expect(() => parseThingsJson('{')).toThrow('Things export is not valid JSON');
+    expect(() => parseThingsJson('{}')).toThrow('Things export must be a JSON array');
+  });
+});
+
+describe('parseThingsDatabase', () => {
+  function createThingsDb() {
+    const db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE TMArea (uuid TEXT PRIMARY KEY, title TEXT);
+      CREATE TABLE TMTask (
+        uuid TEXT PRIMARY KEY, type INTEGER, status INTEGER, trashed INTEGER, title TEXT, notes TEXT,
+        start INTEGER, startDate INTEGER, deadline INTEGER, stopDate REAL,
+        project TEXT, area TEXT, heading TEXT, "index" INTEGER
+      );
+      CREATE TABLE TMChecklistItem (uuid TEXT PRIMARY KEY, title TEXT, status INTEGER, task TEXT, "index" INTEGER);
+    `);
+    return db;
+  }
+
+  const packed = (y: number, m: number, d: number) => (y << 16) | (m << 12) | (d << 7);
+
+  it('decodes packed dates', () => {
+    expect(decodeThingsDate(packed(2026, 3, 2))).toBe('2026-03-02');
+    expect(decodeThingsDate(null)).toBeNull();
+  });
+
+  it('reads projects, headings, to-dos and checklists, skipping trashed rows', () => {
+    const db = createThingsDb();
+    const task = db.prepare(`INSERT INTO TMTask VALUES (?, ?, ?, ?, ?, NULL, ?, ?, ?, ?, ?, ?, ?, ?)`);
+    db.prepare('INSERT INTO TMArea VALUES (?, ?)').run('a1', 'Work');
+    task.run('p1', 1, 0, 0, 'Launch', 1, null, null, null, null, 'a1', null, 0);
+    task.run('h1', 2, 0, 0, 'Build', 1, null, null, null, 'p1', null, null, 1);
+    task.run('t1', 0, 0, 0, 'Write spec', 1, packed(2026, 3, 2), packed(2026, 3, 6), null, null, null, 'h1', 2);
+    task.run('t2', 0, 3, 0, 'Shipped', 1, null, null, 1767603600, 'p1', null, null, 3);
+    task.run('t3', 0, 0, 0, 'Capture', 0, null, null, null, null, null, null, 4);
+    task.run('t4', 0, 0, 1, 'Trashed', 0, null, null, null, null, null, null, 5);
+    db.prepare('INSERT INTO TMChecklistItem VALUES (?, ?, ?, ?, ?)').run('c1', 'Outline', 3, 't1', 0);
+
+    const parsed = parseThingsDatabase(db);
+    db.close();
+
+    expect(parsed.projects).toEqual([
+      { input: { title: 'Launch', description: undefined, status: 'active' }, area: 'Work', headings: ['Build'] },
+    ]);
+    expect(parsed.tasks.map((t) => t.input.title)).toEqual(['Write spec', 'Shipped', 'Capture']);
+    expect(parsed.tasks[0]).toMatchObject({
+      project: 'Launch',
+      heading: 'Build',
+      input: { when_date: '2026-03-02', deadline: '2026-03-06' },
+      checklist: [{ title: 'Outline', is_done: true }],
+    });
+    expect(parsed.tasks[1]).toMatchObject({ input: { status: 'logbook' }, completed_at: '2026-01-05T09:00:00.000Z' });
+    expect(parsed.tasks[2]).toMatchObject({ project: null, input: { status: 'inbox' } });
+  });
+
+  it('rejects databases without Things tables', () => {
+    const db = new Database(':memory:');
+    expect(() => parseThingsDatabase(db)).toThrow('File is not a Things 3 database');
+    db.close();
+  });
+});
@@ -0,0 +1,279 @@
+import Database from 'better-sqlite3';
+import type { TaskStatus, ProjectStatus } from '@shared/types';
+import { toDateOnly } from './types';
+import type { ImportedTask, ImportedProject, ParsedImport } from './types';
+
+// ============================================================================
+// Things 3 JSON (the things:///json payload format)
+// ============================================================================
+
+interface ThingsJsonItem {
+  type?: string;
+  attributes?: Record<string, unknown>;
+}
+
+function str(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function addDays(days: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Map a Things "when" value onto status/when_date. Items without one land in
+ * the Inbox unless they already belong to a project or area.
+ */
+function mapWhen(when: unknown, filed: boolean): { status?: TaskStatus; when_date?: string } {
+  const value = str(when)?.toLowerCase();
+  if (value === 'today' || value === 'evening') return { status: 'today', when_date: addDays(0) };
+  if (value === 'tomorrow') return { when_date: addDays(1) };
+  if (value === 'anytime') return { status: 'anytime' };
+  if (value === 'someday') return { status: 'someday' };
+  const date = toDateOnly(value);
+  if (date) return { when_date: date };
+  return { status: filed ? 'anytime' : 'inbox' };
+}
+
+function mapTodo(
+  attrs: Record<string, unknown>,
+  project: string | null,
+  heading: string | null,
+  area: string | null,
+): ImportedTask {
+  const completed = attrs.completed === true;
+  const canceled = attrs.canceled === true;
+  const schedule = mapWhen(attrs.when, project !== null || area !== null);
+
+  const checklist = Array.isArray(attrs['checklist-items'])
+    ? (attrs['checklist-items'] as ThingsJsonItem[])
+      .map((item) => ({
+        title: str(item.attributes?.title) ?? '',
+        is_done: item.attributes?.completed === true,
+      }))
+      .filter((item) => item.title)
+    : [];
+
+  return {
+    input: {
+      title: str(attrs.title) ?? 'Untitled',
+      notes: str(attrs.notes) ?? undefined,
+      ...schedule,
+      ...(completed ? { status: 'logbook' as const } : canceled ? { status: 'cancelled' as const } : {}),
+      deadline: toDateOnly(attrs.deadline) ?? undefined,
+    },
+    project,
+    heading,
+    area,
+    completed_at: completed ? str(attrs['completion-date']) : null,
+    checklist,
+  };
+}
+
+export function parseThingsJson(text: string): ParsedImport {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Things export is not valid JSON');
+  }
+  if (!Array.isArray(data)) {
+    throw new Error('Things export must be a JSON array of to-dos and projects');
+  }
+
+  const items = data as ThingsJsonItem[];
+  const projects: ImportedProject[] = [];
+  const tasks: ImportedTask[] = [];
+  const warnings: string[] = [];
+
+  const projectTitles = new Set(
+    items.filter((i) => i.type === 'project').map((i) => str(i.attributes?.title)).filter(Boolean)
+  );
+  const areaTitles = new Set(
+    items.filter((i) => i.type === 'project').map((i) => str(i.attributes?.area)).filter(Boolean)
+  );
+
+  for (const item of items) {
+    const attrs = item.attributes ?? {};
+
+    if (item.type === 'project') {
+      const title = str(attrs.title) ?? 'Untitled';
+      const area = str(attrs.area);
+      const headings: string[] = [];
+      let heading: string | null = null;
+
+      // To-dos are filed under the heading that precedes them
+      for (const child of Array.isArray(attrs.items) ? (attrs.items as ThingsJsonItem[]) : []) {
+        if (child.type === 'heading') {
+          heading = str(child.attributes?.title);
+          if (heading && !headings.includes(heading)) headings.push(heading);
+        } else if (child.type === 'to-do') {
+          tasks.push(mapTodo(child.attributes ?? {}, title, heading, area));
+        }
+      }
+
+      let status: ProjectStatus = 'active';
+      if (attrs.completed === true) status = 'completed';
+      else if (attrs.canceled === true) status = 'archived';
+      else if (str(attrs.when)?.toLowerCase() === 'someday') status = 'on_hold';
+
+      projects.push({
+        input: { title, description: str(attrs.notes) ?? undefined, status },
+        area,
+        headings,
+      });
+    } else if (item.type === 'to-do') {
+      // "list" names either a project or an area
+      const list = str(attrs.list);
+      const isArea = list !== null && !projectTitles.has(list) && areaTitles.has(list);
+      tasks.push(mapTodo(attrs, isArea ? null : list, str(attrs.heading), isArea ? list : null));
+    } else {
+      warnings.push(`Skipped unsupported item type "${item.type ?? 'unknown'}"`);
+    }
+  }
+
+  return { format: 'things', projects, tasks, warnings };
+}
+
+// ============================================================================
+// Things 3 database (main.sqlite inside the Things group container)
+// ============================================================================
+
+const TYPE_TODO = 0;
+const TYPE_PROJECT = 1;
+const TYPE_HEADING = 2;
+const STATUS_CANCELED = 2;
+const STATUS_COMPLETED = 3;
+const START_INBOX = 0;
+const START_SOMEDAY = 2;
+
+interface ThingsTaskRow {
+  uuid: string;
+  type: number;
+  status: number;
+  title: string | null;
+  notes: string | null;
+  start: number;
+  startDate: number | null;
+  deadline: number | null;
+  stopDate: number | null;
+  project: string | null;
+  area: string | null;
+  heading: string | null;
+}
+
+interface ThingsChecklistRow {
+  task: string;
+  title: string | null;
+  status: number;
+}
+
+/** Things stores dates as year << 16 | month << 12 | day << 7 */
+export function decodeThingsDate(value: number | null): string | null {
+  if (!value) return null;
+  const year = value >> 16;
+  const month = (value >> 12) & 0xf;
+  const day = (value >> 7) & 0x1f;
+  if (!year || !month || !day) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function decodeTimestamp(value: number | null): string | null {
+  return value ? new Date(value * 1000).toISOString() : null;
+}
+
+/** Read an already opened Things database; trashed items are left out */
+export function parseThingsDatabase(db: Database.Database): ParsedImport {
+  let rows: ThingsTaskRow[];
+  try {
+    rows = db.prepare(`
+      SELECT uuid, type, status, title, notes, start, startDate, deadline, stopDate, project, area, heading
+      FROM TMTask WHERE trashed = 0 ORDER BY "index"
+    `).all() as ThingsTaskRow[];
+  } catch {
+    throw new Error('File is not a Things 3 database');
+  }
+
+  const areas = new Map(
+    (db.prepare('SELECT uuid, title FROM TMArea').all() as { uuid: string; title: string | null }[])
+      .map((a) => [a.uuid, a.title?.trim() || null])
+  );
+  const checklistByTask = new Map<string, ThingsChecklistRow[]>();
+  for (const row of db.prepare('SELECT task, title, status FROM TMChecklistItem ORDER BY "index"').all() as ThingsChecklistRow[]) {
+    const list = checklistByTask.get(row.task) ?? [];
+    list.push(row);
+    checklistByTask.set(row.task, list);
+  }
+
+  const byId = new Map(rows.map((r) => [r.uuid, r]));
+  const projects: ImportedProject[] = [];
+  const tasks: ImportedTask[] = [];
+  const projectTitle = (uuid: string | null) => (uuid ? byId.get(uuid)?.title?.trim() || null : null);
+
+  for (const row of rows.filter((r) => r.type === TYPE_PROJECT)) {
+    let status: ProjectStatus = 'active';
+    if (row.status === STATUS_COMPLETED) status = 'completed';
+    else if (row.status === STATUS_CANCELED) status = 'archived';
+    else if (row.start === START_SOMEDAY && !row.startDate) status = 'on_hold';
+
+    projects.push({
+      input: { title: row.title?.trim() || 'Untitled', description: row.notes?.trim() || undefined, status },
+      area: row.area ? areas.get(row.area) ?? null : null,
+      headings: rows
+        .filter((h) => h.type === TYPE_HEADING && h.project === row.uuid && h.title?.trim())
+        .map((h) => h.title!.trim()),
+    });
+  }
+
+  for (const row of rows.filter((r) => r.type === TYPE_TODO)) {
+    // Tasks under a heading only reference the heading, which holds the project
+    const heading = row.heading ? byId.get(row.heading) ?? null : null;
+    const project = projectTitle(row.project ?? heading?.project ?? null);
+    const area = row.area ? areas.get(row.area) ?? null : null;
+
+    let status: TaskStatus | undefined;
+    const whenDate = decodeThingsDate(row.startDate);
+    if (row.status === STATUS_COMPLETED) status = 'logbook';
+    else if (row.status === STATUS_CANCELED) status = 'cancelled';
+    else if (!whenDate) {
+      if (row.start === START_SOMEDAY) status = 'someday';
+      else if (row.start === START_INBOX) status = 'inbox';
+      else status = 'anytime';
+    }
+
+    tasks.push({
+      input: {
+        title: row.title?.trim() || 'Untitled',
+        notes: row.notes?.trim() || undefined,
+        status,
+        when_date: whenDate ?? undefined,
+        deadline: decodeThingsDate(row.deadline) ?? undefined,
+      },
+      project,
+      heading: heading?.title?.trim() || null,
+      area,
+      completed_at: status === 'logbook' ? decodeTimestamp(row.stopDate) : null,
+      checklist: (checklistByTask.get(row.uuid) ?? [])
+        .filter((c) => c.title?.trim())
+        .map((c) => ({ title: c.title!.trim(), is_done: c.status === STATUS_COMPLETED })),
+    });
+  }
+
+  return { format: 'things', projects, tasks, warnings: [] };
+}
+
+export function readThingsDatabase(filePath: string): ParsedImport {
+  let db: Database.Database;
+  try {
+    db = new Database(filePath, { readonly: true, fileMustExist: true });
+  } catch {
+    throw new Error('File is not a Things 3 database');
+  }
+  try {
+    return parseThingsDatabase(db);
+  } finally {
+    db.close();
+  }
+}
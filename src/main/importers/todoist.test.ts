@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv, parseTodoistCsv, parseTodoistJson } from './todoist';
+
+describe('parseCsv', () => {
+  it('handles quoted fields, escaped quotes and CRLF', () => {
+    expect(parseCsv('a,"b, c","say ""hi"""\r\n1,2,3\r\n')).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['1', '2', '3'],
+    ]);
+  });
+});
+
+describe('parseTodoistCsv', () => {
+  const csv = [
+    'TYPE,CONTENT,DESCRIPTION,PRIORITY,INDENT,AUTHOR,RESPONSIBLE,DATE,DATE_LANG,TIMEZONE',
+    'task,Draft budget @finance,Numbers for Q3,1,1,,,2026-03-02,en,UTC',
+    'task,Collect receipts,,4,2,,,,en,UTC',
+    'note,Ask Sam for the template,,,,,,,,',
+    'section,Later,,,,,,,,',
+    'task,Review,,2,1,,,next week,en,UTC',
+  ].join('\n');
+
+  it('maps tasks, sub-tasks, sections and comments', () => {
+    const parsed = parseTodoistCsv(csv, 'Finance');
+
+    expect(parsed.projects).toEqual([{ input: { title: 'Finance' }, area: null, headings: ['Later'] }]);
+    expect(parsed.tasks).toHaveLength(2);
+    expect(parsed.tasks[0]).toMatchObject({
+      project: 'Finance',
+      heading: null,
+      area: 'finance',
+      input: { title: 'Draft budget', priority: 'P1', when_date: '2026-03-02' },
+      checklist: [{ title: 'Collect receipts', is_done: false }],
+    });
+    expect(parsed.tasks[0].input.notes).toBe('Numbers for Q3\n\nAsk Sam for the template');
+    expect(parsed.tasks[1]).toMatchObject({ heading: 'Later', input: { priority: 'P2', status: 'anytime' } });
+  });
+
+  it('warns about dates it cannot read', () => {
+    expect(parseTodoistCsv(csv, 'Finance').warnings).toEqual(['Dropped date "next week" on "Review"']);
+  });
+
+  it('rejects files without Todoist columns', () => {
+    expect(() => parseTodoistCsv('name,age\nAda,36', 'People')).toThrow('File is not a Todoist CSV export');
+  });
+});
+
+describe('parseTodoistJson', () => {
+  it('maps projects, sections, labels and nested items', () => {
+    const parsed = parseTodoistJson(JSON.stringify({
+      projects: [
+        { id: '1', name: 'Inbox', inbox_project: true },
+        { id: '2', name: 'Home' },
+      ],
+      sections: [{ id: '10', name: 'Garden', project_id: '2' }],
+      items: [
+        { id: 'a', content: 'Call plumber', project_id: '1', priority: 4, labels: ['phone'] },
+        { id: 'b', content: 'Plant tulips', project_id: '2', section_id: '10', due: { date: '2026-04-01' } },
+        { id: 'c', content: 'Buy bulbs', project_id: '2', parent_id: 'b', checked: true },
+        { id: 'd', content: 'Water them', project_id: '2', parent_id: 'c' },
+        { id: 'e', content: 'Mow lawn', project_id: '2', checked: true, completed_at: '2026-02-01T08:00:00Z' },
+        { id: 'f', content: 'Take out trash', project_id: '2', due: { date: '2026-03-03', is_recurring: true, string: 'every tue' } },
+      ],
+    }));
+
+    expect(parsed.projects).toEqual([{ input: { title: 'Home', status: undefined }, area: null, headings: ['Garden'] }]);
+    expect(parsed.tasks.map((t) => t.input.title)).toEqual(['Call plumber', 'Plant tulips', 'Mow lawn', 'Take out trash']);
+    expect(parsed.tasks[0]).toMatchObject({ project: null, area: 'phone', input: { status: 'inbox', priority: 'P1' } });
+    expect(parsed.tasks[1]).toMatchObject({
+      project: 'Home',
+      heading: 'Garden',
+      input: { when_date: '2026-04-01' },
+      checklist: [{ title: 'Buy bulbs', is_done: true }, { title: 'Water them', is_done: false }],
+    });
+    expect(parsed.tasks[2]).toMatchObject({ input: { status: 'logbook' }, completed_at: '2026-02-01T08:00:00Z' });
+    expect(parsed.warnings).toEqual(['Dropped repeat rule "every tue" on "Take out trash"']);
+  });
+
+  it('rejects JSON that is not a Todoist dump', () => {
+    expect(() => parseTodoistJson('[]')).toThrow('Todoist export must contain "projects" and "items"');
+  });
+});
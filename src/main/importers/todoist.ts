@@ -0,0 +1,269 @@
+import type { Priority, TaskStatus } from '@shared/types';
+import { toDateOnly } from './types';
+import type { ImportedTask, ImportedProject, ParsedImport } from './types';
+
+/** Minimal RFC 4180 reader: quoted fields, escaped quotes, CRLF */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((f) => f.trim()));
+}
+
+/** Pull "@label" tokens out of a Todoist task title */
+function extractLabels(content: string): { title: string; labels: string[] } {
+  const labels: string[] = [];
+  const title = content
+    .replace(/(^|\s)@([\p{L}\p{N}_-]+)/gu, (_, lead: string, label: string) => {
+      labels.push(label);
+      return lead;
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+  return { title: title || content.trim(), labels };
+}
+
+function scheduleFor(
+  date: string | null,
+  project: string | null,
+  label: string,
+  warnings: string[],
+): { status?: TaskStatus; when_date?: string } {
+  if (date) {
+    const whenDate = toDateOnly(date);
+    if (whenDate) return { when_date: whenDate };
+    warnings.push(`Dropped date "${date}" on "${label}"`);
+  }
+  return { status: project ? 'anytime' : 'inbox' };
+}
+
+// ============================================================================
+// CSV (per-project export / template)
+// ============================================================================
+
+// The CSV uses the numbers shown in the app: 1 = p1 … 4 = no priority
+const CSV_PRIORITY: Record<string, Priority> = { '1': 'P1', '2': 'P2', '3': 'P3' };
+
+/**
+ * Parse a Todoist project CSV. The file holds one project, named after the
+ * file; sections become headings and indented tasks become checklist items.
+ */
+export function parseTodoistCsv(text: string, projectName: string): ParsedImport {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  const columns = (header ?? []).map((h) => h.trim().toUpperCase());
+  const col = (name: string) => columns.indexOf(name);
+  if (col('TYPE') === -1 || col('CONTENT') === -1) {
+    throw new Error('File is not a Todoist CSV export');
+  }
+
+  const get = (row: string[], name: string) => {
+    const index = col(name);
+    return index === -1 ? '' : (row[index] ?? '').trim();
+  };
+
+  const tasks: ImportedTask[] = [];
+  const headings: string[] = [];
+  const warnings: string[] = [];
+  let heading: string | null = null;
+  let parent: ImportedTask | null = null;
+
+  for (const row of rows) {
+    const type = get(row, 'TYPE').toLowerCase();
+    const content = get(row, 'CONTENT');
+
+    if (type === 'section') {
+      heading = content || null;
+      if (heading && !headings.includes(heading)) headings.push(heading);
+      parent = null;
+    } else if (type === 'task' && content) {
+      const { title, labels } = extractLabels(content);
+      const indent = Number(get(row, 'INDENT')) || 1;
+      if (indent > 1 && parent) {
+        parent.checklist.push({ title, is_done: false });
+        continue;
+      }
+
+      parent = {
+        input: {
+          title,
+          notes: get(row, 'DESCRIPTION') || undefined,
+          priority: CSV_PRIORITY[get(row, 'PRIORITY')],
+          ...scheduleFor(get(row, 'DATE') || null, projectName, title, warnings),
+          deadline: toDateOnly(get(row, 'DEADLINE')) ?? undefined,
+        },
+        project: projectName,
+        heading,
+        area: labels[0] ?? null,
+        completed_at: null,
+        checklist: [],
+      };
+      tasks.push(parent);
+    } else if (type === 'note' && content && parent) {
+      // Comments are kept as trailing notes on the task above them
+      parent.input.notes = parent.input.notes ? `${parent.input.notes}\n\n${content}` : content;
+    }
+  }
+
+  return {
+    format: 'todoist',
+    projects: [{ input: { title: projectName }, area: null, headings }],
+    tasks,
+    warnings,
+  };
+}
+
+// ============================================================================
+// JSON (Sync API dump)
+// ============================================================================
+
+interface TodoistProject {
+  id: string | number;
+  name: string;
+  inbox_project?: boolean;
+  is_inbox_project?: boolean;
+  is_archived?: boolean;
+}
+
+interface TodoistSection {
+  id: string | number;
+  name: string;
+}
+
+interface TodoistItem {
+  id: string | number;
+  content: string;
+  description?: string;
+  project_id?: string | number | null;
+  section_id?: string | number | null;
+  parent_id?: string | number | null;
+  priority?: number;
+  labels?: string[];
+  due?: { date?: string; is_recurring?: boolean; string?: string } | null;
+  deadline?: { date?: string } | null;
+  checked?: boolean;
+  is_completed?: boolean;
+  completed_at?: string | null;
+}
+
+// The API counts the other way round: 4 = p1 … 1 = no priority
+const API_PRIORITY: Record<number, Priority> = { 4: 'P1', 3: 'P2', 2: 'P3' };
+
+export function parseTodoistJson(text: string): ParsedImport {
+  let data: { projects?: TodoistProject[]; sections?: TodoistSection[]; items?: TodoistItem[]; tasks?: TodoistItem[] };
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Todoist export is not valid JSON');
+  }
+  const items = data?.items ?? data?.tasks;
+  if (!Array.isArray(data?.projects) || !Array.isArray(items)) {
+    throw new Error('Todoist export must contain "projects" and "items"');
+  }
+
+  const warnings: string[] = [];
+  const inboxIds = new Set(
+    data.projects.filter((p) => p.inbox_project || p.is_inbox_project).map((p) => String(p.id))
+  );
+  const projectNames = new Map(data.projects.map((p) => [String(p.id), p.name.trim()]));
+  const sectionNames = new Map((data.sections ?? []).map((s) => [String(s.id), s.name.trim()]));
+  const itemsById = new Map(items.map((i) => [String(i.id), i]));
+
+  const projects: ImportedProject[] = data.projects
+    .filter((p) => !inboxIds.has(String(p.id)))
+    .map((p) => ({
+      input: { title: p.name.trim(), status: p.is_archived ? 'archived' as const : undefined },
+      area: null,
+      headings: [],
+    }));
+  const projectsByName = new Map(projects.map((p) => [p.input.title, p]));
+
+  const tasks: ImportedTask[] = [];
+  const tasksById = new Map<string, ImportedTask>();
+
+  // Sub-tasks at any depth collapse into the checklist of their top-level task
+  const rootOf = (item: TodoistItem): TodoistItem => {
+    let current = item;
+    const seen = new Set<string>();
+    while (current.parent_id != null && itemsById.has(String(current.parent_id)) && !seen.has(String(current.id))) {
+      seen.add(String(current.id));
+      current = itemsById.get(String(current.parent_id))!;
+    }
+    return current;
+  };
+
+  for (const item of items.filter((i) => rootOf(i) === i)) {
+    const projectId = item.project_id != null ? String(item.project_id) : null;
+    const project = projectId && !inboxIds.has(projectId) ? projectNames.get(projectId) ?? null : null;
+    const heading = item.section_id != null ? sectionNames.get(String(item.section_id)) ?? null : null;
+    const done = item.checked === true || item.is_completed === true;
+    const { title } = extractLabels(item.content);
+
+    if (item.due?.is_recurring) {
+      warnings.push(`Dropped repeat rule "${item.due.string ?? ''}" on "${title}"`);
+    }
+    if (project && heading) {
+      const headings = projectsByName.get(project)?.headings;
+      if (headings && !headings.includes(heading)) headings.push(heading);
+    }
+
+    const task: ImportedTask = {
+      input: {
+        title,
+        notes: item.description?.trim() || undefined,
+        priority: API_PRIORITY[item.priority ?? 1],
+        ...scheduleFor(item.due?.date ?? null, project, title, warnings),
+        ...(done ? { status: 'logbook' as const } : {}),
+        deadline: toDateOnly(item.deadline?.date) ?? undefined,
+      },
+      project,
+      heading: project ? heading : null,
+      area: item.labels?.[0] ?? null,
+      completed_at: done ? item.completed_at ?? null : null,
+      checklist: [],
+    };
+    tasks.push(task);
+    tasksById.set(String(item.id), task);
+  }
+
+  for (const item of items.filter((i) => rootOf(i) !== i)) {
+    tasksById.get(String(rootOf(item).id))?.checklist.push({
+      title: extractLabels(item.content).title,
+      is_done: item.checked === true || item.is_completed === true,
+    });
+  }
+
+  return { format: 'todoist', projects, tasks, warnings };
+}
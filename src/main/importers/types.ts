@@ -0,0 +1,41 @@
+import type { CreateProjectInput, CreateTaskInput, ImportFormat } from '@shared/types';
+
+/**
+ * Normalized shape every importer produces. Projects, headings and areas are
+ * referenced by name; ids are resolved against the local database when the
+ * import is applied.
+ */
+export interface ImportedChecklistItem {
+  title: string;
+  is_done: boolean;
+}
+
+export interface ImportedTask {
+  input: Omit<CreateTaskInput, 'project_id' | 'heading_id' | 'context_id' | 'source'>;
+  project: string | null;
+  heading: string | null;
+  area: string | null;
+  completed_at: string | null;
+  checklist: ImportedChecklistItem[];
+}
+
+export interface ImportedProject {
+  input: Omit<CreateProjectInput, 'context_id' | 'source'>;
+  area: string | null;
+  headings: string[];
+}
+
+export interface ParsedImport {
+  format: ImportFormat;
+  projects: ImportedProject[];
+  tasks: ImportedTask[];
+  /** Items that could not be mapped and were skipped or simplified */
+  warnings: string[];
+}
+
+/** Accept a YYYY-MM-DD prefix (date or ISO timestamp), otherwise null */
+export function toDateOnly(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const match = /^(\d{4}-\d{2}-\d{2})/.exec(value.trim());
+  return match ? match[1] : null;
+}
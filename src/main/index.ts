@@ -1,6 +1,6 @@
 import 'dotenv/config';
 import fixPath from 'fix-path';
-import { app, BrowserWindow, desktopCapturer, dialog, ipcMain, nativeImage, net, protocol, session, shell } from 'electron';
+import { app, BrowserWindow, desktopCapturer, dialog, ipcMain, nativeImage, net, powerMonitor, protocol, session, shell } from 'electron';
 
 // Ensure Electron inherits the user's shell PATH on macOS so that
 // bundled CLI tools (ffmpeg, whisper-cpp) are discoverable.
@@ -11,8 +11,12 @@ import { initDatabase, closeDatabase, getPowerSyncDatabase } from './db/index.js
 import { registerHandlers } from './ipc/handlers.js';
 import { registerAuthHandlers } from './ipc/auth.js';
 import { registerGlobalShortcuts, unregisterGlobalShortcuts } from './shortcuts.js';
-import { createTaskService } from './services/task.service.js';
+import { createRetentionService } from './services/retention.service.js';
 import { seedDefaultContexts } from './services/context.service.js';
+import { createReminderService } from './services/reminder.service.js';
+import { createTimeEntryService } from './services/time-entry.service.js';
+import { createReminderScheduler, createElectronNotifier, type ReminderScheduler } from './reminders/index.js';
+import { createIdleMonitor, type IdleMonitor } from './time-tracking/index.js';
 import { SupabaseConnector } from './sync/connector.js';
 import { FileAuthStorage } from './sync/auth-storage.js';
 import { getSyncConfig } from '../shared/config.js';
@@ -21,6 +25,9 @@ import { registerSearchHandlers } from './ipc/search-handlers.js';
 import { createRecordingService, createTranscriptionService, createModelManager } from './recording/index.js';
 import { registerRecordingHandlers } from './ipc/recording-handlers.js';
 import { registerTranscriptionHandlers } from './ipc/transcription-handlers.js';
+import { registerSystemHandlers } from './ipc/system-handlers.js';
+import { registerSettingsHandlers } from './ipc/settings-handlers.js';
+import { createSettingsStore, createSafeStorageCipher } from './settings/index.js';
 import type { DbContext } from './db/types.js';
 
 process.on('uncaughtException', (err) => {
@@ -83,6 +90,8 @@ if (!gotTheLock) {
 let mainWindow: BrowserWindow | null = null;
 let disposeTableWatcher: (() => void) | null = null;
 let searchService: SearchService | null = null;
+let reminderScheduler: ReminderScheduler | null = null;
+let idleMonitor: IdleMonitor | null = null;
 
 function createWindow(): void {
   mainWindow = new BrowserWindow({
@@ -158,14 +167,20 @@ app.whenReady().then(async () => {
     return net.fetch(pathToFileURL(resolved).href);
   });
 
+  // Settings are owned by the main process so main-side services read the
+  // same values as the renderer. Like auth, they don't need the local DB.
+  const settingsStore = createSettingsStore(app.getPath('userData'), createSafeStorageCipher());
+  registerSettingsHandlers(settingsStore, () => mainWindow);
+
   // Register auth handlers BEFORE initDatabase() — the renderer can show
   // the login form while the DB is still initialising (especially in prod
   // where Worker spawn from asar is slow). Auth handlers only need the
   // Supabase client, not the local DB.
   const syncConfig = getSyncConfig();
+  let connector: SupabaseConnector | null = null;
   if (syncConfig) {
     const authStorage = new FileAuthStorage(app.getPath('userData'));
-    const connector = new SupabaseConnector(syncConfig, authStorage);
+    connector = new SupabaseConnector(syncConfig, authStorage);
     registerAuthHandlers(connector);
   }
   ipcMain.handle('auth:is-configured', () => !!syncConfig);
@@ -179,7 +194,7 @@ app.whenReady().then(async () => {
         mainWindow.webContents.send('powersync:tables-updated', tables);
       }
     };
-    registerHandlers(db, notifyRenderer, () => searchService);
+    const mainProcessWrites = registerHandlers(db, notifyRenderer, () => searchService, async () => connector?.getUserId() ?? null);
 
     createWindow();
     registerGlobalShortcuts(mainWindow!);
@@ -228,22 +243,23 @@ app.whenReady().then(async () => {
     // Seed default contexts on first run
     seedDefaultContexts(ctx).catch(() => {});
 
-    // Auto-purge trash items older than 30 days
-    const taskService = createTaskService(ctx);
-    taskService.purgeExpiredTrash(30).catch(() => {});
+    // Auto-purge trash items older than the retention period
+    const retentionService = createRetentionService(ctx);
+    retentionService.purgeExpiredTrash(settingsStore.get().trashRetentionDays).catch(() => {});
 
     // Mark stale tasks on startup
-    taskService.markStaleTasks(5).catch(() => {});
+    retentionService.markStaleTasks(settingsStore.get()).catch(() => {});
 
     // Initialize recording service
     const recordingService = createRecordingService(app);
     registerRecordingHandlers(recordingService);
+    registerSystemHandlers(ctx, recordingService, () => mainWindow, () => searchService);
 
     // Initialize transcription service + model manager
     const modelsDir = path.join(app.getPath('userData'), 'whisper-models');
     const transcriptionService = createTranscriptionService(modelsDir);
     const modelManager = createModelManager(app);
-    registerTranscriptionHandlers(transcriptionService, { db }, () => mainWindow, modelManager);
+    registerTranscriptionHandlers(transcriptionService, { db }, () => mainWindow, modelManager, () => settingsStore.get());
 
     // Initialize search service (non-blocking — model loads in background)
     searchService = new SearchService();
@@ -252,30 +268,96 @@ app.whenReady().then(async () => {
       console.error('[Search] Failed to initialize:', err instanceof Error ? err.message : String(err));
     });
 
-    // Watch for PowerSync table changes and notify the renderer
+    // Reminders fire from the main process, so they work while the window is closed.
+    // The PowerSync client id tells devices apart when they claim a reminder.
     const psDb = getPowerSyncDatabase();
+    reminderScheduler = createReminderScheduler({
+      reminderService: createReminderService(ctx),
+      // Completing from a notification is a normal, undoable write
+      taskService: { update: mainProcessWrites.updateTask },
+      notifier: createElectronNotifier(),
+      deviceId: await psDb.getClientId(),
+      openTarget: (target) => {
+        if (!mainWindow) {
+          createWindow();
+          mainWindow!.webContents.once('did-finish-load', () => mainWindow?.webContents.send('reminders:open', target));
+        } else {
+          if (mainWindow.isMinimized()) mainWindow.restore();
+          mainWindow.webContents.send('reminders:open', target);
+        }
+        mainWindow!.show();
+        mainWindow!.focus();
+      },
+    });
+    reminderScheduler.start();
+
+    // Running timers live in the database, so they carry on across restarts.
+    // Time away from the computer is only offered back once the user returns.
+    const idleNotifier = createElectronNotifier();
+    idleMonitor = createIdleMonitor({
+      timeEntryService: createTimeEntryService(ctx),
+      getIdleSeconds: () => powerMonitor.getSystemIdleTime(),
+      warn: (warning) => {
+        if (!mainWindow) return;
+        mainWindow.webContents.send('timeEntries:idle', warning);
+        if (mainWindow.isFocused()) return;
+        const minutes = Math.round((Date.parse(warning.idle_until) - Date.parse(warning.idle_since)) / 60_000);
+        idleNotifier.show(
+          { title: `Away for ${minutes} min`, body: `Your timer on "${warning.task_title}" kept running`, actions: ['open'] },
+          () => {
+            if (mainWindow?.isMinimized()) mainWindow.restore();
+            mainWindow?.show();
+            mainWindow?.focus();
+          },
+        );
+      },
+    });
+    idleMonitor.start();
+
+    // Timers don't run during sleep; catch up on reminders that came due, and count it as time away
+    powerMonitor.on('suspend', () => idleMonitor?.suspend());
+    powerMonitor.on('resume', () => {
+      void reminderScheduler?.check();
+      void idleMonitor?.resume();
+    });
+
+    // Watch for PowerSync table changes and notify the renderer
     disposeTableWatcher = psDb.onChange(
       {
         onChange: (event) => {
           if (mainWindow && !mainWindow.isDestroyed()) {
             mainWindow.webContents.send('powersync:tables-updated', event.changedTables);
           }
+          // Edits and synced claims from other devices change what is due
+          if (event.changedTables.some((table) => ['reminders', 'tasks', 'meetings'].includes(table))) {
+            void reminderScheduler?.check();
+          }
         },
       },
       { throttleMs: 50 },
     );
 
     // Re-check stale tasks on window focus (handles long-running sessions)
+    const runStaleCheck = () => {
+      retentionService.markStaleTasks(settingsStore.get()).then((count) => {
+        if (count > 0) {
+          mainWindow?.webContents.send('tasks:stale-check-complete');
+        }
+      }).catch(() => {});
+    };
     let lastStaleCheck = 0;
     mainWindow!.on('focus', () => {
       const now = Date.now();
       if (now - lastStaleCheck < 60_000) return;
       lastStaleCheck = now;
-      taskService.markStaleTasks(5).then((count) => {
-        if (count > 0) {
-          mainWindow?.webContents.send('tasks:stale-check-complete');
-        }
-      }).catch(() => {});
+      runStaleCheck();
+    });
+    // Apply policy changes right away; the settings UI previews them first
+    settingsStore.onChange((settings, changed) => {
+      if (changed.includes('trashRetentionDays')) {
+        retentionService.purgeExpiredTrash(settings.trashRetentionDays).catch(() => {});
+      }
+      if (changed.some((key) => key.startsWith('stale'))) runStaleCheck();
     });
   } catch (err) {
     // Show the window even on DB failure so the user sees something
@@ -303,6 +385,8 @@ app.on('window-all-closed', () => {
 
 app.on('before-quit', () => {
   disposeTableWatcher?.();
+  reminderScheduler?.stop();
+  idleMonitor?.stop();
   unregisterGlobalShortcuts();
   searchService?.shutdown();
   closeDatabase().catch(() => {});
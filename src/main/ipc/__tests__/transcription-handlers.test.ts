@@ -18,6 +18,7 @@ import type { TranscriptionService } from '../../recording/transcription-service
 import type { ModelManager } from '../../recording/model-manager';
 import type { AsyncDatabase } from '../../db/types';
 import { registerTranscriptionHandlers } from '../transcription-handlers';
+import { DEFAULT_SETTINGS } from '../../../shared/settings-types';
 
 // Minimal mock AsyncDatabase
 function createMockDb(meetingRow: Record<string, unknown> | null = null): AsyncDatabase {
@@ -160,6 +161,20 @@ describe('registerTranscriptionHandlers', () => {
       );
     });
 
+    it('falls back to the stored settings for options the caller leaves out', async () => {
+      vi.mocked(ipcMain.handle).mockClear();
+      registerTranscriptionHandlers(
+        transcriptionService, { db }, getMainWindow as () => Electron.BrowserWindow | null, modelManager,
+        () => ({ ...DEFAULT_SETTINGS, whisperModel: 'small' }),
+      );
+      const handler = getHandler('transcription:start');
+      await handler({}, MOCK_MEETING.id);
+      expect(transcriptionService.transcribe).toHaveBeenCalledWith(
+        MOCK_MEETING.audio_path,
+        expect.objectContaining({ model: 'small' }),
+      );
+    });
+
     it('updates meeting with transcript and status=completed on success', async () => {
       const handler = getHandler('transcription:start');
       await handler({}, MOCK_MEETING.id);
@@ -10,6 +10,7 @@ vi.mock('electron', () => ({
 
 import { ipcMain } from 'electron';
 import { registerHandlers } from './handlers';
+import { nextInstanceId } from '../services/task.service';
 
 describe('IPC handlers', () => {
   let testDb: TestDb;
@@ -37,16 +38,17 @@ describe('IPC handlers', () => {
 
     const channels = vi.mocked(ipcMain.handle).mock.calls.map(([ch]) => ch);
     const expected = [
-      'tasks:list', 'tasks:get', 'tasks:create', 'tasks:update', 'tasks:delete',
+      'tasks:list', 'tasks:get', 'tasks:create', 'tasks:createMany', 'tasks:update', 'tasks:bulkUpdate', 'tasks:move', 'tasks:delete', 'tasks:demote',
       'tasks:listTrashed', 'tasks:restore', 'tasks:emptyTrash', 'tasks:purgeExpiredTrash',
-      'projects:list', 'projects:get', 'projects:create', 'projects:update', 'projects:delete',
+      'projects:list', 'projects:get', 'projects:create', 'projects:update', 'projects:move', 'projects:delete',
+      'projects:listTrashed', 'projects:restore', 'projects:emptyTrash',
       'contexts:list', 'contexts:get', 'contexts:create', 'contexts:update', 'contexts:delete',
     ];
 
     for (const channel of expected) {
       expect(channels).toContain(channel);
     }
-    expect(channels).toHaveLength(expected.length + 5 + 5 + 5 + 3 + 4 + 4 + 5 + 4); // +5 for stakeholder channels, +5 for checklist channels, +5 for note channels, +3 for agent channels, +4 for projectStakeholder channels, +4 for noteStakeholder channels, +5 for meeting channels, +4 for meetingAttendee channels
+    expect(channels).toHaveLength(expected.length + 9 + 7 + 8 + 3 + 4 + 4 + 8 + 4 + 3 + 6 + 3 + 4 + 3 + 7 + 6 + 7 + 5 + 2); // +9 for stakeholder channels, +7 for checklist channels, +8 for note channels, +3 for agent channels, +4 for projectStakeholder channels, +4 for noteStakeholder channels, +8 for meeting channels, +4 for meetingAttendee channels, +3 for dailyNote channels, +6 for projectHeading channels, +3 for undo channels, +4 for taskDependency channels, +3 for reminder channels, +7 for tag channels, +6 for smartList channels, +7 for template channels, +5 for timeEntry channels, +2 for history channels
   });
 
   describe('tasks', () => {
@@ -81,6 +83,26 @@ describe('IPC handlers', () => {
       expect(updated.title).toBe('Changed');
     });
 
+    it('indexes the next instance when tasks:update or tasks:bulkUpdate completes a recurring task', async () => {
+      const searchService = { indexEntity: vi.fn(), removeEntity: vi.fn(), setEntityTags: vi.fn() };
+      registerHandlers(testDb.db, vi.fn(), () => searchService as never);
+      const handlers = Object.fromEntries(
+        vi.mocked(ipcMain.handle).mock.calls.map(([ch, fn]) => [ch, fn])
+      );
+      const today = new Date().toISOString().split('T')[0];
+
+      const daily = await handlers['tasks:create']({} as Electron.IpcMainInvokeEvent, { title: 'Water plants', when_date: today, recurrence: 'daily' });
+      const weekly = await handlers['tasks:create']({} as Electron.IpcMainInvokeEvent, { title: 'Review', when_date: today, recurrence: 'after:7' });
+      searchService.indexEntity.mockClear();
+      await handlers['tasks:update']({} as Electron.IpcMainInvokeEvent, daily.id, { status: 'logbook' });
+      await handlers['tasks:bulkUpdate']({} as Electron.IpcMainInvokeEvent, [weekly.id], { status: 'logbook' });
+
+      await vi.waitFor(() => {
+        expect(searchService.indexEntity).toHaveBeenCalledWith(nextInstanceId(daily.id), 'task', expect.objectContaining({ title: 'Water plants', completed_at: null }));
+        expect(searchService.indexEntity).toHaveBeenCalledWith(nextInstanceId(weekly.id), 'task', expect.objectContaining({ title: 'Review', completed_at: null }));
+      });
+    });
+
     it('tasks:delete soft-deletes a task', async () => {
       registerHandlers(testDb.db, vi.fn());
       const handlers = Object.fromEntries(
@@ -221,6 +243,164 @@ describe('IPC handlers', () => {
       const raw = testDb.getRawProject(created.id);
       expect(raw!.deleted_at).not.toBeNull();
     });
+
+    it('projects:restore re-indexes the project and its tasks for search', async () => {
+      const searchService = { indexEntity: vi.fn(), removeEntity: vi.fn(), setEntityTags: vi.fn() };
+      registerHandlers(testDb.db, vi.fn(), () => searchService as never);
+      const handlers = Object.fromEntries(
+        vi.mocked(ipcMain.handle).mock.calls.map(([ch, fn]) => [ch, fn])
+      );
+
+      const project = await handlers['projects:create']({} as Electron.IpcMainInvokeEvent, { title: 'Comeback' });
+      const task = await handlers['tasks:create']({} as Electron.IpcMainInvokeEvent, { title: 'Step one', project_id: project.id });
+      await handlers['projects:delete']({} as Electron.IpcMainInvokeEvent, project.id);
+      expect(searchService.removeEntity).toHaveBeenCalledWith(task.id);
+      expect(searchService.removeEntity).toHaveBeenCalledWith(project.id);
+
+      searchService.indexEntity.mockClear();
+      await handlers['projects:restore']({} as Electron.IpcMainInvokeEvent, project.id);
+
+      expect(searchService.indexEntity).toHaveBeenCalledWith(project.id, 'project', expect.objectContaining({ deleted_at: null }));
+      expect(searchService.indexEntity).toHaveBeenCalledWith(task.id, 'task', expect.objectContaining({ title: 'Step one' }));
+    });
+  });
+
+  describe('tags', () => {
+    it('indexes tag names with the tagged entity and follows renames', async () => {
+      const searchService = { indexEntity: vi.fn(), removeEntity: vi.fn(), setEntityTags: vi.fn() };
+      registerHandlers(testDb.db, vi.fn(), () => searchService as never);
+      const handlers = Object.fromEntries(
+        vi.mocked(ipcMain.handle).mock.calls.map(([ch, fn]) => [ch, fn])
+      );
+
+      const task = await handlers['tasks:create']({} as Electron.IpcMainInvokeEvent, { title: 'Buy stamps' });
+      const tag = await handlers['tags:create']({} as Electron.IpcMainInvokeEvent, { name: 'errand' });
+      await handlers['tags:tag']({} as Electron.IpcMainInvokeEvent, { tag_id: tag.id, entity_type: 'task', entity_id: task.id });
+      await vi.waitFor(() => expect(searchService.setEntityTags).toHaveBeenLastCalledWith(task.id, ['errand']));
+
+      await handlers['tags:update']({} as Electron.IpcMainInvokeEvent, tag.id, { name: 'town' });
+      await vi.waitFor(() => expect(searchService.setEntityTags).toHaveBeenLastCalledWith(task.id, ['town']));
+
+      await handlers['tags:delete']({} as Electron.IpcMainInvokeEvent, tag.id);
+      await vi.waitFor(() => expect(searchService.setEntityTags).toHaveBeenLastCalledWith(task.id, []));
+    });
+
+    it('rejects tag names with spaces', async () => {
+      const handler = getHandler('tags:create');
+      await expect(handler({} as Electron.IpcMainInvokeEvent, { name: 'two words' })).rejects.toThrow();
+    });
+  });
+
+  describe('smartLists', () => {
+    it('rejects a query that does not parse, with the parser message', async () => {
+      const handler = getHandler('smartLists:create');
+      await expect(handler({} as Electron.IpcMainInvokeEvent, { name: 'Broken', query: 'colour:red' }))
+        .rejects.toThrow(/Unknown field/);
+    });
+  });
+
+  describe('undo', () => {
+    it('undoes a created task with the checklist and new tags it brought', async () => {
+      registerHandlers(testDb.db, vi.fn());
+      const handlers = Object.fromEntries(
+        vi.mocked(ipcMain.handle).mock.calls.map(([ch, fn]) => [ch, fn])
+      );
+      const existing = await handlers['tags:create']({} as Electron.IpcMainInvokeEvent, { name: 'home' });
+
+      const task = await handlers['tasks:create']({} as Electron.IpcMainInvokeEvent, { title: 'Pack', checklist: ['Socks'], tags: ['home', 'travel'] });
+      expect(await handlers['undo:undo']({} as Electron.IpcMainInvokeEvent)).toBe('Create task "Pack"');
+
+      expect(testDb.getRawTask(task.id)!.deleted_at).not.toBeNull();
+      expect(await testDb.db.getAll('SELECT * FROM task_checklists WHERE deleted_at IS NULL')).toEqual([]);
+      expect(await testDb.db.getAll('SELECT * FROM entity_tags WHERE deleted_at IS NULL')).toEqual([]);
+      expect((await handlers['tags:list']({} as Electron.IpcMainInvokeEvent)).map((t: { id: string }) => t.id)).toEqual([existing.id]);
+    });
+
+    it('leaves a daily note in place when undoing the save that created it', async () => {
+      registerHandlers(testDb.db, vi.fn());
+      const handlers = Object.fromEntries(
+        vi.mocked(ipcMain.handle).mock.calls.map(([ch, fn]) => [ch, fn])
+      );
+      const task = await handlers['tasks:create']({} as Electron.IpcMainInvokeEvent, { title: 'Pack' });
+
+      await handlers['dailyNotes:upsert']({} as Electron.IpcMainInvokeEvent, '2026-03-01', 'Shipped the release');
+      // The server has no deleted_at on daily notes, so the create is not undone; the write before it is
+      expect(await handlers['undo:undo']({} as Electron.IpcMainInvokeEvent)).toBe('Create task "Pack"');
+
+      expect(await handlers['dailyNotes:get']({} as Electron.IpcMainInvokeEvent, '2026-03-01')).toMatchObject({ content: 'Shipped the release' });
+      expect(testDb.getRawTask(task.id)!.deleted_at).not.toBeNull();
+    });
+  });
+
+  describe('main process writes', () => {
+    it('completes a task the way tasks:update does: undoable, logged and indexed', async () => {
+      const searchService = { indexEntity: vi.fn(), removeEntity: vi.fn(), setEntityTags: vi.fn() };
+      const writes = registerHandlers(testDb.db, vi.fn(), () => searchService as never);
+      const handlers = Object.fromEntries(
+        vi.mocked(ipcMain.handle).mock.calls.map(([ch, fn]) => [ch, fn])
+      );
+      const task = await handlers['tasks:create']({} as Electron.IpcMainInvokeEvent, { title: 'Call the bank' });
+
+      await writes.updateTask(task.id, { status: 'logbook' });
+
+      expect(searchService.indexEntity).toHaveBeenCalledWith(task.id, 'task', expect.objectContaining({ status: 'logbook' }));
+      const history = await handlers['history:list']({} as Electron.IpcMainInvokeEvent, task.id);
+      expect(history[0].changes.status).toEqual({ from: 'inbox', to: 'logbook' });
+      expect(await handlers['undo:undo']({} as Electron.IpcMainInvokeEvent)).toBe('Complete task "Call the bank"');
+      expect(testDb.getRawTask(task.id)!.status).toBe('inbox');
+    });
+  });
+
+  describe('history', () => {
+    it('records writes and undos, and restores an older version', async () => {
+      const searchService = { indexEntity: vi.fn(), removeEntity: vi.fn(), setEntityTags: vi.fn() };
+      registerHandlers(testDb.db, vi.fn(), () => searchService as never);
+      const handlers = Object.fromEntries(
+        vi.mocked(ipcMain.handle).mock.calls.map(([ch, fn]) => [ch, fn])
+      );
+
+      const task = await handlers['tasks:create']({} as Electron.IpcMainInvokeEvent, { title: 'Draft' });
+      await handlers['tasks:update']({} as Electron.IpcMainInvokeEvent, task.id, { status: 'today' });
+      await handlers['tasks:update']({} as Electron.IpcMainInvokeEvent, task.id, { priority: 'P1' });
+      await handlers['undo:undo']({} as Electron.IpcMainInvokeEvent);
+
+      const history = await handlers['history:list']({} as Electron.IpcMainInvokeEvent, task.id);
+      expect(history.map((c: { action: string }) => c.action)).toEqual(['update', 'update', 'update', 'create']);
+      // The two quick edits were one undo step
+      expect(history[0].changes).toEqual({ status: { from: 'today', to: 'inbox' }, priority: { from: 'P1', to: null } });
+      expect(history[0].source).toBe('user');
+
+      searchService.indexEntity.mockClear();
+      await handlers['history:restore']({} as Electron.IpcMainInvokeEvent, history[1].id);
+
+      expect(testDb.getRawTask(task.id)).toMatchObject({ status: 'today', priority: 'P1' });
+      expect(searchService.indexEntity).toHaveBeenCalledWith(task.id, 'task', expect.objectContaining({ priority: 'P1' }));
+    });
+
+    it('restores a done recurring task with its next instance, as one undo step', async () => {
+      const searchService = { indexEntity: vi.fn(), removeEntity: vi.fn(), setEntityTags: vi.fn() };
+      registerHandlers(testDb.db, vi.fn(), () => searchService as never);
+      const handlers = Object.fromEntries(
+        vi.mocked(ipcMain.handle).mock.calls.map(([ch, fn]) => [ch, fn])
+      );
+      const event = {} as Electron.IpcMainInvokeEvent;
+
+      const task = await handlers['tasks:create'](event, { title: 'Water plants', recurrence: 'daily' });
+      await handlers['tasks:update'](event, task.id, { status: 'logbook' });
+      await handlers['undo:undo'](event);
+      const [, completed] = await handlers['history:list'](event, task.id);
+      searchService.indexEntity.mockClear();
+
+      await handlers['history:restore'](event, completed.id);
+
+      expect(testDb.getRawTask(task.id)!.status).toBe('logbook');
+      await vi.waitFor(() => {
+        expect(searchService.indexEntity).toHaveBeenCalledWith(nextInstanceId(task.id), 'task', expect.objectContaining({ title: 'Water plants' }));
+      });
+      await handlers['undo:undo'](event);
+      expect(testDb.getRawTask(task.id)!.status).not.toBe('logbook');
+      expect(testDb.getRawTask(nextInstanceId(task.id))!.deleted_at).not.toBeNull();
+    });
   });
 
   describe('contexts', () => {
@@ -384,4 +564,192 @@ describe('IPC handlers', () => {
       ).rejects.toThrow();
     });
   });
+
+  describe('dailyNotes', () => {
+    it('dailyNotes:upsert → dailyNotes:get round-trip', async () => {
+      registerHandlers(testDb.db, vi.fn());
+      const handlers = Object.fromEntries(
+        vi.mocked(ipcMain.handle).mock.calls.map(([ch, fn]) => [ch, fn])
+      );
+
+      await handlers['dailyNotes:upsert']({} as Electron.IpcMainInvokeEvent, '2026-03-01', 'Shipped the release');
+      const fetched = await handlers['dailyNotes:get']({} as Electron.IpcMainInvokeEvent, '2026-03-01');
+      expect(fetched).toMatchObject({ date: '2026-03-01', content: 'Shipped the release' });
+    });
+
+    it('dailyNotes:get rejects malformed dates', async () => {
+      registerHandlers(testDb.db, vi.fn());
+      const handlers = Object.fromEntries(
+        vi.mocked(ipcMain.handle).mock.calls.map(([ch, fn]) => [ch, fn])
+      );
+
+      await expect(
+        handlers['dailyNotes:get']({} as Electron.IpcMainInvokeEvent, '03/01/2026')
+      ).rejects.toThrow();
+    });
+
+    it('dailyNotes:upsert rejects non-string content', async () => {
+      registerHandlers(testDb.db, vi.fn());
+      const handlers = Object.fromEntries(
+        vi.mocked(ipcMain.handle).mock.calls.map(([ch, fn]) => [ch, fn])
+      );
+
+      await expect(
+        handlers['dailyNotes:upsert']({} as Electron.IpcMainInvokeEvent, '2026-03-01', 42)
+      ).rejects.toThrow();
+    });
+  });
+
+  describe('projectHeadings', () => {
+    it('projectHeadings:create → projectHeadings:list round-trip', async () => {
+      registerHandlers(testDb.db, vi.fn());
+      const handlers = Object.fromEntries(
+        vi.mocked(ipcMain.handle).mock.calls.map(([ch, fn]) => [ch, fn])
+      );
+
+      const projectId = testDb.createProject({ title: 'Launch' });
+      await handlers['projectHeadings:create']({} as Electron.IpcMainInvokeEvent, { project_id: projectId, title: 'Design' });
+      const headings = await handlers['projectHeadings:list']({} as Electron.IpcMainInvokeEvent, projectId);
+      expect(headings).toHaveLength(1);
+      expect(headings[0]).toMatchObject({ project_id: projectId, title: 'Design' });
+    });
+
+    it('projectHeadings:archive completes the heading\'s tasks', async () => {
+      registerHandlers(testDb.db, vi.fn());
+      const handlers = Object.fromEntries(
+        vi.mocked(ipcMain.handle).mock.calls.map(([ch, fn]) => [ch, fn])
+      );
+
+      const projectId = testDb.createProject({ title: 'Launch' });
+      const heading = await handlers['projectHeadings:create']({} as Electron.IpcMainInvokeEvent, { project_id: projectId, title: 'Design' });
+      const task = await handlers['tasks:create']({} as Electron.IpcMainInvokeEvent, { title: 'Wireframes', project_id: projectId, heading_id: heading.id });
+
+      await handlers['projectHeadings:archive']({} as Electron.IpcMainInvokeEvent, heading.id);
+
+      expect(testDb.getRawTask(task.id)!.status).toBe('logbook');
+    });
+
+    it('projectHeadings:create rejects an empty title', async () => {
+      registerHandlers(testDb.db, vi.fn());
+      const handlers = Object.fromEntries(
+        vi.mocked(ipcMain.handle).mock.calls.map(([ch, fn]) => [ch, fn])
+      );
+
+      const projectId = testDb.createProject({ title: 'Launch' });
+      await expect(
+        handlers['projectHeadings:create']({} as Electron.IpcMainInvokeEvent, { project_id: projectId, title: '' })
+      ).rejects.toThrow();
+    });
+  });
+
+  describe('undo', () => {
+    it('undo:undo reverses the last write and undo:redo reapplies it', async () => {
+      registerHandlers(testDb.db, vi.fn());
+      const handlers = Object.fromEntries(
+        vi.mocked(ipcMain.handle).mock.calls.map(([ch, fn]) => [ch, fn])
+      );
+      const event = {} as Electron.IpcMainInvokeEvent;
+
+      const created = await handlers['tasks:create'](event, { title: 'Water plants' });
+      await handlers['tasks:update'](event, created.id, { status: 'logbook' });
+
+      expect(await handlers['undo:undo'](event)).toBe('Complete task "Water plants"');
+      expect(testDb.getRawTask(created.id)!.status).toBe('inbox');
+
+      expect(await handlers['undo:redo'](event)).toBe('Complete task "Water plants"');
+      expect(testDb.getRawTask(created.id)!.status).toBe('logbook');
+    });
+
+    it('completes a recurring task again after undoing its completion', async () => {
+      registerHandlers(testDb.db, vi.fn());
+      const handlers = Object.fromEntries(
+        vi.mocked(ipcMain.handle).mock.calls.map(([ch, fn]) => [ch, fn])
+      );
+      const event = {} as Electron.IpcMainInvokeEvent;
+
+      const task = await handlers['tasks:create'](event, { title: 'Water plants', recurrence: 'daily', tags: ['home'], checklist: ['Fern'] });
+      await handlers['tasks:update'](event, task.id, { status: 'logbook' });
+      await handlers['undo:undo'](event);
+      expect(testDb.getRawTask(nextInstanceId(task.id))!.deleted_at).not.toBeNull();
+
+      await handlers['tasks:update'](event, task.id, { status: 'logbook' });
+
+      expect(testDb.getRawTask(nextInstanceId(task.id))).toMatchObject({ deleted_at: null, status: expect.any(String), recurrence: 'daily' });
+      expect(await testDb.db.getAll("SELECT tag_id FROM entity_tags WHERE entity_id = ? AND deleted_at IS NULL", [nextInstanceId(task.id)])).toHaveLength(1);
+      expect((await handlers['checklists:list'](event, nextInstanceId(task.id))).map((item: { title: string }) => item.title)).toEqual(['Fern']);
+    });
+
+    it('undo:undo reverts a bulk update in one step', async () => {
+      registerHandlers(testDb.db, vi.fn());
+      const handlers = Object.fromEntries(
+        vi.mocked(ipcMain.handle).mock.calls.map(([ch, fn]) => [ch, fn])
+      );
+      const event = {} as Electron.IpcMainInvokeEvent;
+
+      const a = await handlers['tasks:create'](event, { title: 'A' });
+      const b = await handlers['tasks:create'](event, { title: 'B' });
+      await handlers['tasks:bulkUpdate'](event, [a.id, b.id], { priority: 'P1' });
+
+      await handlers['undo:undo'](event);
+
+      expect(testDb.getRawTask(a.id)!.priority).toBeNull();
+      expect(testDb.getRawTask(b.id)!.priority).toBeNull();
+    });
+
+    it('undo:undo brings back the tasks of a deleted project', async () => {
+      registerHandlers(testDb.db, vi.fn());
+      const handlers = Object.fromEntries(
+        vi.mocked(ipcMain.handle).mock.calls.map(([ch, fn]) => [ch, fn])
+      );
+      const event = {} as Electron.IpcMainInvokeEvent;
+
+      const project = await handlers['projects:create'](event, { title: 'Garden' });
+      const task = await handlers['tasks:create'](event, { title: 'Dig', project_id: project.id });
+      await handlers['projects:delete'](event, project.id);
+
+      await handlers['undo:undo'](event);
+
+      expect(testDb.getRawProject(project.id)!.deleted_at).toBeNull();
+      expect(testDb.getRawTask(task.id)!.deleted_at).toBeNull();
+    });
+
+    it('tasks:demote reindexes the task it joined, and undo:undo turns it back in one step', async () => {
+      const searchService = { indexEntity: vi.fn(), removeEntity: vi.fn(), setEntityTags: vi.fn() };
+      registerHandlers(testDb.db, vi.fn(), () => searchService as never);
+      const handlers = Object.fromEntries(
+        vi.mocked(ipcMain.handle).mock.calls.map(([ch, fn]) => [ch, fn])
+      );
+      const event = {} as Electron.IpcMainInvokeEvent;
+
+      const parent = await handlers['tasks:create'](event, { title: 'Move house' });
+      const task = await handlers['tasks:create'](event, { title: 'Book van' });
+      const item = await handlers['tasks:demote'](event, task.id, parent.id);
+      expect(item).toMatchObject({ task_id: parent.id, title: 'Book van' });
+
+      await vi.waitFor(() => {
+        expect(searchService.indexEntity).toHaveBeenCalledWith(parent.id, 'task', expect.objectContaining({ title: 'Move house' }));
+      });
+      expect(searchService.removeEntity).toHaveBeenCalledWith(task.id);
+
+      expect(await handlers['undo:undo'](event)).toBe('Convert task "Book van"');
+      expect(testDb.getRawTask(task.id)!.deleted_at).toBeNull();
+      expect(await handlers['checklists:list'](event, parent.id)).toEqual([]);
+    });
+
+    it('undo:undo puts back the timer that starting another one stopped', async () => {
+      registerHandlers(testDb.db, vi.fn());
+      const handlers = Object.fromEntries(
+        vi.mocked(ipcMain.handle).mock.calls.map(([ch, fn]) => [ch, fn])
+      );
+      const event = {} as Electron.IpcMainInvokeEvent;
+
+      const spec = await handlers['tasks:create'](event, { title: 'Write spec' });
+      const review = await handlers['tasks:create'](event, { title: 'Review PR' });
+      const first = await handlers['timeEntries:start'](event, spec.id);
+      await handlers['timeEntries:start'](event, review.id);
+
+      expect(await handlers['undo:undo'](event)).toBe('Start timer');
+      expect(await handlers['timeEntries:running'](event)).toMatchObject({ id: first.id, ended_at: null, task_title: 'Write spec' });
+    });
+  });
 });
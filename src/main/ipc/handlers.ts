@@ -1,7 +1,15 @@
 import { ipcMain } from 'electron';
-import { createTaskService } from '../services/task.service';
+import { createTaskService, nextInstanceId } from '../services/task.service';
 import { createProjectService } from '../services/project.service';
+import { createProjectHeadingService } from '../services/project-heading.service';
 import { createProjectStakeholderService } from '../services/project-stakeholder.service';
+import { createTaskDependencyService } from '../services/task-dependency.service';
+import { createReminderService } from '../services/reminder.service';
+import { createTagService } from '../services/tag.service';
+import { createSmartListService } from '../services/smart-list.service';
+import { createTemplateService } from '../services/template.service';
+import { createTimeEntryService } from '../services/time-entry.service';
+import { createChangeLogService, type RestoredRow } from '../services/change-log.service';
 import { createNoteStakeholderService } from '../services/note-stakeholder.service';
 import { createContextService } from '../services/context.service';
 import { createStakeholderService } from '../services/stakeholder.service';
@@ -10,20 +18,35 @@ import { createNoteService } from '../services/note.service';
 import { createAIAgentService } from '../services/ai-agent.service';
 import { createMeetingService } from '../services/meeting.service';
 import { createMeetingAttendeeService } from '../services/meeting-attendee.service';
+import { createDailyNoteService } from '../services/daily-note.service';
+import { createUndoJournal, type RowScope, type UndoJournal, type UndoResult } from './undo-journal';
+import {
+  rows, rowsWhere, rowMatching, trashed, tagsNamed, tasksWhere, taskRows, newTasks, tasksAndNextInstances,
+  headingProjectTasks, changedEntity, runningTimer,
+} from './write-scopes';
 import type { AsyncDatabase } from '../db/types';
 import type { DbContext } from '../db/types';
 import type { SearchService } from '../search/search-service';
 import type { SearchableEntityType } from '@shared/search-types';
+import type { Task, UpdateTaskInput, ProjectHeading, TaggableEntityType, AppliedTemplate } from '@shared/types';
 import {
   CreateNoteSchema, UpdateNoteSchema, NoteIdSchema,
   CreateAIAgentSchema, AIAgentIdSchema,
-  CreateTaskSchema, UpdateTaskSchema, TaskIdSchema,
-  CreateProjectSchema, UpdateProjectSchema, ProjectIdSchema,
+  CreateTaskSchema, CreateTaskListSchema, UpdateTaskSchema, TaskIdSchema, TaskIdListSchema, BulkUpdateTaskSchema,
+  CreateProjectSchema, UpdateProjectSchema, ProjectIdSchema, ProjectIdListSchema,
+  CreateProjectHeadingSchema, UpdateProjectHeadingSchema, ProjectHeadingIdSchema,
   CreateContextSchema, UpdateContextSchema, ContextIdSchema,
   CreateStakeholderSchema, UpdateStakeholderSchema, StakeholderIdSchema,
-  CreateChecklistItemSchema, UpdateChecklistItemSchema, ChecklistItemIdSchema,
-  LinkProjectStakeholderSchema, LinkNoteStakeholderSchema,
+  CreateChecklistItemSchema, UpdateChecklistItemSchema, ChecklistItemIdSchema, ChecklistItemIdListSchema,
+  LinkProjectStakeholderSchema, LinkNoteStakeholderSchema, LinkTaskDependencySchema,
+  CreateReminderSchema, ReminderIdSchema,
+  CreateTagSchema, UpdateTagSchema, TagIdSchema, EntityTagSchema,
+  CreateSmartListSchema, UpdateSmartListSchema, SmartListIdSchema,
+  CreateTemplateSchema, UpdateTemplateSchema, TemplateIdSchema, TemplateNameSchema, ApplyTemplateSchema,
+  TimeRangeSchema, DiscardIdleTimeSchema,
+  EntityIdSchema, EntityChangeIdSchema,
   CreateMeetingSchema, UpdateMeetingSchema, MeetingIdSchema, LinkMeetingAttendeeSchema,
+  DailyNoteDateSchema, UpsertDailyNoteSchema,
 } from '@shared/validation';
 
 export type NotifyChangeFn = (tables: string[]) => void;
@@ -39,39 +62,126 @@ function toIpcError(err: unknown): Error {
   return new Error(String(err));
 }
 
-/** Register a write handler. PowerSync onChange watcher handles renderer notifications. */
-function handleWrite(
-  channel: string,
-  _tables: string[],
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  handler: (...args: any[]) => Promise<unknown>,
-  _notify: NotifyChangeFn,
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  afterSuccess?: (result: unknown, ...args: any[]) => void,
-): void {
+const SEARCHABLE_TABLES: Record<string, SearchableEntityType> = {
+  tasks: 'task',
+  projects: 'project',
+  notes: 'note',
+  meetings: 'meeting',
+  stakeholders: 'stakeholder',
+};
+
+/**
+ * The rows a write touches, from its IPC arguments and, once it has run, its
+ * result. Null for writes Cmd+Z should not reverse.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type HandlerScope = ((args: any[], result?: any) => RowScope[]) | null;
+
+/** Returns the write handler registrar. Changes to the rows in `scope` are recorded in the undo journal.
+ *  PowerSync onChange watcher handles renderer notifications. The registrar returns the wrapped
+ *  write, so the main process can make the same write without going through IPC. */
+function createWriteHandler(journal: UndoJournal) {
+  return function handleWrite(
+    channel: string,
+    scope: HandlerScope,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    handler: (...args: any[]) => Promise<unknown>,
+    _notify: NotifyChangeFn,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    afterSuccess?: (result: unknown, ...args: any[]) => void,
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  ipcMain.handle(channel, async (_: any, ...args: any[]) => {
-    try {
-      const result = await handler(...args);
-      afterSuccess?.(result, ...args);
-      return result;
-    } catch (err) {
-      console.error(`[IPC ${channel}]`, err instanceof Error ? err.message : String(err));
-      throw toIpcError(err);
-    }
-  });
+  ): (...args: any[]) => Promise<unknown> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const write = async (...args: any[]) => {
+      try {
+        const result = scope
+          ? await journal.record(channel, (done) => scope(args, done), () => handler(...args))
+          : await handler(...args);
+        afterSuccess?.(result, ...args);
+        return result;
+      } catch (err) {
+        console.error(`[IPC ${channel}]`, err instanceof Error ? err.message : String(err));
+        throw toIpcError(err);
+      }
+    };
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    ipcMain.handle(channel, (_: any, ...args: any[]) => write(...args));
+    return write;
+  };
+}
+
+/**
+ * Writes the main process makes on the user's behalf (e.g. from a
+ * notification). They go through the same channel wrapper, so they can be
+ * undone and reach the change history and search index like any other.
+ */
+export interface MainProcessWrites {
+  updateTask(id: string, input: UpdateTaskInput): Promise<Task>;
 }
 
-export function registerHandlers(db: AsyncDatabase, notify: NotifyChangeFn, getSearchService?: () => SearchService | null): void {
+export function registerHandlers(
+  db: AsyncDatabase,
+  notify: NotifyChangeFn,
+  getSearchService?: () => SearchService | null,
+  getUserId?: () => Promise<string | null>
+): MainProcessWrites {
   const ctx: DbContext = { db };
+  // Everything the journal sees also goes into the per-entity change history
+  const changeLogService = createChangeLogService(ctx);
+  const journal = createUndoJournal(db, Date.now, (changes) => changeLogService.record(changes));
+  const handleWrite = createWriteHandler(journal);
 
   const indexEntity = (entityType: SearchableEntityType) =>
     (result: unknown) => { const e = result as { id?: string }; if (e?.id) getSearchService?.()?.indexEntity(e.id, entityType, result); };
   const removeEntity = (_result: unknown, id: unknown) => { getSearchService?.()?.removeEntity(id as string); };
 
+  // Tag names are indexed alongside the entity, so tag writes refresh the entities they touch
+  const reindexTags = (entities: Array<{ entity_type: TaggableEntityType; entity_id: string }>) => {
+    const searchService = getSearchService?.();
+    if (!searchService) return;
+    for (const { entity_type, entity_id } of entities) {
+      tagService.getNames(entity_type, entity_id)
+        .then((names) => searchService.setEntityTags(entity_id, names))
+        .catch((err) => console.error('[Search] Tag reindex failed:', err instanceof Error ? err.message : String(err)));
+    }
+  };
+  const reindexTagged = (tagId: string) => {
+    tagService.listTagged(tagId)
+      .then(reindexTags)
+      .catch((err) => console.error('[Search] Tag reindex failed:', err instanceof Error ? err.message : String(err)));
+  };
+
+  // Undone, redone or restored rows get the same search index treatment as a normal write
+  const reindexRows = (rows: RestoredRow[]) => {
+    for (const { table, id, row } of rows) {
+      if (table === 'tags') reindexTagged(id);
+      if (table === 'entity_tags' && row) {
+        reindexTags([{ entity_type: row.entity_type as TaggableEntityType, entity_id: row.entity_id as string }]);
+      }
+      const entityType = SEARCHABLE_TABLES[table];
+      if (!entityType) continue;
+      if (row && !row.deleted_at) getSearchService?.()?.indexEntity(id, entityType, row);
+      else getSearchService?.()?.removeEntity(id);
+    }
+  };
+  const reindexUndone = (result: UndoResult | null) => reindexRows(result?.rows ?? []);
+  const indexApplied = ({ project_id, task_ids }: AppliedTemplate) => {
+    Promise.all([
+      project_id ? projectService.get(project_id).then(indexEntity('project')) : null,
+      ...task_ids.map((id) => taskService.get(id).then(indexEntity('task'))),
+    ]).catch((err) => console.error('[Search] Template index failed:', err instanceof Error ? err.message : String(err)));
+  };
+
   const taskService = createTaskService(ctx);
   const projectService = createProjectService(ctx);
+  const projectHeadingService = createProjectHeadingService(ctx);
   const projectStakeholderService = createProjectStakeholderService(ctx);
+  const taskDependencyService = createTaskDependencyService(ctx);
+  const reminderService = createReminderService(ctx);
+  const tagService = createTagService(ctx);
+  const smartListService = createSmartListService(ctx);
+  const templateService = createTemplateService(ctx);
+  const timeEntryService = createTimeEntryService(ctx);
   const noteStakeholderService = createNoteStakeholderService(ctx);
   const contextService = createContextService(ctx);
   const stakeholderService = createStakeholderService(ctx);
@@ -80,6 +190,7 @@ export function registerHandlers(db: AsyncDatabase, notify: NotifyChangeFn, getS
   const agentService = createAIAgentService(ctx);
   const meetingService = createMeetingService(ctx);
   const meetingAttendeeService = createMeetingAttendeeService(ctx);
+  const dailyNoteService = createDailyNoteService(ctx, getUserId);
 
   // Tasks — reads
   ipcMain.handle('tasks:list', async () => { try { return await taskService.list(); } catch (err) { console.error('[IPC tasks:list]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
@@ -87,95 +198,250 @@ export function registerHandlers(db: AsyncDatabase, notify: NotifyChangeFn, getS
   ipcMain.handle('tasks:listTrashed', async () => { try { return await taskService.listTrashed(); } catch (err) { console.error('[IPC tasks:listTrashed]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
 
   // Tasks — writes
-  handleWrite('tasks:create', ['tasks'], (input) => taskService.create(CreateTaskSchema.parse(input)), notify, indexEntity('task'));
-  handleWrite('tasks:update', ['tasks'], (id, input) => taskService.update(TaskIdSchema.parse(id as string), UpdateTaskSchema.parse(input)), notify, indexEntity('task'));
-  handleWrite('tasks:delete', ['tasks'], (id) => taskService.delete(TaskIdSchema.parse(id as string)), notify, removeEntity);
-  handleWrite('tasks:restore', ['tasks'], (id) => taskService.restore(TaskIdSchema.parse(id as string)), notify, indexEntity('task'));
-  handleWrite('tasks:emptyTrash', ['tasks'], () => taskService.emptyTrash(), notify);
-  handleWrite('tasks:purgeExpiredTrash', ['tasks'], (days) => taskService.purgeExpiredTrash(days as number), notify);
+  const indexCreatedTask = (result: unknown) => {
+    indexEntity('task')(result);
+    reindexTags([{ entity_type: 'task', entity_id: (result as { id: string }).id }]);
+  };
+  handleWrite('tasks:create', ([input], result) => newTasks(result, input?.tags), (input) => taskService.create(CreateTaskSchema.parse(input)), notify, indexCreatedTask);
+  handleWrite('tasks:createMany', ([inputs], result) => newTasks(result, (Array.isArray(inputs) ? inputs : []).flatMap((input) => input?.tags ?? [])), (inputs) => taskService.createMany(CreateTaskListSchema.parse(inputs)), notify, (result) => (result as unknown[]).forEach(indexCreatedTask));
+  // Completing a recurring task spawns the next instance, which is searchable too
+  const indexNextInstance = (task: Task) => {
+    if (task.status !== 'logbook') return;
+    taskService.get(nextInstanceId(task.id))
+      .then((next) => { if (next) indexCreatedTask(next); })
+      .catch((err) => console.error('[Search] Next instance index failed:', err instanceof Error ? err.message : String(err)));
+  };
+  const indexUpdatedTask = (result: unknown) => {
+    indexEntity('task')(result);
+    indexNextInstance(result as Task);
+  };
+  // Completing a recurring task copies its checklist and tags to the next instance
+  const updateTask = handleWrite('tasks:update', ([id]) => tasksAndNextInstances(id), (id, input) => taskService.update(TaskIdSchema.parse(id as string), UpdateTaskSchema.parse(input)), notify, indexUpdatedTask);
+  handleWrite('tasks:bulkUpdate', ([ids]) => tasksAndNextInstances(ids), (ids, input) => taskService.bulkUpdate(TaskIdListSchema.parse(ids), BulkUpdateTaskSchema.parse(input)), notify, (result, ids, input) => {
+    if ((input as { delete?: boolean }).delete) (ids as string[]).forEach((id) => removeEntity(null, id));
+    else (result as unknown[]).forEach(indexUpdatedTask);
+  });
+  handleWrite('tasks:move', ([id, orderedIds]) => [rows('tasks', [id, orderedIds])], (id, orderedIds) => taskService.move(TaskIdSchema.parse(id as string), TaskIdListSchema.parse(orderedIds)), notify);
+  handleWrite('tasks:delete', ([id]) => taskRows(id), (id) => taskService.delete(TaskIdSchema.parse(id as string)), notify, removeEntity);
+  handleWrite('tasks:demote', ([id, targetTaskId]) => taskRows([id, targetTaskId]), (id, targetTaskId) => taskService.demote(TaskIdSchema.parse(id as string), TaskIdSchema.parse(targetTaskId as string)), notify, (_result, id, targetTaskId) => {
+    removeEntity(null, id);
+    // The task it joined has a new checklist item
+    taskService.get(targetTaskId as string)
+      .then(indexEntity('task'))
+      .catch((err) => console.error('[Search] Demote target index failed:', err instanceof Error ? err.message : String(err)));
+  });
+  handleWrite('tasks:restore', ([id]) => [rows('tasks', id)], (id) => taskService.restore(TaskIdSchema.parse(id as string)), notify, indexEntity('task'));
+  handleWrite('tasks:emptyTrash', () => [trashed('tasks')], () => taskService.emptyTrash(), notify);
+  handleWrite('tasks:purgeExpiredTrash', null, (days) => taskService.purgeExpiredTrash(days as number), notify);
 
   // Projects — reads
   ipcMain.handle('projects:list', async () => { try { return await projectService.getAll(); } catch (err) { console.error('[IPC projects:list]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
   ipcMain.handle('projects:get', async (_, id: string) => { try { return await projectService.get(ProjectIdSchema.parse(id)); } catch (err) { console.error('[IPC projects:get]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
+  ipcMain.handle('projects:listTrashed', async () => { try { return await projectService.listTrashed(); } catch (err) { console.error('[IPC projects:listTrashed]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
 
   // Projects — writes
-  handleWrite('projects:create', ['projects'], (input) => projectService.create(CreateProjectSchema.parse(input)), notify, indexEntity('project'));
-  handleWrite('projects:update', ['projects'], (id, input) => projectService.update(ProjectIdSchema.parse(id as string), UpdateProjectSchema.parse(input)), notify, indexEntity('project'));
-  handleWrite('projects:delete', ['projects'], (id) => projectService.delete(ProjectIdSchema.parse(id as string)), notify, removeEntity);
+  handleWrite('projects:create', (_, result) => [rows('projects', result)], (input) => projectService.create(CreateProjectSchema.parse(input)), notify, indexEntity('project'));
+  handleWrite('projects:update', ([id]) => [rows('projects', id)], (id, input) => projectService.update(ProjectIdSchema.parse(id as string), UpdateProjectSchema.parse(input)), notify, indexEntity('project'));
+  handleWrite('projects:move', ([id, orderedIds]) => [rows('projects', [id, orderedIds])], (id, orderedIds) => projectService.move(ProjectIdSchema.parse(id as string), ProjectIdListSchema.parse(orderedIds)), notify);
+  // Tasks follow their project into the trash and back, so the index follows too
+  handleWrite('projects:delete', ([id]) => [rows('projects', id), ...tasksWhere('project_id', id)], async (id) => {
+    const projectId = ProjectIdSchema.parse(id as string);
+    const tasks = await projectService.getTasksForProject(projectId);
+    await projectService.delete(projectId);
+    tasks.forEach((task) => getSearchService?.()?.removeEntity(task.id));
+  }, notify, removeEntity);
+  handleWrite('projects:restore', ([id]) => [rows('projects', id), ...tasksWhere('project_id', id)], async (id) => {
+    const project = await projectService.restore(ProjectIdSchema.parse(id as string));
+    const indexTask = indexEntity('task');
+    (await projectService.getTasksForProject(project.id)).forEach(indexTask);
+    return project;
+  }, notify, indexEntity('project'));
+  handleWrite('projects:emptyTrash', () => [trashed('projects'), trashed('tasks')], () => projectService.emptyTrash(), notify);
+
+  // Project Headings — reads
+  ipcMain.handle('projectHeadings:list', async (_, projectId: string) => { try { return await projectHeadingService.listByProject(ProjectIdSchema.parse(projectId)); } catch (err) { console.error('[IPC projectHeadings:list]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
+
+  // Project Headings — writes
+  handleWrite('projectHeadings:create', (_, result) => [rows('project_headings', result)], (input) => projectHeadingService.create(CreateProjectHeadingSchema.parse(input)), notify);
+  handleWrite('projectHeadings:update', ([id]) => [rows('project_headings', id)], (id, input) => projectHeadingService.update(ProjectHeadingIdSchema.parse(id as string), UpdateProjectHeadingSchema.parse(input)), notify);
+  handleWrite('projectHeadings:delete', ([id]) => [rows('project_headings', id), rowsWhere('tasks', 'heading_id', id)], (id) => projectHeadingService.delete(ProjectHeadingIdSchema.parse(id as string)), notify);
+  handleWrite('projectHeadings:reorder', ([, headingIds]) => [rows('project_headings', headingIds)], (projectId, headingIds) => projectHeadingService.reorder(ProjectIdSchema.parse(projectId as string), headingIds as string[]), notify);
+  // Archiving completes the heading's tasks, spawning next instances of recurring ones
+  handleWrite('projectHeadings:archive', ([id]) => [rows('project_headings', id), ...headingProjectTasks(id)], (id) => projectHeadingService.archive(ProjectHeadingIdSchema.parse(id as string)), notify, (result) => {
+    const heading = result as ProjectHeading;
+    projectService.getTasksForProject(heading.project_id)
+      .then((tasks) => tasks.filter((task) => task.heading_id === heading.id).forEach(indexUpdatedTask))
+      .catch((err) => console.error('[Search] Heading task index failed:', err instanceof Error ? err.message : String(err)));
+  });
 
   // Contexts — reads
   ipcMain.handle('contexts:list', async () => { try { return await contextService.getAll(); } catch (err) { console.error('[IPC contexts:list]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
   ipcMain.handle('contexts:get', async (_, id: string) => { try { return await contextService.get(ContextIdSchema.parse(id)); } catch (err) { console.error('[IPC contexts:get]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
 
   // Contexts — writes
-  handleWrite('contexts:create', ['contexts'], (input) => contextService.create(CreateContextSchema.parse(input)), notify);
-  handleWrite('contexts:update', ['contexts'], (id, input) => contextService.update(ContextIdSchema.parse(id as string), UpdateContextSchema.parse(input)), notify);
-  handleWrite('contexts:delete', ['contexts'], (id) => contextService.delete(ContextIdSchema.parse(id as string)), notify);
+  handleWrite('contexts:create', (_, result) => [rows('contexts', result)], (input) => contextService.create(CreateContextSchema.parse(input)), notify);
+  handleWrite('contexts:update', ([id]) => [rows('contexts', id)], (id, input) => contextService.update(ContextIdSchema.parse(id as string), UpdateContextSchema.parse(input)), notify);
+  handleWrite('contexts:delete', ([id]) => [rows('contexts', id), rowsWhere('projects', 'context_id', id), rowsWhere('tasks', 'context_id', id)], (id) => contextService.delete(ContextIdSchema.parse(id as string)), notify);
 
   // Stakeholders — reads
   ipcMain.handle('stakeholders:list', async () => { try { return await stakeholderService.getAll(); } catch (err) { console.error('[IPC stakeholders:list]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
   ipcMain.handle('stakeholders:get', async (_, id: string) => { try { return await stakeholderService.get(StakeholderIdSchema.parse(id)); } catch (err) { console.error('[IPC stakeholders:get]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
+  ipcMain.handle('stakeholders:listTrashed', async () => { try { return await stakeholderService.listTrashed(); } catch (err) { console.error('[IPC stakeholders:listTrashed]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
+  ipcMain.handle('stakeholders:lastContacts', async () => { try { return await stakeholderService.lastContacts(); } catch (err) { console.error('[IPC stakeholders:lastContacts]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
 
   // Stakeholders — writes
-  handleWrite('stakeholders:create', ['stakeholders'], (input) => stakeholderService.create(CreateStakeholderSchema.parse(input)), notify, indexEntity('stakeholder'));
-  handleWrite('stakeholders:update', ['stakeholders'], (id, input) => stakeholderService.update(StakeholderIdSchema.parse(id as string), UpdateStakeholderSchema.parse(input)), notify, indexEntity('stakeholder'));
-  handleWrite('stakeholders:delete', ['stakeholders'], (id) => stakeholderService.delete(StakeholderIdSchema.parse(id as string)), notify, removeEntity);
+  handleWrite('stakeholders:create', (_, result) => [rows('stakeholders', result)], (input) => stakeholderService.create(CreateStakeholderSchema.parse(input)), notify, indexEntity('stakeholder'));
+  handleWrite('stakeholders:update', ([id]) => [rows('stakeholders', id)], (id, input) => stakeholderService.update(StakeholderIdSchema.parse(id as string), UpdateStakeholderSchema.parse(input)), notify, indexEntity('stakeholder'));
+  handleWrite('stakeholders:delete', ([id]) => [rows('stakeholders', id)], (id) => stakeholderService.delete(StakeholderIdSchema.parse(id as string)), notify, removeEntity);
+  handleWrite('stakeholders:restore', ([id]) => [rows('stakeholders', id)], (id) => stakeholderService.restore(StakeholderIdSchema.parse(id as string)), notify, indexEntity('stakeholder'));
+  handleWrite('stakeholders:emptyTrash', () => [trashed('stakeholders')], () => stakeholderService.emptyTrash(), notify);
+
+  // Task Dependencies — reads
+  ipcMain.handle('taskDependencies:list', async () => { try { return await taskDependencyService.list(); } catch (err) { console.error('[IPC taskDependencies:list]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
+  ipcMain.handle('taskDependencies:listByTask', async (_, taskId: string) => { try { return await taskDependencyService.listByTask(TaskIdSchema.parse(taskId)); } catch (err) { console.error('[IPC taskDependencies:listByTask]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
+
+  // Task Dependencies — writes
+  handleWrite('taskDependencies:link', ([input]) => [rowMatching('task_dependencies', { task_id: input?.task_id, blocked_by_task_id: input?.blocked_by_task_id })], (input) => { const parsed = LinkTaskDependencySchema.parse(input); return taskDependencyService.link(parsed.task_id, parsed.blocked_by_task_id); }, notify);
+  handleWrite('taskDependencies:unlink', ([input]) => [rowMatching('task_dependencies', { task_id: input?.task_id, blocked_by_task_id: input?.blocked_by_task_id })], (input) => { const parsed = LinkTaskDependencySchema.parse(input); return taskDependencyService.unlink(parsed.task_id, parsed.blocked_by_task_id); }, notify);
+
+  // Reminders — reads (the scheduler in the main process fires them)
+  ipcMain.handle('reminders:list', async () => { try { return await reminderService.list(); } catch (err) { console.error('[IPC reminders:list]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
+
+  // Reminders — writes
+  handleWrite('reminders:create', (_, result) => [rows('reminders', result)], (input) => reminderService.create(CreateReminderSchema.parse(input)), notify);
+  handleWrite('reminders:delete', ([id]) => [rows('reminders', id)], (id) => reminderService.delete(ReminderIdSchema.parse(id as string)), notify);
+
+  // Tags — reads
+  ipcMain.handle('tags:list', async () => { try { return await tagService.list(); } catch (err) { console.error('[IPC tags:list]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
+  ipcMain.handle('tags:listEntityTags', async () => { try { return await tagService.listEntityTags(); } catch (err) { console.error('[IPC tags:listEntityTags]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
+
+  // Tags — writes
+  handleWrite('tags:create', ([input]) => [tagsNamed([input?.name])], (input) => tagService.create(CreateTagSchema.parse(input)), notify);
+  handleWrite('tags:update', ([id]) => [rows('tags', id)], (id, input) => tagService.update(TagIdSchema.parse(id as string), UpdateTagSchema.parse(input)), notify, (_result, id) => reindexTagged(id as string));
+  handleWrite('tags:delete', ([id]) => [rows('tags', id), rowsWhere('entity_tags', 'tag_id', id)], (id) => tagService.delete(TagIdSchema.parse(id as string)), notify, (_result, id) => reindexTagged(id as string));
+  handleWrite('tags:tag', ([input]) => [rowMatching('entity_tags', { tag_id: input?.tag_id, entity_type: input?.entity_type, entity_id: input?.entity_id })], (input) => tagService.tag(EntityTagSchema.parse(input)), notify, (_result, input) => reindexTags([input as { entity_type: TaggableEntityType; entity_id: string }]));
+  handleWrite('tags:untag', ([input]) => [rowMatching('entity_tags', { tag_id: input?.tag_id, entity_type: input?.entity_type, entity_id: input?.entity_id })], (input) => tagService.untag(EntityTagSchema.parse(input)), notify, (_result, input) => reindexTags([input as { entity_type: TaggableEntityType; entity_id: string }]));
+
+  // Smart lists — reads
+  ipcMain.handle('smartLists:list', async () => { try { return await smartListService.list(); } catch (err) { console.error('[IPC smartLists:list]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
+  ipcMain.handle('smartLists:tasks', async (_, id: string) => { try { return await smartListService.listTasks(SmartListIdSchema.parse(id)); } catch (err) { console.error('[IPC smartLists:tasks]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
+  ipcMain.handle('smartLists:counts', async () => { try { return await smartListService.counts(); } catch (err) { console.error('[IPC smartLists:counts]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
+
+  // Smart lists — writes
+  handleWrite('smartLists:create', (_, result) => [rows('smart_lists', result)], (input) => smartListService.create(CreateSmartListSchema.parse(input)), notify);
+  handleWrite('smartLists:update', ([id]) => [rows('smart_lists', id)], (id, input) => smartListService.update(SmartListIdSchema.parse(id as string), UpdateSmartListSchema.parse(input)), notify);
+  handleWrite('smartLists:delete', ([id]) => [rows('smart_lists', id)], (id) => smartListService.delete(SmartListIdSchema.parse(id as string)), notify);
+
+  // Templates — reads
+  ipcMain.handle('templates:list', async () => { try { return await templateService.list(); } catch (err) { console.error('[IPC templates:list]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
+
+  // Templates — writes
+  handleWrite('templates:create', (_, result) => [rows('templates', result)], (input) => templateService.create(CreateTemplateSchema.parse(input)), notify);
+  handleWrite('templates:update', ([id]) => [rows('templates', id)], (id, input) => templateService.update(TemplateIdSchema.parse(id as string), UpdateTemplateSchema.parse(input)), notify);
+  handleWrite('templates:delete', ([id]) => [rows('templates', id)], (id) => templateService.delete(TemplateIdSchema.parse(id as string)), notify);
+  handleWrite('templates:fromProject', (_, result) => [rows('templates', result)], (projectId, name) => templateService.createFromProject(ProjectIdSchema.parse(projectId as string), TemplateNameSchema.parse(name)), notify);
+  handleWrite('templates:fromTask', (_, result) => [rows('templates', result)], (taskId, name) => templateService.createFromTask(TaskIdSchema.parse(taskId as string), TemplateNameSchema.parse(name)), notify);
+  handleWrite('templates:apply', (_, result) => [rows('projects', result?.project_id), rowsWhere('project_headings', 'project_id', result?.project_id), ...taskRows(result?.task_ids)], (id, input) => templateService.apply(TemplateIdSchema.parse(id as string), ApplyTemplateSchema.parse(input ?? {})), notify, (result) => indexApplied(result as AppliedTemplate));
+
+  // Time entries — reads (the idle monitor in the main process watches the running one)
+  ipcMain.handle('timeEntries:running', async () => { try { return await timeEntryService.getRunning(); } catch (err) { console.error('[IPC timeEntries:running]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
+  ipcMain.handle('timeEntries:report', async (_, range: unknown) => { try { return await timeEntryService.report(TimeRangeSchema.parse(range), new Date()); } catch (err) { console.error('[IPC timeEntries:report]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
+
+  // Time entries — writes
+  handleWrite('timeEntries:start', (_, result) => [runningTimer, rows('time_entries', result)], (taskId) => timeEntryService.start(TaskIdSchema.parse(taskId as string)), notify);
+  handleWrite('timeEntries:stop', () => [runningTimer], () => timeEntryService.stop(), notify);
+  handleWrite('timeEntries:discardIdle', ([input], result) => [rows('time_entries', [input?.entry_id, result])], (input) => {
+    const { entry_id, idle_since, resume } = DiscardIdleTimeSchema.parse(input);
+    return timeEntryService.discardIdle(entry_id, new Date(idle_since), resume);
+  }, notify);
+
+  // History
+  ipcMain.handle('history:list', async (_, entityId: string) => { try { return await changeLogService.list(EntityIdSchema.parse(entityId)); } catch (err) { console.error('[IPC history:list]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
+  handleWrite('history:restore', ([changeId], result) => changedEntity(changeId, result as RestoredRow | undefined), (changeId) => changeLogService.restore(EntityChangeIdSchema.parse(changeId as string)), notify, (result) => {
+    const restored = result as RestoredRow;
+    reindexRows([restored]);
+    if (restored.table === 'tasks' && restored.row) indexNextInstance(restored.row as unknown as Task);
+  });
 
   // Project Stakeholders — reads
   ipcMain.handle('projectStakeholders:list', async (_, projectId: string) => { try { return await projectStakeholderService.listByProject(ProjectIdSchema.parse(projectId)); } catch (err) { console.error('[IPC projectStakeholders:list]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
   ipcMain.handle('projectStakeholders:listByStakeholder', async (_, stakeholderId: string) => { try { return await projectStakeholderService.listByStakeholder(StakeholderIdSchema.parse(stakeholderId)); } catch (err) { console.error('[IPC projectStakeholders:listByStakeholder]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
 
   // Project Stakeholders — writes
-  handleWrite('projectStakeholders:link', ['project_stakeholders'], (input) => { const parsed = LinkProjectStakeholderSchema.parse(input); return projectStakeholderService.link(parsed.project_id, parsed.stakeholder_id); }, notify);
-  handleWrite('projectStakeholders:unlink', ['project_stakeholders'], (input) => { const parsed = LinkProjectStakeholderSchema.parse(input); return projectStakeholderService.unlink(parsed.project_id, parsed.stakeholder_id); }, notify);
+  handleWrite('projectStakeholders:link', ([input]) => [rowMatching('project_stakeholders', { project_id: input?.project_id, stakeholder_id: input?.stakeholder_id })], (input) => { const parsed = LinkProjectStakeholderSchema.parse(input); return projectStakeholderService.link(parsed.project_id, parsed.stakeholder_id); }, notify);
+  handleWrite('projectStakeholders:unlink', ([input]) => [rowMatching('project_stakeholders', { project_id: input?.project_id, stakeholder_id: input?.stakeholder_id })], (input) => { const parsed = LinkProjectStakeholderSchema.parse(input); return projectStakeholderService.unlink(parsed.project_id, parsed.stakeholder_id); }, notify);
 
   // Note Stakeholders — reads
   ipcMain.handle('noteStakeholders:list', async (_, noteId: string) => { try { return await noteStakeholderService.listByNote(NoteIdSchema.parse(noteId)); } catch (err) { console.error('[IPC noteStakeholders:list]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
   ipcMain.handle('noteStakeholders:listByStakeholder', async (_, stakeholderId: string) => { try { return await noteStakeholderService.listByStakeholder(StakeholderIdSchema.parse(stakeholderId)); } catch (err) { console.error('[IPC noteStakeholders:listByStakeholder]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
 
   // Note Stakeholders — writes
-  handleWrite('noteStakeholders:link', ['note_stakeholders'], (input) => { const parsed = LinkNoteStakeholderSchema.parse(input); return noteStakeholderService.link(parsed.note_id, parsed.stakeholder_id); }, notify);
-  handleWrite('noteStakeholders:unlink', ['note_stakeholders'], (input) => { const parsed = LinkNoteStakeholderSchema.parse(input); return noteStakeholderService.unlink(parsed.note_id, parsed.stakeholder_id); }, notify);
+  handleWrite('noteStakeholders:link', ([input]) => [rowMatching('note_stakeholders', { note_id: input?.note_id, stakeholder_id: input?.stakeholder_id })], (input) => { const parsed = LinkNoteStakeholderSchema.parse(input); return noteStakeholderService.link(parsed.note_id, parsed.stakeholder_id); }, notify);
+  handleWrite('noteStakeholders:unlink', ([input]) => [rowMatching('note_stakeholders', { note_id: input?.note_id, stakeholder_id: input?.stakeholder_id })], (input) => { const parsed = LinkNoteStakeholderSchema.parse(input); return noteStakeholderService.unlink(parsed.note_id, parsed.stakeholder_id); }, notify);
 
   // Checklists — reads
   ipcMain.handle('checklists:list', async (_, taskId: string) => { try { return await checklistService.listByTask(TaskIdSchema.parse(taskId)); } catch (err) { console.error('[IPC checklists:list]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
 
   // Checklists — writes
-  handleWrite('checklists:create', ['task_checklists'], (input) => checklistService.create(CreateChecklistItemSchema.parse(input)), notify);
-  handleWrite('checklists:update', ['task_checklists'], (id, input) => checklistService.update(ChecklistItemIdSchema.parse(id as string), UpdateChecklistItemSchema.parse(input)), notify);
-  handleWrite('checklists:delete', ['task_checklists'], (id) => checklistService.delete(ChecklistItemIdSchema.parse(id as string)), notify);
-  handleWrite('checklists:reorder', ['task_checklists'], (taskId, itemIds) => checklistService.reorder(TaskIdSchema.parse(taskId as string), itemIds as string[]), notify);
+  handleWrite('checklists:create', (_, result) => [rows('task_checklists', result)], (input) => checklistService.create(CreateChecklistItemSchema.parse(input)), notify);
+  handleWrite('checklists:update', ([id]) => [rows('task_checklists', id)], (id, input) => checklistService.update(ChecklistItemIdSchema.parse(id as string), UpdateChecklistItemSchema.parse(input)), notify);
+  handleWrite('checklists:delete', ([id]) => [rows('task_checklists', id)], (id) => checklistService.delete(ChecklistItemIdSchema.parse(id as string)), notify);
+  handleWrite('checklists:reorder', ([, itemIds]) => [rows('task_checklists', itemIds)], (taskId, itemIds) => checklistService.reorder(TaskIdSchema.parse(taskId as string), itemIds as string[]), notify);
+  handleWrite('checklists:move', ([id, orderedIds]) => [rows('task_checklists', [id, orderedIds])], (id, orderedIds) => checklistService.move(ChecklistItemIdSchema.parse(id as string), ChecklistItemIdListSchema.parse(orderedIds)), notify);
+  handleWrite('checklists:promote', ([id], result) => [rows('task_checklists', id), ...taskRows(result)], (id) => checklistService.promote(ChecklistItemIdSchema.parse(id as string)), notify, indexEntity('task'));
 
   // Notes — reads
   ipcMain.handle('notes:list', async () => { try { return await noteService.list(); } catch (err) { console.error('[IPC notes:list]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
   ipcMain.handle('notes:get', async (_, id: string) => { try { return await noteService.get(NoteIdSchema.parse(id)); } catch (err) { console.error('[IPC notes:get]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
+  ipcMain.handle('notes:listTrashed', async () => { try { return await noteService.listTrashed(); } catch (err) { console.error('[IPC notes:listTrashed]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
 
   // Notes — writes
-  handleWrite('notes:create', ['notes'], (input) => noteService.create(CreateNoteSchema.parse(input)), notify, indexEntity('note'));
-  handleWrite('notes:update', ['notes'], (id, input) => noteService.update(NoteIdSchema.parse(id as string), UpdateNoteSchema.parse(input)), notify, indexEntity('note'));
-  handleWrite('notes:delete', ['notes'], (id) => noteService.delete(NoteIdSchema.parse(id as string)), notify, removeEntity);
+  handleWrite('notes:create', (_, result) => [rows('notes', result)], (input) => noteService.create(CreateNoteSchema.parse(input)), notify, indexEntity('note'));
+  handleWrite('notes:update', ([id]) => [rows('notes', id)], (id, input) => noteService.update(NoteIdSchema.parse(id as string), UpdateNoteSchema.parse(input)), notify, indexEntity('note'));
+  handleWrite('notes:delete', ([id]) => [rows('notes', id)], (id) => noteService.delete(NoteIdSchema.parse(id as string)), notify, removeEntity);
+  handleWrite('notes:restore', ([id]) => [rows('notes', id)], (id) => noteService.restore(NoteIdSchema.parse(id as string)), notify, indexEntity('note'));
+  handleWrite('notes:emptyTrash', () => [trashed('notes')], () => noteService.emptyTrash(), notify);
 
   // AI Agents — reads
   ipcMain.handle('agents:list', async () => { try { return await agentService.list(); } catch (err) { console.error('[IPC agents:list]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
 
   // AI Agents — writes
-  handleWrite('agents:create', ['ai_agents'], (input) => agentService.create(CreateAIAgentSchema.parse(input)), notify);
-  handleWrite('agents:revoke', ['ai_agents'], (id) => agentService.revoke(AIAgentIdSchema.parse(id as string)), notify);
+  handleWrite('agents:create', null, (input) => agentService.create(CreateAIAgentSchema.parse(input)), notify);
+  handleWrite('agents:revoke', null, (id) => agentService.revoke(AIAgentIdSchema.parse(id as string)), notify);
 
   // Meetings — reads
   ipcMain.handle('meetings:list', async () => { try { return await meetingService.list(); } catch (err) { console.error('[IPC meetings:list]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
   ipcMain.handle('meetings:get', async (_, id: string) => { try { return await meetingService.get(MeetingIdSchema.parse(id)); } catch (err) { console.error('[IPC meetings:get]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
+  ipcMain.handle('meetings:listTrashed', async () => { try { return await meetingService.listTrashed(); } catch (err) { console.error('[IPC meetings:listTrashed]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
 
   // Meetings — writes
-  handleWrite('meetings:create', ['meetings'], (input) => meetingService.create(CreateMeetingSchema.parse(input)), notify, indexEntity('meeting'));
-  handleWrite('meetings:update', ['meetings'], (id, input) => meetingService.update(MeetingIdSchema.parse(id as string), UpdateMeetingSchema.parse(input)), notify, indexEntity('meeting'));
-  handleWrite('meetings:delete', ['meetings'], (id) => meetingService.delete(MeetingIdSchema.parse(id as string)), notify, removeEntity);
+  handleWrite('meetings:create', (_, result) => [rows('meetings', result)], (input) => meetingService.create(CreateMeetingSchema.parse(input)), notify, indexEntity('meeting'));
+  handleWrite('meetings:update', ([id]) => [rows('meetings', id)], (id, input) => meetingService.update(MeetingIdSchema.parse(id as string), UpdateMeetingSchema.parse(input)), notify, indexEntity('meeting'));
+  handleWrite('meetings:delete', ([id]) => [rows('meetings', id)], (id) => meetingService.delete(MeetingIdSchema.parse(id as string)), notify, removeEntity);
+  handleWrite('meetings:restore', ([id]) => [rows('meetings', id)], (id) => meetingService.restore(MeetingIdSchema.parse(id as string)), notify, indexEntity('meeting'));
+  handleWrite('meetings:emptyTrash', () => [trashed('meetings')], () => meetingService.emptyTrash(), notify);
 
   // Meeting Attendees — reads
   ipcMain.handle('meetingAttendees:list', async (_, meetingId: string) => { try { return await meetingAttendeeService.listByMeeting(MeetingIdSchema.parse(meetingId)); } catch (err) { console.error('[IPC meetingAttendees:list]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
   ipcMain.handle('meetingAttendees:listByStakeholder', async (_, stakeholderId: string) => { try { return await meetingAttendeeService.listByStakeholder(StakeholderIdSchema.parse(stakeholderId)); } catch (err) { console.error('[IPC meetingAttendees:listByStakeholder]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
 
   // Meeting Attendees — writes
-  handleWrite('meetingAttendees:link', ['meeting_attendees'], (input) => { const parsed = LinkMeetingAttendeeSchema.parse(input); return meetingAttendeeService.link(parsed.meeting_id, parsed.stakeholder_id); }, notify);
-  handleWrite('meetingAttendees:unlink', ['meeting_attendees'], (input) => { const parsed = LinkMeetingAttendeeSchema.parse(input); return meetingAttendeeService.unlink(parsed.meeting_id, parsed.stakeholder_id); }, notify);
+  handleWrite('meetingAttendees:link', ([input]) => [rowMatching('meeting_attendees', { meeting_id: input?.meeting_id, stakeholder_id: input?.stakeholder_id })], (input) => { const parsed = LinkMeetingAttendeeSchema.parse(input); return meetingAttendeeService.link(parsed.meeting_id, parsed.stakeholder_id); }, notify);
+  handleWrite('meetingAttendees:unlink', ([input]) => [rowMatching('meeting_attendees', { meeting_id: input?.meeting_id, stakeholder_id: input?.stakeholder_id })], (input) => { const parsed = LinkMeetingAttendeeSchema.parse(input); return meetingAttendeeService.unlink(parsed.meeting_id, parsed.stakeholder_id); }, notify);
+
+  // Daily Notes — reads
+  ipcMain.handle('dailyNotes:get', async (_, date: string) => { try { return await dailyNoteService.get(DailyNoteDateSchema.parse(date)); } catch (err) { console.error('[IPC dailyNotes:get]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
+  ipcMain.handle('dailyNotes:list', async () => { try { return await dailyNoteService.list(); } catch (err) { console.error('[IPC dailyNotes:list]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
+
+  // Daily Notes — writes
+  handleWrite('dailyNotes:upsert', ([date]) => [rowMatching('daily_notes', { date })], (date, content) => { const parsed = UpsertDailyNoteSchema.parse({ date, content }); return dailyNoteService.upsert(parsed.date, parsed.content); }, notify);
+
+  // Undo / redo
+  ipcMain.handle('undo:status', async () => { try { return journal.status(); } catch (err) { console.error('[IPC undo:status]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
+  ipcMain.handle('undo:undo', async () => { try { const result = await journal.undo(); reindexUndone(result); return result?.label ?? null; } catch (err) { console.error('[IPC undo:undo]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
+  ipcMain.handle('undo:redo', async () => { try { const result = await journal.redo(); reindexUndone(result); return result?.label ?? null; } catch (err) { console.error('[IPC undo:redo]', err instanceof Error ? err.message : String(err)); throw toIpcError(err); } });
+
+  return {
+    updateTask: (id, input) => updateTask(id, input) as Promise<Task>,
+  };
 }
@@ -0,0 +1,49 @@
+import { ipcMain } from 'electron';
+import type { BrowserWindow } from 'electron';
+import { z } from 'zod';
+import type { SettingsStore } from '../settings/settings-store';
+import { AppSettingsPatchSchema } from '../../shared/validation';
+
+const LegacySettingsSchema = z.record(z.unknown());
+
+function toIpcError(err: unknown): Error {
+  if (err instanceof Error) {
+    const plain = new Error(err.message);
+    plain.stack = err.stack;
+    return plain;
+  }
+  return new Error(String(err));
+}
+
+export function registerSettingsHandlers(
+  settingsStore: SettingsStore,
+  getMainWindow: () => BrowserWindow | null,
+): void {
+  // Push every change to the renderer, whichever side made it
+  settingsStore.onChange((settings) => {
+    const win = getMainWindow();
+    if (win && !win.isDestroyed()) {
+      win.webContents.send('system:settings:changed', settings);
+    }
+  });
+
+  ipcMain.handle('system:settings:get', () => settingsStore.get());
+
+  ipcMain.handle('system:settings:set', (_, patch: unknown) => {
+    try {
+      return settingsStore.update(AppSettingsPatchSchema.parse(patch));
+    } catch (err) {
+      console.error('[IPC system:settings:set]', err instanceof Error ? err.message : String(err));
+      throw toIpcError(err);
+    }
+  });
+
+  ipcMain.handle('system:settings:migrate', (_, legacy: unknown) => {
+    try {
+      return settingsStore.migrate(LegacySettingsSchema.parse(legacy));
+    } catch (err) {
+      console.error('[IPC system:settings:migrate]', err instanceof Error ? err.message : String(err));
+      throw toIpcError(err);
+    }
+  });
+}
@@ -0,0 +1,186 @@
+import { ipcMain, dialog } from 'electron';
+import type { BrowserWindow } from 'electron';
+import { readFile, writeFile, access } from 'fs/promises';
+import type { DbContext } from '../db/types';
+import type { RecordingService } from '../recording/recording-service';
+import type { SearchService } from '../search/search-service';
+import { createBackupService } from '../services/backup.service';
+import { createTaskImportService } from '../services/task-import.service';
+import { createRetentionService } from '../services/retention.service';
+import { createTimeEntryService } from '../services/time-entry.service';
+import { readImportFile, IMPORT_FILE_EXTENSIONS } from '../importers';
+import { timeEntriesToCsv } from '../../shared/time-tracking';
+import { ExportOptionsSchema, ImportFilePathSchema, ImportFormatSchema, RetentionSettingsSchema, TimeRangeSchema } from '../../shared/validation';
+
+function toIpcError(err: unknown): Error {
+  if (err instanceof Error) {
+    const plain = new Error(err.message);
+    plain.stack = err.stack;
+    return plain;
+  }
+  return new Error(String(err));
+}
+
+export function registerSystemHandlers(
+  ctx: DbContext,
+  recordingService: RecordingService,
+  getMainWindow: () => BrowserWindow | null,
+  getSearchService: () => SearchService | null,
+): void {
+  const backupService = createBackupService(ctx, {
+    read: async (audioPath) => {
+      try {
+        return await readFile(audioPath);
+      } catch {
+        return null;
+      }
+    },
+    exists: async (audioPath) => {
+      try {
+        await access(audioPath);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    save: (meetingId, data) => recordingService.saveRecording(meetingId, data),
+  });
+  const taskImportService = createTaskImportService(ctx);
+  const retentionService = createRetentionService(ctx);
+  const timeEntryService = createTimeEntryService(ctx);
+
+  // Imported rows bypass the per-entity indexing done by the write handlers
+  function reindexInBackground(channel: string): void {
+    const searchService = getSearchService();
+    if (searchService) {
+      searchService.reindexAll(ctx.db, getMainWindow()).catch((err) => {
+        console.error(`[IPC ${channel}] reindex failed:`, err instanceof Error ? err.message : String(err));
+      });
+    }
+  }
+
+  // Returns the path the archive was written to, or null if the user cancelled
+  ipcMain.handle('system:export', async (_, options?: unknown) => {
+    try {
+      const opts = ExportOptionsSchema.parse(options) ?? {};
+      const win = getMainWindow();
+      const defaultPath = `cortex-export-${new Date().toISOString().split('T')[0]}.json`;
+      const { canceled, filePath } = win
+        ? await dialog.showSaveDialog(win, { defaultPath, filters: [{ name: 'JSON', extensions: ['json'] }] })
+        : await dialog.showSaveDialog({ defaultPath, filters: [{ name: 'JSON', extensions: ['json'] }] });
+      if (canceled || !filePath) return null;
+
+      const archive = await backupService.exportData(opts);
+      await writeFile(filePath, JSON.stringify(archive, null, 2), 'utf-8');
+      return filePath;
+    } catch (err) {
+      console.error('[IPC system:export]', err instanceof Error ? err.message : String(err));
+      throw toIpcError(err);
+    }
+  });
+
+  // Time entries within a report's range as CSV; returns the path, or null if the user cancelled
+  ipcMain.handle('timeEntries:exportCsv', async (_, range: unknown) => {
+    try {
+      const parsed = TimeRangeSchema.parse(range);
+      const win = getMainWindow();
+      // Named for the local day the range starts on
+      const from = new Date(parsed.from);
+      const day = [from.getFullYear(), from.getMonth() + 1, from.getDate()].map((n) => String(n).padStart(2, '0')).join('-');
+      const defaultPath = `cortex-time-${day}.csv`;
+      const { canceled, filePath } = win
+        ? await dialog.showSaveDialog(win, { defaultPath, filters: [{ name: 'CSV', extensions: ['csv'] }] })
+        : await dialog.showSaveDialog({ defaultPath, filters: [{ name: 'CSV', extensions: ['csv'] }] });
+      if (canceled || !filePath) return null;
+
+      const entries = await timeEntryService.listDetailed(parsed);
+      await writeFile(filePath, timeEntriesToCsv(entries, parsed, new Date()), 'utf-8');
+      return filePath;
+    } catch (err) {
+      console.error('[IPC timeEntries:exportCsv]', err instanceof Error ? err.message : String(err));
+      throw toIpcError(err);
+    }
+  });
+
+  // Without a path the user picks the file; returns null if they cancel
+  ipcMain.handle('system:import', async (_, filePath?: unknown) => {
+    try {
+      let validatedPath = ImportFilePathSchema.parse(filePath);
+      if (!validatedPath) {
+        const win = getMainWindow();
+        const openOptions = { properties: ['openFile' as const], filters: [{ name: 'JSON', extensions: ['json'] }] };
+        const { canceled, filePaths } = win
+          ? await dialog.showOpenDialog(win, openOptions)
+          : await dialog.showOpenDialog(openOptions);
+        if (canceled || filePaths.length === 0) return null;
+        validatedPath = filePaths[0];
+      }
+
+      let archive: unknown;
+      try {
+        archive = JSON.parse(await readFile(validatedPath, 'utf-8'));
+      } catch {
+        throw new Error('Export file is not valid JSON');
+      }
+
+      const summary = await backupService.importData(archive);
+      reindexInBackground('system:import');
+      return summary;
+    } catch (err) {
+      console.error('[IPC system:import]', err instanceof Error ? err.message : String(err));
+      throw toIpcError(err);
+    }
+  });
+
+  // Dry run for Things / Todoist / OmniFocus files. Without a path the user
+  // picks the file; returns null if they cancel
+  ipcMain.handle('system:importTasks:preview', async (_, format: unknown, filePath?: unknown) => {
+    try {
+      const validatedFormat = ImportFormatSchema.parse(format);
+      let validatedPath = ImportFilePathSchema.parse(filePath);
+      if (!validatedPath) {
+        const win = getMainWindow();
+        const openOptions = {
+          properties: ['openFile' as const],
+          filters: [{ name: 'Export files', extensions: IMPORT_FILE_EXTENSIONS[validatedFormat] }],
+        };
+        const { canceled, filePaths } = win
+          ? await dialog.showOpenDialog(win, openOptions)
+          : await dialog.showOpenDialog(openOptions);
+        if (canceled || filePaths.length === 0) return null;
+        validatedPath = filePaths[0];
+      }
+
+      const parsed = await readImportFile(validatedFormat, validatedPath);
+      return await taskImportService.preview(parsed, validatedPath);
+    } catch (err) {
+      console.error('[IPC system:importTasks:preview]', err instanceof Error ? err.message : String(err));
+      throw toIpcError(err);
+    }
+  });
+
+  ipcMain.handle('system:importTasks:apply', async (_, format: unknown, filePath: unknown) => {
+    try {
+      const validatedFormat = ImportFormatSchema.parse(format);
+      const validatedPath = ImportFilePathSchema.unwrap().parse(filePath);
+
+      const parsed = await readImportFile(validatedFormat, validatedPath);
+      const result = await taskImportService.apply(parsed);
+      reindexInBackground('system:importTasks:apply');
+      return result;
+    } catch (err) {
+      console.error('[IPC system:importTasks:apply]', err instanceof Error ? err.message : String(err));
+      throw toIpcError(err);
+    }
+  });
+
+  // Counts what unsaved stale and trash settings would change once applied
+  ipcMain.handle('system:retention:preview', async (_, settings: unknown) => {
+    try {
+      return await retentionService.preview(RetentionSettingsSchema.parse(settings));
+    } catch (err) {
+      console.error('[IPC system:retention:preview]', err instanceof Error ? err.message : String(err));
+      throw toIpcError(err);
+    }
+  });
+}
@@ -4,6 +4,7 @@ import { z } from 'zod';
 import type { TranscriptionService } from '../recording/transcription-service';
 import type { ModelManager } from '../recording/model-manager';
 import type { DbContext } from '../db/types';
+import type { AppSettings } from '../../shared/settings-types';
 import { TranscriptionStartOptionsSchema, WhisperModelSchema } from '../../shared/validation';
 import { transcribeViaApi } from '../recording/api-transcription-service.js';
 
@@ -23,6 +24,7 @@ export function registerTranscriptionHandlers(
   ctx: DbContext,
   getMainWindow: () => BrowserWindow | null,
   modelManager: ModelManager,
+  getSettings?: () => AppSettings,
 ): void {
   const { db } = ctx;
 
@@ -39,6 +41,11 @@ export function registerTranscriptionHandlers(
     try {
       const validatedId = MeetingIdSchema.parse(meetingId);
       const opts = TranscriptionStartOptionsSchema.parse(options) ?? {};
+      // Anything the caller leaves out comes from the stored settings
+      const settings = getSettings?.();
+      const provider = opts.provider ?? settings?.transcriptionProvider;
+      const apiKey = opts.apiKey ?? settings?.openaiApiKey;
+      const model = opts.model ?? settings?.whisperModel;
 
       const meeting = await db.getOptional<Record<string, unknown>>(
         'SELECT * FROM meetings WHERE id = ? AND deleted_at IS NULL',
@@ -63,11 +70,11 @@ export function registerTranscriptionHandlers(
       try {
         let result;
 
-        if (opts.provider === 'api' && opts.apiKey) {
-          result = await transcribeViaApi(audioPath, opts.apiKey);
+        if (provider === 'api' && apiKey) {
+          result = await transcribeViaApi(audioPath, apiKey);
         } else {
           result = await transcriptionService.transcribe(audioPath, {
-            model: opts.model,
+            model,
             onProgress: (progress) => {
               const win = getMainWindow();
               if (win && !win.isDestroyed()) {
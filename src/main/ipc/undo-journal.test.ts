@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createUndoJournal, describeWrite, UndoJournal } from './undo-journal';
+import { createTaskService, TaskService } from '../services/task.service';
+import { createChecklistService } from '../services/checklist.service';
+import { createContextService } from '../services/context.service';
+import { createTimeEntryService } from '../services/time-entry.service';
+import { createDailyNoteService } from '../services/daily-note.service';
+import { rowMatching, rows, rowsWhere, runningTimer, taskRows, trashed } from './write-scopes';
+import { createTestDb, TestDb } from '../../../tests/helpers/db';
+
+describe('UndoJournal', () => {
+  let db: TestDb;
+  let journal: UndoJournal;
+  let taskService: TaskService;
+  let clock: number;
+
+  beforeEach(() => {
+    db = createTestDb();
+    clock = 0;
+    journal = createUndoJournal(db.db, () => clock);
+    taskService = createTaskService(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('undoes and redoes an update', async () => {
+    const task = await taskService.create({ title: 'Buy milk' });
+    await journal.record('tasks:update', () => taskRows(task.id), () => taskService.update(task.id, { title: 'Buy oat milk' }));
+
+    const undone = await journal.undo();
+    expect(undone?.label).toBe('Edit task "Buy oat milk"');
+    expect(db.getRawTask(task.id)!.title).toBe('Buy milk');
+
+    await journal.redo();
+    expect(db.getRawTask(task.id)!.title).toBe('Buy oat milk');
+  });
+
+  it('only reverts the columns the write touched', async () => {
+    const task = await taskService.create({ title: 'Buy milk' });
+    await journal.record('tasks:update', () => taskRows(task.id), () => taskService.update(task.id, { title: 'Buy oat milk' }));
+    await taskService.update(task.id, { notes: 'From the corner shop' });
+
+    await journal.undo();
+
+    const raw = db.getRawTask(task.id)!;
+    expect(raw.title).toBe('Buy milk');
+    expect(raw.notes).toBe('From the corner shop');
+  });
+
+  it('undoes a create by trashing the row and redoes it by bringing it back', async () => {
+    clock = Date.UTC(2099, 0, 1);
+    const task = await journal.record('tasks:create', (result) => taskRows(result), () => taskService.create({ title: 'New' }));
+
+    const undone = await journal.undo();
+    expect(db.getRawTask(task.id)!.deleted_at).toBe('2099-01-01T00:00:00.000Z');
+    expect(undone?.rows[0].row).toMatchObject({ id: task.id, deleted_at: '2099-01-01T00:00:00.000Z' });
+
+    await journal.redo();
+    expect(db.getRawTask(task.id)).toMatchObject({ title: 'New', deleted_at: null });
+  });
+
+  it('keeps rows created in tables without deleted_at out of the entry', async () => {
+    const dailyNotes = createDailyNoteService(db);
+    await journal.record('dailyNotes:upsert', () => [rowMatching('daily_notes', { date: '2099-01-01' })], () => dailyNotes.upsert('2099-01-01', 'Shipped'));
+
+    expect(journal.status().undoLabel).toBeNull();
+    expect(await journal.undo()).toBeNull();
+    expect((await dailyNotes.get('2099-01-01'))!.content).toBe('Shipped');
+  });
+
+  it('labels completing a task', async () => {
+    const task = await taskService.create({ title: 'Ship it' });
+    await journal.record('tasks:update', () => taskRows(task.id), () => taskService.update(task.id, { status: 'logbook' }));
+
+    expect(journal.status()).toEqual({ undoLabel: 'Complete task "Ship it"', redoLabel: null });
+    await journal.undo();
+    expect(db.getRawTask(task.id)!.status).toBe('inbox');
+    expect(journal.status()).toEqual({ undoLabel: null, redoLabel: 'Complete task "Ship it"' });
+  });
+
+  it('reverses a checklist reorder as one step', async () => {
+    const task = await taskService.create({ title: 'Pack' });
+    const checklistService = createChecklistService(db);
+    const a = await checklistService.create({ task_id: task.id, title: 'A' });
+    const b = await checklistService.create({ task_id: task.id, title: 'B' });
+    const c = await checklistService.create({ task_id: task.id, title: 'C' });
+
+    await journal.record('checklists:reorder', () => [rows('task_checklists', [a, b, c])], () => checklistService.reorder(task.id, [c.id, b.id, a.id]));
+    await journal.undo();
+
+    expect((await checklistService.listByTask(task.id)).map((item) => item.title)).toEqual(['A', 'B', 'C']);
+    expect(await journal.undo()).toBeNull();
+  });
+
+  it('reverses the cascade of a context delete', async () => {
+    const contextService = createContextService(db);
+    const work = db.createContext({ name: 'Work' });
+    const task = await taskService.create({ title: 'Report', context_id: work });
+
+    await journal.record('contexts:delete', () => [rows('contexts', work), rowsWhere('projects', 'context_id', work), rowsWhere('tasks', 'context_id', work)], () => contextService.delete(work));
+    expect(db.getRawTask(task.id)!.context_id).toBeNull();
+
+    await journal.undo();
+
+    expect(db.getRawContext(work)!.deleted_at).toBeNull();
+    expect(db.getRawTask(task.id)!.context_id).toBe(work);
+  });
+
+  it('leaves changes to rows outside the scope to whoever made them', async () => {
+    const task = await taskService.create({ title: 'Mine' });
+    const other = await taskService.create({ title: 'Synced' });
+
+    await journal.record('tasks:update', () => taskRows(task.id), async () => {
+      // A sync or the reminder scheduler writing while this write runs
+      await taskService.update(other.id, { title: 'Synced, edited elsewhere' });
+      return taskService.update(task.id, { title: 'Mine, edited' });
+    });
+    await journal.undo();
+
+    expect(db.getRawTask(task.id)!.title).toBe('Mine');
+    expect(db.getRawTask(other.id)!.title).toBe('Synced, edited elsewhere');
+  });
+
+  it('follows rows that the write moves out of their scope', async () => {
+    const timeEntryService = createTimeEntryService(db);
+    const task = await taskService.create({ title: 'Focus' });
+    const entry = await timeEntryService.start(task.id);
+
+    await journal.record('timeEntries:stop', () => [runningTimer], () => timeEntryService.stop());
+    expect((await timeEntryService.getRunning())).toBeNull();
+    await journal.undo();
+
+    expect((await timeEntryService.getRunning())?.id).toBe(entry.id);
+  });
+
+  it('merges rapid saves of the same row into one entry', async () => {
+    const task = await taskService.create({ title: 'Draft' });
+    await journal.record('tasks:update', () => taskRows(task.id), () => taskService.update(task.id, { notes: 'a' }));
+    clock = 500;
+    await journal.record('tasks:update', () => taskRows(task.id), () => taskService.update(task.id, { notes: 'ab' }));
+    clock = 5000;
+    await journal.record('tasks:update', () => taskRows(task.id), () => taskService.update(task.id, { notes: 'abc' }));
+
+    await journal.undo();
+    expect(db.getRawTask(task.id)!.notes).toBe('ab');
+    await journal.undo();
+    expect(db.getRawTask(task.id)!.notes).toBeNull();
+  });
+
+  it('drops the redo history on a new write', async () => {
+    const task = await taskService.create({ title: 'One' });
+    await journal.record('tasks:update', () => taskRows(task.id), () => taskService.update(task.id, { title: 'Two' }));
+    await journal.undo();
+
+    await journal.record('tasks:update', () => taskRows(task.id), () => taskService.update(task.id, { title: 'Three' }));
+
+    expect(await journal.redo()).toBeNull();
+  });
+
+  it('records nothing when the write fails or changes nothing', async () => {
+    await expect(journal.record('tasks:update', () => taskRows('missing'), () => taskService.update('missing', { title: 'X' }))).rejects.toThrow();
+    await journal.record('tasks:emptyTrash', () => [trashed('tasks')], () => taskService.emptyTrash());
+
+    expect(journal.status()).toEqual({ undoLabel: null, redoLabel: null });
+  });
+
+  it('tells the change listener about writes, undos and redos', async () => {
+    const seen: Array<Array<{ before: unknown; after: unknown }>> = [];
+    journal = createUndoJournal(db.db, () => clock, async (changes) => { seen.push(changes); });
+    const task = await taskService.create({ title: 'Buy milk' });
+
+    await journal.record('tasks:update', () => taskRows(task.id), () => taskService.update(task.id, { title: 'Buy oat milk' }));
+    await journal.undo();
+    await journal.redo();
+
+    expect(seen.map(([c]) => [(c.before as { title: string }).title, (c.after as { title: string }).title])).toEqual([
+      ['Buy milk', 'Buy oat milk'],
+      ['Buy oat milk', 'Buy milk'],
+      ['Buy milk', 'Buy oat milk'],
+    ]);
+  });
+});
+
+describe('describeWrite', () => {
+  it('names the action and the single entity it touched', () => {
+    const row = { id: '1', name: 'Ada' };
+    expect(describeWrite('stakeholders:delete', [{ table: 'stakeholders', id: '1', before: row, after: row }])).toBe('Delete stakeholder "Ada"');
+    expect(describeWrite('checklists:reorder', [])).toBe('Reorder checklist items');
+    expect(describeWrite('notes:emptyTrash', [])).toBe('Empty trash');
+  });
+});
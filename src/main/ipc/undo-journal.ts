@@ -0,0 +1,317 @@
+import type { AsyncDatabase } from '../db/types';
+import type { UndoStatus } from '@shared/types';
+
+type Row = Record<string, unknown> & { id: string };
+
+/** One row touched by a write, as it was before and after. null means the row did not exist. */
+export interface RowChange {
+  table: string;
+  id: string;
+  before: Row | null;
+  after: Row | null;
+}
+
+interface JournalEntry {
+  channel: string;
+  label: string;
+  changes: RowChange[];
+  recordedAt: number;
+}
+
+export interface UndoResult {
+  label: string;
+  /** Rows as they are after undoing or redoing; null for rows that no longer exist */
+  rows: Array<{ table: string; id: string; row: Row | null }>;
+}
+
+/** The rows of `table` matching `where`, e.g. `{ table: 'tasks', where: 'project_id = ?', params: [id] }` */
+export interface RowScope {
+  table: string;
+  where: string;
+  params?: unknown[];
+}
+
+/**
+ * The rows a write may touch. Called before the write, then again with its
+ * result so the rows it created can be named by id. A row matched only after
+ * the write counts as created, so anything the write may change must already
+ * be matched before it. Undo works back from the last scope, so list rows
+ * before the rows that refer to them.
+ */
+export type WriteScope<T> = (result?: T) => RowScope[];
+
+export interface UndoJournal {
+  /** Run a write and record the changes it makes to the rows in `scope` so it can be reversed */
+  record<T>(channel: string, scope: WriteScope<T>, write: () => Promise<T>): Promise<T>;
+  undo(): Promise<UndoResult | null>;
+  redo(): Promise<UndoResult | null>;
+  status(): UndoStatus;
+}
+
+const MAX_ENTRIES = 100;
+
+/** Repeated saves of the same rows (editor autosave) within this window become one entry */
+const COALESCE_MS = 2000;
+
+const NOUNS: Record<string, string> = {
+  tasks: 'task',
+  projects: 'project',
+  projectHeadings: 'heading',
+  contexts: 'context',
+  stakeholders: 'stakeholder',
+  projectStakeholders: 'project stakeholder',
+  noteStakeholders: 'note stakeholder',
+  checklists: 'checklist item',
+  taskDependencies: 'dependency',
+  reminders: 'reminder',
+  tags: 'tag',
+  smartLists: 'list',
+  templates: 'template',
+  timeEntries: 'timer',
+  notes: 'note',
+  meetings: 'meeting',
+  meetingAttendees: 'attendee',
+  dailyNotes: 'daily note',
+  history: 'version',
+};
+
+const VERBS: Record<string, string> = {
+  create: 'Create',
+  update: 'Edit',
+  upsert: 'Edit',
+  delete: 'Delete',
+  restore: 'Restore',
+  archive: 'Archive',
+  reorder: 'Reorder',
+  move: 'Move',
+  link: 'Link',
+  unlink: 'Unlink',
+  tag: 'Add',
+  untag: 'Remove',
+  apply: 'Apply',
+  fromProject: 'Save',
+  fromTask: 'Save',
+  promote: 'Convert',
+  demote: 'Convert',
+  start: 'Start',
+  stop: 'Stop',
+  discardIdle: 'Trim',
+};
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return a === b || (a == null && b == null);
+}
+
+function changedColumns(before: Row, after: Row): string[] {
+  const columns = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...columns].filter((column) => !sameValue(before[column], after[column]));
+}
+
+function rowTitle(row: Row | null): string | null {
+  const title = row?.title ?? row?.name;
+  return typeof title === 'string' && title ? title : null;
+}
+
+/** Human-readable summary of a write, e.g. `Complete task "Buy milk"` */
+export function describeWrite(channel: string, changes: RowChange[]): string {
+  const [namespace, action] = channel.split(':');
+  const noun = NOUNS[namespace] ?? namespace;
+  if (action === 'emptyTrash') return 'Empty trash';
+  if (action === 'reorder') return `Reorder ${noun}s`;
+
+  const primary = changes.filter((c) => c.table === changes[0]?.table);
+  const first = primary[0];
+  let verb = VERBS[action] ?? action;
+  if (namespace === 'tasks' && first?.before?.status !== 'logbook' && first?.after?.status === 'logbook') {
+    verb = 'Complete';
+  }
+  const title = primary.length === 1 ? rowTitle(first.after ?? first.before) : null;
+  return title ? `${verb} ${noun} "${title}"` : `${verb} ${noun}`;
+}
+
+/** Told about every set of row changes the journal makes or records, including undo and redo */
+export type ChangeListener = (changes: RowChange[]) => Promise<void>;
+
+export function createUndoJournal(db: AsyncDatabase, now: () => number = Date.now, onChange?: ChangeListener): UndoJournal {
+  const undoStack: JournalEntry[] = [];
+  const redoStack: JournalEntry[] = [];
+
+  // Writes run one at a time so a diff never sees another journaled write's changes
+  let queue: Promise<unknown> = Promise.resolve();
+  function serialize<T>(fn: () => Promise<T>): Promise<T> {
+    const run = queue.then(fn, fn);
+    queue = run.catch(() => undefined);
+    return run;
+  }
+
+  type Snapshot = Map<string, Map<string, Row>>;
+
+  async function snapshot(scopes: RowScope[]): Promise<Snapshot> {
+    const result: Snapshot = new Map();
+    for (const { table, where, params } of scopes) {
+      const rows = await db.getAll<Row>(`SELECT * FROM ${table} WHERE ${where}`, params);
+      const byId = result.get(table) ?? new Map<string, Row>();
+      for (const row of rows) byId.set(row.id, row);
+      result.set(table, byId);
+    }
+    return result;
+  }
+
+  /** Rows seen before the write are read again even if they no longer match their scope */
+  function revisit(before: Snapshot): RowScope[] {
+    return [...before].map(([table, rows]) => ({
+      table,
+      where: `id IN (${[...rows.keys()].map(() => '?').join(', ')})`,
+      params: [...rows.keys()],
+    }));
+  }
+
+  function diff(before: Snapshot, after: Snapshot): RowChange[] {
+    const changes: RowChange[] = [];
+    for (const table of new Set([...before.keys(), ...after.keys()])) {
+      const old = before.get(table) ?? new Map<string, Row>();
+      const current = after.get(table) ?? new Map<string, Row>();
+      for (const id of new Set([...old.keys(), ...current.keys()])) {
+        const was = old.get(id) ?? null;
+        const is = current.get(id) ?? null;
+        if (was && is && changedColumns(was, is).length === 0) continue;
+        changes.push({ table, id, before: was, after: is });
+      }
+    }
+    return changes;
+  }
+
+  function coalesces(top: JournalEntry | undefined, entry: JournalEntry): boolean {
+    return !!top &&
+      top.channel === entry.channel &&
+      /:(update|upsert)$/.test(entry.channel) &&
+      entry.recordedAt - top.recordedAt < COALESCE_MS &&
+      top.changes.length === entry.changes.length &&
+      top.changes.every((c, i) => c.table === entry.changes[i].table && c.id === entry.changes[i].id);
+  }
+
+  function push(entry: JournalEntry): void {
+    const top = undoStack[undoStack.length - 1];
+    if (coalesces(top, entry)) {
+      top.changes = top.changes.map((c, i) => ({ ...c, after: entry.changes[i].after }));
+      top.label = entry.label;
+      top.recordedAt = entry.recordedAt;
+      return;
+    }
+    undoStack.push(entry);
+    if (undoStack.length > MAX_ENTRIES) undoStack.shift();
+  }
+
+  // A failing listener must not fail the write it is told about
+  async function notify(changes: RowChange[]): Promise<void> {
+    if (!onChange || changes.length === 0) return;
+    try {
+      await onChange(changes);
+    } catch (err) {
+      console.error('[UndoJournal] Change listener failed:', err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  /** Move every touched row to its `before` (undo) or `after` (redo) state; rows that did not exist go to the trash */
+  async function apply(entry: JournalEntry, direction: 'undo' | 'redo'): Promise<UndoResult> {
+    const changes = direction === 'undo' ? [...entry.changes].reverse() : entry.changes;
+    await db.writeTransaction(async (tx) => {
+      for (const change of changes) {
+        const target = direction === 'undo' ? change.before : change.after;
+        const current = await tx.getOptional<Row>(`SELECT * FROM ${change.table} WHERE id = ?`, [change.id]);
+        if (!target) {
+          // Undoing a create trashes the row: sync turns deletes into soft deletes anyway
+          if (current && !current.deleted_at) {
+            const columns = 'updated_at' in current ? ['deleted_at', 'updated_at'] : ['deleted_at'];
+            const at = new Date(now()).toISOString();
+            await tx.execute(
+              `UPDATE ${change.table} SET ${columns.map((column) => `${column} = ?`).join(', ')} WHERE id = ?`,
+              [...columns.map(() => at), change.id],
+            );
+          }
+        } else if (current) {
+          // Only the columns the write touched, so later edits to other fields survive
+          const columns = change.before && change.after
+            ? changedColumns(change.before, change.after)
+            : Object.keys(target).filter((column) => column !== 'id');
+          if (columns.length === 0) continue;
+          await tx.execute(
+            `UPDATE ${change.table} SET ${columns.map((column) => `${column} = ?`).join(', ')} WHERE id = ?`,
+            [...columns.map((column) => target[column] ?? null), change.id],
+          );
+        } else {
+          const columns = Object.keys(target);
+          await tx.execute(
+            `INSERT INTO ${change.table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+            columns.map((column) => target[column] ?? null),
+          );
+        }
+      }
+    });
+
+    const rows = [];
+    for (const change of entry.changes) {
+      const row = await db.getOptional<Row>(`SELECT * FROM ${change.table} WHERE id = ?`, [change.id]);
+      rows.push({ table: change.table, id: change.id, row });
+    }
+    return { label: entry.label, rows };
+  }
+
+  return {
+    record(channel, scope, write) {
+      return serialize(async () => {
+        const before = await snapshot(scope());
+        const result = await write();
+        const changes = diff(before, await snapshot([...revisit(before), ...scope(result)]));
+        // A row created in a table without deleted_at could only be undone by a
+        // hard delete, which the server refuses, so its creation stays
+        const reversible = changes.filter((c) => c.before || (c.after && 'deleted_at' in c.after));
+        if (reversible.length > 0) {
+          push({ channel, label: describeWrite(channel, reversible), changes: reversible, recordedAt: now() });
+          redoStack.length = 0;
+        }
+        await notify(changes);
+        return result;
+      });
+    },
+
+    undo() {
+      return serialize(async () => {
+        const entry = undoStack.pop();
+        if (!entry) return null;
+        try {
+          const result = await apply(entry, 'undo');
+          redoStack.push(entry);
+          await notify(entry.changes.map((c) => ({ ...c, before: c.after, after: c.before })));
+          return result;
+        } catch (err) {
+          undoStack.push(entry);
+          throw err;
+        }
+      });
+    },
+
+    redo() {
+      return serialize(async () => {
+        const entry = redoStack.pop();
+        if (!entry) return null;
+        try {
+          const result = await apply(entry, 'redo');
+          undoStack.push(entry);
+          await notify(entry.changes);
+          return result;
+        } catch (err) {
+          redoStack.push(entry);
+          throw err;
+        }
+      });
+    },
+
+    status() {
+      return {
+        undoLabel: undoStack[undoStack.length - 1]?.label ?? null,
+        redoLabel: redoStack[redoStack.length - 1]?.label ?? null,
+      };
+    },
+  };
+}
@@ -0,0 +1,104 @@
+import { nextInstanceId } from '../services/task.service';
+import type { RowScope } from './undo-journal';
+
+/**
+ * Ids from IPC arguments or write results: strings, rows with an id, or
+ * (nested) lists of them. Anything else — input validation will reject it —
+ * names no row.
+ */
+export function idsOf(value: unknown): string[] {
+  if (Array.isArray(value)) return value.flatMap(idsOf);
+  if (typeof value === 'string') return [value];
+  const id = (value as { id?: unknown } | null)?.id;
+  return typeof id === 'string' ? [id] : [];
+}
+
+function list(values: string[]): string {
+  return values.map(() => '?').join(', ');
+}
+
+/** Rows of `table` whose `column` is one of the ids in `values` */
+export function rowsWhere(table: string, column: string, values: unknown): RowScope {
+  const ids = idsOf(values);
+  return { table, where: `${column} IN (${list(ids)})`, params: ids };
+}
+
+/** Rows of `table` with one of the ids in `values` */
+export function rows(table: string, values: unknown): RowScope {
+  return rowsWhere(table, 'id', values);
+}
+
+/** The row of `table` with all of the given column values, e.g. a link between two entities */
+export function rowMatching(table: string, values: Record<string, unknown>): RowScope {
+  const columns = Object.keys(values);
+  if (!columns.every((column) => typeof values[column] === 'string')) return { table, where: '0' };
+  return { table, where: columns.map((column) => `${column} = ?`).join(' AND '), params: Object.values(values) };
+}
+
+/** Rows in the trash that emptying it removes */
+export function trashed(table: string): RowScope {
+  return { table, where: 'deleted_at IS NOT NULL AND permanently_deleted_at IS NULL' };
+}
+
+/** Tags with the given names, the way tagging by name finds them */
+export function tagsNamed(names: unknown): RowScope {
+  const trimmed = (Array.isArray(names) ? names : [])
+    .filter((name): name is string => typeof name === 'string')
+    .map((name) => name.trim());
+  return { table: 'tags', where: `name COLLATE NOCASE IN (${list(trimmed)})`, params: trimmed };
+}
+
+function tasksMatching(where: string, params: unknown[]): RowScope[] {
+  const tasks = `SELECT id FROM tasks WHERE ${where}`;
+  return [
+    { table: 'tasks', where, params },
+    { table: 'task_checklists', where: `task_id IN (${tasks})`, params },
+    { table: 'entity_tags', where: `entity_id IN (${tasks})`, params },
+  ];
+}
+
+/** Tasks whose `column` is one of the ids in `values`, with their checklists and tags */
+export function tasksWhere(column: string, values: unknown): RowScope[] {
+  const ids = idsOf(values);
+  return tasksMatching(`${column} IN (${list(ids)})`, ids);
+}
+
+/** Tasks with their checklists and tags */
+export function taskRows(values: unknown): RowScope[] {
+  return tasksWhere('id', values);
+}
+
+/** Tasks being created, with their checklists, reminders and the tags named for them, which may be new too */
+export function newTasks(created: unknown, tagNames: unknown): RowScope[] {
+  const [tasks, checklists, entityTags] = taskRows(created);
+  return [tasks, checklists, rowsWhere('reminders', 'task_id', created), tagsNamed(tagNames), entityTags];
+}
+
+/** Tasks and the next instances that completing them would spawn */
+export function tasksAndNextInstances(values: unknown): RowScope[] {
+  const ids = idsOf(values);
+  return taskRows([...ids, ...ids.map(nextInstanceId)]);
+}
+
+/** Every task in the heading's project, where archiving the heading puts the next instances it spawns */
+export function headingProjectTasks(headingId: unknown): RowScope[] {
+  const ids = idsOf(headingId);
+  return tasksMatching(`project_id IN (SELECT project_id FROM project_headings WHERE id IN (${list(ids)}))`, ids);
+}
+
+/**
+ * The entity an entity_changes row belongs to, whichever table it is in. Once
+ * restored, a task's next instance too: restoring a done status spawns it.
+ */
+export function changedEntity(changeId: unknown, restored?: { table: string; id: string }): RowScope[] {
+  const ids = idsOf(changeId);
+  const entities = ['tasks', 'projects', 'notes', 'meetings'].map((table) => ({
+    table,
+    where: `id IN (SELECT entity_id FROM entity_changes WHERE id IN (${list(ids)}))`,
+    params: ids,
+  }));
+  return restored?.table === 'tasks' ? [...entities, ...taskRows(nextInstanceId(restored.id))] : entities;
+}
+
+/** The timer that is running, if any */
+export const runningTimer: RowScope = { table: 'time_entries', where: 'ended_at IS NULL AND deleted_at IS NULL' };
@@ -0,0 +1,3 @@
+export { createReminderScheduler } from './reminder-scheduler.js';
+export type { ReminderScheduler } from './reminder-scheduler.js';
+export { createElectronNotifier } from './notifier.js';
@@ -0,0 +1,42 @@
+import { Notification } from 'electron';
+import type { ReminderAction, ReminderNotifier } from './reminder-scheduler.js';
+
+const ACTION_LABELS: Record<ReminderAction, string> = {
+  complete: 'Complete',
+  '10m': 'Snooze 10 min',
+  '1h': 'Snooze 1 hour',
+  tomorrow: 'Remind tomorrow',
+  open: 'Open',
+};
+
+/**
+ * Native notifications. Action buttons only show on macOS; elsewhere a
+ * click opens the task or meeting.
+ */
+export function createElectronNotifier(): ReminderNotifier {
+  // Notifications that are garbage-collected stop delivering their events
+  const visible = new Set<Notification>();
+
+  return {
+    show({ title, body, actions }, onAction) {
+      if (!Notification.isSupported()) return;
+
+      const buttons = actions.filter((action) => action !== 'open');
+      const notification = new Notification({
+        title,
+        body,
+        actions: buttons.map((action) => ({ type: 'button' as const, text: ACTION_LABELS[action] })),
+        closeButtonText: 'Dismiss',
+      });
+      notification.on('action', (_event, index) => {
+        const action = buttons[index];
+        if (action) onAction(action);
+      });
+      if (actions.includes('open')) notification.on('click', () => onAction('open'));
+      notification.on('close', () => visible.delete(notification));
+
+      visible.add(notification);
+      notification.show();
+    },
+  };
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createReminderScheduler, type ReminderAction, type ReminderNotification, type ReminderScheduler } from './reminder-scheduler';
+import { createReminderService, type ReminderService } from '../services/reminder.service';
+import { createTaskService, type TaskService } from '../services/task.service';
+import { createTestDb, type TestDb } from '../../../tests/helpers/db';
+
+describe('ReminderScheduler', () => {
+  let db: TestDb;
+  let reminderService: ReminderService;
+  let taskService: TaskService;
+  let shown: Array<{ notification: ReminderNotification; act: (action: ReminderAction) => void }>;
+  let openTarget: ReturnType<typeof vi.fn>;
+  let scheduler: ReminderScheduler;
+  let taskId: string;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+    vi.setSystemTime(new Date('2099-03-01T12:00:00.000Z'));
+    db = createTestDb();
+    reminderService = createReminderService(db);
+    taskService = createTaskService(db);
+    taskId = (await taskService.create({ title: 'Call the bank' })).id;
+    shown = [];
+    openTarget = vi.fn();
+    scheduler = createReminderScheduler({
+      reminderService,
+      taskService,
+      notifier: { show: (notification, act) => shown.push({ notification, act }) },
+      deviceId: 'this-device',
+      openTarget,
+    });
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    vi.useRealTimers();
+  });
+
+  it('catches up on reminders missed while the app was closed', async () => {
+    await reminderService.create({ task_id: taskId, remind_at: '2099-03-01T08:00:00.000Z' });
+
+    await scheduler.check();
+
+    expect(shown).toHaveLength(1);
+    expect(shown[0].notification.title).toBe('Call the bank');
+    expect(shown[0].notification.body).toContain('missed at');
+    expect(shown[0].notification.actions).toEqual(['complete', '10m', '1h', 'tomorrow', 'open']);
+  });
+
+  it('fires each reminder once and records this device', async () => {
+    const reminder = await reminderService.create({ task_id: taskId, remind_at: '2099-03-01T11:59:00.000Z' });
+
+    await scheduler.check();
+    await scheduler.check();
+
+    expect(shown).toHaveLength(1);
+    expect(db.db.prepare('SELECT fired_by FROM reminders WHERE id = ?').get(reminder.id)).toEqual({ fired_by: 'this-device' });
+  });
+
+  it('stays quiet when another device already fired it', async () => {
+    const reminder = await reminderService.create({ task_id: taskId, remind_at: '2099-03-01T11:59:00.000Z' });
+    db.db.prepare('UPDATE reminders SET fired_at = ?, fired_by = ? WHERE id = ?')
+      .run('2099-03-01T11:59:01.000Z', 'other-device', reminder.id);
+
+    await scheduler.check();
+
+    expect(shown).toEqual([]);
+  });
+
+  it('waits for the next reminder once started', async () => {
+    await reminderService.create({ task_id: taskId, remind_at: '2099-03-01T12:02:00.000Z' });
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(shown).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(shown).toHaveLength(1);
+    expect(shown[0].notification.body).toBe('Reminder');
+  });
+
+  it('snoozes and fires again when the snooze runs out', async () => {
+    await reminderService.create({ task_id: taskId, remind_at: '2099-03-01T11:59:00.000Z' });
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    shown[0].act('10m');
+    await vi.advanceTimersByTimeAsync(9 * 60_000);
+    expect(shown).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(shown).toHaveLength(2);
+  });
+
+  it('completes the task or opens it from the notification', async () => {
+    await reminderService.create({ task_id: taskId, remind_at: '2099-03-01T11:59:00.000Z' });
+    await scheduler.check();
+
+    shown[0].act('open');
+    shown[0].act('complete');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(openTarget).toHaveBeenCalledWith({ taskId });
+    expect((await taskService.get(taskId))?.status).toBe('logbook');
+  });
+});
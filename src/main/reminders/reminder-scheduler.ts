@@ -0,0 +1,161 @@
+import type { ReminderTarget } from '@shared/types';
+import { getReminderDueAt, isReminderDue, snoozeUntil, type SnoozeOption } from '@shared/reminders';
+import type { PendingReminder, ReminderService } from '../services/reminder.service';
+import type { TaskService } from '../services/task.service';
+
+export type ReminderAction = 'complete' | 'open' | SnoozeOption;
+
+export interface ReminderNotification {
+  title: string;
+  body: string;
+  /** Buttons to offer, in order; 'open' is what clicking the notification does */
+  actions: ReminderAction[];
+}
+
+/** Shows notifications; backed by Electron's Notification in the app */
+export interface ReminderNotifier {
+  show(notification: ReminderNotification, onAction: (action: ReminderAction) => void): void;
+}
+
+export interface ReminderSchedulerOptions {
+  reminderService: ReminderService;
+  taskService: Pick<TaskService, 'update'>;
+  notifier: ReminderNotifier;
+  /** Identifies this device in `fired_by` */
+  deviceId: string;
+  openTarget: (target: ReminderTarget) => void;
+  now?: () => Date;
+}
+
+export interface ReminderScheduler {
+  start(): void;
+  stop(): void;
+  /**
+   * Fire everything that is due, including reminders missed while the app
+   * was closed or asleep, then wait for the next one. Call again whenever
+   * reminders, tasks or meetings change, or after the system resumes.
+   */
+  check(): Promise<void>;
+}
+
+/** Re-check at least this often so a sleeping timer or clock change can't delay a reminder for long */
+const MAX_WAIT_MS = 5 * 60_000;
+
+/** Reminders shown later than this say when they were due */
+const LATE_AFTER_MS = 5 * 60_000;
+
+const TASK_ACTIONS: ReminderAction[] = ['complete', '10m', '1h', 'tomorrow', 'open'];
+const MEETING_ACTIONS: ReminderAction[] = ['10m', 'open'];
+
+function formatTime(date: Date): string {
+  return date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+}
+
+export function toNotification(reminder: PendingReminder, dueAt: Date, now: Date): ReminderNotification {
+  let body: string;
+  if (reminder.meeting_id) {
+    const start = new Date(reminder.start_time!);
+    body = `${start > now ? 'Starts' : 'Started'} at ${formatTime(start)}`;
+  } else if (reminder.deadline) {
+    const [year, month, day] = reminder.deadline.split('-').map(Number);
+    body = `Due ${new Date(year, month - 1, day).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}`;
+  } else {
+    body = 'Reminder';
+  }
+  if (now.getTime() - dueAt.getTime() > LATE_AFTER_MS) {
+    body += ` · missed at ${formatTime(dueAt)}`;
+  }
+
+  return {
+    title: reminder.title,
+    body,
+    actions: reminder.meeting_id ? MEETING_ACTIONS : TASK_ACTIONS,
+  };
+}
+
+export function createReminderScheduler(options: ReminderSchedulerOptions): ReminderScheduler {
+  const { reminderService, taskService, notifier, deviceId, openTarget } = options;
+  const now = options.now ?? (() => new Date());
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running = false;
+  let checking: Promise<void> | null = null;
+  let checkAgain = false;
+
+  function schedule(wait: number): void {
+    if (timer) clearTimeout(timer);
+    timer = running ? setTimeout(() => { void scheduler.check(); }, wait) : null;
+  }
+
+  async function handleAction(reminder: PendingReminder, action: ReminderAction): Promise<void> {
+    if (action === 'open') {
+      openTarget(reminder.task_id ? { taskId: reminder.task_id } : { meetingId: reminder.meeting_id! });
+    } else if (action === 'complete') {
+      if (reminder.task_id) await taskService.update(reminder.task_id, { status: 'logbook' });
+    } else {
+      await reminderService.snooze(reminder.id, snoozeUntil(action, now()));
+      await scheduler.check();
+    }
+  }
+
+  async function runCheck(): Promise<void> {
+    const current = now();
+    const pending = await reminderService.listPending(current);
+    let next: number | null = null;
+
+    for (const reminder of pending) {
+      const dueAt = getReminderDueAt(reminder, reminder);
+      if (!dueAt) continue;
+      if (!isReminderDue(reminder, reminder, current)) {
+        if (dueAt > current && (next === null || dueAt.getTime() < next)) next = dueAt.getTime();
+        continue;
+      }
+      // Another device may have claimed it already; only the winner notifies
+      if (!(await reminderService.claim(reminder.id, dueAt, deviceId, current))) continue;
+      notifier.show(toNotification(reminder, dueAt, current), (action) => {
+        handleAction(reminder, action).catch((err) => {
+          console.error('[Reminders] Action failed:', err instanceof Error ? err.message : String(err));
+        });
+      });
+    }
+
+    schedule(next === null ? MAX_WAIT_MS : Math.min(Math.max(next - current.getTime(), 0), MAX_WAIT_MS));
+  }
+
+  const scheduler: ReminderScheduler = {
+    start() {
+      running = true;
+      void scheduler.check();
+    },
+
+    stop() {
+      running = false;
+      schedule(0);
+    },
+
+    async check() {
+      // Checks that arrive mid-run collapse into one more pass afterwards
+      if (checking) {
+        checkAgain = true;
+        return checking;
+      }
+      checking = (async () => {
+        do {
+          checkAgain = false;
+          try {
+            await runCheck();
+          } catch (err) {
+            console.error('[Reminders] Check failed:', err instanceof Error ? err.message : String(err));
+            schedule(MAX_WAIT_MS);
+          }
+        } while (checkAgain && running);
+      })();
+      try {
+        await checking;
+      } finally {
+        checking = null;
+      }
+    },
+  };
+
+  return scheduler;
+}
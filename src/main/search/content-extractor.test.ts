@@ -26,6 +26,8 @@ const baseTask: Task = {
   deleted_at: null,
   stale_at: null,
   assignee_id: null,
+  recurrence: null,
+  estimate_minutes: null,
 };
 
 const baseNote: Note = {
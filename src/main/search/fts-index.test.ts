@@ -25,6 +25,20 @@ describe('FtsIndex', () => {
     it('is idempotent (CREATE VIRTUAL TABLE IF NOT EXISTS)', () => {
       expect(() => fts.initialize()).not.toThrow();
     });
+
+    it('keeps the entries of an index created before tags', () => {
+      const legacy = new Database(':memory:');
+      legacy.exec("CREATE VIRTUAL TABLE search_fts USING fts5(entity_id, entity_type, title, content, tokenize='porter unicode61')");
+      legacy.prepare('INSERT INTO search_fts VALUES (?, ?, ?, ?)').run('task-1', 'task', 'Buy stamps', 'At the post office');
+      const upgraded = new FtsIndex(legacy);
+
+      upgraded.initialize();
+      upgraded.setTags('task-1', ['errand']);
+
+      expect(upgraded.search('stamps').map((r) => r.entityId)).toEqual(['task-1']);
+      expect(upgraded.search('errand').map((r) => r.entityId)).toEqual(['task-1']);
+      legacy.close();
+    });
   });
 
   describe('upsertEntity', () => {
@@ -116,6 +130,26 @@ describe('FtsIndex', () => {
     });
   });
 
+  describe('setTags', () => {
+    it('finds entities by their tag names', () => {
+      fts.upsertEntity('task-1', 'task', 'Buy stamps', 'At the post office');
+      fts.upsertEntity('task-2', 'task', 'Write report', 'Quarterly numbers');
+
+      fts.setTags('task-1', ['errand', 'town']);
+
+      expect(fts.search('errand').map((r) => r.entityId)).toEqual(['task-1']);
+    });
+
+    it('keeps the tags when the entity is re-indexed', () => {
+      fts.upsertEntity('task-1', 'task', 'Buy stamps', 'At the post office');
+      fts.setTags('task-1', ['errand']);
+
+      fts.upsertEntity('task-1', 'task', 'Buy stamps and envelopes', 'At the post office');
+
+      expect(fts.search('errand')[0].title).toBe('Buy stamps and envelopes');
+    });
+  });
+
   describe('deleteEntity', () => {
     it('removes entity from FTS5 index', () => {
       fts.upsertEntity('del-1', 'task', 'Delete me', 'This should be removed');
@@ -14,17 +14,33 @@ export class FtsIndex {
   }
 
   initialize(): void {
-    this.db.exec(`
-      CREATE VIRTUAL TABLE IF NOT EXISTS search_fts USING fts5(
-        entity_id,
-        entity_type,
-        title,
-        content,
-        tokenize='porter unicode61'
-      );
-    `);
+    const columns = this.db.prepare("SELECT name FROM pragma_table_info('search_fts')").all() as Array<{ name: string }>;
+    // FTS5 tables can't gain columns, so an index from before tags is copied into a new one
+    const needsTags = columns.length > 0 && !columns.some((c) => c.name === 'tags');
+
+    this.db.transaction(() => {
+      if (needsTags) this.db.exec('ALTER TABLE search_fts RENAME TO search_fts_old');
+      this.db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS search_fts USING fts5(
+          entity_id,
+          entity_type,
+          title,
+          content,
+          tags,
+          tokenize='porter unicode61'
+        );
+      `);
+      if (needsTags) {
+        this.db.exec(`
+          INSERT INTO search_fts (entity_id, entity_type, title, content, tags)
+          SELECT entity_id, entity_type, title, content, '' FROM search_fts_old;
+          DROP TABLE search_fts_old;
+        `);
+      }
+    })();
   }
 
+  /** Index an entity's text. Tags set with `setTags` are kept. */
   upsertEntity(
     entityId: string,
     entityType: SearchableEntityType,
@@ -32,17 +48,23 @@ export class FtsIndex {
     content: string,
   ): void {
     const upsert = this.db.transaction(() => {
+      const existing = this.db.prepare('SELECT tags FROM search_fts WHERE entity_id = ?').get(entityId) as { tags: string } | undefined;
       this.db.prepare('DELETE FROM search_fts WHERE entity_id = ?').run(entityId);
       this.db
         .prepare(
-          `INSERT INTO search_fts (entity_id, entity_type, title, content)
-           VALUES (?, ?, ?, ?)`,
+          `INSERT INTO search_fts (entity_id, entity_type, title, content, tags)
+           VALUES (?, ?, ?, ?, ?)`,
         )
-        .run(entityId, entityType, title, content);
+        .run(entityId, entityType, title, content, existing?.tags ?? '');
     });
     upsert();
   }
 
+  /** Replace the tag names an indexed entity is found by */
+  setTags(entityId: string, tags: string[]): void {
+    this.db.prepare('UPDATE search_fts SET tags = ? WHERE entity_id = ?').run(tags.join(' '), entityId);
+  }
+
   deleteEntity(entityId: string): void {
     this.db.prepare('DELETE FROM search_fts WHERE entity_id = ?').run(entityId);
   }
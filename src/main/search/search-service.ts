@@ -79,6 +79,11 @@ export class SearchService {
     this.embeddingQueue.enqueue(entityId, entityType, text);
   }
 
+  /** Tag names are keyword-searchable but stay out of the embeddings */
+  setEntityTags(entityId: string, tags: string[]): void {
+    this.ftsIndex?.setTags(entityId, tags);
+  }
+
   removeEntity(entityId: string): void {
     this.vectorStore?.deleteByEntityId(entityId);
     this.ftsIndex?.deleteEntity(entityId);
@@ -112,6 +117,16 @@ export class SearchService {
       }
     }
 
+    const tagRows = await mainDb.getAll<{ entity_id: string; name: string }>(
+      `SELECT et.entity_id, t.name FROM entity_tags et
+       JOIN tags t ON t.id = et.tag_id AND t.deleted_at IS NULL
+       WHERE et.deleted_at IS NULL`,
+    );
+    const tagsByEntity = new Map<string, string[]>();
+    for (const { entity_id, name } of tagRows) {
+      tagsByEntity.set(entity_id, [...(tagsByEntity.get(entity_id) ?? []), name]);
+    }
+
     const total = allEntities.length;
     let processed = 0;
 
@@ -130,6 +145,7 @@ export class SearchService {
 
         // FTS index
         this.ftsIndex!.upsertEntity(entity.id as string, type, title, text);
+        this.ftsIndex!.setTags(entity.id as string, tagsByEntity.get(entity.id as string) ?? []);
 
         // Embedding
         const hash = contentHash(text);
@@ -0,0 +1,254 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createBackupService, BackupService, RecordingStore } from './backup.service';
+import { createTaskService } from './task.service';
+import { createChecklistService } from './checklist.service';
+import { createProjectHeadingService } from './project-heading.service';
+import { createStakeholderService } from './stakeholder.service';
+import { createProjectStakeholderService } from './project-stakeholder.service';
+import { createMeetingService } from './meeting.service';
+import { createMeetingAttendeeService } from './meeting-attendee.service';
+import { createDailyNoteService } from './daily-note.service';
+import { createTaskDependencyService } from './task-dependency.service';
+import { createReminderService } from './reminder.service';
+import { createTagService } from './tag.service';
+import { createTimeEntryService } from './time-entry.service';
+import { createTestDb, TestDb } from '../../../tests/helpers/db';
+import type { ExportArchive } from '@shared/types';
+
+async function seed(db: TestDb) {
+  const contextId = db.createContext({ name: 'Work', color: '#f00' });
+  const projectId = db.createProject({ title: 'Launch', context_id: contextId });
+  const heading = await createProjectHeadingService(db).create({ project_id: projectId, title: 'Phase 1' });
+  const task = await createTaskService(db).create({ title: 'Write spec', project_id: projectId, heading_id: heading.id });
+  const item = await createChecklistService(db).create({ task_id: task.id, title: 'Outline' });
+  await createChecklistService(db).update(item.id, { is_done: true });
+  const stakeholder = await createStakeholderService(db).create({ name: 'Ada' });
+  await createProjectStakeholderService(db).link(projectId, stakeholder.id);
+  const noteId = db.createNote({ title: 'Kickoff', project_id: projectId, is_pinned: true });
+  const meeting = await createMeetingService(db).create({ title: 'Sync', start_time: '2026-02-20T10:00:00.000Z' });
+  await createMeetingAttendeeService(db).link(meeting.id, stakeholder.id);
+  await createDailyNoteService(db).upsert('2026-02-20', 'Shipped it');
+  return { contextId, projectId, heading, task, item, stakeholder, noteId, meeting };
+}
+
+describe('BackupService', () => {
+  let source: TestDb;
+  let target: TestDb;
+  let exporter: BackupService;
+  let importer: BackupService;
+
+  beforeEach(() => {
+    source = createTestDb();
+    target = createTestDb();
+    exporter = createBackupService(source);
+    importer = createBackupService(target);
+  });
+
+  describe('exportData', () => {
+    it('writes a versioned archive of every entity', async () => {
+      const { task, item, noteId } = await seed(source);
+
+      const archive = await exporter.exportData();
+
+      expect(archive.format).toBe('cortex-export');
+      expect(archive.version).toBe(1);
+      expect(archive.data.tasks.map((t) => t.id)).toEqual([task.id]);
+      expect(archive.data.task_checklists[0]).toMatchObject({ id: item.id, is_done: true });
+      expect(archive.data.notes[0]).toMatchObject({ id: noteId, is_pinned: true });
+      expect(archive.data.project_headings).toHaveLength(1);
+      expect(archive.data.project_stakeholders).toHaveLength(1);
+      expect(archive.data.meetings).toHaveLength(1);
+      expect(archive.data.meeting_attendees).toHaveLength(1);
+      expect(archive.data.daily_notes[0].content).toBe('Shipped it');
+      expect(archive.recordings).toBeUndefined();
+    });
+
+    it('leaves out permanently deleted tasks', async () => {
+      const task = await createTaskService(source).create({ title: 'Gone' });
+      source.db.prepare('UPDATE tasks SET deleted_at = ?, permanently_deleted_at = ? WHERE id = ?')
+        .run('2026-01-01T00:00:00.000Z', '2026-01-02T00:00:00.000Z', task.id);
+
+      const archive = await exporter.exportData();
+
+      expect(archive.data.tasks).toEqual([]);
+    });
+  });
+
+  describe('importData', () => {
+    it('restores an archive into an empty database', async () => {
+      const { task, heading, projectId } = await seed(source);
+      const archive = await exporter.exportData();
+
+      const summary = await importer.importData(archive);
+
+      expect(summary).toMatchObject({ inserted: 11, updated: 0, skipped: 0, remapped: 0 });
+      const raw = target.getRawTask(task.id);
+      expect(raw?.heading_id).toBe(heading.id);
+      expect(raw?.project_id).toBe(projectId);
+      expect(raw?.source).toBe('import');
+      expect(await exporter.exportData().then((a) => a.data)).toEqual((await importer.exportData()).data);
+    });
+
+    it('restores links between tasks', async () => {
+      const tasks = createTaskService(source);
+      const spec = await tasks.create({ title: 'Write spec' });
+      const build = await tasks.create({ title: 'Build' });
+      await createTaskDependencyService(source).link(build.id, spec.id);
+
+      await importer.importData(await exporter.exportData());
+
+      expect(await createTaskDependencyService(target).listByTask(build.id)).toEqual([
+        expect.objectContaining({ task_id: build.id, blocked_by_task_id: spec.id }),
+      ]);
+    });
+
+    it('restores reminders without the device that fired them', async () => {
+      const task = await createTaskService(source).create({ title: 'Renew passport', deadline: '2099-03-01' });
+      const reminder = await createReminderService(source).create({ task_id: task.id, offset_minutes: 60 });
+      source.db.prepare('UPDATE reminders SET fired_at = ?, fired_by = ? WHERE id = ?')
+        .run('2099-03-01T08:00:00.000Z', 'device-a', reminder.id);
+
+      await importer.importData(await exporter.exportData());
+
+      expect(await createReminderService(target).list()).toEqual([
+        expect.objectContaining({ id: reminder.id, task_id: task.id, offset_minutes: 60, fired_at: '2099-03-01T08:00:00.000Z', fired_by: null }),
+      ]);
+    });
+
+    it('restores tags, joining tags of the same name', async () => {
+      const task = await createTaskService(source).create({ title: 'Buy stamps', tags: ['errand'] });
+      const existing = await createTagService(target).create({ name: 'errand' });
+
+      await importer.importData(await exporter.exportData());
+
+      const tags = createTagService(target);
+      expect(await tags.list()).toEqual([existing]);
+      expect(await tags.listEntityTags()).toEqual([
+        expect.objectContaining({ tag_id: existing.id, entity_type: 'task', entity_id: task.id }),
+      ]);
+    });
+
+    it('joins tags whose names differ only in case', async () => {
+      await createTaskService(source).create({ title: 'Buy stamps', tags: ['Errand'] });
+      const existing = await createTagService(target).create({ name: 'errand' });
+
+      await importer.importData(await exporter.exportData());
+
+      expect((await createTagService(target).list()).map((tag) => tag.id)).toEqual([existing.id]);
+    });
+
+    it('stops timers that were running in the archive when it was made', async () => {
+      const archived = await createTaskService(source).create({ title: 'Write spec' });
+      const entry = await createTimeEntryService(source).start(archived.id);
+      const local = await createTaskService(target).create({ title: 'Review PR' });
+      const running = await createTimeEntryService(target).start(local.id);
+      const archive = await exporter.exportData();
+
+      await importer.importData(archive);
+
+      expect(await createTimeEntryService(target).getRunning()).toMatchObject({ id: running.id });
+      expect(await target.db.getOptional('SELECT ended_at FROM time_entries WHERE id = ?', [entry.id])).toEqual({ ended_at: archive.exported_at });
+    });
+
+    it('is idempotent', async () => {
+      await seed(source);
+      const archive = await exporter.exportData();
+      await importer.importData(archive);
+
+      const summary = await importer.importData(archive);
+
+      expect(summary).toMatchObject({ inserted: 0, updated: 0, skipped: 11 });
+    });
+
+    it('overwrites a record only when the archived copy is newer', async () => {
+      const { task } = await seed(source);
+      await importer.importData(await exporter.exportData());
+      await createTaskService(source).update(task.id, { title: 'Write final spec' });
+
+      const summary = await importer.importData(await exporter.exportData());
+
+      expect(summary.updated).toBe(1);
+      expect(target.getRawTask(task.id)?.title).toBe('Write final spec');
+    });
+
+    it('merges daily notes by date', async () => {
+      await createDailyNoteService(target).upsert('2026-02-20', 'Local');
+      await new Promise((r) => setTimeout(r, 5));
+      await createDailyNoteService(source).upsert('2026-02-20', 'From archive');
+
+      const summary = await importer.importData(await exporter.exportData());
+
+      expect(summary.updated).toBe(1);
+      const notes = await createDailyNoteService(target).list();
+      expect(notes).toHaveLength(1);
+      expect(notes[0].content).toBe('From archive');
+    });
+
+    it('remaps ids that belong to a different record and rewrites references', async () => {
+      const { projectId, task } = await seed(source);
+      // Same project id, but a different record on the target
+      target.db.prepare('INSERT INTO projects (id, title, status, sort_order, created_at, updated_at) VALUES (?, ?, ?, 0, ?, ?)')
+        .run(projectId, 'Unrelated', 'active', '2020-01-01T00:00:00.000Z', '2020-01-01T00:00:00.000Z');
+
+      const summary = await importer.importData(await exporter.exportData());
+
+      expect(summary.remapped).toBe(1);
+      const newProjectId = target.getRawTask(task.id)?.project_id as string;
+      expect(newProjectId).not.toBe(projectId);
+      expect(target.getRawProject(newProjectId)?.title).toBe('Launch');
+      expect(target.getRawProject(projectId)?.title).toBe('Unrelated');
+
+      const again = await importer.importData(await exporter.exportData());
+      expect(again.inserted).toBe(0);
+    });
+
+    it('rejects invalid rows without writing anything', async () => {
+      await seed(source);
+      const archive = await exporter.exportData();
+      (archive.data.tasks[0] as unknown as Record<string, unknown>).status = 'done';
+
+      await expect(importer.importData(archive)).rejects.toThrow('Invalid export file at data.tasks.0.status');
+      expect((await importer.exportData()).data.contexts).toEqual([]);
+    });
+
+    it('rejects archives from a newer version', async () => {
+      const archive: ExportArchive = { ...(await exporter.exportData()), version: 2 };
+
+      await expect(importer.importData(archive)).rejects.toThrow('Unsupported export version 2');
+    });
+  });
+
+  describe('recordings', () => {
+    function createStore(files: Record<string, Buffer>): RecordingStore {
+      return {
+        read: vi.fn(async (path: string) => files[path] ?? null),
+        exists: vi.fn(async (path: string) => path in files),
+        save: vi.fn(async (meetingId: string, data: Buffer) => {
+          const path = `/restored/${meetingId}.webm`;
+          files[path] = data;
+          return path;
+        }),
+      };
+    }
+
+    it('embeds and restores meeting audio when requested', async () => {
+      const { meeting } = await seed(source);
+      await createMeetingService(source).update(meeting.id, { audio_path: '/recordings/sync.webm' });
+      const sourceStore = createStore({ '/recordings/sync.webm': Buffer.from('audio') });
+      const targetFiles: Record<string, Buffer> = {};
+      const targetStore = createStore(targetFiles);
+
+      const archive = await createBackupService(source, sourceStore).exportData({ includeRecordings: true });
+      const summary = await createBackupService(target, targetStore).importData(archive);
+
+      expect(archive.recordings).toEqual([
+        { meeting_id: meeting.id, file_name: 'sync.webm', data: Buffer.from('audio').toString('base64') },
+      ]);
+      expect(summary.recordings).toBe(1);
+      expect(targetFiles[`/restored/${meeting.id}.webm`].toString()).toBe('audio');
+
+      const again = await createBackupService(target, targetStore).importData(archive);
+      expect(again.recordings).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,354 @@
+import type { ExportArchive, ExportOptions, ExportRecording, ImportSummary } from '@shared/types';
+import { ExportArchiveSchema } from '@shared/validation';
+import type { AsyncDatabase, DbContext } from '../db/types';
+import { nameBasedId } from '../db/ids';
+
+export const EXPORT_FORMAT_VERSION = 1;
+
+export interface BackupService {
+  exportData(options?: ExportOptions): Promise<ExportArchive>;
+  /** Validate and merge an archive into the database. Safe to run repeatedly. */
+  importData(input: unknown): Promise<ImportSummary>;
+}
+
+/** File access for meeting recordings, provided by the recording service */
+export interface RecordingStore {
+  read(audioPath: string): Promise<Buffer | null>;
+  exists(audioPath: string): Promise<boolean>;
+  save(meetingId: string, data: Buffer): Promise<string>;
+}
+
+type TableName = keyof ExportArchive['data'];
+type Row = Record<string, unknown>;
+
+interface TableSpec {
+  name: TableName;
+  columns: string[];
+  /** Stored as 0/1, exported as booleans */
+  booleans?: string[];
+  /** Columns holding ids of other exported rows; remapped along with them */
+  references?: string[];
+  /** Columns that identify the row instead of its id (link tables, one daily note per date) */
+  naturalKey?: string[];
+  /** Whether the natural key is compared ignoring case */
+  naturalKeyNoCase?: boolean;
+  /** Values for NOT NULL columns that archives from older versions may lack */
+  defaults?: Row;
+  /** Whether the table has a `source` column to mark imported rows */
+  tracksSource?: boolean;
+  exportWhere?: string;
+}
+
+// Parents come before children so references are remapped before they are used
+const TABLES: TableSpec[] = [
+  {
+    name: 'contexts',
+    columns: ['id', 'name', 'color', 'icon', 'sort_order', 'created_at', 'updated_at', 'deleted_at'],
+    defaults: { sort_order: 0 },
+    tracksSource: true,
+  },
+  {
+    name: 'stakeholders',
+    columns: ['id', 'name', 'organization', 'role', 'email', 'phone', 'notes', 'avatar_url', 'created_at', 'updated_at', 'deleted_at'],
+    tracksSource: true,
+  },
+  {
+    name: 'projects',
+    columns: ['id', 'title', 'description', 'status', 'context_id', 'sort_order', 'created_at', 'updated_at', 'completed_at', 'deleted_at', 'owner_type', 'owner_stakeholder_id'],
+    references: ['context_id', 'owner_stakeholder_id'],
+    defaults: { sort_order: 0, owner_type: 'user' },
+    tracksSource: true,
+  },
+  {
+    name: 'project_headings',
+    columns: ['id', 'project_id', 'title', 'sort_order', 'created_at', 'updated_at', 'archived_at', 'deleted_at'],
+    references: ['project_id'],
+    defaults: { sort_order: 0 },
+    tracksSource: true,
+  },
+  {
+    name: 'tasks',
+    columns: ['id', 'title', 'notes', 'status', 'when_date', 'deadline', 'project_id', 'heading_id', 'context_id', 'priority', 'sort_order', 'created_at', 'updated_at', 'completed_at', 'deleted_at', 'stale_at', 'assignee_id', 'recurrence', 'estimate_minutes'],
+    references: ['project_id', 'heading_id', 'context_id'],
+    defaults: { sort_order: 0 },
+    tracksSource: true,
+    exportWhere: 'permanently_deleted_at IS NULL',
+  },
+  {
+    name: 'task_checklists',
+    columns: ['id', 'task_id', 'title', 'is_done', 'sort_order', 'created_at', 'updated_at', 'deleted_at'],
+    booleans: ['is_done'],
+    references: ['task_id'],
+    defaults: { is_done: false, sort_order: 0 },
+    tracksSource: true,
+    exportWhere: 'task_id IN (SELECT id FROM tasks WHERE permanently_deleted_at IS NULL)',
+  },
+  {
+    name: 'task_dependencies',
+    columns: ['id', 'task_id', 'blocked_by_task_id', 'created_at'],
+    references: ['task_id', 'blocked_by_task_id'],
+    naturalKey: ['task_id', 'blocked_by_task_id'],
+    exportWhere: 'deleted_at IS NULL AND task_id IN (SELECT id FROM tasks WHERE permanently_deleted_at IS NULL) AND blocked_by_task_id IN (SELECT id FROM tasks WHERE permanently_deleted_at IS NULL)',
+  },
+  {
+    name: 'project_stakeholders',
+    columns: ['id', 'project_id', 'stakeholder_id', 'created_at'],
+    references: ['project_id', 'stakeholder_id'],
+    naturalKey: ['project_id', 'stakeholder_id'],
+  },
+  {
+    name: 'notes',
+    columns: ['id', 'title', 'content', 'context_id', 'project_id', 'is_pinned', 'created_at', 'updated_at', 'deleted_at'],
+    booleans: ['is_pinned'],
+    references: ['context_id', 'project_id'],
+    defaults: { is_pinned: false },
+    tracksSource: true,
+  },
+  {
+    name: 'note_stakeholders',
+    columns: ['id', 'note_id', 'stakeholder_id'],
+    references: ['note_id', 'stakeholder_id'],
+    naturalKey: ['note_id', 'stakeholder_id'],
+  },
+  {
+    name: 'meetings',
+    columns: ['id', 'title', 'description', 'start_time', 'end_time', 'is_all_day', 'location', 'meeting_url', 'status', 'context_id', 'project_id', 'notes', 'audio_path', 'recording_duration', 'transcript', 'transcript_segments', 'transcription_status', 'created_at', 'updated_at', 'deleted_at'],
+    booleans: ['is_all_day'],
+    references: ['context_id', 'project_id'],
+    defaults: { is_all_day: false, status: 'scheduled' },
+    tracksSource: true,
+  },
+  {
+    name: 'meeting_attendees',
+    columns: ['id', 'meeting_id', 'stakeholder_id'],
+    references: ['meeting_id', 'stakeholder_id'],
+    naturalKey: ['meeting_id', 'stakeholder_id'],
+  },
+  {
+    name: 'reminders',
+    // fired_by names a device of the exporting install, so it stays behind
+    columns: ['id', 'task_id', 'meeting_id', 'remind_at', 'offset_minutes', 'snoozed_until', 'fired_at', 'created_at', 'updated_at'],
+    references: ['task_id', 'meeting_id'],
+    exportWhere: 'deleted_at IS NULL',
+  },
+  {
+    name: 'tags',
+    columns: ['id', 'name', 'color', 'created_at', 'updated_at', 'deleted_at'],
+    // Tags are referred to by name, so an archived "Errand" joins the existing "errand"
+    naturalKey: ['name'],
+    naturalKeyNoCase: true,
+  },
+  {
+    name: 'entity_tags',
+    columns: ['id', 'tag_id', 'entity_type', 'entity_id', 'created_at'],
+    references: ['tag_id', 'entity_id'],
+    naturalKey: ['tag_id', 'entity_type', 'entity_id'],
+    exportWhere: 'deleted_at IS NULL',
+  },
+  {
+    name: 'smart_lists',
+    columns: ['id', 'name', 'query', 'created_at', 'updated_at', 'deleted_at'],
+  },
+  {
+    name: 'templates',
+    columns: ['id', 'name', 'kind', 'body', 'created_at', 'updated_at', 'deleted_at'],
+  },
+  {
+    name: 'time_entries',
+    columns: ['id', 'task_id', 'started_at', 'ended_at', 'created_at', 'updated_at', 'deleted_at'],
+    references: ['task_id'],
+  },
+  {
+    name: 'daily_notes',
+    columns: ['id', 'date', 'content', 'created_at', 'updated_at'],
+    naturalKey: ['date'],
+    tracksSource: true,
+  },
+];
+
+function fromDbRow(spec: TableSpec, row: Row): Row {
+  const out = { ...row };
+  for (const col of spec.booleans ?? []) out[col] = !!row[col];
+  return out;
+}
+
+function toDbRow(spec: TableSpec, row: Row, idMap: Map<string, string>): Row {
+  const out: Row = {};
+  for (const col of spec.columns) {
+    const value = row[col] ?? spec.defaults?.[col] ?? null;
+    out[col] = spec.booleans?.includes(col) ? (value ? 1 : 0) : value;
+  }
+  for (const col of spec.references ?? []) {
+    const ref = out[col];
+    if (typeof ref === 'string' && idMap.has(ref)) out[col] = idMap.get(ref);
+  }
+  return out;
+}
+
+export function createBackupService(ctx: DbContext, recordings?: RecordingStore): BackupService {
+  const { db } = ctx;
+
+  async function insertRow(tx: AsyncDatabase, spec: TableSpec, row: Row): Promise<void> {
+    const columns = spec.tracksSource ? [...spec.columns, 'source'] : spec.columns;
+    const values = spec.columns.map((col) => row[col]);
+    if (spec.tracksSource) values.push('import');
+    await tx.execute(
+      `INSERT INTO ${spec.name} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+      values
+    );
+  }
+
+  async function updateRow(tx: AsyncDatabase, spec: TableSpec, id: string, row: Row): Promise<void> {
+    const columns = spec.columns.filter((col) => col !== 'id');
+    await tx.execute(
+      `UPDATE ${spec.name} SET ${columns.map((col) => `${col} = ?`).join(', ')} WHERE id = ?`,
+      [...columns.map((col) => row[col]), id]
+    );
+  }
+
+  async function importRow(
+    tx: AsyncDatabase,
+    spec: TableSpec,
+    input: Row,
+    idMap: Map<string, string>,
+    summary: ImportSummary,
+  ): Promise<void> {
+    const row = toDbRow(spec, input, idMap);
+    const originalId = row.id as string;
+
+    let existing: Row | null = null;
+    if (spec.naturalKey) {
+      existing = await tx.getOptional<Row>(
+        `SELECT * FROM ${spec.name} WHERE ${spec.naturalKey.map((col) => `${col} = ?${spec.naturalKeyNoCase ? ' COLLATE NOCASE' : ''}`).join(' AND ')}`,
+        spec.naturalKey.map((col) => row[col])
+      );
+    }
+
+    if (!existing) {
+      const byId = await tx.getOptional<Row>(`SELECT * FROM ${spec.name} WHERE id = ?`, [originalId]);
+      // Same id and creation time means it is the same record (an earlier
+      // export of this database, or a previous import of this archive)
+      const sameRecord = byId && !spec.naturalKey && byId.created_at === row.created_at;
+      if (byId && !sameRecord) {
+        const salt = spec.naturalKey
+          ? spec.naturalKey.map((col) => String(row[col])).join(':')
+          : String(row.created_at);
+        // Derived from the original id, so re-imports stay idempotent: the
+        // second run lands on the row the first run created
+        row.id = nameBasedId(`${originalId}:${salt}`);
+        idMap.set(originalId, row.id as string);
+        summary.remapped++;
+        existing = await tx.getOptional<Row>(`SELECT * FROM ${spec.name} WHERE id = ?`, [row.id]);
+      } else {
+        existing = byId;
+      }
+    }
+
+    if (!existing) {
+      await insertRow(tx, spec, row);
+      summary.inserted++;
+      return;
+    }
+
+    if (existing.id !== originalId) idMap.set(originalId, existing.id as string);
+
+    // Last write wins: only overwrite when the archived copy is newer
+    const incoming = row.updated_at as string | null | undefined;
+    const current = existing.updated_at as string | null | undefined;
+    if (incoming && current && incoming > current) {
+      await updateRow(tx, spec, existing.id as string, { ...row, id: existing.id });
+      summary.updated++;
+    } else {
+      summary.skipped++;
+    }
+  }
+
+  async function restoreRecordings(
+    archived: ExportRecording[],
+    idMap: Map<string, string>,
+    summary: ImportSummary,
+  ): Promise<void> {
+    if (!recordings) return;
+    for (const recording of archived) {
+      const meetingId = idMap.get(recording.meeting_id) ?? recording.meeting_id;
+      const meeting = await db.getOptional<{ audio_path: string | null }>(
+        'SELECT audio_path FROM meetings WHERE id = ?',
+        [meetingId]
+      );
+      if (!meeting) continue;
+      if (meeting.audio_path && await recordings.exists(meeting.audio_path)) continue;
+
+      const audioPath = await recordings.save(meetingId, Buffer.from(recording.data, 'base64'));
+      await db.execute('UPDATE meetings SET audio_path = ? WHERE id = ?', [audioPath, meetingId]);
+      summary.recordings++;
+    }
+  }
+
+  return {
+    async exportData(options?: ExportOptions): Promise<ExportArchive> {
+      const data = {} as Record<TableName, Row[]>;
+      for (const spec of TABLES) {
+        const where = spec.exportWhere ? ` WHERE ${spec.exportWhere}` : '';
+        const rows = await db.getAll<Row>(`SELECT ${spec.columns.join(', ')} FROM ${spec.name}${where}`);
+        data[spec.name] = rows.map((row) => fromDbRow(spec, row));
+      }
+
+      const archive: ExportArchive = {
+        format: 'cortex-export',
+        version: EXPORT_FORMAT_VERSION,
+        exported_at: new Date().toISOString(),
+        data: data as unknown as ExportArchive['data'],
+      };
+
+      if (options?.includeRecordings && recordings) {
+        archive.recordings = [];
+        for (const meeting of archive.data.meetings) {
+          if (!meeting.audio_path) continue;
+          const buffer = await recordings.read(meeting.audio_path);
+          if (!buffer) continue;
+          archive.recordings.push({
+            meeting_id: meeting.id,
+            file_name: meeting.audio_path.split(/[\\/]/).pop()!,
+            data: buffer.toString('base64'),
+          });
+        }
+      }
+
+      return archive;
+    },
+
+    async importData(input: unknown): Promise<ImportSummary> {
+      const parsed = ExportArchiveSchema.safeParse(input);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        throw new Error(`Invalid export file at ${issue.path.join('.')}: ${issue.message}`);
+      }
+      const archive = parsed.data;
+      if (archive.version > EXPORT_FORMAT_VERSION) {
+        throw new Error(`Unsupported export version ${archive.version}`);
+      }
+
+      const summary: ImportSummary = { inserted: 0, updated: 0, skipped: 0, remapped: 0, recordings: 0 };
+      const idMap = new Map<string, string>();
+
+      await db.writeTransaction(async (tx) => {
+        for (const spec of TABLES) {
+          for (const row of archive.data[spec.name] as Row[]) {
+            // A timer still running in the archive stops when the archive was
+            // made, so it never runs alongside one on this device
+            const input = spec.name === 'time_entries' && !row.ended_at ? { ...row, ended_at: archive.exported_at } : row;
+            await importRow(tx, spec, input, idMap, summary);
+          }
+        }
+      });
+
+      // Audio files are written after the rows are committed so a failed
+      // import never leaves orphaned recordings behind
+      if (archive.recordings) {
+        await restoreRecordings(archive.recordings, idMap, summary);
+      }
+
+      return summary;
+    },
+  };
+}
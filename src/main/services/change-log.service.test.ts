@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createChangeLogService, ChangeLogService } from './change-log.service';
+import { createTaskService, nextInstanceId, TaskService } from './task.service';
+import { createTestDb, TestDb } from '../../../tests/helpers/db';
+
+describe('ChangeLogService', () => {
+  let db: TestDb;
+  let service: ChangeLogService;
+
+  const task = (fields: Record<string, unknown>) => ({ id: 'task-1', title: 'Draft', status: 'inbox', ...fields });
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date('2099-01-07T10:00:00Z'), toFake: ['Date'] });
+    db = createTestDb();
+    service = createChangeLogService(db);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    db.close();
+  });
+
+  it('logs changed fields only, leaving out bookkeeping columns', async () => {
+    await service.record([
+      { table: 'tasks', id: 'task-1', before: null, after: task({ notes: null, sort_order: 1 }) },
+      { table: 'tasks', id: 'task-1', before: task({}), after: task({ status: 'today', updated_at: 'later' }) },
+      { table: 'task_checklists', id: 'item-1', before: null, after: { id: 'item-1', title: 'Step' } },
+    ]);
+
+    const history = await service.list('task-1');
+    expect(history).toEqual([
+      expect.objectContaining({ action: 'update', changes: { status: { from: 'inbox', to: 'today' } } }),
+      expect.objectContaining({ action: 'create', changes: { title: { from: null, to: 'Draft' }, status: { from: null, to: 'inbox' } } }),
+    ]);
+    expect(await service.list('item-1')).toEqual([]);
+  });
+
+  it('calls moving to the trash a delete', async () => {
+    await service.record([{ table: 'notes', id: 'note-1', before: { id: 'note-1', deleted_at: null }, after: { id: 'note-1', deleted_at: '2099-01-07' } }]);
+    expect((await service.list('note-1'))[0]).toMatchObject({ entity_type: 'note', action: 'delete' });
+  });
+
+  it('appends every edit as its own entry', async () => {
+    await service.record([{ table: 'notes', id: 'note-1', before: { id: 'note-1', content: 'a' }, after: { id: 'note-1', content: 'ab' } }]);
+    vi.setSystemTime(new Date('2099-01-07T10:01:00Z'));
+    await service.record([{ table: 'notes', id: 'note-1', before: { id: 'note-1', content: 'ab' }, after: { id: 'note-1', content: 'abc' } }]);
+
+    expect((await service.list('note-1')).map((c) => c.changes.content)).toEqual([
+      { from: 'ab', to: 'abc' },
+      { from: 'a', to: 'ab' },
+    ]);
+  });
+
+  it('names the agent behind a change', async () => {
+    const agentId = db.createAgent({ name: 'Claudius', api_key_hash: 'x' });
+    db.db.prepare(
+      `INSERT INTO entity_changes (id, entity_type, entity_id, action, changes, created_at, source, agent_id)
+       VALUES ('c1', 'task', 'task-1', 'update', '{"status":{"from":"inbox","to":"today"}}', '2099-01-07T10:32:00Z', 'ai', ?)`
+    ).run(agentId);
+
+    expect(await service.list('task-1')).toEqual([expect.objectContaining({ source: 'ai', agent_name: 'Claudius' })]);
+  });
+
+  it('restores the fields changed since a version and keeps the rest', async () => {
+    const { id } = await createTaskService(db).create({ title: 'Draft' });
+    const row = () => db.db.prepare('SELECT * FROM tasks WHERE id = ?').get(id) as Record<string, unknown>;
+    const edit = async (fields: Record<string, unknown>) => {
+      const before = row();
+      const columns = Object.keys(fields);
+      db.db.prepare(`UPDATE tasks SET ${columns.map((c) => `${c} = ?`).join(', ')} WHERE id = ?`).run(...Object.values(fields), id);
+      await service.record([{ table: 'tasks', id, before, after: row() }]);
+    };
+
+    await edit({ title: 'Plan', status: 'today' });
+    await edit({ priority: 'P1' });
+    await edit({ title: 'Final plan' });
+    const [, priorityChange] = await service.list(id);
+
+    await service.restore(priorityChange.id);
+
+    expect(row()).toMatchObject({ title: 'Plan', status: 'today', priority: 'P1' });
+    await expect(service.restore('missing')).rejects.toThrow('Change not found');
+  });
+
+  describe('restoring a task', () => {
+    let taskService: TaskService;
+    let id: string;
+    const row = () => db.db.prepare('SELECT * FROM tasks WHERE id = ?').get(id) as Record<string, unknown>;
+    const edit = async (fields: Record<string, unknown>) => {
+      const before = row();
+      const columns = Object.keys(fields);
+      db.db.prepare(`UPDATE tasks SET ${columns.map((c) => `${c} = ?`).join(', ')} WHERE id = ?`).run(...Object.values(fields), id);
+      await service.record([{ table: 'tasks', id, before, after: row() }]);
+    };
+
+    beforeEach(async () => {
+      taskService = createTaskService(db);
+      ({ id } = await taskService.create({ title: 'Water plants', when_date: '2099-01-07', recurrence: 'daily' }));
+    });
+
+    it('completes it the way an edit would, spawning the next instance', async () => {
+      await edit({ status: 'logbook', recurrence: null });
+      await edit({ status: 'today', recurrence: 'daily' });
+      const [, completed] = await service.list(id);
+
+      await service.restore(completed.id);
+
+      expect(row()).toMatchObject({ status: 'logbook', recurrence: null });
+      expect(row().completed_at).not.toBeNull();
+      expect(await taskService.get(nextInstanceId(id))).toMatchObject({ title: 'Water plants', recurrence: 'daily' });
+    });
+
+    it('takes it out of the trash when the version was from before', async () => {
+      await edit({ title: 'Water the plants' });
+      await edit({ deleted_at: '2099-01-07T10:00:00Z' });
+      const [, renamed] = await service.list(id);
+
+      await service.restore(renamed.id);
+
+      expect(row()).toMatchObject({ title: 'Water the plants', deleted_at: null });
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { randomUUID } from 'crypto';
+import type { EntityChange, FieldChange, HistoryEntityType, UpdateTaskInput } from '@shared/types';
+import { HISTORY_TABLES, changeAction, diffFields, isTrackedColumn } from '@shared/change-log';
+import type { AsyncDatabase, DbContext } from '../db/types';
+import { applyTaskUpdate, trashTask } from './task.service';
+
+type Row = Record<string, unknown>;
+
+/** A row as it was before and after a write, as the undo journal captures it */
+export interface RowWrite {
+  table: string;
+  id: string;
+  before: Row | null;
+  after: Row | null;
+}
+
+export interface RestoredRow {
+  table: string;
+  id: string;
+  row: Row | null;
+}
+
+export interface ChangeLogService {
+  /** Log the writes to tasks, projects, notes and meetings among `writes` as made by the user */
+  record(writes: RowWrite[]): Promise<void>;
+  /** History of one task, project, note or meeting, newest first */
+  list(entityId: string): Promise<EntityChange[]>;
+  /** Put the entity back the way it was right after `changeId`. Fields nothing has touched since are left alone */
+  restore(changeId: string): Promise<RestoredRow>;
+}
+
+/** Task columns a restore sets through the task update path; completed_at and stale_at follow from them */
+const TASK_UPDATE_COLUMNS = [
+  'title', 'notes', 'status', 'when_date', 'deadline', 'project_id', 'heading_id',
+  'context_id', 'priority', 'assignee_id', 'recurrence', 'estimate_minutes',
+];
+
+const TABLE_FOR: Record<HistoryEntityType, string> = Object.fromEntries(
+  Object.entries(HISTORY_TABLES).map(([table, type]) => [type, table]),
+) as Record<HistoryEntityType, string>;
+
+type StoredChange = Omit<EntityChange, 'changes' | 'agent_name'> & { changes: string; agent_name?: string | null };
+
+function parse(row: StoredChange): EntityChange {
+  return { ...row, changes: JSON.parse(row.changes) as Record<string, FieldChange>, agent_name: row.agent_name ?? null };
+}
+
+/**
+ * Restore task fields the way an edit would, so status and dates stay in
+ * step and completing a recurring task spawns its next instance. Taking the
+ * task out of the trash comes first, putting it back in last.
+ */
+async function restoreTask(conn: AsyncDatabase, id: string, values: Row, now: string): Promise<void> {
+  if ('deleted_at' in values && values.deleted_at == null) {
+    await conn.execute('UPDATE tasks SET deleted_at = NULL, updated_at = ? WHERE id = ?', [now, id]);
+  }
+  const input = Object.fromEntries(TASK_UPDATE_COLUMNS.filter((column) => column in values).map((column) => [column, values[column]]));
+  // Completing hands the repeat rule on to the next instance, which the update path does itself
+  if (input.status === 'logbook' && input.recurrence === null) delete input.recurrence;
+  if (Object.keys(input).length > 0) {
+    await applyTaskUpdate(conn, id, input as UpdateTaskInput, now);
+  }
+  if (values.deleted_at != null) {
+    await trashTask(conn, id, now);
+  }
+}
+
+export function createChangeLogService(ctx: DbContext): ChangeLogService {
+  const { db } = ctx;
+
+  async function history(entityId: string): Promise<EntityChange[]> {
+    const rows = await db.getAll<StoredChange>(
+      `SELECT c.*, a.name AS agent_name FROM entity_changes c
+       LEFT JOIN ai_agents a ON a.id = c.agent_id
+       WHERE c.entity_id = ?
+       ORDER BY c.created_at, c.id`,
+      [entityId]
+    );
+    return rows.map(parse);
+  }
+
+  return {
+    async record(writes: RowWrite[]): Promise<void> {
+      for (const write of writes) {
+        const entityType = HISTORY_TABLES[write.table];
+        if (!entityType) continue;
+        const changes = diffFields(write.before, write.after);
+        if (Object.keys(changes).length === 0) continue;
+        const action = changeAction(write.before, write.after);
+
+        // Entries are ordered by time, so two writes in the same millisecond still get distinct ones
+        const last = await db.getOptional<{ created_at: string }>(
+          'SELECT created_at FROM entity_changes WHERE entity_id = ? ORDER BY created_at DESC, id DESC LIMIT 1',
+          [write.id]
+        );
+        let now = new Date().toISOString();
+        if (last && now <= last.created_at) now = new Date(Date.parse(last.created_at) + 1).toISOString();
+
+        await db.execute(
+          `INSERT INTO entity_changes (id, entity_type, entity_id, action, changes, created_at, source, agent_id)
+           VALUES (?, ?, ?, ?, ?, ?, 'user', NULL)`,
+          [randomUUID(), entityType, write.id, action, JSON.stringify(changes), now]
+        );
+      }
+    },
+
+    async list(entityId: string): Promise<EntityChange[]> {
+      return (await history(entityId)).reverse();
+    },
+
+    async restore(changeId: string): Promise<RestoredRow> {
+      const target = await db.getOptional<StoredChange>('SELECT * FROM entity_changes WHERE id = ?', [changeId]);
+      const table = target && TABLE_FOR[target.entity_type];
+      if (!target || !table) {
+        throw new Error('Change not found');
+      }
+      const current = await db.getOptional<Row>(`SELECT * FROM ${table} WHERE id = ?`, [target.entity_id]);
+      if (!current) {
+        throw new Error(`${target.entity_type[0].toUpperCase()}${target.entity_type.slice(1)} not found`);
+      }
+
+      // The first later change to each field says what it was right after the target
+      const entries = await history(target.entity_id);
+      const values: Row = {};
+      for (const entry of entries.slice(entries.findIndex((e) => e.id === changeId) + 1)) {
+        for (const [field, { from }] of Object.entries(entry.changes)) {
+          if (!(field in values)) values[field] = from;
+        }
+      }
+      // Column names come from synced JSON, so only ones the table really has are written
+      const columns = Object.keys(values).filter((column) => isTrackedColumn(column) && column in current);
+
+      const now = new Date().toISOString();
+      if (table === 'tasks') {
+        const restored = Object.fromEntries(columns.map((column) => [column, values[column]]));
+        await db.writeTransaction((tx) => restoreTask(tx, target.entity_id, restored, now));
+      } else if (columns.length > 0) {
+        await db.execute(
+          `UPDATE ${table} SET ${columns.map((column) => `${column} = ?`).join(', ')}, updated_at = ? WHERE id = ?`,
+          [...columns.map((column) => values[column] ?? null), now, target.entity_id]
+        );
+      }
+      const row = await db.getOptional<Row>(`SELECT * FROM ${table} WHERE id = ?`, [target.entity_id]);
+      return { table, id: target.entity_id, row };
+    },
+  };
+}
@@ -2,6 +2,9 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import { createChecklistService, ChecklistService } from './checklist.service';
 import { createTestDb, TestDb } from '../../../tests/helpers/db';
 import { createTaskService, TaskService } from './task.service';
+import { createProjectService } from './project.service';
+import { createProjectHeadingService } from './project-heading.service';
+import { createContextService } from './context.service';
 
 describe('ChecklistService', () => {
   let db: TestDb;
@@ -200,4 +203,61 @@ describe('ChecklistService', () => {
       expect(items[2].sort_order).toBe(2);
     });
   });
+
+  describe('move', () => {
+    it('only rewrites the moved item', async () => {
+      const a = await checklistService.create({ task_id: taskId, title: 'A' });
+      const b = await checklistService.create({ task_id: taskId, title: 'B' });
+      const c = await checklistService.create({ task_id: taskId, title: 'C' });
+
+      const moved = await checklistService.move(c.id, [a.id, c.id, b.id]);
+
+      expect(moved.map((item) => [item.id, item.sort_order])).toEqual([[c.id, 0.5]]);
+      expect((await checklistService.listByTask(taskId)).map((item) => item.title)).toEqual(['A', 'C', 'B']);
+      expect(db.getRawChecklistItem(b.id)!.updated_at).toBe(b.updated_at);
+    });
+
+    it('throws when the item does not exist', async () => {
+      await expect(
+        checklistService.move('00000000-0000-4000-8000-000000000000', ['00000000-0000-4000-8000-000000000000'])
+      ).rejects.toThrow('Checklist item not found');
+    });
+  });
+
+  describe('promote', () => {
+    it('turns an item into a task under the same project heading and removes the item', async () => {
+      const project = await createProjectService(db).create({ title: 'Launch' });
+      const heading = await createProjectHeadingService(db).create({ project_id: project.id, title: 'Prep' });
+      const parent = await taskService.create({ title: 'Plan launch', project_id: project.id, heading_id: heading.id });
+      const item = await checklistService.create({ task_id: parent.id, title: 'Draft press release' });
+
+      const task = await checklistService.promote(item.id);
+
+      expect(task).toMatchObject({
+        title: 'Draft press release',
+        project_id: project.id,
+        heading_id: heading.id,
+        status: 'anytime',
+      });
+      expect(await taskService.get(task.id)).toMatchObject({ title: 'Draft press release' });
+      expect(await checklistService.listByTask(parent.id)).toEqual([]);
+      expect(db.getRawChecklistItem(item.id)!.deleted_at).not.toBeNull();
+    });
+
+    it('keeps a loose task\'s context and a done item\'s completion', async () => {
+      const work = await createContextService(db).create({ name: 'Work' });
+      const parent = await taskService.create({ title: 'Parent', context_id: work.id });
+      const item = await checklistService.create({ task_id: parent.id, title: 'Done step' });
+      await checklistService.update(item.id, { is_done: true });
+
+      const task = await checklistService.promote(item.id);
+
+      expect(await taskService.get(task.id)).toMatchObject({ context_id: work.id, status: 'logbook', project_id: null });
+      expect(db.getRawTask(task.id)!.completed_at).not.toBeNull();
+    });
+
+    it('throws when the item does not exist', async () => {
+      await expect(checklistService.promote('00000000-0000-4000-8000-000000000000')).rejects.toThrow('Checklist item not found');
+    });
+  });
 });
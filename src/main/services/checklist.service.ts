@@ -1,6 +1,8 @@
 import { randomUUID } from 'crypto';
-import type { ChecklistItem, CreateChecklistItemInput, UpdateChecklistItemInput } from '@shared/types';
+import type { ChecklistItem, CreateChecklistItemInput, UpdateChecklistItemInput, Task } from '@shared/types';
 import type { DbContext } from '../db/types';
+import { moveRow } from '../db/sort-order';
+import { createTaskService } from './task.service';
 
 export interface ChecklistService {
   listByTask(taskId: string): Promise<ChecklistItem[]>;
@@ -8,6 +10,13 @@ export interface ChecklistService {
   update(id: string, input: UpdateChecklistItemInput): Promise<ChecklistItem>;
   delete(id: string): Promise<void>;
   reorder(taskId: string, itemIds: string[]): Promise<void>;
+  /** Move one item to its place in `orderedIds`; returns the items whose sort_order changed */
+  move(id: string, orderedIds: string[]): Promise<ChecklistItem[]>;
+  /**
+   * Turn an item into a task in its task's project, heading and context,
+   * completed if the item was done. The item is deleted
+   */
+  promote(id: string): Promise<Task>;
 }
 
 interface RawChecklistRow {
@@ -40,8 +49,8 @@ export function createChecklistService(ctx: DbContext): ChecklistService {
       const next_order = orderRow?.next_order ?? 0;
 
       await db.execute(
-        'INSERT INTO task_checklists (id, task_id, title, is_done, sort_order, created_at, updated_at, deleted_at) VALUES (?, ?, ?, 0, ?, ?, ?, NULL)',
-        [id, input.task_id, input.title, next_order, now, now]
+        'INSERT INTO task_checklists (id, task_id, title, is_done, sort_order, created_at, updated_at, deleted_at, source) VALUES (?, ?, ?, 0, ?, ?, ?, NULL, ?)',
+        [id, input.task_id, input.title, next_order, now, now, input.source ?? 'user']
       );
 
       return {
@@ -122,5 +131,60 @@ export function createChecklistService(ctx: DbContext): ChecklistService {
         }
       });
     },
+
+    async move(id: string, orderedIds: string[]): Promise<ChecklistItem[]> {
+      const now = new Date().toISOString();
+      return db.writeTransaction(async (tx) => {
+        const existing = await tx.getOptional<RawChecklistRow>(
+          'SELECT * FROM task_checklists WHERE id = ? AND deleted_at IS NULL',
+          [id]
+        );
+        if (!existing) {
+          throw new Error('Checklist item not found');
+        }
+        const changed = await moveRow(tx, 'task_checklists', id, orderedIds, now);
+        const rows = await tx.getAll<RawChecklistRow>(
+          `SELECT * FROM task_checklists WHERE id IN (${changed.map(() => '?').join(', ')}) AND task_id = ? AND deleted_at IS NULL`,
+          [...changed, existing.task_id]
+        );
+        return rows.map(toChecklistItem);
+      });
+    },
+
+    async promote(id: string): Promise<Task> {
+      return db.writeTransaction(async (tx) => {
+        const item = await tx.getOptional<RawChecklistRow>(
+          'SELECT * FROM task_checklists WHERE id = ? AND deleted_at IS NULL',
+          [id]
+        );
+        if (!item) {
+          throw new Error('Checklist item not found');
+        }
+        const parent = await tx.getOptional<Task>('SELECT * FROM tasks WHERE id = ? AND deleted_at IS NULL', [item.task_id]);
+        if (!parent) {
+          throw new Error('Task not found');
+        }
+
+        // A task in a project is ready to pick up; a loose one goes to the inbox
+        const task = await createTaskService({ db: tx }).create({
+          title: item.title,
+          project_id: parent.project_id ?? undefined,
+          heading_id: parent.heading_id ?? undefined,
+          context_id: parent.context_id ?? undefined,
+          status: parent.project_id ? 'anytime' : undefined,
+        });
+        const now = new Date().toISOString();
+        await tx.execute(
+          'UPDATE task_checklists SET deleted_at = ?, updated_at = ? WHERE id = ?',
+          [now, now, id]
+        );
+        if (!item.is_done) return task;
+        await tx.execute(
+          "UPDATE tasks SET status = 'logbook', completed_at = ?, updated_at = ? WHERE id = ?",
+          [now, now, task.id]
+        );
+        return { ...task, status: 'logbook', completed_at: now, updated_at: now };
+      });
+    },
   };
 }
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createDailyNoteService, dailyNoteId, DailyNoteService } from './daily-note.service';
+import { createTestDb, TestDb } from '../../../tests/helpers/db';
+
+describe('DailyNoteService', () => {
+  let db: TestDb;
+  let dailyNoteService: DailyNoteService;
+
+  beforeEach(() => {
+    db = createTestDb();
+    dailyNoteService = createDailyNoteService(db);
+  });
+
+  describe('get', () => {
+    it('returns null when no note exists for the date', async () => {
+      const note = await dailyNoteService.get('2026-03-01');
+
+      expect(note).toBeNull();
+    });
+
+    it('returns the note for the requested date only', async () => {
+      await dailyNoteService.upsert('2026-03-01', 'Monday');
+      await dailyNoteService.upsert('2026-03-02', 'Tuesday');
+
+      const note = await dailyNoteService.get('2026-03-02');
+
+      expect(note?.content).toBe('Tuesday');
+    });
+  });
+
+  describe('upsert', () => {
+    it('creates a note for a new date', async () => {
+      const note = await dailyNoteService.upsert('2026-03-01', '# Standup');
+
+      expect(note.date).toBe('2026-03-01');
+      expect(note.content).toBe('# Standup');
+      expect(note.created_at).toBe(note.updated_at);
+    });
+
+    it('updates the existing row instead of inserting a second one', async () => {
+      const first = await dailyNoteService.upsert('2026-03-01', 'draft');
+      const second = await dailyNoteService.upsert('2026-03-01', 'final');
+
+      expect(second.id).toBe(first.id);
+      expect(second.content).toBe('final');
+      expect(second.created_at).toBe(first.created_at);
+
+      const count = db.db.prepare('SELECT COUNT(*) as n FROM daily_notes').get() as { n: number };
+      expect(count.n).toBe(1);
+    });
+
+    it('gives the same day the same id on every device of a user', async () => {
+      const getUserId = async () => 'user-1';
+      const laptop = await createDailyNoteService(createTestDb(), getUserId).upsert('2026-03-01', 'from laptop');
+      const desktop = await createDailyNoteService(createTestDb(), getUserId).upsert('2026-03-01', 'from desktop');
+      const otherUser = await createDailyNoteService(createTestDb(), async () => 'user-2').upsert('2026-03-01', 'mine');
+
+      expect(desktop.id).toBe(laptop.id);
+      expect(laptop.id).toBe(dailyNoteId('user-1', '2026-03-01'));
+      expect(otherUser.id).not.toBe(laptop.id);
+      expect(laptop.id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    });
+
+    it('persists the updated content', async () => {
+      await dailyNoteService.upsert('2026-03-01', 'draft');
+      await dailyNoteService.upsert('2026-03-01', 'final');
+
+      const stored = await dailyNoteService.get('2026-03-01');
+
+      expect(stored?.content).toBe('final');
+    });
+  });
+
+  describe('list', () => {
+    it('returns notes newest date first', async () => {
+      await dailyNoteService.upsert('2026-03-01', 'a');
+      await dailyNoteService.upsert('2026-03-03', 'c');
+      await dailyNoteService.upsert('2026-03-02', 'b');
+
+      const notes = await dailyNoteService.list();
+
+      expect(notes.map((n) => n.date)).toEqual(['2026-03-03', '2026-03-02', '2026-03-01']);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import type { DailyNote } from '@shared/types';
+import type { DbContext } from '../db/types';
+import { nameBasedId } from '../db/ids';
+
+export interface DailyNoteService {
+  get(date: string): Promise<DailyNote | null>;
+  list(): Promise<DailyNote[]>;
+  upsert(date: string, content: string): Promise<DailyNote>;
+}
+
+/**
+ * The id of the user's note on `date`. Devices that create the same day's
+ * note before syncing produce the same id, so their rows merge instead of
+ * clashing on the server's (user_id, date) key.
+ */
+export function dailyNoteId(userId: string | null, date: string): string {
+  return nameBasedId(`daily-note:${userId ?? 'local'}:${date}`);
+}
+
+export function createDailyNoteService(
+  ctx: DbContext,
+  getUserId: () => Promise<string | null> = async () => null
+): DailyNoteService {
+  const { db } = ctx;
+
+  return {
+    async get(date: string): Promise<DailyNote | null> {
+      return db.getOptional<DailyNote>(
+        'SELECT * FROM daily_notes WHERE date = ?',
+        [date]
+      );
+    },
+
+    async list(): Promise<DailyNote[]> {
+      return db.getAll<DailyNote>(
+        'SELECT * FROM daily_notes ORDER BY date DESC'
+      );
+    },
+
+    async upsert(date: string, content: string): Promise<DailyNote> {
+      const userId = await getUserId();
+      // PowerSync tables are views, so ON CONFLICT isn't available —
+      // look up the row for the date inside the transaction instead.
+      return db.writeTransaction(async (tx) => {
+        const now = new Date().toISOString();
+        const existing = await tx.getOptional<DailyNote>(
+          'SELECT * FROM daily_notes WHERE date = ?',
+          [date]
+        );
+
+        if (existing) {
+          await tx.execute(
+            'UPDATE daily_notes SET content = ?, updated_at = ? WHERE id = ?',
+            [content, now, existing.id]
+          );
+          return { ...existing, content, updated_at: now };
+        }
+
+        const note: DailyNote = {
+          id: dailyNoteId(userId, date),
+          date,
+          content,
+          created_at: now,
+          updated_at: now,
+        };
+
+        await tx.execute(
+          'INSERT INTO daily_notes (id, date, content, created_at, updated_at) VALUES (?, ?, ?, ?, ?)',
+          [note.id, note.date, note.content, note.created_at, note.updated_at]
+        );
+
+        return note;
+      });
+    },
+  };
+}
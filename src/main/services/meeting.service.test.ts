@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createMeetingService, MeetingService } from './meeting.service';
+import { createMeetingAttendeeService } from './meeting-attendee.service';
+import { createStakeholderService } from './stakeholder.service';
+import { createTestDb, TestDb } from '../../../tests/helpers/db';
+
+describe('MeetingService', () => {
+  let db: TestDb;
+  let meetingService: MeetingService;
+
+  beforeEach(() => {
+    db = createTestDb();
+    meetingService = createMeetingService(db);
+  });
+
+  describe('trash', () => {
+    it('listTrashed returns deleted meetings only', async () => {
+      const deleted = await meetingService.create({ title: 'Deleted', start_time: '2026-03-01T10:00:00.000Z', is_all_day: true });
+      await meetingService.create({ title: 'Active', start_time: '2026-03-02T10:00:00.000Z' });
+      await meetingService.delete(deleted.id);
+
+      const trashed = await meetingService.listTrashed();
+
+      expect(trashed).toHaveLength(1);
+      expect(trashed[0]).toMatchObject({ id: deleted.id, is_all_day: true });
+    });
+
+    it('restore brings the meeting back with its attendees', async () => {
+      const meeting = await meetingService.create({ title: 'Sync', start_time: '2026-03-01T10:00:00.000Z' });
+      const alice = await createStakeholderService(db).create({ name: 'Alice' });
+      const attendees = createMeetingAttendeeService(db);
+      await attendees.link(meeting.id, alice.id);
+      await meetingService.delete(meeting.id);
+
+      const restored = await meetingService.restore(meeting.id);
+
+      expect(restored.deleted_at).toBeNull();
+      expect(await meetingService.get(meeting.id)).not.toBeNull();
+      expect((await attendees.listByMeeting(meeting.id)).map((a) => a.stakeholder_id)).toEqual([alice.id]);
+    });
+
+    it('restore throws for a meeting that is not in the trash', async () => {
+      const meeting = await meetingService.create({ title: 'Sync', start_time: '2026-03-01T10:00:00.000Z' });
+
+      await expect(meetingService.restore(meeting.id)).rejects.toThrow('Meeting is not in trash');
+    });
+
+    it('emptyTrash makes trashed meetings unrestorable', async () => {
+      const meeting = await meetingService.create({ title: 'Sync', start_time: '2026-03-01T10:00:00.000Z' });
+      await meetingService.delete(meeting.id);
+
+      await meetingService.emptyTrash();
+
+      expect(await meetingService.listTrashed()).toEqual([]);
+      await expect(meetingService.restore(meeting.id)).rejects.toThrow('Meeting is not in trash');
+    });
+  });
+});
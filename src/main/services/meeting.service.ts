@@ -8,6 +8,10 @@ export interface MeetingService {
   list(): Promise<Meeting[]>;
   update(id: string, input: UpdateMeetingInput): Promise<Meeting>;
   delete(id: string): Promise<void>;
+  listTrashed(): Promise<Meeting[]>;
+  /** Attendee links stay in place while a meeting is trashed, so they come back with it */
+  restore(id: string): Promise<Meeting>;
+  emptyTrash(): Promise<void>;
 }
 
 function rowToMeeting(row: Record<string, unknown>): Meeting {
@@ -121,5 +125,39 @@ export function createMeetingService(ctx: DbContext): MeetingService {
         [now, now, id]
       );
     },
+
+    async listTrashed(): Promise<Meeting[]> {
+      const rows = await db.getAll<Record<string, unknown>>(
+        'SELECT * FROM meetings WHERE deleted_at IS NOT NULL AND permanently_deleted_at IS NULL ORDER BY deleted_at DESC'
+      );
+      return rows.map(rowToMeeting);
+    },
+
+    async restore(id: string): Promise<Meeting> {
+      const row = await db.getOptional<Record<string, unknown>>(
+        'SELECT * FROM meetings WHERE id = ? AND deleted_at IS NOT NULL AND permanently_deleted_at IS NULL',
+        [id]
+      );
+
+      if (!row) {
+        throw new Error('Meeting is not in trash');
+      }
+
+      const now = new Date().toISOString();
+      await db.execute(
+        'UPDATE meetings SET deleted_at = NULL, updated_at = ? WHERE id = ?',
+        [now, id]
+      );
+
+      return { ...rowToMeeting(row), deleted_at: null, updated_at: now };
+    },
+
+    async emptyTrash(): Promise<void> {
+      const now = new Date().toISOString();
+      await db.execute(
+        'UPDATE meetings SET permanently_deleted_at = ? WHERE deleted_at IS NOT NULL AND permanently_deleted_at IS NULL',
+        [now]
+      );
+    },
   };
 }
@@ -206,6 +206,39 @@ describe('NoteService', () => {
     });
   });
 
+  describe('trash', () => {
+    it('listTrashed returns deleted notes only', async () => {
+      const deleted = await noteService.create({ title: 'Deleted', is_pinned: true });
+      await noteService.create({ title: 'Active' });
+      await noteService.delete(deleted.id);
+
+      const trashed = await noteService.listTrashed();
+
+      expect(trashed).toHaveLength(1);
+      expect(trashed[0]).toMatchObject({ id: deleted.id, is_pinned: true });
+    });
+
+    it('restore brings the note back', async () => {
+      const note = await noteService.create({ title: 'Note' });
+      await noteService.delete(note.id);
+
+      const restored = await noteService.restore(note.id);
+
+      expect(restored.deleted_at).toBeNull();
+      expect(await noteService.get(note.id)).not.toBeNull();
+    });
+
+    it('emptyTrash makes trashed notes unrestorable', async () => {
+      const note = await noteService.create({ title: 'Note' });
+      await noteService.delete(note.id);
+
+      await noteService.emptyTrash();
+
+      expect(await noteService.listTrashed()).toEqual([]);
+      await expect(noteService.restore(note.id)).rejects.toThrow('Note is not in trash');
+    });
+  });
+
   describe('is_pinned boolean conversion', () => {
     it('returns is_pinned as boolean true, not integer', async () => {
       const note = await noteService.create({ title: 'Pinned', is_pinned: true });
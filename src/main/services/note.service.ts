@@ -8,6 +8,9 @@ export interface NoteService {
   list(): Promise<Note[]>;
   update(id: string, input: UpdateNoteInput): Promise<Note>;
   delete(id: string): Promise<void>;
+  listTrashed(): Promise<Note[]>;
+  restore(id: string): Promise<Note>;
+  emptyTrash(): Promise<void>;
 }
 
 function rowToNote(row: Record<string, unknown>): Note {
@@ -97,5 +100,39 @@ export function createNoteService(ctx: DbContext): NoteService {
         [now, now, id]
       );
     },
+
+    async listTrashed(): Promise<Note[]> {
+      const rows = await db.getAll<Record<string, unknown>>(
+        'SELECT * FROM notes WHERE deleted_at IS NOT NULL AND permanently_deleted_at IS NULL ORDER BY deleted_at DESC'
+      );
+      return rows.map(rowToNote);
+    },
+
+    async restore(id: string): Promise<Note> {
+      const row = await db.getOptional<Record<string, unknown>>(
+        'SELECT * FROM notes WHERE id = ? AND deleted_at IS NOT NULL AND permanently_deleted_at IS NULL',
+        [id]
+      );
+
+      if (!row) {
+        throw new Error('Note is not in trash');
+      }
+
+      const now = new Date().toISOString();
+      await db.execute(
+        'UPDATE notes SET deleted_at = NULL, updated_at = ? WHERE id = ?',
+        [now, id]
+      );
+
+      return { ...rowToNote(row), deleted_at: null, updated_at: now };
+    },
+
+    async emptyTrash(): Promise<void> {
+      const now = new Date().toISOString();
+      await db.execute(
+        'UPDATE notes SET permanently_deleted_at = ? WHERE deleted_at IS NOT NULL AND permanently_deleted_at IS NULL',
+        [now]
+      );
+    },
   };
 }
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createProjectHeadingService, ProjectHeadingService } from './project-heading.service';
+import { createTaskService, nextInstanceId, TaskService } from './task.service';
+import { createTestDb, TestDb } from '../../../tests/helpers/db';
+
+describe('ProjectHeadingService', () => {
+  let db: TestDb;
+  let headingService: ProjectHeadingService;
+  let taskService: TaskService;
+  let projectId: string;
+
+  beforeEach(() => {
+    db = createTestDb();
+    headingService = createProjectHeadingService(db);
+    taskService = createTaskService(db);
+    projectId = db.createProject({ title: 'Launch' });
+  });
+
+  describe('create', () => {
+    it('appends headings in creation order', async () => {
+      const first = await headingService.create({ project_id: projectId, title: 'Design' });
+      const second = await headingService.create({ project_id: projectId, title: 'Build' });
+
+      expect(first.sort_order).toBe(0);
+      expect(second.sort_order).toBe(1);
+      expect(second.archived_at).toBeNull();
+    });
+  });
+
+  describe('listByProject', () => {
+    it('returns only active headings of the project in sort order', async () => {
+      const otherProjectId = db.createProject({ title: 'Other' });
+      const a = await headingService.create({ project_id: projectId, title: 'A' });
+      const b = await headingService.create({ project_id: projectId, title: 'B' });
+      const c = await headingService.create({ project_id: projectId, title: 'C' });
+      await headingService.create({ project_id: otherProjectId, title: 'Elsewhere' });
+      await headingService.delete(b.id);
+      await headingService.archive(c.id);
+
+      const headings = await headingService.listByProject(projectId);
+
+      expect(headings.map((h) => h.id)).toEqual([a.id]);
+    });
+  });
+
+  describe('update', () => {
+    it('renames a heading', async () => {
+      const heading = await headingService.create({ project_id: projectId, title: 'Draft' });
+
+      const updated = await headingService.update(heading.id, { title: 'Final' });
+
+      expect(updated.title).toBe('Final');
+      expect((await headingService.listByProject(projectId))[0].title).toBe('Final');
+    });
+
+    it('throws for a missing heading', async () => {
+      await expect(
+        headingService.update('non-existent-uuid', { title: 'Nope' })
+      ).rejects.toThrow('Heading not found');
+    });
+  });
+
+  describe('reorder', () => {
+    it('assigns sort_order from the given id order', async () => {
+      const a = await headingService.create({ project_id: projectId, title: 'A' });
+      const b = await headingService.create({ project_id: projectId, title: 'B' });
+      const c = await headingService.create({ project_id: projectId, title: 'C' });
+
+      await headingService.reorder(projectId, [c.id, a.id, b.id]);
+
+      const headings = await headingService.listByProject(projectId);
+      expect(headings.map((h) => h.title)).toEqual(['C', 'A', 'B']);
+    });
+  });
+
+  describe('delete', () => {
+    it('keeps the heading\'s tasks in the project without a heading', async () => {
+      const heading = await headingService.create({ project_id: projectId, title: 'Phase 1' });
+      const task = await taskService.create({ title: 'Task', project_id: projectId, heading_id: heading.id });
+
+      await headingService.delete(heading.id);
+
+      const raw = db.getRawTask(task.id);
+      expect(raw?.heading_id).toBeNull();
+      expect(raw?.project_id).toBe(projectId);
+      expect(raw?.deleted_at).toBeNull();
+    });
+  });
+
+  describe('archive', () => {
+    it('completes every open task under the heading', async () => {
+      const heading = await headingService.create({ project_id: projectId, title: 'Phase 1' });
+      const open = await taskService.create({ title: 'Open', project_id: projectId, heading_id: heading.id, when_date: '2020-01-01' });
+      const other = await taskService.create({ title: 'Ungrouped', project_id: projectId });
+
+      const archived = await headingService.archive(heading.id);
+
+      expect(archived.archived_at).not.toBeNull();
+      const raw = db.getRawTask(open.id);
+      expect(raw?.status).toBe('logbook');
+      expect(raw?.completed_at).toBe(archived.archived_at);
+      expect(db.getRawTask(other.id)?.status).toBe('inbox');
+    });
+
+    it('leaves cancelled and already completed tasks untouched', async () => {
+      const heading = await headingService.create({ project_id: projectId, title: 'Phase 1' });
+      const cancelled = await taskService.create({ title: 'Dropped', project_id: projectId, heading_id: heading.id, status: 'cancelled' });
+      const done = await taskService.create({ title: 'Done', project_id: projectId, heading_id: heading.id });
+      const completed = await taskService.update(done.id, { status: 'logbook' });
+
+      await headingService.archive(heading.id);
+
+      expect(db.getRawTask(cancelled.id)?.status).toBe('cancelled');
+      expect(db.getRawTask(done.id)?.completed_at).toBe(completed.completed_at);
+    });
+
+    it('spawns the next instance of a recurring task, outside the archived heading', async () => {
+      const heading = await headingService.create({ project_id: projectId, title: 'Phase 1' });
+      const today = new Date().toISOString().split('T')[0];
+      const recurring = await taskService.create({ title: 'Standup', project_id: projectId, heading_id: heading.id, when_date: today, recurrence: 'daily' });
+
+      await headingService.archive(heading.id);
+
+      expect(db.getRawTask(recurring.id)?.recurrence).toBeNull();
+      const next = await taskService.get(nextInstanceId(recurring.id));
+      expect(next).toMatchObject({ title: 'Standup', project_id: projectId, heading_id: null, recurrence: 'daily', completed_at: null });
+    });
+
+    it('cannot archive a heading twice', async () => {
+      const heading = await headingService.create({ project_id: projectId, title: 'Phase 1' });
+      await headingService.archive(heading.id);
+
+      await expect(headingService.archive(heading.id)).rejects.toThrow('Heading not found');
+    });
+  });
+});
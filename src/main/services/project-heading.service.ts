@@ -0,0 +1,145 @@
+import { randomUUID } from 'crypto';
+import type { ProjectHeading, CreateProjectHeadingInput, UpdateProjectHeadingInput, Task } from '@shared/types';
+import type { DbContext } from '../db/types';
+import { applyTaskUpdate, nextInstanceId } from './task.service';
+
+export interface ProjectHeadingService {
+  listByProject(projectId: string): Promise<ProjectHeading[]>;
+  create(input: CreateProjectHeadingInput): Promise<ProjectHeading>;
+  update(id: string, input: UpdateProjectHeadingInput): Promise<ProjectHeading>;
+  delete(id: string): Promise<void>;
+  reorder(projectId: string, headingIds: string[]): Promise<void>;
+  archive(id: string): Promise<ProjectHeading>;
+}
+
+export function createProjectHeadingService(ctx: DbContext): ProjectHeadingService {
+  const { db } = ctx;
+
+  async function getActive(id: string): Promise<ProjectHeading> {
+    const existing = await db.getOptional<ProjectHeading>(
+      'SELECT * FROM project_headings WHERE id = ? AND deleted_at IS NULL AND archived_at IS NULL',
+      [id]
+    );
+
+    if (!existing) {
+      throw new Error('Heading not found');
+    }
+
+    return existing;
+  }
+
+  return {
+    async listByProject(projectId: string): Promise<ProjectHeading[]> {
+      return db.getAll<ProjectHeading>(
+        'SELECT * FROM project_headings WHERE project_id = ? AND deleted_at IS NULL AND archived_at IS NULL ORDER BY sort_order, created_at',
+        [projectId]
+      );
+    },
+
+    async create(input: CreateProjectHeadingInput): Promise<ProjectHeading> {
+      const id = randomUUID();
+      const now = new Date().toISOString();
+
+      const orderRow = await db.getOptional<{ next_order: number }>(
+        'SELECT COALESCE(MAX(sort_order), -1) + 1 as next_order FROM project_headings WHERE project_id = ? AND deleted_at IS NULL',
+        [input.project_id]
+      );
+
+      const heading: ProjectHeading = {
+        id,
+        project_id: input.project_id,
+        title: input.title,
+        sort_order: orderRow?.next_order ?? 0,
+        created_at: now,
+        updated_at: now,
+        archived_at: null,
+        deleted_at: null,
+      };
+
+      await db.execute(
+        'INSERT INTO project_headings (id, project_id, title, sort_order, created_at, updated_at, archived_at, deleted_at) VALUES (?, ?, ?, ?, ?, ?, NULL, NULL)',
+        [heading.id, heading.project_id, heading.title, heading.sort_order, heading.created_at, heading.updated_at]
+      );
+
+      return heading;
+    },
+
+    async update(id: string, input: UpdateProjectHeadingInput): Promise<ProjectHeading> {
+      const existing = await getActive(id);
+      const now = new Date().toISOString();
+
+      const updated: ProjectHeading = {
+        ...existing,
+        title: input.title ?? existing.title,
+        sort_order: input.sort_order ?? existing.sort_order,
+        updated_at: now,
+      };
+
+      await db.execute(
+        'UPDATE project_headings SET title = ?, sort_order = ?, updated_at = ? WHERE id = ?',
+        [updated.title, updated.sort_order, updated.updated_at, id]
+      );
+
+      return updated;
+    },
+
+    async delete(id: string): Promise<void> {
+      await getActive(id);
+      const now = new Date().toISOString();
+
+      // Deleting a heading keeps its tasks in the project, ungrouped
+      await db.writeTransaction(async (tx) => {
+        await tx.execute(
+          'UPDATE project_headings SET deleted_at = ?, updated_at = ? WHERE id = ?',
+          [now, now, id]
+        );
+        await tx.execute(
+          'UPDATE tasks SET heading_id = NULL, updated_at = ? WHERE heading_id = ? AND deleted_at IS NULL',
+          [now, id]
+        );
+      });
+    },
+
+    async reorder(projectId: string, headingIds: string[]): Promise<void> {
+      const now = new Date().toISOString();
+
+      await db.writeTransaction(async (tx) => {
+        for (let i = 0; i < headingIds.length; i++) {
+          await tx.execute(
+            'UPDATE project_headings SET sort_order = ?, updated_at = ? WHERE id = ? AND project_id = ?',
+            [i, now, headingIds[i], projectId]
+          );
+        }
+      });
+    },
+
+    async archive(id: string): Promise<ProjectHeading> {
+      const existing = await getActive(id);
+      const now = new Date().toISOString();
+
+      // Things-style archive: every open task under the heading is completed
+      // along with it. Tasks already in logbook/cancelled keep their state.
+      await db.writeTransaction(async (tx) => {
+        await tx.execute(
+          'UPDATE project_headings SET archived_at = ?, updated_at = ? WHERE id = ?',
+          [now, now, id]
+        );
+        // Completed like any other task, so recurring ones spawn their next
+        // instance. That instance stays in the project but leaves the
+        // archived heading, where it would be out of sight.
+        const open = await tx.getAll<Task>(
+          "SELECT * FROM tasks WHERE heading_id = ? AND status NOT IN ('logbook', 'cancelled') AND deleted_at IS NULL",
+          [id]
+        );
+        for (const task of open) {
+          await applyTaskUpdate(tx, task.id, { status: 'logbook' }, now);
+          if (task.recurrence) {
+            await applyTaskUpdate(tx, nextInstanceId(task.id), { heading_id: null }, now);
+          }
+        }
+      });
+
+      return { ...existing, archived_at: now, updated_at: now };
+    },
+  };
+}
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { createProjectService, ProjectService } from './project.service';
 import { createTaskService, TaskService } from './task.service';
+import { createChecklistService } from './checklist.service';
 import { createTestDb, TestDb } from '../../../tests/helpers/db';
 
 describe('ProjectService', () => {
@@ -196,6 +197,27 @@ describe('ProjectService', () => {
     });
   });
 
+  describe('move', () => {
+    it('puts new projects first', async () => {
+      const older = await projectService.create({ title: 'Older' });
+      const newer = await projectService.create({ title: 'Newer' });
+
+      expect(newer.sort_order).toBeLessThan(older.sort_order);
+      expect((await projectService.getAll()).map((p) => p.title)).toEqual(['Newer', 'Older']);
+    });
+
+    it('moves a project between two others with one write', async () => {
+      const c = await projectService.create({ title: 'C' });
+      const b = await projectService.create({ title: 'B' });
+      const a = await projectService.create({ title: 'A' });
+
+      const moved = await projectService.move(c.id, [a.id, c.id, b.id]);
+
+      expect(moved.map((p) => p.id)).toEqual([c.id]);
+      expect((await projectService.getAll()).map((p) => p.title)).toEqual(['A', 'C', 'B']);
+    });
+  });
+
   describe('delete', () => {
     it('soft deletes by setting deleted_at', async () => {
       const project = await projectService.create({ title: 'To delete' });
@@ -212,6 +234,75 @@ describe('ProjectService', () => {
         projectService.delete('non-existent')
       ).resolves.toBeUndefined();
     });
+
+    it('moves the project\'s tasks to the trash with it', async () => {
+      const project = await projectService.create({ title: 'Project' });
+      const task = await taskService.create({ title: 'Task', project_id: project.id });
+
+      await projectService.delete(project.id);
+
+      expect(db.getRawTask(task.id)?.deleted_at).toBe(db.getRawProject(project.id)?.deleted_at);
+    });
+  });
+
+  describe('trash', () => {
+    it('listTrashed returns deleted projects only', async () => {
+      const deleted = await projectService.create({ title: 'Deleted' });
+      await projectService.create({ title: 'Active' });
+      await projectService.delete(deleted.id);
+
+      const trashed = await projectService.listTrashed();
+
+      expect(trashed.map((p) => p.id)).toEqual([deleted.id]);
+    });
+
+    it('restore brings back the project and the tasks trashed with it', async () => {
+      const project = await projectService.create({ title: 'Project' });
+      const task = await taskService.create({ title: 'Task', status: 'anytime', project_id: project.id });
+      const item = await createChecklistService(db).create({ task_id: task.id, title: 'Step' });
+      await projectService.delete(project.id);
+
+      const restored = await projectService.restore(project.id);
+
+      expect(restored.deleted_at).toBeNull();
+      expect(await projectService.get(project.id)).not.toBeNull();
+      expect((await taskService.get(task.id))?.status).toBe('anytime');
+      expect(db.getRawChecklistItem(item.id)?.deleted_at).toBeNull();
+    });
+
+    it('restore leaves tasks that were trashed on their own in the trash', async () => {
+      const project = await projectService.create({ title: 'Project' });
+      const earlier = await taskService.create({ title: 'Trashed earlier', project_id: project.id });
+      await taskService.delete(earlier.id);
+      await new Promise((r) => setTimeout(r, 5));
+      await projectService.delete(project.id);
+
+      await projectService.restore(project.id);
+
+      expect(await taskService.get(earlier.id)).toBeNull();
+      expect((await taskService.listTrashed()).map((t) => t.id)).toEqual([earlier.id]);
+    });
+
+    it('restore throws for a project that is not in the trash', async () => {
+      const project = await projectService.create({ title: 'Active' });
+
+      await expect(projectService.restore(project.id)).rejects.toThrow('Project is not in trash');
+    });
+
+    it('emptyTrash permanently deletes projects and the tasks trashed with them', async () => {
+      const project = await projectService.create({ title: 'Project' });
+      const task = await taskService.create({ title: 'Task', project_id: project.id });
+      const loose = await taskService.create({ title: 'Loose' });
+      await projectService.delete(project.id);
+      await taskService.delete(loose.id);
+
+      await projectService.emptyTrash();
+
+      expect(await projectService.listTrashed()).toEqual([]);
+      expect(db.getRawTask(task.id)?.permanently_deleted_at).not.toBeNull();
+      expect((await taskService.listTrashed()).map((t) => t.id)).toEqual([loose.id]);
+      await expect(projectService.restore(project.id)).rejects.toThrow('Project is not in trash');
+    });
   });
 
   describe('getByStatus', () => {
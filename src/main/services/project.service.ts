@@ -1,13 +1,21 @@
 import { randomUUID } from 'crypto';
 import type { Project, Task, ProjectStatus, CreateProjectInput, UpdateProjectInput } from '@shared/types';
 import type { DbContext } from '../db/types';
+import { moveRow } from '../db/sort-order';
 
 export interface ProjectService {
   create(input: CreateProjectInput): Promise<Project>;
   get(id: string): Promise<Project | null>;
   getAll(filter?: { contextId?: string }): Promise<Project[]>;
   update(id: string, input: UpdateProjectInput): Promise<Project>;
+  /** Move a project to its place in `orderedIds`; returns the projects whose sort_order changed */
+  move(id: string, orderedIds: string[]): Promise<Project[]>;
+  /** Trash the project together with its tasks */
   delete(id: string): Promise<void>;
+  listTrashed(): Promise<Project[]>;
+  /** Restore the project and the tasks that were trashed with it */
+  restore(id: string): Promise<Project>;
+  emptyTrash(): Promise<void>;
   getByStatus(status: ProjectStatus): Promise<Project[]>;
   getTasksForProject(projectId: string): Promise<Task[]>;
 }
@@ -20,13 +28,18 @@ export function createProjectService(ctx: DbContext): ProjectService {
       const id = randomUUID();
       const now = new Date().toISOString();
 
+      // New projects go to the top of the overview
+      const orderRow = await db.getOptional<{ next_order: number }>(
+        'SELECT COALESCE(MIN(sort_order), 1) - 1 as next_order FROM projects WHERE deleted_at IS NULL'
+      );
+
       const project: Project = {
         id,
         title: input.title,
         description: input.description ?? null,
         status: input.status ?? 'active',
         context_id: input.context_id ?? null,
-        sort_order: 0,
+        sort_order: orderRow?.next_order ?? 0,
         created_at: now,
         updated_at: now,
         completed_at: null,
@@ -39,12 +52,12 @@ export function createProjectService(ctx: DbContext): ProjectService {
         INSERT INTO projects (
           id, title, description, status, context_id,
           sort_order, created_at, updated_at, completed_at, deleted_at,
-          owner_type, owner_stakeholder_id
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          owner_type, owner_stakeholder_id, source
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `, [
         project.id, project.title, project.description, project.status, project.context_id,
         project.sort_order, project.created_at, project.updated_at, project.completed_at, project.deleted_at,
-        project.owner_type, project.owner_stakeholder_id,
+        project.owner_type, project.owner_stakeholder_id, input.source ?? 'user',
       ]);
 
       return project;
@@ -104,14 +117,101 @@ export function createProjectService(ctx: DbContext): ProjectService {
       return updated;
     },
 
+    async move(id: string, orderedIds: string[]): Promise<Project[]> {
+      const now = new Date().toISOString();
+      return db.writeTransaction(async (tx) => {
+        const existing = await tx.getOptional<{ id: string }>(
+          'SELECT id FROM projects WHERE id = ? AND deleted_at IS NULL',
+          [id]
+        );
+        if (!existing) {
+          throw new Error('Project not found');
+        }
+        const changed = await moveRow(tx, 'projects', id, orderedIds, now);
+        return tx.getAll<Project>(
+          `SELECT * FROM projects WHERE id IN (${changed.map(() => '?').join(', ')}) AND deleted_at IS NULL`,
+          changed
+        );
+      });
+    },
+
     async delete(id: string): Promise<void> {
       const now = new Date().toISOString();
-      await db.execute(
-        'UPDATE projects SET deleted_at = ?, updated_at = ? WHERE id = ?',
-        [now, now, id]
+      // Tasks share the project's deleted_at so restore can tell them apart
+      // from tasks that were trashed on their own before
+      await db.writeTransaction(async (tx) => {
+        await tx.execute(
+          'UPDATE projects SET deleted_at = ?, updated_at = ? WHERE id = ?',
+          [now, now, id]
+        );
+        await tx.execute(
+          'UPDATE task_checklists SET deleted_at = ?, updated_at = ? WHERE deleted_at IS NULL AND task_id IN (SELECT id FROM tasks WHERE project_id = ? AND deleted_at IS NULL)',
+          [now, now, id]
+        );
+        await tx.execute(
+          'UPDATE tasks SET deleted_at = ?, updated_at = ? WHERE project_id = ? AND deleted_at IS NULL',
+          [now, now, id]
+        );
+      });
+    },
+
+    async listTrashed(): Promise<Project[]> {
+      return db.getAll<Project>(
+        'SELECT * FROM projects WHERE deleted_at IS NOT NULL AND permanently_deleted_at IS NULL ORDER BY deleted_at DESC'
       );
     },
 
+    async restore(id: string): Promise<Project> {
+      const row = await db.getOptional<Project>(
+        'SELECT * FROM projects WHERE id = ? AND deleted_at IS NOT NULL AND permanently_deleted_at IS NULL',
+        [id]
+      );
+
+      if (!row) {
+        throw new Error('Project is not in trash');
+      }
+
+      const now = new Date().toISOString();
+      await db.writeTransaction(async (tx) => {
+        await tx.execute(
+          'UPDATE projects SET deleted_at = NULL, updated_at = ? WHERE id = ?',
+          [now, id]
+        );
+        await tx.execute(
+          'UPDATE task_checklists SET deleted_at = NULL, updated_at = ? WHERE deleted_at = ? AND task_id IN (SELECT id FROM tasks WHERE project_id = ? AND deleted_at = ? AND permanently_deleted_at IS NULL)',
+          [now, row.deleted_at, id, row.deleted_at]
+        );
+        await tx.execute(
+          'UPDATE tasks SET deleted_at = NULL, updated_at = ? WHERE project_id = ? AND deleted_at = ? AND permanently_deleted_at IS NULL',
+          [now, id, row.deleted_at]
+        );
+      });
+
+      return { ...row, deleted_at: null, updated_at: now };
+    },
+
+    async emptyTrash(): Promise<void> {
+      const now = new Date().toISOString();
+      await db.writeTransaction(async (tx) => {
+        // Tasks trashed with their project go with it
+        await tx.execute(`
+          UPDATE tasks SET permanently_deleted_at = ?
+          WHERE permanently_deleted_at IS NULL
+            AND deleted_at IS NOT NULL
+            AND EXISTS (
+              SELECT 1 FROM projects p
+              WHERE p.id = tasks.project_id
+                AND p.deleted_at = tasks.deleted_at
+                AND p.permanently_deleted_at IS NULL
+            )
+        `, [now]);
+        await tx.execute(
+          'UPDATE projects SET permanently_deleted_at = ? WHERE deleted_at IS NOT NULL AND permanently_deleted_at IS NULL',
+          [now]
+        );
+      });
+    },
+
     async getByStatus(status: ProjectStatus): Promise<Project[]> {
       return db.getAll<Project>(
         'SELECT * FROM projects WHERE status = ? AND deleted_at IS NULL ORDER BY sort_order, created_at',
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createReminderService, ReminderService } from './reminder.service';
+import { createTaskService, TaskService } from './task.service';
+import { createMeetingService } from './meeting.service';
+import { backTablesWithViews, createTestDb, TestDb } from '../../../tests/helpers/db';
+
+describe('ReminderService', () => {
+  let db: TestDb;
+  let reminderService: ReminderService;
+  let taskService: TaskService;
+  let taskId: string;
+  let meetingId: string;
+  const now = new Date('2099-03-01T12:00:00.000Z');
+
+  beforeEach(async () => {
+    db = createTestDb();
+    reminderService = createReminderService(db);
+    taskService = createTaskService(db);
+    taskId = (await taskService.create({ title: 'File taxes', deadline: '2099-03-02' })).id;
+    meetingId = (await createMeetingService(db).create({
+      title: 'Standup',
+      start_time: '2099-03-01T14:00:00.000Z',
+      end_time: '2099-03-01T14:15:00.000Z',
+    })).id;
+  });
+
+  describe('create', () => {
+    it('creates reminders on tasks and meetings', async () => {
+      const onTask = await reminderService.create({ task_id: taskId, remind_at: '2099-03-01T15:30:00+01:00' });
+      const onMeeting = await reminderService.create({ meeting_id: meetingId, offset_minutes: 10 });
+
+      expect(onTask).toMatchObject({ task_id: taskId, meeting_id: null, remind_at: '2099-03-01T14:30:00.000Z', fired_at: null });
+      expect(onMeeting).toMatchObject({ meeting_id: meetingId, offset_minutes: 10 });
+      expect(await reminderService.list()).toEqual([onTask, onMeeting]);
+    });
+
+    it('rejects unknown tasks and meetings', async () => {
+      await expect(reminderService.create({ task_id: crypto.randomUUID(), offset_minutes: 0 })).rejects.toThrow('Task not found');
+      await expect(reminderService.create({ meeting_id: crypto.randomUUID(), offset_minutes: 0 })).rejects.toThrow('Meeting not found');
+    });
+  });
+
+  describe('delete', () => {
+    it('soft-deletes so the removal syncs', async () => {
+      const reminder = await reminderService.create({ task_id: taskId, offset_minutes: 0 });
+
+      await reminderService.delete(reminder.id);
+
+      expect(await reminderService.list()).toEqual([]);
+      expect(db.db.prepare('SELECT deleted_at FROM reminders WHERE id = ?').get(reminder.id)).toEqual({
+        deleted_at: expect.any(String),
+      });
+    });
+  });
+
+  describe('listPending', () => {
+    it('includes what the reminder belongs to', async () => {
+      await reminderService.create({ task_id: taskId, offset_minutes: 60 });
+      await reminderService.create({ meeting_id: meetingId, offset_minutes: 10 });
+
+      expect(await reminderService.listPending(now)).toEqual([
+        expect.objectContaining({ task_id: taskId, title: 'File taxes', deadline: '2099-03-02' }),
+        expect.objectContaining({ meeting_id: meetingId, title: 'Standup', start_time: '2099-03-01T14:00:00.000Z' }),
+      ]);
+    });
+
+    it('leaves out completed and trashed tasks and meetings that have ended', async () => {
+      await reminderService.create({ task_id: taskId, offset_minutes: 60 });
+      await reminderService.create({ meeting_id: meetingId, offset_minutes: 10 });
+      await taskService.update(taskId, { status: 'logbook' });
+
+      expect(await reminderService.listPending(new Date('2099-03-01T14:20:00.000Z'))).toEqual([]);
+    });
+  });
+
+  describe('claim', () => {
+    it('lets only the first device fire a reminder for a given time', async () => {
+      const reminder = await reminderService.create({ task_id: taskId, remind_at: '2099-03-01T11:00:00.000Z' });
+      const dueAt = new Date(reminder.remind_at!);
+
+      expect(await reminderService.claim(reminder.id, dueAt, 'device-a', now)).toBe(true);
+      expect(await reminderService.claim(reminder.id, dueAt, 'device-b', now)).toBe(false);
+      expect(db.db.prepare('SELECT fired_at, fired_by FROM reminders WHERE id = ?').get(reminder.id)).toEqual({
+        fired_at: now.toISOString(),
+        fired_by: 'device-a',
+      });
+    });
+
+    it('can be claimed again once snoozed past the last firing', async () => {
+      const reminder = await reminderService.create({ task_id: taskId, remind_at: '2099-03-01T11:00:00.000Z' });
+      await reminderService.claim(reminder.id, new Date(reminder.remind_at!), 'device-a', now);
+
+      const later = new Date('2099-03-01T12:10:00.000Z');
+      const snoozed = await reminderService.snooze(reminder.id, later);
+
+      expect(snoozed.snoozed_until).toBe(later.toISOString());
+      expect(await reminderService.claim(reminder.id, later, 'device-b', later)).toBe(true);
+    });
+
+    it('reports the claim when reminders is a view, as on PowerSync', async () => {
+      const reminder = await reminderService.create({ task_id: taskId, remind_at: '2099-03-01T11:00:00.000Z' });
+      backTablesWithViews(db, ['reminders']);
+      const dueAt = new Date(reminder.remind_at!);
+
+      expect(await reminderService.claim(reminder.id, dueAt, 'device-a', now)).toBe(true);
+      expect(await reminderService.claim(reminder.id, dueAt, 'device-b', now)).toBe(false);
+    });
+  });
+
+  it('refuses to snooze a deleted reminder', async () => {
+    const reminder = await reminderService.create({ task_id: taskId, offset_minutes: 0 });
+    await reminderService.delete(reminder.id);
+
+    await expect(reminderService.snooze(reminder.id, now)).rejects.toThrow('Reminder not found');
+  });
+});
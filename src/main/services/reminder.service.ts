@@ -0,0 +1,116 @@
+import { randomUUID } from 'crypto';
+import type { Reminder, CreateReminderInput } from '@shared/types';
+import type { DbContext } from '../db/types';
+
+/** A reminder with the task or meeting it belongs to */
+export interface PendingReminder extends Reminder {
+  title: string;
+  deadline: string | null;
+  start_time: string | null;
+  end_time: string | null;
+}
+
+export interface ReminderService {
+  /** Every active reminder */
+  list(): Promise<Reminder[]>;
+  create(input: CreateReminderInput): Promise<Reminder>;
+  delete(id: string): Promise<void>;
+  /** Reminders on open tasks and on meetings that haven't ended by `now` */
+  listPending(now: Date): Promise<PendingReminder[]>;
+  /**
+   * Record that `deviceId` shows the reminder that fell due at `dueAt`.
+   * False when a device already did, so only one of them notifies.
+   */
+  claim(id: string, dueAt: Date, deviceId: string, now: Date): Promise<boolean>;
+  snooze(id: string, until: Date): Promise<Reminder>;
+}
+
+export function createReminderService(ctx: DbContext): ReminderService {
+  const { db } = ctx;
+
+  return {
+    async list(): Promise<Reminder[]> {
+      return db.getAll<Reminder>(
+        'SELECT * FROM reminders WHERE deleted_at IS NULL ORDER BY created_at'
+      );
+    },
+
+    async create(input: CreateReminderInput): Promise<Reminder> {
+      if (input.task_id) {
+        const task = await db.getOptional('SELECT id FROM tasks WHERE id = ? AND deleted_at IS NULL', [input.task_id]);
+        if (!task) throw new Error('Task not found');
+      } else {
+        const meeting = await db.getOptional('SELECT id FROM meetings WHERE id = ? AND deleted_at IS NULL', [input.meeting_id]);
+        if (!meeting) throw new Error('Meeting not found');
+      }
+
+      const now = new Date().toISOString();
+      const reminder: Reminder = {
+        id: randomUUID(),
+        task_id: input.task_id ?? null,
+        meeting_id: input.meeting_id ?? null,
+        remind_at: input.remind_at ? new Date(input.remind_at).toISOString() : null,
+        offset_minutes: input.offset_minutes ?? null,
+        snoozed_until: null,
+        fired_at: null,
+        fired_by: null,
+        created_at: now,
+        updated_at: now,
+        deleted_at: null,
+      };
+      await db.execute(`
+        INSERT INTO reminders (
+          id, task_id, meeting_id, remind_at, offset_minutes, snoozed_until,
+          fired_at, fired_by, created_at, updated_at, deleted_at
+        ) VALUES (?, ?, ?, ?, ?, NULL, NULL, NULL, ?, ?, NULL)
+      `, [
+        reminder.id, reminder.task_id, reminder.meeting_id, reminder.remind_at, reminder.offset_minutes,
+        reminder.created_at, reminder.updated_at,
+      ]);
+      return reminder;
+    },
+
+    async delete(id: string): Promise<void> {
+      const now = new Date().toISOString();
+      await db.execute(
+        'UPDATE reminders SET deleted_at = ?, updated_at = ? WHERE id = ? AND deleted_at IS NULL',
+        [now, now, id]
+      );
+    },
+
+    async listPending(now: Date): Promise<PendingReminder[]> {
+      const rows = await db.getAll<PendingReminder>(`
+        SELECT r.*, COALESCE(t.title, m.title) AS title, t.deadline AS deadline,
+          m.start_time AS start_time, m.end_time AS end_time
+        FROM reminders r
+        LEFT JOIN tasks t ON t.id = r.task_id AND t.deleted_at IS NULL AND t.status NOT IN ('logbook', 'cancelled')
+        LEFT JOIN meetings m ON m.id = r.meeting_id AND m.deleted_at IS NULL AND m.status = 'scheduled'
+        WHERE r.deleted_at IS NULL AND (t.id IS NOT NULL OR m.id IS NOT NULL)
+        ORDER BY r.created_at
+      `);
+      // Meeting times come in whatever ISO form the client wrote, so compare them as dates
+      return rows.filter((row) => !row.meeting_id || new Date(row.end_time ?? row.start_time!) > now);
+    },
+
+    async claim(id: string, dueAt: Date, deviceId: string, now: Date): Promise<boolean> {
+      // Use RETURNING clause — rowsAffected is unreliable with PowerSync's JSON table views
+      const result = await db.execute(
+        `UPDATE reminders SET fired_at = ?, fired_by = ?, updated_at = ?
+         WHERE id = ? AND deleted_at IS NULL AND (fired_at IS NULL OR fired_at < ?)
+         RETURNING id`,
+        [now.toISOString(), deviceId, now.toISOString(), id, dueAt.toISOString()]
+      );
+      return (result.rows?.length ?? 0) > 0;
+    },
+
+    async snooze(id: string, until: Date): Promise<Reminder> {
+      await db.execute(
+        'UPDATE reminders SET snoozed_until = ?, updated_at = ? WHERE id = ? AND deleted_at IS NULL',
+        [until.toISOString(), new Date().toISOString(), id]
+      );
+      const reminder = await db.getOptional<Reminder>('SELECT * FROM reminders WHERE id = ?', [id]);
+      if (!reminder || reminder.deleted_at) throw new Error('Reminder not found');
+      return reminder;
+    },
+  };
+}
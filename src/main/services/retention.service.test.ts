@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createRetentionService, RetentionService } from './retention.service';
+import { createTaskService, TaskService } from './task.service';
+import { createMeetingService } from './meeting.service';
+import { createStakeholderService } from './stakeholder.service';
+import { DEFAULT_SETTINGS } from '@shared/settings-types';
+import { backTablesWithViews, createTestDb, TestDb } from '../../../tests/helpers/db';
+
+const LONG_AGO = '2020-01-01T00:00:00.000Z';
+
+describe('RetentionService', () => {
+  let db: TestDb;
+  let retentionService: RetentionService;
+  let taskService: TaskService;
+
+  beforeEach(() => {
+    db = createTestDb();
+    retentionService = createRetentionService(db);
+    taskService = createTaskService(db);
+  });
+
+  function trash(table: string, id: string, deletedAt = LONG_AGO) {
+    db.db.prepare(`UPDATE ${table} SET deleted_at = ? WHERE id = ?`).run(deletedAt, id);
+  }
+
+  function permanentlyDeletedAt(table: string, id: string): string | null {
+    const row = db.db.prepare(`SELECT permanently_deleted_at FROM ${table} WHERE id = ?`).get(id) as { permanently_deleted_at: string | null };
+    return row.permanently_deleted_at;
+  }
+
+  async function trashOneOfEach() {
+    const task = await taskService.create({ title: 'Old task' });
+    const project = db.createProject({ title: 'Old project' });
+    const note = db.createNote({ title: 'Old note' });
+    const meeting = await createMeetingService(db).create({ title: 'Old meeting', start_time: '2020-01-01T10:00:00.000Z' });
+    const stakeholder = await createStakeholderService(db).create({ name: 'Old contact' });
+    trash('tasks', task.id);
+    trash('projects', project);
+    trash('notes', note);
+    trash('meetings', meeting.id);
+    trash('stakeholders', stakeholder.id);
+    return { task: task.id, project, note, meeting: meeting.id, stakeholder: stakeholder.id };
+  }
+
+  describe('purgeExpiredTrash', () => {
+    it('purges every trashable entity past the retention period', async () => {
+      const ids = await trashOneOfEach();
+
+      const purged = await retentionService.purgeExpiredTrash(30);
+
+      expect(purged).toEqual({ tasks: 1, projects: 1, notes: 1, meetings: 1, stakeholders: 1 });
+      expect(permanentlyDeletedAt('tasks', ids.task)).not.toBeNull();
+      expect(permanentlyDeletedAt('projects', ids.project)).not.toBeNull();
+      expect(permanentlyDeletedAt('notes', ids.note)).not.toBeNull();
+      expect(permanentlyDeletedAt('meetings', ids.meeting)).not.toBeNull();
+      expect(permanentlyDeletedAt('stakeholders', ids.stakeholder)).not.toBeNull();
+    });
+
+    it('keeps recently trashed and active items', async () => {
+      const recent = db.createProject({ title: 'Recent' });
+      const active = db.createNote({ title: 'Active' });
+      trash('projects', recent, new Date().toISOString());
+
+      const purged = await retentionService.purgeExpiredTrash(30);
+
+      expect(purged.projects).toBe(0);
+      expect(permanentlyDeletedAt('projects', recent)).toBeNull();
+      expect(permanentlyDeletedAt('notes', active)).toBeNull();
+    });
+
+    it('counts what it purged when the tables are views, as on PowerSync', async () => {
+      await trashOneOfEach();
+      backTablesWithViews(db, ['tasks', 'projects', 'notes', 'meetings', 'stakeholders']);
+
+      const purged = await retentionService.purgeExpiredTrash(30);
+
+      expect(purged).toEqual({ tasks: 1, projects: 1, notes: 1, meetings: 1, stakeholders: 1 });
+    });
+  });
+
+  describe('preview', () => {
+    it('counts stale tasks and expired trash without changing anything', async () => {
+      const ids = await trashOneOfEach();
+      const task = await taskService.create({ title: 'Old', status: 'today', when_date: '2026-01-01' });
+      await taskService.create({ title: 'Exempt', status: 'today', when_date: '2026-01-01', priority: 'P1' });
+
+      const preview = await retentionService.preview({ ...DEFAULT_SETTINGS, staleExemptPriorities: ['P1'] });
+
+      expect(preview).toEqual({
+        staleTasks: 1,
+        expiredTrash: { tasks: 1, projects: 1, notes: 1, meetings: 1, stakeholders: 1 },
+      });
+      expect((await taskService.get(task.id))?.status).toBe('today');
+      expect(permanentlyDeletedAt('projects', ids.project)).toBeNull();
+    });
+  });
+
+  it('markStaleTasks applies the policies from settings', async () => {
+    const home = db.createContext({ name: 'Home' });
+    await taskService.create({ title: 'Old', status: 'today', when_date: '2026-01-01', context_id: home });
+
+    expect(await retentionService.markStaleTasks({ ...DEFAULT_SETTINGS, staleContextDays: { [home]: 365 } })).toBe(0);
+    expect(await retentionService.markStaleTasks(DEFAULT_SETTINGS)).toBe(1);
+  });
+
+  it('markStaleTasks counts the tasks it marked when tasks is a view', async () => {
+    await taskService.create({ title: 'Old', status: 'today', when_date: '2026-01-01' });
+    backTablesWithViews(db, ['tasks']);
+
+    expect(await retentionService.markStaleTasks(DEFAULT_SETTINGS)).toBe(1);
+  });
+});
@@ -0,0 +1,67 @@
+import type { StaleRules, TrashCounts, RetentionPreview } from '@shared/types';
+import type { RetentionSettings } from '@shared/settings-types';
+import type { DbContext } from '../db/types';
+import { createTaskService } from './task.service';
+
+const TRASH_TABLES: (keyof TrashCounts)[] = ['tasks', 'projects', 'notes', 'meetings', 'stakeholders'];
+
+export interface RetentionService {
+  /** Count what the given settings would change, without writing anything */
+  preview(settings: RetentionSettings): Promise<RetentionPreview>;
+  /** Mark trashed items older than `days` as permanently deleted */
+  purgeExpiredTrash(days: number): Promise<TrashCounts>;
+  markStaleTasks(settings: RetentionSettings): Promise<number>;
+}
+
+export function toStaleRules(settings: RetentionSettings): StaleRules {
+  return {
+    contextDays: settings.staleContextDays,
+    exemptPriorities: settings.staleExemptPriorities,
+    deadlineWindowDays: settings.staleDeadlineWindowDays,
+  };
+}
+
+export function createRetentionService(ctx: DbContext): RetentionService {
+  const { db } = ctx;
+  const taskService = createTaskService(ctx);
+
+  function trashCutoff(days: number): string {
+    return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  }
+
+  return {
+    async preview(settings: RetentionSettings): Promise<RetentionPreview> {
+      const cutoff = trashCutoff(settings.trashRetentionDays);
+      const expiredTrash = {} as TrashCounts;
+      for (const table of TRASH_TABLES) {
+        const row = await db.getOptional<{ count: number }>(
+          `SELECT COUNT(*) AS count FROM ${table} WHERE deleted_at IS NOT NULL AND permanently_deleted_at IS NULL AND deleted_at < ?`,
+          [cutoff]
+        );
+        expiredTrash[table] = row?.count ?? 0;
+      }
+
+      const staleTasks = await taskService.countStaleTasks(settings.staleAfterDays, toStaleRules(settings));
+      return { staleTasks, expiredTrash };
+    },
+
+    async purgeExpiredTrash(days: number): Promise<TrashCounts> {
+      const cutoff = trashCutoff(days);
+      const now = new Date().toISOString();
+      const purged = {} as TrashCounts;
+      for (const table of TRASH_TABLES) {
+        // Use RETURNING clause — rowsAffected is unreliable with PowerSync's JSON table views
+        const result = await db.execute(
+          `UPDATE ${table} SET permanently_deleted_at = ? WHERE deleted_at IS NOT NULL AND permanently_deleted_at IS NULL AND deleted_at < ? RETURNING id`,
+          [now, cutoff]
+        );
+        purged[table] = result.rows?.length ?? 0;
+      }
+      return purged;
+    },
+
+    async markStaleTasks(settings: RetentionSettings): Promise<number> {
+      return taskService.markStaleTasks(settings.staleAfterDays, toStaleRules(settings));
+    },
+  };
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { createSmartListService, SmartListService } from './smart-list.service';
+import { createTaskService, TaskService } from './task.service';
+import { createContextService } from './context.service';
+import { createProjectService } from './project.service';
+import { createChecklistService } from './checklist.service';
+import { createTestDb, TestDb } from '../../../tests/helpers/db';
+
+describe('SmartListService', () => {
+  let db: TestDb;
+  let service: SmartListService;
+  let taskService: TaskService;
+
+  const titlesFor = async (query: string) => {
+    const list = await service.create({ name: 'List', query });
+    return (await service.listTasks(list.id)).map((t) => t.title).sort();
+  };
+
+  beforeEach(() => {
+    // A Wednesday, so this week runs from 2099-01-05 to 2099-01-11
+    vi.useFakeTimers({ now: new Date('2099-01-07T12:00:00Z'), toFake: ['Date'] });
+    db = createTestDb();
+    service = createSmartListService(db);
+    taskService = createTaskService(db);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('finds P1 tasks in a context, due this week, outside any project', async () => {
+    const work = await createContextService(db).create({ name: 'Work' });
+    const project = await createProjectService(db).create({ title: 'Launch', context_id: work.id });
+    await taskService.create({ title: 'Match', priority: 'P1', context_id: work.id, deadline: '2099-01-09' });
+    await taskService.create({ title: 'In a project', priority: 'P1', project_id: project.id, deadline: '2099-01-09' });
+    await taskService.create({ title: 'Next week', priority: 'P1', context_id: work.id, deadline: '2099-01-12' });
+    await taskService.create({ title: 'P2', priority: 'P2', context_id: work.id, deadline: '2099-01-09' });
+
+    expect(await titlesFor('priority:p1 context:work due:this-week project:none')).toEqual(['Match']);
+    // The project's context counts as the task's own
+    expect(await titlesFor('context:Work project:Launch')).toEqual(['In a project']);
+  });
+
+  it('keeps tasks without a value in negated terms', async () => {
+    await taskService.create({ title: 'No priority' });
+    await taskService.create({ title: 'P1', priority: 'P1' });
+    await taskService.create({ title: 'P3', priority: 'P3' });
+
+    expect(await titlesFor('-priority:p1')).toEqual(['No priority', 'P3']);
+    expect(await titlesFor('priority:none,p3')).toEqual(['No priority', 'P3']);
+  });
+
+  it('reads relative deadline ranges', async () => {
+    await taskService.create({ title: 'Overdue', deadline: '2099-01-06' });
+    await taskService.create({ title: 'Today', deadline: '2099-01-07' });
+    await taskService.create({ title: 'In ten days', deadline: '2099-01-17' });
+    await taskService.create({ title: 'No deadline' });
+
+    expect(await titlesFor('due:overdue')).toEqual(['Overdue']);
+    expect(await titlesFor('due:today..+7d')).toEqual(['Today']);
+    expect(await titlesFor('due:>=today')).toEqual(['In ten days', 'Today']);
+    expect(await titlesFor('due:none')).toEqual(['No deadline']);
+    expect(await titlesFor('due:this-month')).toEqual(['In ten days', 'Overdue', 'Today']);
+  });
+
+  it('matches assignees by agent or stakeholder name and checklists', async () => {
+    db.db.prepare(
+      "INSERT INTO ai_agents (id, name, api_key_hash, created_at) VALUES ('agent-1', 'Research Bot', 'x', '2099-01-01')"
+    ).run();
+    const assigned = await taskService.create({ title: 'Assigned', assignee_id: 'agent-1' });
+    await createChecklistService(db).create({ task_id: assigned.id, title: 'Step' });
+    await taskService.create({ title: 'Unassigned' });
+
+    expect(await titlesFor('assignee:research_bot')).toEqual(['Assigned']);
+    expect(await titlesFor('assignee:none')).toEqual(['Unassigned']);
+    expect(await titlesFor('has:checklist')).toEqual(['Assigned']);
+  });
+
+  it('leaves out completed and cancelled tasks unless a status is asked for', async () => {
+    await taskService.create({ title: 'Open' });
+    await taskService.create({ title: 'Done', status: 'logbook' });
+    await taskService.create({ title: 'Dropped', status: 'cancelled' });
+
+    expect(await titlesFor('-status:someday')).toEqual(['Open']);
+    expect(await titlesFor('status:logbook')).toEqual(['Done']);
+  });
+
+  it('counts every list and skips ones that no longer parse', async () => {
+    await taskService.create({ title: 'A', priority: 'P1' });
+    await taskService.create({ title: 'B' });
+    const p1 = await service.create({ name: 'P1', query: 'priority:p1' });
+    const all = await service.create({ name: 'All', query: 'status:inbox' });
+    const broken = await service.create({ name: 'Broken', query: 'priority:p1' });
+    db.db.prepare("UPDATE smart_lists SET query = 'mood:happy' WHERE id = ?").run(broken.id);
+
+    expect(await service.counts()).toEqual({ [p1.id]: 1, [all.id]: 2 });
+  });
+
+  it('renames and deletes a list', async () => {
+    const list = await service.create({ name: 'Urgent', query: 'priority:p1' });
+
+    await service.update(list.id, { name: 'Hot', query: 'priority:p1,p2' });
+    expect(await service.list()).toEqual([expect.objectContaining({ name: 'Hot', query: 'priority:p1,p2' })]);
+
+    await service.delete(list.id);
+    expect(await service.list()).toEqual([]);
+    await expect(service.listTasks(list.id)).rejects.toThrow('List not found');
+  });
+});
@@ -0,0 +1,114 @@
+import { randomUUID } from 'crypto';
+import type { SmartList, CreateSmartListInput, UpdateSmartListInput, Task } from '@shared/types';
+import { parseSmartListQuery } from '@shared/smart-list-query';
+import type { DbContext } from '../db/types';
+import { compileSmartListQuery, type CompiledSmartList } from '../db/smart-list-sql';
+
+export interface SmartListService {
+  /** Every active list, by name */
+  list(): Promise<SmartList[]>;
+  get(id: string): Promise<SmartList | null>;
+  create(input: CreateSmartListInput): Promise<SmartList>;
+  update(id: string, input: UpdateSmartListInput): Promise<SmartList>;
+  delete(id: string): Promise<void>;
+  /** The tasks a list's query matches today */
+  listTasks(id: string): Promise<Task[]>;
+  /** How many tasks each list matches, by list id. Lists whose query no longer parses are left out */
+  counts(): Promise<Record<string, number>>;
+}
+
+function getToday(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+function compile(query: string): CompiledSmartList {
+  return compileSmartListQuery(parseSmartListQuery(query), getToday());
+}
+
+export function createSmartListService(ctx: DbContext): SmartListService {
+  const { db } = ctx;
+
+  return {
+    async list(): Promise<SmartList[]> {
+      return db.getAll<SmartList>(
+        'SELECT * FROM smart_lists WHERE deleted_at IS NULL ORDER BY name COLLATE NOCASE, created_at'
+      );
+    },
+
+    async get(id: string): Promise<SmartList | null> {
+      return db.getOptional<SmartList>('SELECT * FROM smart_lists WHERE id = ? AND deleted_at IS NULL', [id]);
+    },
+
+    async create(input: CreateSmartListInput): Promise<SmartList> {
+      const now = new Date().toISOString();
+      const list: SmartList = {
+        id: randomUUID(),
+        name: input.name.trim(),
+        query: input.query.trim(),
+        created_at: now,
+        updated_at: now,
+        deleted_at: null,
+      };
+      await db.execute(
+        'INSERT INTO smart_lists (id, name, query, created_at, updated_at, deleted_at) VALUES (?, ?, ?, ?, ?, NULL)',
+        [list.id, list.name, list.query, list.created_at, list.updated_at]
+      );
+      return list;
+    },
+
+    async update(id: string, input: UpdateSmartListInput): Promise<SmartList> {
+      const existing = await this.get(id);
+      if (!existing) {
+        throw new Error('List not found');
+      }
+
+      const updated: SmartList = {
+        ...existing,
+        name: input.name?.trim() ?? existing.name,
+        query: input.query?.trim() ?? existing.query,
+        updated_at: new Date().toISOString(),
+      };
+      await db.execute(
+        'UPDATE smart_lists SET name = ?, query = ?, updated_at = ? WHERE id = ?',
+        [updated.name, updated.query, updated.updated_at, id]
+      );
+      return updated;
+    },
+
+    async delete(id: string): Promise<void> {
+      const now = new Date().toISOString();
+      await db.execute(
+        'UPDATE smart_lists SET deleted_at = ?, updated_at = ? WHERE id = ? AND deleted_at IS NULL',
+        [now, now, id]
+      );
+    },
+
+    async listTasks(id: string): Promise<Task[]> {
+      const list = await this.get(id);
+      if (!list) {
+        throw new Error('List not found');
+      }
+      const { where, params } = compile(list.query);
+      return db.getAll<Task>(`SELECT t.* FROM tasks t WHERE ${where} ORDER BY t.sort_order, t.created_at`, params);
+    },
+
+    async counts(): Promise<Record<string, number>> {
+      const lists = await this.list();
+      const counts: Record<string, number> = {};
+      for (const list of lists) {
+        let compiled: CompiledSmartList;
+        try {
+          compiled = compile(list.query);
+        } catch {
+          continue;
+        }
+        const row = await db.getOptional<{ n: number }>(
+          `SELECT COUNT(*) AS n FROM tasks t WHERE ${compiled.where}`,
+          compiled.params
+        );
+        counts[list.id] = row?.n ?? 0;
+      }
+      return counts;
+    },
+  };
+}
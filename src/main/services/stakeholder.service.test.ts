@@ -1,5 +1,9 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { createStakeholderService, StakeholderService } from './stakeholder.service';
+import { createMeetingService } from './meeting.service';
+import { createMeetingAttendeeService } from './meeting-attendee.service';
+import { createNoteService } from './note.service';
+import { createNoteStakeholderService } from './note-stakeholder.service';
 import { createTestDb, TestDb } from '../../../tests/helpers/db';
 
 describe('StakeholderService', () => {
@@ -204,4 +208,53 @@ describe('StakeholderService', () => {
       ).resolves.toBeUndefined();
     });
   });
+
+  describe('trash', () => {
+    it('restore brings a trashed stakeholder back', async () => {
+      const stakeholder = await stakeholderService.create({ name: 'Alice' });
+      await stakeholderService.delete(stakeholder.id);
+      expect((await stakeholderService.listTrashed()).map((s) => s.id)).toEqual([stakeholder.id]);
+
+      await stakeholderService.restore(stakeholder.id);
+
+      expect(await stakeholderService.get(stakeholder.id)).not.toBeNull();
+      expect(await stakeholderService.listTrashed()).toEqual([]);
+    });
+
+    it('emptyTrash makes trashed stakeholders unrestorable', async () => {
+      const stakeholder = await stakeholderService.create({ name: 'Alice' });
+      await stakeholderService.delete(stakeholder.id);
+
+      await stakeholderService.emptyTrash();
+
+      await expect(stakeholderService.restore(stakeholder.id)).rejects.toThrow('Stakeholder is not in trash');
+    });
+  });
+
+  describe('lastContacts', () => {
+    it('takes the latest past meeting or linked note, skipping future and cancelled meetings', async () => {
+      const alice = await stakeholderService.create({ name: 'Alice' });
+      const bob = await stakeholderService.create({ name: 'Bob' });
+      await stakeholderService.create({ name: 'Carol' });
+      const meetings = createMeetingService(db);
+      const attendees = createMeetingAttendeeService(db);
+
+      const past = await meetings.create({ title: '1:1', start_time: '2026-01-05T10:00:00.000Z' });
+      const cancelled = await meetings.create({ title: 'Sync', start_time: '2026-02-01T10:00:00.000Z' });
+      await meetings.update(cancelled.id, { status: 'cancelled' });
+      const future = await meetings.create({ title: 'Planning', start_time: '2099-01-01T10:00:00.000Z' });
+      await attendees.link(past.id, alice.id);
+      await attendees.link(cancelled.id, alice.id);
+      await attendees.link(future.id, alice.id);
+
+      const note = await createNoteService(db).create({ title: 'Call notes' });
+      await createNoteStakeholderService(db).link(note.id, bob.id);
+
+      const contacts = await stakeholderService.lastContacts();
+
+      expect(contacts).toHaveLength(2);
+      expect(contacts).toContainEqual({ stakeholder_id: alice.id, last_contact_at: '2026-01-05T10:00:00.000Z' });
+      expect(contacts).toContainEqual({ stakeholder_id: bob.id, last_contact_at: note.created_at });
+    });
+  });
 });
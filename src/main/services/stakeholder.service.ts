@@ -1,5 +1,5 @@
 import { randomUUID } from 'crypto';
-import type { Stakeholder, CreateStakeholderInput, UpdateStakeholderInput } from '@shared/types';
+import type { Stakeholder, CreateStakeholderInput, UpdateStakeholderInput, StakeholderContact } from '@shared/types';
 import type { DbContext } from '../db/types';
 
 export interface StakeholderService {
@@ -8,6 +8,11 @@ export interface StakeholderService {
   getAll(): Promise<Stakeholder[]>;
   update(id: string, input: UpdateStakeholderInput): Promise<Stakeholder>;
   delete(id: string): Promise<void>;
+  listTrashed(): Promise<Stakeholder[]>;
+  restore(id: string): Promise<Stakeholder>;
+  emptyTrash(): Promise<void>;
+  /** Latest past meeting or linked note per stakeholder; stakeholders with neither are left out */
+  lastContacts(): Promise<StakeholderContact[]>;
 }
 
 export function createStakeholderService(ctx: DbContext): StakeholderService {
@@ -96,5 +101,56 @@ export function createStakeholderService(ctx: DbContext): StakeholderService {
         [now, now, id]
       );
     },
+
+    async listTrashed(): Promise<Stakeholder[]> {
+      return db.getAll<Stakeholder>(
+        'SELECT * FROM stakeholders WHERE deleted_at IS NOT NULL AND permanently_deleted_at IS NULL ORDER BY deleted_at DESC'
+      );
+    },
+
+    async restore(id: string): Promise<Stakeholder> {
+      const row = await db.getOptional<Stakeholder>(
+        'SELECT * FROM stakeholders WHERE id = ? AND deleted_at IS NOT NULL AND permanently_deleted_at IS NULL',
+        [id]
+      );
+
+      if (!row) {
+        throw new Error('Stakeholder is not in trash');
+      }
+
+      const now = new Date().toISOString();
+      await db.execute(
+        'UPDATE stakeholders SET deleted_at = NULL, updated_at = ? WHERE id = ?',
+        [now, id]
+      );
+
+      return { ...row, deleted_at: null, updated_at: now };
+    },
+
+    async emptyTrash(): Promise<void> {
+      const now = new Date().toISOString();
+      await db.execute(
+        'UPDATE stakeholders SET permanently_deleted_at = ? WHERE deleted_at IS NOT NULL AND permanently_deleted_at IS NULL',
+        [now]
+      );
+    },
+
+    async lastContacts(): Promise<StakeholderContact[]> {
+      return db.getAll<StakeholderContact>(`
+        SELECT s.id AS stakeholder_id, MAX(c.at) AS last_contact_at
+        FROM stakeholders s
+        JOIN (
+          SELECT ma.stakeholder_id, m.start_time AS at
+          FROM meeting_attendees ma JOIN meetings m ON m.id = ma.meeting_id
+          WHERE m.deleted_at IS NULL AND m.status != 'cancelled' AND m.start_time <= ?
+          UNION ALL
+          SELECT ns.stakeholder_id, n.created_at AS at
+          FROM note_stakeholders ns JOIN notes n ON n.id = ns.note_id
+          WHERE n.deleted_at IS NULL
+        ) c ON c.stakeholder_id = s.id
+        WHERE s.deleted_at IS NULL
+        GROUP BY s.id
+      `, [new Date().toISOString()]);
+    },
   };
 }
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createTagService, TagService } from './tag.service';
+import { createTaskService } from './task.service';
+import { createTestDb, TestDb } from '../../../tests/helpers/db';
+
+describe('TagService', () => {
+  let db: TestDb;
+  let tagService: TagService;
+  let taskId: string;
+
+  beforeEach(async () => {
+    db = createTestDb();
+    tagService = createTagService(db);
+    taskId = (await createTaskService(db).create({ title: 'Buy stamps' })).id;
+  });
+
+  describe('create', () => {
+    it('returns the existing tag for a name that differs only in case', async () => {
+      const first = await tagService.create({ name: 'errand', color: '#f00' });
+      const second = await tagService.create({ name: 'Errand' });
+
+      expect(second).toEqual(first);
+      expect(await tagService.list()).toEqual([first]);
+    });
+  });
+
+  describe('update', () => {
+    it('renames a tag', async () => {
+      const tag = await tagService.create({ name: 'waiting' });
+
+      const renamed = await tagService.update(tag.id, { name: 'waiting-for' });
+
+      expect(renamed.name).toBe('waiting-for');
+      expect((await tagService.list())[0].name).toBe('waiting-for');
+    });
+
+    it('refuses a name another tag already has', async () => {
+      await tagService.create({ name: 'errand' });
+      const tag = await tagService.create({ name: 'waiting' });
+
+      await expect(tagService.update(tag.id, { name: 'ERRAND' })).rejects.toThrow('A tag with this name already exists');
+    });
+  });
+
+  describe('tag', () => {
+    it('puts a tag on a task once', async () => {
+      const tag = await tagService.create({ name: 'errand' });
+      const input = { tag_id: tag.id, entity_type: 'task' as const, entity_id: taskId };
+
+      const first = await tagService.tag(input);
+      const second = await tagService.tag(input);
+
+      expect(second.id).toBe(first.id);
+      expect(await tagService.getNames('task', taskId)).toEqual(['errand']);
+    });
+
+    it('brings back a removed tag instead of adding a row', async () => {
+      const tag = await tagService.create({ name: 'errand' });
+      const input = { tag_id: tag.id, entity_type: 'task' as const, entity_id: taskId };
+      const first = await tagService.tag(input);
+      await tagService.untag(input);
+      expect(await tagService.listEntityTags()).toEqual([]);
+
+      const again = await tagService.tag(input);
+
+      expect(again.id).toBe(first.id);
+      expect(db.db.prepare('SELECT COUNT(*) AS n FROM entity_tags').get()).toEqual({ n: 1 });
+    });
+
+    it('rejects unknown tags and entities', async () => {
+      const tag = await tagService.create({ name: 'errand' });
+
+      await expect(tagService.tag({ tag_id: crypto.randomUUID(), entity_type: 'task', entity_id: taskId })).rejects.toThrow('Tag not found');
+      await expect(tagService.tag({ tag_id: tag.id, entity_type: 'note', entity_id: crypto.randomUUID() })).rejects.toThrow('Note not found');
+    });
+  });
+
+  describe('delete', () => {
+    it('takes the tag off everything it was on', async () => {
+      const tag = await tagService.create({ name: 'errand' });
+      await tagService.tag({ tag_id: tag.id, entity_type: 'task', entity_id: taskId });
+
+      await tagService.delete(tag.id);
+
+      expect(await tagService.list()).toEqual([]);
+      expect(await tagService.listEntityTags()).toEqual([]);
+      expect(await tagService.getNames('task', taskId)).toEqual([]);
+    });
+  });
+});
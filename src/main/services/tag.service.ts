@@ -0,0 +1,198 @@
+import { randomUUID } from 'crypto';
+import type { Tag, EntityTag, CreateTagInput, UpdateTagInput, TaggableEntityType } from '@shared/types';
+import type { AsyncDatabase, DbContext } from '../db/types';
+
+export interface EntityTagInput {
+  tag_id: string;
+  entity_type: TaggableEntityType;
+  entity_id: string;
+}
+
+export interface TagService {
+  /** Every active tag, by name */
+  list(): Promise<Tag[]>;
+  /** Returns the existing tag when one already has this name */
+  create(input: CreateTagInput): Promise<Tag>;
+  update(id: string, input: UpdateTagInput): Promise<Tag>;
+  /** Trash the tag and take it off everything it was on */
+  delete(id: string): Promise<void>;
+  /** Every active tag assignment */
+  listEntityTags(): Promise<EntityTag[]>;
+  tag(input: EntityTagInput): Promise<EntityTag>;
+  untag(input: EntityTagInput): Promise<void>;
+  /** Names of the tags on one task, note or meeting, for the search index */
+  getNames(entityType: TaggableEntityType, entityId: string): Promise<string[]>;
+  /** Everything the tag is or was on, including removed assignments */
+  listTagged(tagId: string): Promise<Array<{ entity_type: TaggableEntityType; entity_id: string }>>;
+}
+
+const ENTITY_TABLES: Record<TaggableEntityType, { table: string; label: string }> = {
+  task: { table: 'tasks', label: 'Task' },
+  note: { table: 'notes', label: 'Note' },
+  meeting: { table: 'meetings', label: 'Meeting' },
+};
+
+// Names are matched case-insensitively so "Errand" and "errand" are one tag
+async function findTagByName(conn: AsyncDatabase, name: string): Promise<Tag | null> {
+  return conn.getOptional<Tag>(
+    'SELECT * FROM tags WHERE name = ? COLLATE NOCASE AND deleted_at IS NULL ORDER BY created_at LIMIT 1',
+    [name.trim()]
+  );
+}
+
+async function insertTag(conn: AsyncDatabase, input: CreateTagInput, now: string): Promise<Tag> {
+  const tag: Tag = {
+    id: randomUUID(),
+    name: input.name.trim(),
+    color: input.color ?? null,
+    created_at: now,
+    updated_at: now,
+    deleted_at: null,
+  };
+  await conn.execute(
+    'INSERT INTO tags (id, name, color, created_at, updated_at, deleted_at) VALUES (?, ?, ?, ?, ?, NULL)',
+    [tag.id, tag.name, tag.color, tag.created_at, tag.updated_at]
+  );
+  return tag;
+}
+
+export async function linkTag(conn: AsyncDatabase, input: EntityTagInput, now: string): Promise<EntityTag> {
+  const existing = await conn.getOptional<EntityTag>(
+    'SELECT * FROM entity_tags WHERE tag_id = ? AND entity_type = ? AND entity_id = ?',
+    [input.tag_id, input.entity_type, input.entity_id]
+  );
+  if (existing && !existing.deleted_at) return existing;
+  // A tag that was taken off before comes back instead of a duplicate row
+  if (existing) {
+    await conn.execute('UPDATE entity_tags SET deleted_at = NULL WHERE id = ?', [existing.id]);
+    return { ...existing, deleted_at: null };
+  }
+
+  const entityTag: EntityTag = {
+    id: randomUUID(),
+    tag_id: input.tag_id,
+    entity_type: input.entity_type,
+    entity_id: input.entity_id,
+    created_at: now,
+    deleted_at: null,
+  };
+  await conn.execute(
+    'INSERT INTO entity_tags (id, tag_id, entity_type, entity_id, created_at, deleted_at) VALUES (?, ?, ?, ?, ?, NULL)',
+    [entityTag.id, entityTag.tag_id, entityTag.entity_type, entityTag.entity_id, entityTag.created_at]
+  );
+  return entityTag;
+}
+
+/**
+ * Put the named tags on an entity, creating tags that don't exist yet.
+ * Runs on `conn` so it joins the caller's transaction.
+ */
+export async function tagEntityByName(
+  conn: AsyncDatabase,
+  entityType: TaggableEntityType,
+  entityId: string,
+  names: string[],
+  now: string,
+): Promise<void> {
+  for (const name of names) {
+    if (!name.trim()) continue;
+    const tag = await findTagByName(conn, name) ?? await insertTag(conn, { name }, now);
+    await linkTag(conn, { tag_id: tag.id, entity_type: entityType, entity_id: entityId }, now);
+  }
+}
+
+export function createTagService(ctx: DbContext): TagService {
+  const { db } = ctx;
+
+  return {
+    async list(): Promise<Tag[]> {
+      return db.getAll<Tag>(
+        'SELECT * FROM tags WHERE deleted_at IS NULL ORDER BY name COLLATE NOCASE, created_at'
+      );
+    },
+
+    async create(input: CreateTagInput): Promise<Tag> {
+      return db.writeTransaction(async (tx) => {
+        return await findTagByName(tx, input.name) ?? insertTag(tx, input, new Date().toISOString());
+      });
+    },
+
+    async update(id: string, input: UpdateTagInput): Promise<Tag> {
+      return db.writeTransaction(async (tx) => {
+        const existing = await tx.getOptional<Tag>('SELECT * FROM tags WHERE id = ? AND deleted_at IS NULL', [id]);
+        if (!existing) throw new Error('Tag not found');
+
+        const name = input.name?.trim() ?? existing.name;
+        const clash = await findTagByName(tx, name);
+        if (clash && clash.id !== id) throw new Error('A tag with this name already exists');
+
+        const updated: Tag = {
+          ...existing,
+          name,
+          color: input.color !== undefined ? input.color : existing.color,
+          updated_at: new Date().toISOString(),
+        };
+        await tx.execute(
+          'UPDATE tags SET name = ?, color = ?, updated_at = ? WHERE id = ?',
+          [updated.name, updated.color, updated.updated_at, id]
+        );
+        return updated;
+      });
+    },
+
+    async delete(id: string): Promise<void> {
+      const now = new Date().toISOString();
+      await db.writeTransaction(async (tx) => {
+        await tx.execute(
+          'UPDATE tags SET deleted_at = ?, updated_at = ? WHERE id = ? AND deleted_at IS NULL',
+          [now, now, id]
+        );
+        await tx.execute(
+          'UPDATE entity_tags SET deleted_at = ? WHERE tag_id = ? AND deleted_at IS NULL',
+          [now, id]
+        );
+      });
+    },
+
+    async listEntityTags(): Promise<EntityTag[]> {
+      return db.getAll<EntityTag>(
+        'SELECT * FROM entity_tags WHERE deleted_at IS NULL ORDER BY created_at'
+      );
+    },
+
+    async tag(input: EntityTagInput): Promise<EntityTag> {
+      return db.writeTransaction(async (tx) => {
+        const tag = await tx.getOptional('SELECT id FROM tags WHERE id = ? AND deleted_at IS NULL', [input.tag_id]);
+        if (!tag) throw new Error('Tag not found');
+        const { table, label } = ENTITY_TABLES[input.entity_type];
+        const entity = await tx.getOptional(`SELECT id FROM ${table} WHERE id = ? AND deleted_at IS NULL`, [input.entity_id]);
+        if (!entity) throw new Error(`${label} not found`);
+        return linkTag(tx, input, new Date().toISOString());
+      });
+    },
+
+    async untag(input: EntityTagInput): Promise<void> {
+      await db.execute(
+        'UPDATE entity_tags SET deleted_at = ? WHERE tag_id = ? AND entity_type = ? AND entity_id = ? AND deleted_at IS NULL',
+        [new Date().toISOString(), input.tag_id, input.entity_type, input.entity_id]
+      );
+    },
+
+    async getNames(entityType: TaggableEntityType, entityId: string): Promise<string[]> {
+      const rows = await db.getAll<{ name: string }>(`
+        SELECT t.name FROM entity_tags et
+        JOIN tags t ON t.id = et.tag_id AND t.deleted_at IS NULL
+        WHERE et.entity_type = ? AND et.entity_id = ? AND et.deleted_at IS NULL
+        ORDER BY t.name COLLATE NOCASE
+      `, [entityType, entityId]);
+      return rows.map((row) => row.name);
+    },
+
+    async listTagged(tagId: string): Promise<Array<{ entity_type: TaggableEntityType; entity_id: string }>> {
+      return db.getAll<{ entity_type: TaggableEntityType; entity_id: string }>(
+        'SELECT entity_type, entity_id FROM entity_tags WHERE tag_id = ?',
+        [tagId]
+      );
+    },
+  };
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createTaskDependencyService, TaskDependencyService } from './task-dependency.service';
+import { createTaskService, TaskService } from './task.service';
+import { createTestDb, TestDb } from '../../../tests/helpers/db';
+
+describe('TaskDependencyService', () => {
+  let db: TestDb;
+  let dependencyService: TaskDependencyService;
+  let taskService: TaskService;
+  let a: string;
+  let b: string;
+  let c: string;
+
+  beforeEach(async () => {
+    db = createTestDb();
+    dependencyService = createTaskDependencyService(db);
+    taskService = createTaskService(db);
+    a = (await taskService.create({ title: 'Write spec' })).id;
+    b = (await taskService.create({ title: 'Build feature' })).id;
+    c = (await taskService.create({ title: 'Ship' })).id;
+  });
+
+  describe('link', () => {
+    it('makes a task wait on another', async () => {
+      const dependency = await dependencyService.link(b, a);
+
+      expect(dependency).toMatchObject({ task_id: b, blocked_by_task_id: a, deleted_at: null });
+      expect(await dependencyService.listByTask(b)).toEqual([dependency]);
+    });
+
+    it('returns the existing link instead of adding a duplicate', async () => {
+      const first = await dependencyService.link(b, a);
+      const second = await dependencyService.link(b, a);
+
+      expect(second.id).toBe(first.id);
+      expect(await dependencyService.list()).toHaveLength(1);
+    });
+
+    it('rejects links that would form a cycle', async () => {
+      await dependencyService.link(b, a);
+      await dependencyService.link(c, b);
+
+      await expect(dependencyService.link(a, c)).rejects.toThrow('Dependency would create a cycle');
+      await expect(dependencyService.link(a, a)).rejects.toThrow('Dependency would create a cycle');
+    });
+
+    it('rejects unknown or deleted tasks', async () => {
+      await taskService.delete(c);
+
+      await expect(dependencyService.link(b, 'missing')).rejects.toThrow('Task not found');
+      await expect(dependencyService.link(b, c)).rejects.toThrow('Task not found');
+    });
+
+    it('brings back a link that was removed', async () => {
+      const first = await dependencyService.link(b, a);
+      await dependencyService.unlink(b, a);
+
+      const again = await dependencyService.link(b, a);
+
+      expect(again.id).toBe(first.id);
+      expect(again.deleted_at).toBeNull();
+    });
+  });
+
+  describe('unlink', () => {
+    it('soft-deletes the link so the removal syncs', async () => {
+      await dependencyService.link(b, a);
+
+      await dependencyService.unlink(b, a);
+
+      expect(await dependencyService.list()).toEqual([]);
+      const row = db.db.prepare('SELECT deleted_at FROM task_dependencies WHERE task_id = ?').get(b) as { deleted_at: string | null };
+      expect(row.deleted_at).not.toBeNull();
+    });
+  });
+});
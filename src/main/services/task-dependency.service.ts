@@ -0,0 +1,84 @@
+import { randomUUID } from 'crypto';
+import type { TaskDependency } from '@shared/types';
+import { wouldCreateCycle } from '@shared/task-dependencies';
+import type { DbContext } from '../db/types';
+
+export interface TaskDependencyService {
+  /** Every active "blocked by" link */
+  list(): Promise<TaskDependency[]>;
+  /** Links where `taskId` is the task that waits */
+  listByTask(taskId: string): Promise<TaskDependency[]>;
+  /** Make `taskId` wait on `blockedById`; rejects links that would form a cycle */
+  link(taskId: string, blockedById: string): Promise<TaskDependency>;
+  unlink(taskId: string, blockedById: string): Promise<void>;
+}
+
+export function createTaskDependencyService(ctx: DbContext): TaskDependencyService {
+  const { db } = ctx;
+
+  return {
+    async list(): Promise<TaskDependency[]> {
+      return db.getAll<TaskDependency>(
+        'SELECT * FROM task_dependencies WHERE deleted_at IS NULL ORDER BY created_at'
+      );
+    },
+
+    async listByTask(taskId: string): Promise<TaskDependency[]> {
+      return db.getAll<TaskDependency>(
+        'SELECT * FROM task_dependencies WHERE task_id = ? AND deleted_at IS NULL ORDER BY created_at',
+        [taskId]
+      );
+    },
+
+    async link(taskId: string, blockedById: string): Promise<TaskDependency> {
+      return db.writeTransaction(async (tx) => {
+        const tasks = await tx.getAll<{ id: string }>(
+          'SELECT id FROM tasks WHERE id IN (?, ?) AND deleted_at IS NULL',
+          [taskId, blockedById]
+        );
+        if (tasks.length !== (taskId === blockedById ? 1 : 2)) {
+          throw new Error('Task not found');
+        }
+
+        const edges = await tx.getAll<TaskDependency>(
+          'SELECT * FROM task_dependencies WHERE deleted_at IS NULL'
+        );
+        const current = edges.find((e) => e.task_id === taskId && e.blocked_by_task_id === blockedById);
+        if (current) return current;
+        if (wouldCreateCycle(edges, taskId, blockedById)) {
+          throw new Error('Dependency would create a cycle');
+        }
+
+        // A link that was removed before comes back instead of a duplicate row
+        const removed = await tx.getOptional<TaskDependency>(
+          'SELECT * FROM task_dependencies WHERE task_id = ? AND blocked_by_task_id = ?',
+          [taskId, blockedById]
+        );
+        if (removed) {
+          await tx.execute('UPDATE task_dependencies SET deleted_at = NULL WHERE id = ?', [removed.id]);
+          return { ...removed, deleted_at: null };
+        }
+
+        const dependency: TaskDependency = {
+          id: randomUUID(),
+          task_id: taskId,
+          blocked_by_task_id: blockedById,
+          created_at: new Date().toISOString(),
+          deleted_at: null,
+        };
+        await tx.execute(
+          'INSERT INTO task_dependencies (id, task_id, blocked_by_task_id, created_at, deleted_at) VALUES (?, ?, ?, ?, NULL)',
+          [dependency.id, dependency.task_id, dependency.blocked_by_task_id, dependency.created_at]
+        );
+        return dependency;
+      });
+    },
+
+    async unlink(taskId: string, blockedById: string): Promise<void> {
+      await db.execute(
+        'UPDATE task_dependencies SET deleted_at = ? WHERE task_id = ? AND blocked_by_task_id = ? AND deleted_at IS NULL',
+        [new Date().toISOString(), taskId, blockedById]
+      );
+    },
+  };
+}
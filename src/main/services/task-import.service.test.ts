@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createTaskImportService, TaskImportService } from './task-import.service';
+import { createProjectHeadingService } from './project-heading.service';
+import { createChecklistService } from './checklist.service';
+import { createTestDb, TestDb } from '../../../tests/helpers/db';
+import type { ParsedImport } from '../importers/types';
+
+function sample(): ParsedImport {
+  return {
+    format: 'things',
+    projects: [
+      { input: { title: 'Launch', description: 'Q3' }, area: 'Work', headings: ['Build'] },
+      { input: { title: 'garden' }, area: 'Home', headings: [] },
+    ],
+    tasks: [
+      {
+        input: { title: 'Write spec', when_date: '2099-03-02' },
+        project: 'Launch',
+        heading: 'Build',
+        area: null,
+        completed_at: null,
+        checklist: [{ title: 'Outline', is_done: true }, { title: 'Draft', is_done: false }],
+      },
+      {
+        input: { title: 'Shipped beta', status: 'logbook' },
+        project: 'Launch',
+        heading: null,
+        area: null,
+        completed_at: '2026-01-05T09:00:00.000Z',
+        checklist: [],
+      },
+      { input: { title: 'Expenses', status: 'anytime' }, project: null, heading: null, area: 'work', completed_at: null, checklist: [] },
+      { input: { title: 'Call mom', status: 'inbox' }, project: 'Family', heading: null, area: null, completed_at: null, checklist: [] },
+    ],
+    warnings: ['Dropped date "soon" on "Call mom"'],
+  };
+}
+
+describe('TaskImportService', () => {
+  let db: TestDb;
+  let service: TaskImportService;
+  let workId: string;
+  let gardenId: string;
+
+  beforeEach(() => {
+    db = createTestDb();
+    service = createTaskImportService(db);
+    workId = db.createContext({ name: 'Work', color: '#f00' });
+    gardenId = db.createProject({ title: 'Garden' });
+  });
+
+  describe('preview', () => {
+    it('lists what will be created and flags unmatched projects and areas', async () => {
+      const preview = await service.preview(sample(), '/tmp/things.json');
+
+      expect(preview.projects.map((p) => [p.title, p.exists])).toEqual([
+        ['Launch', false],
+        ['garden', true],
+        ['Family', false],
+      ]);
+      expect(preview.tasks).toHaveLength(4);
+      expect(preview.tasks[0]).toEqual({ title: 'Write spec', status: null, project: 'Launch', area: null, checklist: 2 });
+      expect(preview.unmatchedProjects).toEqual(['Launch', 'Family']);
+      expect(preview.unmatchedAreas).toEqual(['Home']);
+      expect(preview.warnings).toEqual(['Dropped date "soon" on "Call mom"']);
+    });
+
+    it('writes nothing', async () => {
+      await service.preview(sample(), '/tmp/things.json');
+
+      expect(db.db.prepare('SELECT COUNT(*) as n FROM tasks').get()).toEqual({ n: 0 });
+      expect(db.db.prepare('SELECT COUNT(*) as n FROM projects').get()).toEqual({ n: 1 });
+    });
+  });
+
+  describe('apply', () => {
+    it('creates projects, headings, tasks and checklists marked as imported', async () => {
+      const result = await service.apply(sample());
+
+      expect(result).toEqual({ projects: 2, headings: 1, tasks: 4, checklistItems: 2 });
+
+      const launch = db.db.prepare('SELECT * FROM projects WHERE title = ?').get('Launch') as Record<string, unknown>;
+      expect(launch).toMatchObject({ description: 'Q3', context_id: workId, source: 'import' });
+
+      const tasks = db.db.prepare('SELECT * FROM tasks ORDER BY title').all() as Record<string, unknown>[];
+      const byTitle = Object.fromEntries(tasks.map((t) => [t.title, t]));
+      const [heading] = await createProjectHeadingService(db).listByProject(launch.id as string);
+      expect(heading.title).toBe('Build');
+      expect(byTitle['Write spec']).toMatchObject({ project_id: launch.id, heading_id: heading.id, status: 'upcoming', source: 'import' });
+      expect(byTitle['Shipped beta']).toMatchObject({ status: 'logbook', completed_at: '2026-01-05T09:00:00.000Z' });
+      expect(byTitle['Expenses']).toMatchObject({ project_id: null, context_id: workId });
+      expect(byTitle['Call mom']).toMatchObject({ status: 'inbox' });
+
+      const checklist = await createChecklistService(db).listByTask(byTitle['Write spec'].id as string);
+      expect(checklist.map((c) => [c.title, c.is_done])).toEqual([['Outline', true], ['Draft', false]]);
+    });
+
+    it('files tasks into existing projects instead of duplicating them', async () => {
+      const parsed = sample();
+      parsed.tasks.push({
+        input: { title: 'Weed beds' }, project: 'Garden', heading: null, area: null, completed_at: null, checklist: [],
+      });
+
+      await service.apply(parsed);
+
+      expect(db.db.prepare('SELECT COUNT(*) as n FROM projects WHERE lower(title) = ?').get('garden')).toEqual({ n: 1 });
+      expect(db.db.prepare('SELECT project_id FROM tasks WHERE title = ?').get('Weed beds')).toEqual({ project_id: gardenId });
+    });
+
+    it('writes nothing when any item fails', async () => {
+      const parsed = sample();
+      (parsed.tasks[3] as unknown as { input: { title: null } }).input.title = null;
+
+      await expect(service.apply(parsed)).rejects.toThrow();
+
+      expect(db.db.prepare('SELECT COUNT(*) as n FROM tasks').get()).toEqual({ n: 0 });
+      expect(db.db.prepare('SELECT COUNT(*) as n FROM projects').get()).toEqual({ n: 1 });
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import type { TaskImportPreview, TaskImportResult } from '@shared/types';
+import type { DbContext } from '../db/types';
+import type { ParsedImport } from '../importers/types';
+import { createProjectService } from './project.service';
+import { createProjectHeadingService } from './project-heading.service';
+import { createTaskService } from './task.service';
+import { createChecklistService } from './checklist.service';
+
+export interface TaskImportService {
+  /** Dry run: describe what apply() would create without writing anything */
+  preview(parsed: ParsedImport, filePath: string): Promise<TaskImportPreview>;
+  apply(parsed: ParsedImport): Promise<TaskImportResult>;
+}
+
+// Projects and areas are matched to local projects and contexts by name
+function nameKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/** Every project the file references, including ones only named by tasks */
+function referencedProjects(parsed: ParsedImport): { title: string; area: string | null; headings: string[] }[] {
+  const byKey = new Map<string, { title: string; area: string | null; headings: string[] }>();
+  for (const project of parsed.projects) {
+    byKey.set(nameKey(project.input.title), { title: project.input.title, area: project.area, headings: [...project.headings] });
+  }
+  for (const task of parsed.tasks) {
+    if (!task.project) continue;
+    const project = byKey.get(nameKey(task.project)) ?? { title: task.project, area: null, headings: [] };
+    if (task.heading && !project.headings.includes(task.heading)) project.headings.push(task.heading);
+    byKey.set(nameKey(task.project), project);
+  }
+  return [...byKey.values()];
+}
+
+/** Areas that decide a context: project areas and areas of unfiled tasks */
+function referencedAreas(parsed: ParsedImport): string[] {
+  const areas = new Map<string, string>();
+  for (const project of referencedProjects(parsed)) {
+    if (project.area) areas.set(nameKey(project.area), project.area);
+  }
+  for (const task of parsed.tasks) {
+    if (!task.project && task.area) areas.set(nameKey(task.area), task.area);
+  }
+  return [...areas.values()];
+}
+
+export function createTaskImportService(ctx: DbContext): TaskImportService {
+  const { db } = ctx;
+
+  async function loadContextIds(): Promise<Map<string, string>> {
+    const rows = await db.getAll<{ id: string; name: string }>(
+      'SELECT id, name FROM contexts WHERE deleted_at IS NULL ORDER BY sort_order, created_at'
+    );
+    const map = new Map<string, string>();
+    for (const row of rows) {
+      if (!map.has(nameKey(row.name))) map.set(nameKey(row.name), row.id);
+    }
+    return map;
+  }
+
+  async function loadProjectIds(): Promise<Map<string, string>> {
+    const rows = await db.getAll<{ id: string; title: string }>(
+      'SELECT id, title FROM projects WHERE deleted_at IS NULL ORDER BY sort_order, created_at'
+    );
+    const map = new Map<string, string>();
+    for (const row of rows) {
+      if (!map.has(nameKey(row.title))) map.set(nameKey(row.title), row.id);
+    }
+    return map;
+  }
+
+  return {
+    async preview(parsed: ParsedImport, filePath: string): Promise<TaskImportPreview> {
+      const contextIds = await loadContextIds();
+      const projectIds = await loadProjectIds();
+      const projects = referencedProjects(parsed).map((p) => ({ ...p, exists: projectIds.has(nameKey(p.title)) }));
+
+      return {
+        format: parsed.format,
+        filePath,
+        projects,
+        tasks: parsed.tasks.map((t) => ({
+          title: t.input.title,
+          status: t.input.status ?? null,
+          project: t.project,
+          area: t.project ? null : t.area,
+          checklist: t.checklist.length,
+        })),
+        unmatchedProjects: projects.filter((p) => !p.exists).map((p) => p.title),
+        unmatchedAreas: referencedAreas(parsed).filter((a) => !contextIds.has(nameKey(a))),
+        warnings: parsed.warnings,
+      };
+    },
+
+    async apply(parsed: ParsedImport): Promise<TaskImportResult> {
+      const contextIds = await loadContextIds();
+      const projectIds = await loadProjectIds();
+      const result: TaskImportResult = { projects: 0, headings: 0, tasks: 0, checklistItems: 0 };
+      const contextFor = (area: string | null) => (area ? contextIds.get(nameKey(area)) : undefined);
+
+      await db.writeTransaction(async (tx) => {
+        const projectService = createProjectService({ db: tx });
+        const headingService = createProjectHeadingService({ db: tx });
+        const taskService = createTaskService({ db: tx });
+        const checklistService = createChecklistService({ db: tx });
+        const headingIds = new Map<string, string>();
+        const now = new Date().toISOString();
+
+        for (const ref of referencedProjects(parsed)) {
+          let projectId = projectIds.get(nameKey(ref.title));
+          if (!projectId) {
+            const input = parsed.projects.find((p) => nameKey(p.input.title) === nameKey(ref.title))?.input
+              ?? { title: ref.title };
+            const project = await projectService.create({
+              ...input,
+              context_id: contextFor(ref.area),
+              source: 'import',
+            });
+            projectId = project.id;
+            projectIds.set(nameKey(ref.title), projectId);
+            result.projects++;
+          }
+
+          const existing = await headingService.listByProject(projectId);
+          for (const title of ref.headings) {
+            const match = existing.find((h) => nameKey(h.title) === nameKey(title));
+            const headingId = match?.id ?? (await headingService.create({ project_id: projectId, title })).id;
+            if (!match) result.headings++;
+            headingIds.set(`${projectId}:${nameKey(title)}`, headingId);
+          }
+        }
+
+        for (const item of parsed.tasks) {
+          const projectId = item.project ? projectIds.get(nameKey(item.project)) : undefined;
+          const task = await taskService.create({
+            ...item.input,
+            project_id: projectId,
+            heading_id: projectId && item.heading ? headingIds.get(`${projectId}:${nameKey(item.heading)}`) : undefined,
+            context_id: projectId ? undefined : contextFor(item.area),
+            source: 'import',
+          });
+          // Keep the original completion time so the Logbook history stays intact
+          if (task.status === 'logbook') {
+            await tx.execute('UPDATE tasks SET completed_at = ? WHERE id = ?', [item.completed_at ?? now, task.id]);
+          }
+          result.tasks++;
+
+          for (const entry of item.checklist) {
+            const created = await checklistService.create({ task_id: task.id, title: entry.title, source: 'import' });
+            if (entry.is_done) {
+              await tx.execute('UPDATE task_checklists SET is_done = 1 WHERE id = ?', [created.id]);
+            }
+            result.checklistItems++;
+          }
+        }
+      });
+
+      return result;
+    },
+  };
+}
@@ -1,6 +1,9 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { createTaskService, TaskService } from './task.service';
+import { createTaskService, nextInstanceId, TaskService } from './task.service';
 import { createChecklistService, ChecklistService } from './checklist.service';
+import { createProjectHeadingService } from './project-heading.service';
+import { createReminderService } from './reminder.service';
+import { createTagService } from './tag.service';
 import { createTestDb, TestDb } from '../../../tests/helpers/db';
 
 describe('TaskService', () => {
@@ -23,6 +26,46 @@ describe('TaskService', () => {
       );
     });
 
+    it('stores the estimate and lets an update clear it', async () => {
+      const task = await taskService.create({ title: 'Write report', estimate_minutes: 45 });
+      expect(task.estimate_minutes).toBe(45);
+
+      const updated = await taskService.update(task.id, { estimate_minutes: null });
+
+      expect(updated.estimate_minutes).toBeNull();
+      expect((await taskService.get(task.id))?.estimate_minutes).toBeNull();
+    });
+
+    it('stores the assignee and creates the checklist in order', async () => {
+      const task = await taskService.create({
+        title: 'Pack',
+        assignee_id: 'agent-1',
+        checklist: ['Passport', '  ', 'Charger'],
+      });
+
+      expect(task.assignee_id).toBe('agent-1');
+      const items = await checklistService.listByTask(task.id);
+      expect(items.map((i) => [i.title, i.sort_order])).toEqual([['Passport', 0], ['Charger', 1]]);
+    });
+
+    it('tags the task, reusing tags that already exist', async () => {
+      const tagService = createTagService(db);
+      const errand = await tagService.create({ name: 'errand' });
+
+      const task = await taskService.create({ title: 'Buy stamps', tags: ['Errand', 'post'] });
+
+      expect((await tagService.list()).map((t) => t.name)).toEqual(['errand', 'post']);
+      expect(await tagService.getNames('task', task.id)).toEqual(['errand', 'post']);
+      expect((await tagService.listEntityTags())[0].tag_id).toBe(errand.id);
+    });
+
+    it('creates a reminder at each given time', async () => {
+      const task = await taskService.create({ title: 'Call Sam', reminders: ['2099-01-02T09:00:00+01:00'] });
+
+      const reminders = await createReminderService(db).list();
+      expect(reminders.map((r) => [r.task_id, r.remind_at])).toEqual([[task.id, '2099-01-02T08:00:00.000Z']]);
+    });
+
     it('sets status to inbox by default', async () => {
       const task = await taskService.create({ title: 'Test task' });
 
@@ -70,6 +113,32 @@ describe('TaskService', () => {
     });
   });
 
+
+  describe('createMany', () => {
+    it('creates every task with its checklist', async () => {
+      const tasks = await taskService.createMany([
+        { title: 'First', checklist: ['Step'] },
+        { title: 'Second', priority: 'P1' },
+      ]);
+
+      expect(tasks.map((t) => t.title)).toEqual(['First', 'Second']);
+      expect(tasks[1].sort_order).toBeGreaterThan(tasks[0].sort_order);
+      expect(tasks[1].priority).toBe('P1');
+      expect(await checklistService.listByTask(tasks[0].id)).toHaveLength(1);
+    });
+
+    it('creates nothing when one task fails', async () => {
+      await expect(
+        taskService.createMany([
+          { title: 'Kept?', checklist: ['Step'] },
+          { title: null as unknown as string },
+        ])
+      ).rejects.toThrow();
+
+      expect(await taskService.list()).toHaveLength(0);
+      expect(db.db.prepare('SELECT COUNT(*) AS n FROM task_checklists').get()).toEqual({ n: 0 });
+    });
+  });
   describe('context inheritance', () => {
     it('inherits context_id from project when project_id is set', async () => {
       // Setup: create a context and project
@@ -239,6 +308,38 @@ describe('TaskService', () => {
         taskService.update('non-existent', { title: 'Nope' })
       ).rejects.toThrow('Task not found');
     });
+
+    it('moves the task into the heading\'s project when heading_id is set', async () => {
+      const projectId = db.createProject({ title: 'Launch' });
+      const heading = await createProjectHeadingService(db).create({ project_id: projectId, title: 'Phase 1' });
+      const task = await taskService.create({ title: 'Task' });
+
+      const updated = await taskService.update(task.id, { heading_id: heading.id });
+
+      expect(updated.heading_id).toBe(heading.id);
+      expect(updated.project_id).toBe(projectId);
+      expect(db.getRawTask(task.id)?.project_id).toBe(projectId);
+    });
+
+    it('clears heading_id when the task leaves its project', async () => {
+      const projectId = db.createProject({ title: 'Launch' });
+      const otherProjectId = db.createProject({ title: 'Other' });
+      const heading = await createProjectHeadingService(db).create({ project_id: projectId, title: 'Phase 1' });
+      const task = await taskService.create({ title: 'Task', project_id: projectId, heading_id: heading.id });
+
+      const updated = await taskService.update(task.id, { project_id: otherProjectId });
+
+      expect(updated.project_id).toBe(otherProjectId);
+      expect(updated.heading_id).toBeNull();
+    });
+
+    it('rejects an unknown heading', async () => {
+      const task = await taskService.create({ title: 'Task' });
+
+      await expect(
+        taskService.update(task.id, { heading_id: 'non-existent-uuid' })
+      ).rejects.toThrow('Heading not found');
+    });
   });
 
   describe('when_date/status auto-sync', () => {
@@ -458,15 +559,25 @@ describe('TaskService', () => {
         expect(updated.stale_at).toBe(stale?.stale_at);
       });
 
-      it('completing stale task → logbook, stale_at cleared', async () => {
+      it('completing stale task → logbook, stale_at preserved', async () => {
         const task = await taskService.create({ title: 'T', status: 'today', when_date: '2026-01-01' });
         await taskService.markStaleTasks(5);
+        const stale = await taskService.get(task.id);
 
         const updated = await taskService.update(task.id, { status: 'logbook' });
         expect(updated.status).toBe('logbook');
-        expect(updated.stale_at).toBeNull();
+        expect(updated.stale_at).toBe(stale?.stale_at);
         expect(updated.completed_at).not.toBeNull();
       });
+
+      it('uncompleting a task that was stale → stale_at cleared', async () => {
+        const task = await taskService.create({ title: 'T', status: 'today', when_date: '2026-01-01' });
+        await taskService.markStaleTasks(5);
+        await taskService.update(task.id, { status: 'logbook' });
+
+        const updated = await taskService.update(task.id, { status: 'inbox' });
+        expect(updated.stale_at).toBeNull();
+      });
     });
 
     describe('both explicit / neither', () => {
@@ -541,6 +652,144 @@ describe('TaskService', () => {
     });
   });
 
+  describe('recurrence', () => {
+    const today = new Date().toISOString().split('T')[0];
+    const addDays = (date: string, days: number) => {
+      const d = new Date(`${date}T00:00:00Z`);
+      d.setUTCDate(d.getUTCDate() + days);
+      return d.toISOString().split('T')[0];
+    };
+
+    async function openInstances(title: string) {
+      return (await taskService.list()).filter((t) => t.title === title && t.status !== 'logbook');
+    }
+
+    it('completing a recurring task creates the next instance', async () => {
+      const task = await taskService.create({ title: 'Water plants', when_date: today, recurrence: 'daily' });
+
+      await taskService.update(task.id, { status: 'logbook' });
+
+      const [next] = await openInstances('Water plants');
+      expect(next.id).not.toBe(task.id);
+      expect(next.when_date).toBe(addDays(today, 1));
+      expect(next.status).toBe('upcoming');
+      expect(next.recurrence).toBe('daily');
+      expect(next.completed_at).toBeNull();
+      expect(next.id).toBe(nextInstanceId(task.id));
+    });
+
+    it('moves the rule to the next instance so re-completing does not duplicate it', async () => {
+      const task = await taskService.create({ title: 'Standup', when_date: today, recurrence: 'daily' });
+
+      const completed = await taskService.update(task.id, { status: 'logbook' });
+      expect(completed.recurrence).toBeNull();
+
+      await taskService.update(task.id, { status: 'today' });
+      await taskService.update(task.id, { status: 'logbook' });
+
+      expect(await openInstances('Standup')).toHaveLength(1);
+    });
+
+    it('keeps the deadline at the same distance from the when_date', async () => {
+      const task = await taskService.create({
+        title: 'Report',
+        when_date: today,
+        deadline: addDays(today, 2),
+        recurrence: 'after:7',
+      });
+
+      await taskService.update(task.id, { status: 'logbook' });
+
+      const [next] = await openInstances('Report');
+      expect(next.when_date).toBe(addDays(today, 7));
+      expect(next.deadline).toBe(addDays(today, 9));
+    });
+
+    it('advances the deadline of a deadline-only task', async () => {
+      const task = await taskService.create({ title: 'Invoice', deadline: today, recurrence: 'after:30' });
+
+      await taskService.update(task.id, { status: 'logbook' });
+
+      const [next] = await openInstances('Invoice');
+      expect(next.when_date).toBeNull();
+      expect(next.deadline).toBe(addDays(today, 30));
+      expect(next.status).toBe('anytime');
+    });
+
+    it('schedules a completed-late instance after today', async () => {
+      const task = await taskService.create({ title: 'Backup', when_date: addDays(today, -10), recurrence: 'daily' });
+
+      await taskService.update(task.id, { status: 'logbook' });
+
+      const [next] = await openInstances('Backup');
+      expect(next.when_date).toBe(addDays(today, 1));
+      expect(await taskService.markStaleTasks(5)).toBe(0);
+    });
+
+    it('copies checklist items to the next instance unchecked', async () => {
+      const task = await taskService.create({ title: 'Pack', when_date: today, recurrence: 'daily' });
+      const item = await checklistService.create({ task_id: task.id, title: 'Passport' });
+      await checklistService.update(item.id, { is_done: true });
+
+      await taskService.update(task.id, { status: 'logbook' });
+
+      const [next] = await openInstances('Pack');
+      const items = await checklistService.listByTask(next.id);
+      expect(items.map((i) => i.title)).toEqual(['Passport']);
+      expect(items[0].is_done).toBe(false);
+    });
+
+    it('keeps the tags on the next instance', async () => {
+      const task = await taskService.create({ title: 'Water plants', when_date: today, recurrence: 'daily', tags: ['home'] });
+
+      await taskService.update(task.id, { status: 'logbook' });
+
+      const [next] = await openInstances('Water plants');
+      expect(await createTagService(db).getNames('task', next.id)).toEqual(['home']);
+    });
+
+    it('cancelling a recurring task does not create the next instance', async () => {
+      const task = await taskService.create({ title: 'Gym', when_date: today, recurrence: 'daily' });
+
+      await taskService.update(task.id, { status: 'cancelled' });
+
+      expect(await openInstances('Gym')).toHaveLength(1);
+    });
+
+    it('create with a schedule rule and no date picks the first occurrence', async () => {
+      const task = await taskService.create({ title: 'Daily review', recurrence: 'daily' });
+
+      expect(task.when_date).toBe(today);
+      expect(task.status).toBe('today');
+    });
+  });
+
+  describe('demote', () => {
+    it('folds a task into the end of another task\'s checklist and trashes it', async () => {
+      const parent = await taskService.create({ title: 'Move house', checklist: ['Pack'] });
+      const task = await taskService.create({ title: 'Book van' });
+      await taskService.update(task.id, { status: 'logbook' });
+
+      const item = await taskService.demote(task.id, parent.id);
+
+      expect(item).toMatchObject({ task_id: parent.id, title: 'Book van', is_done: true, sort_order: 1 });
+      expect((await checklistService.listByTask(parent.id)).map((i) => i.title)).toEqual(['Pack', 'Book van']);
+      expect(await taskService.get(task.id)).toBeNull();
+      expect((await taskService.listTrashed()).map((t) => t.id)).toEqual([task.id]);
+    });
+
+    it('refuses a task with its own checklist and leaves both tasks alone', async () => {
+      const parent = await taskService.create({ title: 'Move house' });
+      const task = await taskService.create({ title: 'Pack', checklist: ['Books'] });
+
+      await expect(taskService.demote(task.id, parent.id)).rejects.toThrow('A task with a checklist cannot become a checklist item');
+      await expect(taskService.demote(parent.id, parent.id)).rejects.toThrow('cannot become its own checklist item');
+
+      expect(db.getRawTask(task.id)?.deleted_at).toBeNull();
+      expect(await checklistService.listByTask(parent.id)).toEqual([]);
+    });
+  });
+
   describe('delete', () => {
     it('soft deletes by setting deleted_at', async () => {
       const task = await taskService.create({ title: 'To delete' });
@@ -592,6 +841,90 @@ describe('TaskService', () => {
     });
   });
 
+  describe('bulkUpdate', () => {
+    it('applies the same derive rules as update to every task', async () => {
+      const a = await taskService.create({ title: 'A', status: 'anytime' });
+      const b = await taskService.create({ title: 'B' });
+
+      const updated = await taskService.bulkUpdate([a.id, b.id], { when_date: '2099-01-01', priority: 'P2' });
+
+      expect(updated.map((t) => [t.status, t.priority])).toEqual([['upcoming', 'P2'], ['upcoming', 'P2']]);
+      expect(db.getRawTask(b.id)?.when_date).toBe('2099-01-01');
+    });
+
+    it('completes tasks with a completion time', async () => {
+      const a = await taskService.create({ title: 'A' });
+      const b = await taskService.create({ title: 'B' });
+
+      await taskService.bulkUpdate([a.id, b.id], { status: 'logbook' });
+
+      expect(db.getRawTask(a.id)?.completed_at).not.toBeNull();
+      expect(db.getRawTask(b.id)?.completed_at).toBe(db.getRawTask(a.id)?.completed_at);
+    });
+
+    it('changes nothing when one of the tasks does not exist', async () => {
+      const task = await taskService.create({ title: 'Kept', priority: 'P3' });
+
+      await expect(
+        taskService.bulkUpdate([task.id, '00000000-0000-4000-8000-000000000000'], { priority: 'P1' })
+      ).rejects.toThrow('Task not found');
+
+      expect(db.getRawTask(task.id)?.priority).toBe('P3');
+    });
+
+    it('moves tasks and their checklists to the trash with delete', async () => {
+      const a = await taskService.create({ title: 'A' });
+      const b = await taskService.create({ title: 'B' });
+      const item = await checklistService.create({ task_id: a.id, title: 'Step' });
+
+      const result = await taskService.bulkUpdate([a.id, b.id], { delete: true });
+
+      expect(result).toEqual([]);
+      expect(db.getRawTask(a.id)?.deleted_at).not.toBeNull();
+      expect(db.getRawTask(b.id)?.deleted_at).toBe(db.getRawTask(a.id)?.deleted_at);
+      expect(db.getRawChecklistItem(item.id)?.deleted_at).toBe(db.getRawTask(a.id)?.deleted_at);
+    });
+  });
+
+  describe('move', () => {
+    it('appends new tasks to the end of the list', async () => {
+      const a = await taskService.create({ title: 'A' });
+      const b = await taskService.create({ title: 'B' });
+
+      expect(b.sort_order).toBe(a.sort_order + 1);
+    });
+
+    it('gives the moved task a key between its neighbours and leaves the rest alone', async () => {
+      const a = await taskService.create({ title: 'A' });
+      const b = await taskService.create({ title: 'B' });
+      const c = await taskService.create({ title: 'C' });
+
+      const moved = await taskService.move(c.id, [a.id, c.id, b.id]);
+
+      expect(moved.map((t) => t.id)).toEqual([c.id]);
+      expect(moved[0].sort_order).toBeGreaterThan(a.sort_order);
+      expect(moved[0].sort_order).toBeLessThan(b.sort_order);
+      expect((await taskService.list()).map((t) => t.title)).toEqual(['A', 'C', 'B']);
+    });
+
+    it('renumbers the list once when the neighbours share a key', async () => {
+      const a = await taskService.create({ title: 'A' });
+      const b = await taskService.create({ title: 'B' });
+      const c = await taskService.create({ title: 'C' });
+      db.db.exec('UPDATE tasks SET sort_order = 0');
+
+      const moved = await taskService.move(a.id, [b.id, a.id, c.id]);
+
+      expect(moved).toHaveLength(3);
+      expect([b.id, a.id, c.id].map((id) => db.getRawTask(id)!.sort_order)).toEqual([0, 1, 2]);
+    });
+
+    it('throws when the task does not exist', async () => {
+      const missing = '00000000-0000-4000-8000-000000000000';
+      await expect(taskService.move(missing, [missing])).rejects.toThrow('Task not found');
+    });
+  });
+
   describe('markStaleTasks', () => {
     it('marks task with old when_date and status=today as stale', async () => {
       const task = await taskService.create({ title: 'Old task', status: 'today', when_date: '2026-01-01' });
@@ -683,6 +1016,55 @@ describe('TaskService', () => {
       const count = await taskService.markStaleTasks(5);
       expect(count).toBe(0);
     });
+
+    describe('with rules', () => {
+      function daysAgo(days: number): string {
+        const now = new Date();
+        return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - days)).toISOString().split('T')[0];
+      }
+
+      it('uses the per-context threshold instead of the default', async () => {
+        const work = db.createContext({ name: 'Work' });
+        const home = db.createContext({ name: 'Home' });
+        const workTask = await taskService.create({ title: 'Work task', status: 'today', when_date: daysAgo(4), context_id: work });
+        const homeTask = await taskService.create({ title: 'Home task', status: 'today', when_date: daysAgo(10), context_id: home });
+
+        const count = await taskService.markStaleTasks(5, { contextDays: { [work]: 3, [home]: 14 } });
+
+        expect(count).toBe(1);
+        expect((await taskService.get(workTask.id))?.status).toBe('stale');
+        expect((await taskService.get(homeTask.id))?.status).toBe('today');
+      });
+
+      it('never marks exempt priorities', async () => {
+        await taskService.create({ title: 'Urgent', status: 'today', when_date: '2026-01-01', priority: 'P1' });
+        const task = await taskService.create({ title: 'Normal', status: 'today', when_date: '2026-01-01', priority: 'P3' });
+
+        const count = await taskService.markStaleTasks(5, { exemptPriorities: ['P1'] });
+
+        expect(count).toBe(1);
+        expect((await taskService.get(task.id))?.status).toBe('stale');
+      });
+
+      it('keeps tasks due within the deadline window active', async () => {
+        await taskService.create({ title: 'Due soon', status: 'today', when_date: '2026-01-01', deadline: daysAgo(-3) });
+        const later = await taskService.create({ title: 'Due later', status: 'today', when_date: '2026-01-01', deadline: daysAgo(-4) });
+
+        const count = await taskService.markStaleTasks(5, { deadlineWindowDays: 3 });
+
+        expect(count).toBe(1);
+        expect((await taskService.get(later.id))?.status).toBe('stale');
+      });
+
+      it('countStaleTasks matches markStaleTasks without writing', async () => {
+        const task = await taskService.create({ title: 'Old', status: 'today', when_date: '2026-01-01', priority: 'P2' });
+        await taskService.create({ title: 'Exempt', status: 'today', when_date: '2026-01-01', priority: 'P1' });
+
+        expect(await taskService.countStaleTasks(5, { exemptPriorities: ['P1'] })).toBe(1);
+        expect((await taskService.get(task.id))?.status).toBe('today');
+        expect(await taskService.markStaleTasks(5, { exemptPriorities: ['P1'] })).toBe(1);
+      });
+    });
   });
 
   describe('trash', () => {
@@ -1,13 +1,54 @@
 import { randomUUID } from 'crypto';
-import type { Task, CreateTaskInput, UpdateTaskInput, TaskStatus } from '@shared/types';
-import type { DbContext } from '../db/types';
+import type { Task, CreateTaskInput, UpdateTaskInput, BulkUpdateTaskInput, TaskStatus, DataSource, StaleRules, ChecklistItem } from '@shared/types';
+import { parseRecurrenceRule, firstOccurrence, nextOccurrence, addDaysToDate, daysBetween } from '@shared/recurrence';
+import type { AsyncDatabase, DbContext } from '../db/types';
+import { moveRow } from '../db/sort-order';
+import { nameBasedId } from '../db/ids';
+import { linkTag, tagEntityByName } from './tag.service';
 
 function getToday(): string {
   return new Date().toISOString().split('T')[0];
 }
 
-function getUTCDateString(date: Date): string {
-  return date.toISOString().split('T')[0];
+/**
+ * WHERE clause for open scheduled tasks whose when_date lies further back
+ * than their context allows. Overdue tasks are left alone (due wins), and so
+ * are exempt priorities and tasks due within the deadline window.
+ */
+function staleFilter(thresholdDays: number, rules: StaleRules): { sql: string; params: unknown[] } {
+  const today = getToday();
+  const params: unknown[] = [];
+
+  // when_date must be strictly before (today - threshold), all in UTC
+  let cutoff = '?';
+  const overrides = Object.entries(rules.contextDays ?? {});
+  if (overrides.length > 0) {
+    cutoff = `CASE context_id ${overrides.map(() => 'WHEN ? THEN ?').join(' ')} ELSE ? END`;
+    for (const [contextId, days] of overrides) {
+      params.push(contextId, addDaysToDate(today, -days));
+    }
+  }
+  params.push(addDaysToDate(today, -thresholdDays));
+
+  // A deadline inside the window keeps the task active, a later one does not
+  const windowDays = rules.deadlineWindowDays ?? 0;
+  params.push(windowDays > 0 ? addDaysToDate(today, windowDays + 1) : today);
+
+  let sql = `
+    when_date IS NOT NULL
+    AND when_date < ${cutoff}
+    AND status IN ('today', 'upcoming')
+    AND (deadline IS NULL OR deadline >= ?)
+    AND deleted_at IS NULL
+    AND completed_at IS NULL`;
+
+  const exempt = rules.exemptPriorities ?? [];
+  if (exempt.length > 0) {
+    sql += ` AND (priority IS NULL OR priority NOT IN (${exempt.map(() => '?').join(', ')}))`;
+    params.push(...exempt);
+  }
+
+  return { sql, params };
 }
 
 function isTerminalStatus(s: TaskStatus): boolean {
@@ -18,17 +59,272 @@ function deriveStatusFromDate(whenDate: string): TaskStatus {
   return whenDate <= getToday() ? 'today' : 'upcoming';
 }
 
+async function insertTask(db: AsyncDatabase, task: Task, source: DataSource = 'user'): Promise<void> {
+  await db.execute(`
+    INSERT INTO tasks (
+      id, title, notes, status, when_date, deadline,
+      project_id, heading_id, context_id, priority,
+      sort_order, created_at, updated_at, completed_at, deleted_at, stale_at,
+      assignee_id, recurrence, estimate_minutes, source
+    ) VALUES (
+      ?, ?, ?, ?, ?, ?,
+      ?, ?, ?, ?,
+      ?, ?, ?, ?, ?, ?,
+      ?, ?, ?, ?
+    )
+  `, [
+    task.id, task.title, task.notes, task.status, task.when_date, task.deadline,
+    task.project_id, task.heading_id, task.context_id, task.priority,
+    task.sort_order, task.created_at, task.updated_at, task.completed_at, task.deleted_at, task.stale_at,
+    task.assignee_id, task.recurrence, task.estimate_minutes, source,
+  ]);
+}
+
+/**
+ * The id of the instance that completing recurring task `taskId` spawns.
+ * Known up front, so callers can find the instance a completion made, and
+ * devices completing the same task offline spawn one instance, not two.
+ */
+export function nextInstanceId(taskId: string): string {
+  return nameBasedId(`next-instance:${taskId}`);
+}
+
+/**
+ * Build the next open instance of a recurring task that is being completed.
+ * The when_date (or, for deadline-only tasks, the deadline) advances per the
+ * rule; a deadline keeps its original distance from the when_date.
+ */
+function buildNextInstance(task: Task, now: string): Task {
+  const rule = parseRecurrenceRule(task.recurrence!)!;
+  const today = getToday();
+
+  let whenDate: string | null = null;
+  let deadline: string | null = null;
+  if (task.when_date) {
+    whenDate = nextOccurrence(rule, task.when_date, today);
+    deadline = task.deadline
+      ? addDaysToDate(whenDate, daysBetween(task.when_date, task.deadline))
+      : null;
+  } else if (task.deadline) {
+    deadline = nextOccurrence(rule, task.deadline, today);
+  } else {
+    whenDate = nextOccurrence(rule, null, today);
+  }
+
+  return {
+    ...task,
+    id: nextInstanceId(task.id),
+    status: whenDate ? deriveStatusFromDate(whenDate) : 'anytime',
+    when_date: whenDate,
+    deadline,
+    created_at: now,
+    updated_at: now,
+    completed_at: null,
+    deleted_at: null,
+    stale_at: null,
+  };
+}
+
 export interface TaskService {
   create(input: CreateTaskInput): Promise<Task>;
+  /** Create several tasks with their checklists in one transaction; all or nothing */
+  createMany(inputs: CreateTaskInput[]): Promise<Task[]>;
   get(id: string): Promise<Task | null>;
   list(): Promise<Task[]>;
   update(id: string, input: UpdateTaskInput): Promise<Task>;
+  /** Apply the same changes to several tasks in one transaction; all or nothing */
+  bulkUpdate(ids: string[], input: BulkUpdateTaskInput): Promise<Task[]>;
+  /** Move a task to its place in `orderedIds` (the list after the drop); returns the tasks whose sort_order changed */
+  move(id: string, orderedIds: string[]): Promise<Task[]>;
   delete(id: string): Promise<void>;
+  /**
+   * Fold a task into the end of another task's checklist, done if the task was.
+   * The task itself goes to the trash, keeping its history
+   */
+  demote(id: string, targetTaskId: string): Promise<ChecklistItem>;
   listTrashed(): Promise<Task[]>;
   restore(id: string): Promise<Task>;
   emptyTrash(): Promise<void>;
   purgeExpiredTrash(days: number): Promise<void>;
-  markStaleTasks(thresholdDays: number): Promise<number>;
+  markStaleTasks(thresholdDays: number, rules?: StaleRules): Promise<number>;
+  /** How many tasks markStaleTasks would mark with the same arguments */
+  countStaleTasks(thresholdDays: number, rules?: StaleRules): Promise<number>;
+}
+
+/**
+ * Resolve the project a heading belongs to
+ */
+async function getHeadingProjectId(conn: AsyncDatabase, headingId: string): Promise<string> {
+  const heading = await conn.getOptional<{ project_id: string }>(
+    'SELECT project_id FROM project_headings WHERE id = ? AND deleted_at IS NULL',
+    [headingId]
+  );
+  if (!heading) {
+    throw new Error('Heading not found');
+  }
+  return heading.project_id;
+}
+
+/**
+ * Apply an update on `conn`, deriving status, when_date, completion and
+ * heading changes, and spawning the next instance of a completed recurring
+ * task. The caller owns the transaction.
+ */
+export async function applyTaskUpdate(conn: AsyncDatabase, id: string, input: UpdateTaskInput, now: string): Promise<Task> {
+  // Check task exists
+  const existing = await conn.getOptional<Task>(
+    'SELECT * FROM tasks WHERE id = ? AND deleted_at IS NULL',
+    [id]
+  );
+  if (!existing) {
+    throw new Error('Task not found');
+  }
+
+  // Auto-sync when_date ↔ status
+  const statusExplicit = 'status' in input;
+  const whenDateExplicit = 'when_date' in input;
+
+  let derivedStatus: TaskStatus = statusExplicit ? input.status! : existing.status;
+  let derivedWhenDate: string | null = whenDateExplicit ? (input.when_date ?? null) : existing.when_date;
+
+  // Rule 1: when_date changed, status not explicit → derive status
+  if (whenDateExplicit && !statusExplicit && !isTerminalStatus(existing.status)) {
+    if (derivedWhenDate === null) {
+      if (existing.status !== 'inbox' && existing.status !== 'someday') {
+        derivedStatus = 'anytime';
+      }
+    } else {
+      derivedStatus = deriveStatusFromDate(derivedWhenDate);
+    }
+  }
+
+  // Rule 1 extension: stale tasks with when_date change → re-derive
+  // (already handled above since stale is not terminal and not inbox/someday)
+
+  // Rule 2: status changed, when_date not explicit → derive when_date
+  if (statusExplicit && !whenDateExplicit) {
+    if (input.status === 'inbox' || input.status === 'anytime' || input.status === 'someday') {
+      derivedWhenDate = null;
+    }
+  }
+
+  // Rule 2 extension: setting status to stale → preserve when_date (like today/upcoming)
+
+  // Determine if completing or uncompleting (use derivedStatus)
+  const isCompleting = derivedStatus === 'logbook' && existing.status !== 'logbook';
+  const isUncompleting = derivedStatus !== 'logbook' && existing.status === 'logbook';
+  const completedAt = isCompleting ? now : isUncompleting ? null : existing.completed_at;
+
+  // Handle stale_at: preserve while stale, and into the logbook when a stale
+  // task is completed so analytics can tell it went stale first. Any other
+  // move out of stale (or out of the logbook) clears it.
+  const keepsStaleAt = derivedStatus === 'stale'
+    || (derivedStatus === 'logbook' && (existing.status === 'stale' || existing.status === 'logbook'));
+  const staleAt = keepsStaleAt ? existing.stale_at : null;
+
+  // Headings belong to a project: moving under a heading moves the task
+  // into its project, and leaving the project drops the old heading.
+  let projectId = 'project_id' in input ? (input.project_id ?? null) : existing.project_id;
+  let headingId = 'heading_id' in input ? (input.heading_id ?? null) : existing.heading_id;
+  if ('heading_id' in input && headingId) {
+    projectId = await getHeadingProjectId(conn, headingId);
+  } else if (projectId !== existing.project_id) {
+    headingId = null;
+  }
+
+  // Build update
+  const updated: Task = {
+    ...existing,
+    ...input,
+    project_id: projectId,
+    heading_id: headingId,
+    status: derivedStatus,
+    when_date: derivedWhenDate,
+    updated_at: now,
+    completed_at: completedAt,
+    stale_at: staleAt,
+  };
+
+  // Completing a recurring task spawns its next instance. The rule moves
+  // to the new instance, so re-completing this one later won't spawn twice.
+  const nextInstance = isCompleting && updated.recurrence ? buildNextInstance(updated, now) : null;
+  if (nextInstance) {
+    updated.recurrence = null;
+  }
+
+  await conn.execute(`
+    UPDATE tasks SET
+      title = ?, notes = ?, status = ?, when_date = ?, deadline = ?,
+      project_id = ?, heading_id = ?, context_id = ?, priority = ?,
+      sort_order = ?, updated_at = ?, completed_at = ?, stale_at = ?, assignee_id = ?,
+      recurrence = ?, estimate_minutes = ?
+    WHERE id = ?
+  `, [
+    updated.title, updated.notes, updated.status, updated.when_date, updated.deadline,
+    updated.project_id, updated.heading_id, updated.context_id, updated.priority,
+    updated.sort_order, updated.updated_at, updated.completed_at, updated.stale_at, updated.assignee_id,
+    updated.recurrence, updated.estimate_minutes,
+    id,
+  ]);
+
+  // Undoing an earlier completion left the instance in the trash, so it comes
+  // back; an instance that is still there was spawned already
+  const previous = nextInstance && await conn.getOptional<Task>('SELECT * FROM tasks WHERE id = ?', [nextInstance.id]);
+  const spawned = previous && !previous.deleted_at ? null : nextInstance;
+  if (spawned && previous) {
+    await conn.execute(`
+      UPDATE tasks SET
+        title = ?, notes = ?, status = ?, when_date = ?, deadline = ?,
+        project_id = ?, heading_id = ?, context_id = ?, priority = ?,
+        sort_order = ?, updated_at = ?, completed_at = NULL, deleted_at = NULL, permanently_deleted_at = NULL,
+        stale_at = NULL, assignee_id = ?, recurrence = ?, estimate_minutes = ?
+      WHERE id = ?
+    `, [
+      spawned.title, spawned.notes, spawned.status, spawned.when_date, spawned.deadline,
+      spawned.project_id, spawned.heading_id, spawned.context_id, spawned.priority,
+      spawned.sort_order, now, spawned.assignee_id, spawned.recurrence, spawned.estimate_minutes,
+      spawned.id,
+    ]);
+  } else if (spawned) {
+    await insertTask(conn, spawned);
+  }
+
+  if (spawned) {
+    // Carry the checklist over, unchecked
+    const items = await conn.getAll<{ title: string; sort_order: number }>(
+      'SELECT title, sort_order FROM task_checklists WHERE task_id = ? AND deleted_at IS NULL ORDER BY sort_order',
+      [id]
+    );
+    for (const item of items) {
+      await conn.execute(
+        'INSERT INTO task_checklists (id, task_id, title, is_done, sort_order, created_at, updated_at, deleted_at) VALUES (?, ?, ?, 0, ?, ?, ?, NULL)',
+        [randomUUID(), spawned.id, item.title, item.sort_order, now, now]
+      );
+    }
+
+    // and its tags
+    const tags = await conn.getAll<{ tag_id: string }>(
+      "SELECT tag_id FROM entity_tags WHERE entity_type = 'task' AND entity_id = ? AND deleted_at IS NULL",
+      [id]
+    );
+    for (const { tag_id } of tags) {
+      await linkTag(conn, { tag_id, entity_type: 'task', entity_id: spawned.id }, now);
+    }
+  }
+
+  return updated;
+}
+
+/** Move a task and its checklist to the trash on `conn` */
+export async function trashTask(conn: AsyncDatabase, id: string, now: string): Promise<void> {
+  await conn.execute(
+    'UPDATE tasks SET deleted_at = ?, updated_at = ? WHERE id = ?',
+    [now, now, id]
+  );
+  await conn.execute(
+    'UPDATE task_checklists SET deleted_at = ?, updated_at = ? WHERE task_id = ? AND deleted_at IS NULL',
+    [now, now, id]
+  );
 }
 
 export function createTaskService(ctx: DbContext): TaskService {
@@ -37,75 +333,111 @@ export function createTaskService(ctx: DbContext): TaskService {
   /**
    * Get project's context_id for inheritance
    */
-  async function getProjectContextId(projectId: string): Promise<string | null> {
-    const project = await db.getOptional<{ context_id: string | null }>(
+  async function getProjectContextId(conn: AsyncDatabase, projectId: string): Promise<string | null> {
+    const project = await conn.getOptional<{ context_id: string | null }>(
       'SELECT context_id FROM projects WHERE id = ? AND deleted_at IS NULL',
       [projectId]
     );
     return project?.context_id ?? null;
   }
 
-  return {
-    async create(input: CreateTaskInput): Promise<Task> {
-      const id = randomUUID();
-      const now = new Date().toISOString();
+  /**
+   * Insert a new task (with its checklist, tags and reminders) on `conn`, deriving status and
+   * inheriting the project's context. The caller owns the transaction.
+   */
+  async function createTask(conn: AsyncDatabase, input: CreateTaskInput): Promise<Task> {
+    const id = randomUUID();
+    const now = new Date().toISOString();
+
+    // Determine context_id: inherit from project if project_id is set
+    let contextId: string | null = null;
+    if (input.project_id) {
+      contextId = await getProjectContextId(conn, input.project_id);
+    } else {
+      contextId = input.context_id ?? null;
+    }
+
+    // Auto-sync: enforce when_date ↔ status invariant
+    let status: TaskStatus = input.status ?? 'inbox';
+    let whenDate: string | null = input.when_date ?? null;
+    // Recurring tasks created without any date start at their first occurrence
+    if (input.recurrence && !whenDate && !input.deadline) {
+      whenDate = firstOccurrence(parseRecurrenceRule(input.recurrence)!, getToday());
+    }
+    if (whenDate && !input.status) {
+      status = deriveStatusFromDate(whenDate);
+    }
+    // Clear when_date for statuses that don't use scheduling
+    if (status === 'inbox' || status === 'anytime' || status === 'someday') {
+      whenDate = null;
+    }
+
+    // New tasks go to the end of the list
+    const orderRow = await conn.getOptional<{ next_order: number }>(
+      'SELECT COALESCE(MAX(sort_order), -1) + 1 as next_order FROM tasks WHERE deleted_at IS NULL'
+    );
 
-      // Determine context_id: inherit from project if project_id is set
-      let contextId: string | null = null;
-      if (input.project_id) {
-        contextId = await getProjectContextId(input.project_id);
-      } else {
-        contextId = input.context_id ?? null;
-      }
+    const task: Task = {
+      id,
+      title: input.title,
+      notes: input.notes ?? null,
+      status,
+      when_date: whenDate,
+      deadline: input.deadline ?? null,
+      project_id: input.project_id ?? null,
+      heading_id: input.heading_id ?? null,
+      context_id: contextId,
+      priority: input.priority ?? null,
+      sort_order: orderRow?.next_order ?? 0,
+      created_at: now,
+      updated_at: now,
+      completed_at: null,
+      deleted_at: null,
+      stale_at: null,
+      assignee_id: input.assignee_id ?? null,
+      recurrence: input.recurrence ?? null,
+      estimate_minutes: input.estimate_minutes ?? null,
+    };
+
+    await insertTask(conn, task, input.source);
+
+    const checklist = (input.checklist ?? []).map((title) => title.trim()).filter(Boolean);
+    for (const [index, title] of checklist.entries()) {
+      await conn.execute(
+        'INSERT INTO task_checklists (id, task_id, title, is_done, sort_order, created_at, updated_at, deleted_at, source) VALUES (?, ?, ?, 0, ?, ?, ?, NULL, ?)',
+        [randomUUID(), id, title, index, now, now, input.source ?? 'user']
+      );
+    }
+
+    if (input.tags?.length) {
+      await tagEntityByName(conn, 'task', id, input.tags, now);
+    }
+
+    for (const remindAt of input.reminders ?? []) {
+      await conn.execute(`
+        INSERT INTO reminders (
+          id, task_id, meeting_id, remind_at, offset_minutes, snoozed_until,
+          fired_at, fired_by, created_at, updated_at, deleted_at
+        ) VALUES (?, ?, NULL, ?, NULL, NULL, NULL, NULL, ?, ?, NULL)
+      `, [randomUUID(), id, new Date(remindAt).toISOString(), now, now]);
+    }
+
+    return task;
+  }
 
-      // Auto-sync: enforce when_date ↔ status invariant
-      let status: TaskStatus = input.status ?? 'inbox';
-      let whenDate: string | null = input.when_date ?? null;
-      if (whenDate && !input.status) {
-        status = deriveStatusFromDate(whenDate);
-      }
-      // Clear when_date for statuses that don't use scheduling
-      if (status === 'inbox' || status === 'anytime' || status === 'someday') {
-        whenDate = null;
-      }
+  return {
+    async create(input: CreateTaskInput): Promise<Task> {
+      return createTask(db, input);
+    },
 
-      const task: Task = {
-        id,
-        title: input.title,
-        notes: input.notes ?? null,
-        status,
-        when_date: whenDate,
-        deadline: input.deadline ?? null,
-        project_id: input.project_id ?? null,
-        heading_id: input.heading_id ?? null,
-        context_id: contextId,
-        priority: input.priority ?? null,
-        sort_order: 0,
-        created_at: now,
-        updated_at: now,
-        completed_at: null,
-        deleted_at: null,
-        stale_at: null,
-        assignee_id: null,
-      };
-
-      await db.execute(`
-        INSERT INTO tasks (
-          id, title, notes, status, when_date, deadline,
-          project_id, heading_id, context_id, priority,
-          sort_order, created_at, updated_at, completed_at, deleted_at, stale_at
-        ) VALUES (
-          ?, ?, ?, ?, ?, ?,
-          ?, ?, ?, ?,
-          ?, ?, ?, ?, ?, ?
-        )
-      `, [
-        task.id, task.title, task.notes, task.status, task.when_date, task.deadline,
-        task.project_id, task.heading_id, task.context_id, task.priority,
-        task.sort_order, task.created_at, task.updated_at, task.completed_at, task.deleted_at, task.stale_at,
-      ]);
-
-      return task;
+    async createMany(inputs: CreateTaskInput[]): Promise<Task[]> {
+      return db.writeTransaction(async (tx) => {
+        const tasks: Task[] = [];
+        for (const input of inputs) {
+          tasks.push(await createTask(tx, input));
+        }
+        return tasks;
+      });
     },
 
     async get(id: string): Promise<Task | null> {
@@ -122,90 +454,89 @@ export function createTaskService(ctx: DbContext): TaskService {
     },
 
     async update(id: string, input: UpdateTaskInput): Promise<Task> {
-      // Check task exists
-      const existing = await this.get(id);
-      if (!existing) {
-        throw new Error('Task not found');
-      }
-
       const now = new Date().toISOString();
+      return db.writeTransaction((tx) => applyTaskUpdate(tx, id, input, now));
+    },
 
-      // Auto-sync when_date ↔ status
-      const statusExplicit = 'status' in input;
-      const whenDateExplicit = 'when_date' in input;
-
-      let derivedStatus: TaskStatus = statusExplicit ? input.status! : existing.status;
-      let derivedWhenDate: string | null = whenDateExplicit ? (input.when_date ?? null) : existing.when_date;
-
-      // Rule 1: when_date changed, status not explicit → derive status
-      if (whenDateExplicit && !statusExplicit && !isTerminalStatus(existing.status)) {
-        if (derivedWhenDate === null) {
-          if (existing.status !== 'inbox' && existing.status !== 'someday') {
-            derivedStatus = 'anytime';
+    async bulkUpdate(ids: string[], input: BulkUpdateTaskInput): Promise<Task[]> {
+      const { delete: trash, ...changes } = input;
+      const now = new Date().toISOString();
+      return db.writeTransaction(async (tx) => {
+        const tasks: Task[] = [];
+        for (const id of ids) {
+          if (trash) {
+            await trashTask(tx, id, now);
+          } else {
+            tasks.push(await applyTaskUpdate(tx, id, changes, now));
           }
-        } else {
-          derivedStatus = deriveStatusFromDate(derivedWhenDate);
         }
-      }
-
-      // Rule 1 extension: stale tasks with when_date change → re-derive
-      // (already handled above since stale is not terminal and not inbox/someday)
+        return tasks;
+      });
+    },
 
-      // Rule 2: status changed, when_date not explicit → derive when_date
-      if (statusExplicit && !whenDateExplicit) {
-        if (input.status === 'inbox' || input.status === 'anytime' || input.status === 'someday') {
-          derivedWhenDate = null;
+    async move(id: string, orderedIds: string[]): Promise<Task[]> {
+      const now = new Date().toISOString();
+      return db.writeTransaction(async (tx) => {
+        const existing = await tx.getOptional<{ id: string }>(
+          'SELECT id FROM tasks WHERE id = ? AND deleted_at IS NULL',
+          [id]
+        );
+        if (!existing) {
+          throw new Error('Task not found');
         }
-      }
-
-      // Rule 2 extension: setting status to stale → preserve when_date (like today/upcoming)
-
-      // Determine if completing or uncompleting (use derivedStatus)
-      const isCompleting = derivedStatus === 'logbook' && existing.status !== 'logbook';
-      const isUncompleting = derivedStatus !== 'logbook' && existing.status === 'logbook';
-      const completedAt = isCompleting ? now : isUncompleting ? null : existing.completed_at;
-
-      // Handle stale_at: clear when leaving stale, preserve when staying stale
-      const staleAt = derivedStatus === 'stale' ? existing.stale_at : null;
-
-      // Build update
-      const updated: Task = {
-        ...existing,
-        ...input,
-        status: derivedStatus,
-        when_date: derivedWhenDate,
-        updated_at: now,
-        completed_at: completedAt,
-        stale_at: staleAt,
-      };
-
-      await db.execute(`
-        UPDATE tasks SET
-          title = ?, notes = ?, status = ?, when_date = ?, deadline = ?,
-          project_id = ?, heading_id = ?, context_id = ?, priority = ?,
-          sort_order = ?, updated_at = ?, completed_at = ?, stale_at = ?, assignee_id = ?
-        WHERE id = ?
-      `, [
-        updated.title, updated.notes, updated.status, updated.when_date, updated.deadline,
-        updated.project_id, updated.heading_id, updated.context_id, updated.priority,
-        updated.sort_order, updated.updated_at, updated.completed_at, updated.stale_at, updated.assignee_id,
-        id,
-      ]);
-
-      return updated;
+        const changed = await moveRow(tx, 'tasks', id, orderedIds, now);
+        return tx.getAll<Task>(
+          `SELECT * FROM tasks WHERE id IN (${changed.map(() => '?').join(', ')}) AND deleted_at IS NULL`,
+          changed
+        );
+      });
     },
 
     async delete(id: string): Promise<void> {
       const now = new Date().toISOString();
-      await db.writeTransaction(async (tx) => {
-        await tx.execute(
-          'UPDATE tasks SET deleted_at = ?, updated_at = ? WHERE id = ?',
-          [now, now, id]
+      await db.writeTransaction((tx) => trashTask(tx, id, now));
+    },
+
+    async demote(id: string, targetTaskId: string): Promise<ChecklistItem> {
+      if (id === targetTaskId) {
+        throw new Error('A task cannot become its own checklist item');
+      }
+      const now = new Date().toISOString();
+      return db.writeTransaction(async (tx) => {
+        const task = await tx.getOptional<Task>('SELECT * FROM tasks WHERE id = ? AND deleted_at IS NULL', [id]);
+        const target = await tx.getOptional<Task>('SELECT * FROM tasks WHERE id = ? AND deleted_at IS NULL', [targetTaskId]);
+        if (!task || !target) {
+          throw new Error('Task not found');
+        }
+        // Checklists don't nest, so its own items would have nowhere to go
+        const items = await tx.getOptional<{ count: number }>(
+          'SELECT COUNT(*) AS count FROM task_checklists WHERE task_id = ? AND deleted_at IS NULL',
+          [id]
+        );
+        if (items && items.count > 0) {
+          throw new Error('A task with a checklist cannot become a checklist item');
+        }
+
+        const orderRow = await tx.getOptional<{ next_order: number }>(
+          'SELECT COALESCE(MAX(sort_order), -1) + 1 as next_order FROM task_checklists WHERE task_id = ? AND deleted_at IS NULL',
+          [targetTaskId]
         );
+        const item: ChecklistItem = {
+          id: randomUUID(),
+          task_id: targetTaskId,
+          title: task.title,
+          is_done: task.status === 'logbook',
+          sort_order: orderRow?.next_order ?? 0,
+          created_at: now,
+          updated_at: now,
+          deleted_at: null,
+        };
         await tx.execute(
-          'UPDATE task_checklists SET deleted_at = ?, updated_at = ? WHERE task_id = ? AND deleted_at IS NULL',
-          [now, now, id]
+          'INSERT INTO task_checklists (id, task_id, title, is_done, sort_order, created_at, updated_at, deleted_at) VALUES (?, ?, ?, ?, ?, ?, ?, NULL)',
+          [item.id, item.task_id, item.title, item.is_done ? 1 : 0, item.sort_order, now, now]
         );
+        await trashTask(tx, id, now);
+        return item;
       });
     },
 
@@ -251,32 +582,30 @@ export function createTaskService(ctx: DbContext): TaskService {
       );
     },
 
-    async markStaleTasks(thresholdDays: number): Promise<number> {
+    async markStaleTasks(thresholdDays: number, rules: StaleRules = {}): Promise<number> {
       const now = new Date().toISOString();
-      const today = getToday();
-      // Calculate the cutoff date using UTC to avoid timezone drift.
-      // when_date must be strictly before (today - thresholdDays) in UTC.
-      const cutoff = new Date(Date.UTC(
-        new Date().getUTCFullYear(),
-        new Date().getUTCMonth(),
-        new Date().getUTCDate() - thresholdDays,
-      ));
-      const cutoffDate = getUTCDateString(cutoff);
+      const filter = staleFilter(thresholdDays, rules);
 
+      // Use RETURNING clause — rowsAffected is unreliable with PowerSync's JSON table views
       const result = await db.execute(`
         UPDATE tasks SET
           status = 'stale',
           stale_at = COALESCE(stale_at, ?),
           updated_at = ?
-        WHERE when_date IS NOT NULL
-          AND when_date < ?
-          AND status IN ('today', 'upcoming')
-          AND (deadline IS NULL OR deadline >= ?)
-          AND deleted_at IS NULL
-          AND completed_at IS NULL
-      `, [now, now, cutoffDate, today]);
-
-      return result.rowsAffected;
+        WHERE ${filter.sql}
+        RETURNING id
+      `, [now, now, ...filter.params]);
+
+      return result.rows?.length ?? 0;
+    },
+
+    async countStaleTasks(thresholdDays: number, rules: StaleRules = {}): Promise<number> {
+      const filter = staleFilter(thresholdDays, rules);
+      const row = await db.getOptional<{ count: number }>(
+        `SELECT COUNT(*) AS count FROM tasks WHERE ${filter.sql}`,
+        filter.params
+      );
+      return row?.count ?? 0;
     },
   };
 }
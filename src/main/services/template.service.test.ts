@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { createTemplateService, TemplateService } from './template.service';
+import { createTaskService, TaskService } from './task.service';
+import { createProjectService } from './project.service';
+import { createProjectHeadingService } from './project-heading.service';
+import { createChecklistService } from './checklist.service';
+import { createContextService } from './context.service';
+import { createTestDb, TestDb } from '../../../tests/helpers/db';
+
+describe('TemplateService', () => {
+  let db: TestDb;
+  let service: TemplateService;
+  let taskService: TaskService;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date('2099-01-07T12:00:00Z'), toFake: ['Date'] });
+    db = createTestDb();
+    service = createTemplateService(db);
+    taskService = createTaskService(db);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('saves a project with its headings, open tasks, checklists and relative dates', async () => {
+    const work = await createContextService(db).create({ name: 'Work' });
+    const project = await createProjectService(db).create({ title: 'Release', context_id: work.id });
+    const heading = await createProjectHeadingService(db).create({ project_id: project.id, title: 'Launch' });
+    await taskService.create({ title: 'Freeze', project_id: project.id, when_date: '2099-01-09', checklist: ['Branch'] });
+    await taskService.create({ title: 'Announce', project_id: project.id, heading_id: heading.id, deadline: '2099-01-14' });
+    const done = await taskService.create({ title: 'Done already', project_id: project.id });
+    await taskService.update(done.id, { status: 'logbook' });
+
+    const template = await service.createFromProject(project.id, 'Release template');
+
+    expect(template.kind).toBe('project');
+    expect(template.body).toMatchObject({
+      title: 'Release',
+      context_id: work.id,
+      tasks: [{ title: 'Freeze', when_offset: 2, deadline_offset: null, checklist: ['Branch'] }],
+      headings: [{ title: 'Launch', tasks: [{ title: 'Announce', when_offset: null, deadline_offset: 7 }] }],
+    });
+    expect((await service.list()).map((t) => t.name)).toEqual(['Release template']);
+  });
+
+  it('creates a project from a template, dated from the start date', async () => {
+    const template = await service.create({
+      name: 'Release',
+      kind: 'project',
+      body: {
+        title: 'Release {{version}}',
+        description: null,
+        context_id: 'gone',
+        tasks: [
+          { title: 'Freeze {{version}}', notes: null, priority: 'P1', estimate_minutes: null, when_offset: 2, deadline_offset: null, checklist: ['Cut on {{date}}'] },
+          { title: 'Write notes', notes: null, priority: null, estimate_minutes: null, when_offset: null, deadline_offset: null, checklist: [] },
+        ],
+        headings: [{
+          title: 'Launch',
+          tasks: [{ title: 'Announce', notes: null, priority: null, estimate_minutes: null, when_offset: null, deadline_offset: 7, checklist: [] }],
+        }],
+      },
+    });
+
+    const applied = await service.apply(template.id, { start_date: '2099-02-01', values: { version: '2.0' } });
+
+    const project = await createProjectService(db).get(applied.project_id!);
+    expect(project).toMatchObject({ title: 'Release 2.0', context_id: null });
+    const [heading] = await createProjectHeadingService(db).listByProject(project!.id);
+    expect(heading.title).toBe('Launch');
+
+    const tasks = await Promise.all(applied.task_ids.map((id) => taskService.get(id)));
+    expect(tasks.map((t) => [t!.title, t!.when_date, t!.deadline, t!.status, t!.heading_id])).toEqual([
+      ['Freeze 2.0', '2099-02-03', null, 'upcoming', null],
+      ['Write notes', null, null, 'anytime', null],
+      ['Announce', null, '2099-02-08', 'anytime', heading.id],
+    ]);
+    const checklist = await createChecklistService(db).listByTask(applied.task_ids[0]);
+    expect(checklist.map((item) => item.title)).toEqual(['Cut on 2099-02-01']);
+  });
+
+  it('creates a task where it was asked for, unless the template dates it', async () => {
+    const project = await createProjectService(db).create({ title: 'Team' });
+    const undated = await service.create({
+      name: '1:1 prep',
+      kind: 'task',
+      body: { title: '1:1 prep with {{stakeholder}}', notes: 'Agenda for {{stakeholder}}', priority: null, estimate_minutes: 15, when_offset: null, deadline_offset: null, checklist: ['Review notes'] },
+    });
+
+    const applied = await service.apply(undated.id, { values: { stakeholder: 'Dana' }, project_id: project.id, status: 'someday' });
+
+    expect(applied.project_id).toBeNull();
+    expect(await taskService.get(applied.task_ids[0])).toMatchObject({
+      title: '1:1 prep with Dana',
+      notes: 'Agenda for Dana',
+      estimate_minutes: 15,
+      project_id: project.id,
+      status: 'someday',
+    });
+  });
+
+  it('saves a task as a template and rejects unknown ids', async () => {
+    const task = await taskService.create({ title: 'Onboard', notes: 'Welcome', when_date: '2099-01-08', checklist: ['Laptop', 'Accounts'] });
+
+    const template = await service.createFromTask(task.id, 'Onboarding');
+
+    expect(template.body).toMatchObject({ title: 'Onboard', notes: 'Welcome', when_offset: 1, checklist: ['Laptop', 'Accounts'] });
+    await service.delete(template.id);
+    expect(await service.list()).toEqual([]);
+    await expect(service.apply(template.id, {})).rejects.toThrow('Template not found');
+    await expect(service.createFromTask('missing', 'x')).rejects.toThrow('Task not found');
+  });
+});
@@ -0,0 +1,217 @@
+import { randomUUID } from 'crypto';
+import type {
+  Template, StoredTemplate, CreateTemplateInput, UpdateTemplateInput, ApplyTemplateInput, AppliedTemplate,
+  TemplateTask, ProjectTemplateBody, Task, CreateTaskInput,
+} from '@shared/types';
+import { DATE_PLACEHOLDER, fillPlaceholders } from '@shared/templates';
+import { addDaysToDate, daysBetween } from '@shared/recurrence';
+import type { DbContext } from '../db/types';
+import { createProjectService } from './project.service';
+import { createProjectHeadingService } from './project-heading.service';
+import { createTaskService } from './task.service';
+
+export interface TemplateService {
+  /** Every template, by name */
+  list(): Promise<Template[]>;
+  get(id: string): Promise<Template | null>;
+  create(input: CreateTemplateInput): Promise<Template>;
+  update(id: string, input: UpdateTemplateInput): Promise<Template>;
+  delete(id: string): Promise<void>;
+  /** Save a project's open tasks, headings and checklists as a project template */
+  createFromProject(projectId: string, name: string): Promise<Template>;
+  /** Save a task's notes and checklist as a task template */
+  createFromTask(taskId: string, name: string): Promise<Template>;
+  /** Create the project or task a template describes, in one transaction */
+  apply(id: string, input: ApplyTemplateInput): Promise<AppliedTemplate>;
+}
+
+function getToday(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+function parse(row: StoredTemplate): Template {
+  return { ...row, body: JSON.parse(row.body) } as Template;
+}
+
+export function createTemplateService(ctx: DbContext): TemplateService {
+  const { db } = ctx;
+
+  /** A task as a template keeps it, with its dates as days after `today` */
+  async function toTemplateTask(task: Task, today: string): Promise<TemplateTask> {
+    const checklist = await db.getAll<{ title: string }>(
+      'SELECT title FROM task_checklists WHERE task_id = ? AND deleted_at IS NULL ORDER BY sort_order, created_at',
+      [task.id]
+    );
+    return {
+      title: task.title,
+      notes: task.notes,
+      priority: task.priority,
+      estimate_minutes: task.estimate_minutes,
+      when_offset: task.when_date ? daysBetween(today, task.when_date) : null,
+      deadline_offset: task.deadline ? daysBetween(today, task.deadline) : null,
+      checklist: checklist.map((item) => item.title),
+    };
+  }
+
+  return {
+    async list(): Promise<Template[]> {
+      const rows = await db.getAll<StoredTemplate>(
+        'SELECT * FROM templates WHERE deleted_at IS NULL ORDER BY name COLLATE NOCASE, created_at'
+      );
+      return rows.map(parse);
+    },
+
+    async get(id: string): Promise<Template | null> {
+      const row = await db.getOptional<StoredTemplate>('SELECT * FROM templates WHERE id = ? AND deleted_at IS NULL', [id]);
+      return row ? parse(row) : null;
+    },
+
+    async create(input: CreateTemplateInput): Promise<Template> {
+      const now = new Date().toISOString();
+      const template = {
+        id: randomUUID(),
+        name: input.name.trim(),
+        kind: input.kind,
+        body: input.body,
+        created_at: now,
+        updated_at: now,
+        deleted_at: null,
+      } as Template;
+      await db.execute(
+        'INSERT INTO templates (id, name, kind, body, created_at, updated_at, deleted_at) VALUES (?, ?, ?, ?, ?, ?, NULL)',
+        [template.id, template.name, template.kind, JSON.stringify(template.body), now, now]
+      );
+      return template;
+    },
+
+    async update(id: string, input: UpdateTemplateInput): Promise<Template> {
+      const existing = await this.get(id);
+      if (!existing) {
+        throw new Error('Template not found');
+      }
+
+      const updated: Template = {
+        ...existing,
+        name: input.name?.trim() ?? existing.name,
+        updated_at: new Date().toISOString(),
+      };
+      await db.execute(
+        'UPDATE templates SET name = ?, updated_at = ? WHERE id = ?',
+        [updated.name, updated.updated_at, id]
+      );
+      return updated;
+    },
+
+    async delete(id: string): Promise<void> {
+      const now = new Date().toISOString();
+      await db.execute(
+        'UPDATE templates SET deleted_at = ?, updated_at = ? WHERE id = ? AND deleted_at IS NULL',
+        [now, now, id]
+      );
+    },
+
+    async createFromProject(projectId: string, name: string): Promise<Template> {
+      const project = await createProjectService(ctx).get(projectId);
+      if (!project) {
+        throw new Error('Project not found');
+      }
+      const today = getToday();
+      const headings = await createProjectHeadingService(ctx).listByProject(projectId);
+      const tasks = await db.getAll<Task>(
+        `SELECT * FROM tasks WHERE project_id = ? AND deleted_at IS NULL AND status NOT IN ('logbook', 'cancelled')
+         ORDER BY sort_order, created_at`,
+        [projectId]
+      );
+
+      const body: ProjectTemplateBody = {
+        title: project.title,
+        description: project.description,
+        context_id: project.context_id,
+        tasks: [],
+        headings: headings.map((h) => ({ title: h.title, tasks: [] })),
+      };
+      for (const task of tasks) {
+        const index = headings.findIndex((h) => h.id === task.heading_id);
+        (index === -1 ? body.tasks : body.headings[index].tasks).push(await toTemplateTask(task, today));
+      }
+      return this.create({ name, kind: 'project', body });
+    },
+
+    async createFromTask(taskId: string, name: string): Promise<Template> {
+      const task = await createTaskService(ctx).get(taskId);
+      if (!task) {
+        throw new Error('Task not found');
+      }
+      return this.create({ name, kind: 'task', body: await toTemplateTask(task, getToday()) });
+    },
+
+    async apply(id: string, input: ApplyTemplateInput): Promise<AppliedTemplate> {
+      const template = await this.get(id);
+      if (!template) {
+        throw new Error('Template not found');
+      }
+      const start = input.start_date ?? getToday();
+      const values = { ...input.values, [DATE_PLACEHOLDER]: start };
+      const fill = (text: string) => fillPlaceholders(text, values);
+      const dateAt = (offset: number | null) => (offset === null ? undefined : addDaysToDate(start, offset));
+
+      const taskInput = (task: TemplateTask): CreateTaskInput => ({
+        title: fill(task.title),
+        notes: task.notes ? fill(task.notes) : undefined,
+        priority: task.priority ?? undefined,
+        estimate_minutes: task.estimate_minutes ?? undefined,
+        when_date: dateAt(task.when_offset),
+        deadline: dateAt(task.deadline_offset),
+        checklist: task.checklist.map(fill),
+      });
+
+      return db.writeTransaction(async (tx) => {
+        const taskService = createTaskService({ db: tx });
+
+        if (template.kind === 'task') {
+          const base = taskInput(template.body);
+          const task = await taskService.create({
+            ...base,
+            project_id: input.project_id,
+            when_date: base.when_date ?? input.when_date,
+            status: base.when_date ? undefined : input.status,
+          });
+          return { project_id: null, task_ids: [task.id] };
+        }
+
+        const body = template.body;
+        // The context may have been deleted since the template was saved
+        const context = body.context_id
+          ? await tx.getOptional<{ id: string }>('SELECT id FROM contexts WHERE id = ? AND deleted_at IS NULL', [body.context_id])
+          : null;
+        const project = await createProjectService({ db: tx }).create({
+          title: fill(body.title),
+          description: body.description ? fill(body.description) : undefined,
+          context_id: context?.id,
+        });
+        const headingService = createProjectHeadingService({ db: tx });
+        const taskIds: string[] = [];
+        // Tasks without a date are ready to pick up, not waiting in the inbox
+        const createAll = async (tasks: TemplateTask[], headingId?: string) => {
+          for (const task of tasks) {
+            const base = taskInput(task);
+            const created = await taskService.create({
+              ...base,
+              project_id: project.id,
+              heading_id: headingId,
+              status: base.when_date ? undefined : 'anytime',
+            });
+            taskIds.push(created.id);
+          }
+        };
+
+        await createAll(body.tasks);
+        for (const heading of body.headings) {
+          const created = await headingService.create({ project_id: project.id, title: fill(heading.title) });
+          await createAll(heading.tasks, created.id);
+        }
+        return { project_id: project.id, task_ids: taskIds };
+      });
+    },
+  };
+}
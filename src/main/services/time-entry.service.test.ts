@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createTimeEntryService, TimeEntryService } from './time-entry.service';
+import { createTaskService, TaskService } from './task.service';
+import { createProjectService } from './project.service';
+import { createContextService } from './context.service';
+import { createStakeholderService } from './stakeholder.service';
+import { createProjectStakeholderService } from './project-stakeholder.service';
+import { createTestDb, TestDb } from '../../../tests/helpers/db';
+
+describe('TimeEntryService', () => {
+  let db: TestDb;
+  let service: TimeEntryService;
+  let taskService: TaskService;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date('2099-01-05T09:00:00Z'), toFake: ['Date'] });
+    db = createTestDb();
+    service = createTimeEntryService(db);
+    taskService = createTaskService(db);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('start and stop', () => {
+    it('runs one timer at a time', async () => {
+      const spec = await taskService.create({ title: 'Write spec' });
+      const review = await taskService.create({ title: 'Review PR' });
+
+      const first = await service.start(spec.id);
+      expect(await service.start(spec.id)).toEqual(first);
+      vi.setSystemTime(new Date('2099-01-05T09:30:00Z'));
+      const second = await service.start(review.id);
+
+      expect(await service.getRunning()).toMatchObject({ id: second.id, task_title: 'Review PR' });
+      expect(db.db.prepare('SELECT ended_at FROM time_entries WHERE id = ?').get(first.id)).toEqual({
+        ended_at: '2099-01-05T09:30:00.000Z',
+      });
+
+      vi.setSystemTime(new Date('2099-01-05T10:00:00Z'));
+      expect(await service.stop()).toMatchObject({ id: second.id, ended_at: '2099-01-05T10:00:00.000Z' });
+      expect(await service.getRunning()).toBeNull();
+      expect(await service.stop()).toBeNull();
+    });
+
+    it('rejects unknown tasks', async () => {
+      await expect(service.start(crypto.randomUUID())).rejects.toThrow('Task not found');
+    });
+  });
+
+  describe('discardIdle', () => {
+    it('ends the entry when the user went idle and can time the task again from now', async () => {
+      const task = await taskService.create({ title: 'Write spec' });
+      const entry = await service.start(task.id);
+      vi.setSystemTime(new Date('2099-01-05T11:00:00Z'));
+
+      const resumed = await service.discardIdle(entry.id, new Date('2099-01-05T09:40:00Z'), true);
+
+      expect(db.db.prepare('SELECT ended_at FROM time_entries WHERE id = ?').get(entry.id)).toEqual({
+        ended_at: '2099-01-05T09:40:00.000Z',
+      });
+      expect(resumed).toMatchObject({ task_id: task.id, started_at: '2099-01-05T11:00:00.000Z', ended_at: null });
+      expect((await service.getRunning())?.id).toBe(resumed!.id);
+    });
+
+    it('drops an entry that was idle from its start', async () => {
+      const task = await taskService.create({ title: 'Write spec' });
+      const entry = await service.start(task.id);
+
+      expect(await service.discardIdle(entry.id, new Date('2099-01-05T08:00:00Z'), false)).toBeNull();
+
+      expect(await service.getRunning()).toBeNull();
+      expect(await service.listDetailed({ from: '2099-01-05T00:00:00Z', to: '2099-01-06T00:00:00Z' })).toEqual([]);
+    });
+  });
+
+  describe('report', () => {
+    it('counts time by project, context and project stakeholders', async () => {
+      const work = await createContextService(db).create({ name: 'Work' });
+      const project = await createProjectService(db).create({ title: 'Acme site', context_id: work.id });
+      const acme = await createStakeholderService(db).create({ name: 'Acme' });
+      await createProjectStakeholderService(db).link(project.id, acme.id);
+      const build = await taskService.create({ title: 'Build', project_id: project.id });
+      const inbox = await taskService.create({ title: 'Email' });
+
+      await service.start(build.id);
+      vi.setSystemTime(new Date('2099-01-05T11:00:00Z'));
+      await service.start(inbox.id);
+      vi.setSystemTime(new Date('2099-01-05T11:30:00Z'));
+
+      const report = await service.report(
+        { from: '2099-01-05T00:00:00Z', to: '2099-01-12T00:00:00Z' },
+        new Date('2099-01-05T11:30:00Z'),
+      );
+
+      expect(report.total_seconds).toBe(2.5 * 3600);
+      expect(report.by_project).toEqual([
+        { id: project.id, name: 'Acme site', seconds: 7200 },
+        { id: null, name: 'No project', seconds: 1800 },
+      ]);
+      expect(report.by_context[0]).toEqual({ id: work.id, name: 'Work', seconds: 7200 });
+      expect(report.by_stakeholder[0]).toEqual({ id: acme.id, name: 'Acme', seconds: 7200 });
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { randomUUID } from 'crypto';
+import type { TimeEntry, RunningTimeEntry, TimeEntryDetail, TimeRange, TimeReport } from '@shared/types';
+import { summarizeTimeEntries } from '@shared/time-tracking';
+import type { DbContext } from '../db/types';
+
+export interface TimeEntryService {
+  /** The entry whose timer is running, if any */
+  getRunning(): Promise<RunningTimeEntry | null>;
+  /** Time a task, stopping whichever timer was running. A task that is already being timed keeps its entry */
+  start(taskId: string): Promise<TimeEntry>;
+  /** Stop the running timer; null if none was running */
+  stop(): Promise<TimeEntry | null>;
+  /**
+   * Drop the time after `idleSince` from an entry, and with `resume` time the
+   * task again from now. Returns the entry that is running afterwards, if any.
+   */
+  discardIdle(id: string, idleSince: Date, resume: boolean): Promise<TimeEntry | null>;
+  /** Entries overlapping `range`, with what the report groups them by */
+  listDetailed(range: TimeRange): Promise<TimeEntryDetail[]>;
+  report(range: TimeRange, now: Date): Promise<TimeReport>;
+}
+
+export function createTimeEntryService(ctx: DbContext): TimeEntryService {
+  const { db } = ctx;
+
+  return {
+    async getRunning(): Promise<RunningTimeEntry | null> {
+      // Two devices can each start a timer before they sync; the newest one wins
+      return db.getOptional<RunningTimeEntry>(`
+        SELECT e.*, t.title AS task_title FROM time_entries e
+        JOIN tasks t ON t.id = e.task_id
+        WHERE e.ended_at IS NULL AND e.deleted_at IS NULL
+        ORDER BY e.started_at DESC LIMIT 1
+      `);
+    },
+
+    async start(taskId: string): Promise<TimeEntry> {
+      return db.writeTransaction(async (tx) => {
+        const task = await tx.getOptional('SELECT id FROM tasks WHERE id = ? AND deleted_at IS NULL', [taskId]);
+        if (!task) throw new Error('Task not found');
+
+        const running = await tx.getOptional<TimeEntry>(
+          'SELECT * FROM time_entries WHERE ended_at IS NULL AND deleted_at IS NULL ORDER BY started_at DESC LIMIT 1'
+        );
+        if (running?.task_id === taskId) return running;
+
+        const now = new Date().toISOString();
+        await tx.execute(
+          'UPDATE time_entries SET ended_at = ?, updated_at = ? WHERE ended_at IS NULL AND deleted_at IS NULL',
+          [now, now]
+        );
+        const entry: TimeEntry = {
+          id: randomUUID(),
+          task_id: taskId,
+          started_at: now,
+          ended_at: null,
+          created_at: now,
+          updated_at: now,
+          deleted_at: null,
+        };
+        await tx.execute(
+          'INSERT INTO time_entries (id, task_id, started_at, ended_at, created_at, updated_at, deleted_at) VALUES (?, ?, ?, NULL, ?, ?, NULL)',
+          [entry.id, entry.task_id, entry.started_at, entry.created_at, entry.updated_at]
+        );
+        return entry;
+      });
+    },
+
+    async stop(): Promise<TimeEntry | null> {
+      const running = await db.getOptional<TimeEntry>(
+        'SELECT * FROM time_entries WHERE ended_at IS NULL AND deleted_at IS NULL ORDER BY started_at DESC LIMIT 1'
+      );
+      if (!running) return null;
+
+      const now = new Date().toISOString();
+      await db.execute(
+        'UPDATE time_entries SET ended_at = ?, updated_at = ? WHERE ended_at IS NULL AND deleted_at IS NULL',
+        [now, now]
+      );
+      return { ...running, ended_at: now, updated_at: now };
+    },
+
+    async discardIdle(id: string, idleSince: Date, resume: boolean): Promise<TimeEntry | null> {
+      return db.writeTransaction(async (tx) => {
+        const entry = await tx.getOptional<TimeEntry>('SELECT * FROM time_entries WHERE id = ? AND deleted_at IS NULL', [id]);
+        if (!entry) throw new Error('Time entry not found');
+
+        const now = new Date().toISOString();
+        const end = entry.ended_at && new Date(entry.ended_at) < idleSince ? new Date(entry.ended_at) : idleSince;
+        if (end <= new Date(entry.started_at)) {
+          // Idle from the start: nothing of it was work
+          await tx.execute('UPDATE time_entries SET deleted_at = ?, updated_at = ? WHERE id = ?', [now, now, id]);
+        } else {
+          await tx.execute('UPDATE time_entries SET ended_at = ?, updated_at = ? WHERE id = ?', [end.toISOString(), now, id]);
+        }
+
+        // Only a timer that was still running picks up again
+        if (!resume || entry.ended_at) return null;
+        const task = await tx.getOptional('SELECT id FROM tasks WHERE id = ? AND deleted_at IS NULL', [entry.task_id]);
+        if (!task) return null;
+        const resumed: TimeEntry = { ...entry, id: randomUUID(), started_at: now, ended_at: null, created_at: now, updated_at: now };
+        await tx.execute(
+          'INSERT INTO time_entries (id, task_id, started_at, ended_at, created_at, updated_at, deleted_at) VALUES (?, ?, ?, NULL, ?, ?, NULL)',
+          [resumed.id, resumed.task_id, resumed.started_at, resumed.created_at, resumed.updated_at]
+        );
+        return resumed;
+      });
+    },
+
+    async listDetailed(range: TimeRange): Promise<TimeEntryDetail[]> {
+      const from = new Date(range.from).toISOString();
+      const to = new Date(range.to).toISOString();
+      // Time spent stays on the report after its task, project or context is deleted
+      const rows = await db.getAll<Omit<TimeEntryDetail, 'stakeholders'>>(`
+        SELECT e.*, t.title AS task_title, p.id AS project_id, p.title AS project_title,
+          c.id AS context_id, c.name AS context_name
+        FROM time_entries e
+        JOIN tasks t ON t.id = e.task_id
+        LEFT JOIN projects p ON p.id = t.project_id
+        LEFT JOIN contexts c ON c.id = COALESCE(p.context_id, t.context_id)
+        WHERE e.deleted_at IS NULL AND e.started_at < ? AND (e.ended_at IS NULL OR e.ended_at > ?)
+        ORDER BY e.started_at
+      `, [to, from]);
+
+      const projectIds = [...new Set(rows.map((row) => row.project_id).filter((id): id is string => id !== null))];
+      const links = projectIds.length === 0 ? [] : await db.getAll<{ project_id: string; id: string; name: string }>(`
+        SELECT ps.project_id, s.id, s.name FROM project_stakeholders ps
+        JOIN stakeholders s ON s.id = ps.stakeholder_id AND s.deleted_at IS NULL
+        WHERE ps.project_id IN (${projectIds.map(() => '?').join(', ')})
+        ORDER BY s.name COLLATE NOCASE
+      `, projectIds);
+
+      return rows.map((row) => ({
+        ...row,
+        stakeholders: links.filter((link) => link.project_id === row.project_id).map(({ id, name }) => ({ id, name })),
+      }));
+    },
+
+    async report(range: TimeRange, now: Date): Promise<TimeReport> {
+      return summarizeTimeEntries(await this.listDetailed(range), range, now);
+    },
+  };
+}
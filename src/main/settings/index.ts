@@ -0,0 +1,14 @@
+import { safeStorage } from 'electron';
+import type { SecretCipher } from './settings-store.js';
+
+export { createSettingsStore, SETTINGS_FILE_NAME } from './settings-store.js';
+export type { SettingsStore, SettingsListener, SecretCipher } from './settings-store.js';
+
+/** safeStorage-backed cipher; only usable once the app is ready */
+export function createSafeStorageCipher(): SecretCipher {
+  return {
+    isAvailable: () => safeStorage.isEncryptionAvailable(),
+    encrypt: (plain) => safeStorage.encryptString(plain).toString('base64'),
+    decrypt: (encrypted) => safeStorage.decryptString(Buffer.from(encrypted, 'base64')),
+  };
+}
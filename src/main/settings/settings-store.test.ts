@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createSettingsStore, SETTINGS_FILE_NAME } from './settings-store';
+import type { SecretCipher } from './settings-store';
+import { DEFAULT_SETTINGS } from '@shared/settings-types';
+
+// Reversible stand-in for safeStorage
+const cipher: SecretCipher = {
+  isAvailable: () => true,
+  encrypt: (plain) => Buffer.from(`enc:${plain}`).toString('base64'),
+  decrypt: (encrypted) => {
+    const text = Buffer.from(encrypted, 'base64').toString();
+    if (!text.startsWith('enc:')) throw new Error('bad ciphertext');
+    return text.slice(4);
+  },
+};
+
+describe('SettingsStore', () => {
+  let dir: string;
+  const filePath = () => path.join(dir, SETTINGS_FILE_NAME);
+  const readFile = () => JSON.parse(fs.readFileSync(filePath(), 'utf-8'));
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cortex-settings-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('starts with defaults when no file exists', () => {
+    expect(createSettingsStore(dir, cipher).get()).toEqual(DEFAULT_SETTINGS);
+    expect(fs.existsSync(filePath())).toBe(false);
+  });
+
+  it('persists updates and encrypts secrets', () => {
+    const store = createSettingsStore(dir, cipher);
+
+    store.update({ weatherCity: 'Berlin', openaiApiKey: 'sk-secret' });
+
+    const file = readFile();
+    expect(file.settings.weatherCity).toBe('Berlin');
+    expect(file.settings.openaiApiKey).toBeUndefined();
+    expect(JSON.stringify(file)).not.toContain('sk-secret');
+    expect(createSettingsStore(dir, cipher).get()).toMatchObject({ weatherCity: 'Berlin', openaiApiKey: 'sk-secret' });
+  });
+
+  it('keeps valid values and falls back to defaults for invalid ones', () => {
+    fs.writeFileSync(filePath(), JSON.stringify({
+      version: 1,
+      settings: { weatherCity: 'Paris', whisperModel: 'huge', staleAfterDays: -1 },
+      secrets: { openaiApiKey: 'not-decryptable' },
+    }));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const settings = createSettingsStore(dir, cipher).get();
+
+    expect(settings.weatherCity).toBe('Paris');
+    expect(settings.whisperModel).toBe(DEFAULT_SETTINGS.whisperModel);
+    expect(settings.staleAfterDays).toBe(DEFAULT_SETTINGS.staleAfterDays);
+    expect(settings.openaiApiKey).toBe('');
+  });
+
+  it('does not write secrets when encryption is unavailable', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const store = createSettingsStore(dir, { ...cipher, isAvailable: () => false });
+
+    store.update({ openaiApiKey: 'sk-secret', userFirstName: 'Ada' });
+
+    expect(store.get().openaiApiKey).toBe('sk-secret');
+    expect(readFile().secrets).toEqual({});
+    expect(readFile().settings.userFirstName).toBe('Ada');
+  });
+
+  it('notifies listeners with the changed keys only when something changed', () => {
+    const store = createSettingsStore(dir, cipher);
+    const listener = vi.fn();
+    const unsubscribe = store.onChange(listener);
+
+    store.update({ staleAfterDays: 3, weatherCity: '' });
+    store.update({ staleAfterDays: 3 });
+    unsubscribe();
+    store.update({ staleAfterDays: 4 });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ staleAfterDays: 3 }), ['staleAfterDays']);
+  });
+
+  it('compares list and map settings by value', () => {
+    const store = createSettingsStore(dir, cipher);
+    const listener = vi.fn();
+    store.onChange(listener);
+
+    store.update({ staleExemptPriorities: ['P1'], staleContextDays: {} });
+    store.update({ staleExemptPriorities: ['P1'], staleContextDays: {} });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(expect.anything(), ['staleExemptPriorities']);
+  });
+
+  describe('migrate', () => {
+    it('adopts valid legacy values on first run', () => {
+      const store = createSettingsStore(dir, cipher);
+
+      const settings = store.migrate({ userFirstName: 'Ada', openaiApiKey: 'sk-old', whisperModel: 'nope', tabs: [] });
+
+      expect(settings).toMatchObject({ userFirstName: 'Ada', openaiApiKey: 'sk-old', whisperModel: 'base' });
+      expect(fs.existsSync(filePath())).toBe(true);
+    });
+
+    it('writes the file even when legacy values match the defaults', () => {
+      createSettingsStore(dir, cipher).migrate({ whisperModel: 'base' });
+
+      expect(readFile().settings.whisperModel).toBe('base');
+    });
+
+    it('is ignored once a settings file exists', () => {
+      createSettingsStore(dir, cipher).update({ userFirstName: 'Grace' });
+
+      const settings = createSettingsStore(dir, cipher).migrate({ userFirstName: 'Ada' });
+
+      expect(settings.userFirstName).toBe('Grace');
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DEFAULT_SETTINGS, SECRET_SETTING_KEYS } from '@shared/settings-types';
+import type { AppSettings, AppSettingsPatch } from '@shared/settings-types';
+import { AppSettingsSchema } from '@shared/validation';
+
+export const SETTINGS_FILE_NAME = 'settings.json';
+const FILE_VERSION = 1;
+
+/** Encrypts secret values; backed by Electron safeStorage in the app */
+export interface SecretCipher {
+  isAvailable(): boolean;
+  /** Returns base64 ciphertext */
+  encrypt(plain: string): string;
+  decrypt(encrypted: string): string;
+}
+
+export type SettingsListener = (settings: AppSettings, changed: (keyof AppSettings)[]) => void;
+
+export interface SettingsStore {
+  get(): AppSettings;
+  /** Apply an already validated patch; writes and notifies only if something changed */
+  update(patch: AppSettingsPatch): AppSettings;
+  /**
+   * Adopt values from the renderer's old localStorage store. Only applies
+   * while no settings file has been written yet, so it is safe to call on
+   * every start.
+   */
+  migrate(legacy: Record<string, unknown>): AppSettings;
+  onChange(listener: SettingsListener): () => void;
+}
+
+interface SettingsFile {
+  version: number;
+  settings: Record<string, unknown>;
+  /** Base64 ciphertext per secret key */
+  secrets: Record<string, string>;
+}
+
+const SETTING_KEYS = Object.keys(DEFAULT_SETTINGS) as (keyof AppSettings)[];
+
+/** Keep only the keys that pass validation, so one bad value doesn't reset the rest */
+function pickValid(source: Record<string, unknown>): AppSettingsPatch {
+  const result: Record<string, unknown> = {};
+  for (const key of SETTING_KEYS) {
+    if (!(key in source)) continue;
+    const parsed = AppSettingsSchema.shape[key].safeParse(source[key]);
+    if (parsed.success) result[key] = parsed.data;
+  }
+  return result as AppSettingsPatch;
+}
+
+// Lists and maps arrive as fresh objects on every update
+function isSameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+export function createSettingsStore(dir: string, cipher: SecretCipher): SettingsStore {
+  const filePath = path.join(dir, SETTINGS_FILE_NAME);
+  const listeners = new Set<SettingsListener>();
+  let fileExists = false;
+  let current: AppSettings = load();
+
+  function load(): AppSettings {
+    let file: Partial<SettingsFile>;
+    try {
+      file = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      fileExists = true;
+    } catch {
+      return { ...DEFAULT_SETTINGS };
+    }
+
+    const secrets: Record<string, unknown> = {};
+    for (const [key, encrypted] of Object.entries(file.secrets ?? {})) {
+      try {
+        secrets[key] = cipher.decrypt(encrypted);
+      } catch {
+        console.error(`[SettingsStore] Could not decrypt ${key}; it has to be entered again`);
+      }
+    }
+
+    const plain = { ...(file.settings ?? {}) };
+    for (const key of SECRET_SETTING_KEYS) delete plain[key];
+
+    return { ...DEFAULT_SETTINGS, ...pickValid({ ...plain, ...secrets }) };
+  }
+
+  function save(): void {
+    const file: SettingsFile = { version: FILE_VERSION, settings: {}, secrets: {} };
+    for (const key of SETTING_KEYS) {
+      if (!SECRET_SETTING_KEYS.includes(key)) {
+        file.settings[key] = current[key];
+      } else if (current[key] !== '') {
+        // Without an OS keychain the secret lives for this session only
+        if (cipher.isAvailable()) {
+          file.secrets[key] = cipher.encrypt(String(current[key]));
+        } else {
+          console.error(`[SettingsStore] Encryption unavailable; ${key} is not persisted`);
+        }
+      }
+    }
+
+    try {
+      const tmpPath = `${filePath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(file, null, 2), 'utf-8');
+      fs.renameSync(tmpPath, filePath);
+      fileExists = true;
+    } catch (err) {
+      console.error('[SettingsStore] Failed to persist settings:', err);
+    }
+  }
+
+  const store: SettingsStore = {
+    get() {
+      return { ...current };
+    },
+
+    update(patch) {
+      const changed = SETTING_KEYS.filter((key) => key in patch && !isSameValue(patch[key], current[key]));
+      if (changed.length === 0) return { ...current };
+
+      current = { ...current, ...patch };
+      save();
+      const snapshot = { ...current };
+      for (const listener of listeners) {
+        try {
+          listener(snapshot, changed);
+        } catch (err) {
+          console.error('[SettingsStore] listener failed:', err);
+        }
+      }
+      return snapshot;
+    },
+
+    migrate(legacy) {
+      if (fileExists) return { ...current };
+      const result = store.update(pickValid(legacy));
+      // Persist even when every legacy value matched a default
+      if (!fileExists) save();
+      return result;
+    },
+
+    onChange(listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+
+  return store;
+}
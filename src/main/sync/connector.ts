@@ -50,6 +50,12 @@ export class SupabaseConnector implements PowerSyncBackendConnector {
     };
   }
 
+  /** The signed-in user's id, or null when signed out */
+  async getUserId(): Promise<string | null> {
+    const { data: { session } } = await this.supabase.auth.getSession();
+    return session?.user?.id ?? null;
+  }
+
   async uploadData(database: AbstractPowerSyncDatabase): Promise<void> {
     const batch = await database.getCrudBatch(100);
     if (!batch) return;
@@ -3,9 +3,9 @@ import { AppSchema } from './schema';
 import { Column, ColumnType } from '@powersync/common';
 
 describe('AppSchema', () => {
-  it('has exactly 13 tables', () => {
+  it('has exactly 21 tables', () => {
     const tableNames = Object.keys(AppSchema.props);
-    expect(tableNames).toHaveLength(13);
+    expect(tableNames).toHaveLength(21);
   });
 
   it('includes all expected table names', () => {
@@ -15,6 +15,14 @@ describe('AppSchema', () => {
     expect(tableNames).toContain('contexts');
     expect(tableNames).toContain('project_headings');
     expect(tableNames).toContain('task_checklists');
+    expect(tableNames).toContain('task_dependencies');
+    expect(tableNames).toContain('reminders');
+    expect(tableNames).toContain('tags');
+    expect(tableNames).toContain('entity_tags');
+    expect(tableNames).toContain('smart_lists');
+    expect(tableNames).toContain('templates');
+    expect(tableNames).toContain('time_entries');
+    expect(tableNames).toContain('entity_changes');
     expect(tableNames).toContain('stakeholders');
     expect(tableNames).toContain('meetings');
     expect(tableNames).toContain('meeting_attendees');
@@ -28,46 +36,52 @@ describe('AppSchema', () => {
   describe('tasks table', () => {
     it('has the correct number of columns', () => {
       const cols: Column[] = AppSchema.props.tasks.columns;
-      expect(cols).toHaveLength(21);
+      expect(cols).toHaveLength(23);
     });
 
-    it('has TEXT columns for title, notes, status, when_date, deadline, project_id, heading_id, context_id, priority, created_at, updated_at, completed_at, deleted_at, permanently_deleted_at, stale_at', () => {
+    it('has TEXT columns for title, notes, status, when_date, deadline, project_id, heading_id, context_id, priority, created_at, updated_at, completed_at, deleted_at, permanently_deleted_at, stale_at, recurrence', () => {
       const cols: Column[] = AppSchema.props.tasks.columns;
       const colMap = Object.fromEntries(cols.map(c => [c.name, c]));
-      const textCols = ['title', 'notes', 'status', 'when_date', 'deadline', 'project_id', 'heading_id', 'context_id', 'priority', 'created_at', 'updated_at', 'completed_at', 'deleted_at', 'permanently_deleted_at', 'stale_at'];
+      const textCols = ['title', 'notes', 'status', 'when_date', 'deadline', 'project_id', 'heading_id', 'context_id', 'priority', 'created_at', 'updated_at', 'completed_at', 'deleted_at', 'permanently_deleted_at', 'stale_at', 'recurrence'];
       for (const name of textCols) {
         expect(colMap[name], `${name} should be TEXT`).toBeDefined();
         expect(colMap[name].type).toBe(ColumnType.TEXT);
       }
     });
 
-    it('has INTEGER column for sort_order', () => {
+    it('has REAL column for sort_order', () => {
       const cols: Column[] = AppSchema.props.tasks.columns;
       const colMap = Object.fromEntries(cols.map(c => [c.name, c]));
-      expect(colMap['sort_order'].type).toBe(ColumnType.INTEGER);
+      expect(colMap['sort_order'].type).toBe(ColumnType.REAL);
+    });
+
+    it('has INTEGER column for estimate_minutes', () => {
+      const cols: Column[] = AppSchema.props.tasks.columns;
+      const colMap = Object.fromEntries(cols.map(c => [c.name, c]));
+      expect(colMap['estimate_minutes'].type).toBe(ColumnType.INTEGER);
     });
   });
 
   describe('projects table', () => {
     it('has the correct number of columns', () => {
       const cols: Column[] = AppSchema.props.projects.columns;
-      expect(cols).toHaveLength(15);
+      expect(cols).toHaveLength(16);
     });
 
-    it('has TEXT columns for title, description, status, context_id, created_at, updated_at, completed_at, deleted_at', () => {
+    it('has TEXT columns for title, description, status, context_id, created_at, updated_at, completed_at, deleted_at, permanently_deleted_at', () => {
       const cols: Column[] = AppSchema.props.projects.columns;
       const colMap = Object.fromEntries(cols.map(c => [c.name, c]));
-      const textCols = ['title', 'description', 'status', 'context_id', 'created_at', 'updated_at', 'completed_at', 'deleted_at'];
+      const textCols = ['title', 'description', 'status', 'context_id', 'created_at', 'updated_at', 'completed_at', 'deleted_at', 'permanently_deleted_at'];
       for (const name of textCols) {
         expect(colMap[name], `${name} should be TEXT`).toBeDefined();
         expect(colMap[name].type).toBe(ColumnType.TEXT);
       }
     });
 
-    it('has INTEGER column for sort_order', () => {
+    it('has REAL column for sort_order', () => {
       const cols: Column[] = AppSchema.props.projects.columns;
       const colMap = Object.fromEntries(cols.map(c => [c.name, c]));
-      expect(colMap['sort_order'].type).toBe(ColumnType.INTEGER);
+      expect(colMap['sort_order'].type).toBe(ColumnType.REAL);
     });
   });
 
@@ -97,13 +111,13 @@ describe('AppSchema', () => {
   describe('project_headings table', () => {
     it('has the correct number of columns', () => {
       const cols: Column[] = AppSchema.props.project_headings.columns;
-      expect(cols).toHaveLength(10);
+      expect(cols).toHaveLength(11);
     });
 
-    it('has TEXT columns for project_id, title, created_at, updated_at, deleted_at', () => {
+    it('has TEXT columns for project_id, title, created_at, updated_at, archived_at, deleted_at', () => {
       const cols: Column[] = AppSchema.props.project_headings.columns;
       const colMap = Object.fromEntries(cols.map(c => [c.name, c]));
-      const textCols = ['project_id', 'title', 'created_at', 'updated_at', 'deleted_at'];
+      const textCols = ['project_id', 'title', 'created_at', 'updated_at', 'archived_at', 'deleted_at'];
       for (const name of textCols) {
         expect(colMap[name], `${name} should be TEXT`).toBeDefined();
         expect(colMap[name].type).toBe(ColumnType.TEXT);
@@ -133,24 +147,24 @@ describe('AppSchema', () => {
       }
     });
 
-    it('has INTEGER columns for is_done and sort_order', () => {
+    it('has an INTEGER is_done and a REAL sort_order', () => {
       const cols: Column[] = AppSchema.props.task_checklists.columns;
       const colMap = Object.fromEntries(cols.map(c => [c.name, c]));
       expect(colMap['is_done'].type).toBe(ColumnType.INTEGER);
-      expect(colMap['sort_order'].type).toBe(ColumnType.INTEGER);
+      expect(colMap['sort_order'].type).toBe(ColumnType.REAL);
     });
   });
 
   describe('stakeholders table', () => {
     it('has the correct number of columns', () => {
       const cols: Column[] = AppSchema.props.stakeholders.columns;
-      expect(cols).toHaveLength(14);
+      expect(cols).toHaveLength(15);
     });
 
-    it('has TEXT columns for name, organization, role, email, phone, notes, avatar_url, created_at, updated_at, deleted_at', () => {
+    it('has TEXT columns for name, organization, role, email, phone, notes, avatar_url, created_at, updated_at, deleted_at, permanently_deleted_at', () => {
       const cols: Column[] = AppSchema.props.stakeholders.columns;
       const colMap = Object.fromEntries(cols.map(c => [c.name, c]));
-      const textCols = ['name', 'organization', 'role', 'email', 'phone', 'notes', 'avatar_url', 'created_at', 'updated_at', 'deleted_at'];
+      const textCols = ['name', 'organization', 'role', 'email', 'phone', 'notes', 'avatar_url', 'created_at', 'updated_at', 'deleted_at', 'permanently_deleted_at'];
       for (const name of textCols) {
         expect(colMap[name], `${name} should be TEXT`).toBeDefined();
         expect(colMap[name].type).toBe(ColumnType.TEXT);
@@ -161,13 +175,13 @@ describe('AppSchema', () => {
   describe('meetings table', () => {
     it('has the correct number of columns', () => {
       const cols: Column[] = AppSchema.props.meetings.columns;
-      expect(cols).toHaveLength(23);
+      expect(cols).toHaveLength(24);
     });
 
-    it('has TEXT columns for title, description, start_time, end_time, context_id, project_id, notes, created_at, updated_at, deleted_at, audio_path', () => {
+    it('has TEXT columns for title, description, start_time, end_time, context_id, project_id, notes, created_at, updated_at, deleted_at, permanently_deleted_at, audio_path', () => {
       const cols: Column[] = AppSchema.props.meetings.columns;
       const colMap = Object.fromEntries(cols.map(c => [c.name, c]));
-      const textCols = ['title', 'description', 'start_time', 'end_time', 'context_id', 'project_id', 'notes', 'created_at', 'updated_at', 'deleted_at', 'audio_path'];
+      const textCols = ['title', 'description', 'start_time', 'end_time', 'context_id', 'project_id', 'notes', 'created_at', 'updated_at', 'deleted_at', 'permanently_deleted_at', 'audio_path'];
       for (const name of textCols) {
         expect(colMap[name], `${name} should be TEXT`).toBeDefined();
         expect(colMap[name].type).toBe(ColumnType.TEXT);
@@ -204,13 +218,13 @@ describe('AppSchema', () => {
   describe('notes table', () => {
     it('has the correct number of columns', () => {
       const cols: Column[] = AppSchema.props.notes.columns;
-      expect(cols).toHaveLength(12);
+      expect(cols).toHaveLength(13);
     });
 
-    it('has TEXT columns for title, content, context_id, project_id, created_at, updated_at, deleted_at', () => {
+    it('has TEXT columns for title, content, context_id, project_id, created_at, updated_at, deleted_at, permanently_deleted_at', () => {
       const cols: Column[] = AppSchema.props.notes.columns;
       const colMap = Object.fromEntries(cols.map(c => [c.name, c]));
-      const textCols = ['title', 'content', 'context_id', 'project_id', 'created_at', 'updated_at', 'deleted_at'];
+      const textCols = ['title', 'content', 'context_id', 'project_id', 'created_at', 'updated_at', 'deleted_at', 'permanently_deleted_at'];
       for (const name of textCols) {
         expect(colMap[name], `${name} should be TEXT`).toBeDefined();
         expect(colMap[name].type).toBe(ColumnType.TEXT);
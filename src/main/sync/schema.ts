@@ -10,7 +10,7 @@ const tasks = new Table({
   heading_id: column.text,
   context_id: column.text,
   priority: column.text,
-  sort_order: column.integer,
+  sort_order: column.real,
   created_at: column.text,
   updated_at: column.text,
   completed_at: column.text,
@@ -18,6 +18,8 @@ const tasks = new Table({
   permanently_deleted_at: column.text,
   stale_at: column.text,
   assignee_id: column.text,
+  recurrence: column.text,
+  estimate_minutes: column.integer,
   source: column.text,
   agent_id: column.text,
   updated_by_source: column.text,
@@ -29,11 +31,12 @@ const projects = new Table({
   description: column.text,
   status: column.text,
   context_id: column.text,
-  sort_order: column.integer,
+  sort_order: column.real,
   created_at: column.text,
   updated_at: column.text,
   completed_at: column.text,
   deleted_at: column.text,
+  permanently_deleted_at: column.text,
   owner_type: column.text,
   owner_stakeholder_id: column.text,
   source: column.text,
@@ -62,6 +65,7 @@ const project_headings = new Table({
   sort_order: column.integer,
   created_at: column.text,
   updated_at: column.text,
+  archived_at: column.text,
   deleted_at: column.text,
   source: column.text,
   agent_id: column.text,
@@ -73,7 +77,7 @@ const task_checklists = new Table({
   task_id: column.text,
   title: column.text,
   is_done: column.integer,
-  sort_order: column.integer,
+  sort_order: column.real,
   created_at: column.text,
   updated_at: column.text,
   deleted_at: column.text,
@@ -83,6 +87,92 @@ const task_checklists = new Table({
   updated_by_agent_id: column.text,
 });
 
+const task_dependencies = new Table({
+  task_id: column.text,
+  blocked_by_task_id: column.text,
+  created_at: column.text,
+  deleted_at: column.text,
+  source: column.text,
+  agent_id: column.text,
+});
+
+const reminders = new Table({
+  task_id: column.text,
+  meeting_id: column.text,
+  remind_at: column.text,
+  offset_minutes: column.integer,
+  snoozed_until: column.text,
+  fired_at: column.text,
+  fired_by: column.text,
+  created_at: column.text,
+  updated_at: column.text,
+  deleted_at: column.text,
+  source: column.text,
+  agent_id: column.text,
+});
+
+const tags = new Table({
+  name: column.text,
+  color: column.text,
+  created_at: column.text,
+  updated_at: column.text,
+  deleted_at: column.text,
+  source: column.text,
+  agent_id: column.text,
+});
+
+const entity_tags = new Table({
+  tag_id: column.text,
+  entity_type: column.text,
+  entity_id: column.text,
+  created_at: column.text,
+  deleted_at: column.text,
+  source: column.text,
+  agent_id: column.text,
+});
+
+const smart_lists = new Table({
+  name: column.text,
+  query: column.text,
+  created_at: column.text,
+  updated_at: column.text,
+  deleted_at: column.text,
+  source: column.text,
+  agent_id: column.text,
+});
+
+const templates = new Table({
+  name: column.text,
+  kind: column.text,
+  body: column.text,
+  created_at: column.text,
+  updated_at: column.text,
+  deleted_at: column.text,
+  source: column.text,
+  agent_id: column.text,
+});
+
+const time_entries = new Table({
+  task_id: column.text,
+  started_at: column.text,
+  ended_at: column.text,
+  created_at: column.text,
+  updated_at: column.text,
+  deleted_at: column.text,
+  source: column.text,
+  agent_id: column.text,
+}, { indexes: { task: ['task_id'] } });
+
+const entity_changes = new Table({
+  entity_type: column.text,
+  entity_id: column.text,
+  action: column.text,
+  changes: column.text,
+  created_at: column.text,
+  source: column.text,
+  agent_id: column.text,
+}, { indexes: { entity: ['entity_id', 'created_at'] } });
+
 const stakeholders = new Table({
   name: column.text,
   organization: column.text,
@@ -94,6 +184,7 @@ const stakeholders = new Table({
   created_at: column.text,
   updated_at: column.text,
   deleted_at: column.text,
+  permanently_deleted_at: column.text,
   source: column.text,
   agent_id: column.text,
   updated_by_source: column.text,
@@ -120,6 +211,7 @@ const meetings = new Table({
   created_at: column.text,
   updated_at: column.text,
   deleted_at: column.text,
+  permanently_deleted_at: column.text,
   source: column.text,
   agent_id: column.text,
   updated_by_source: column.text,
@@ -142,6 +234,7 @@ const notes = new Table({
   created_at: column.text,
   updated_at: column.text,
   deleted_at: column.text,
+  permanently_deleted_at: column.text,
   source: column.text,
   agent_id: column.text,
   updated_by_source: column.text,
@@ -189,6 +282,14 @@ export const AppSchema = new Schema({
   contexts,
   project_headings,
   task_checklists,
+  task_dependencies,
+  reminders,
+  tags,
+  entity_tags,
+  smart_lists,
+  templates,
+  time_entries,
+  entity_changes,
   stakeholders,
   meetings,
   meeting_attendees,
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { IdleTimeWarning } from '@shared/types';
+import { createIdleMonitor, type IdleMonitor } from './idle-monitor';
+import { createTimeEntryService, type TimeEntryService } from '../services/time-entry.service';
+import { createTaskService } from '../services/task.service';
+import { createTestDb } from '../../../tests/helpers/db';
+
+describe('IdleMonitor', () => {
+  let timeEntryService: TimeEntryService;
+  let idleSeconds: number;
+  let warnings: IdleTimeWarning[];
+  let monitor: IdleMonitor;
+  let taskId: string;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'Date'] });
+    vi.setSystemTime(new Date('2099-03-01T09:00:00.000Z'));
+    const db = createTestDb();
+    timeEntryService = createTimeEntryService(db);
+    taskId = (await createTaskService(db).create({ title: 'Write spec' })).id;
+    idleSeconds = 0;
+    warnings = [];
+    monitor = createIdleMonitor({
+      timeEntryService,
+      getIdleSeconds: () => idleSeconds,
+      warn: (warning) => warnings.push(warning),
+    });
+  });
+
+  afterEach(() => {
+    monitor.stop();
+    vi.useRealTimers();
+  });
+
+  it('warns once the user is back from being away during a running timer', async () => {
+    const entry = await timeEntryService.start(taskId);
+    monitor.start();
+
+    vi.setSystemTime(new Date('2099-03-01T09:30:00.000Z'));
+    idleSeconds = 20 * 60;
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(warnings).toEqual([]);
+
+    idleSeconds = 5;
+    await vi.advanceTimersByTimeAsync(30_000);
+
+    expect(warnings).toEqual([{
+      entry_id: entry.id,
+      task_id: taskId,
+      task_title: 'Write spec',
+      idle_since: '2099-03-01T09:10:30.000Z',
+      idle_until: '2099-03-01T09:30:55.000Z',
+    }]);
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(warnings).toHaveLength(1);
+  });
+
+  it('ignores short breaks and idle time without a timer', async () => {
+    idleSeconds = 60 * 60;
+    await monitor.check();
+    idleSeconds = 0;
+    await monitor.check();
+
+    await timeEntryService.start(taskId);
+    idleSeconds = 5 * 60;
+    await monitor.check();
+    idleSeconds = 0;
+    await monitor.check();
+
+    expect(warnings).toEqual([]);
+  });
+
+  it('counts time asleep as time away', async () => {
+    await timeEntryService.start(taskId);
+    vi.setSystemTime(new Date('2099-03-01T09:05:00.000Z'));
+    monitor.suspend();
+    vi.setSystemTime(new Date('2099-03-01T13:00:00.000Z'));
+
+    await monitor.resume();
+
+    expect(warnings).toMatchObject([{ idle_since: '2099-03-01T09:05:00.000Z', idle_until: '2099-03-01T13:00:00.000Z' }]);
+  });
+});
@@ -0,0 +1,104 @@
+import type { IdleTimeWarning } from '@shared/types';
+import { IDLE_THRESHOLD_MINUTES } from '@shared/time-tracking';
+import type { TimeEntryService } from '../services/time-entry.service';
+
+export interface IdleMonitorOptions {
+  timeEntryService: Pick<TimeEntryService, 'getRunning'>;
+  /** Seconds since the last keyboard or mouse input; Electron's powerMonitor in the app */
+  getIdleSeconds: () => number;
+  /** Called once the user is back, with how long they were away */
+  warn: (warning: IdleTimeWarning) => void;
+  thresholdMinutes?: number;
+  now?: () => Date;
+}
+
+export interface IdleMonitor {
+  start(): void;
+  stop(): void;
+  /** Note whether the user is away, and warn when they return to a running timer */
+  check(): Promise<void>;
+  /** The system is going to sleep */
+  suspend(): void;
+  /** Back from sleep, which counts as time away */
+  resume(): Promise<void>;
+}
+
+/** Idle time is only known by asking, so ask this often */
+const POLL_MS = 30_000;
+
+export function createIdleMonitor(options: IdleMonitorOptions): IdleMonitor {
+  const { timeEntryService, getIdleSeconds, warn } = options;
+  const thresholdMs = (options.thresholdMinutes ?? IDLE_THRESHOLD_MINUTES) * 60_000;
+  const now = options.now ?? (() => new Date());
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let suspendedAt: Date | null = null;
+  /** The running entry the user walked away from, and since when */
+  let away: { entryId: string; since: Date } | null = null;
+
+  function markAway(entryId: string, startedAt: string, since: Date): void {
+    const start = new Date(startedAt);
+    const from = since < start ? start : since;
+    // The earliest sign of being away wins, e.g. sleep followed by idle time
+    if (away?.entryId === entryId && away.since <= from) return;
+    away = { entryId, since: from };
+  }
+
+  const monitor: IdleMonitor = {
+    start() {
+      if (timer) return;
+      timer = setInterval(() => { void monitor.check(); }, POLL_MS);
+    },
+
+    stop() {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+
+    async check() {
+      try {
+        const running = await timeEntryService.getRunning();
+        if (!running) {
+          away = null;
+          return;
+        }
+        const current = now();
+        const idleMs = getIdleSeconds() * 1000;
+        if (idleMs >= thresholdMs) {
+          markAway(running.id, running.started_at, new Date(current.getTime() - idleMs));
+          return;
+        }
+        if (away?.entryId !== running.id) {
+          away = null;
+          return;
+        }
+        const since = away.since;
+        away = null;
+        warn({
+          entry_id: running.id,
+          task_id: running.task_id,
+          task_title: running.task_title,
+          idle_since: since.toISOString(),
+          idle_until: new Date(current.getTime() - idleMs).toISOString(),
+        });
+      } catch (err) {
+        console.error('[TimeTracking] Idle check failed:', err instanceof Error ? err.message : String(err));
+      }
+    },
+
+    suspend() {
+      suspendedAt = now();
+    },
+
+    async resume() {
+      const since = suspendedAt;
+      suspendedAt = null;
+      if (since && now().getTime() - since.getTime() >= thresholdMs) {
+        const running = await timeEntryService.getRunning().catch(() => null);
+        if (running) markAway(running.id, running.started_at, since);
+      }
+      await monitor.check();
+    },
+  };
+
+  return monitor;
+}
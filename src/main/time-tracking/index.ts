@@ -0,0 +1,2 @@
+export { createIdleMonitor } from './idle-monitor.js';
+export type { IdleMonitor } from './idle-monitor.js';
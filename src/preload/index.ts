@@ -1,30 +1,41 @@
 import { contextBridge, ipcRenderer } from 'electron';
 import type {
-  Task, CreateTaskInput, UpdateTaskInput,
+  Task, CreateTaskInput, UpdateTaskInput, BulkUpdateTaskInput,
   Project, CreateProjectInput, UpdateProjectInput,
+  ProjectHeading, CreateProjectHeadingInput, UpdateProjectHeadingInput,
   Context, CreateContextInput, UpdateContextInput,
   Note, CreateNoteInput, UpdateNoteInput,
   ChecklistItem, CreateChecklistItemInput, UpdateChecklistItemInput,
-  Stakeholder, CreateStakeholderInput, UpdateStakeholderInput,
+  Stakeholder, CreateStakeholderInput, UpdateStakeholderInput, StakeholderContact,
   AIAgent, CreateAIAgentInput,
-  ProjectStakeholder, NoteStakeholder,
+  ProjectStakeholder, NoteStakeholder, TaskDependency,
+  Reminder, CreateReminderInput, ReminderTarget,
+  Tag, CreateTagInput, UpdateTagInput, EntityTag, TaggableEntityType,
+  SmartList, CreateSmartListInput, UpdateSmartListInput,
+  Template, CreateTemplateInput, UpdateTemplateInput, ApplyTemplateInput, AppliedTemplate,
+  TimeEntry, RunningTimeEntry, TimeRange, TimeReport, IdleTimeWarning,
+  EntityChange,
   Meeting, CreateMeetingInput, UpdateMeetingInput, MeetingAttendee,
+  DailyNote,
+  ExportOptions, ImportSummary,
+  ImportFormat, TaskImportPreview, TaskImportResult,
+  RetentionPreview, UndoStatus,
 } from '../shared/types';
 import type { HybridSearchResult, SearchStatus, SearchableEntityType } from '../shared/search-types';
+import type { AppSettings, AppSettingsPatch, RetentionSettings } from '../shared/settings-types';
 import type { AudioSource, WhisperModelInfo, WhisperModel } from '../shared/recording-types';
 
-interface DailyNote {
-  date: string;
-  content: string | null;
-}
-
 const api = {
   tasks: {
     list: (): Promise<Task[]> => ipcRenderer.invoke('tasks:list'),
     get: (id: string): Promise<Task | null> => ipcRenderer.invoke('tasks:get', id),
     create: (input: CreateTaskInput): Promise<Task> => ipcRenderer.invoke('tasks:create', input),
+    createMany: (inputs: CreateTaskInput[]): Promise<Task[]> => ipcRenderer.invoke('tasks:createMany', inputs),
     update: (id: string, input: UpdateTaskInput): Promise<Task> => ipcRenderer.invoke('tasks:update', id, input),
+    bulkUpdate: (ids: string[], input: BulkUpdateTaskInput): Promise<Task[]> => ipcRenderer.invoke('tasks:bulkUpdate', ids, input),
+    move: (id: string, orderedIds: string[]): Promise<Task[]> => ipcRenderer.invoke('tasks:move', id, orderedIds),
     delete: (id: string): Promise<void> => ipcRenderer.invoke('tasks:delete', id),
+    demote: (id: string, targetTaskId: string): Promise<ChecklistItem> => ipcRenderer.invoke('tasks:demote', id, targetTaskId),
     listTrashed: (): Promise<Task[]> => ipcRenderer.invoke('tasks:listTrashed'),
     restore: (id: string): Promise<Task> => ipcRenderer.invoke('tasks:restore', id),
     emptyTrash: (): Promise<void> => ipcRenderer.invoke('tasks:emptyTrash'),
@@ -36,7 +47,20 @@ const api = {
     get: (id: string): Promise<Project | null> => ipcRenderer.invoke('projects:get', id),
     create: (input: CreateProjectInput): Promise<Project> => ipcRenderer.invoke('projects:create', input),
     update: (id: string, input: UpdateProjectInput): Promise<Project> => ipcRenderer.invoke('projects:update', id, input),
+    move: (id: string, orderedIds: string[]): Promise<Project[]> => ipcRenderer.invoke('projects:move', id, orderedIds),
     delete: (id: string): Promise<void> => ipcRenderer.invoke('projects:delete', id),
+    listTrashed: (): Promise<Project[]> => ipcRenderer.invoke('projects:listTrashed'),
+    restore: (id: string): Promise<Project> => ipcRenderer.invoke('projects:restore', id),
+    emptyTrash: (): Promise<void> => ipcRenderer.invoke('projects:emptyTrash'),
+  },
+
+  projectHeadings: {
+    list: (projectId: string): Promise<ProjectHeading[]> => ipcRenderer.invoke('projectHeadings:list', projectId),
+    create: (input: CreateProjectHeadingInput): Promise<ProjectHeading> => ipcRenderer.invoke('projectHeadings:create', input),
+    update: (id: string, input: UpdateProjectHeadingInput): Promise<ProjectHeading> => ipcRenderer.invoke('projectHeadings:update', id, input),
+    delete: (id: string): Promise<void> => ipcRenderer.invoke('projectHeadings:delete', id),
+    reorder: (projectId: string, headingIds: string[]): Promise<void> => ipcRenderer.invoke('projectHeadings:reorder', projectId, headingIds),
+    archive: (id: string): Promise<ProjectHeading> => ipcRenderer.invoke('projectHeadings:archive', id),
   },
 
   contexts: {
@@ -53,6 +77,9 @@ const api = {
     create: (input: CreateNoteInput): Promise<Note> => ipcRenderer.invoke('notes:create', input),
     update: (id: string, input: UpdateNoteInput): Promise<Note> => ipcRenderer.invoke('notes:update', id, input),
     delete: (id: string): Promise<void> => ipcRenderer.invoke('notes:delete', id),
+    listTrashed: (): Promise<Note[]> => ipcRenderer.invoke('notes:listTrashed'),
+    restore: (id: string): Promise<Note> => ipcRenderer.invoke('notes:restore', id),
+    emptyTrash: (): Promise<void> => ipcRenderer.invoke('notes:emptyTrash'),
   },
 
   meetings: {
@@ -61,6 +88,9 @@ const api = {
     create: (input: CreateMeetingInput): Promise<Meeting> => ipcRenderer.invoke('meetings:create', input),
     update: (id: string, input: UpdateMeetingInput): Promise<Meeting> => ipcRenderer.invoke('meetings:update', id, input),
     delete: (id: string): Promise<void> => ipcRenderer.invoke('meetings:delete', id),
+    listTrashed: (): Promise<Meeting[]> => ipcRenderer.invoke('meetings:listTrashed'),
+    restore: (id: string): Promise<Meeting> => ipcRenderer.invoke('meetings:restore', id),
+    emptyTrash: (): Promise<void> => ipcRenderer.invoke('meetings:emptyTrash'),
   },
 
   meetingAttendees: {
@@ -76,6 +106,8 @@ const api = {
     update: (id: string, input: UpdateChecklistItemInput): Promise<ChecklistItem> => ipcRenderer.invoke('checklists:update', id, input),
     delete: (id: string): Promise<void> => ipcRenderer.invoke('checklists:delete', id),
     reorder: (taskId: string, itemIds: string[]): Promise<void> => ipcRenderer.invoke('checklists:reorder', taskId, itemIds),
+    move: (id: string, orderedIds: string[]): Promise<ChecklistItem[]> => ipcRenderer.invoke('checklists:move', id, orderedIds),
+    promote: (id: string): Promise<Task> => ipcRenderer.invoke('checklists:promote', id),
   },
 
   stakeholders: {
@@ -84,6 +116,78 @@ const api = {
     create: (input: CreateStakeholderInput): Promise<Stakeholder> => ipcRenderer.invoke('stakeholders:create', input),
     update: (id: string, input: UpdateStakeholderInput): Promise<Stakeholder> => ipcRenderer.invoke('stakeholders:update', id, input),
     delete: (id: string): Promise<void> => ipcRenderer.invoke('stakeholders:delete', id),
+    listTrashed: (): Promise<Stakeholder[]> => ipcRenderer.invoke('stakeholders:listTrashed'),
+    restore: (id: string): Promise<Stakeholder> => ipcRenderer.invoke('stakeholders:restore', id),
+    emptyTrash: (): Promise<void> => ipcRenderer.invoke('stakeholders:emptyTrash'),
+    lastContacts: (): Promise<StakeholderContact[]> => ipcRenderer.invoke('stakeholders:lastContacts'),
+  },
+
+  taskDependencies: {
+    list: (): Promise<TaskDependency[]> => ipcRenderer.invoke('taskDependencies:list'),
+    listByTask: (taskId: string): Promise<TaskDependency[]> => ipcRenderer.invoke('taskDependencies:listByTask', taskId),
+    link: (input: { task_id: string; blocked_by_task_id: string }): Promise<TaskDependency> => ipcRenderer.invoke('taskDependencies:link', input),
+    unlink: (input: { task_id: string; blocked_by_task_id: string }): Promise<void> => ipcRenderer.invoke('taskDependencies:unlink', input),
+  },
+
+  reminders: {
+    list: (): Promise<Reminder[]> => ipcRenderer.invoke('reminders:list'),
+    create: (input: CreateReminderInput): Promise<Reminder> => ipcRenderer.invoke('reminders:create', input),
+    delete: (id: string): Promise<void> => ipcRenderer.invoke('reminders:delete', id),
+    /** Fired when a reminder notification is clicked or its "Open" action chosen */
+    onOpen: (callback: (target: ReminderTarget) => void) => {
+      const handler = (_event: unknown, target: ReminderTarget) => callback(target);
+      ipcRenderer.on('reminders:open', handler);
+      return () => { ipcRenderer.removeListener('reminders:open', handler); };
+    },
+  },
+
+  tags: {
+    list: (): Promise<Tag[]> => ipcRenderer.invoke('tags:list'),
+    create: (input: CreateTagInput): Promise<Tag> => ipcRenderer.invoke('tags:create', input),
+    update: (id: string, input: UpdateTagInput): Promise<Tag> => ipcRenderer.invoke('tags:update', id, input),
+    delete: (id: string): Promise<void> => ipcRenderer.invoke('tags:delete', id),
+    listEntityTags: (): Promise<EntityTag[]> => ipcRenderer.invoke('tags:listEntityTags'),
+    tag: (input: { tag_id: string; entity_type: TaggableEntityType; entity_id: string }): Promise<EntityTag> => ipcRenderer.invoke('tags:tag', input),
+    untag: (input: { tag_id: string; entity_type: TaggableEntityType; entity_id: string }): Promise<void> => ipcRenderer.invoke('tags:untag', input),
+  },
+
+  smartLists: {
+    list: (): Promise<SmartList[]> => ipcRenderer.invoke('smartLists:list'),
+    create: (input: CreateSmartListInput): Promise<SmartList> => ipcRenderer.invoke('smartLists:create', input),
+    update: (id: string, input: UpdateSmartListInput): Promise<SmartList> => ipcRenderer.invoke('smartLists:update', id, input),
+    delete: (id: string): Promise<void> => ipcRenderer.invoke('smartLists:delete', id),
+    tasks: (id: string): Promise<Task[]> => ipcRenderer.invoke('smartLists:tasks', id),
+    counts: (): Promise<Record<string, number>> => ipcRenderer.invoke('smartLists:counts'),
+  },
+
+  templates: {
+    list: (): Promise<Template[]> => ipcRenderer.invoke('templates:list'),
+    create: (input: CreateTemplateInput): Promise<Template> => ipcRenderer.invoke('templates:create', input),
+    update: (id: string, input: UpdateTemplateInput): Promise<Template> => ipcRenderer.invoke('templates:update', id, input),
+    delete: (id: string): Promise<void> => ipcRenderer.invoke('templates:delete', id),
+    fromProject: (projectId: string, name: string): Promise<Template> => ipcRenderer.invoke('templates:fromProject', projectId, name),
+    fromTask: (taskId: string, name: string): Promise<Template> => ipcRenderer.invoke('templates:fromTask', taskId, name),
+    apply: (id: string, input: ApplyTemplateInput): Promise<AppliedTemplate> => ipcRenderer.invoke('templates:apply', id, input),
+  },
+
+  timeEntries: {
+    running: (): Promise<RunningTimeEntry | null> => ipcRenderer.invoke('timeEntries:running'),
+    start: (taskId: string): Promise<TimeEntry> => ipcRenderer.invoke('timeEntries:start', taskId),
+    stop: (): Promise<TimeEntry | null> => ipcRenderer.invoke('timeEntries:stop'),
+    discardIdle: (input: { entry_id: string; idle_since: string; resume: boolean }): Promise<TimeEntry | null> => ipcRenderer.invoke('timeEntries:discardIdle', input),
+    report: (range: TimeRange): Promise<TimeReport> => ipcRenderer.invoke('timeEntries:report', range),
+    exportCsv: (range: TimeRange): Promise<string | null> => ipcRenderer.invoke('timeEntries:exportCsv', range),
+    /** Fired when the user comes back after being away from a running timer */
+    onIdle: (callback: (warning: IdleTimeWarning) => void) => {
+      const handler = (_event: unknown, warning: IdleTimeWarning) => callback(warning);
+      ipcRenderer.on('timeEntries:idle', handler);
+      return () => { ipcRenderer.removeListener('timeEntries:idle', handler); };
+    },
+  },
+
+  history: {
+    list: (entityId: string): Promise<EntityChange[]> => ipcRenderer.invoke('history:list', entityId),
+    restore: (changeId: string): Promise<void> => ipcRenderer.invoke('history:restore', changeId),
   },
 
   projectStakeholders: {
@@ -108,9 +212,17 @@ const api = {
 
   dailyNotes: {
     get: (date: string): Promise<DailyNote | null> => ipcRenderer.invoke('dailyNotes:get', date),
+    list: (): Promise<DailyNote[]> => ipcRenderer.invoke('dailyNotes:list'),
     upsert: (date: string, content: string): Promise<DailyNote> => ipcRenderer.invoke('dailyNotes:upsert', date, content),
   },
 
+  undo: {
+    status: (): Promise<UndoStatus> => ipcRenderer.invoke('undo:status'),
+    /** Resolves with a description of the reversed write, or null when there is nothing to undo */
+    undo: (): Promise<string | null> => ipcRenderer.invoke('undo:undo'),
+    redo: (): Promise<string | null> => ipcRenderer.invoke('undo:redo'),
+  },
+
   onFocusTaskInput: (callback: () => void) => {
     const listener = () => callback();
     ipcRenderer.on('focus-task-input', listener);
@@ -158,10 +270,23 @@ const api = {
   },
 
   system: {
-    exportData: (): Promise<unknown> => ipcRenderer.invoke('system:export'),
-    importData: (filePath: string): Promise<void> => ipcRenderer.invoke('system:import', filePath),
-    getSettings: (): Promise<unknown> => ipcRenderer.invoke('system:settings:get'),
-    setSettings: (settings: unknown): Promise<void> => ipcRenderer.invoke('system:settings:set', settings),
+    exportData: (options?: ExportOptions): Promise<string | null> => ipcRenderer.invoke('system:export', options),
+    importData: (filePath?: string): Promise<ImportSummary | null> => ipcRenderer.invoke('system:import', filePath),
+    previewTaskImport: (format: ImportFormat, filePath?: string): Promise<TaskImportPreview | null> =>
+      ipcRenderer.invoke('system:importTasks:preview', format, filePath),
+    applyTaskImport: (format: ImportFormat, filePath: string): Promise<TaskImportResult> =>
+      ipcRenderer.invoke('system:importTasks:apply', format, filePath),
+    getSettings: (): Promise<AppSettings> => ipcRenderer.invoke('system:settings:get'),
+    setSettings: (patch: AppSettingsPatch): Promise<AppSettings> => ipcRenderer.invoke('system:settings:set', patch),
+    migrateSettings: (legacy: Record<string, unknown>): Promise<AppSettings> =>
+      ipcRenderer.invoke('system:settings:migrate', legacy),
+    previewRetention: (settings: RetentionSettings): Promise<RetentionPreview> =>
+      ipcRenderer.invoke('system:retention:preview', settings),
+    onSettingsChanged: (callback: (settings: AppSettings) => void) => {
+      const handler = (_event: unknown, settings: AppSettings) => callback(settings);
+      ipcRenderer.on('system:settings:changed', handler);
+      return () => { ipcRenderer.removeListener('system:settings:changed', handler); };
+    },
   },
 
   recording: {
@@ -2,7 +2,13 @@ import { useState, useMemo, useEffect, useCallback, useRef, lazy, Suspense } fro
 import { format } from 'date-fns';
 import { Plus, Search } from 'lucide-react';
 import { ContextSelector } from './components/ContextSelector';
+import { TagFilter } from './components/TagFilter';
 import { CommandPalette } from './components/CommandPalette';
+import { NewFromTemplateDialog } from './components/NewFromTemplateDialog';
+import { IdleTimeDialog } from './components/IdleTimeDialog';
+import { RunningTimer } from './components/RunningTimer';
+import { Toast } from './components/Toast';
+import { BulkActionBar } from './components/BulkActionBar';
 import { TabBar } from './components/TabBar';
 import { useStore } from './stores';
 import { filterTasksByContext } from './lib/contextFilter';
@@ -13,6 +19,10 @@ import { InboxView } from './views/InboxView';
 import { TasksView } from './views/TasksView';
 import { TrashView } from './views/TrashView';
 import { LogbookView } from './views/LogbookView';
+import { SmartListView } from './views/SmartListView';
+import { ReviewView } from './views/ReviewView';
+import { TimeReportView } from './views/TimeReportView';
+import { CalendarView } from './views/CalendarView';
 import { ProjectsOverviewView } from './views/ProjectsOverviewView';
 import { ProjectDetailView } from './views/ProjectDetailView';
 import { NotesOverviewView } from './views/NotesOverviewView';
@@ -28,6 +38,7 @@ import type { Task } from '@shared/types';
 
 const NoteDetailView = lazy(() => import('./views/NoteDetailView').then(m => ({ default: m.NoteDetailView })));
 const MeetingDetailView = lazy(() => import('./views/MeetingDetailView').then(m => ({ default: m.MeetingDetailView })));
+const DailyView = lazy(() => import('./views/DailyView').then(m => ({ default: m.DailyView })));
 const SettingsView = lazy(() => import('./views/SettingsView').then(m => ({ default: m.SettingsView })));
 
 export default function App() {
@@ -66,8 +77,23 @@ function AuthenticatedApp() {
   const projects = useStore((s) => s.projects);
   const activeContextIds = useStore((s) => s.activeContextIds);
   const trashedTasks = useStore((s) => s.trashedTasks);
+  const trashedProjects = useStore((s) => s.trashedProjects);
+  const trashedNotes = useStore((s) => s.trashedNotes);
+  const trashedMeetings = useStore((s) => s.trashedMeetings);
+  const trashedStakeholders = useStore((s) => s.trashedStakeholders);
   const fetchTasks = useStore((s) => s.fetchTasks);
   const fetchTrashedTasks = useStore((s) => s.fetchTrashedTasks);
+  const fetchTrash = useStore((s) => s.fetchTrash);
+  const fetchTaskDependencies = useStore((s) => s.fetchTaskDependencies);
+  const fetchReminders = useStore((s) => s.fetchReminders);
+  const fetchTags = useStore((s) => s.fetchTags);
+  const fetchEntityTags = useStore((s) => s.fetchEntityTags);
+  const fetchSmartLists = useStore((s) => s.fetchSmartLists);
+  const fetchSmartListCounts = useStore((s) => s.fetchSmartListCounts);
+  const fetchTemplates = useStore((s) => s.fetchTemplates);
+  const fetchRunningTimeEntry = useStore((s) => s.fetchRunningTimeEntry);
+  const fetchTimeReport = useStore((s) => s.fetchTimeReport);
+  const setIdleWarning = useStore((s) => s.setIdleWarning);
   const fetchProjects = useStore((s) => s.fetchProjects);
   const fetchContexts = useStore((s) => s.fetchContexts);
   const fetchNotes = useStore((s) => s.fetchNotes);
@@ -78,10 +104,15 @@ function AuthenticatedApp() {
   const startInlineNoteCreate = useStore((s) => s.startInlineNoteCreate);
   const startInlineStakeholderCreate = useStore((s) => s.startInlineStakeholderCreate);
   const fetchMeetings = useStore((s) => s.fetchMeetings);
+  const loadSettings = useStore((s) => s.loadSettings);
+  const applySettings = useStore((s) => s.applySettings);
   const startInlineMeetingCreate = useStore((s) => s.startInlineMeetingCreate);
+  const openTemplatePicker = useStore((s) => s.openTemplatePicker);
   const selectTask = useStore((s) => s.selectTask);
   const toggleCommandPalette = useStore((s) => s.toggleCommandPalette);
   const openCommandPalette = useStore((s) => s.openCommandPalette);
+  const undo = useStore((s) => s.undo);
+  const redo = useStore((s) => s.redo);
 
   const navigateTab = useStore((s) => s.navigateTab);
   const activeView = useStore((s) => {
@@ -95,6 +126,12 @@ function AuthenticatedApp() {
     const state = tab.history[tab.historyIndex];
     return state.entityType === 'project' ? state.entityId : undefined;
   });
+  const selectedSmartListId = useStore((s) => {
+    const tab = s.tabs.find((t) => t.id === s.activeTabId);
+    if (!tab) return undefined;
+    const state = tab.history[tab.historyIndex];
+    return state.entityType === 'smartList' ? state.entityId : undefined;
+  });
   const selectedNoteId = useStore((s) => {
     const tab = s.tabs.find((t) => t.id === s.activeTabId);
     if (!tab) return undefined;
@@ -118,10 +155,52 @@ function AuthenticatedApp() {
     navigateTab({ view });
   }, [navigateTab]);
 
+  const navigateToTask = useCallback((task: Task) => {
+    const viewMap: Record<string, SidebarView> = {
+      inbox: 'inbox',
+      today: 'tasks',
+      upcoming: 'upcoming',
+      anytime: 'anytime',
+      someday: 'someday',
+      stale: 'stale',
+      logbook: 'logbook',
+      cancelled: 'logbook',
+    };
+    const view = viewMap[task.status] || 'inbox';
+    navigateTab({ view });
+    selectTask(task.id);
+  }, [navigateTab, selectTask]);
+
+  // A selection only makes sense within the list it was made in
+  const clearTaskSelection = useStore((s) => s.clearTaskSelection);
+  useEffect(() => {
+    clearTaskSelection();
+  }, [activeView, selectedProjectId, clearTaskSelection]);
+
   const fetchTasksRef = useRef(fetchTasks);
   fetchTasksRef.current = fetchTasks;
   const fetchTrashedTasksRef = useRef(fetchTrashedTasks);
   fetchTrashedTasksRef.current = fetchTrashedTasks;
+  const fetchTrashRef = useRef(fetchTrash);
+  fetchTrashRef.current = fetchTrash;
+  const fetchTaskDependenciesRef = useRef(fetchTaskDependencies);
+  fetchTaskDependenciesRef.current = fetchTaskDependencies;
+  const fetchRemindersRef = useRef(fetchReminders);
+  fetchRemindersRef.current = fetchReminders;
+  const fetchTagsRef = useRef(fetchTags);
+  fetchTagsRef.current = fetchTags;
+  const fetchEntityTagsRef = useRef(fetchEntityTags);
+  fetchEntityTagsRef.current = fetchEntityTags;
+  const fetchSmartListsRef = useRef(fetchSmartLists);
+  fetchSmartListsRef.current = fetchSmartLists;
+  const fetchSmartListCountsRef = useRef(fetchSmartListCounts);
+  fetchSmartListCountsRef.current = fetchSmartListCounts;
+  const fetchTemplatesRef = useRef(fetchTemplates);
+  fetchTemplatesRef.current = fetchTemplates;
+  const fetchRunningTimeEntryRef = useRef(fetchRunningTimeEntry);
+  fetchRunningTimeEntryRef.current = fetchRunningTimeEntry;
+  const fetchTimeReportRef = useRef(fetchTimeReport);
+  fetchTimeReportRef.current = fetchTimeReport;
   const fetchProjectsRef = useRef(fetchProjects);
   fetchProjectsRef.current = fetchProjects;
   const fetchContextsRef = useRef(fetchContexts);
@@ -136,8 +215,8 @@ function AuthenticatedApp() {
 
   const today = useMemo(() => format(new Date(), 'yyyy-MM-dd'), []);
 
-  const performContextCreate = useCallback(() => {
-    const action = getCreateAction({ activeView, selectedProjectId: selectedProjectId ?? null, today });
+  const performContextCreate = useCallback((fromTemplate = false) => {
+    const action = getCreateAction({ activeView, selectedProjectId: selectedProjectId ?? null, today, fromTemplate });
     executeCreateAction(action, {
       setActiveView: handleViewChange,
       startInlineCreate,
@@ -145,11 +224,12 @@ function AuthenticatedApp() {
       startInlineNoteCreate,
       startInlineStakeholderCreate,
       startInlineMeetingCreate,
+      openTemplatePicker,
     });
-  }, [activeView, selectedProjectId, today, handleViewChange, startInlineCreate, startInlineProjectCreate, startInlineNoteCreate, startInlineStakeholderCreate, startInlineMeetingCreate]);
+  }, [activeView, selectedProjectId, today, handleViewChange, startInlineCreate, startInlineProjectCreate, startInlineNoteCreate, startInlineStakeholderCreate, startInlineMeetingCreate, openTemplatePicker]);
 
   useKeyboardShortcuts({ setActiveView: handleViewChange, deselectTask, performContextCreate, toggleCommandPalette });
-  useGlobalShortcuts({ setActiveView: handleViewChange, startInlineCreate, startInlineProjectCreate, activeView, selectedProjectId });
+  useGlobalShortcuts({ setActiveView: handleViewChange, startInlineCreate, startInlineProjectCreate, activeView, selectedProjectId, undo, redo });
 
   // Proactively load all data from local SQLite on mount.
   // This is instant (local DB) and ensures views never render empty after a reload.
@@ -158,6 +238,15 @@ function AuthenticatedApp() {
     isFetchingRef.current = true;
     fetchTasksRef.current();
     fetchTrashedTasksRef.current();
+    fetchTrashRef.current();
+    fetchTaskDependenciesRef.current();
+    fetchRemindersRef.current();
+    fetchTagsRef.current();
+    fetchEntityTagsRef.current();
+    fetchSmartListsRef.current();
+    fetchSmartListCountsRef.current();
+    fetchTemplatesRef.current();
+    fetchRunningTimeEntryRef.current();
     fetchProjectsRef.current();
     fetchContextsRef.current();
     fetchNotesRef.current();
@@ -178,11 +267,39 @@ function AuthenticatedApp() {
           fetchTasksRef.current();
           fetchTrashedTasksRef.current();
         }
+        if (pendingTables.has('task_dependencies')) fetchTaskDependenciesRef.current();
+        if (pendingTables.has('reminders')) fetchRemindersRef.current();
+        if (pendingTables.has('tags')) fetchTagsRef.current();
+        if (pendingTables.has('entity_tags')) fetchEntityTagsRef.current();
+        if (pendingTables.has('smart_lists')) fetchSmartListsRef.current();
+        // Counts depend on everything a smart list query can match on
+        if (['smart_lists', 'tasks', 'projects', 'contexts', 'task_checklists', 'stakeholders'].some((t) => pendingTables.has(t))) {
+          fetchSmartListCountsRef.current();
+        }
+        if (pendingTables.has('templates')) fetchTemplatesRef.current();
+        if (pendingTables.has('time_entries') || pendingTables.has('tasks')) fetchRunningTimeEntryRef.current();
+        // The time report names projects, contexts and stakeholders
+        if (['time_entries', 'tasks', 'projects', 'contexts', 'stakeholders', 'project_stakeholders'].some((t) => pendingTables.has(t))) {
+          fetchTimeReportRef.current();
+        }
         if (pendingTables.has('projects')) fetchProjectsRef.current();
         if (pendingTables.has('contexts')) fetchContextsRef.current();
         if (pendingTables.has('notes')) fetchNotesRef.current();
         if (pendingTables.has('stakeholders')) fetchStakeholdersRef.current();
         if (pendingTables.has('meetings')) fetchMeetingsRef.current();
+        if (['projects', 'notes', 'meetings', 'stakeholders'].some((t) => pendingTables.has(t))) {
+          fetchTrashRef.current();
+        }
+        if (pendingTables.has('entity_changes')) {
+          // Refetch history for every item that has it cached
+          const { entityChanges, fetchEntityChanges } = useStore.getState();
+          Object.keys(entityChanges).forEach((entityId) => fetchEntityChanges(entityId));
+        }
+        if (pendingTables.has('project_headings')) {
+          // Refetch headings for every project that has them cached
+          const { projectHeadings, fetchProjectHeadings } = useStore.getState();
+          Object.keys(projectHeadings).forEach((projectId) => fetchProjectHeadings(projectId));
+        }
         if (pendingTables.has('project_stakeholders') || pendingTables.has('note_stakeholders') || pendingTables.has('meeting_attendees')) {
           // Clear cached junction links so open detail views re-fetch
           useStore.setState({ projectStakeholderLinks: [], noteStakeholderLinks: [], meetingAttendeeLinks: [] });
@@ -193,6 +310,29 @@ function AuthenticatedApp() {
     return () => { cleanup(); if (debounceTimer) clearTimeout(debounceTimer); };
   }, []);
 
+  // Settings are owned by the main process; follow changes from any source
+  useEffect(() => {
+    loadSettings();
+    return window.cortex.system.onSettingsChanged(applySettings);
+  }, [loadSettings, applySettings]);
+
+  // Clicking a reminder notification opens its task or meeting
+  useEffect(() => {
+    return window.cortex.reminders.onOpen((target) => {
+      if ('meetingId' in target) {
+        navigateTab({ view: 'meetings', entityId: target.meetingId, entityType: 'meeting' });
+        return;
+      }
+      const task = useStore.getState().tasks.find((t) => t.id === target.taskId);
+      if (task) navigateToTask(task);
+    });
+  }, [navigateTab, navigateToTask]);
+
+  // Time away from a running timer is offered back once the user returns
+  useEffect(() => {
+    return window.cortex.timeEntries.onIdle(setIdleWarning);
+  }, [setIdleWarning]);
+
   // Also refresh tasks when stale check completes on window focus
   useEffect(() => {
     const cleanup = window.cortex.onStaleCheckComplete(() => {
@@ -230,9 +370,10 @@ function AuthenticatedApp() {
       someday: filtered.filter((t) => t.status === 'someday').length,
       stale: filtered.filter((t) => t.status === 'stale').length,
       logbook: filtered.filter((t) => t.status === 'logbook').length,
-      trash: trashedTasks.length,
+      trash: trashedTasks.length + trashedProjects.length + trashedNotes.length
+        + trashedMeetings.length + trashedStakeholders.length,
     };
-  }, [tasks, trashedTasks, today, activeContextIds, projects]);
+  }, [tasks, trashedTasks, trashedProjects, trashedNotes, trashedMeetings, trashedStakeholders, today, activeContextIds, projects]);
 
   return (
     <div className="flex h-screen bg-background text-foreground overflow-hidden">
@@ -247,7 +388,9 @@ function AuthenticatedApp() {
           <TabBar />
           <div className="flex-1 min-w-8" />
           <div className="no-drag flex items-center gap-0.5">
+            <RunningTimer onNavigateToTask={navigateToTask} />
             <ContextSelector />
+            <TagFilter />
             <button
               onClick={openCommandPalette}
               className="p-1.5 rounded-md text-muted-foreground hover:text-foreground hover:bg-accent/50 transition-colors"
@@ -257,7 +400,7 @@ function AuthenticatedApp() {
             </button>
             <button
               onMouseDown={(e) => e.stopPropagation()}
-              onClick={performContextCreate}
+              onClick={() => performContextCreate()}
               className="p-1.5 rounded-md text-muted-foreground hover:text-foreground hover:bg-accent/50 transition-colors"
               aria-label="Create"
             >
@@ -267,12 +410,16 @@ function AuthenticatedApp() {
         </header>
 
         {activeView === 'home' && <HomeView onNavigate={handleViewChange} />}
-        {activeView === 'daily' && <PlaceholderView title="Daily" />}
+        {activeView === 'daily' && <Suspense fallback={null}><DailyView /></Suspense>}
+        {activeView === 'calendar' && <CalendarView onNavigateToTask={navigateToTask} />}
+        {activeView === 'review' && <ReviewView />}
+        {activeView === 'time' && <TimeReportView />}
         {activeView === 'inbox' && <InboxView />}
         {['tasks', 'today', 'upcoming', 'anytime', 'someday', 'stale'].includes(activeView) && (
           <TasksView activeView={activeView} onViewChange={handleViewChange} taskCounts={taskCounts} />
         )}
         {activeView === 'logbook' && <LogbookView />}
+        {activeView === 'list' && selectedSmartListId && <SmartListView listId={selectedSmartListId} />}
         {activeView === 'trash' && <TrashView />}
         {activeView === 'projects' && !selectedProjectId && <ProjectsOverviewView />}
         {activeView === 'projects' && selectedProjectId && <ProjectDetailView projectId={selectedProjectId} />}
@@ -295,21 +442,7 @@ function AuthenticatedApp() {
       </main>
 
       <CommandPalette
-        onNavigateToTask={(task: Task) => {
-          const viewMap: Record<string, SidebarView> = {
-            inbox: 'inbox',
-            today: 'tasks',
-            upcoming: 'upcoming',
-            anytime: 'anytime',
-            someday: 'someday',
-            stale: 'stale',
-            logbook: 'logbook',
-            cancelled: 'logbook',
-          };
-          const view = viewMap[task.status] || 'inbox';
-          navigateTab({ view });
-          selectTask(task.id);
-        }}
+        onNavigateToTask={navigateToTask}
         onNavigateToProject={(projectId: string) => {
           navigateTab({ view: 'projects', entityId: projectId, entityType: 'project' });
         }}
@@ -329,15 +462,12 @@ function AuthenticatedApp() {
           navigateTab({ view: 'notes' });
           startInlineNoteCreate();
         }}
+        onCreateFromTemplate={() => performContextCreate(true)}
       />
-    </div>
-  );
-}
-
-function PlaceholderView({ title }: { title: string }) {
-  return (
-    <div className="flex-1 flex items-center justify-center">
-      <p className="text-muted-foreground text-sm">{title}</p>
+      <NewFromTemplateDialog />
+      <IdleTimeDialog />
+      <BulkActionBar />
+      <Toast />
     </div>
   );
 }
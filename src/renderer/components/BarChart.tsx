@@ -0,0 +1,90 @@
+import { cn } from '../lib/utils';
+
+export interface BarSeries {
+  key: string;
+  label: string;
+  color: string;
+}
+
+export interface BarGroup {
+  key: string;
+  label: string;
+  values: Record<string, number>;
+}
+
+interface BarChartProps {
+  /** Accessible name of the chart */
+  label: string;
+  groups: BarGroup[];
+  series: BarSeries[];
+  /** Stack the series in one bar per group, or set them side by side */
+  stacked?: boolean;
+  className?: string;
+}
+
+/** At most this many x-axis labels, so day charts stay readable */
+const MAX_AXIS_LABELS = 8;
+
+/** A plain column chart drawn with divs, one column (or cluster) per group */
+export function BarChart({ label, groups, series, stacked = false, className }: BarChartProps) {
+  const totals = groups.map((group) =>
+    stacked
+      ? series.reduce((sum, s) => sum + (group.values[s.key] ?? 0), 0)
+      : Math.max(0, ...series.map((s) => group.values[s.key] ?? 0)),
+  );
+  const max = Math.max(1, ...totals);
+  const labelEvery = Math.ceil(groups.length / MAX_AXIS_LABELS);
+
+  return (
+    <figure aria-label={label} className={cn('flex flex-col gap-2', className)}>
+      <div className="flex items-end gap-1 h-32 border-b border-border">
+        {groups.map((group) => {
+          const title = `${group.label}: ${series.map((s) => `${s.label} ${group.values[s.key] ?? 0}`).join(', ')}`;
+          return (
+            <div key={group.key} title={title} className="flex-1 h-full flex items-end justify-center gap-px min-w-0">
+              {stacked ? (
+                <div className="w-full max-w-6 flex flex-col-reverse">
+                  {series.map((s) => {
+                    const value = group.values[s.key] ?? 0;
+                    if (!value) return null;
+                    return (
+                      <div
+                        key={s.key}
+                        data-testid="bar-segment"
+                        className="w-full last:rounded-t-sm"
+                        style={{ height: `${(value / max) * 128}px`, backgroundColor: s.color }}
+                      />
+                    );
+                  })}
+                </div>
+              ) : (
+                series.map((s) => (
+                  <div
+                    key={s.key}
+                    className="flex-1 max-w-3 rounded-t-sm"
+                    style={{ height: `${((group.values[s.key] ?? 0) / max) * 100}%`, backgroundColor: s.color }}
+                  />
+                ))
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex gap-1 text-[10px] text-muted-foreground tabular-nums">
+        {groups.map((group, i) => (
+          <span key={group.key} className="flex-1 min-w-0 text-center truncate">
+            {i % labelEvery === 0 ? group.label : ''}
+          </span>
+        ))}
+      </div>
+      <figcaption className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-muted-foreground">
+        {series.map((s) => (
+          <span key={s.key} className="inline-flex items-center gap-1.5">
+            <span className="size-2 rounded-full" style={{ backgroundColor: s.color }} />
+            {s.label}
+          </span>
+        ))}
+      </figcaption>
+    </figure>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState, useMemo } from 'react';
+import { Link2, X, Search } from 'lucide-react';
+import type { Task } from '@shared/types';
+import { useStore } from '../stores';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { ipcErrorMessage } from '../lib/utils';
+
+interface BlockedByPickerProps {
+  task: Task;
+}
+
+/** Lists the tasks `task` waits on and lets the user add or remove them */
+export function BlockedByPicker({ task }: BlockedByPickerProps) {
+  const tasks = useStore((s) => s.tasks);
+  const taskDependencies = useStore((s) => s.taskDependencies);
+  const linkTaskDependency = useStore((s) => s.linkTaskDependency);
+  const unlinkTaskDependency = useStore((s) => s.unlinkTaskDependency);
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const blockers = useMemo(() => {
+    const ids = new Set(taskDependencies.filter((d) => d.task_id === task.id).map((d) => d.blocked_by_task_id));
+    return tasks.filter((t) => ids.has(t.id));
+  }, [tasks, taskDependencies, task.id]);
+
+  const candidates = useMemo(() => {
+    const q = search.toLowerCase();
+    return tasks
+      .filter((t) =>
+        t.id !== task.id &&
+        !t.deleted_at &&
+        t.status !== 'logbook' &&
+        t.status !== 'cancelled' &&
+        !blockers.some((b) => b.id === t.id) &&
+        (!q || t.title.toLowerCase().includes(q)),
+      )
+      .slice(0, 20);
+  }, [tasks, task.id, blockers, search]);
+
+  const handleLink = async (blockedById: string) => {
+    try {
+      await linkTaskDependency(task.id, blockedById);
+      setOpen(false);
+      setSearch('');
+    } catch (err) {
+      setError(ipcErrorMessage(err));
+    }
+  };
+
+  const openBlockers = blockers.filter((b) => b.status !== 'logbook' && b.status !== 'cancelled');
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(v) => {
+        setOpen(v);
+        if (!v) {
+          setSearch('');
+          setError(null);
+        }
+      }}
+    >
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          aria-label="Blocked by"
+          className="inline-flex items-center gap-1.5 px-1.5 py-1 text-xs text-muted-foreground hover:bg-accent/60 rounded-md transition-colors cursor-pointer"
+        >
+          <Link2 className="size-3" />
+          <span>
+            {blockers.length === 0
+              ? 'Blocked by'
+              : openBlockers.length > 0
+                ? `Blocked by ${openBlockers.length}`
+                : 'Unblocked'}
+          </span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-1" align="start">
+        {blockers.map((b) => (
+          <div key={b.id} className="flex items-center gap-2 px-2 py-1.5 text-sm text-foreground">
+            <span className={b.status === 'logbook' || b.status === 'cancelled' ? 'flex-1 truncate line-through text-muted-foreground' : 'flex-1 truncate'}>
+              {b.title}
+            </span>
+            <button
+              type="button"
+              aria-label={`Remove ${b.title}`}
+              onClick={() => unlinkTaskDependency(task.id, b.id)}
+              className="p-0.5 rounded-full text-muted-foreground hover:bg-accent transition-colors"
+            >
+              <X className="size-3" />
+            </button>
+          </div>
+        ))}
+        <div className="px-2 pb-1">
+          <div className="relative">
+            <Search className="absolute left-1.5 top-1/2 -translate-y-1/2 size-3 text-muted-foreground" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => {
+                setSearch(e.target.value);
+                setError(null);
+              }}
+              placeholder="Search tasks..."
+              className="w-full text-xs bg-transparent border-0 outline-none pl-6 pr-2 py-1.5 text-foreground placeholder:text-muted-foreground/50"
+              autoFocus
+            />
+          </div>
+        </div>
+        {error && <p role="alert" className="text-xs text-red-500 px-2 py-1">{error}</p>}
+        <div className="max-h-48 overflow-y-auto">
+          {candidates.length === 0 && (
+            <p className="text-xs text-muted-foreground px-2 py-2">No tasks found</p>
+          )}
+          {candidates.map((t) => (
+            <button
+              key={t.id}
+              role="option"
+              aria-label={t.title}
+              type="button"
+              onClick={() => handleLink(t.id)}
+              className="flex items-center w-full px-2 py-1.5 text-sm text-foreground hover:bg-accent rounded-md cursor-pointer"
+            >
+              <span className="truncate">{t.title}</span>
+            </button>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,172 @@
+import { useMemo, useState, type ReactNode } from 'react';
+import { Calendar, Flag, Trash2, X, Bot, Layers, FolderKanban, CircleDot } from 'lucide-react';
+import type { BulkUpdateTaskInput, TaskStatus } from '@shared/types';
+import { useStore } from '../stores';
+import { DatePickerButton } from './DatePickerButton';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+
+const STATUS_OPTIONS: { status: TaskStatus; label: string }[] = [
+  { status: 'inbox', label: 'Inbox' },
+  { status: 'today', label: 'Today' },
+  { status: 'anytime', label: 'Anytime' },
+  { status: 'someday', label: 'Someday' },
+  { status: 'logbook', label: 'Completed' },
+  { status: 'cancelled', label: 'Cancelled' },
+];
+
+const PRIORITY_OPTIONS = ['P1', 'P2', 'P3'] as const;
+
+interface OptionMenuProps {
+  label: string;
+  icon: ReactNode;
+  options: { value: string | null; label: string }[];
+  onPick: (value: string | null) => void;
+}
+
+function OptionMenu({ label, icon, options, onPick }: OptionMenuProps) {
+  const [open, setOpen] = useState(false);
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          aria-label={label}
+          className="inline-flex items-center gap-1.5 px-2 py-1 text-xs text-muted-foreground hover:text-foreground hover:bg-accent/60 rounded-md transition-colors"
+        >
+          {icon}
+          <span>{label}</span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-48 p-1" align="center" side="top">
+        {options.map((option) => (
+          <button
+            key={option.value ?? 'none'}
+            role="option"
+            aria-label={option.label}
+            type="button"
+            onClick={() => {
+              onPick(option.value);
+              setOpen(false);
+            }}
+            className="flex items-center w-full px-2 py-1.5 text-sm text-foreground hover:bg-accent rounded-md cursor-pointer"
+          >
+            {option.label}
+          </button>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+/** Actions for the tasks picked with shift/cmd-click or the keyboard */
+export function BulkActionBar() {
+  const selectedTaskIds = useStore((s) => s.selectedTaskIds);
+  const clearTaskSelection = useStore((s) => s.clearTaskSelection);
+  const bulkUpdateTasks = useStore((s) => s.bulkUpdateTasks);
+  const showToast = useStore((s) => s.showToast);
+  const projects = useStore((s) => s.projects);
+  const contexts = useStore((s) => s.contexts);
+  const agents = useStore((s) => s.agents);
+
+  const activeProjects = useMemo(
+    () => projects.filter((p) => p.status !== 'completed' && p.status !== 'archived'),
+    [projects],
+  );
+  const activeAgents = useMemo(() => agents.filter((a) => !a.revoked_at), [agents]);
+
+  if (selectedTaskIds.length === 0) return null;
+
+  const count = selectedTaskIds.length;
+  const apply = async (input: BulkUpdateTaskInput) => {
+    await bulkUpdateTasks(selectedTaskIds, input);
+    if (input.delete) {
+      clearTaskSelection();
+      showToast(`Moved ${count === 1 ? '1 task' : `${count} tasks`} to the trash`);
+    } else {
+      showToast(`Updated ${count === 1 ? '1 task' : `${count} tasks`}`);
+    }
+  };
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Bulk actions"
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-1 rounded-xl border border-border bg-popover px-3 py-1.5 shadow-lg"
+    >
+      <span className="text-sm text-foreground mr-2 tabular-nums">{count} selected</span>
+
+      <OptionMenu
+        label="Status"
+        icon={<CircleDot className="size-3" />}
+        options={STATUS_OPTIONS.map(({ status, label }) => ({ value: status, label }))}
+        onPick={(status) => apply({ status: status as TaskStatus })}
+      />
+      <DatePickerButton
+        value={null}
+        onChange={(date) => apply({ when_date: date })}
+        icon={<Calendar className="size-3" />}
+        label="When"
+      />
+      <DatePickerButton
+        value={null}
+        onChange={(date) => apply({ deadline: date })}
+        icon={<Flag className="size-3" />}
+        label="Deadline"
+      />
+      <OptionMenu
+        label="Priority"
+        icon={<Flag className="size-3" />}
+        options={[
+          ...PRIORITY_OPTIONS.map((p) => ({ value: p, label: p })),
+          { value: null, label: 'No priority' },
+        ]}
+        onPick={(priority) => apply({ priority: priority as BulkUpdateTaskInput['priority'] })}
+      />
+      <OptionMenu
+        label="Project"
+        icon={<FolderKanban className="size-3" />}
+        options={[
+          { value: null, label: 'No project' },
+          ...activeProjects.map((p) => ({ value: p.id, label: p.title })),
+        ]}
+        onPick={(projectId) => apply({ project_id: projectId })}
+      />
+      <OptionMenu
+        label="Context"
+        icon={<Layers className="size-3" />}
+        options={[
+          { value: null, label: 'No context' },
+          ...contexts.map((c) => ({ value: c.id, label: c.name })),
+        ]}
+        onPick={(contextId) => apply({ context_id: contextId })}
+      />
+      <OptionMenu
+        label="Assignee"
+        icon={<Bot className="size-3" />}
+        options={[
+          { value: null, label: 'Unassigned' },
+          ...activeAgents.map((a) => ({ value: a.id, label: a.name })),
+        ]}
+        onPick={(assigneeId) => apply({ assignee_id: assigneeId })}
+      />
+
+      <div className="w-px h-4 bg-border mx-1" />
+      <button
+        type="button"
+        aria-label="Delete selected tasks"
+        onClick={() => apply({ delete: true })}
+        className="p-1.5 rounded-md text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors"
+      >
+        <Trash2 className="size-3.5" />
+      </button>
+      <button
+        type="button"
+        aria-label="Clear selection"
+        onClick={clearTaskSelection}
+        className="p-1.5 rounded-md text-muted-foreground hover:text-foreground hover:bg-accent transition-colors"
+      >
+        <X className="size-3.5" />
+      </button>
+    </div>
+  );
+}
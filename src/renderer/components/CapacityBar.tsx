@@ -0,0 +1,79 @@
+import { useMemo } from 'react';
+import { AlertTriangle, ArrowRight } from 'lucide-react';
+import { addDays, format } from 'date-fns';
+import type { Task } from '@shared/types';
+import { formatEstimate } from '@shared/estimate';
+import { useStore } from '../stores';
+import { getDayCapacity, getMeetingMinutes } from '../lib/capacity';
+import { cn } from '../lib/utils';
+
+interface CapacityBarProps {
+  /** Today's tasks in the order they are shown */
+  tasks: Task[];
+}
+
+/**
+ * Today's estimated work against the hours left after meetings. Hidden until
+ * at least one task has an estimate.
+ */
+export function CapacityBar({ tasks }: CapacityBarProps) {
+  const meetings = useStore((s) => s.meetings);
+  const workdayHours = useStore((s) => s.workdayHours);
+  const bulkUpdateTasks = useStore((s) => s.bulkUpdateTasks);
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const capacity = useMemo(
+    () => getDayCapacity(tasks, getMeetingMinutes(meetings, today), workdayHours),
+    [tasks, meetings, today, workdayHours],
+  );
+
+  if (capacity.plannedMinutes === 0) return null;
+
+  const { plannedMinutes, availableMinutes, meetingMinutes, overflowIds } = capacity;
+  const isOver = overflowIds.length > 0;
+  const fill = availableMinutes === 0 ? 100 : Math.min(100, (plannedMinutes / availableMinutes) * 100);
+
+  const moveOverflow = () => {
+    bulkUpdateTasks(overflowIds, { when_date: format(addDays(new Date(), 1), 'yyyy-MM-dd') });
+  };
+
+  return (
+    <div data-testid="capacity-bar" className="mb-4 px-3">
+      <div className="flex items-center justify-between gap-3 text-xs text-muted-foreground">
+        <span>
+          <span className={cn('tabular-nums font-medium', isOver ? 'text-red-500' : 'text-foreground')}>
+            {formatEstimate(plannedMinutes)}
+          </span>
+          {' planned of '}
+          <span className="tabular-nums">{availableMinutes > 0 ? formatEstimate(availableMinutes) : '0m'}</span>
+          {' available'}
+          {meetingMinutes > 0 && (
+            <span className="text-muted-foreground/60">{` · ${formatEstimate(meetingMinutes)} in meetings`}</span>
+          )}
+        </span>
+        {isOver && (
+          <button
+            type="button"
+            onClick={moveOverflow}
+            className="inline-flex items-center gap-1 px-2 py-1 rounded-md text-xs text-foreground hover:bg-accent/60 transition-colors cursor-default"
+          >
+            <span>Move overflow to tomorrow</span>
+            <ArrowRight className="size-3" />
+          </button>
+        )}
+      </div>
+      <div className="mt-1.5 h-1 rounded-full bg-accent overflow-hidden">
+        <div
+          className={cn('h-full rounded-full transition-[width] duration-300', isOver ? 'bg-red-500' : 'bg-primary')}
+          style={{ width: `${fill}%` }}
+        />
+      </div>
+      {isOver && (
+        <p role="alert" className="mt-1.5 flex items-center gap-1.5 text-xs text-red-500">
+          <AlertTriangle className="size-3" />
+          {`Over capacity by ${formatEstimate(plannedMinutes - availableMinutes)}; ${overflowIds.length} ${overflowIds.length === 1 ? 'task doesn’t' : 'tasks don’t'} fit`}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+// @vitest-environment jsdom
+import { vi, describe, it, expect } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom/vitest';
+import { ChangeHistory } from './ChangeHistory';
+import type { EntityChange } from '@shared/types';
+
+const mockFetchEntityChanges = vi.fn();
+const mockRestoreEntityChange = vi.fn();
+
+const change = (id: string, overrides: Partial<EntityChange>): EntityChange => ({
+  id,
+  entity_type: 'task',
+  entity_id: 'task-1',
+  action: 'update',
+  changes: {},
+  source: 'user',
+  agent_id: null,
+  agent_name: null,
+  created_at: '2099-01-07T10:32:00',
+  ...overrides,
+});
+
+const mockChanges: EntityChange[] = [
+  change('c2', { source: 'ai', agent_id: 'agent-1', agent_name: 'Claudius', changes: { status: { from: 'inbox', to: 'today' } } }),
+  change('c1', { action: 'create' }),
+];
+
+vi.mock('../stores', () => ({
+  useStore: (selector: (state: Record<string, unknown>) => unknown) => selector({
+    entityChanges: { 'task-1': mockChanges },
+    fetchEntityChanges: mockFetchEntityChanges,
+    restoreEntityChange: mockRestoreEntityChange,
+    projects: [],
+    projectHeadings: {},
+    contexts: [],
+    agents: [],
+    stakeholders: [],
+  }),
+}));
+
+describe('ChangeHistory', () => {
+  it('loads the timeline when opened and restores an older version', () => {
+    render(<ChangeHistory entityId="task-1" />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'History' }));
+
+    expect(mockFetchEntityChanges).toHaveBeenCalledWith('task-1');
+    expect(screen.getByText('Status inbox → today')).toBeInTheDocument();
+    expect(screen.getByText(/^by agent Claudius/)).toBeInTheDocument();
+
+    // Only the older entry can be restored; the newest is the current state
+    const restore = screen.getAllByRole('button', { name: 'Restore this version' });
+    expect(restore).toHaveLength(1);
+    fireEvent.click(restore[0]);
+    expect(mockRestoreEntityChange).toHaveBeenCalledWith(mockChanges[1]);
+  });
+});
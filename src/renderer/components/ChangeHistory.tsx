@@ -0,0 +1,86 @@
+import { useState, useMemo, useCallback } from 'react';
+import { History, RotateCcw } from 'lucide-react';
+import { useStore } from '../stores';
+import { describeChange, describeAuthorAndTime } from '../lib/changeHistory';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+
+interface ChangeHistoryProps {
+  entityId: string;
+}
+
+const NO_CHANGES: never[] = [];
+
+/** Timeline of edits to a task, project, note or meeting, by the user or an agent, with a way back to any of them */
+export function ChangeHistory({ entityId }: ChangeHistoryProps) {
+  const changes = useStore((s) => s.entityChanges[entityId] ?? NO_CHANGES);
+  const fetchEntityChanges = useStore((s) => s.fetchEntityChanges);
+  const restoreEntityChange = useStore((s) => s.restoreEntityChange);
+  const projects = useStore((s) => s.projects);
+  const projectHeadings = useStore((s) => s.projectHeadings);
+  const contexts = useStore((s) => s.contexts);
+  const agents = useStore((s) => s.agents);
+  const stakeholders = useStore((s) => s.stakeholders);
+  const [open, setOpen] = useState(false);
+
+  const names = useMemo(() => {
+    const map = new Map<string, string>();
+    projects.forEach((p) => map.set(p.id, p.title));
+    Object.values(projectHeadings).flat().forEach((h) => map.set(h.id, h.title));
+    contexts.forEach((c) => map.set(c.id, c.name));
+    agents.forEach((a) => map.set(a.id, a.name));
+    stakeholders.forEach((s) => map.set(s.id, s.name));
+    return map;
+  }, [projects, projectHeadings, contexts, agents, stakeholders]);
+  const nameOf = useCallback((id: string) => names.get(id), [names]);
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(v) => {
+        setOpen(v);
+        if (v) fetchEntityChanges(entityId);
+      }}
+    >
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          aria-label="History"
+          className="inline-flex items-center gap-1.5 px-1.5 py-1 text-xs text-muted-foreground hover:bg-accent/60 rounded-md transition-colors cursor-pointer"
+        >
+          <History className="size-3" />
+          <span>History</span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-1 max-h-96 overflow-y-auto" align="start">
+        {changes.length === 0 ? (
+          <p className="px-2 py-1.5 text-xs text-muted-foreground">No changes recorded</p>
+        ) : (
+          <ol>
+            {changes.map((change, i) => (
+              <li key={change.id} className="group flex items-start gap-2 px-2 py-1.5 rounded-md hover:bg-accent/40">
+                <div className="flex-1 min-w-0">
+                  {describeChange(change, nameOf).map((line, j) => (
+                    <p key={j} className="text-xs text-foreground truncate">{line}</p>
+                  ))}
+                  <p className="text-[11px] text-muted-foreground">{describeAuthorAndTime(change)}</p>
+                </div>
+                {/* The newest entry is the current state, so there is nothing to go back to */}
+                {i > 0 && (
+                  <button
+                    type="button"
+                    aria-label="Restore this version"
+                    title="Restore this version"
+                    onClick={() => restoreEntityChange(change)}
+                    className="p-1 rounded text-muted-foreground opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-accent hover:text-foreground transition-opacity"
+                  >
+                    <RotateCcw className="size-3" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
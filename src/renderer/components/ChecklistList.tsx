@@ -1,11 +1,16 @@
 import { useState, useEffect, useRef, useCallback, useMemo, KeyboardEvent } from 'react';
-import { Circle, CheckCircle2 } from 'lucide-react';
+import { Circle, CheckCircle2, GripVertical, ArrowUpRight } from 'lucide-react';
 import type { ChecklistItem } from '@shared/types';
 import { useStore } from '../stores';
 import { useDebouncedCallback } from '../hooks/useDebouncedCallback';
+import { useDragReorder, type DropTarget } from '../hooks/useDragReorder';
+import { DropIndicator } from './DropIndicator';
 
 const DEBOUNCE_MS = 500;
 const EMPTY_ARRAY: ChecklistItem[] = [];
+const CHECKLIST_DRAG_TYPE = 'application/x-cortex-checklist-item';
+
+type DragProps = ReturnType<ReturnType<typeof useDragReorder>['itemProps']>;
 
 interface ChecklistListProps {
   taskId: string;
@@ -19,6 +24,8 @@ function ChecklistItemRow({
   onEnter,
   onBackspaceEmpty,
   autoFocus,
+  dragProps,
+  dropTarget,
 }: {
   item: ChecklistItem;
   taskId: string;
@@ -26,8 +33,12 @@ function ChecklistItemRow({
   onEnter: () => void;
   onBackspaceEmpty: (id: string) => void;
   autoFocus?: boolean;
+  dragProps: DragProps;
+  dropTarget: DropTarget | null;
 }) {
   const updateChecklistItem = useStore((s) => s.updateChecklistItem);
+  const promoteChecklistItem = useStore((s) => s.promoteChecklistItem);
+  const showToast = useStore((s) => s.showToast);
   const [title, setTitle] = useState(item.title);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -70,6 +81,13 @@ function ChecklistItemRow({
     updateChecklistItem(item.id, taskId, { is_done: !item.is_done });
   };
 
+  const handlePromote = async () => {
+    // Save a pending rename first so the task gets the title as shown
+    flushTitle();
+    const task = await promoteChecklistItem(item.id, taskId);
+    if (task) showToast(`Converted "${task.title}" to a task`);
+  };
+
   const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter') {
       e.preventDefault();
@@ -92,8 +110,21 @@ function ChecklistItemRow({
     }
   };
 
+  // Only the grip starts a drag, so text in the input stays selectable
+  const { draggable, onDragStart, onDragEnd, ...dropProps } = dragProps;
+
   return (
-    <div className="flex items-center gap-2 py-0.5 group/item">
+    <div className="relative flex items-center gap-2 py-0.5 group/item" {...dropProps}>
+      <DropIndicator target={dropTarget} id={item.id} />
+      <span
+        draggable={draggable}
+        onDragStart={onDragStart}
+        onDragEnd={onDragEnd}
+        aria-label="Drag to reorder"
+        className="absolute -left-4 text-muted-foreground/0 group-hover/item:text-muted-foreground/40 cursor-grab"
+      >
+        <GripVertical className="size-3" />
+      </span>
       <button
         onClick={handleToggle}
         tabIndex={tabIndex}
@@ -117,6 +148,16 @@ function ChecklistItemRow({
           item.is_done ? 'line-through text-muted-foreground/60' : 'text-foreground/80'
         }`}
       />
+      <button
+        type="button"
+        onClick={handlePromote}
+        tabIndex={tabIndex}
+        aria-label="Convert to task"
+        title="Convert to task"
+        className="shrink-0 p-0.5 rounded text-muted-foreground/0 group-hover/item:text-muted-foreground/50 focus-visible:text-muted-foreground transition-colors"
+      >
+        <ArrowUpRight className="size-3" />
+      </button>
     </div>
   );
 }
@@ -126,6 +167,7 @@ export function ChecklistList({ taskId, isExpanded }: ChecklistListProps) {
   const fetchChecklistItems = useStore((s) => s.fetchChecklistItems);
   const createChecklistItem = useStore((s) => s.createChecklistItem);
   const deleteChecklistItem = useStore((s) => s.deleteChecklistItem);
+  const moveChecklistItem = useStore((s) => s.moveChecklistItem);
 
   const [addingText, setAddingText] = useState('');
   const [isAdding, setIsAdding] = useState(false);
@@ -161,6 +203,12 @@ export function ChecklistList({ taskId, isExpanded }: ChecklistListProps) {
   };
 
   const sorted = useMemo(() => [...items].sort((a, b) => a.sort_order - b.sort_order), [items]);
+  const sortedIds = useMemo(() => sorted.map((item) => item.id), [sorted]);
+  const { dropTarget, itemProps } = useDragReorder({
+    ids: sortedIds,
+    type: CHECKLIST_DRAG_TYPE,
+    onMove: (id, orderedIds) => moveChecklistItem(id, taskId, orderedIds),
+  });
   const tabIndex = isExpanded === false ? -1 : 0;
 
   // Don't render if no items and not adding
@@ -189,6 +237,8 @@ export function ChecklistList({ taskId, isExpanded }: ChecklistListProps) {
           onEnter={handleEnterOnItem}
           onBackspaceEmpty={handleBackspaceEmpty}
           autoFocus={autoFocusId === item.id}
+          dragProps={itemProps(item.id)}
+          dropTarget={dropTarget}
         />
       ))}
       <div className="flex items-center gap-2 py-0.5">
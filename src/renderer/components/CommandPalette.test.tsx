@@ -30,6 +30,8 @@ const mockTasks: Task[] = [
     completed_at: null,
     stale_at: null,
     assignee_id: null,
+    recurrence: null,
+    estimate_minutes: null,
   },
   {
     id: 't2',
@@ -49,6 +51,8 @@ const mockTasks: Task[] = [
     completed_at: null,
     stale_at: null,
     assignee_id: null,
+    recurrence: null,
+    estimate_minutes: null,
   },
   {
     id: 't3',
@@ -68,6 +72,8 @@ const mockTasks: Task[] = [
     completed_at: null,
     stale_at: null,
     assignee_id: null,
+    recurrence: null,
+    estimate_minutes: null,
   },
 ];
 
@@ -136,6 +142,7 @@ function defaultProps() {
     onCreateTask: vi.fn(),
     onCreateProject: vi.fn(),
     onCreateNote: vi.fn(),
+    onCreateFromTemplate: vi.fn(),
   };
 }
 
@@ -347,4 +354,12 @@ describe('CommandPalette', () => {
     const items = document.querySelectorAll('[data-selected]');
     expect(items.length).toBeGreaterThanOrEqual(0);
   });
+
+  it('offers creating from a template as a quick action', () => {
+    const props = defaultProps();
+    render(<CommandPalette {...props} />);
+    fireEvent.click(screen.getByText('New from Template…'));
+    expect(props.onCreateFromTemplate).toHaveBeenCalled();
+    expect(mockStore.closeCommandPalette).toHaveBeenCalled();
+  });
 });
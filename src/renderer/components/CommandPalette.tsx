@@ -14,6 +14,7 @@ interface CommandPaletteProps {
   onCreateTask: () => void;
   onCreateProject: () => void;
   onCreateNote: () => void;
+  onCreateFromTemplate: () => void;
 }
 
 interface ResultItem {
@@ -33,6 +34,7 @@ export function CommandPalette({
   onCreateTask,
   onCreateProject,
   onCreateNote,
+  onCreateFromTemplate,
 }: CommandPaletteProps) {
   const open = useStore((s) => s.commandPaletteOpen as boolean);
   const closeCommandPalette = useStore((s) => s.closeCommandPalette as () => void);
@@ -96,6 +98,7 @@ export function CommandPalette({
       { id: 'new-task', type: 'action' as const, title: 'New Task' },
       { id: 'new-project', type: 'action' as const, title: 'New Project' },
       { id: 'new-note', type: 'action' as const, title: 'New Note' },
+      { id: 'new-from-template', type: 'action' as const, title: 'New from Template…' },
       { id: 'go-inbox', type: 'action' as const, title: 'Go to Inbox' },
       { id: 'go-today', type: 'action' as const, title: 'Go to Today' },
       { id: 'go-upcoming', type: 'action' as const, title: 'Go to Upcoming' },
@@ -130,6 +133,7 @@ export function CommandPalette({
           if (item.id === 'new-task') onCreateTask();
           else if (item.id === 'new-project') onCreateProject();
           else if (item.id === 'new-note') onCreateNote();
+          else if (item.id === 'new-from-template') onCreateFromTemplate();
           else if (item.id.startsWith('go-')) {
             const view = item.id.replace('go-', '') as SidebarView;
             onNavigateToView(view);
@@ -146,6 +150,7 @@ export function CommandPalette({
       onCreateTask,
       onCreateProject,
       onCreateNote,
+      onCreateFromTemplate,
     ]
   );
 
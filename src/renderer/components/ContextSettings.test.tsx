@@ -57,6 +57,8 @@ const fakeTask = (overrides: Partial<Task> = {}): Task => ({
   deleted_at: null,
   stale_at: null,
   assignee_id: null,
+  recurrence: null,
+  estimate_minutes: null,
   ...overrides,
 });
 
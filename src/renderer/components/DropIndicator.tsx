@@ -0,0 +1,10 @@
+import type { DropTarget } from '../hooks/useDragReorder';
+
+/** Line showing where a dragged row will land; the parent must be positioned */
+export function DropIndicator({ target, id, axis = 'y' }: { target: DropTarget | null; id: string; axis?: 'x' | 'y' }) {
+  if (target?.id !== id) return null;
+  const position = axis === 'y'
+    ? `inset-x-2 h-0.5 ${target.edge === 'before' ? '-top-px' : '-bottom-px'}`
+    : `inset-y-2 w-0.5 ${target.edge === 'before' ? '-left-2' : '-right-2'}`;
+  return <div aria-hidden className={`pointer-events-none absolute rounded-full bg-primary ${position}`} />;
+}
@@ -0,0 +1,44 @@
+import { format, parseISO } from 'date-fns';
+import { formatEstimate } from '@shared/estimate';
+import { useStore } from '../stores';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { Button } from './ui/button';
+
+/** Asks what to do with time a timer ran while the user was away */
+export function IdleTimeDialog() {
+  const warning = useStore((s) => s.idleWarning);
+  const setIdleWarning = useStore((s) => s.setIdleWarning);
+  const discardIdleTime = useStore((s) => s.discardIdleTime);
+
+  const minutes = warning
+    ? Math.max(1, Math.round((parseISO(warning.idle_until).getTime() - parseISO(warning.idle_since).getTime()) / 60_000))
+    : 0;
+
+  return (
+    <Dialog open={!!warning} onOpenChange={(isOpen) => { if (!isOpen) setIdleWarning(null); }}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>You were away for {formatEstimate(minutes)}</DialogTitle>
+          {warning && (
+            <DialogDescription>
+              The timer on “{warning.task_title}” kept running from {format(parseISO(warning.idle_since), 'HH:mm')} to{' '}
+              {format(parseISO(warning.idle_until), 'HH:mm')}.
+            </DialogDescription>
+          )}
+        </DialogHeader>
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => discardIdleTime(false)}>Discard and stop</Button>
+          <Button variant="outline" onClick={() => discardIdleTime(true)}>Discard and continue</Button>
+          <Button onClick={() => setIdleWarning(null)}>Keep time</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,14 +4,21 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import '@testing-library/jest-dom/vitest';
 import { InlineTaskCard } from './InlineTaskCard';
 
+// The card creates through createTasks; each input is recorded on mockCreateTask
 const mockCreateTask = vi.fn();
+const mockCreateTasks = vi.fn((inputs: unknown[]) => Promise.all(inputs.map((input) => mockCreateTask(input))));
 const mockCancelInlineCreate = vi.fn();
-const mockCreateChecklistItem = vi.fn();
 
 const mockContexts = [
   { id: 'ctx-1', name: 'Work', color: '#ff0000', icon: null, sort_order: 0, created_at: '', updated_at: '', deleted_at: null },
   { id: 'ctx-2', name: 'Personal', color: '#00ff00', icon: null, sort_order: 1, created_at: '', updated_at: '', deleted_at: null },
 ];
+const mockAgents = [
+  { id: 'agent-1', name: 'Research Bot', permissions: { read: true, write: true }, last_used_at: null, created_at: '', revoked_at: null },
+];
+const mockStakeholders = [
+  { id: 'sh-1', name: 'Anna Schmidt', organization: null, role: null, email: null, phone: null, notes: null, avatar_url: null, created_at: '', updated_at: '', deleted_at: null },
+];
 const mockProjects = [
   { id: 'proj-1', title: 'Cortex', description: null, status: 'active' as const, context_id: null, sort_order: 0, created_at: '', updated_at: '', completed_at: null, deleted_at: null },
   { id: 'proj-2', title: 'Website', description: null, status: 'active' as const, context_id: null, sort_order: 1, created_at: '', updated_at: '', completed_at: null, deleted_at: null },
@@ -23,10 +30,11 @@ let mockActiveContextIds: string[] = [];
 vi.mock('../stores', () => ({
   useStore: (selector: (state: Record<string, unknown>) => unknown) => {
     const state = {
-      createTask: mockCreateTask,
+      createTasks: mockCreateTasks,
       cancelInlineCreate: mockCancelInlineCreate,
-      createChecklistItem: mockCreateChecklistItem,
       contexts: mockContexts,
+      agents: mockAgents,
+      stakeholders: mockStakeholders,
       projects: mockProjects,
       inlineCreateDefaults: mockInlineCreateDefaults,
       activeContextIds: mockActiveContextIds,
@@ -62,11 +70,6 @@ describe('InlineTaskCard', () => {
       title: 'Test',
       status: 'inbox',
     });
-    mockCreateChecklistItem.mockResolvedValue({
-      id: 'cl-1',
-      task_id: 'new-1',
-      title: 'Step',
-    });
   });
 
   it('creates a task on Enter and closes', async () => {
@@ -291,7 +294,7 @@ describe('InlineTaskCard', () => {
     expect(screen.queryByPlaceholderText('Checklist item')).not.toBeInTheDocument();
   });
 
-  it('creates checklist items after task creation', async () => {
+  it('creates checklist items together with the task', async () => {
     render(<InlineTaskCard />);
 
     // Add two checklist items
@@ -308,11 +311,8 @@ describe('InlineTaskCard', () => {
     fireEvent.change(titleInput, { target: { value: 'Task with steps' } });
     fireEvent.keyDown(titleInput, { key: 'Enter' });
 
-    await waitFor(() => {
-      expect(mockCreateChecklistItem).toHaveBeenCalledTimes(2);
-      expect(mockCreateChecklistItem).toHaveBeenCalledWith({ task_id: 'new-1', title: 'Step 1' });
-      expect(mockCreateChecklistItem).toHaveBeenCalledWith({ task_id: 'new-1', title: 'Step 2' });
-    });
+    expect(mockCreateTasks).toHaveBeenCalledTimes(1);
+    expect(mockCreateTask).toHaveBeenCalledWith({ title: 'Task with steps', checklist: ['Step 1', 'Step 2'] });
   });
 
   it('includes project_id in createTask when inlineCreateDefaults has project_id', () => {
@@ -354,10 +354,7 @@ describe('InlineTaskCard', () => {
     fireEvent.change(titleInput, { target: { value: 'My task' } });
     fireEvent.keyDown(titleInput, { key: 'Enter' });
 
-    await waitFor(() => {
-      expect(mockCreateChecklistItem).toHaveBeenCalledTimes(1);
-      expect(mockCreateChecklistItem).toHaveBeenCalledWith({ task_id: 'new-1', title: 'Real step' });
-    });
+    expect(mockCreateTask).toHaveBeenCalledWith({ title: 'My task', checklist: ['Real step'] });
   });
 
   // --- Token parsing tests ---
@@ -415,6 +412,36 @@ describe('InlineTaskCard', () => {
     });
   });
 
+  it('creates task with parsed recurrence from token', async () => {
+    render(<InlineTaskCard />);
+    const input = screen.getByPlaceholderText('New task');
+
+    fireEvent.change(input, { target: { value: 'Task every:mon' } });
+    expect(screen.getByTestId('chip-recurrence')).toHaveTextContent('Every Mon');
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    await waitFor(() => {
+      expect(mockCreateTask).toHaveBeenCalledWith(
+        expect.objectContaining({ title: 'Task', recurrence: 'weekly:mon' })
+      );
+    });
+  });
+
+  it('creates task with parsed estimate from token', async () => {
+    render(<InlineTaskCard />);
+    const input = screen.getByPlaceholderText('New task');
+
+    fireEvent.change(input, { target: { value: 'Task ~90m' } });
+    expect(screen.getByTestId('chip-estimate')).toHaveTextContent('1h 30m');
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    await waitFor(() => {
+      expect(mockCreateTask).toHaveBeenCalledWith(
+        expect.objectContaining({ title: 'Task', estimate_minutes: 90 })
+      );
+    });
+  });
+
   it('strips tokens from title on submit', async () => {
     render(<InlineTaskCard />);
     const input = screen.getByPlaceholderText('New task');
@@ -475,6 +502,124 @@ describe('InlineTaskCard', () => {
     });
   });
 
+  it('previews the resolved date for a do: token', async () => {
+    render(<InlineTaskCard />);
+    const input = screen.getByPlaceholderText('New task');
+
+    Object.defineProperty(input, 'selectionStart', { value: 24, configurable: true });
+    fireEvent.change(input, { target: { value: 'Report do:2099-03-15 9am' } });
+
+    await waitFor(() => {
+      expect(screen.getByTestId('date-preview')).toHaveTextContent('Sun, Mar 15, 2099 at 09:00');
+    });
+  });
+
+  it('says when a due: phrase is not a date yet, and Enter still saves', async () => {
+    render(<InlineTaskCard />);
+    const input = screen.getByPlaceholderText('New task');
+
+    Object.defineProperty(input, 'selectionStart', { value: 15, configurable: true });
+    fireEvent.change(input, { target: { value: 'Report due:soon' } });
+
+    expect(screen.getByTestId('date-preview')).toHaveTextContent('No date recognised');
+
+    fireEvent.keyDown(input, { key: 'Enter' });
+    await waitFor(() => {
+      expect(mockCreateTask).toHaveBeenCalledWith(expect.objectContaining({ title: 'Report' }));
+    });
+  });
+
+  it('creates a task with priority, assignee and checklist tokens in one write', async () => {
+    render(<InlineTaskCard />);
+    const input = screen.getByPlaceholderText('New task');
+
+    fireEvent.change(input, { target: { value: 'Send contract !p1 @anna_schmidt [ ] sign [ ] scan' } });
+    expect(screen.getByTestId('chip-priority')).toHaveTextContent('P1');
+    expect(screen.getByTestId('chip-assignee')).toHaveTextContent('Anna Schmidt');
+    expect(screen.getByTestId('chip-checklist')).toHaveTextContent('2 checklist items');
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(mockCreateTasks).toHaveBeenCalledTimes(1);
+    expect(mockCreateTask).toHaveBeenCalledWith({
+      title: 'Send contract',
+      priority: 'P1',
+      assignee_id: 'sh-1',
+      checklist: ['sign', 'scan'],
+    });
+  });
+
+  it('suggests agents and stakeholders for @ and inserts the pick', async () => {
+    render(<InlineTaskCard />);
+    const input = screen.getByPlaceholderText('New task');
+
+    Object.defineProperty(input, 'selectionStart', { value: 8, configurable: true });
+    fireEvent.change(input, { target: { value: 'Review @' } });
+
+    const dropdown = screen.getByTestId('token-autocomplete');
+    expect(dropdown).toHaveTextContent('Research_Bot');
+    expect(dropdown).toHaveTextContent('Anna_Schmidt');
+
+    fireEvent.mouseDown(screen.getByText('Anna_Schmidt'));
+    expect(input).toHaveValue('Review @Anna_Schmidt ');
+  });
+
+  it('suggests priorities for !', () => {
+    render(<InlineTaskCard />);
+    const input = screen.getByPlaceholderText('New task');
+
+    Object.defineProperty(input, 'selectionStart', { value: 6, configurable: true });
+    fireEvent.change(input, { target: { value: 'Task !' } });
+
+    expect(screen.getByTestId('token-autocomplete')).toHaveTextContent('Priority');
+    expect(screen.getAllByRole('option').map((o) => o.textContent)).toEqual(['p1High', 'p2Medium', 'p3Low']);
+  });
+
+  it('previews pasted lines and creates one task per line in one write', async () => {
+    render(<InlineTaskCard />);
+    const input = screen.getByPlaceholderText('New task');
+
+    fireEvent.paste(input, { clipboardData: { getData: () => 'Buy milk #Work\nCall Bob\n- [ ] number' } });
+
+    const preview = screen.getByTestId('paste-preview');
+    expect(preview).toHaveTextContent('Buy milk');
+    expect(preview).toHaveTextContent('number');
+    expect(mockCreateTasks).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByText('Create 2 tasks'));
+
+    expect(mockCreateTasks).toHaveBeenCalledTimes(1);
+    expect(mockCreateTasks).toHaveBeenCalledWith([
+      { title: 'Buy milk', context_id: 'ctx-1' },
+      { title: 'Call Bob', checklist: ['number'] },
+    ]);
+    await waitFor(() => {
+      expect(mockCancelInlineCreate).toHaveBeenCalled();
+    });
+  });
+
+  it('turns pasted lines into one task with a checklist', () => {
+    render(<InlineTaskCard />);
+    const input = screen.getByPlaceholderText('New task');
+
+    fireEvent.paste(input, { clipboardData: { getData: () => 'Groceries\nmilk\neggs' } });
+    fireEvent.click(screen.getByRole('radio', { name: 'One task with checklist' }));
+    fireEvent.click(screen.getByText('Create 1 task'));
+
+    expect(mockCreateTasks).toHaveBeenCalledWith([{ title: 'Groceries', checklist: ['milk', 'eggs'] }]);
+  });
+
+  it('closes the paste preview on Escape without creating anything', () => {
+    render(<InlineTaskCard />);
+    const input = screen.getByPlaceholderText('New task');
+
+    fireEvent.paste(input, { clipboardData: { getData: () => 'A\nB' } });
+    fireEvent.keyDown(document, { key: 'Escape' });
+
+    expect(screen.queryByTestId('paste-preview')).not.toBeInTheDocument();
+    expect(mockCancelInlineCreate).not.toHaveBeenCalled();
+    expect(mockCreateTasks).not.toHaveBeenCalled();
+  });
+
   // --- Auto-apply context from filter ---
 
   it('auto-applies context_id when single context filter is active', async () => {
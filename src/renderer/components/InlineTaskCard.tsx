@@ -1,45 +1,90 @@
-import { useState, useRef, useEffect, useCallback, useMemo, type KeyboardEvent } from 'react';
-import { Circle, Calendar, Flag, Layers, Cloud, Plus, Hash, FolderOpen } from 'lucide-react';
+import { useState, useRef, useEffect, useCallback, useMemo, type KeyboardEvent, type ClipboardEvent } from 'react';
+import { Circle, Calendar, Flag, Layers, Cloud, Plus, Hash, FolderOpen, Repeat, Timer, AtSign, ListChecks, Tag } from 'lucide-react';
 import type { TaskStatus } from '@shared/types';
+import { describeRecurrence } from '@shared/recurrence';
+import { formatEstimate } from '@shared/estimate';
 import { useStore } from '../stores';
 import { DatePickerButton, type DatePickerAction } from './DatePickerButton';
-import { parseTaskInput } from '../lib/parseTaskInput';
-import { TokenAutocomplete } from './TokenAutocomplete';
+import { parseTaskInput, type QuickAddAssignee } from '../lib/parseTaskInput';
+import { executeQuickAdd } from '../lib/executeCreateAction';
+import { isMultiLinePaste, splitPastedTasks, type PasteMode } from '../lib/parsePastedTasks';
+import { TokenAutocomplete, type TokenType } from './TokenAutocomplete';
 import { cn } from '../lib/utils';
 
 interface ActiveToken {
-  type: 'context' | 'project';
+  type: TokenType;
   query: string;
   start: number;
   end: number;
 }
 
-/** Look backwards from cursorPos to find an active # or + token */
+const TRIGGERS: Record<string, TokenType> = {
+  '#': 'context',
+  '+': 'project',
+  '@': 'assignee',
+  '!': 'priority',
+  '~': 'estimate',
+  '*': 'tag',
+};
+
+const TRIGGER_FOR: Partial<Record<TokenType, string>> = {
+  context: '#',
+  project: '+',
+  assignee: '@',
+  priority: '!',
+  estimate: '~',
+  tag: '*',
+};
+
+const PRIORITY_ITEMS = [
+  { id: 'p1', name: 'p1', hint: 'High' },
+  { id: 'p2', name: 'p2', hint: 'Medium' },
+  { id: 'p3', name: 'p3', hint: 'Low' },
+];
+
+const ESTIMATE_ITEMS = [15, 30, 60, 120, 240].map((minutes) => ({
+  id: String(minutes),
+  name: formatEstimate(minutes).replace(' ', ''),
+}));
+
+/** Checklist items shown in the paste preview before "+N more" */
+const PASTE_PREVIEW_ITEMS = 3;
+
+/** Look backwards from cursorPos to find an active #, +, @, !, ~, *, do: or due: token */
 function getActiveToken(input: string, cursorPos: number): ActiveToken | null {
   const before = input.slice(0, cursorPos);
 
-  // Find the last # or + that is at start or preceded by whitespace
-  const match = before.match(/(?:^|\s)([#+])(\S*)$/);
-  if (!match) return null;
-
-  const trigger = match[1];
-  const query = match[2];
-  const tokenStart = before.lastIndexOf(trigger);
+  // Find the last trigger character that is at start or preceded by whitespace
+  const match = before.match(/(?:^|\s)([#+@!~*])(\S*)$/);
+  if (!match) {
+    // Date phrases can span words ("due:end of month"), so a do:/due: token
+    // stays active for as many words as parseLeadingDate will look at
+    const dateMatch = before.match(/(?:^|\s)(do|due):((?:\S+\s+){0,5}\S*)$/);
+    if (!dateMatch) return null;
+    return {
+      type: dateMatch[1] === 'do' ? 'when' : 'deadline',
+      query: dateMatch[2],
+      start: before.length - dateMatch[0].length + (/^\s/.test(dateMatch[0]) ? 1 : 0),
+      end: cursorPos,
+    };
+  }
 
   return {
-    type: trigger === '#' ? 'context' : 'project',
-    query,
-    start: tokenStart,
+    type: TRIGGERS[match[1]],
+    query: match[2],
+    start: before.length - match[0].length + (/^\s/.test(match[0]) ? 1 : 0),
     end: cursorPos,
   };
 }
 
 export function InlineTaskCard() {
-  const createTask = useStore((s) => s.createTask);
+  const createTasks = useStore((s) => s.createTasks);
   const cancelInlineCreate = useStore((s) => s.cancelInlineCreate);
-  const createChecklistItem = useStore((s) => s.createChecklistItem);
   const contexts = useStore((s) => s.contexts);
   const projects = useStore((s) => s.projects);
+  const agents = useStore((s) => s.agents);
+  const stakeholders = useStore((s) => s.stakeholders);
+  const tags = useStore((s) => s.tags);
   const inlineCreateDefaults = useStore((s) => s.inlineCreateDefaults);
   const activeContextIds = useStore((s) => s.activeContextIds);
 
@@ -51,6 +96,8 @@ export function InlineTaskCard() {
   const [checklistItems, setChecklistItems] = useState<{ key: number; title: string }[]>([]);
   const [nextKey, setNextKey] = useState(0);
   const [activeToken, setActiveToken] = useState<ActiveToken | null>(null);
+  const [pasted, setPasted] = useState<string | null>(null);
+  const [pasteMode, setPasteMode] = useState<PasteMode>('tasks');
 
   const cardRef = useRef<HTMLDivElement>(null);
   const titleInputRef = useRef<HTMLInputElement>(null);
@@ -61,6 +108,7 @@ export function InlineTaskCard() {
   const statusRef = useRef(status);
   const checklistRef = useRef(checklistItems);
   const activeTokenRef = useRef(activeToken);
+  const pastedRef = useRef(pasted);
 
   titleRef.current = title;
   notesRef.current = notes;
@@ -69,26 +117,65 @@ export function InlineTaskCard() {
   statusRef.current = status;
   checklistRef.current = checklistItems;
   activeTokenRef.current = activeToken;
+  pastedRef.current = pasted;
 
   const contextsRef = useRef(contexts);
   contextsRef.current = contexts;
   const projectsRef = useRef(projects);
   projectsRef.current = projects;
 
+  const assignees = useMemo<QuickAddAssignee[]>(
+    () => [
+      ...(agents ?? []).filter((a) => !a.revoked_at).map((a) => ({ id: a.id, name: a.name })),
+      ...(stakeholders ?? []).map((s) => ({ id: s.id, name: s.name })),
+    ],
+    [agents, stakeholders]
+  );
+  const assigneesRef = useRef(assignees);
+  assigneesRef.current = assignees;
+
   const defaultProjectId = inlineCreateDefaults?.project_id ?? null;
   const defaultProjectIdRef = useRef(defaultProjectId);
   defaultProjectIdRef.current = defaultProjectId;
 
   const parsed = useMemo(
-    () => parseTaskInput(title, contexts ?? [], projects ?? []),
-    [title, contexts, projects]
+    () => parseTaskInput(title, contexts ?? [], projects ?? [], undefined, assignees),
+    [title, contexts, projects, assignees]
   );
 
   const hasAnyParsedToken =
     parsed.raw.context !== undefined ||
     parsed.raw.project !== undefined ||
     parsed.raw.whenDate !== undefined ||
-    parsed.raw.deadline !== undefined;
+    parsed.raw.deadline !== undefined ||
+    parsed.raw.recurrence !== undefined ||
+    parsed.raw.estimate !== undefined ||
+    parsed.raw.priority !== undefined ||
+    parsed.raw.assignee !== undefined ||
+    parsed.tags !== undefined ||
+    parsed.checklist !== undefined;
+
+  const pastedTasks = useMemo(
+    () => (pasted === null ? [] : splitPastedTasks(pasted, pasteMode)),
+    [pasted, pasteMode]
+  );
+  const pastedParsed = useMemo(
+    () => pastedTasks.map((t) => {
+      const p = parseTaskInput(t.line, contexts ?? [], projects ?? [], undefined, assignees);
+      return { ...p, checklist: [...(p.checklist ?? []), ...t.checklist] };
+    }),
+    [pastedTasks, contexts, projects, assignees]
+  );
+  const pastedCount = pastedParsed.filter((p) => p.title.trim()).length;
+
+  /** Card values every new task falls back to when its line has no token */
+  const cardFallbacks = useCallback(() => ({
+    when_date: whenDateRef.current,
+    deadline: deadlineRef.current,
+    status: statusRef.current,
+    project_id: defaultProjectIdRef.current,
+    context_id: activeContextIds.length === 1 ? activeContextIds[0] : null,
+  }), [activeContextIds]);
 
   const saveAndClose = useCallback(async () => {
     const trimmedRaw = titleRef.current.trim();
@@ -98,67 +185,60 @@ export function InlineTaskCard() {
     }
 
     // Re-parse at save time using current state
-    const parsedAtSave = parseTaskInput(trimmedRaw, contextsRef.current ?? [], projectsRef.current ?? []);
-    const trimmed = parsedAtSave.title.trim();
-
-    if (!trimmed) {
+    const parsedAtSave = parseTaskInput(
+      trimmedRaw, contextsRef.current ?? [], projectsRef.current ?? [], undefined, assigneesRef.current
+    );
+    if (!parsedAtSave.title.trim()) {
       cancelInlineCreate();
       return;
     }
 
-    const input: {
-      title: string;
-      notes?: string;
-      when_date?: string;
-      deadline?: string;
-      status?: TaskStatus;
-      project_id?: string;
-      context_id?: string;
-    } = { title: trimmed };
-
-    if (notesRef.current.trim()) {
-      input.notes = notesRef.current.trim();
-    }
-
-    // Token dates take priority; fall back to DatePickerButton values
-    if (parsedAtSave.whenDate) {
-      input.when_date = parsedAtSave.whenDate;
-    } else if (whenDateRef.current) {
-      input.when_date = whenDateRef.current;
-    }
+    // Token values take priority; fall back to the card's pickers and defaults
+    await executeQuickAdd([parsedAtSave], {
+      ...cardFallbacks(),
+      notes: notesRef.current,
+      checklist: checklistRef.current.map((item) => item.title),
+    }, createTasks);
 
-    if (parsedAtSave.deadline) {
-      input.deadline = parsedAtSave.deadline;
-    } else if (deadlineRef.current) {
-      input.deadline = deadlineRef.current;
-    }
-
-    if (statusRef.current !== 'inbox') {
-      input.status = statusRef.current;
-    }
+    cancelInlineCreate();
+  }, [createTasks, cancelInlineCreate, cardFallbacks]);
 
-    // Token project overrides default
-    if (parsedAtSave.projectId) {
-      input.project_id = parsedAtSave.projectId;
-    } else if (defaultProjectIdRef.current) {
-      input.project_id = defaultProjectIdRef.current;
-    }
+  const createPasted = async () => {
+    await executeQuickAdd(pastedParsed, cardFallbacks(), createTasks);
+    cancelInlineCreate();
+  };
 
-    if (parsedAtSave.contextId) {
-      input.context_id = parsedAtSave.contextId;
-    } else if (activeContextIds.length === 1) {
-      input.context_id = activeContextIds[0];
-    }
+  // Several pasted lines open a preview instead of landing in the title field
+  const handleTitlePaste = (e: ClipboardEvent<HTMLInputElement>) => {
+    const text = e.clipboardData.getData('text/plain');
+    if (!isMultiLinePaste(text)) return;
+    e.preventDefault();
+    setActiveToken(null);
+    setPasteMode('tasks');
+    setPasted(`${titleRef.current.trim()}\n${text}`);
+  };
 
-    const task = await createTask(input);
-    for (const item of checklistRef.current) {
-      if (item.title.trim()) {
-        await createChecklistItem({ task_id: task.id, title: item.title.trim() });
-      }
+  /** Suggestions for a token type; `name` is what gets inserted after the trigger */
+  const itemsForToken = (type: TokenType): { id: string; name: string; color?: string | null; hint?: string }[] => {
+    switch (type) {
+      case 'context':
+        return (contexts ?? []).map((c) => ({ id: c.id, name: c.name, color: c.color }));
+      case 'project':
+        return (projects ?? []).map((p) => ({ id: p.id, name: p.title, color: null }));
+      case 'assignee':
+        // Spaces would end the token, so "Anna Schmidt" is written @Anna_Schmidt
+        return assignees.map((a) => ({ id: a.id, name: a.name.replace(/\s+/g, '_') }));
+      case 'priority':
+        return PRIORITY_ITEMS;
+      case 'estimate':
+        return ESTIMATE_ITEMS;
+      case 'tag':
+        // Names that match no tag are created when the task is saved
+        return (tags ?? []).map((t) => ({ id: t.id, name: t.name, color: t.color }));
+      default:
+        return [];
     }
-
-    cancelInlineCreate();
-  }, [createTask, cancelInlineCreate, createChecklistItem, activeContextIds]);
+  };
 
   const handleTitleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newValue = e.target.value;
@@ -170,32 +250,30 @@ export function InlineTaskCard() {
 
     // If the query is an exact match to a known item, dismiss the autocomplete —
     // the token is already resolved and the user can press Enter to submit.
-    if (token) {
-      const pool =
-        token.type === 'context'
-          ? (contexts ?? []).map((c) => c.name)
-          : (projects ?? []).map((p) => p.title);
-      const exactMatch = pool.some((name) => name.toLowerCase() === token.query.toLowerCase());
-      setActiveToken(exactMatch ? null : token);
-    } else {
-      setActiveToken(null);
-    }
+    const exactMatch = token !== null &&
+      itemsForToken(token.type).some((item) => item.name.toLowerCase() === token.query.toLowerCase());
+    setActiveToken(exactMatch ? null : token);
   };
 
   const handleTitleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
-    // When autocomplete is open, Enter/Tab are handled by TokenAutocomplete's keydown listener
-    if (activeTokenRef.current && (e.key === 'Enter' || e.key === 'Tab' || e.key === 'Escape')) {
+    // When autocomplete is open, Enter/Tab are handled by TokenAutocomplete's keydown listener.
+    // With nothing to pick (a date preview, a custom ~estimate) Enter still saves.
+    const token = activeTokenRef.current;
+    const pickable = token !== null && itemsForToken(token.type)
+      .some((item) => item.name.toLowerCase().includes(token.query.toLowerCase()));
+    if (token && (e.key === 'Escape' || (pickable && (e.key === 'Enter' || e.key === 'Tab')))) {
       return;
     }
     if (e.key === 'Enter') {
       e.preventDefault();
-      saveAndClose();
+      if (pastedRef.current !== null) createPasted();
+      else saveAndClose();
     }
   };
 
   const handleAutocompleteSelect = (item: { id: string; name: string }) => {
     if (!activeToken) return;
-    const trigger = activeToken.type === 'context' ? '#' : '+';
+    const trigger = TRIGGER_FOR[activeToken.type] ?? '';
     const before = title.slice(0, activeToken.start);
     const after = title.slice(activeToken.end);
     const newTitle = `${before}${trigger}${item.name} ${after.trimStart()}`;
@@ -211,19 +289,15 @@ export function InlineTaskCard() {
     });
   };
 
-  const handleAutocompleteItemsForToken = () => {
-    if (!activeToken) return [];
-    if (activeToken.type === 'context') {
-      return (contexts ?? []).map((c) => ({ id: c.id, name: c.name, color: c.color }));
-    }
-    return (projects ?? []).map((p) => ({ id: p.id, name: p.title, color: null }));
-  };
 
   // Escape key handler
   useEffect(() => {
     const handleKeyDown = (e: globalThis.KeyboardEvent) => {
       if (e.key === 'Escape') {
-        if (activeTokenRef.current) {
+        if (pastedRef.current !== null) {
+          // Back to the card without the pasted lines
+          setPasted(null);
+        } else if (activeTokenRef.current) {
           // Dismiss autocomplete but don't cancel the card
           setActiveToken(null);
         } else {
@@ -243,6 +317,8 @@ export function InlineTaskCard() {
         if ((e.target as HTMLElement).closest?.('[data-radix-popper-content-wrapper]')) {
           return;
         }
+        // A paste preview waits for an explicit choice
+        if (pastedRef.current !== null) return;
         saveAndClose();
       }
     };
@@ -299,7 +375,7 @@ export function InlineTaskCard() {
     status === 'someday' ? <Cloud className="size-3.5" /> :
     <Calendar className="size-3.5" />;
 
-  const autocompleteItems = handleAutocompleteItemsForToken();
+  const autocompleteItems = activeToken ? itemsForToken(activeToken.type) : [];
 
   return (
     <div
@@ -321,6 +397,7 @@ export function InlineTaskCard() {
             value={title}
             onChange={handleTitleChange}
             onKeyDown={handleTitleKeyDown}
+            onPaste={handleTitlePaste}
             placeholder="New task"
             className="flex-1 bg-transparent text-[13px] leading-snug text-foreground font-medium outline-none min-w-0"
             autoFocus
@@ -354,8 +431,66 @@ export function InlineTaskCard() {
         )}
       </div>
 
+      {/* Preview of pasted lines before anything is created */}
+      {pasted !== null && (
+        <div data-testid="paste-preview" className="pr-4 pb-2" style={{ paddingLeft: 46 }}>
+          <div role="radiogroup" aria-label="Create pasted lines as" className="flex gap-1 pb-1.5">
+            {(['tasks', 'checklist'] as const).map((mode) => (
+              <button
+                key={mode}
+                type="button"
+                role="radio"
+                aria-checked={pasteMode === mode}
+                onClick={() => setPasteMode(mode)}
+                className={cn(
+                  'rounded-md px-2 py-0.5 text-xs transition-colors cursor-pointer',
+                  pasteMode === mode ? 'bg-accent text-foreground' : 'text-muted-foreground hover:bg-accent/60'
+                )}
+              >
+                {mode === 'tasks' ? 'One task per line' : 'One task with checklist'}
+              </button>
+            ))}
+          </div>
+          <ul className="space-y-0.5">
+            {pastedParsed.filter((p) => p.title.trim()).map((p, index) => (
+              <li key={index} className="text-[13px] text-foreground">
+                <div className="flex items-center gap-2">
+                  <Circle className="size-[14px] text-muted-foreground/40 shrink-0" strokeWidth={1.5} />
+                  <span className="truncate">{p.title}</span>
+                </div>
+                {(p.checklist ?? []).slice(0, PASTE_PREVIEW_ITEMS).map((item, i) => (
+                  <div key={i} className="pl-6 text-xs text-muted-foreground truncate">{item}</div>
+                ))}
+                {(p.checklist ?? []).length > PASTE_PREVIEW_ITEMS && (
+                  <div className="pl-6 text-xs text-muted-foreground">
+                    +{(p.checklist ?? []).length - PASTE_PREVIEW_ITEMS} more
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+          <div className="flex items-center gap-2 pt-2">
+            <button
+              type="button"
+              onClick={createPasted}
+              disabled={pastedCount === 0}
+              className="rounded-md bg-primary px-2.5 py-1 text-xs font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50 cursor-pointer"
+            >
+              {pastedCount === 1 ? 'Create 1 task' : `Create ${pastedCount} tasks`}
+            </button>
+            <button
+              type="button"
+              onClick={() => setPasted(null)}
+              className="rounded-md px-2.5 py-1 text-xs text-muted-foreground hover:bg-accent/60 cursor-pointer"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Preview chips for parsed tokens */}
-      {hasAnyParsedToken && (
+      {hasAnyParsedToken && pasted === null && (
         <div className="flex flex-wrap gap-1.5 pb-1" style={{ paddingLeft: 46 }}>
           {parsed.raw.context !== undefined && (
             parsed.contextId ? (
@@ -423,6 +558,81 @@ export function InlineTaskCard() {
               {parsed.deadline ?? `${parsed.raw.deadline}?`}
             </span>
           )}
+          {parsed.raw.recurrence !== undefined && (
+            <span
+              data-testid="chip-recurrence"
+              className={cn(
+                'inline-flex items-center gap-1 rounded-full px-2.5 py-0.5 text-xs',
+                parsed.recurrence
+                  ? 'bg-accent/50 text-foreground'
+                  : 'bg-destructive/10 text-destructive'
+              )}
+            >
+              <Repeat className="size-3" />
+              {parsed.recurrence ? describeRecurrence(parsed.recurrence) : `${parsed.raw.recurrence}?`}
+            </span>
+          )}
+          {parsed.raw.estimate !== undefined && (
+            <span
+              data-testid="chip-estimate"
+              className={cn(
+                'inline-flex items-center gap-1 rounded-full px-2.5 py-0.5 text-xs',
+                parsed.estimateMinutes
+                  ? 'bg-accent/50 text-foreground'
+                  : 'bg-destructive/10 text-destructive'
+              )}
+            >
+              <Timer className="size-3" />
+              {parsed.estimateMinutes ? formatEstimate(parsed.estimateMinutes) : `${parsed.raw.estimate}?`}
+            </span>
+          )}
+          {parsed.raw.priority !== undefined && (
+            <span
+              data-testid="chip-priority"
+              className={cn(
+                'inline-flex items-center gap-1 rounded-full px-2.5 py-0.5 text-xs',
+                parsed.priority
+                  ? 'bg-accent/50 text-foreground'
+                  : 'bg-destructive/10 text-destructive'
+              )}
+            >
+              <Flag className="size-3" fill={parsed.priority === 'P1' ? 'currentColor' : 'none'} />
+              {parsed.priority ?? `${parsed.raw.priority}?`}
+            </span>
+          )}
+          {parsed.raw.assignee !== undefined && (
+            <span
+              data-testid="chip-assignee"
+              className={cn(
+                'inline-flex items-center gap-1 rounded-full px-2.5 py-0.5 text-xs',
+                parsed.assigneeId
+                  ? 'bg-accent/50 text-foreground'
+                  : 'bg-destructive/10 text-destructive'
+              )}
+            >
+              <AtSign className="size-3" />
+              {assignees.find((a) => a.id === parsed.assigneeId)?.name ?? `${parsed.raw.assignee}?`}
+            </span>
+          )}
+          {parsed.tags?.map((name) => (
+            <span
+              key={name}
+              data-testid="chip-tag"
+              className="inline-flex items-center gap-1 rounded-full px-2.5 py-0.5 text-xs bg-accent/50 text-foreground"
+            >
+              <Tag className="size-3" />
+              {(tags ?? []).find((t) => t.name.toLowerCase() === name.toLowerCase())?.name ?? name}
+            </span>
+          ))}
+          {parsed.checklist && (
+            <span
+              data-testid="chip-checklist"
+              className="inline-flex items-center gap-1 rounded-full px-2.5 py-0.5 text-xs bg-accent/50 text-foreground"
+            >
+              <ListChecks className="size-3" />
+              {parsed.checklist.length === 1 ? '1 checklist item' : `${parsed.checklist.length} checklist items`}
+            </span>
+          )}
         </div>
       )}
 
@@ -0,0 +1,145 @@
+import { useMemo, useState } from 'react';
+import type { Task } from '@shared/types';
+import { useStore } from '../stores';
+import { getLogbookStats, NO_CONTEXT, type StatsGranularity } from '../lib/logbookStats';
+import { BarChart, type BarSeries } from './BarChart';
+
+const GRANULARITIES: { value: StatsGranularity; label: string }[] = [
+  { value: 'day', label: 'Last 30 days' },
+  { value: 'week', label: 'Last 12 weeks' },
+];
+
+const COMPLETED_COLOR = 'var(--color-primary)';
+const CREATED_COLOR = 'var(--color-muted-foreground)';
+const NO_CONTEXT_COLOR = 'var(--color-muted-foreground)';
+
+function formatDays(days: number): string {
+  if (days < 1) return `${Math.round(days * 24)}h`;
+  return `${days < 10 ? days.toFixed(1).replace(/\.0$/, '') : Math.round(days)}d`;
+}
+
+function formatRate(perWeek: number): string {
+  return perWeek < 10 ? perWeek.toFixed(1).replace(/\.0$/, '') : String(Math.round(perWeek));
+}
+
+interface LogbookInsightsProps {
+  /** Every task in the active contexts and tags, open ones included */
+  tasks: Task[];
+}
+
+/** Completion charts and figures for the Logbook */
+export function LogbookInsights({ tasks }: LogbookInsightsProps) {
+  const projects = useStore((s) => s.projects);
+  const contexts = useStore((s) => s.contexts);
+  const [granularity, setGranularity] = useState<StatsGranularity>('week');
+
+  const stats = useMemo(() => getLogbookStats(tasks, projects, granularity), [tasks, projects, granularity]);
+
+  const contextSeries = useMemo<BarSeries[]>(() => {
+    const used = new Set(stats.buckets.flatMap((b) => Object.keys(b.byContext)));
+    const series: BarSeries[] = contexts
+      .filter((c) => used.has(c.id))
+      .map((c) => ({ key: c.id, label: c.name, color: c.color ?? COMPLETED_COLOR }));
+    if (used.has(NO_CONTEXT)) series.push({ key: NO_CONTEXT, label: 'No context', color: NO_CONTEXT_COLOR });
+    return series;
+  }, [stats, contexts]);
+
+  const period = granularity === 'day' ? 'day' : 'week';
+
+  return (
+    <div className="flex flex-col gap-8">
+      <div className="flex gap-1">
+        {GRANULARITIES.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => setGranularity(value)}
+            aria-pressed={granularity === value}
+            className={`px-2.5 py-1 text-xs rounded-md transition-colors ${
+              granularity === value
+                ? 'bg-primary text-primary-foreground'
+                : 'bg-muted text-muted-foreground hover:text-foreground'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <dl className="grid grid-cols-4 gap-3">
+        <Figure label="Completed" value={String(stats.completed)} />
+        <Figure label="Created" value={String(stats.created)} />
+        <Figure
+          label="Average age when done"
+          value={stats.averageAgeDays === null ? '–' : formatDays(stats.averageAgeDays)}
+        />
+        <Figure
+          label="Stale, then done"
+          value={stats.wentStale === 0 ? '–' : `${stats.staleDone} of ${stats.wentStale}`}
+          hint={stats.wentStale === 0 ? 'Nothing went stale' : `${Math.round((stats.staleDone / stats.wentStale) * 100)}% of tasks that went stale`}
+        />
+      </dl>
+
+      <section aria-label="Completions by context">
+        <h3 className="text-sm font-semibold text-foreground mb-3">Completed per {period}, by context</h3>
+        <BarChart
+          label={`Completed per ${period}, by context`}
+          stacked
+          groups={stats.buckets.map((b) => ({ key: b.key, label: b.label, values: b.byContext }))}
+          series={contextSeries}
+        />
+      </section>
+
+      <section aria-label="Created and completed">
+        <h3 className="text-sm font-semibold text-foreground mb-3">Created vs completed</h3>
+        <BarChart
+          label="Created vs completed"
+          groups={stats.buckets.map((b) => ({ key: b.key, label: b.label, values: { created: b.created, completed: b.completed } }))}
+          series={[
+            { key: 'created', label: 'Created', color: CREATED_COLOR },
+            { key: 'completed', label: 'Completed', color: COMPLETED_COLOR },
+          ]}
+        />
+      </section>
+
+      <section aria-label="Project velocity">
+        <h3 className="text-sm font-semibold text-foreground">Project velocity</h3>
+        <p className="text-xs text-muted-foreground mt-0.5">Tasks done per week, and how long the open ones would take at that pace.</p>
+        {stats.velocity.length === 0 ? (
+          <p className="text-sm text-muted-foreground mt-3">No project tasks completed in this period</p>
+        ) : (
+          <table className="w-full mt-2 text-sm">
+            <thead>
+              <tr className="text-xs text-muted-foreground text-left">
+                <th className="font-normal px-3 py-1.5">Project</th>
+                <th className="font-normal px-3 py-1.5 text-right">Done</th>
+                <th className="font-normal px-3 py-1.5 text-right">Per week</th>
+                <th className="font-normal px-3 py-1.5 text-right">Open</th>
+                <th className="font-normal px-3 py-1.5 text-right">Weeks left</th>
+              </tr>
+            </thead>
+            <tbody className="tabular-nums">
+              {stats.velocity.map((v) => (
+                <tr key={v.projectId} className="hover:bg-accent/40">
+                  <td className="px-3 py-1.5 text-foreground truncate max-w-64">{v.title}</td>
+                  <td className="px-3 py-1.5 text-right">{v.completed}</td>
+                  <td className="px-3 py-1.5 text-right">{formatRate(v.perWeek)}</td>
+                  <td className="px-3 py-1.5 text-right">{v.open}</td>
+                  <td className="px-3 py-1.5 text-right text-muted-foreground">{v.open === 0 ? '–' : v.weeksLeft}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+}
+
+function Figure({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="rounded-lg border border-border px-3 py-2.5" title={hint}>
+      <dt className="text-xs text-muted-foreground">{label}</dt>
+      <dd className="text-lg font-semibold text-foreground tabular-nums mt-0.5">{value}</dd>
+    </div>
+  );
+}
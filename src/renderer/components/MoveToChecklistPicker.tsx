@@ -0,0 +1,103 @@
+import { useState, useMemo } from 'react';
+import { ListChecks, Search } from 'lucide-react';
+import type { Task } from '@shared/types';
+import { useStore } from '../stores';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { ipcErrorMessage } from '../lib/utils';
+
+interface MoveToChecklistPickerProps {
+  task: Task;
+}
+
+/** Folds `task` into the checklist of another task the user picks */
+export function MoveToChecklistPicker({ task }: MoveToChecklistPickerProps) {
+  const tasks = useStore((s) => s.tasks);
+  const demoteTask = useStore((s) => s.demoteTask);
+  const showToast = useStore((s) => s.showToast);
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const candidates = useMemo(() => {
+    const q = search.toLowerCase();
+    return tasks
+      .filter((t) =>
+        t.id !== task.id &&
+        !t.deleted_at &&
+        t.status !== 'logbook' &&
+        t.status !== 'cancelled' &&
+        (!q || t.title.toLowerCase().includes(q)),
+      )
+      .slice(0, 20);
+  }, [tasks, task.id, search]);
+
+  const handleMove = async (target: Task) => {
+    try {
+      await demoteTask(task.id, target.id);
+      setOpen(false);
+      showToast(`Moved "${task.title}" into "${target.title}"`);
+    } catch (err) {
+      setError(ipcErrorMessage(err));
+    }
+  };
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(v) => {
+        setOpen(v);
+        if (!v) {
+          setSearch('');
+          setError(null);
+        }
+      }}
+    >
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          aria-label="Move into checklist"
+          className="inline-flex items-center gap-1.5 px-1.5 py-1 text-xs text-muted-foreground hover:bg-accent/60 rounded-md transition-colors cursor-pointer"
+        >
+          <ListChecks className="size-3" />
+          <span>Move into…</span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-1" align="start">
+        <div className="px-2 pb-1">
+          <div className="relative">
+            <Search className="absolute left-1.5 top-1/2 -translate-y-1/2 size-3 text-muted-foreground" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => {
+                setSearch(e.target.value);
+                setError(null);
+              }}
+              placeholder="Checklist of..."
+              className="w-full text-xs bg-transparent border-0 outline-none pl-6 pr-2 py-1.5 text-foreground placeholder:text-muted-foreground/50"
+              autoFocus
+            />
+          </div>
+        </div>
+        {error && <p role="alert" className="text-xs text-red-500 px-2 py-1">{error}</p>}
+        <div className="max-h-48 overflow-y-auto">
+          {candidates.length === 0 && (
+            <p className="text-xs text-muted-foreground px-2 py-2">No tasks found</p>
+          )}
+          {candidates.map((t) => (
+            <button
+              key={t.id}
+              role="option"
+              aria-label={t.title}
+              type="button"
+              onClick={() => handleMove(t)}
+              className="flex items-center w-full px-2 py-1.5 text-sm text-foreground hover:bg-accent rounded-md cursor-pointer"
+            >
+              <span className="truncate">{t.title}</span>
+            </button>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
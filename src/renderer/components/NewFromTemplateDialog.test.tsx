@@ -0,0 +1,82 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom/vitest';
+import { NewFromTemplateDialog } from './NewFromTemplateDialog';
+
+const mockApplyTemplate = vi.fn();
+const mockCloseTemplatePicker = vi.fn();
+const mockNavigateTab = vi.fn();
+const mockSelectTask = vi.fn();
+
+const emptyTask = { notes: null, priority: null, estimate_minutes: null, when_offset: null, deadline_offset: null, checklist: [] };
+const templates = [
+  {
+    id: 'tpl-project',
+    name: 'Release',
+    kind: 'project',
+    body: { title: 'Release {{version}}', description: null, context_id: null, tasks: [], headings: [] },
+  },
+  {
+    id: 'tpl-task',
+    name: '1:1 prep',
+    kind: 'task',
+    body: { ...emptyTask, title: '1:1 prep with {{stakeholder}} on {{date}}' },
+  },
+];
+
+// Same object each render, as the store hands back
+const mockRequest = { kind: 'task', defaults: { project_id: 'p1' } };
+
+vi.mock('../stores', () => ({
+  useStore: (selector: (state: Record<string, unknown>) => unknown) => selector({
+    templatePicker: mockRequest,
+    closeTemplatePicker: mockCloseTemplatePicker,
+    templates,
+    stakeholders: [{ id: 's1', name: 'Dana', deleted_at: null }],
+    applyTemplate: mockApplyTemplate,
+    deleteTemplate: vi.fn(),
+    navigateTab: mockNavigateTab,
+    selectTask: mockSelectTask,
+    showToast: vi.fn(),
+  }),
+}));
+
+describe('NewFromTemplateDialog', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('lists templates of the requested kind first and fills their placeholders', async () => {
+    mockApplyTemplate.mockResolvedValue({ project_id: null, task_ids: ['t1'] });
+    render(<NewFromTemplateDialog />);
+
+    const names = [...document.querySelectorAll('[aria-pressed]')].map((b) => b.textContent);
+    expect(names).toEqual(['1:1 prep', 'Release']);
+    expect(screen.queryByLabelText('date')).not.toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Start date'), { target: { value: '2099-03-02' } });
+    fireEvent.change(screen.getByLabelText('stakeholder'), { target: { value: ' Dana ' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Create' }));
+
+    await waitFor(() => expect(mockSelectTask).toHaveBeenCalledWith('t1'));
+    expect(mockApplyTemplate).toHaveBeenCalledWith('tpl-task', {
+      start_date: '2099-03-02',
+      values: { stakeholder: 'Dana' },
+      project_id: 'p1',
+    });
+    expect(mockCloseTemplatePicker).toHaveBeenCalled();
+  });
+
+  it('opens the new project after applying a project template', async () => {
+    mockApplyTemplate.mockResolvedValue({ project_id: 'p2', task_ids: [] });
+    render(<NewFromTemplateDialog />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Release' }));
+    fireEvent.change(screen.getByLabelText('version'), { target: { value: '2.0' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Create' }));
+
+    await waitFor(() => expect(mockNavigateTab).toHaveBeenCalledWith({ view: 'projects', entityId: 'p2', entityType: 'project' }));
+    expect(mockApplyTemplate.mock.calls[0][1]).not.toHaveProperty('project_id');
+  });
+});
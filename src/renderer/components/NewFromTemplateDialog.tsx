@@ -0,0 +1,164 @@
+import { useState, useMemo, useEffect } from 'react';
+import { format } from 'date-fns';
+import { CheckSquare, FolderKanban, X } from 'lucide-react';
+import type { Template } from '@shared/types';
+import { DATE_PLACEHOLDER, getTemplatePlaceholders } from '@shared/templates';
+import { useStore } from '../stores';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { cn } from '../lib/utils';
+
+/** Placeholders offered a list of stakeholder names to pick from */
+const STAKEHOLDER_PLACEHOLDERS = new Set(['stakeholder', 'attendee', 'owner']);
+
+export function NewFromTemplateDialog() {
+  const request = useStore((s) => s.templatePicker);
+  const closeTemplatePicker = useStore((s) => s.closeTemplatePicker);
+  const templates = useStore((s) => s.templates);
+  const stakeholders = useStore((s) => s.stakeholders);
+  const applyTemplate = useStore((s) => s.applyTemplate);
+  const deleteTemplate = useStore((s) => s.deleteTemplate);
+  const navigateTab = useStore((s) => s.navigateTab);
+  const selectTask = useStore((s) => s.selectTask);
+  const showToast = useStore((s) => s.showToast);
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [startDate, setStartDate] = useState('');
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [applying, setApplying] = useState(false);
+
+  // Templates of the requested kind come first, each group by name
+  const ordered = useMemo(() => {
+    if (!request) return templates;
+    return [...templates.filter((t) => t.kind === request.kind), ...templates.filter((t) => t.kind !== request.kind)];
+  }, [templates, request]);
+
+  useEffect(() => {
+    if (!request) return;
+    setSelectedId(null);
+    setStartDate(format(new Date(), 'yyyy-MM-dd'));
+    setValues({});
+  }, [request]);
+
+  const selected = ordered.find((t) => t.id === selectedId) ?? ordered[0] ?? null;
+  const placeholders = useMemo(
+    () => (selected ? getTemplatePlaceholders(selected).filter((name) => name !== DATE_PLACEHOLDER) : []),
+    [selected],
+  );
+  const liveStakeholders = stakeholders.filter((s) => !s.deleted_at);
+
+  const handleApply = async (template: Template) => {
+    if (applying) return;
+    setApplying(true);
+    try {
+      const filled = Object.fromEntries(
+        Object.entries(values).map(([name, value]) => [name, value.trim()]).filter(([, value]) => value),
+      );
+      const applied = await applyTemplate(template.id, {
+        start_date: startDate || undefined,
+        values: filled,
+        ...(template.kind === 'task' ? request?.defaults : {}),
+      });
+      if (!applied) return;
+      closeTemplatePicker();
+      if (applied.project_id) {
+        navigateTab({ view: 'projects', entityId: applied.project_id, entityType: 'project' });
+      } else if (applied.task_ids[0]) {
+        selectTask(applied.task_ids[0]);
+      }
+      showToast(`Created from "${template.name}"`);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!request} onOpenChange={(isOpen) => { if (!isOpen) closeTemplatePicker(); }}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>New from Template</DialogTitle>
+          <DialogDescription>
+            {templates.length === 0
+              ? 'No templates yet. Save a project or task as a template from its detail view.'
+              : 'Dates in the template count from the start date.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {selected && (
+          <div className="grid gap-4 py-2">
+            <ul className="max-h-56 overflow-y-auto rounded-md border border-border py-1" aria-label="Templates">
+              {ordered.map((template) => {
+                const Icon = template.kind === 'project' ? FolderKanban : CheckSquare;
+                return (
+                  <li key={template.id} className="group flex items-center">
+                    <button
+                      type="button"
+                      aria-pressed={template.id === selected.id}
+                      onClick={() => setSelectedId(template.id)}
+                      className={cn(
+                        'flex flex-1 min-w-0 items-center gap-2.5 px-3 py-1.5 text-sm text-left cursor-default transition-colors',
+                        template.id === selected.id ? 'bg-primary/10 text-primary' : 'text-foreground hover:bg-accent/40',
+                      )}
+                    >
+                      <Icon className="size-4 shrink-0 text-muted-foreground" />
+                      <span className="truncate">{template.name}</span>
+                    </button>
+                    <button
+                      type="button"
+                      aria-label={`Delete template ${template.name}`}
+                      onClick={() => deleteTemplate(template.id)}
+                      className="mx-1.5 p-1 rounded text-muted-foreground/40 opacity-0 group-hover:opacity-100 hover:text-destructive transition-all"
+                    >
+                      <X className="size-3.5" />
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+
+            <div className="grid gap-2">
+              <Label htmlFor="template-start-date">Start date</Label>
+              <Input
+                id="template-start-date"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+              />
+            </div>
+
+            {placeholders.map((name) => (
+              <div key={name} className="grid gap-2">
+                <Label htmlFor={`template-value-${name}`}>{name.replace(/_/g, ' ')}</Label>
+                <Input
+                  id={`template-value-${name}`}
+                  list={STAKEHOLDER_PLACEHOLDERS.has(name) ? 'template-stakeholders' : undefined}
+                  value={values[name] ?? ''}
+                  onChange={(e) => setValues((prev) => ({ ...prev, [name]: e.target.value }))}
+                  onKeyDown={(e) => e.key === 'Enter' && handleApply(selected)}
+                />
+              </div>
+            ))}
+            <datalist id="template-stakeholders">
+              {liveStakeholders.map((s) => <option key={s.id} value={s.name} />)}
+            </datalist>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button onClick={() => selected && handleApply(selected)} disabled={!selected || applying}>
+            {applying ? 'Creating...' : 'Create'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState, useEffect } from 'react';
+import { Archive, ChevronDown, ChevronRight, ArrowUp, ArrowDown, Trash2 } from 'lucide-react';
+import type { ProjectHeading, Task } from '@shared/types';
+import { TaskList } from './TaskList';
+
+interface ProjectHeadingSectionProps {
+  heading: ProjectHeading;
+  tasks: Task[];
+  collapsed: boolean;
+  isFirst: boolean;
+  isLast: boolean;
+  onToggleCollapsed: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onMove: (id: string, direction: -1 | 1) => void;
+  onArchive: (id: string) => void;
+  onDelete: (id: string) => void;
+  onCompleteTask: (id: string) => void;
+  onSelectTask?: (id: string) => void;
+  selectedTaskId?: string | null;
+  completedIds?: Set<string>;
+  blockedIds?: Set<string>;
+  nextTaskId?: string;
+}
+
+export function ProjectHeadingSection({
+  heading,
+  tasks,
+  collapsed,
+  isFirst,
+  isLast,
+  onToggleCollapsed,
+  onRename,
+  onMove,
+  onArchive,
+  onDelete,
+  onCompleteTask,
+  onSelectTask,
+  selectedTaskId,
+  completedIds,
+  blockedIds,
+  nextTaskId,
+}: ProjectHeadingSectionProps) {
+  const [title, setTitle] = useState(heading.title);
+
+  useEffect(() => {
+    setTitle(heading.title);
+  }, [heading.title]);
+
+  const commitTitle = () => {
+    const trimmed = title.trim();
+    if (!trimmed) {
+      setTitle(heading.title);
+    } else if (trimmed !== heading.title) {
+      onRename(heading.id, trimmed);
+    }
+  };
+
+  const actionClass = 'p-1 rounded text-muted-foreground/40 hover:text-foreground transition-colors disabled:opacity-30 disabled:pointer-events-none';
+
+  return (
+    <section className="mt-6" data-testid="project-heading">
+      <div className="group flex items-center gap-1.5 px-1 pb-1.5 mb-1 border-b border-border/60">
+        <button
+          type="button"
+          aria-label={collapsed ? `Expand ${heading.title}` : `Collapse ${heading.title}`}
+          aria-expanded={!collapsed}
+          onClick={() => onToggleCollapsed(heading.id)}
+          className="p-0.5 rounded text-muted-foreground hover:text-foreground transition-colors cursor-default"
+        >
+          {collapsed ? <ChevronRight className="size-4" /> : <ChevronDown className="size-4" />}
+        </button>
+        <input
+          type="text"
+          aria-label="Heading title"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onBlur={commitTitle}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') e.currentTarget.blur();
+            if (e.key === 'Escape') {
+              setTitle(heading.title);
+              e.currentTarget.blur();
+            }
+          }}
+          className="flex-1 min-w-0 bg-transparent text-sm font-semibold text-primary px-0 py-0.5 border-0 focus:outline-none focus:ring-0"
+        />
+        <span className="text-xs tabular-nums text-muted-foreground/60">{tasks.length}</span>
+        <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+          <button type="button" aria-label="Move heading up" disabled={isFirst} onClick={() => onMove(heading.id, -1)} className={actionClass}>
+            <ArrowUp className="size-3.5" />
+          </button>
+          <button type="button" aria-label="Move heading down" disabled={isLast} onClick={() => onMove(heading.id, 1)} className={actionClass}>
+            <ArrowDown className="size-3.5" />
+          </button>
+          <button type="button" aria-label="Archive heading" onClick={() => onArchive(heading.id)} className={actionClass}>
+            <Archive className="size-3.5" />
+          </button>
+          <button
+            type="button"
+            aria-label="Delete heading"
+            onClick={() => onDelete(heading.id)}
+            className="p-1 rounded text-muted-foreground/40 hover:text-destructive transition-colors"
+          >
+            <Trash2 className="size-3.5" />
+          </button>
+        </div>
+      </div>
+
+      {!collapsed && (
+        tasks.length === 0 ? (
+          <p className="px-3 py-3 text-sm text-muted-foreground/60">No tasks under this heading</p>
+        ) : (
+          <TaskList
+            tasks={tasks}
+            onCompleteTask={onCompleteTask}
+            onSelectTask={onSelectTask}
+            selectedTaskId={selectedTaskId}
+            completedIds={completedIds}
+            blockedIds={blockedIds}
+            nextTaskId={nextTaskId}
+          />
+        )
+      )}
+    </section>
+  );
+}
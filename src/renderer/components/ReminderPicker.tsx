@@ -0,0 +1,134 @@
+import { useState, useMemo } from 'react';
+import { Bell, X } from 'lucide-react';
+import { format } from 'date-fns';
+import type { Reminder } from '@shared/types';
+import { getReminderTime, REMINDER_MORNING_HOUR } from '@shared/reminders';
+import { useStore } from '../stores';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+
+type ReminderPickerProps =
+  | { taskId: string; deadline: string | null }
+  | { meetingId: string; startTime: string };
+
+const DEADLINE_OFFSETS = [0, 24 * 60, 7 * 24 * 60];
+const MEETING_OFFSETS = [0, 5, 10, 30, 60];
+
+function formatOffset(minutes: number, isMeeting: boolean): string {
+  if (minutes === 0) return isMeeting ? 'At start' : `On the day, ${REMINDER_MORNING_HOUR}:00`;
+  const [amount, unit] = minutes % (24 * 60) === 0
+    ? [minutes / (24 * 60), 'day']
+    : minutes % 60 === 0
+      ? [minutes / 60, 'hour']
+      : [minutes, 'min'];
+  return `${amount} ${unit}${amount === 1 || unit === 'min' ? '' : 's'} before`;
+}
+
+function describeReminder(reminder: Reminder): string {
+  if (reminder.snoozed_until) return `Snoozed until ${format(new Date(reminder.snoozed_until), 'EEE HH:mm')}`;
+  if (reminder.remind_at) return format(new Date(reminder.remind_at), 'EEE, MMM d, HH:mm');
+  return formatOffset(reminder.offset_minutes ?? 0, !!reminder.meeting_id);
+}
+
+/** Lists the reminders on a task or meeting and lets the user add or remove them */
+export function ReminderPicker(props: ReminderPickerProps) {
+  const isMeeting = 'meetingId' in props;
+  const ownerId = isMeeting ? props.meetingId : props.taskId;
+  const anchor = isMeeting ? { start_time: props.startTime } : { deadline: props.deadline };
+  const allReminders = useStore((s) => s.reminders);
+  const createReminder = useStore((s) => s.createReminder);
+  const deleteReminder = useStore((s) => s.deleteReminder);
+  const [open, setOpen] = useState(false);
+  const [at, setAt] = useState('');
+
+  const reminders = useMemo(
+    () => allReminders.filter((r) => (isMeeting ? r.meeting_id : r.task_id) === ownerId),
+    [allReminders, isMeeting, ownerId],
+  );
+
+  const owner = isMeeting ? { meeting_id: ownerId } : { task_id: ownerId };
+  const offsets = isMeeting ? MEETING_OFFSETS : props.deadline ? DEADLINE_OFFSETS : [];
+  const unusedOffsets = offsets.filter((m) => !reminders.some((r) => r.offset_minutes === m));
+
+  const handleAddAt = () => {
+    const date = new Date(at);
+    if (Number.isNaN(date.getTime())) return;
+    createReminder({ ...owner, remind_at: date.toISOString() });
+    setAt('');
+    setOpen(false);
+  };
+
+  // A deadline reminder with no deadline left never fires; say so rather than hide it
+  const isWaiting = (reminder: Reminder) => !reminder.snoozed_until && !getReminderTime(reminder, anchor);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          aria-label="Reminders"
+          className="inline-flex items-center gap-1.5 px-1.5 py-1 text-xs text-muted-foreground hover:bg-accent/60 rounded-md transition-colors cursor-pointer"
+        >
+          <Bell className="size-3" />
+          <span>
+            {reminders.length === 0
+              ? 'Remind me'
+              : reminders.length === 1
+                ? describeReminder(reminders[0])
+                : `${reminders.length} reminders`}
+          </span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-1" align="start">
+        {reminders.map((r) => (
+          <div key={r.id} className="flex items-center gap-2 px-2 py-1.5 text-sm text-foreground">
+            <span className="flex-1 truncate">
+              {describeReminder(r)}
+              {isWaiting(r) && <span className="text-muted-foreground"> (no deadline)</span>}
+            </span>
+            <button
+              type="button"
+              aria-label={`Remove reminder ${describeReminder(r)}`}
+              onClick={() => deleteReminder(r.id)}
+              className="p-0.5 rounded-full text-muted-foreground hover:bg-accent transition-colors"
+            >
+              <X className="size-3" />
+            </button>
+          </div>
+        ))}
+        {unusedOffsets.map((minutes) => (
+          <button
+            key={minutes}
+            role="option"
+            aria-label={formatOffset(minutes, isMeeting)}
+            type="button"
+            onClick={() => {
+              createReminder({ ...owner, offset_minutes: minutes });
+              setOpen(false);
+            }}
+            className="flex items-center w-full px-2 py-1.5 text-sm text-foreground hover:bg-accent rounded-md cursor-pointer"
+          >
+            {formatOffset(minutes, isMeeting)}
+          </button>
+        ))}
+        <div className="flex items-center gap-1 px-2 py-1.5">
+          <input
+            type="datetime-local"
+            aria-label="Remind at"
+            value={at}
+            onChange={(e) => setAt(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleAddAt(); }}
+            className="flex-1 min-w-0 text-xs bg-transparent border-0 outline-none text-foreground"
+          />
+          <button
+            type="button"
+            onClick={handleAddAt}
+            disabled={!at}
+            className="text-xs px-2 py-1 rounded-md text-foreground hover:bg-accent disabled:opacity-40 cursor-pointer"
+          >
+            Add
+          </button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,42 @@
+import { Square } from 'lucide-react';
+import type { Task } from '@shared/types';
+import { formatElapsed } from '@shared/time-tracking';
+import { useStore } from '../stores';
+import { useElapsedSeconds } from '../hooks/useElapsedSeconds';
+
+interface RunningTimerProps {
+  onNavigateToTask: (task: Task) => void;
+}
+
+/** The running timer in the header, wherever its task is */
+export function RunningTimer({ onNavigateToTask }: RunningTimerProps) {
+  const running = useStore((s) => s.runningTimeEntry);
+  const tasks = useStore((s) => s.tasks);
+  const stopTimer = useStore((s) => s.stopTimer);
+  const elapsed = useElapsedSeconds(running?.started_at ?? null);
+
+  if (!running) return null;
+  const task = tasks.find((t) => t.id === running.task_id);
+
+  return (
+    <div className="flex items-center gap-0.5 mr-1 rounded-md bg-primary/10 text-primary">
+      <button
+        type="button"
+        onClick={() => task && onNavigateToTask(task)}
+        className="flex items-center gap-1.5 pl-2 py-1 text-xs max-w-52 cursor-default"
+        title={running.task_title}
+      >
+        <span className="truncate">{task?.title ?? running.task_title}</span>
+        <span className="tabular-nums">{formatElapsed(elapsed)}</span>
+      </button>
+      <button
+        type="button"
+        aria-label="Stop timer"
+        onClick={() => stopTimer()}
+        className="p-1.5 rounded-md hover:bg-primary/15 transition-colors"
+      >
+        <Square className="size-3" fill="currentColor" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { useState, type KeyboardEvent } from 'react';
+import { LayoutTemplate } from 'lucide-react';
+import { useStore } from '../stores';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+
+interface SaveAsTemplateButtonProps {
+  /** Suggested template name, usually the item's title */
+  defaultName: string;
+  /** Resolves to null when the template couldn't be saved */
+  onSave: (name: string) => Promise<unknown>;
+}
+
+export function SaveAsTemplateButton({ defaultName, onSave }: SaveAsTemplateButtonProps) {
+  const showToast = useStore((s) => s.showToast);
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) setName(defaultName);
+    setOpen(isOpen);
+  };
+
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    if (!trimmed || saving) return;
+    setSaving(true);
+    try {
+      const saved = await onSave(trimmed);
+      if (saved) {
+        showToast(`Saved template "${trimmed}"`);
+        setOpen(false);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    e.stopPropagation();
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleSave();
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          aria-label="Save as template"
+          onClick={(e) => e.stopPropagation()}
+          className="p-1 rounded text-muted-foreground/40 hover:text-foreground transition-colors"
+        >
+          <LayoutTemplate className="size-3.5" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-2" align="end" onClick={(e) => e.stopPropagation()}>
+        <label className="block text-xs text-muted-foreground mb-1" htmlFor="template-name">
+          Template name
+        </label>
+        <div className="flex items-center gap-1.5">
+          <input
+            id="template-name"
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={handleKeyDown}
+            className="flex-1 min-w-0 rounded-md border border-border bg-transparent px-2 py-1 text-sm outline-none focus:border-primary/50"
+          />
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={!name.trim() || saving}
+            className="rounded-md bg-primary/10 px-2 py-1 text-xs text-primary hover:bg-primary/20 disabled:opacity-50 transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,9 +1,16 @@
+import { useState, type DragEvent } from 'react';
+import { format } from 'date-fns';
 import {
-  Home, CalendarDays, FolderKanban, Inbox, CheckSquare, BookOpen,
-  Video, FileText, Users, Trash2, Settings,
+  Home, CalendarDays, CalendarRange, FolderKanban, Inbox, CheckSquare, BookOpen,
+  Video, FileText, Users, Trash2, Settings, Star, Layers, ListFilter, Plus, ClipboardCheck, Timer,
 } from 'lucide-react';
+import type { UpdateTaskInput } from '@shared/types';
+import { useStore } from '../stores';
+import { TASK_DRAG_TYPE } from '../hooks/useDragReorder';
+import { SmartListEditor } from './SmartListEditor';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
 
-export type SidebarView = 'home' | 'daily' | 'projects' | 'inbox' | 'tasks' | 'today' | 'upcoming' | 'anytime' | 'someday' | 'stale' | 'logbook' | 'meetings' | 'notes' | 'stakeholders' | 'trash' | 'settings';
+export type SidebarView = 'home' | 'daily' | 'calendar' | 'review' | 'time' | 'projects' | 'inbox' | 'tasks' | 'today' | 'upcoming' | 'anytime' | 'someday' | 'stale' | 'logbook' | 'list' | 'meetings' | 'notes' | 'stakeholders' | 'trash' | 'settings';
 
 interface TaskCounts {
   inbox: number;
@@ -33,6 +40,9 @@ const TOP_ITEMS: NavItem[] = [
 const MAIN_ITEMS: NavItem[] = [
   { view: 'home', label: 'Home', icon: Home },
   { view: 'daily', label: 'Daily', icon: CalendarDays },
+  { view: 'calendar', label: 'Calendar', icon: CalendarRange },
+  { view: 'review', label: 'Review', icon: ClipboardCheck },
+  { view: 'time', label: 'Time', icon: Timer },
   { view: 'projects', label: 'Projects', icon: FolderKanban },
   { view: 'tasks', label: 'Tasks', icon: CheckSquare },
   { view: 'meetings', label: 'Meetings', icon: Video },
@@ -46,6 +56,146 @@ const BOTTOM_ITEMS: NavItem[] = [
   { view: 'settings', label: 'Settings', icon: Settings },
 ];
 
+interface DropItem {
+  key: string;
+  label: string;
+  icon: typeof Inbox;
+  color?: string | null;
+  changes: UpdateTaskInput;
+}
+
+/** Targets shown while a task is dragged: drop it on one to move it there */
+function MoveTargets() {
+  const draggingTaskId = useStore((s) => s.draggingTaskId);
+  const projects = useStore((s) => s.projects);
+  const contexts = useStore((s) => s.contexts);
+  const selectedTaskIds = useStore((s) => s.selectedTaskIds);
+  const updateTask = useStore((s) => s.updateTask);
+  const bulkUpdateTasks = useStore((s) => s.bulkUpdateTasks);
+  const setDraggingTask = useStore((s) => s.setDraggingTask);
+  const [overKey, setOverKey] = useState<string | null>(null);
+
+  if (!draggingTaskId) return null;
+
+  const items: DropItem[] = [
+    { key: 'today', label: 'Today', icon: Star, changes: { when_date: format(new Date(), 'yyyy-MM-dd') } },
+    ...projects
+      .filter((p) => !p.deleted_at && p.status !== 'completed' && p.status !== 'archived')
+      .map((p): DropItem => ({ key: `project-${p.id}`, label: p.title, icon: FolderKanban, changes: { project_id: p.id } })),
+    ...contexts.map((c): DropItem => ({ key: `context-${c.id}`, label: c.name, icon: Layers, color: c.color, changes: { context_id: c.id } })),
+  ];
+
+  const handleDrop = (e: DragEvent, item: DropItem) => {
+    e.preventDefault();
+    const id = e.dataTransfer.getData(TASK_DRAG_TYPE) || draggingTaskId;
+    // Dragging one of several selected tasks moves the whole selection
+    if (selectedTaskIds.length > 1 && selectedTaskIds.includes(id)) {
+      bulkUpdateTasks(selectedTaskIds, item.changes);
+    } else {
+      updateTask(id, item.changes);
+    }
+    setOverKey(null);
+    setDraggingTask(null);
+  };
+
+  return (
+    <div className="flex flex-col gap-0.5 mt-2 min-h-0 overflow-y-auto" aria-label="Move to" role="group">
+      <span className="px-3 pb-1 text-[11px] font-medium uppercase tracking-wider text-muted-foreground/60">Move to</span>
+      {items.map((item) => (
+        <div
+          key={item.key}
+          data-testid={`move-target-${item.key}`}
+          onDragOver={(e) => {
+            e.preventDefault();
+            e.dataTransfer.dropEffect = 'move';
+            if (overKey !== item.key) setOverKey(item.key);
+          }}
+          onDragLeave={() => setOverKey((key) => (key === item.key ? null : key))}
+          onDrop={(e) => handleDrop(e, item)}
+          className={`flex items-center gap-3 rounded-md px-3 py-1.5 text-[13px] font-medium transition-colors ${
+            overKey === item.key ? 'bg-primary/10 text-primary' : 'text-muted-foreground'
+          }`}
+        >
+          {item.color ? (
+            <span className="size-2 mx-1 rounded-full shrink-0" style={{ backgroundColor: item.color }} />
+          ) : (
+            <item.icon className="size-4 shrink-0" strokeWidth={1.75} />
+          )}
+          <span className="flex-1 truncate">{item.label}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/** Saved smart lists with their live counts, and a way to add one */
+function SmartLists() {
+  const smartLists = useStore((s) => s.smartLists);
+  const smartListCounts = useStore((s) => s.smartListCounts);
+  const createSmartList = useStore((s) => s.createSmartList);
+  const navigateTab = useStore((s) => s.navigateTab);
+  const activeListId = useStore((s) => {
+    const tab = s.tabs.find((t) => t.id === s.activeTabId);
+    const state = tab?.history[tab.historyIndex];
+    return state?.entityType === 'smartList' ? state.entityId : undefined;
+  });
+  const [creating, setCreating] = useState(false);
+
+  const openList = (id: string) => navigateTab({ view: 'list', entityId: id, entityType: 'smartList' });
+
+  return (
+    <div className="flex flex-col gap-0.5 mt-2" role="group" aria-label="Lists">
+      <div className="flex items-center pl-3 pr-1 pb-1">
+        <span className="flex-1 text-[11px] font-medium uppercase tracking-wider text-muted-foreground/60">Lists</span>
+        <Popover open={creating} onOpenChange={setCreating}>
+          <PopoverTrigger asChild>
+            <button
+              type="button"
+              aria-label="New list"
+              className="p-0.5 rounded text-muted-foreground/60 hover:text-foreground hover:bg-accent/40 transition-colors"
+            >
+              <Plus className="size-3.5" />
+            </button>
+          </PopoverTrigger>
+          <PopoverContent className="w-72 p-3" align="start" side="right">
+            <SmartListEditor
+              onCancel={() => setCreating(false)}
+              onSave={async (input) => {
+                const list = await createSmartList(input);
+                setCreating(false);
+                if (list) openList(list.id);
+              }}
+            />
+          </PopoverContent>
+        </Popover>
+      </div>
+      {smartLists.map((list) => {
+        const active = list.id === activeListId;
+        const count = smartListCounts[list.id] ?? 0;
+        return (
+          <button
+            key={list.id}
+            onClick={() => openList(list.id)}
+            className={`flex items-center gap-3 rounded-md px-3 py-1.5 text-[13px] font-medium transition-all duration-150 w-full text-left cursor-default ${
+              active
+                ? 'bg-primary/10 text-primary'
+                : 'text-muted-foreground hover:bg-accent/40 hover:text-foreground'
+            }`}
+          >
+            <ListFilter className="size-4 shrink-0" strokeWidth={1.75} />
+            <span className="flex-1 truncate">{list.name}</span>
+            {count > 0 && (
+              <span className={`text-xs tabular-nums ${active ? 'text-primary/70' : 'text-muted-foreground/70'}`}>
+                {count}
+              </span>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
 export function Sidebar({ activeView, onViewChange, taskCounts }: SidebarProps) {
   const isActive = (view: SidebarView) => {
     if (view === 'tasks') return TASK_SUB_VIEWS.includes(activeView);
@@ -94,6 +244,10 @@ export function Sidebar({ activeView, onViewChange, taskCounts }: SidebarProps)
           {MAIN_ITEMS.map(renderItem)}
         </div>
 
+        <SmartLists />
+
+        <MoveTargets />
+
         {/* Spacer pushes bottom section down */}
         <div className="flex-1" />
 
@@ -0,0 +1,38 @@
+// @vitest-environment jsdom
+import { vi, describe, it, expect } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom/vitest';
+import { SmartListEditor } from './SmartListEditor';
+
+describe('SmartListEditor', () => {
+  it('shows query errors as they are typed and blocks saving', () => {
+    const onSave = vi.fn();
+    render(<SmartListEditor onSave={onSave} onCancel={vi.fn()} />);
+
+    fireEvent.change(screen.getByLabelText('List name'), { target: { value: 'Urgent' } });
+    fireEvent.change(screen.getByLabelText('Query'), { target: { value: 'priority:p9' } });
+
+    expect(screen.getByRole('alert')).toHaveTextContent('"p9" is not a valid priority');
+    expect(screen.getByRole('button', { name: 'Save' })).toBeDisabled();
+  });
+
+  it('saves a trimmed name and query on Enter', () => {
+    const onSave = vi.fn();
+    render(<SmartListEditor onSave={onSave} onCancel={vi.fn()} />);
+
+    fireEvent.change(screen.getByLabelText('List name'), { target: { value: ' Urgent ' } });
+    fireEvent.change(screen.getByLabelText('Query'), { target: { value: 'priority:p1,p2 ' } });
+    fireEvent.keyDown(screen.getByLabelText('Query'), { key: 'Enter' });
+
+    expect(onSave).toHaveBeenCalledWith({ name: 'Urgent', query: 'priority:p1,p2' });
+  });
+
+  it('starts from an existing list and cancels on Escape', () => {
+    const onCancel = vi.fn();
+    render(<SmartListEditor initial={{ name: 'Urgent', query: 'priority:p1' }} onSave={vi.fn()} onCancel={onCancel} />);
+
+    expect(screen.getByLabelText('Query')).toHaveValue('priority:p1');
+    fireEvent.keyDown(screen.getByLabelText('List name'), { key: 'Escape' });
+    expect(onCancel).toHaveBeenCalled();
+  });
+});
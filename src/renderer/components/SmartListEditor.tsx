@@ -0,0 +1,75 @@
+import { useState, type KeyboardEvent } from 'react';
+import type { CreateSmartListInput } from '@shared/types';
+import { getSmartListQueryError } from '@shared/smart-list-query';
+
+interface SmartListEditorProps {
+  initial?: CreateSmartListInput;
+  onSave: (input: CreateSmartListInput) => void;
+  onCancel: () => void;
+}
+
+/** Name and query fields for a smart list; the query is checked as it is typed */
+export function SmartListEditor({ initial, onSave, onCancel }: SmartListEditorProps) {
+  const [name, setName] = useState(initial?.name ?? '');
+  const [query, setQuery] = useState(initial?.query ?? '');
+
+  const error = query.trim() ? getSmartListQueryError(query) : null;
+  const canSave = !!name.trim() && !!query.trim() && !error;
+
+  const handleSave = () => {
+    if (canSave) onSave({ name: name.trim(), query: query.trim() });
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleSave();
+    } else if (e.key === 'Escape') {
+      e.stopPropagation();
+      onCancel();
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder="List name"
+        aria-label="List name"
+        className="w-full bg-transparent text-[13px] font-medium text-foreground outline-none placeholder:text-muted-foreground/50"
+        autoFocus
+      />
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder="priority:p1 context:Work due:this-week"
+        aria-label="Query"
+        aria-invalid={!!error}
+        className="w-full bg-transparent font-mono text-xs text-foreground outline-none placeholder:text-muted-foreground/50"
+      />
+      {error && <p role="alert" className="text-xs text-destructive">{error}</p>}
+      <div className="flex justify-end gap-1.5 pt-1">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-2.5 py-1 text-xs text-muted-foreground hover:bg-accent rounded-md transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!canSave}
+          className="px-2.5 py-1 text-xs font-medium bg-primary text-primary-foreground rounded-md transition-colors disabled:opacity-40"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+}
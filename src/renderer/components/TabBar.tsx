@@ -26,6 +26,10 @@ function useTabTitle(tabId: string): string {
           const st = s.stakeholders.find((st) => st.id === state.entityId);
           return st?.name || 'Person';
         }
+        case 'smartList': {
+          const list = s.smartLists.find((l) => l.id === state.entityId);
+          return list?.name || 'List';
+        }
       }
     }
     return VIEW_META[state.view]?.label ?? 'Home';
@@ -0,0 +1,65 @@
+import { Tag as TagIcon, Check } from 'lucide-react';
+import { useStore } from '../stores';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+
+/** Header control that narrows every list to items carrying the chosen tags */
+export function TagFilter() {
+  const tags = useStore((s) => s.tags);
+  const activeTagIds = useStore((s) => s.activeTagIds);
+  const toggleTagFilter = useStore((s) => s.toggleTagFilter);
+  const clearTagFilter = useStore((s) => s.clearTagFilter);
+
+  if (tags.length === 0) return null;
+
+  const activeTags = tags.filter((t) => activeTagIds.includes(t.id));
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          aria-label="Filter by tag"
+          aria-pressed={activeTags.length > 0}
+          className={`no-drag flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium transition-all ${
+            activeTags.length > 0
+              ? 'bg-accent text-foreground'
+              : 'text-muted-foreground hover:bg-accent/50'
+          }`}
+        >
+          <TagIcon className="size-3.5" />
+          {activeTags.length > 0 && <span>{activeTags.map((t) => t.name).join(' + ')}</span>}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-52 p-1" align="end">
+        <div className="max-h-64 overflow-y-auto">
+          {tags.map((tag) => {
+            const isActive = activeTagIds.includes(tag.id);
+            return (
+              <button
+                key={tag.id}
+                type="button"
+                role="menuitemcheckbox"
+                aria-checked={isActive}
+                onClick={() => toggleTagFilter(tag.id)}
+                className="flex items-center gap-2 w-full px-2 py-1.5 text-sm text-foreground hover:bg-accent rounded-md cursor-pointer"
+              >
+                <span className="size-2 rounded-full shrink-0 bg-muted-foreground/40" style={{ backgroundColor: tag.color ?? undefined }} />
+                <span className="flex-1 truncate text-left">{tag.name}</span>
+                {isActive && <Check className="size-3.5 text-muted-foreground" />}
+              </button>
+            );
+          })}
+        </div>
+        {activeTags.length > 0 && (
+          <button
+            type="button"
+            onClick={clearTagFilter}
+            className="w-full px-2 py-1.5 mt-1 text-xs text-muted-foreground hover:bg-accent rounded-md border-t border-border cursor-pointer"
+          >
+            Clear filter
+          </button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,128 @@
+import { useState, useMemo } from 'react';
+import { Tag as TagIcon, X, Plus } from 'lucide-react';
+import type { TaggableEntityType } from '@shared/types';
+import { useStore } from '../stores';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+
+interface TagPickerProps {
+  entityType: TaggableEntityType;
+  entityId: string;
+}
+
+/** Lists the tags on a task, note or meeting and lets the user add, create or remove them */
+export function TagPicker({ entityType, entityId }: TagPickerProps) {
+  const tags = useStore((s) => s.tags);
+  const entityTags = useStore((s) => s.entityTags);
+  const createTag = useStore((s) => s.createTag);
+  const tagEntity = useStore((s) => s.tagEntity);
+  const untagEntity = useStore((s) => s.untagEntity);
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+
+  const assigned = useMemo(() => {
+    const ids = new Set(
+      entityTags.filter((et) => et.entity_type === entityType && et.entity_id === entityId).map((et) => et.tag_id),
+    );
+    return tags.filter((t) => ids.has(t.id));
+  }, [tags, entityTags, entityType, entityId]);
+
+  // Tag names are single words, so spaces become dashes as they're typed
+  const name = search.trim().replace(/\s+/g, '-');
+  const candidates = useMemo(() => {
+    const q = name.toLowerCase();
+    return tags.filter((t) => !assigned.some((a) => a.id === t.id) && (!q || t.name.toLowerCase().includes(q)));
+  }, [tags, assigned, name]);
+  const canCreate = !!name && !tags.some((t) => t.name.toLowerCase() === name.toLowerCase());
+
+  const handleAdd = async (tagId: string) => {
+    await tagEntity(tagId, entityType, entityId);
+    setSearch('');
+  };
+
+  const handleCreate = async () => {
+    const tag = await createTag({ name });
+    if (tag) await handleAdd(tag.id);
+  };
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(v) => {
+        setOpen(v);
+        if (!v) setSearch('');
+      }}
+    >
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          aria-label="Tags"
+          className="inline-flex items-center gap-1.5 px-1.5 py-1 text-xs text-muted-foreground hover:bg-accent/60 rounded-md transition-colors cursor-pointer"
+        >
+          <TagIcon className="size-3" />
+          <span className="truncate max-w-48">
+            {assigned.length === 0 ? 'Tags' : assigned.map((t) => t.name).join(', ')}
+          </span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-56 p-1" align="start">
+        {assigned.map((t) => (
+          <div key={t.id} className="flex items-center gap-2 px-2 py-1.5 text-sm text-foreground">
+            <span className="size-2 rounded-full shrink-0 bg-muted-foreground/40" style={{ backgroundColor: t.color ?? undefined }} />
+            <span className="flex-1 truncate">{t.name}</span>
+            <button
+              type="button"
+              aria-label={`Remove tag ${t.name}`}
+              onClick={() => untagEntity(t.id, entityType, entityId)}
+              className="p-0.5 rounded-full text-muted-foreground hover:bg-accent transition-colors"
+            >
+              <X className="size-3" />
+            </button>
+          </div>
+        ))}
+        <div className="px-2 pb-1">
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key !== 'Enter') return;
+              e.preventDefault();
+              if (candidates.length > 0) handleAdd(candidates[0].id);
+              else if (canCreate) handleCreate();
+            }}
+            placeholder="Add tag..."
+            aria-label="Tag name"
+            className="w-full text-xs bg-transparent border-0 outline-none px-0 py-1.5 text-foreground placeholder:text-muted-foreground/50"
+            autoFocus
+          />
+        </div>
+        <div className="max-h-48 overflow-y-auto">
+          {candidates.map((t) => (
+            <button
+              key={t.id}
+              role="option"
+              aria-label={t.name}
+              type="button"
+              onClick={() => handleAdd(t.id)}
+              className="flex items-center w-full px-2 py-1.5 text-sm text-foreground hover:bg-accent rounded-md cursor-pointer"
+            >
+              <span className="truncate">{t.name}</span>
+            </button>
+          ))}
+          {canCreate && (
+            <button
+              role="option"
+              aria-label={`Create tag ${name}`}
+              type="button"
+              onClick={handleCreate}
+              className="flex items-center gap-1.5 w-full px-2 py-1.5 text-sm text-foreground hover:bg-accent rounded-md cursor-pointer"
+            >
+              <Plus className="size-3" />
+              <span className="truncate">Create “{name}”</span>
+            </button>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
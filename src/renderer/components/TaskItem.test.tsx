@@ -3,7 +3,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, fireEvent, within } from '@testing-library/react';
 import '@testing-library/jest-dom/vitest';
 import { TaskItem } from './TaskItem';
-import type { Task, Project, Context, AIAgent } from '@shared/types';
+import type { Task, Project, Context, AIAgent, ProjectHeading, TaskDependency, Reminder } from '@shared/types';
 
 const mockUpdateTask = vi.fn();
 const mockDeselectTask = vi.fn();
@@ -20,7 +20,19 @@ const mockFetchAgents = vi.fn();
 let mockProjects: Project[] = [];
 let mockContexts: Context[] = [];
 let mockAgents: AIAgent[] = [];
+let mockProjectHeadings: Record<string, ProjectHeading[]> = {};
 let mockAuthUser: { id: string } | null = null;
+let mockTasks: Task[] = [];
+let mockTaskDependencies: TaskDependency[] = [];
+const mockLinkTaskDependency = vi.fn();
+const mockUnlinkTaskDependency = vi.fn();
+const mockDemoteTask = vi.fn();
+let mockRunningTimeEntry: { task_id: string; started_at: string } | null = null;
+const mockStartTimer = vi.fn();
+const mockStopTimer = vi.fn();
+let mockReminders: Reminder[] = [];
+const mockCreateReminder = vi.fn();
+const mockDeleteReminder = vi.fn();
 
 vi.mock('../stores', () => ({
   useStore: (selector: (state: Record<string, unknown>) => unknown) => {
@@ -28,7 +40,10 @@ vi.mock('../stores', () => ({
       updateTask: mockUpdateTask,
       deselectTask: mockDeselectTask,
       deleteTask: mockDeleteTask,
+      saveTaskAsTemplate: vi.fn(),
+      showToast: vi.fn(),
       checklistItems: {},
+      projectHeadings: mockProjectHeadings,
       checklistsLoading: {},
       fetchChecklistItems: mockFetchChecklistItems,
       createChecklistItem: mockCreateChecklistItem,
@@ -38,8 +53,29 @@ vi.mock('../stores', () => ({
       contexts: mockContexts,
       fetchProjects: mockFetchProjects,
       agents: mockAgents,
+      stakeholders: [{ id: 'sh-1', name: 'Anna Schmidt' }],
       fetchAgents: mockFetchAgents,
       authUser: mockAuthUser,
+      tasks: mockTasks,
+      taskDependencies: mockTaskDependencies,
+      linkTaskDependency: mockLinkTaskDependency,
+      unlinkTaskDependency: mockUnlinkTaskDependency,
+      demoteTask: mockDemoteTask,
+      promoteChecklistItem: vi.fn(),
+      runningTimeEntry: mockRunningTimeEntry,
+      startTimer: mockStartTimer,
+      stopTimer: mockStopTimer,
+      reminders: mockReminders,
+      createReminder: mockCreateReminder,
+      deleteReminder: mockDeleteReminder,
+      tags: [],
+      entityTags: [],
+      createTag: vi.fn(),
+      tagEntity: vi.fn(),
+      untagEntity: vi.fn(),
+      entityChanges: {},
+      fetchEntityChanges: vi.fn(),
+      restoreEntityChange: vi.fn(),
     };
     return selector(state);
   },
@@ -63,6 +99,8 @@ const fakeTask = (overrides: Partial<Task> = {}): Task => ({
   deleted_at: null,
   stale_at: null,
   assignee_id: null,
+  recurrence: null,
+  estimate_minutes: null,
   ...overrides,
 });
 
@@ -137,6 +175,19 @@ describe('TaskItem (collapsed)', () => {
     expect(onSelect).toHaveBeenCalledWith('task-42');
   });
 
+  it('calls onMultiSelect instead of onSelect on cmd- and shift-click', () => {
+    const onSelect = vi.fn();
+    const onMultiSelect = vi.fn();
+    render(
+      <TaskItem task={fakeTask({ id: 'task-42' })} onComplete={vi.fn()} onSelect={onSelect} onMultiSelect={onMultiSelect} />
+    );
+    fireEvent.click(screen.getByText('Test task'), { metaKey: true });
+    fireEvent.click(screen.getByText('Test task'), { shiftKey: true });
+    expect(onMultiSelect).toHaveBeenNthCalledWith(1, 'task-42', 'toggle');
+    expect(onMultiSelect).toHaveBeenNthCalledWith(2, 'task-42', 'range');
+    expect(onSelect).not.toHaveBeenCalled();
+  });
+
   it('shows when_date badge when set', () => {
     render(
       <TaskItem task={fakeTask({ when_date: '2026-03-10' })} onComplete={vi.fn()} />
@@ -543,6 +594,7 @@ describe('TaskItem project picker (expanded)', () => {
     vi.useRealTimers();
     mockProjects = [];
     mockContexts = [];
+    mockProjectHeadings = {};
   });
 
   it('only shows active projects in picker (not completed/archived)', () => {
@@ -580,6 +632,28 @@ describe('TaskItem project picker (expanded)', () => {
     expect(mockUpdateTask).toHaveBeenCalledWith('task-1', { project_id: null });
   });
 
+  it('moves the task to another heading of its project', () => {
+    mockProjects = [makeProject({ id: 'proj-1', title: 'My Project' })];
+    mockProjectHeadings = {
+      'proj-1': [{
+        id: 'heading-1',
+        project_id: 'proj-1',
+        title: 'Design',
+        sort_order: 0,
+        created_at: '2026-01-01T00:00:00.000Z',
+        updated_at: '2026-01-01T00:00:00.000Z',
+        archived_at: null,
+        deleted_at: null,
+      }],
+    };
+    render(
+      <TaskItem task={fakeTask({ project_id: 'proj-1' })} onComplete={vi.fn()} isExpanded />
+    );
+    fireEvent.click(screen.getByRole('button', { name: 'Heading' }));
+    fireEvent.click(screen.getByRole('option', { name: 'Design' }));
+    expect(mockUpdateTask).toHaveBeenCalledWith('task-1', { heading_id: 'heading-1' });
+  });
+
 });
 
 describe('TaskItem context picker (expanded)', () => {
@@ -750,6 +824,210 @@ describe('TaskItem priority picker (expanded)', () => {
   });
 });
 
+describe('TaskItem repeat picker', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('shows a repeat indicator on collapsed recurring tasks', () => {
+    render(<TaskItem task={fakeTask({ recurrence: 'weekly:mon,thu' })} onComplete={vi.fn()} />);
+    expect(screen.getByTestId('recurrence-indicator')).toHaveAttribute('aria-label', 'Every Mon, Thu');
+  });
+
+  it('offers a weekly preset on the when_date weekday', () => {
+    render(<TaskItem task={fakeTask({ when_date: '2026-02-20' })} onComplete={vi.fn()} isExpanded />);
+    fireEvent.click(screen.getByRole('button', { name: 'Repeat' }));
+    fireEvent.click(screen.getByRole('option', { name: 'Weekly on Friday' }));
+    expect(mockUpdateTask).toHaveBeenCalledWith('task-1', { recurrence: 'weekly:fri' });
+  });
+
+  it('sets a completion-based rule from the days input', () => {
+    render(<TaskItem task={fakeTask()} onComplete={vi.fn()} isExpanded />);
+    fireEvent.click(screen.getByRole('button', { name: 'Repeat' }));
+    const input = screen.getByLabelText('Days after completion');
+    fireEvent.change(input, { target: { value: '3' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(mockUpdateTask).toHaveBeenCalledWith('task-1', { recurrence: 'after:3' });
+  });
+
+  it('clears the rule', () => {
+    render(<TaskItem task={fakeTask({ recurrence: 'daily' })} onComplete={vi.fn()} isExpanded />);
+    fireEvent.click(screen.getByRole('button', { name: 'Repeat' }));
+    fireEvent.click(screen.getByRole('option', { name: "Don't repeat" }));
+    expect(mockUpdateTask).toHaveBeenCalledWith('task-1', { recurrence: null });
+  });
+});
+
+describe('TaskItem estimate', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('shows the estimate on the collapsed row', () => {
+    render(<TaskItem task={fakeTask({ estimate_minutes: 90 })} onComplete={vi.fn()} />);
+    expect(screen.getByTestId('estimate-indicator')).toHaveTextContent('1h 30m');
+  });
+
+  it('sets a preset estimate', () => {
+    render(<TaskItem task={fakeTask()} onComplete={vi.fn()} isExpanded />);
+    fireEvent.click(screen.getByRole('button', { name: 'Estimate' }));
+    fireEvent.click(screen.getByRole('option', { name: '30m' }));
+    expect(mockUpdateTask).toHaveBeenCalledWith('task-1', { estimate_minutes: 30 });
+  });
+
+  it('sets a typed estimate and ignores unreadable input', () => {
+    render(<TaskItem task={fakeTask()} onComplete={vi.fn()} isExpanded />);
+    fireEvent.click(screen.getByRole('button', { name: 'Estimate' }));
+    const input = screen.getByLabelText('Custom estimate');
+    fireEvent.change(input, { target: { value: 'soon' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(mockUpdateTask).not.toHaveBeenCalled();
+
+    fireEvent.change(input, { target: { value: '1h15' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(mockUpdateTask).toHaveBeenCalledWith('task-1', { estimate_minutes: 75 });
+  });
+
+  it('clears the estimate', () => {
+    render(<TaskItem task={fakeTask({ estimate_minutes: 30 })} onComplete={vi.fn()} isExpanded />);
+    fireEvent.click(screen.getByRole('button', { name: 'Estimate' }));
+    fireEvent.click(screen.getByRole('option', { name: 'No estimate' }));
+    expect(mockUpdateTask).toHaveBeenCalledWith('task-1', { estimate_minutes: null });
+  });
+});
+
+describe('TaskItem blocked by', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockTasks = [];
+    mockTaskDependencies = [];
+  });
+
+  it('dims a blocked task and marks it', () => {
+    render(<TaskItem task={fakeTask()} onComplete={vi.fn()} isBlocked />);
+    expect(screen.getByTestId('blocked-indicator')).toBeInTheDocument();
+    expect(screen.getByText('Test task')).toHaveClass('text-muted-foreground/60');
+  });
+
+  it('links the chosen task as a blocker', async () => {
+    mockTasks = [fakeTask(), fakeTask({ id: 'task-2', title: 'Design review' })];
+    render(<TaskItem task={fakeTask()} onComplete={vi.fn()} isExpanded />);
+    fireEvent.click(screen.getByRole('button', { name: 'Blocked by' }));
+    fireEvent.click(screen.getByRole('option', { name: 'Design review' }));
+    expect(mockLinkTaskDependency).toHaveBeenCalledWith('task-1', 'task-2');
+  });
+
+  it('shows why a link was refused', async () => {
+    mockTasks = [fakeTask(), fakeTask({ id: 'task-2', title: 'Design review' })];
+    mockLinkTaskDependency.mockRejectedValueOnce(
+      new Error("Error invoking remote method 'taskDependencies:link': Error: Dependency would create a cycle"),
+    );
+    render(<TaskItem task={fakeTask()} onComplete={vi.fn()} isExpanded />);
+    fireEvent.click(screen.getByRole('button', { name: 'Blocked by' }));
+    fireEvent.click(screen.getByRole('option', { name: 'Design review' }));
+    expect(await screen.findByRole('alert')).toHaveTextContent('Dependency would create a cycle');
+  });
+
+  it('removes a blocker', () => {
+    mockTasks = [fakeTask(), fakeTask({ id: 'task-2', title: 'Design review' })];
+    mockTaskDependencies = [{
+      id: 'dep-1', task_id: 'task-1', blocked_by_task_id: 'task-2', created_at: '2026-02-17T00:00:00.000Z', deleted_at: null,
+    }];
+    render(<TaskItem task={fakeTask()} onComplete={vi.fn()} isExpanded />);
+    expect(screen.getByRole('button', { name: 'Blocked by' })).toHaveTextContent('Blocked by 1');
+    fireEvent.click(screen.getByRole('button', { name: 'Blocked by' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Remove Design review' }));
+    expect(mockUnlinkTaskDependency).toHaveBeenCalledWith('task-1', 'task-2');
+  });
+});
+
+describe('TaskItem move into checklist', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockTasks = [fakeTask(), fakeTask({ id: 'task-2', title: 'Move house' })];
+  });
+
+  it('folds the task into the chosen task\'s checklist', () => {
+    render(<TaskItem task={fakeTask()} onComplete={vi.fn()} isExpanded />);
+    fireEvent.click(screen.getByRole('button', { name: 'Move into checklist' }));
+    expect(screen.queryByRole('option', { name: 'Test task' })).not.toBeInTheDocument();
+    fireEvent.click(screen.getByRole('option', { name: 'Move house' }));
+    expect(mockDemoteTask).toHaveBeenCalledWith('task-1', 'task-2');
+  });
+
+  it('shows why the task could not be moved', async () => {
+    mockDemoteTask.mockRejectedValueOnce(
+      new Error("Error invoking remote method 'tasks:demote': Error: A task with a checklist cannot become a checklist item"),
+    );
+    render(<TaskItem task={fakeTask()} onComplete={vi.fn()} isExpanded />);
+    fireEvent.click(screen.getByRole('button', { name: 'Move into checklist' }));
+    fireEvent.click(screen.getByRole('option', { name: 'Move house' }));
+    expect(await screen.findByRole('alert')).toHaveTextContent(/^A task with a checklist cannot become a checklist item$/);
+  });
+});
+
+describe('TaskItem timer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRunningTimeEntry = null;
+  });
+
+  it('starts timing the task', () => {
+    render(<TaskItem task={fakeTask()} onComplete={vi.fn()} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Start timer' }));
+    expect(mockStartTimer).toHaveBeenCalledWith('task-1');
+  });
+
+  it('shows the running time and stops it, even once the task is done', () => {
+    mockRunningTimeEntry = { task_id: 'task-1', started_at: new Date(Date.now() - 65_000).toISOString() };
+    render(<TaskItem task={fakeTask({ status: 'logbook' })} onComplete={vi.fn()} />);
+    const stop = screen.getByRole('button', { name: 'Stop timer' });
+    expect(stop).toHaveTextContent('1:05');
+    fireEvent.click(stop);
+    expect(mockStopTimer).toHaveBeenCalled();
+  });
+});
+
+describe('TaskItem reminders', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockReminders = [];
+  });
+
+  it('offers reminders relative to the deadline', () => {
+    render(<TaskItem task={fakeTask({ deadline: '2099-03-02' })} onComplete={vi.fn()} isExpanded />);
+    fireEvent.click(screen.getByRole('button', { name: 'Reminders' }));
+    fireEvent.click(screen.getByRole('option', { name: '1 day before' }));
+    expect(mockCreateReminder).toHaveBeenCalledWith({ task_id: 'task-1', offset_minutes: 1440 });
+  });
+
+  it('only offers a fixed time without a deadline', () => {
+    render(<TaskItem task={fakeTask({ deadline: null })} onComplete={vi.fn()} isExpanded />);
+    fireEvent.click(screen.getByRole('button', { name: 'Reminders' }));
+    expect(screen.queryByRole('option')).not.toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Remind at'), { target: { value: '2099-03-01T15:30' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Add' }));
+    expect(mockCreateReminder).toHaveBeenCalledWith({
+      task_id: 'task-1',
+      remind_at: new Date(2099, 2, 1, 15, 30).toISOString(),
+    });
+  });
+
+  it('shows and removes an existing reminder', () => {
+    mockReminders = [{
+      id: 'rem-1', task_id: 'task-1', meeting_id: null, remind_at: null, offset_minutes: 60,
+      snoozed_until: null, fired_at: null, fired_by: null,
+      created_at: '2099-01-01T00:00:00.000Z', updated_at: '2099-01-01T00:00:00.000Z', deleted_at: null,
+    }];
+    render(<TaskItem task={fakeTask({ deadline: '2099-03-02' })} onComplete={vi.fn()} isExpanded />);
+    expect(screen.getByRole('button', { name: 'Reminders' })).toHaveTextContent('1 hour before');
+    fireEvent.click(screen.getByRole('button', { name: 'Reminders' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Remove reminder 1 hour before' }));
+    expect(mockDeleteReminder).toHaveBeenCalledWith('rem-1');
+  });
+});
+
 describe('TaskItem assign-to-agent (expanded)', () => {
   function makeAgent(overrides?: Partial<AIAgent>): AIAgent {
     return {
@@ -823,6 +1101,16 @@ describe('TaskItem assign-to-agent (expanded)', () => {
     expect(screen.getByRole('option', { name: /remove agent/i })).toBeInTheDocument();
   });
 
+  it('shows a stakeholder assigned from quick-add by name', () => {
+    render(
+      <TaskItem task={fakeTask({ assignee_id: 'sh-1' })} onComplete={vi.fn()} isExpanded />
+    );
+    const trigger = screen.getByRole('button', { name: /assign to agent/i });
+    expect(trigger).toHaveTextContent('Anna Schmidt');
+    fireEvent.click(trigger);
+    expect(screen.getByRole('option', { name: /remove agent/i })).toBeInTheDocument();
+  });
+
   it('does not show "Remove agent" when no agent is assigned', () => {
     mockAgents = [makeAgent({ id: 'agent-1', name: 'Cortex Agent' })];
     render(
@@ -1,15 +1,26 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { Circle, CheckCircle2, Calendar, Flag, Trash2, Check, X, Cloud, Layers, Bot, Lock } from 'lucide-react';
-import { differenceInCalendarDays, parseISO } from 'date-fns';
-import type { Task } from '@shared/types';
+import { Circle, CheckCircle2, Calendar, Flag, Trash2, Check, X, Cloud, Layers, Bot, Lock, Repeat, Link2, Timer } from 'lucide-react';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { Task, ProjectHeading } from '@shared/types';
+import { describeRecurrence, formatRecurrenceRule } from '@shared/recurrence';
+import { parseEstimate, formatEstimate } from '@shared/estimate';
 import { useStore } from '../stores';
 import { useDebouncedCallback } from '../hooks/useDebouncedCallback';
 import { DatePickerButton, type DatePickerAction } from './DatePickerButton';
 import { ChecklistList } from './ChecklistList';
+import { BlockedByPicker } from './BlockedByPicker';
+import { MoveToChecklistPicker } from './MoveToChecklistPicker';
+import { ReminderPicker } from './ReminderPicker';
+import { TagPicker } from './TagPicker';
+import { ChangeHistory } from './ChangeHistory';
+import { SaveAsTemplateButton } from './SaveAsTemplateButton';
+import { TaskTimerButton } from './TaskTimerButton';
 import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
 import { cn } from '../lib/utils';
 
 const DEBOUNCE_MS = 500;
+const NO_HEADINGS: ProjectHeading[] = [];
+const ESTIMATE_PRESETS = [15, 30, 60, 120, 240];
 
 function getDeadlineUrgency(deadline: string | null): string | undefined {
   if (!deadline) return undefined;
@@ -30,23 +41,37 @@ interface TaskItemProps {
   task: Task;
   onComplete: (id: string) => void;
   onSelect?: (id: string) => void;
+  /** Shift-click extends a range, cmd/ctrl-click toggles the task */
+  onMultiSelect?: (id: string, mode: 'toggle' | 'range') => void;
   isSelected?: boolean;
   isExpanded?: boolean;
   isCompleted?: boolean;
+  /** Waits on an open task; the row is dimmed until that task is done */
+  isBlocked?: boolean;
+  /** First actionable task of its project */
+  isNext?: boolean;
 }
 
-function TaskItem({ task, onComplete, onSelect, isSelected, isExpanded, isCompleted: isCompletedProp }: TaskItemProps) {
+function TaskItem({ task, onComplete, onSelect, onMultiSelect, isSelected, isExpanded, isCompleted: isCompletedProp, isBlocked, isNext }: TaskItemProps) {
   const updateTask = useStore((s) => s.updateTask);
   const deleteTask = useStore((s) => s.deleteTask);
+  const saveTaskAsTemplate = useStore((s) => s.saveTaskAsTemplate);
   const deselectTask = useStore((s) => s.deselectTask);
   const projects = useStore((s) => s.projects);
   const contexts = useStore((s) => s.contexts);
+  const headings = useStore((s) => (task.project_id ? s.projectHeadings[task.project_id] : undefined) ?? NO_HEADINGS);
   const agents = useStore((s) => s.agents);
+  const stakeholders = useStore((s) => s.stakeholders);
   const authUser = useStore((s) => s.authUser) as { id: string } | null;
 
   const [confirmingDelete, setConfirmingDelete] = useState(false);
   const [priorityOpen, setPriorityOpen] = useState(false);
   const [projectOpen, setProjectOpen] = useState(false);
+  const [headingOpen, setHeadingOpen] = useState(false);
+  const [repeatOpen, setRepeatOpen] = useState(false);
+  const [repeatDays, setRepeatDays] = useState('');
+  const [estimateOpen, setEstimateOpen] = useState(false);
+  const [estimateText, setEstimateText] = useState('');
   const [contextOpen, setContextOpen] = useState(false);
   const [assigneeOpen, setAssigneeOpen] = useState(false);
   const isCompleted = isCompletedProp ?? (task.status === 'logbook');
@@ -241,6 +266,51 @@ function TaskItem({ task, onComplete, onSelect, isSelected, isExpanded, isComple
     setProjectOpen(false);
   };
 
+  const currentHeading = useMemo(
+    () => headings.find((h) => h.id === task.heading_id) ?? null,
+    [headings, task.heading_id],
+  );
+
+  const handleHeadingChange = (headingId: string | null) => {
+    updateTask(task.id, { heading_id: headingId });
+    setHeadingOpen(false);
+  };
+
+  // Weekly/monthly presets follow the task's when_date, or today if it has none
+  const repeatOptions = useMemo(() => {
+    const anchor = task.when_date ? parseISO(task.when_date) : new Date();
+    return [
+      { label: 'Daily', value: formatRecurrenceRule({ type: 'daily' }) },
+      { label: 'Every weekday', value: formatRecurrenceRule({ type: 'weekly', weekdays: [1, 2, 3, 4, 5] }) },
+      { label: `Weekly on ${format(anchor, 'EEEE')}`, value: formatRecurrenceRule({ type: 'weekly', weekdays: [anchor.getDay()] }) },
+      { label: `Monthly on the ${format(anchor, 'do')}`, value: formatRecurrenceRule({ type: 'monthly', day: anchor.getDate() }) },
+    ];
+  }, [task.when_date]);
+
+  const handleRepeatChange = (recurrence: string | null) => {
+    updateTask(task.id, { recurrence });
+    setRepeatOpen(false);
+    setRepeatDays('');
+  };
+
+  const handleRepeatDaysSubmit = () => {
+    const days = parseInt(repeatDays, 10);
+    if (days >= 1 && days <= 365) {
+      handleRepeatChange(formatRecurrenceRule({ type: 'after_completion', days }));
+    }
+  };
+
+  const handleEstimateChange = (minutes: number | null) => {
+    updateTask(task.id, { estimate_minutes: minutes });
+    setEstimateOpen(false);
+    setEstimateText('');
+  };
+
+  const handleEstimateSubmit = () => {
+    const minutes = parseEstimate(estimateText);
+    if (minutes) handleEstimateChange(minutes);
+  };
+
   const handleContextChange = (contextId: string | null) => {
     updateTask(task.id, { context_id: contextId });
     setContextOpen(false);
@@ -257,6 +327,12 @@ function TaskItem({ task, onComplete, onSelect, isSelected, isExpanded, isComple
     return agents.find((a) => a.id === task.assignee_id) ?? null;
   }, [task.assignee_id, authUser, agents]);
 
+  // Quick-add's @name can also hand a task to a stakeholder
+  const assignedStakeholder = useMemo(() => {
+    if (!task.assignee_id || assignedAgent) return null;
+    return (stakeholders ?? []).find((s) => s.id === task.assignee_id) ?? null;
+  }, [task.assignee_id, assignedAgent, stakeholders]);
+
   const handleAssigneeChange = (assigneeId: string | null) => {
     updateTask(task.id, { assignee_id: assigneeId });
     setAssigneeOpen(false);
@@ -267,10 +343,13 @@ function TaskItem({ task, onComplete, onSelect, isSelected, isExpanded, isComple
     setPriorityOpen(false);
   };
 
-  const handleRowClick = () => {
-    if (!isExpanded) {
-      onSelect?.(task.id);
+  const handleRowClick = (e: React.MouseEvent) => {
+    if (isExpanded) return;
+    if (onMultiSelect && (e.shiftKey || e.metaKey || e.ctrlKey)) {
+      onMultiSelect(task.id, e.shiftKey ? 'range' : 'toggle');
+      return;
     }
+    onSelect?.(task.id);
   };
 
   return (
@@ -278,6 +357,10 @@ function TaskItem({ task, onComplete, onSelect, isSelected, isExpanded, isComple
       ref={cardRef}
       data-testid="task-item"
       onClick={handleRowClick}
+      onMouseDown={(e) => {
+        // Keep shift-click from selecting text
+        if (e.shiftKey && onMultiSelect && !isExpanded) e.preventDefault();
+      }}
       className={cn(
         'rounded-xl cursor-default border',
         'transition-[background-color,border-color,box-shadow] duration-200 ease-out',
@@ -330,12 +413,43 @@ function TaskItem({ task, onComplete, onSelect, isSelected, isExpanded, isComple
           />
         ) : (
           <span
-            className={`flex-1 text-[13px] leading-snug truncate transition-[color,text-decoration-line,text-decoration-color] duration-300 ${isCompleted ? 'line-through text-muted-foreground decoration-muted-foreground' : 'text-foreground'}`}
+            className={`flex-1 text-[13px] leading-snug truncate transition-[color,text-decoration-line,text-decoration-color] duration-300 ${isCompleted ? 'line-through text-muted-foreground decoration-muted-foreground' : isBlocked ? 'text-muted-foreground/60' : 'text-foreground'}`}
           >
             {task.title}
           </span>
         )}
 
+        {!isExpanded && !isCompleted && task.estimate_minutes != null && (
+          <span data-testid="estimate-indicator" className="text-[11px] tabular-nums text-muted-foreground/70 shrink-0">
+            {formatEstimate(task.estimate_minutes)}
+          </span>
+        )}
+
+        {!isExpanded && isNext && !isCompleted && (
+          <span
+            data-testid="next-indicator"
+            className="text-[10px] font-medium uppercase tracking-wider text-primary bg-primary/10 px-1.5 py-0.5 rounded-full shrink-0"
+          >
+            Next
+          </span>
+        )}
+
+        {!isExpanded && isBlocked && !isCompleted && (
+          <Link2
+            data-testid="blocked-indicator"
+            aria-label="Blocked"
+            className="size-3 shrink-0 text-muted-foreground/60"
+          />
+        )}
+
+        {!isExpanded && task.recurrence && (
+          <Repeat
+            data-testid="recurrence-indicator"
+            aria-label={describeRecurrence(task.recurrence)}
+            className="size-3 shrink-0 text-muted-foreground/60"
+          />
+        )}
+
         {!isExpanded && !isCompleted && (
           <span
             data-testid="context-indicator"
@@ -348,6 +462,7 @@ function TaskItem({ task, onComplete, onSelect, isSelected, isExpanded, isComple
         )}
 
         <div className="flex items-center shrink-0" onClick={(e) => e.stopPropagation()}>
+          <TaskTimerButton taskId={task.id} canStart={!isCompleted} alwaysVisible={isExpanded} />
           <span data-testid="when-date">
             <DatePickerButton
               value={task.when_date}
@@ -495,6 +610,144 @@ function TaskItem({ task, onComplete, onSelect, isSelected, isExpanded, isComple
                   })}
                 </PopoverContent>
               </Popover>
+              {headings.length > 0 && (
+                <Popover open={headingOpen} onOpenChange={setHeadingOpen}>
+                  <PopoverTrigger asChild>
+                    <button
+                      type="button"
+                      aria-label="Heading"
+                      tabIndex={isExpanded ? 0 : -1}
+                      className="inline-flex items-center gap-1.5 px-1.5 py-1 text-xs text-muted-foreground hover:bg-accent/60 rounded-md transition-colors cursor-pointer"
+                    >
+                      <span>{currentHeading ? currentHeading.title : 'No heading'}</span>
+                    </button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-48 p-1" align="start">
+                    <button
+                      role="option"
+                      aria-label="No heading"
+                      type="button"
+                      onClick={() => handleHeadingChange(null)}
+                      className="flex items-center w-full px-2 py-1.5 text-sm text-muted-foreground hover:bg-accent rounded-md cursor-pointer"
+                    >
+                      None
+                    </button>
+                    {headings.map((h) => (
+                      <button
+                        key={h.id}
+                        role="option"
+                        aria-label={h.title}
+                        type="button"
+                        onClick={() => handleHeadingChange(h.id)}
+                        className="flex items-center w-full px-2 py-1.5 text-sm text-foreground hover:bg-accent rounded-md cursor-pointer"
+                      >
+                        {h.title}
+                      </button>
+                    ))}
+                  </PopoverContent>
+                </Popover>
+              )}
+              <Popover open={repeatOpen} onOpenChange={setRepeatOpen}>
+                <PopoverTrigger asChild>
+                  <button
+                    type="button"
+                    aria-label="Repeat"
+                    tabIndex={isExpanded ? 0 : -1}
+                    className="inline-flex items-center gap-1.5 px-1.5 py-1 text-xs text-muted-foreground hover:bg-accent/60 rounded-md transition-colors cursor-pointer"
+                  >
+                    <Repeat className="size-3" />
+                    <span>{task.recurrence ? describeRecurrence(task.recurrence) : 'Repeat'}</span>
+                  </button>
+                </PopoverTrigger>
+                <PopoverContent className="w-56 p-1" align="start">
+                  <button
+                    role="option"
+                    aria-label="Don't repeat"
+                    type="button"
+                    onClick={() => handleRepeatChange(null)}
+                    className="flex items-center w-full px-2 py-1.5 text-sm text-muted-foreground hover:bg-accent rounded-md cursor-pointer"
+                  >
+                    None
+                  </button>
+                  {repeatOptions.map((option) => (
+                    <button
+                      key={option.value}
+                      role="option"
+                      aria-label={option.label}
+                      type="button"
+                      onClick={() => handleRepeatChange(option.value)}
+                      className="flex items-center w-full px-2 py-1.5 text-sm text-foreground hover:bg-accent rounded-md cursor-pointer"
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                  <div className="flex items-center gap-2 px-2 py-1.5 text-sm text-foreground">
+                    <input
+                      type="number"
+                      min={1}
+                      max={365}
+                      aria-label="Days after completion"
+                      value={repeatDays}
+                      onChange={(e) => setRepeatDays(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleRepeatDaysSubmit();
+                      }}
+                      placeholder="N"
+                      className="w-12 bg-transparent border border-border rounded px-1.5 py-0.5 text-sm outline-none"
+                    />
+                    <span className="text-muted-foreground text-xs">days after completion</span>
+                  </div>
+                </PopoverContent>
+              </Popover>
+              <Popover open={estimateOpen} onOpenChange={setEstimateOpen}>
+                <PopoverTrigger asChild>
+                  <button
+                    type="button"
+                    aria-label="Estimate"
+                    tabIndex={isExpanded ? 0 : -1}
+                    className="inline-flex items-center gap-1.5 px-1.5 py-1 text-xs text-muted-foreground hover:bg-accent/60 rounded-md transition-colors cursor-pointer"
+                  >
+                    <Timer className="size-3" />
+                    <span>{task.estimate_minutes ? formatEstimate(task.estimate_minutes) : 'Estimate'}</span>
+                  </button>
+                </PopoverTrigger>
+                <PopoverContent className="w-44 p-1" align="start">
+                  <button
+                    role="option"
+                    aria-label="No estimate"
+                    type="button"
+                    onClick={() => handleEstimateChange(null)}
+                    className="flex items-center w-full px-2 py-1.5 text-sm text-muted-foreground hover:bg-accent rounded-md cursor-pointer"
+                  >
+                    None
+                  </button>
+                  {ESTIMATE_PRESETS.map((minutes) => (
+                    <button
+                      key={minutes}
+                      role="option"
+                      aria-label={formatEstimate(minutes)}
+                      type="button"
+                      onClick={() => handleEstimateChange(minutes)}
+                      className="flex items-center w-full px-2 py-1.5 text-sm text-foreground hover:bg-accent rounded-md cursor-pointer"
+                    >
+                      {formatEstimate(minutes)}
+                    </button>
+                  ))}
+                  <div className="px-2 py-1.5">
+                    <input
+                      type="text"
+                      aria-label="Custom estimate"
+                      value={estimateText}
+                      onChange={(e) => setEstimateText(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleEstimateSubmit();
+                      }}
+                      placeholder="e.g. 45m, 1h30"
+                      className="w-full bg-transparent border border-border rounded px-1.5 py-0.5 text-sm outline-none"
+                    />
+                  </div>
+                </PopoverContent>
+              </Popover>
               {isContextInherited ? (
                 <div className="inline-flex items-center gap-1.5 px-1.5 py-1 text-xs text-muted-foreground">
                   <span
@@ -555,6 +808,12 @@ function TaskItem({ task, onComplete, onSelect, isSelected, isExpanded, isComple
                   </PopoverContent>
                 </Popover>
               )}
+              {/* Only the open card subscribes to the whole task list */}
+              {isExpanded && <BlockedByPicker task={task} />}
+              {isExpanded && <MoveToChecklistPicker task={task} />}
+              {isExpanded && <ReminderPicker taskId={task.id} deadline={task.deadline} />}
+              {isExpanded && <TagPicker entityType="task" entityId={task.id} />}
+              {isExpanded && <ChangeHistory entityId={task.id} />}
               <Popover open={assigneeOpen} onOpenChange={setAssigneeOpen}>
                 <PopoverTrigger asChild>
                   <button
@@ -563,20 +822,20 @@ function TaskItem({ task, onComplete, onSelect, isSelected, isExpanded, isComple
                     tabIndex={isExpanded ? 0 : -1}
                     className={cn(
                       "inline-flex items-center gap-1.5 px-1.5 py-1 text-xs rounded-md transition-colors cursor-pointer",
-                      assignedAgent
+                      assignedAgent || assignedStakeholder
                         ? "text-foreground hover:bg-accent/60"
                         : "text-muted-foreground hover:bg-accent/60",
                     )}
                   >
                     <Bot className="size-3" />
-                    <span>{assignedAgent ? assignedAgent.name : 'Assign to Agent'}</span>
+                    <span>{assignedAgent?.name ?? assignedStakeholder?.name ?? 'Assign to Agent'}</span>
                     {assignedAgent && (
                       <span className="text-[10px] bg-accent px-1 py-0.5 rounded text-muted-foreground leading-none">AI</span>
                     )}
                   </button>
                 </PopoverTrigger>
                 <PopoverContent className="w-48 p-1" align="start">
-                  {assignedAgent && (
+                  {(assignedAgent || assignedStakeholder) && (
                     <button
                       role="option"
                       aria-label="Remove agent"
@@ -614,44 +873,47 @@ function TaskItem({ task, onComplete, onSelect, isSelected, isExpanded, isComple
                 </PopoverContent>
               </Popover>
               </div>
-              {confirmingDelete ? (
-                <div className="flex items-center gap-1.5 rounded-lg bg-accent px-2.5 py-1">
-                  <span className="text-sm text-muted-foreground mr-1">Confirm?</span>
-                  <button
-                    aria-label="Confirm delete task"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleDelete();
-                      setConfirmingDelete(false);
-                    }}
-                    className="p-1 rounded bg-destructive/15 text-destructive hover:bg-destructive/25 transition-colors"
-                  >
-                    <Check className="size-3.5" />
-                  </button>
+              <div className="flex items-center gap-1.5">
+                <SaveAsTemplateButton defaultName={task.title} onSave={(name) => saveTaskAsTemplate(task.id, name)} />
+                {confirmingDelete ? (
+                  <div className="flex items-center gap-1.5 rounded-lg bg-accent px-2.5 py-1">
+                    <span className="text-sm text-muted-foreground mr-1">Confirm?</span>
+                    <button
+                      aria-label="Confirm delete task"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete();
+                        setConfirmingDelete(false);
+                      }}
+                      className="p-1 rounded bg-destructive/15 text-destructive hover:bg-destructive/25 transition-colors"
+                    >
+                      <Check className="size-3.5" />
+                    </button>
+                    <button
+                      aria-label="Cancel delete task"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setConfirmingDelete(false);
+                      }}
+                      className="p-1 rounded text-muted-foreground hover:bg-accent hover:text-foreground transition-colors"
+                    >
+                      <X className="size-3.5" />
+                    </button>
+                  </div>
+                ) : (
                   <button
-                    aria-label="Cancel delete task"
+                    aria-label="Delete task"
+                    tabIndex={isExpanded ? 0 : -1}
                     onClick={(e) => {
                       e.stopPropagation();
-                      setConfirmingDelete(false);
+                      setConfirmingDelete(true);
                     }}
-                    className="p-1 rounded text-muted-foreground hover:bg-accent hover:text-foreground transition-colors"
+                    className="p-1 rounded text-muted-foreground/40 hover:text-destructive transition-colors"
                   >
-                    <X className="size-3.5" />
+                    <Trash2 className="size-3.5" />
                   </button>
-                </div>
-              ) : (
-                <button
-                  aria-label="Delete task"
-                  tabIndex={isExpanded ? 0 : -1}
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    setConfirmingDelete(true);
-                  }}
-                  className="p-1 rounded text-muted-foreground/40 hover:text-destructive transition-colors"
-                >
-                  <Trash2 className="size-3.5" />
-                </button>
-              )}
+                )}
+              </div>
             </div>
           </div>
         </div>
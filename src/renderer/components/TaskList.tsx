@@ -1,7 +1,10 @@
-import { useRef } from 'react';
+import { useMemo, useRef } from 'react';
 import { useVirtualizer } from '@tanstack/react-virtual';
 import type { Task } from '@shared/types';
 import { TaskItem } from './TaskItem';
+import { DropIndicator } from './DropIndicator';
+import { useStore } from '../stores';
+import { useDragReorder, TASK_DRAG_TYPE, type DropTarget } from '../hooks/useDragReorder';
 
 const VIRTUAL_THRESHOLD = 50;
 // Estimated row height in pixels for virtualizer
@@ -14,6 +17,19 @@ interface TaskListProps {
   onSelectTask?: (id: string) => void;
   selectedTaskId?: string | null;
   completedIds?: Set<string>;
+  /** Tasks waiting on an open blocker, shown dimmed */
+  blockedIds?: Set<string>;
+  /** The task to work on next, badged in the row */
+  nextTaskId?: string;
+}
+
+type DragProps = ReturnType<ReturnType<typeof useDragReorder>['itemProps']>;
+
+interface TaskRowsProps extends Omit<TaskListProps, 'title'> {
+  multiSelectedIds: Set<string>;
+  onMultiSelect: (id: string, mode: 'toggle' | 'range') => void;
+  dropTarget: DropTarget | null;
+  dragProps: (id: string) => DragProps | undefined;
 }
 
 function AnimatedTaskList({
@@ -22,21 +38,34 @@ function AnimatedTaskList({
   onSelectTask,
   selectedTaskId,
   completedIds,
-}: Omit<TaskListProps, 'title'>) {
+  blockedIds,
+  nextTaskId,
+  multiSelectedIds,
+  onMultiSelect,
+  dropTarget,
+  dragProps,
+}: TaskRowsProps) {
   return (
     <div className="flex flex-col">
       {tasks.map((task) => (
         <div
           key={task.id}
-          className="animate-task-enter"
+          role="option"
+          aria-selected={multiSelectedIds.has(task.id)}
+          className="relative animate-task-enter"
+          {...dragProps(task.id)}
         >
+          <DropIndicator target={dropTarget} id={task.id} />
           <TaskItem
             task={task}
             onComplete={onCompleteTask}
             onSelect={onSelectTask}
-            isSelected={selectedTaskId === task.id}
+            onMultiSelect={onMultiSelect}
+            isSelected={selectedTaskId === task.id || multiSelectedIds.has(task.id)}
             isExpanded={selectedTaskId === task.id}
             isCompleted={completedIds?.has(task.id)}
+            isBlocked={blockedIds?.has(task.id)}
+            isNext={nextTaskId === task.id}
           />
         </div>
       ))}
@@ -50,7 +79,13 @@ function VirtualTaskList({
   onSelectTask,
   selectedTaskId,
   completedIds,
-}: Omit<TaskListProps, 'title'>) {
+  blockedIds,
+  nextTaskId,
+  multiSelectedIds,
+  onMultiSelect,
+  dropTarget,
+  dragProps,
+}: TaskRowsProps) {
   const parentRef = useRef<HTMLDivElement>(null);
   const virtualizer = useVirtualizer({
     count: tasks.length,
@@ -69,6 +104,8 @@ function VirtualTaskList({
           return (
             <div
               key={task.id}
+              role="option"
+              aria-selected={multiSelectedIds.has(task.id)}
               style={{
                 position: 'absolute',
                 top: 0,
@@ -78,14 +115,19 @@ function VirtualTaskList({
               }}
               ref={virtualizer.measureElement}
               data-index={virtualItem.index}
+              {...dragProps(task.id)}
             >
+              <DropIndicator target={dropTarget} id={task.id} />
               <TaskItem
                 task={task}
                 onComplete={onCompleteTask}
                 onSelect={onSelectTask}
-                isSelected={selectedTaskId === task.id}
+                onMultiSelect={onMultiSelect}
+                isSelected={selectedTaskId === task.id || multiSelectedIds.has(task.id)}
                 isExpanded={selectedTaskId === task.id}
                 isCompleted={completedIds?.has(task.id)}
+                isBlocked={blockedIds?.has(task.id)}
+                isNext={nextTaskId === task.id}
               />
             </div>
           );
@@ -95,8 +137,68 @@ function VirtualTaskList({
   );
 }
 
-export function TaskList({ tasks, title, onCompleteTask, onSelectTask, selectedTaskId, completedIds }: TaskListProps) {
+export function TaskList({ tasks, title, onCompleteTask, onSelectTask, selectedTaskId, completedIds, blockedIds, nextTaskId }: TaskListProps) {
+  const selectedTaskIds = useStore((s) => s.selectedTaskIds);
+  const selectionFocusId = useStore((s) => s.selectionFocusId);
+  const toggleTaskSelection = useStore((s) => s.toggleTaskSelection);
+  const selectTaskRange = useStore((s) => s.selectTaskRange);
+  const setTaskSelection = useStore((s) => s.setTaskSelection);
+  const clearTaskSelection = useStore((s) => s.clearTaskSelection);
+  const moveTask = useStore((s) => s.moveTask);
+  const setDraggingTask = useStore((s) => s.setDraggingTask);
+
   const useVirtual = tasks.length > VIRTUAL_THRESHOLD;
+  const orderedIds = useMemo(() => tasks.map((t) => t.id), [tasks]);
+  const multiSelectedIds = useMemo(() => new Set(selectedTaskIds), [selectedTaskIds]);
+
+  const { dropTarget, itemProps } = useDragReorder({ ids: orderedIds, type: TASK_DRAG_TYPE, onMove: moveTask });
+
+  // The open task holds text fields, so it can't be dragged
+  const dragProps = (id: string): DragProps | undefined => {
+    if (id === selectedTaskId) return undefined;
+    const props = itemProps(id);
+    return {
+      ...props,
+      onDragStart: (e) => {
+        props.onDragStart(e);
+        setDraggingTask(id);
+      },
+      onDragEnd: () => {
+        props.onDragEnd();
+        setDraggingTask(null);
+      },
+    };
+  };
+
+  const handleMultiSelect = (id: string, mode: 'toggle' | 'range') => {
+    if (mode === 'toggle') toggleTaskSelection(id);
+    else selectTaskRange(orderedIds, id);
+  };
+
+  // Arrow keys move the selection (shift extends it), Cmd+A selects the whole list
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const target = e.target as HTMLElement;
+    if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target.isContentEditable) return;
+
+    if ((e.metaKey || e.ctrlKey) && e.key === 'a') {
+      e.preventDefault();
+      setTaskSelection(orderedIds);
+      return;
+    }
+    if (e.key === 'Escape' && multiSelectedIds.size > 0) {
+      clearTaskSelection();
+      return;
+    }
+    if (e.key !== 'ArrowDown' && e.key !== 'ArrowUp') return;
+
+    e.preventDefault();
+    const current = orderedIds.indexOf(selectionFocusId ?? selectedTaskId ?? '');
+    const next = current === -1
+      ? (e.key === 'ArrowDown' ? 0 : orderedIds.length - 1)
+      : Math.min(orderedIds.length - 1, Math.max(0, current + (e.key === 'ArrowDown' ? 1 : -1)));
+    if (e.shiftKey) selectTaskRange(orderedIds, orderedIds[next]);
+    else setTaskSelection([orderedIds[next]]);
+  };
 
   return (
     <div>
@@ -111,22 +213,45 @@ export function TaskList({ tasks, title, onCompleteTask, onSelectTask, selectedT
 
       {tasks.length === 0 ? (
         <p className="px-3 py-8 text-sm text-muted-foreground text-center">No tasks</p>
-      ) : useVirtual ? (
-        <VirtualTaskList
-          tasks={tasks}
-          onCompleteTask={onCompleteTask}
-          onSelectTask={onSelectTask}
-          selectedTaskId={selectedTaskId}
-          completedIds={completedIds}
-        />
       ) : (
-        <AnimatedTaskList
-          tasks={tasks}
-          onCompleteTask={onCompleteTask}
-          onSelectTask={onSelectTask}
-          selectedTaskId={selectedTaskId}
-          completedIds={completedIds}
-        />
+        <div
+          role="listbox"
+          aria-multiselectable
+          aria-label={title ?? 'Tasks'}
+          tabIndex={0}
+          onKeyDown={handleKeyDown}
+          className="outline-none"
+        >
+          {useVirtual ? (
+            <VirtualTaskList
+              tasks={tasks}
+              onCompleteTask={onCompleteTask}
+              onSelectTask={onSelectTask}
+              selectedTaskId={selectedTaskId}
+              completedIds={completedIds}
+              blockedIds={blockedIds}
+              nextTaskId={nextTaskId}
+              multiSelectedIds={multiSelectedIds}
+              onMultiSelect={handleMultiSelect}
+              dropTarget={dropTarget}
+              dragProps={dragProps}
+            />
+          ) : (
+            <AnimatedTaskList
+              tasks={tasks}
+              onCompleteTask={onCompleteTask}
+              onSelectTask={onSelectTask}
+              selectedTaskId={selectedTaskId}
+              completedIds={completedIds}
+              blockedIds={blockedIds}
+              nextTaskId={nextTaskId}
+              multiSelectedIds={multiSelectedIds}
+              onMultiSelect={handleMultiSelect}
+              dropTarget={dropTarget}
+              dragProps={dragProps}
+            />
+          )}
+        </div>
       )}
     </div>
   );
@@ -0,0 +1,52 @@
+import { Play, Square } from 'lucide-react';
+import { formatElapsed } from '@shared/time-tracking';
+import { useStore } from '../stores';
+import { useElapsedSeconds } from '../hooks/useElapsedSeconds';
+import { cn } from '../lib/utils';
+
+interface TaskTimerButtonProps {
+  taskId: string;
+  /** False for finished tasks, which can still stop a timer left running */
+  canStart?: boolean;
+  /** Keep the start button visible instead of only on hover */
+  alwaysVisible?: boolean;
+}
+
+/** Starts timing the task, or shows its running time with a stop button */
+export function TaskTimerButton({ taskId, canStart = true, alwaysVisible = false }: TaskTimerButtonProps) {
+  const running = useStore((s) => s.runningTimeEntry);
+  const startTimer = useStore((s) => s.startTimer);
+  const stopTimer = useStore((s) => s.stopTimer);
+  const isRunning = running?.task_id === taskId;
+  const elapsed = useElapsedSeconds(isRunning ? running.started_at : null);
+
+  if (isRunning) {
+    return (
+      <button
+        type="button"
+        aria-label="Stop timer"
+        onClick={() => stopTimer()}
+        className="inline-flex items-center gap-1 px-1.5 py-1 text-[11px] tabular-nums text-primary hover:bg-accent/60 rounded-md transition-colors"
+      >
+        <Square className="size-3" fill="currentColor" />
+        <span>{formatElapsed(elapsed)}</span>
+      </button>
+    );
+  }
+
+  if (!canStart) return null;
+
+  return (
+    <button
+      type="button"
+      aria-label="Start timer"
+      onClick={() => startTimer(taskId)}
+      className={cn(
+        'p-1 rounded-md text-muted-foreground/60 hover:text-foreground hover:bg-accent/60 transition-all',
+        !alwaysVisible && 'opacity-0 group-hover:opacity-100 focus-visible:opacity-100',
+      )}
+    >
+      <Play className="size-3.5" />
+    </button>
+  );
+}
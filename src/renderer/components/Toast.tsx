@@ -0,0 +1,36 @@
+import { useEffect } from 'react';
+import { X } from 'lucide-react';
+import { useStore } from '../stores';
+
+const TOAST_DURATION_MS = 4000;
+
+export function Toast() {
+  const toast = useStore((s) => s.toast);
+  const dismissToast = useStore((s) => s.dismissToast);
+  const toastId = toast?.id;
+
+  // Keyed on the id so a repeated message restarts the timer
+  useEffect(() => {
+    if (toastId === undefined) return;
+    const timer = setTimeout(dismissToast, TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [toastId, dismissToast]);
+
+  if (!toast) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-20 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 rounded-lg border border-border bg-popover px-4 py-2 text-sm text-popover-foreground shadow-lg"
+    >
+      <span>{toast.message}</span>
+      <button
+        aria-label="Dismiss"
+        onClick={dismissToast}
+        className="p-0.5 rounded text-muted-foreground hover:text-foreground transition-colors"
+      >
+        <X className="size-3.5" />
+      </button>
+    </div>
+  );
+}
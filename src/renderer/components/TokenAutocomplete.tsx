@@ -1,15 +1,68 @@
 import { useEffect, useRef, useState, useMemo } from 'react';
+import { format, parseISO } from 'date-fns';
+import { parseLeadingDate } from '../lib/parseDate';
 import { cn } from '../lib/utils';
 
+export type TokenType = 'context' | 'project' | 'assignee' | 'priority' | 'estimate' | 'tag' | 'when' | 'deadline';
+
+const LABELS: Record<TokenType, string> = {
+  context: 'Contexts',
+  project: 'Projects',
+  assignee: 'Assign to',
+  priority: 'Priority',
+  estimate: 'Estimate',
+  tag: 'Tags',
+  when: 'When',
+  deadline: 'Deadline',
+};
+
 interface TokenAutocompleteProps {
-  items: { id: string; name: string; color?: string | null }[];
+  items: { id: string; name: string; color?: string | null; hint?: string }[];
   query: string;
   onSelect: (item: { id: string; name: string }) => void;
   onDismiss: () => void;
-  type: 'context' | 'project';
+  type: TokenType;
+}
+
+/**
+ * Suggestions for the token under the cursor. `#`, `+`, `@`, `!`, `~` and `*`
+ * tokens get a pickable list; `do:` and `due:` tokens get a live preview of
+ * the date the phrase resolves to, leaving Enter free to save the task.
+ */
+export function TokenAutocomplete(props: TokenAutocompleteProps) {
+  if (props.type === 'when' || props.type === 'deadline') {
+    return <DatePreview query={props.query} type={props.type} />;
+  }
+  return <ItemList {...props} />;
+}
+
+function DatePreview({ query, type }: { query: string; type: 'when' | 'deadline' }) {
+  const resolved = parseLeadingDate(query);
+
+  return (
+    <div
+      data-testid="token-autocomplete"
+      className="absolute z-50 top-full left-[46px] mt-1 w-56 bg-popover border border-border rounded-lg shadow-lg overflow-hidden"
+    >
+      <div className="px-2 py-1 text-[10px] font-semibold uppercase tracking-wide text-muted-foreground">
+        {LABELS[type]}
+      </div>
+      <div
+        data-testid="date-preview"
+        role="status"
+        className={cn('px-3 py-1.5 text-[13px]', resolved ? 'text-foreground' : 'text-muted-foreground')}
+      >
+        {resolved
+          ? `${format(parseISO(resolved.date), 'EEE, MMM d, yyyy')}${resolved.time ? ` at ${resolved.time}` : ''}`
+          : query.trim()
+            ? 'No date recognised'
+            : 'e.g. tomorrow, next friday, 15.03.'}
+      </div>
+    </div>
+  );
 }
 
-export function TokenAutocomplete({ items, query, onSelect, onDismiss, type }: TokenAutocompleteProps) {
+function ItemList({ items, query, onSelect, onDismiss, type }: TokenAutocompleteProps) {
   const [highlightedIndex, setHighlightedIndex] = useState(0);
 
   const filtered = useMemo(
@@ -58,7 +111,7 @@ export function TokenAutocomplete({ items, query, onSelect, onDismiss, type }: T
 
   if (filtered.length === 0) return null;
 
-  const label = type === 'context' ? 'Contexts' : 'Projects';
+  const label = LABELS[type];
 
   return (
     <div
@@ -91,6 +144,7 @@ export function TokenAutocomplete({ items, query, onSelect, onDismiss, type }: T
               />
             )}
             {item.name}
+            {item.hint && <span className="ml-auto text-xs text-muted-foreground">{item.hint}</span>}
           </li>
         ))}
       </ul>
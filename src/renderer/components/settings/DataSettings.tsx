@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { Download, Upload } from 'lucide-react';
+import { Button } from '@renderer/components/ui/button';
+import { Label } from '@renderer/components/ui/label';
+import { Switch } from '@renderer/components/ui/switch';
+
+export function DataSettings() {
+  const [includeRecordings, setIncludeRecordings] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleExport() {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const filePath = await window.cortex.system.exportData({ includeRecordings });
+      if (filePath) setMessage(`Exported to ${filePath}`);
+    } catch (err) {
+      console.error('Export failed:', err);
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleImport() {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const summary = await window.cortex.system.importData();
+      if (summary) {
+        setMessage(`Imported ${summary.inserted} new, ${summary.updated} updated, ${summary.skipped} unchanged`);
+      }
+    } catch (err) {
+      console.error('Import failed:', err);
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="rounded-lg border border-border p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="space-y-0.5">
+          <Label className="text-sm">Include recordings</Label>
+          <p className="text-xs text-muted-foreground">
+            Embed meeting audio in the export file
+          </p>
+        </div>
+        <Switch
+          checked={includeRecordings}
+          onCheckedChange={setIncludeRecordings}
+          aria-label="Toggle include recordings"
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" disabled={busy} onClick={handleExport}>
+          <Download className="size-3.5 mr-1.5" />
+          Export
+        </Button>
+        <Button variant="outline" size="sm" disabled={busy} onClick={handleImport}>
+          <Upload className="size-3.5 mr-1.5" />
+          Import
+        </Button>
+      </div>
+
+      {message && <p className="text-xs text-muted-foreground">{message}</p>}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
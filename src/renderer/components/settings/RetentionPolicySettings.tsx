@@ -0,0 +1,223 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { Priority, RetentionPreview } from '@shared/types';
+import type { RetentionSettings } from '@shared/settings-types';
+import { useStore } from '../../stores';
+import { Button } from '@renderer/components/ui/button';
+import { Input } from '@renderer/components/ui/input';
+import { Label } from '@renderer/components/ui/label';
+
+const PRIORITIES: Priority[] = ['P1', 'P2', 'P3'];
+
+// Number fields are edited as text so they can be cleared while typing
+interface Draft {
+  staleAfterDays: string;
+  staleContextDays: Record<string, string>;
+  staleExemptPriorities: Priority[];
+  staleDeadlineWindowDays: string;
+  trashRetentionDays: string;
+}
+
+function toDraft(settings: RetentionSettings): Draft {
+  return {
+    staleAfterDays: String(settings.staleAfterDays),
+    staleContextDays: Object.fromEntries(
+      Object.entries(settings.staleContextDays).map(([id, days]) => [id, String(days)]),
+    ),
+    staleExemptPriorities: settings.staleExemptPriorities,
+    staleDeadlineWindowDays: String(settings.staleDeadlineWindowDays),
+    trashRetentionDays: String(settings.trashRetentionDays),
+  };
+}
+
+function parseDays(value: string, min: number, max: number): number | null {
+  if (!/^\d+$/.test(value.trim())) return null;
+  const days = Number(value);
+  return days >= min && days <= max ? days : null;
+}
+
+/** Returns null while any field is out of range */
+function fromDraft(draft: Draft): RetentionSettings | null {
+  const staleAfterDays = parseDays(draft.staleAfterDays, 1, 365);
+  const staleDeadlineWindowDays = parseDays(draft.staleDeadlineWindowDays, 0, 365);
+  const trashRetentionDays = parseDays(draft.trashRetentionDays, 1, 3650);
+  if (staleAfterDays === null || staleDeadlineWindowDays === null || trashRetentionDays === null) return null;
+
+  const staleContextDays: Record<string, number> = {};
+  for (const [id, value] of Object.entries(draft.staleContextDays)) {
+    if (value.trim() === '') continue;
+    const days = parseDays(value, 1, 365);
+    if (days === null) return null;
+    staleContextDays[id] = days;
+  }
+
+  return {
+    staleAfterDays,
+    staleContextDays,
+    staleExemptPriorities: PRIORITIES.filter((p) => draft.staleExemptPriorities.includes(p)),
+    staleDeadlineWindowDays,
+    trashRetentionDays,
+  };
+}
+
+function describeTrash(preview: RetentionPreview): string {
+  const parts = Object.entries(preview.expiredTrash)
+    .filter(([, count]) => count > 0)
+    .map(([entity, count]) => `${count} ${entity}`);
+  return parts.length > 0 ? parts.join(', ') : 'nothing';
+}
+
+export function RetentionPolicySettings() {
+  const contexts = useStore((s) => s.contexts);
+  const staleAfterDays = useStore((s) => s.staleAfterDays);
+  const staleContextDays = useStore((s) => s.staleContextDays);
+  const staleExemptPriorities = useStore((s) => s.staleExemptPriorities);
+  const staleDeadlineWindowDays = useStore((s) => s.staleDeadlineWindowDays);
+  const trashRetentionDays = useStore((s) => s.trashRetentionDays);
+  const setRetentionSettings = useStore((s) => s.setRetentionSettings);
+
+  const saved = useMemo<RetentionSettings>(() => ({
+    staleAfterDays, staleContextDays, staleExemptPriorities, staleDeadlineWindowDays, trashRetentionDays,
+  }), [staleAfterDays, staleContextDays, staleExemptPriorities, staleDeadlineWindowDays, trashRetentionDays]);
+
+  const [draft, setDraft] = useState<Draft>(() => toDraft(saved));
+  const [preview, setPreview] = useState<RetentionPreview | null>(null);
+
+  // Follow changes made elsewhere (another window, the settings file)
+  useEffect(() => {
+    setDraft(toDraft(saved));
+  }, [saved]);
+
+  const proposed = fromDraft(draft);
+  const proposedKey = proposed ? JSON.stringify(proposed) : null;
+  const dirty = proposedKey !== null && proposedKey !== JSON.stringify(fromDraft(toDraft(saved)));
+
+  useEffect(() => {
+    setPreview(null);
+    if (!dirty || !proposedKey) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      window.cortex.system.previewRetention(JSON.parse(proposedKey)).then((result) => {
+        if (!cancelled) setPreview(result);
+      }).catch((err) => {
+        console.error('Retention preview failed:', err);
+      });
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [dirty, proposedKey]);
+
+  function update(patch: Partial<Draft>) {
+    setDraft((d) => ({ ...d, ...patch }));
+  }
+
+  function toggleExempt(priority: Priority) {
+    const exempt = draft.staleExemptPriorities;
+    update({
+      staleExemptPriorities: exempt.includes(priority)
+        ? exempt.filter((p) => p !== priority)
+        : [...exempt, priority],
+    });
+  }
+
+  return (
+    <div className="rounded-lg border border-border p-4 space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-1.5">
+          <Label htmlFor="staleAfterDays" className="text-xs text-muted-foreground">Stale after (days)</Label>
+          <Input
+            id="staleAfterDays"
+            inputMode="numeric"
+            value={draft.staleAfterDays}
+            onChange={(e) => update({ staleAfterDays: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="trashRetentionDays" className="text-xs text-muted-foreground">Keep trash for (days)</Label>
+          <Input
+            id="trashRetentionDays"
+            inputMode="numeric"
+            value={draft.trashRetentionDays}
+            onChange={(e) => update({ trashRetentionDays: e.target.value })}
+          />
+        </div>
+      </div>
+
+      {contexts.length > 0 && (
+        <div className="space-y-2">
+          <Label className="text-xs text-muted-foreground">Stale after, per context</Label>
+          <div className="grid grid-cols-2 gap-2">
+            {contexts.map((context) => (
+              <div key={context.id} className="flex items-center gap-2">
+                <span className="text-sm flex-1 truncate">{context.name}</span>
+                <Input
+                  aria-label={`Stale after for ${context.name}`}
+                  inputMode="numeric"
+                  className="w-20"
+                  placeholder={draft.staleAfterDays}
+                  value={draft.staleContextDays[context.id] ?? ''}
+                  onChange={(e) => update({
+                    staleContextDays: { ...draft.staleContextDays, [context.id]: e.target.value },
+                  })}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label className="text-xs text-muted-foreground">Never stale</Label>
+        <div className="flex gap-1">
+          {PRIORITIES.map((priority) => (
+            <button
+              key={priority}
+              onClick={() => toggleExempt(priority)}
+              aria-pressed={draft.staleExemptPriorities.includes(priority)}
+              className={`px-3 py-1.5 text-sm rounded-md transition-colors ${
+                draft.staleExemptPriorities.includes(priority)
+                  ? 'bg-primary text-primary-foreground'
+                  : 'bg-muted text-muted-foreground hover:text-foreground'
+              }`}
+            >
+              {priority}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label htmlFor="staleDeadlineWindowDays" className="text-xs text-muted-foreground">
+          Keep tasks active when due within (days)
+        </Label>
+        <Input
+          id="staleDeadlineWindowDays"
+          inputMode="numeric"
+          className="w-20"
+          value={draft.staleDeadlineWindowDays}
+          onChange={(e) => update({ staleDeadlineWindowDays: e.target.value })}
+        />
+        <p className="text-xs text-muted-foreground">0 turns this off. Overdue tasks never go stale.</p>
+      </div>
+
+      {dirty && (
+        <div className="space-y-3" data-testid="retention-preview">
+          <p className="text-xs text-muted-foreground">
+            {preview
+              ? `Applying marks ${preview.staleTasks} tasks stale and permanently deletes ${describeTrash(preview)} from the trash`
+              : 'Counting affected items…'}
+          </p>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={() => proposed && setRetentionSettings(proposed)}>Apply</Button>
+            <Button variant="ghost" size="sm" onClick={() => setDraft(toDraft(saved))}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {!proposed && <p className="text-xs text-destructive">Enter whole numbers of days within the allowed range</p>}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { FileSearch } from 'lucide-react';
+import type { ImportFormat, TaskImportPreview } from '@shared/types';
+import { Button } from '@renderer/components/ui/button';
+import { Label } from '@renderer/components/ui/label';
+
+const formatOptions: { value: ImportFormat; label: string; hint: string }[] = [
+  { value: 'things', label: 'Things 3', hint: 'JSON export or main.sqlite database' },
+  { value: 'todoist', label: 'Todoist', hint: 'Project CSV or JSON backup' },
+  { value: 'omnifocus', label: 'OmniFocus', hint: 'TaskPaper text export' },
+];
+
+export function TaskImportSettings() {
+  const [format, setFormat] = useState<ImportFormat>('things');
+  const [preview, setPreview] = useState<TaskImportPreview | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  function selectFormat(value: ImportFormat) {
+    setFormat(value);
+    setPreview(null);
+    setMessage(null);
+    setError(null);
+  }
+
+  async function handleChooseFile() {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      setPreview(await window.cortex.system.previewTaskImport(format));
+    } catch (err) {
+      console.error('Import preview failed:', err);
+      setError(err instanceof Error ? err.message : 'Could not read file');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleApply() {
+    if (!preview) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await window.cortex.system.applyTaskImport(preview.format, preview.filePath);
+      setPreview(null);
+      setMessage(`Imported ${result.tasks} tasks, ${result.projects} projects and ${result.checklistItems} checklist items`);
+    } catch (err) {
+      console.error('Task import failed:', err);
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const newProjects = preview?.projects.filter((p) => !p.exists).length ?? 0;
+
+  return (
+    <div className="rounded-lg border border-border p-4 space-y-4">
+      <div className="space-y-2">
+        <Label className="text-xs text-muted-foreground">Source</Label>
+        <div className="flex gap-1">
+          {formatOptions.map((opt) => (
+            <button
+              key={opt.value}
+              onClick={() => selectFormat(opt.value)}
+              className={`px-3 py-1.5 text-sm rounded-md transition-colors ${
+                format === opt.value
+                  ? 'bg-primary text-primary-foreground'
+                  : 'bg-muted text-muted-foreground hover:text-foreground'
+              }`}
+            >
+              {opt.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {formatOptions.find((opt) => opt.value === format)?.hint}
+        </p>
+      </div>
+
+      {!preview && (
+        <Button variant="outline" size="sm" disabled={busy} onClick={handleChooseFile}>
+          <FileSearch className="size-3.5 mr-1.5" />
+          Choose file…
+        </Button>
+      )}
+
+      {preview && (
+        <div className="space-y-3" data-testid="task-import-preview">
+          <p className="text-sm">
+            {preview.tasks.length} tasks in {preview.projects.length} projects ({newProjects} new)
+          </p>
+
+          {preview.unmatchedProjects.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-xs font-medium">New projects</p>
+              <p className="text-xs text-muted-foreground">{preview.unmatchedProjects.join(', ')}</p>
+            </div>
+          )}
+
+          {preview.unmatchedAreas.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-xs font-medium">Areas without a matching context</p>
+              <p className="text-xs text-muted-foreground">
+                {preview.unmatchedAreas.join(', ')} — items from these are imported without a context
+              </p>
+            </div>
+          )}
+
+          {preview.warnings.length > 0 && (
+            <ul className="text-xs text-muted-foreground list-disc pl-4 space-y-0.5">
+              {preview.warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+            </ul>
+          )}
+
+          <div className="flex gap-2">
+            <Button size="sm" disabled={busy || preview.tasks.length === 0} onClick={handleApply}>
+              Import
+            </Button>
+            <Button variant="ghost" size="sm" disabled={busy} onClick={() => setPreview(null)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {message && <p className="text-xs text-muted-foreground">{message}</p>}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
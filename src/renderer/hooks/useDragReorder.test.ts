@@ -0,0 +1,68 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import type { DragEvent } from 'react';
+import { useDragReorder } from './useDragReorder';
+
+const TYPE = 'application/x-test';
+
+function dragEvent(clientY: number): DragEvent {
+  return {
+    clientX: 0,
+    clientY,
+    preventDefault: vi.fn(),
+    stopPropagation: vi.fn(),
+    currentTarget: { getBoundingClientRect: () => ({ top: 0, left: 0, height: 40, width: 200 }) },
+    dataTransfer: { setData: vi.fn(), effectAllowed: 'none' },
+  } as unknown as DragEvent;
+}
+
+describe('useDragReorder', () => {
+  it('moves the dragged id above the row it is dropped on the upper half of', () => {
+    const onMove = vi.fn();
+    const { result } = renderHook(() => useDragReorder({ ids: ['a', 'b', 'c'], type: TYPE, onMove }));
+
+    act(() => result.current.itemProps('c').onDragStart(dragEvent(0)));
+    act(() => result.current.itemProps('a').onDragOver(dragEvent(10)));
+    expect(result.current.dropTarget).toEqual({ id: 'a', edge: 'before' });
+
+    act(() => result.current.itemProps('a').onDrop(dragEvent(10)));
+
+    expect(onMove).toHaveBeenCalledWith('c', ['c', 'a', 'b']);
+    expect(result.current.draggingId).toBeNull();
+  });
+
+  it('moves the dragged id below the row on the lower half', () => {
+    const onMove = vi.fn();
+    const { result } = renderHook(() => useDragReorder({ ids: ['a', 'b', 'c'], type: TYPE, onMove }));
+
+    act(() => result.current.itemProps('a').onDragStart(dragEvent(0)));
+    act(() => result.current.itemProps('b').onDragOver(dragEvent(30)));
+    act(() => result.current.itemProps('b').onDrop(dragEvent(30)));
+
+    expect(onMove).toHaveBeenCalledWith('a', ['b', 'a', 'c']);
+  });
+
+  it('does nothing when the order would not change', () => {
+    const onMove = vi.fn();
+    const { result } = renderHook(() => useDragReorder({ ids: ['a', 'b', 'c'], type: TYPE, onMove }));
+
+    act(() => result.current.itemProps('a').onDragStart(dragEvent(0)));
+    act(() => result.current.itemProps('b').onDragOver(dragEvent(10)));
+    act(() => result.current.itemProps('b').onDrop(dragEvent(10)));
+
+    expect(onMove).not.toHaveBeenCalled();
+  });
+
+  it('ignores drags that started in another list', () => {
+    const onMove = vi.fn();
+    const { result } = renderHook(() => useDragReorder({ ids: ['a', 'b'], type: TYPE, onMove }));
+    const event = dragEvent(10);
+
+    act(() => result.current.itemProps('a').onDragOver(event));
+    act(() => result.current.itemProps('a').onDrop(event));
+
+    expect(event.preventDefault).not.toHaveBeenCalled();
+    expect(onMove).not.toHaveBeenCalled();
+  });
+});
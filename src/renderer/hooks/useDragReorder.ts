@@ -0,0 +1,71 @@
+import { useState, type DragEvent } from 'react';
+import { moveId } from '@shared/sort-order';
+
+/** dataTransfer type for a dragged task; drop targets outside the list read the task id from it */
+export const TASK_DRAG_TYPE = 'application/x-cortex-task';
+
+export interface DropTarget {
+  id: string;
+  edge: 'before' | 'after';
+}
+
+interface DragReorderOptions {
+  /** Ids in the order they are shown */
+  ids: string[];
+  /** dataTransfer type the dragged id is stored under */
+  type: string;
+  /** Called on drop with the dragged id and the list as it should look afterwards */
+  onMove: (id: string, orderedIds: string[]) => void;
+  /** Which half of the row decides before/after: vertical lists use y, grids x */
+  axis?: 'x' | 'y';
+}
+
+/**
+ * Native HTML5 drag-and-drop reordering for a list. Spread `itemProps(id)`
+ * on each row and draw an indicator from `dropTarget`. Only drags that
+ * started in the same list reorder it.
+ */
+export function useDragReorder({ ids, type, onMove, axis = 'y' }: DragReorderOptions) {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  const reset = () => {
+    setDraggingId(null);
+    setDropTarget(null);
+  };
+
+  const itemProps = (id: string) => ({
+    draggable: true,
+    onDragStart: (e: DragEvent) => {
+      e.stopPropagation();
+      e.dataTransfer?.setData(type, id);
+      if (e.dataTransfer) e.dataTransfer.effectAllowed = 'move';
+      setDraggingId(id);
+    },
+    onDragOver: (e: DragEvent) => {
+      if (!draggingId) return;
+      e.preventDefault();
+      const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+      const before = axis === 'y'
+        ? e.clientY < rect.top + rect.height / 2
+        : e.clientX < rect.left + rect.width / 2;
+      const edge = before ? 'before' : 'after';
+      if (dropTarget?.id !== id || dropTarget.edge !== edge) setDropTarget({ id, edge });
+    },
+    onDrop: (e: DragEvent) => {
+      if (!draggingId) return;
+      e.preventDefault();
+      const edge = dropTarget?.id === id ? dropTarget.edge : 'after';
+      if (draggingId !== id) {
+        const rest = ids.filter((other) => other !== draggingId);
+        const index = rest.indexOf(id) + (edge === 'after' ? 1 : 0);
+        const orderedIds = moveId(ids, draggingId, index);
+        if (orderedIds.some((other, i) => other !== ids[i])) onMove(draggingId, orderedIds);
+      }
+      reset();
+    },
+    onDragEnd: reset,
+  });
+
+  return { draggingId, dropTarget, itemProps };
+}
@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+
+/** Whole seconds since `startedAt`, ticking every second; 0 without a start */
+export function useElapsedSeconds(startedAt: string | null): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!startedAt) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [startedAt]);
+
+  return startedAt ? Math.max(0, Math.floor((now - new Date(startedAt).getTime()) / 1000)) : 0;
+}
@@ -90,4 +90,37 @@ describe('useGlobalShortcuts', () => {
     unmount();
     expect(mockUnsubscribe).toHaveBeenCalled();
   });
+
+  describe('Cmd+Z / Cmd+Shift+Z', () => {
+    function renderWithUndo() {
+      const undo = vi.fn();
+      const redo = vi.fn();
+      renderHook(() => useGlobalShortcuts({
+        setActiveView: vi.fn(), startInlineCreate: vi.fn(), startInlineProjectCreate: vi.fn(), activeView: 'inbox', undo, redo,
+      }));
+      return { undo, redo };
+    }
+
+    it('Cmd+Z undoes and Cmd+Shift+Z redoes', () => {
+      const { undo, redo } = renderWithUndo();
+
+      window.dispatchEvent(new KeyboardEvent('keydown', { key: 'z', metaKey: true }));
+      window.dispatchEvent(new KeyboardEvent('keydown', { key: 'Z', metaKey: true, shiftKey: true }));
+
+      expect(undo).toHaveBeenCalledTimes(1);
+      expect(redo).toHaveBeenCalledTimes(1);
+    });
+
+    it('leaves undo to the text field being edited', () => {
+      const { undo } = renderWithUndo();
+      const input = document.createElement('input');
+      document.body.appendChild(input);
+      input.focus();
+
+      window.dispatchEvent(new KeyboardEvent('keydown', { key: 'z', metaKey: true }));
+
+      expect(undo).not.toHaveBeenCalled();
+      input.remove();
+    });
+  });
 });
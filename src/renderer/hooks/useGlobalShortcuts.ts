@@ -7,6 +7,8 @@ interface GlobalShortcutDeps {
   startInlineProjectCreate: () => void;
   activeView: string;
   selectedProjectId?: string | null;
+  undo?: () => void;
+  redo?: () => void;
 }
 
 export function useGlobalShortcuts({
@@ -15,9 +17,11 @@ export function useGlobalShortcuts({
   startInlineProjectCreate,
   activeView,
   selectedProjectId,
+  undo,
+  redo,
 }: GlobalShortcutDeps) {
-  const depsRef = useRef({ setActiveView, startInlineCreate, startInlineProjectCreate, activeView, selectedProjectId });
-  depsRef.current = { setActiveView, startInlineCreate, startInlineProjectCreate, activeView, selectedProjectId };
+  const depsRef = useRef({ setActiveView, startInlineCreate, startInlineProjectCreate, activeView, selectedProjectId, undo, redo });
+  depsRef.current = { setActiveView, startInlineCreate, startInlineProjectCreate, activeView, selectedProjectId, undo, redo };
 
   useEffect(() => {
     const unsubscribe = window.cortex.onFocusTaskInput(() => {
@@ -33,4 +37,24 @@ export function useGlobalShortcuts({
     });
     return unsubscribe;
   }, []); // register once
+
+  // Cmd+Z / Cmd+Shift+Z reverse data changes; text fields keep their own undo
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || e.key.toLowerCase() !== 'z') return;
+      const active = document.activeElement;
+      const isTyping =
+        active instanceof HTMLInputElement ||
+        active instanceof HTMLTextAreaElement ||
+        (active instanceof HTMLElement && active.isContentEditable);
+      if (isTyping) return;
+
+      const { undo, redo } = depsRef.current;
+      e.preventDefault();
+      if (e.shiftKey) redo?.();
+      else undo?.();
+    };
+    window.addEventListener('keydown', handler);
+    return () => window.removeEventListener('keydown', handler);
+  }, []);
 }
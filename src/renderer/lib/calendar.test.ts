@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { calendarDays, calendarTitle, dayKey, layoutDayMeetings, rescheduleMeeting, shiftAnchor } from './calendar';
+import type { Meeting } from '@shared/types';
+
+const fakeMeeting = (overrides: Partial<Meeting> = {}): Meeting => ({
+  id: 'meeting-1',
+  title: 'Standup',
+  description: null,
+  start_time: '2099-01-15T09:00:00',
+  end_time: '2099-01-15T10:00:00',
+  is_all_day: false,
+  location: null,
+  meeting_url: null,
+  status: 'scheduled',
+  context_id: null,
+  project_id: null,
+  notes: null,
+  audio_path: null,
+  recording_duration: null,
+  transcript: null,
+  transcript_segments: null,
+  transcription_status: null,
+  created_at: '2099-01-01T00:00:00.000Z',
+  updated_at: '2099-01-01T00:00:00.000Z',
+  deleted_at: null,
+  ...overrides,
+});
+
+// Thursday, January 15 2099
+const thursday = new Date(2099, 0, 15, 12);
+
+describe('calendarDays', () => {
+  it('covers a Monday-start week', () => {
+    const days = calendarDays('week', thursday);
+    expect(days.map(dayKey)).toEqual([
+      '2099-01-12', '2099-01-13', '2099-01-14', '2099-01-15', '2099-01-16', '2099-01-17', '2099-01-18',
+    ]);
+  });
+
+  it('covers the month in whole weeks', () => {
+    const days = calendarDays('month', thursday);
+    expect(dayKey(days[0])).toBe('2098-12-29');
+    expect(dayKey(days[days.length - 1])).toBe('2099-02-01');
+    expect(days.length % 7).toBe(0);
+  });
+
+  it('moves by the mode and titles the range', () => {
+    expect(dayKey(shiftAnchor('week', thursday, -1))).toBe('2099-01-08');
+    expect(dayKey(shiftAnchor('month', thursday, 1))).toBe('2099-02-15');
+    expect(calendarTitle('week', thursday)).toBe('January 12 – 18, 2099');
+    expect(calendarTitle('month', thursday)).toBe('January 2099');
+  });
+});
+
+describe('layoutDayMeetings', () => {
+  it('places timed meetings in minutes from midnight, skipping all-day ones and other days', () => {
+    const placed = layoutDayMeetings([
+      fakeMeeting({ id: 'a' }),
+      fakeMeeting({ id: 'b', start_time: '2099-01-15T14:00:00', end_time: null }),
+      fakeMeeting({ id: 'c', is_all_day: true }),
+      fakeMeeting({ id: 'd', start_time: '2099-01-16T09:00:00', end_time: null }),
+    ], thursday);
+
+    expect(placed.map((p) => [p.meeting.id, p.start, p.end])).toEqual([['a', 540, 600], ['b', 840, 870]]);
+  });
+
+  it('sets overlapping meetings side by side', () => {
+    const placed = layoutDayMeetings([
+      fakeMeeting({ id: 'long', start_time: '2099-01-15T09:00:00', end_time: '2099-01-15T11:00:00' }),
+      fakeMeeting({ id: 'early', start_time: '2099-01-15T09:30:00', end_time: '2099-01-15T10:00:00' }),
+      fakeMeeting({ id: 'late', start_time: '2099-01-15T10:00:00', end_time: '2099-01-15T10:30:00' }),
+      fakeMeeting({ id: 'alone', start_time: '2099-01-15T12:00:00', end_time: '2099-01-15T13:00:00' }),
+    ], thursday);
+
+    const byId = Object.fromEntries(placed.map((p) => [p.meeting.id, [p.lane, p.lanes]]));
+    expect(byId).toEqual({ long: [0, 2], early: [1, 2], late: [1, 2], alone: [0, 1] });
+  });
+
+  it('cuts a meeting at midnight', () => {
+    const [placed] = layoutDayMeetings([
+      fakeMeeting({ start_time: '2099-01-15T23:00:00', end_time: '2099-01-16T01:00:00' }),
+    ], thursday);
+    expect(placed.end).toBe(24 * 60);
+  });
+});
+
+describe('rescheduleMeeting', () => {
+  it('keeps the time of day and length when moved to another day', () => {
+    expect(rescheduleMeeting(fakeMeeting(), new Date(2099, 0, 20))).toEqual({
+      start_time: '2099-01-20T09:00:00',
+      end_time: '2099-01-20T10:00:00',
+    });
+  });
+
+  it('starts at the dropped time', () => {
+    expect(rescheduleMeeting(fakeMeeting({ end_time: null }), new Date(2099, 0, 16), 14 * 60 + 30)).toEqual({
+      start_time: '2099-01-16T14:30:00',
+    });
+  });
+
+  it('gives an all-day meeting a time when dropped on the grid', () => {
+    const meeting = fakeMeeting({ is_all_day: true, start_time: '2099-01-15T00:00:00', end_time: null });
+    expect(rescheduleMeeting(meeting, new Date(2099, 0, 15), 600)).toEqual({
+      start_time: '2099-01-15T10:00:00',
+      is_all_day: false,
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import {
+  addDays, addMonths, addWeeks, differenceInMinutes, eachDayOfInterval, endOfMonth, endOfWeek,
+  format, isSameDay, isSameMonth, parseISO, startOfDay, startOfMonth, startOfWeek,
+} from 'date-fns';
+import type { Meeting, UpdateMeetingInput } from '@shared/types';
+
+export type CalendarMode = 'day' | 'week' | 'month';
+
+/** Meetings without an end time take this long on the grid */
+export const DEFAULT_MEETING_MINUTES = 30;
+
+/** Meetings dropped on the time grid start on a multiple of this */
+export const SNAP_MINUTES = 15;
+
+const WEEK = { weekStartsOn: 1 } as const;
+
+/** The days shown for a mode around `anchor`: one, a Monday-start week, or whole weeks covering the month */
+export function calendarDays(mode: CalendarMode, anchor: Date): Date[] {
+  if (mode === 'day') return [startOfDay(anchor)];
+  if (mode === 'week') {
+    const start = startOfWeek(anchor, WEEK);
+    return eachDayOfInterval({ start, end: addDays(start, 6) });
+  }
+  return eachDayOfInterval({
+    start: startOfWeek(startOfMonth(anchor), WEEK),
+    end: endOfWeek(endOfMonth(anchor), WEEK),
+  });
+}
+
+/** Moves the anchor by `delta` days, weeks or months */
+export function shiftAnchor(mode: CalendarMode, anchor: Date, delta: number): Date {
+  if (mode === 'day') return addDays(anchor, delta);
+  if (mode === 'week') return addWeeks(anchor, delta);
+  return addMonths(anchor, delta);
+}
+
+export function calendarTitle(mode: CalendarMode, anchor: Date): string {
+  if (mode === 'day') return format(anchor, 'EEEE, MMMM d, yyyy');
+  if (mode === 'month') return format(anchor, 'MMMM yyyy');
+  const days = calendarDays('week', anchor);
+  const first = days[0];
+  const last = days[6];
+  if (isSameMonth(first, last)) return `${format(first, 'MMMM d')} – ${format(last, 'd, yyyy')}`;
+  return `${format(first, 'MMM d')} – ${format(last, 'MMM d, yyyy')}`;
+}
+
+export function dayKey(day: Date): string {
+  return format(day, 'yyyy-MM-dd');
+}
+
+export function meetingStartsOn(meeting: Meeting, day: Date): boolean {
+  return isSameDay(parseISO(meeting.start_time), day);
+}
+
+export interface PlacedMeeting {
+  meeting: Meeting;
+  /** Minutes from midnight */
+  start: number;
+  end: number;
+  /** Column within a group of overlapping meetings, and how many columns the group has */
+  lane: number;
+  lanes: number;
+}
+
+/**
+ * Positions the day's timed meetings on a 24-hour grid. Overlapping
+ * meetings share the width side by side; a meeting running past midnight
+ * is cut at the end of its first day.
+ */
+export function layoutDayMeetings(meetings: Meeting[], day: Date): PlacedMeeting[] {
+  const midnight = startOfDay(day);
+  const placed = meetings
+    .filter((m) => !m.is_all_day && meetingStartsOn(m, day))
+    .map((meeting) => {
+      const start = differenceInMinutes(parseISO(meeting.start_time), midnight);
+      const end = meeting.end_time ? differenceInMinutes(parseISO(meeting.end_time), midnight) : start + DEFAULT_MEETING_MINUTES;
+      return { meeting, start, end: Math.min(24 * 60, Math.max(end, start + SNAP_MINUTES)), lane: 0, lanes: 1 };
+    })
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  let group: PlacedMeeting[] = [];
+  let groupEnd = -1;
+  const closeGroup = () => {
+    const lanes = Math.max(0, ...group.map((p) => p.lane)) + 1;
+    for (const p of group) p.lanes = lanes;
+    group = [];
+  };
+  for (const item of placed) {
+    if (item.start >= groupEnd) {
+      closeGroup();
+      groupEnd = -1;
+    }
+    // First lane whose last meeting has ended
+    const taken = new Set(group.filter((p) => p.end > item.start).map((p) => p.lane));
+    while (taken.has(item.lane)) item.lane++;
+    group.push(item);
+    groupEnd = Math.max(groupEnd, item.end);
+  }
+  closeGroup();
+
+  return placed;
+}
+
+function toLocalTimestamp(date: Date): string {
+  return format(date, "yyyy-MM-dd'T'HH:mm:ss");
+}
+
+/**
+ * The update that moves a meeting to `day`. With `startMinutes` it starts
+ * then (and is no longer all day); without, it keeps its time of day. The
+ * end moves with the start so the length stays the same.
+ */
+export function rescheduleMeeting(meeting: Meeting, day: Date, startMinutes: number | null = null): UpdateMeetingInput {
+  const oldStart = parseISO(meeting.start_time);
+  const minutes = startMinutes ?? differenceInMinutes(oldStart, startOfDay(oldStart));
+  const newStart = new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, minutes);
+  const input: UpdateMeetingInput = { start_time: toLocalTimestamp(newStart) };
+  if (meeting.end_time) {
+    const length = differenceInMinutes(parseISO(meeting.end_time), oldStart);
+    input.end_time = toLocalTimestamp(new Date(newStart.getTime() + length * 60_000));
+  }
+  if (startMinutes !== null && meeting.is_all_day) input.is_all_day = false;
+  return input;
+}
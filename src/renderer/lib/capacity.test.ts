@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import type { Task, Meeting } from '@shared/types';
+import { getMeetingMinutes, getDayCapacity } from './capacity';
+
+const task = (id: string, estimate_minutes: number | null, status: Task['status'] = 'today') =>
+  ({ id, estimate_minutes, status }) as Task;
+
+const meeting = (start: string, end: string | null, overrides: Partial<Meeting> = {}) =>
+  ({ id: start, start_time: start, end_time: end, is_all_day: false, status: 'scheduled', deleted_at: null, ...overrides }) as Meeting;
+
+describe('getMeetingMinutes', () => {
+  it('adds up timed meetings on the day and counts overlaps once', () => {
+    const meetings = [
+      meeting('2026-02-20T09:00:00', '2026-02-20T10:00:00'),
+      meeting('2026-02-20T09:30:00', '2026-02-20T10:30:00'),
+      meeting('2026-02-20T14:00:00', null),
+    ];
+    expect(getMeetingMinutes(meetings, '2026-02-20')).toBe(90 + 30);
+  });
+
+  it('skips other days, all-day and cancelled meetings', () => {
+    const meetings = [
+      meeting('2026-02-21T09:00:00', '2026-02-21T10:00:00'),
+      meeting('2026-02-20T00:00:00', '2026-02-20T23:59:00', { is_all_day: true }),
+      meeting('2026-02-20T11:00:00', '2026-02-20T12:00:00', { status: 'cancelled' }),
+    ];
+    expect(getMeetingMinutes(meetings, '2026-02-20')).toBe(0);
+  });
+});
+
+describe('getDayCapacity', () => {
+  it('subtracts meetings from the workday', () => {
+    const capacity = getDayCapacity([task('a', 60), task('b', null)], 120, 8);
+    expect(capacity).toEqual({ plannedMinutes: 60, availableMinutes: 360, meetingMinutes: 120, overflowIds: [] });
+  });
+
+  it('overflows the tasks that no longer fit, keeping the top of the list', () => {
+    const capacity = getDayCapacity(
+      [task('a', 120), task('b', 90), task('done', 600, 'logbook'), task('c', 30), task('d', 60)],
+      60,
+      4,
+    );
+    expect(capacity.plannedMinutes).toBe(300);
+    expect(capacity.availableMinutes).toBe(180);
+    expect(capacity.overflowIds).toEqual(['b', 'c', 'd']);
+  });
+});
@@ -0,0 +1,64 @@
+import { format, parseISO } from 'date-fns';
+import type { Task, Meeting } from '@shared/types';
+
+// A meeting without an end time blocks this much of the day
+const DEFAULT_MEETING_MINUTES = 30;
+
+export interface DayCapacity {
+  /** Sum of the estimates of the day's open tasks */
+  plannedMinutes: number;
+  /** Workday length minus meeting time, never below 0 */
+  availableMinutes: number;
+  meetingMinutes: number;
+  /** Estimated tasks that don't fit, in list order; the last ones listed go first */
+  overflowIds: string[];
+}
+
+/**
+ * Minutes taken by timed meetings on `date` (yyyy-MM-dd). Overlapping
+ * meetings count once; all-day and cancelled meetings don't count.
+ */
+export function getMeetingMinutes(meetings: Meeting[], date: string): number {
+  const spans = meetings
+    .filter((m) =>
+      !m.deleted_at &&
+      !m.is_all_day &&
+      m.status !== 'cancelled' &&
+      format(parseISO(m.start_time), 'yyyy-MM-dd') === date,
+    )
+    .map((m) => {
+      const start = parseISO(m.start_time).getTime();
+      const end = m.end_time ? parseISO(m.end_time).getTime() : start + DEFAULT_MEETING_MINUTES * 60_000;
+      return [start, Math.max(start, end)] as const;
+    })
+    .sort((a, b) => a[0] - b[0]);
+
+  let total = 0;
+  let coveredUntil = -Infinity;
+  for (const [start, end] of spans) {
+    const from = Math.max(start, coveredUntil);
+    if (end > from) total += end - from;
+    coveredUntil = Math.max(coveredUntil, end);
+  }
+  return Math.round(total / 60_000);
+}
+
+/**
+ * Compare the estimates of `tasks` (the day's list, in the order shown)
+ * against the time left after meetings. Tasks are kept from the top of the
+ * list until the time runs out; every estimated task after that overflows.
+ * Completed and cancelled tasks and tasks without an estimate are ignored.
+ */
+export function getDayCapacity(tasks: Task[], meetingMinutes: number, workdayHours: number): DayCapacity {
+  const availableMinutes = Math.max(0, Math.round(workdayHours * 60) - meetingMinutes);
+  const open = tasks.filter((t) => t.estimate_minutes && t.status !== 'logbook' && t.status !== 'cancelled');
+
+  let plannedMinutes = 0;
+  const overflowIds: string[] = [];
+  for (const task of open) {
+    plannedMinutes += task.estimate_minutes!;
+    if (plannedMinutes > availableMinutes) overflowIds.push(task.id);
+  }
+
+  return { plannedMinutes, availableMinutes, meetingMinutes, overflowIds };
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { describeChange, describeAuthorAndTime } from './changeHistory';
+import type { EntityChange } from '@shared/types';
+
+const change = (overrides: Partial<EntityChange>): EntityChange => ({
+  id: 'c1',
+  entity_type: 'task',
+  entity_id: 't1',
+  action: 'update',
+  changes: {},
+  source: 'user',
+  agent_id: null,
+  agent_name: null,
+  created_at: '2099-01-07T10:32:00',
+  ...overrides,
+});
+
+const names: Record<string, string> = { p1: 'Launch' };
+const nameOf = (id: string) => names[id];
+
+describe('describeChange', () => {
+  it('shows each field before and after, with names for linked items', () => {
+    expect(describeChange(change({
+      changes: {
+        status: { from: 'inbox', to: 'today' },
+        project_id: { from: null, to: 'p1' },
+        notes: { from: 'a', to: 'b' },
+      },
+    }), nameOf)).toEqual(['Status inbox → today', 'Project none → Launch', 'Notes edited']);
+  });
+
+  it('names creating, trashing and restoring', () => {
+    expect(describeChange(change({ action: 'create' }), nameOf)).toEqual(['Created']);
+    expect(describeChange(change({ action: 'delete' }), nameOf)).toEqual(['Moved to trash']);
+    expect(describeChange(change({ changes: { deleted_at: { from: '2099-01-01', to: null } } }), nameOf))
+      .toEqual(['Restored from trash']);
+  });
+});
+
+describe('describeAuthorAndTime', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('names the agent and shows the time for changes made today', () => {
+    vi.useFakeTimers({ now: new Date('2099-01-07T12:00:00'), toFake: ['Date'] });
+    expect(describeAuthorAndTime(change({ source: 'ai', agent_id: 'a1', agent_name: 'Claudius' })))
+      .toBe('by agent Claudius, 10:32');
+    expect(describeAuthorAndTime(change({ created_at: '2099-01-03T09:05:00' }))).toBe('by you, Jan 3 09:05');
+  });
+});
@@ -0,0 +1,73 @@
+import { format, isToday, parseISO } from 'date-fns';
+import type { EntityChange } from '@shared/types';
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  status: 'Status',
+  when_date: 'When',
+  deadline: 'Deadline',
+  priority: 'Priority',
+  project_id: 'Project',
+  heading_id: 'Heading',
+  context_id: 'Context',
+  assignee_id: 'Assignee',
+  owner_stakeholder_id: 'Owner',
+  recurrence: 'Repeat',
+  estimate_minutes: 'Estimate',
+  completed_at: 'Completed',
+  is_pinned: 'Pinned',
+  start_time: 'Start',
+  end_time: 'End',
+  is_all_day: 'All day',
+  meeting_url: 'Link',
+};
+
+/** Fields too long to show before and after; the timeline only says they were edited */
+const LONG_TEXT_FIELDS = new Set(['notes', 'content', 'description', 'transcript', 'transcript_segments']);
+
+/** Fields holding another item's id, shown by that item's name */
+const REFERENCE_FIELDS = new Set(['project_id', 'heading_id', 'context_id', 'assignee_id', 'owner_stakeholder_id']);
+
+function fieldLabel(field: string): string {
+  const label = FIELD_LABELS[field] ?? field.replace(/_/g, ' ');
+  return label[0].toUpperCase() + label.slice(1);
+}
+
+function formatValue(field: string, value: unknown, nameOf: (id: string) => string | undefined): string {
+  if (value == null || value === '') return 'none';
+  if (REFERENCE_FIELDS.has(field) && typeof value === 'string') return nameOf(value) ?? 'unknown';
+  if (field.startsWith('is_')) return value ? 'yes' : 'no';
+  return String(value);
+}
+
+/**
+ * One line per change, e.g. `Status inbox → today`. `nameOf` turns project,
+ * context, heading and assignee ids into names.
+ */
+export function describeChange(change: EntityChange, nameOf: (id: string) => string | undefined): string[] {
+  if (change.action === 'create') return ['Created'];
+  if (change.action === 'delete') return ['Moved to trash'];
+
+  const lines: string[] = [];
+  for (const [field, { from, to }] of Object.entries(change.changes)) {
+    if (field === 'deleted_at') {
+      lines.push(to ? 'Moved to trash' : 'Restored from trash');
+    } else if (field === 'permanently_deleted_at' || field === 'stale_at') {
+      continue;
+    } else if (LONG_TEXT_FIELDS.has(field)) {
+      lines.push(`${fieldLabel(field)} edited`);
+    } else {
+      lines.push(`${fieldLabel(field)} ${formatValue(field, from, nameOf)} → ${formatValue(field, to, nameOf)}`);
+    }
+  }
+  return lines;
+}
+
+/** `by you, 10:32` or `by agent Claudius, Mar 3 10:32` */
+export function describeAuthorAndTime(change: EntityChange): string {
+  const author = change.source === 'ai'
+    ? `agent ${change.agent_name ?? '(removed)'}`
+    : 'you';
+  const at = parseISO(change.created_at);
+  return `by ${author}, ${format(at, isToday(at) ? 'HH:mm' : 'MMM d HH:mm')}`;
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { getDailySummary } from './dailySummary';
+import type { Task, Meeting } from '@shared/types';
+
+const fakeTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-1',
+  title: 'Test',
+  notes: null,
+  status: 'inbox',
+  when_date: null,
+  deadline: null,
+  project_id: null,
+  heading_id: null,
+  context_id: null,
+  priority: null,
+  sort_order: 0,
+  created_at: '2026-02-17T00:00:00.000Z',
+  updated_at: '2026-02-17T00:00:00.000Z',
+  completed_at: null,
+  deleted_at: null,
+  stale_at: null,
+  assignee_id: null,
+  recurrence: null,
+  estimate_minutes: null,
+  ...overrides,
+});
+
+const fakeMeeting = (overrides: Partial<Meeting> = {}): Meeting => ({
+  id: 'meeting-1',
+  title: 'Standup',
+  description: null,
+  start_time: '2026-03-02T09:00:00',
+  end_time: null,
+  is_all_day: false,
+  location: null,
+  meeting_url: null,
+  status: 'scheduled',
+  context_id: null,
+  project_id: null,
+  notes: null,
+  audio_path: null,
+  recording_duration: null,
+  transcript: null,
+  transcript_segments: null,
+  transcription_status: null,
+  created_at: '2026-02-17T00:00:00.000Z',
+  updated_at: '2026-02-17T00:00:00.000Z',
+  deleted_at: null,
+  ...overrides,
+});
+
+describe('getDailySummary', () => {
+  it('includes only tasks completed on the given local day', () => {
+    const tasks = [
+      fakeTask({ id: 'a', status: 'logbook', completed_at: '2026-03-02T10:00:00' }),
+      fakeTask({ id: 'b', status: 'logbook', completed_at: '2026-03-01T10:00:00' }),
+      fakeTask({ id: 'c', status: 'today', completed_at: null }),
+    ];
+
+    const { completedTasks } = getDailySummary('2026-03-02', tasks, []);
+
+    expect(completedTasks.map((t) => t.id)).toEqual(['a']);
+  });
+
+  it('orders meetings by start time and skips cancelled ones', () => {
+    const meetings = [
+      fakeMeeting({ id: 'late', start_time: '2026-03-02T15:00:00' }),
+      fakeMeeting({ id: 'early', start_time: '2026-03-02T08:30:00' }),
+      fakeMeeting({ id: 'cancelled', start_time: '2026-03-02T11:00:00', status: 'cancelled' }),
+      fakeMeeting({ id: 'other-day', start_time: '2026-03-03T09:00:00' }),
+    ];
+
+    const summary = getDailySummary('2026-03-02', [], meetings);
+
+    expect(summary.meetings.map((m) => m.id)).toEqual(['early', 'late']);
+  });
+
+  it('carries over open tasks scheduled before the day, oldest first', () => {
+    const tasks = [
+      fakeTask({ id: 'yesterday', status: 'today', when_date: '2026-03-01' }),
+      fakeTask({ id: 'last-week', status: 'stale', when_date: '2026-02-23' }),
+      fakeTask({ id: 'same-day', status: 'today', when_date: '2026-03-02' }),
+      fakeTask({ id: 'done', status: 'logbook', when_date: '2026-02-28', completed_at: '2026-02-28T12:00:00' }),
+      fakeTask({ id: 'unscheduled', status: 'anytime' }),
+    ];
+
+    const { carriedOver } = getDailySummary('2026-03-02', tasks, []);
+
+    expect(carriedOver.map((t) => t.id)).toEqual(['last-week', 'yesterday']);
+  });
+
+  it('ignores soft-deleted tasks and meetings', () => {
+    const tasks = [
+      fakeTask({ id: 'a', status: 'logbook', completed_at: '2026-03-02T10:00:00', deleted_at: '2026-03-02T11:00:00' }),
+      fakeTask({ id: 'b', status: 'today', when_date: '2026-03-01', deleted_at: '2026-03-02T11:00:00' }),
+    ];
+    const meetings = [fakeMeeting({ deleted_at: '2026-03-02T11:00:00' })];
+
+    const summary = getDailySummary('2026-03-02', tasks, meetings);
+
+    expect(summary.completedTasks).toHaveLength(0);
+    expect(summary.carriedOver).toHaveLength(0);
+    expect(summary.meetings).toHaveLength(0);
+  });
+});
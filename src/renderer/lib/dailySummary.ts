@@ -0,0 +1,39 @@
+import { format, parseISO } from 'date-fns';
+import type { Task, Meeting } from '@shared/types';
+
+export interface DailySummary {
+  completedTasks: Task[];
+  meetings: Meeting[];
+  carriedOver: Task[];
+}
+
+function localDateKey(iso: string): string {
+  return format(parseISO(iso), 'yyyy-MM-dd');
+}
+
+/**
+ * Collect what happened on a given day (yyyy-MM-dd): tasks completed that day,
+ * meetings starting that day, and open tasks scheduled before it that are
+ * still waiting to be done.
+ */
+export function getDailySummary(date: string, tasks: Task[], meetings: Meeting[]): DailySummary {
+  const completedTasks = tasks
+    .filter((t) => !t.deleted_at && t.status === 'logbook' && t.completed_at && localDateKey(t.completed_at) === date)
+    .sort((a, b) => a.completed_at!.localeCompare(b.completed_at!));
+
+  const dayMeetings = meetings
+    .filter((m) => !m.deleted_at && m.status !== 'cancelled' && localDateKey(m.start_time) === date)
+    .sort((a, b) => parseISO(a.start_time).getTime() - parseISO(b.start_time).getTime());
+
+  const carriedOver = tasks
+    .filter((t) =>
+      !t.deleted_at &&
+      t.status !== 'logbook' &&
+      t.status !== 'cancelled' &&
+      t.when_date !== null &&
+      t.when_date < date,
+    )
+    .sort((a, b) => a.when_date!.localeCompare(b.when_date!));
+
+  return { completedTasks, meetings: dayMeetings, carriedOver };
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from 'vitest';
+import { executeQuickAdd, toCreateTaskInput } from './executeCreateAction';
+import type { ParsedTask } from './parseTaskInput';
+
+const parsed = (overrides: Partial<ParsedTask> = {}): ParsedTask => ({ title: 'Task', raw: {}, ...overrides });
+
+describe('toCreateTaskInput', () => {
+  it('applies every parsed token', () => {
+    expect(
+      toCreateTaskInput(parsed({
+        contextId: 'ctx-1',
+        whenDate: '2099-01-02',
+        deadline: '2099-01-05',
+        recurrence: 'daily',
+        estimateMinutes: 30,
+        priority: 'P1',
+        assigneeId: 'agent-1',
+        tags: ['errand'],
+        checklist: ['Step'],
+      })),
+    ).toEqual({
+      title: 'Task',
+      context_id: 'ctx-1',
+      when_date: '2099-01-02',
+      deadline: '2099-01-05',
+      recurrence: 'daily',
+      estimate_minutes: 30,
+      priority: 'P1',
+      assignee_id: 'agent-1',
+      tags: ['errand'],
+      checklist: ['Step'],
+    });
+  });
+
+  it('lets tokens win over the card values', () => {
+    expect(
+      toCreateTaskInput(parsed({ projectId: 'proj-2', whenDate: '2099-01-02' }), {
+        project_id: 'proj-1',
+        when_date: '2099-03-01',
+        deadline: '2099-03-05',
+        status: 'inbox',
+      }),
+    ).toEqual({ title: 'Task', project_id: 'proj-2', when_date: '2099-01-02', deadline: '2099-03-05' });
+  });
+
+  it('appends the card checklist after the line items and drops blanks', () => {
+    expect(toCreateTaskInput(parsed({ checklist: ['A'] }), { checklist: ['B', ' '] }).checklist).toEqual(['A', 'B']);
+  });
+
+  it('turns the times of do: and due: phrases into reminders on their days', () => {
+    const input = toCreateTaskInput(parsed({
+      whenDate: '2099-01-02',
+      whenTime: '09:00',
+      deadline: '2099-01-05',
+      deadlineTime: '17:30',
+    }));
+    expect(input.reminders).toEqual([
+      new Date(2099, 0, 2, 9).toISOString(),
+      new Date(2099, 0, 5, 17, 30).toISOString(),
+    ]);
+    expect(toCreateTaskInput(parsed({ whenDate: '2099-01-02' })).reminders).toBeUndefined();
+  });
+});
+
+describe('executeQuickAdd', () => {
+  it('creates all titled lines in one call', async () => {
+    const createTasks = vi.fn().mockResolvedValue([]);
+
+    await executeQuickAdd([parsed({ title: 'A' }), parsed({ title: ' ' }), parsed({ title: 'B' })], { status: 'someday' }, createTasks);
+
+    expect(createTasks).toHaveBeenCalledTimes(1);
+    expect(createTasks).toHaveBeenCalledWith([
+      { title: 'A', status: 'someday' },
+      { title: 'B', status: 'someday' },
+    ]);
+  });
+
+  it('does not call createTasks when no line has a title', async () => {
+    const createTasks = vi.fn();
+
+    expect(await executeQuickAdd([parsed({ title: '' })], {}, createTasks)).toEqual([]);
+    expect(createTasks).not.toHaveBeenCalled();
+  });
+});
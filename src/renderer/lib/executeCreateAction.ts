@@ -1,5 +1,7 @@
+import type { CreateTaskInput, Task, TaskStatus } from '@shared/types';
 import type { CreateAction } from './getCreateAction';
-import type { InlineCreateDefaults } from '../stores/ui';
+import type { ParsedTask } from './parseTaskInput';
+import type { InlineCreateDefaults, TemplatePickerRequest } from '../stores/ui';
 import type { SidebarView } from '../components/Sidebar';
 
 export interface CreateDispatchers {
@@ -9,6 +11,7 @@ export interface CreateDispatchers {
   startInlineNoteCreate: () => void;
   startInlineStakeholderCreate: () => void;
   startInlineMeetingCreate: () => void;
+  openTemplatePicker: (request: TemplatePickerRequest) => void;
 }
 
 export function executeCreateAction(action: CreateAction, dispatchers: CreateDispatchers): void {
@@ -28,9 +31,79 @@ export function executeCreateAction(action: CreateAction, dispatchers: CreateDis
     case 'meeting':
       dispatchers.startInlineMeetingCreate();
       break;
+    case 'template':
+      dispatchers.openTemplatePicker({ kind: action.kind, defaults: action.defaults });
+      break;
     case 'none':
       dispatchers.setActiveView('inbox');
       dispatchers.startInlineCreate();
       break;
   }
 }
+
+/** Values from the quick-add card itself, used where a line has no token of its own */
+export interface QuickAddFallbacks {
+  notes?: string;
+  when_date?: string | null;
+  deadline?: string | null;
+  status?: TaskStatus;
+  project_id?: string | null;
+  /** Applied when neither a token nor the project decides the context */
+  context_id?: string | null;
+  /** Appended after the line's own `[ ]` items */
+  checklist?: string[];
+}
+
+/** One parsed quick-add line as a create input. Tokens win over fallbacks; times become reminders */
+export function toCreateTaskInput(parsed: ParsedTask, fallbacks: QuickAddFallbacks = {}): CreateTaskInput {
+  const input: CreateTaskInput = { title: parsed.title.trim() };
+
+  if (fallbacks.notes?.trim()) input.notes = fallbacks.notes.trim();
+
+  const whenDate = parsed.whenDate ?? fallbacks.when_date;
+  if (whenDate) input.when_date = whenDate;
+  const deadline = parsed.deadline ?? fallbacks.deadline;
+  if (deadline) input.deadline = deadline;
+
+  if (fallbacks.status && fallbacks.status !== 'inbox') input.status = fallbacks.status;
+
+  const projectId = parsed.projectId ?? fallbacks.project_id;
+  if (projectId) input.project_id = projectId;
+  const contextId = parsed.contextId ?? fallbacks.context_id;
+  if (contextId) input.context_id = contextId;
+
+  if (parsed.recurrence) input.recurrence = parsed.recurrence;
+  if (parsed.estimateMinutes) input.estimate_minutes = parsed.estimateMinutes;
+  if (parsed.priority) input.priority = parsed.priority;
+  if (parsed.assigneeId) input.assignee_id = parsed.assigneeId;
+  if (parsed.tags) input.tags = parsed.tags;
+
+  // A time in a do:/due: phrase is when to be reminded, on that phrase's day
+  const reminders = [
+    parsed.whenDate && parsed.whenTime && new Date(`${parsed.whenDate}T${parsed.whenTime}`),
+    parsed.deadline && parsed.deadlineTime && new Date(`${parsed.deadline}T${parsed.deadlineTime}`),
+  ].filter((time): time is Date => !!time);
+  if (reminders.length > 0) input.reminders = reminders.map((time) => time.toISOString());
+
+  const checklist = [...(parsed.checklist ?? []), ...(fallbacks.checklist ?? [])]
+    .map((item) => item.trim())
+    .filter(Boolean);
+  if (checklist.length > 0) input.checklist = checklist;
+
+  return input;
+}
+
+/**
+ * Create every parsed quick-add task in one write, so a line's tokens,
+ * assignee, tags, checklist and reminders land together or not at all, and undo as one step.
+ * Lines without a title are skipped.
+ */
+export async function executeQuickAdd(
+  parsed: ParsedTask[],
+  fallbacks: QuickAddFallbacks,
+  createTasks: (inputs: CreateTaskInput[]) => Promise<Task[]>,
+): Promise<Task[]> {
+  const inputs = parsed.filter((p) => p.title.trim()).map((p) => toCreateTaskInput(p, fallbacks));
+  if (inputs.length === 0) return [];
+  return createTasks(inputs);
+}
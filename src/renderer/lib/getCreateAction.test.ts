@@ -81,4 +81,24 @@ describe('getCreateAction', () => {
       getCreateAction({ activeView: 'settings', selectedProjectId: null, today: TODAY }),
     ).toEqual({ type: 'none' });
   });
+
+  describe('from a template', () => {
+    it('picks project templates on the projects overview', () => {
+      expect(
+        getCreateAction({ activeView: 'projects', selectedProjectId: null, today: TODAY, fromTemplate: true }),
+      ).toEqual({ type: 'template', kind: 'project' });
+    });
+
+    it('keeps the view defaults for task templates', () => {
+      expect(
+        getCreateAction({ activeView: 'projects', selectedProjectId: 'proj-1', today: TODAY, fromTemplate: true }),
+      ).toEqual({ type: 'template', kind: 'task', defaults: { project_id: 'proj-1' } });
+    });
+
+    it('falls back to task templates without defaults elsewhere', () => {
+      expect(
+        getCreateAction({ activeView: 'notes', selectedProjectId: null, today: TODAY, fromTemplate: true }),
+      ).toEqual({ type: 'template', kind: 'task' });
+    });
+  });
 });
@@ -1,9 +1,11 @@
-import type { TaskStatus } from '@shared/types';
+import type { TaskStatus, TemplateKind } from '@shared/types';
 
 export interface CreateActionInput {
   activeView: string;
   selectedProjectId: string | null;
   today: string;
+  /** Start from a saved template rather than a blank item */
+  fromTemplate?: boolean;
 }
 
 export interface TaskDefaults {
@@ -18,9 +20,19 @@ export type CreateAction =
   | { type: 'note' }
   | { type: 'stakeholder' }
   | { type: 'meeting' }
+  | { type: 'template'; kind: TemplateKind; defaults?: TaskDefaults }
   | { type: 'none' };
 
 export function getCreateAction(input: CreateActionInput): CreateAction {
+  const action = getBlankCreateAction(input);
+  if (!input.fromTemplate) return action;
+  if (action.type === 'project') return { type: 'template', kind: 'project' };
+  if (action.type === 'task' && action.defaults) return { type: 'template', kind: 'task', defaults: action.defaults };
+  // Views that create something else offer task templates, landing in the inbox
+  return { type: 'template', kind: 'task' };
+}
+
+function getBlankCreateAction(input: CreateActionInput): CreateAction {
   const { activeView, selectedProjectId, today } = input;
 
   switch (activeView) {
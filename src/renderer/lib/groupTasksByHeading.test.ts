@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { groupTasksByHeading } from './groupTasksByHeading';
+import type { Task, ProjectHeading } from '@shared/types';
+
+const fakeTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-1',
+  title: 'Test',
+  notes: null,
+  status: 'inbox',
+  when_date: null,
+  deadline: null,
+  project_id: 'proj-1',
+  heading_id: null,
+  context_id: null,
+  priority: null,
+  sort_order: 0,
+  created_at: '2026-02-17T00:00:00.000Z',
+  updated_at: '2026-02-17T00:00:00.000Z',
+  completed_at: null,
+  deleted_at: null,
+  stale_at: null,
+  assignee_id: null,
+  recurrence: null,
+  estimate_minutes: null,
+  ...overrides,
+});
+
+const fakeHeading = (overrides: Partial<ProjectHeading> = {}): ProjectHeading => ({
+  id: 'heading-1',
+  project_id: 'proj-1',
+  title: 'Design',
+  sort_order: 0,
+  created_at: '2026-02-17T00:00:00.000Z',
+  updated_at: '2026-02-17T00:00:00.000Z',
+  archived_at: null,
+  deleted_at: null,
+  ...overrides,
+});
+
+describe('groupTasksByHeading', () => {
+  it('puts tasks under their heading and keeps the rest ungrouped', () => {
+    const heading = fakeHeading();
+    const grouped = groupTasksByHeading(
+      [fakeTask({ id: 'a' }), fakeTask({ id: 'b', heading_id: 'heading-1' })],
+      [heading],
+    );
+
+    expect(grouped.ungrouped.map((t) => t.id)).toEqual(['a']);
+    expect(grouped.groups).toHaveLength(1);
+    expect(grouped.groups[0].tasks.map((t) => t.id)).toEqual(['b']);
+  });
+
+  it('orders groups by sort_order and includes empty headings', () => {
+    const grouped = groupTasksByHeading([], [
+      fakeHeading({ id: 'h2', title: 'Build', sort_order: 1 }),
+      fakeHeading({ id: 'h1', title: 'Design', sort_order: 0 }),
+    ]);
+
+    expect(grouped.groups.map((g) => g.heading.title)).toEqual(['Design', 'Build']);
+    expect(grouped.groups.every((g) => g.tasks.length === 0)).toBe(true);
+  });
+
+  it('treats tasks with an unknown heading as ungrouped', () => {
+    const grouped = groupTasksByHeading([fakeTask({ heading_id: 'archived-heading' })], []);
+
+    expect(grouped.ungrouped).toHaveLength(1);
+  });
+
+  it('preserves the incoming task order within a group', () => {
+    const grouped = groupTasksByHeading(
+      [
+        fakeTask({ id: 'z', heading_id: 'heading-1' }),
+        fakeTask({ id: 'y', heading_id: 'heading-1' }),
+      ],
+      [fakeHeading()],
+    );
+
+    expect(grouped.groups[0].tasks.map((t) => t.id)).toEqual(['z', 'y']);
+  });
+});
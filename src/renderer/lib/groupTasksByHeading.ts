@@ -0,0 +1,34 @@
+import type { Task, ProjectHeading } from '@shared/types';
+
+export interface HeadingGroup {
+  heading: ProjectHeading;
+  tasks: Task[];
+}
+
+export interface GroupedTasks {
+  ungrouped: Task[];
+  groups: HeadingGroup[];
+}
+
+/**
+ * Split a project's tasks into the heading sections they belong to.
+ * Tasks without a heading (or pointing at a heading that is no longer
+ * listed, e.g. archived or deleted) stay ungrouped. Every heading gets a
+ * group, even if it has no tasks yet. Task order is preserved.
+ */
+export function groupTasksByHeading(tasks: Task[], headings: ProjectHeading[]): GroupedTasks {
+  const byHeading = new Map<string, Task[]>(headings.map((h) => [h.id, []]));
+  const ungrouped: Task[] = [];
+
+  for (const task of tasks) {
+    const bucket = task.heading_id ? byHeading.get(task.heading_id) : undefined;
+    if (bucket) bucket.push(task);
+    else ungrouped.push(task);
+  }
+
+  const groups = [...headings]
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map((heading) => ({ heading, tasks: byHeading.get(heading.id)! }));
+
+  return { ungrouped, groups };
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { getLogbookStats, NO_CONTEXT } from './logbookStats';
+import type { Task } from '@shared/types';
+
+const fakeTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-1',
+  title: 'Test',
+  notes: null,
+  status: 'logbook',
+  when_date: null,
+  deadline: null,
+  project_id: null,
+  heading_id: null,
+  context_id: null,
+  priority: null,
+  sort_order: 0,
+  created_at: '2099-01-10T09:00:00',
+  updated_at: '2099-01-10T09:00:00',
+  completed_at: '2099-01-14T09:00:00',
+  deleted_at: null,
+  stale_at: null,
+  assignee_id: null,
+  recurrence: null,
+  estimate_minutes: null,
+  ...overrides,
+});
+
+const projects = [
+  { id: 'p1', title: 'Website', context_id: 'work' },
+  { id: 'p2', title: 'Garden', context_id: 'home' },
+];
+
+// Thursday, January 15 2099
+const now = new Date(2099, 0, 15, 12);
+
+describe('getLogbookStats', () => {
+  it('buckets the last 30 days, ending today', () => {
+    const stats = getLogbookStats([], projects, 'day', now);
+
+    expect(stats.buckets).toHaveLength(30);
+    expect(stats.buckets[0].key).toBe('2098-12-17');
+    expect(stats.buckets[29].key).toBe('2099-01-15');
+    expect(stats.averageAgeDays).toBeNull();
+  });
+
+  it('buckets the last 12 weeks from Monday, ending this week', () => {
+    const stats = getLogbookStats([], projects, 'week', now);
+
+    expect(stats.buckets).toHaveLength(12);
+    expect(stats.buckets[0].key).toBe('2098-10-27');
+    expect(stats.buckets[11].key).toBe('2099-01-12');
+  });
+
+  it('counts completions per bucket by effective context, and tasks created', () => {
+    const tasks = [
+      fakeTask({ id: 'a', project_id: 'p1', context_id: null }),
+      fakeTask({ id: 'b', context_id: 'home', completed_at: '2099-01-14T18:00:00' }),
+      fakeTask({ id: 'c', completed_at: '2099-01-15T08:00:00' }),
+      fakeTask({ id: 'd', status: 'anytime', completed_at: null, created_at: '2099-01-15T08:00:00' }),
+      fakeTask({ id: 'old', created_at: '2098-01-01T09:00:00', completed_at: '2098-02-01T09:00:00' }),
+      fakeTask({ id: 'gone', deleted_at: '2099-01-14T10:00:00' }),
+    ];
+
+    const stats = getLogbookStats(tasks, projects, 'day', now);
+    const jan14 = stats.buckets.find((b) => b.key === '2099-01-14')!;
+    const jan15 = stats.buckets.find((b) => b.key === '2099-01-15')!;
+
+    expect(jan14.completed).toBe(2);
+    expect(jan14.byContext).toEqual({ work: 1, home: 1 });
+    expect(jan15.byContext).toEqual({ [NO_CONTEXT]: 1 });
+    expect(jan15.created).toBe(1);
+    expect(stats.completed).toBe(3);
+    expect(stats.created).toBe(4);
+  });
+
+  it('averages the days from creation to completion', () => {
+    const tasks = [
+      fakeTask({ id: 'a', created_at: '2099-01-10T09:00:00', completed_at: '2099-01-14T09:00:00' }),
+      fakeTask({ id: 'b', created_at: '2099-01-13T09:00:00', completed_at: '2099-01-14T21:00:00' }),
+    ];
+
+    expect(getLogbookStats(tasks, projects, 'week', now).averageAgeDays).toBe(2.75);
+  });
+
+  it('counts tasks that went stale in the range and how many were then done', () => {
+    const tasks = [
+      fakeTask({ id: 'a', stale_at: '2099-01-05T09:00:00' }),
+      fakeTask({ id: 'b', status: 'stale', completed_at: null, stale_at: '2099-01-06T09:00:00' }),
+      fakeTask({ id: 'c', status: 'stale', completed_at: null, stale_at: '2098-06-01T09:00:00' }),
+    ];
+
+    const stats = getLogbookStats(tasks, projects, 'week', now);
+    expect(stats.wentStale).toBe(2);
+    expect(stats.staleDone).toBe(1);
+  });
+
+  it('measures project velocity against the open tasks left', () => {
+    const tasks = [
+      ...Array.from({ length: 6 }, (_, i) => fakeTask({ id: `w${i}`, project_id: 'p1' })),
+      ...Array.from({ length: 5 }, (_, i) => fakeTask({ id: `o${i}`, project_id: 'p1', status: 'anytime', completed_at: null })),
+      fakeTask({ id: 'g', project_id: 'p2' }),
+      fakeTask({ id: 'x', project_id: 'p2', status: 'cancelled', completed_at: null }),
+    ];
+
+    const { velocity } = getLogbookStats(tasks, projects, 'week', now);
+    expect(velocity.map((v) => v.title)).toEqual(['Website', 'Garden']);
+    expect(velocity[0]).toMatchObject({ completed: 6, perWeek: 0.5, open: 5, weeksLeft: 10 });
+    expect(velocity[1]).toMatchObject({ completed: 1, open: 0, weeksLeft: 0 });
+  });
+});
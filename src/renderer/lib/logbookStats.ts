@@ -0,0 +1,146 @@
+import { addDays, addWeeks, differenceInCalendarDays, format, parseISO, startOfDay, startOfWeek } from 'date-fns';
+import type { Task, Project } from '@shared/types';
+import { getEffectiveContextId } from './contextFilter';
+
+export type StatsGranularity = 'day' | 'week';
+
+/** How many buckets each granularity covers, ending with the current one */
+export const STATS_PERIODS: Record<StatsGranularity, number> = { day: 30, week: 12 };
+
+/** Key for tasks without a context in `byContext` */
+export const NO_CONTEXT = 'none';
+
+export interface StatsBucket {
+  /** Local start of the day or (Monday) week, yyyy-MM-dd */
+  key: string;
+  label: string;
+  completed: number;
+  created: number;
+  /** Completions by effective context id, or NO_CONTEXT */
+  byContext: Record<string, number>;
+}
+
+export interface ProjectVelocity {
+  projectId: string;
+  title: string;
+  completed: number;
+  perWeek: number;
+  open: number;
+  /** Weeks to finish the open tasks at this pace */
+  weeksLeft: number;
+}
+
+export interface LogbookStats {
+  from: Date;
+  to: Date;
+  buckets: StatsBucket[];
+  completed: number;
+  created: number;
+  /** Mean days from creation to completion, null with no completions */
+  averageAgeDays: number | null;
+  /** Tasks that went stale in the range, and how many of them were then done */
+  wentStale: number;
+  staleDone: number;
+  velocity: ProjectVelocity[];
+}
+
+function bucketStart(date: Date, granularity: StatsGranularity): Date {
+  return granularity === 'day' ? startOfDay(date) : startOfWeek(date, { weekStartsOn: 1 });
+}
+
+function isOpen(task: Task): boolean {
+  return task.status !== 'logbook' && task.status !== 'cancelled';
+}
+
+/**
+ * Completion statistics for the last STATS_PERIODS[granularity] days or
+ * weeks. Pass tasks already filtered to the active contexts; projects are
+ * only used to resolve effective contexts and project titles.
+ */
+export function getLogbookStats(
+  tasks: Task[],
+  projects: Pick<Project, 'id' | 'title' | 'context_id'>[],
+  granularity: StatsGranularity,
+  now: Date = new Date(),
+): LogbookStats {
+  const step = granularity === 'day' ? addDays : addWeeks;
+  const to = step(bucketStart(now, granularity), 1);
+  const from = step(to, -STATS_PERIODS[granularity]);
+
+  const buckets: StatsBucket[] = [];
+  const bucketIndex = new Map<string, number>();
+  for (let start = from; start < to; start = step(start, 1)) {
+    const key = format(start, 'yyyy-MM-dd');
+    bucketIndex.set(key, buckets.length);
+    buckets.push({
+      key,
+      label: format(start, 'MMM d'),
+      completed: 0,
+      created: 0,
+      byContext: {},
+    });
+  }
+  const bucketFor = (iso: string): StatsBucket | null => {
+    const date = parseISO(iso);
+    if (date < from || date >= to) return null;
+    const index = bucketIndex.get(format(bucketStart(date, granularity), 'yyyy-MM-dd'));
+    return index === undefined ? null : buckets[index];
+  };
+
+  let completed = 0;
+  let created = 0;
+  let ageDaysTotal = 0;
+  let wentStale = 0;
+  let staleDone = 0;
+  const completedByProject = new Map<string, number>();
+
+  for (const task of tasks) {
+    if (task.deleted_at) continue;
+
+    const createdBucket = bucketFor(task.created_at);
+    if (createdBucket) {
+      createdBucket.created++;
+      created++;
+    }
+
+    if (task.stale_at && bucketFor(task.stale_at)) {
+      wentStale++;
+      if (task.status === 'logbook') staleDone++;
+    }
+
+    if (task.status !== 'logbook' || !task.completed_at) continue;
+    const bucket = bucketFor(task.completed_at);
+    if (!bucket) continue;
+    completed++;
+    bucket.completed++;
+    const contextKey = getEffectiveContextId(task, projects) ?? NO_CONTEXT;
+    bucket.byContext[contextKey] = (bucket.byContext[contextKey] ?? 0) + 1;
+    ageDaysTotal += Math.max(0, parseISO(task.completed_at).getTime() - parseISO(task.created_at).getTime()) / 86_400_000;
+    if (task.project_id) {
+      completedByProject.set(task.project_id, (completedByProject.get(task.project_id) ?? 0) + 1);
+    }
+  }
+
+  const weeks = differenceInCalendarDays(to, from) / 7;
+  const velocity: ProjectVelocity[] = [];
+  for (const [projectId, count] of completedByProject) {
+    const project = projects.find((p) => p.id === projectId);
+    if (!project) continue;
+    const open = tasks.filter((t) => t.project_id === projectId && !t.deleted_at && isOpen(t)).length;
+    const perWeek = count / weeks;
+    velocity.push({ projectId, title: project.title, completed: count, perWeek, open, weeksLeft: Math.ceil(open / perWeek) });
+  }
+  velocity.sort((a, b) => b.completed - a.completed || a.title.localeCompare(b.title));
+
+  return {
+    from,
+    to,
+    buckets,
+    completed,
+    created,
+    averageAgeDays: completed > 0 ? ageDaysTotal / completed : null,
+    wentStale,
+    staleDone,
+    velocity,
+  };
+}
@@ -1,6 +1,6 @@
 // @vitest-environment jsdom
 import { describe, it, expect } from 'vitest'
-import { parseRelativeDate } from './parseDate'
+import { parseRelativeDate, parseNaturalDate, parseLeadingDate } from './parseDate'
 
 // Fixed reference date: 2026-02-20 (Friday)
 const NOW = new Date('2026-02-20T12:00:00.000Z')
@@ -178,3 +178,173 @@ describe('parseRelativeDate', () => {
     })
   })
 })
+
+describe('parseNaturalDate', () => {
+  describe('relative phrases', () => {
+    it('parses "next week" as the Monday after this week', () => {
+      expect(parseNaturalDate('next week', NOW)).toEqual({ date: '2026-02-23' })
+    })
+
+    it('parses "next month" as its first day', () => {
+      expect(parseNaturalDate('next month', NOW)).toEqual({ date: '2026-03-01' })
+    })
+
+    it('parses "end of month"', () => {
+      expect(parseNaturalDate('end of month', NOW)).toEqual({ date: '2026-02-28' })
+    })
+
+    it('parses "end of week" as Friday, which is today', () => {
+      expect(parseNaturalDate('end of week', NOW)).toEqual({ date: '2026-02-20' })
+    })
+
+    it('parses "in 3 days", "in 2 weeks" and "in a month"', () => {
+      expect(parseNaturalDate('in 3 days', NOW)?.date).toBe('2026-02-23')
+      expect(parseNaturalDate('in 2 weeks', NOW)?.date).toBe('2026-03-06')
+      expect(parseNaturalDate('in a month', NOW)?.date).toBe('2026-03-20')
+    })
+
+    it('does not read a spelled-out count without "in"', () => {
+      expect(parseNaturalDate('a week', NOW)).toBeNull()
+    })
+
+    it('parses "next friday" as Friday of next week', () => {
+      expect(parseNaturalDate('next friday', NOW)?.date).toBe('2026-02-27')
+      expect(parseNaturalDate('next monday', NOW)?.date).toBe('2026-02-23')
+    })
+
+    it('places "next <weekday>" in the following week even early in the week', () => {
+      const monday = new Date('2026-02-16T12:00:00.000Z')
+      expect(parseNaturalDate('friday', monday)?.date).toBe('2026-02-20')
+      expect(parseNaturalDate('next friday', monday)?.date).toBe('2026-02-27')
+    })
+
+    it('accepts words joined by "-" or "_" as in a do: token', () => {
+      expect(parseNaturalDate('next-friday', NOW)?.date).toBe('2026-02-27')
+      expect(parseNaturalDate('in_3_days', NOW)?.date).toBe('2026-02-23')
+      expect(parseNaturalDate('end-of-month', NOW)?.date).toBe('2026-02-28')
+    })
+  })
+
+  describe('month parts and day-first dates', () => {
+    it('parses "mid march" as the 15th', () => {
+      expect(parseNaturalDate('mid march', NOW)?.date).toBe('2026-03-15')
+    })
+
+    it('parses "end of january" in next year once January has passed', () => {
+      expect(parseNaturalDate('end of january', NOW)?.date).toBe('2027-01-31')
+    })
+
+    it('parses "15 march" and "march 15th"', () => {
+      expect(parseNaturalDate('15 march', NOW)?.date).toBe('2026-03-15')
+      expect(parseNaturalDate('march 15th', NOW)?.date).toBe('2026-03-15')
+    })
+
+    it('parses "15.03." and "15.3" as day.month', () => {
+      expect(parseNaturalDate('15.03.', NOW)?.date).toBe('2026-03-15')
+      expect(parseNaturalDate('15.3', NOW)?.date).toBe('2026-03-15')
+    })
+
+    it('rolls "10.01." over to next year', () => {
+      expect(parseNaturalDate('10.01.', NOW)?.date).toBe('2027-01-10')
+    })
+
+    it('parses day.month.year with two- or four-digit years', () => {
+      expect(parseNaturalDate('15.03.2028', NOW)?.date).toBe('2028-03-15')
+      expect(parseNaturalDate('15.3.28', NOW)?.date).toBe('2028-03-15')
+    })
+
+    it('returns null for "31.02."', () => {
+      expect(parseNaturalDate('31.02.', NOW)).toBeNull()
+    })
+  })
+
+  describe('German', () => {
+    it('parses "heute", "morgen" and "übermorgen"', () => {
+      expect(parseNaturalDate('heute', NOW)?.date).toBe('2026-02-20')
+      expect(parseNaturalDate('morgen', NOW)?.date).toBe('2026-02-21')
+      expect(parseNaturalDate('übermorgen', NOW)?.date).toBe('2026-02-22')
+    })
+
+    it('parses weekday names', () => {
+      expect(parseNaturalDate('Montag', NOW)?.date).toBe('2026-02-23')
+      expect(parseNaturalDate('Freitag', NOW)?.date).toBe('2026-02-27')
+    })
+
+    it('parses "nächsten Montag" and the ae spelling', () => {
+      expect(parseNaturalDate('nächsten Montag', NOW)?.date).toBe('2026-02-23')
+      expect(parseNaturalDate('naechsten Freitag', NOW)?.date).toBe('2026-02-27')
+    })
+
+    it('parses "nächste Woche", "Ende des Monats" and "in 3 Tagen"', () => {
+      expect(parseNaturalDate('nächste Woche', NOW)?.date).toBe('2026-02-23')
+      expect(parseNaturalDate('Ende des Monats', NOW)?.date).toBe('2026-02-28')
+      expect(parseNaturalDate('in 3 Tagen', NOW)?.date).toBe('2026-02-23')
+    })
+
+    it('parses "Mitte März" and "15. März"', () => {
+      expect(parseNaturalDate('Mitte März', NOW)?.date).toBe('2026-03-15')
+      expect(parseNaturalDate('15. März', NOW)?.date).toBe('2026-03-15')
+    })
+  })
+
+  describe('times of day', () => {
+    it('parses "tomorrow 9am"', () => {
+      expect(parseNaturalDate('tomorrow 9am', NOW)).toEqual({ date: '2026-02-21', time: '09:00' })
+    })
+
+    it('parses "friday at 3:30pm"', () => {
+      expect(parseNaturalDate('friday at 3:30pm', NOW)).toEqual({ date: '2026-02-27', time: '15:30' })
+    })
+
+    it('parses "morgen um 14:30" and "Montag 9 Uhr"', () => {
+      expect(parseNaturalDate('morgen um 14:30', NOW)).toEqual({ date: '2026-02-21', time: '14:30' })
+      expect(parseNaturalDate('Montag 9 Uhr', NOW)).toEqual({ date: '2026-02-23', time: '09:00' })
+    })
+
+    it('parses named times of day', () => {
+      expect(parseNaturalDate('heute abend', NOW)).toEqual({ date: '2026-02-20', time: '18:00' })
+      expect(parseNaturalDate('tomorrow morning', NOW)).toEqual({ date: '2026-02-21', time: '09:00' })
+      expect(parseNaturalDate('tonight', NOW)).toEqual({ date: '2026-02-20', time: '20:00' })
+    })
+
+    it('treats a time on its own as today', () => {
+      expect(parseNaturalDate('3pm', NOW)).toEqual({ date: '2026-02-20', time: '15:00' })
+    })
+
+    it('maps 12am to midnight and 12pm to noon', () => {
+      expect(parseNaturalDate('12am', NOW)?.time).toBe('00:00')
+      expect(parseNaturalDate('12pm', NOW)?.time).toBe('12:00')
+    })
+
+    it('does not read a bare trailing number as a time', () => {
+      expect(parseNaturalDate('mar 15', NOW)).toEqual({ date: '2026-03-15' })
+    })
+
+    it('returns null for impossible times', () => {
+      expect(parseNaturalDate('tomorrow 13pm', NOW)).toBeNull()
+      expect(parseNaturalDate('tomorrow 25:00', NOW)).toBeNull()
+    })
+  })
+
+  it('parseRelativeDate drops the time', () => {
+    expect(parseRelativeDate('tomorrow 9am', NOW)).toBe('2026-02-21')
+  })
+})
+
+describe('parseLeadingDate', () => {
+  it('takes the longest leading phrase that is a date', () => {
+    expect(parseLeadingDate('end of month call Bob', NOW)).toEqual({ date: '2026-02-28', phrase: 'end of month' })
+  })
+
+  it('includes a trailing time of day', () => {
+    expect(parseLeadingDate('friday 10:00 standup', NOW)).toEqual({
+      date: '2026-02-27',
+      time: '10:00',
+      phrase: 'friday 10:00',
+    })
+  })
+
+  it('returns null when no leading words are a date', () => {
+    expect(parseLeadingDate('call Bob', NOW)).toBeNull()
+  })
+})
@@ -1,101 +1,280 @@
-import { format, addDays, addWeeks, isValid } from 'date-fns'
+import { format, addDays, addWeeks, addMonths, isValid } from 'date-fns'
+
+export interface ParsedDate {
+  /** yyyy-MM-dd */
+  date: string
+  /** HH:mm, only when the input names a time of day */
+  time?: string
+}
+
+/** Longest phrase `parseLeadingDate` tries, e.g. "day after tomorrow at 3pm" */
+const MAX_PHRASE_WORDS = 6
+
+// Weekday names in English and German. "next occurrence" always means strictly future (never today)
+const WEEKDAYS: Record<string, number> = {
+  sun: 0, sunday: 0, so: 0, sonntag: 0,
+  mon: 1, monday: 1, mo: 1, montag: 1,
+  tue: 2, tuesday: 2, di: 2, dienstag: 2,
+  wed: 3, wednesday: 3, mi: 3, mittwoch: 3,
+  thu: 4, thursday: 4, do: 4, donnerstag: 4,
+  fri: 5, friday: 5, fr: 5, freitag: 5,
+  sat: 6, saturday: 6, sa: 6, samstag: 6,
+}
+
+// German spellings are listed after normalisation, so "märz" appears as "maerz"
+const MONTHS: Record<string, number> = {
+  jan: 1, january: 1, januar: 1,
+  feb: 2, february: 2, februar: 2,
+  mar: 3, march: 3, maerz: 3, mrz: 3,
+  apr: 4, april: 4,
+  may: 5, mai: 5,
+  jun: 6, june: 6, juni: 6,
+  jul: 7, july: 7, juli: 7,
+  aug: 8, august: 8,
+  sep: 9, sept: 9, september: 9,
+  oct: 10, october: 10, okt: 10, oktober: 10,
+  nov: 11, november: 11,
+  dec: 12, december: 12, dez: 12, dezember: 12,
+}
+
+// Named times of day; "morgen" on its own is tomorrow, "morgens" is the morning
+const TIMES_OF_DAY: Record<string, string> = {
+  morning: '09:00', frueh: '09:00', morgens: '09:00',
+  noon: '12:00', mittag: '12:00', mittags: '12:00',
+  afternoon: '15:00', nachmittag: '15:00', nachmittags: '15:00',
+  evening: '18:00', abend: '18:00', abends: '18:00',
+  tonight: '20:00',
+}
+
+const NEXT = '(?:next|naechste|naechsten|naechster)'
+const THIS = '(?:this|diesen|dieser|diese)'
+const COUNT_WORDS: Record<string, number> = { a: 1, an: 1, one: 1, einem: 1, einer: 1, einen: 1 }
+
+function ymd(date: Date): string {
+  return format(date, 'yyyy-MM-dd')
+}
 
 /**
- * Parses a human-readable date string into a yyyy-MM-dd string.
- * Returns null if the input is not recognised.
- *
- * @param input  The raw text to parse (case-insensitive)
- * @param now    Reference date (defaults to new Date()). Pass a fixed date in tests.
+ * Lower-cases, spells umlauts as ae/oe/ue/ss and turns the "-" / "_" that
+ * join words inside a `do:` token into spaces. Dashes between digits stay,
+ * so ISO dates survive.
  */
-export function parseRelativeDate(input: string, now: Date = new Date()): string | null {
-  const raw = input.trim().toLowerCase()
-  if (!raw) return null
-
-  // ── today / tomorrow ────────────────────────────────────────────────────────
-  if (raw === 'today') return format(now, 'yyyy-MM-dd')
-  if (raw === 'tomorrow' || raw === 'tom') return format(addDays(now, 1), 'yyyy-MM-dd')
-
-  // ── weekday names ────────────────────────────────────────────────────────────
-  // "next occurrence" always means strictly future (never today)
-  const WEEKDAYS: Record<string, number> = {
-    sun: 0, sunday: 0,
-    mon: 1, monday: 1,
-    tue: 2, tuesday: 2,
-    wed: 3, wednesday: 3,
-    thu: 4, thursday: 4,
-    fri: 5, friday: 5,
-    sat: 6, saturday: 6,
-  }
-  if (raw in WEEKDAYS) {
-    const target = WEEKDAYS[raw]
+function normalise(input: string): string {
+  return input
+    .trim()
+    .toLowerCase()
+    .replace(/ä/g, 'ae')
+    .replace(/ö/g, 'oe')
+    .replace(/ü/g, 'ue')
+    .replace(/ß/g, 'ss')
+    .replace(/_|(?<!\d)-|-(?!\d)/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/** Splits a trailing time of day ("3pm", "um 14:30", "9 uhr", "abends") off the phrase */
+function splitTime(text: string): { rest: string; time?: string } {
+  const named = text.match(/(?:^|\s)(?:(?:at|um|am|in the)\s)?([a-z]+)$/)
+  if (named && named[1] in TIMES_OF_DAY) {
+    return { rest: text.slice(0, named.index).trim(), time: TIMES_OF_DAY[named[1]] }
+  }
+
+  const clock = text.match(/(?:^|\s)(at\s|um\s|@)?(\d{1,2})(?::(\d{2}))?\s?(am|pm|uhr)?$/)
+  // A bare number is a day or a count ("mar 15", "in 3"), not a time
+  if (!clock || (!clock[1] && clock[3] === undefined && !clock[4])) return { rest: text }
+
+  let hours = parseInt(clock[2], 10)
+  const minutes = clock[3] === undefined ? 0 : parseInt(clock[3], 10)
+  const meridiem = clock[4]
+  if (meridiem === 'am' || meridiem === 'pm') {
+    if (hours < 1 || hours > 12) return { rest: text }
+    hours = (hours % 12) + (meridiem === 'pm' ? 12 : 0)
+  }
+  if (hours > 23 || minutes > 59) return { rest: text }
+
+  const time = `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`
+  return { rest: text.slice(0, clock.index).trim(), time }
+}
+
+/**
+ * The next `month`/`day` strictly after today, or in `year` when given.
+ * `day` 'last' is the last day of the month.
+ */
+function monthDay(now: Date, month: number, day: number | 'last', year?: number): string | null {
+  const build = (y: number): Date | null => {
+    const d = day === 'last' ? new Date(Date.UTC(y, month, 0, 12)) : new Date(Date.UTC(y, month - 1, day, 12))
+    // Catches month 13, day 32, Feb 30 etc.
+    if (!isValid(d) || d.getUTCMonth() !== month - 1) return null
+    return d
+  }
+
+  if (month < 1 || month > 12) return null
+  if (year !== undefined) {
+    const d = build(year)
+    return d ? format(d, 'yyyy-MM-dd') : null
+  }
+
+  const candidate = build(now.getFullYear())
+  if (!candidate) return null
+  // Build "today at noon UTC" for comparison
+  const todayNoon = new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate(), 12, 0, 0))
+  if (candidate <= todayNoon) {
+    // Date has already passed (or is today) → use next year
+    const next = build(now.getFullYear() + 1)
+    return next ? format(next, 'yyyy-MM-dd') : null
+  }
+  return format(candidate, 'yyyy-MM-dd')
+}
+
+/** Days between `now` and the Monday that starts its week */
+function daysSinceMonday(now: Date): number {
+  return (now.getDay() + 6) % 7
+}
+
+/** Resolves the day part of a normalised phrase to yyyy-MM-dd */
+function parseDay(raw: string, now: Date): string | null {
+  // ── today / tomorrow / day after ─────────────────────────────────────────────
+  if (raw === 'today' || raw === 'heute') return ymd(now)
+  if (raw === 'tomorrow' || raw === 'tom' || raw === 'morgen') return ymd(addDays(now, 1))
+  if (raw === 'day after tomorrow' || raw === 'uebermorgen') return ymd(addDays(now, 2))
+
+  // ── weekday names: "fri", "this friday", "freitag" ───────────────────────────
+  const weekday = raw.match(new RegExp(`^(?:${THIS} )?([a-z]+)$`))
+  if (weekday && weekday[1] in WEEKDAYS) {
+    const target = WEEKDAYS[weekday[1]]
     const todayDow = now.getDay() // 0=Sun … 6=Sat
     // Days until target: at least 1 (never 0 = today)
     let daysAhead = target - todayDow
     if (daysAhead <= 0) daysAhead += 7
-    return format(addDays(now, daysAhead), 'yyyy-MM-dd')
+    return ymd(addDays(now, daysAhead))
   }
 
-  // ── relative offsets: Nd / Nday / Ndays / Nw / Nweek / Nweeks ───────────────
-  const relMatch = raw.match(/^(\d+)(d|day|days|w|week|weeks)$/)
+  // ── "next friday" / "nächsten Montag": that day in the following week ───────
+  const nextWeekday = raw.match(new RegExp(`^${NEXT} ([a-z]+)$`))
+  if (nextWeekday && nextWeekday[1] in WEEKDAYS) {
+    const nextMonday = addDays(now, 7 - daysSinceMonday(now))
+    return ymd(addDays(nextMonday, (WEEKDAYS[nextWeekday[1]] + 6) % 7))
+  }
+
+  // ── next week / next month: their first day ─────────────────────────────────
+  if (new RegExp(`^${NEXT} (?:week|woche)$`).test(raw)) {
+    return ymd(addDays(now, 7 - daysSinceMonday(now)))
+  }
+  if (new RegExp(`^${NEXT} (?:month|monat)$`).test(raw)) {
+    const next = addMonths(now, 1)
+    return ymd(new Date(next.getFullYear(), next.getMonth(), 1, 12))
+  }
+
+  // ── end of week (Friday) / end of month ─────────────────────────────────────
+  if (raw === 'end of week' || raw === 'ende der woche') {
+    let daysAhead = 4 - daysSinceMonday(now)
+    if (daysAhead < 0) daysAhead += 7
+    return ymd(addDays(now, daysAhead))
+  }
+  if (raw === 'end of month' || raw === 'ende des monats' || raw === 'monatsende') {
+    return ymd(new Date(now.getFullYear(), now.getMonth() + 1, 0, 12))
+  }
+
+  // ── relative offsets: 3d / 3 days / 2w / in 3 days / in 2 Wochen / in a month ─
+  // Spelled-out counts only read naturally after "in": "in a week", not "a week"
+  const relMatch = raw.match(/^(?:(\d+) ?|in (\d+|[a-z]+) )(d|days?|tage?n?|w|weeks?|wochen?|months?|monaten?)$/)
   if (relMatch) {
-    const n = parseInt(relMatch[1], 10)
-    const unit = relMatch[2]
-    if (unit === 'w' || unit === 'week' || unit === 'weeks') {
-      return format(addWeeks(now, n), 'yyyy-MM-dd')
-    }
-    return format(addDays(now, n), 'yyyy-MM-dd')
+    const countText = relMatch[1] ?? relMatch[2]
+    const n = /^\d+$/.test(countText) ? parseInt(countText, 10) : COUNT_WORDS[countText]
+    const unit = relMatch[3]
+    if (n === undefined) return null
+    if (/^(?:w|weeks?|wochen?)$/.test(unit)) return ymd(addWeeks(now, n))
+    if (/^(?:months?|monaten?)$/.test(unit)) return ymd(addMonths(now, n))
+    return ymd(addDays(now, n))
   }
 
   // ── exact ISO / slash dates: yyyy-MM-dd or yyyy/MM/dd ───────────────────────
   const isoMatch = raw.match(/^(\d{4})[-/](\d{2})[-/](\d{2})$/)
   if (isoMatch) {
-    const d = new Date(`${isoMatch[1]}-${isoMatch[2]}-${isoMatch[3]}T12:00:00.000Z`)
-    if (!isValid(d)) return null
-    // Verify that month/day round-trips (catches month 13, day 32, etc.)
-    if (
-      d.getUTCMonth() + 1 !== parseInt(isoMatch[2], 10) ||
-      d.getUTCDate() !== parseInt(isoMatch[3], 10)
-    ) return null
-    return format(d, 'yyyy-MM-dd')
-  }
-
-  // ── month+day: mar15 / mar 15 / march15 / march 15 ──────────────────────────
-  const MONTHS: Record<string, number> = {
-    jan: 1, january: 1,
-    feb: 2, february: 2,
-    mar: 3, march: 3,
-    apr: 4, april: 4,
-    may: 5,
-    jun: 6, june: 6,
-    jul: 7, july: 7,
-    aug: 8, august: 8,
-    sep: 9, september: 9,
-    oct: 10, october: 10,
-    nov: 11, november: 11,
-    dec: 12, december: 12,
-  }
-
-  const monthDayMatch = raw.match(/^([a-z]+)\s*(\d{1,2})$/)
-  if (monthDayMatch) {
-    const monthName = monthDayMatch[1]
-    const day = parseInt(monthDayMatch[2], 10)
-    const month = MONTHS[monthName]
-    if (!month) return null
+    return monthDay(now, parseInt(isoMatch[2], 10), parseInt(isoMatch[3], 10), parseInt(isoMatch[1], 10))
+  }
 
-    const year = now.getFullYear()
-    // Build candidate date in local time (use UTC noon to avoid DST shifts)
-    const candidate = new Date(Date.UTC(year, month - 1, day, 12, 0, 0))
-    if (!isValid(candidate) || candidate.getUTCDate() !== day) return null
+  // ── German day-first dates: 15.03. / 15.3 / 15.03.2027 / 15.3.27 ────────────
+  const dottedMatch = raw.match(/^(\d{1,2})\.(\d{1,2})(?:\.(\d{4}|\d{2})?)?$/)
+  if (dottedMatch) {
+    const year = dottedMatch[3] === undefined
+      ? undefined
+      : parseInt(dottedMatch[3], 10) + (dottedMatch[3].length === 2 ? 2000 : 0)
+    return monthDay(now, parseInt(dottedMatch[2], 10), parseInt(dottedMatch[1], 10), year)
+  }
 
-    // Build "today at noon UTC" for comparison
-    const todayNoon = new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate(), 12, 0, 0))
+  // ── parts of a month: mid march / Mitte März / end of april / Anfang Mai ─────
+  const partMatch = raw.match(/^(early|start of|beginning of|anfang|mid|mitte|end of|end|ende) ([a-z]+)$/)
+  if (partMatch && partMatch[2] in MONTHS) {
+    const part = partMatch[1]
+    const day = part === 'mid' || part === 'mitte' ? 15 : part.startsWith('end') ? 'last' : 1
+    return monthDay(now, MONTHS[partMatch[2]], day)
+  }
 
-    if (candidate <= todayNoon) {
-      // Date has already passed (or is today) → use next year
-      return format(new Date(Date.UTC(year + 1, month - 1, day, 12, 0, 0)), 'yyyy-MM-dd')
-    }
-    return format(candidate, 'yyyy-MM-dd')
+  // ── month+day: mar15 / mar 15 / march 15th / 15 march / 15. März ────────────
+  const monthDayMatch = raw.match(/^([a-z]+)\.? ?(\d{1,2})(?:st|nd|rd|th)?$/)
+  if (monthDayMatch) {
+    const month = MONTHS[monthDayMatch[1]]
+    return month ? monthDay(now, month, parseInt(monthDayMatch[2], 10)) : null
   }
+  const dayMonthMatch = raw.match(/^(\d{1,2})(?:st|nd|rd|th|\.)? ?([a-z]+)$/)
+  if (dayMonthMatch) {
+    const month = MONTHS[dayMonthMatch[2]]
+    return month ? monthDay(now, month, parseInt(dayMonthMatch[1], 10)) : null
+  }
+
+  return null
+}
+
+/**
+ * Parses a human-readable English or German date, optionally with a time of
+ * day: "next friday", "in 3 days", "mid march", "15.03.", "übermorgen",
+ * "nächsten Montag um 14:00", "tomorrow 9am", "heute abend". A time on its
+ * own ("3pm") means today. Words may also be joined by "-" or "_"
+ * ("next-friday"), which is how they fit in a single `do:` token.
+ * Returns null if the input is not recognised.
+ *
+ * @param input  The raw text to parse (case-insensitive)
+ * @param now    Reference date (defaults to new Date()). Pass a fixed date in tests.
+ */
+export function parseNaturalDate(input: string, now: Date = new Date()): ParsedDate | null {
+  const text = normalise(input)
+  if (!text) return null
 
+  const { rest, time } = splitTime(text)
+  const date = rest ? parseDay(rest, now) : time ? ymd(now) : null
+  if (!date) return null
+  return time ? { date, time } : { date }
+}
+
+/**
+ * Parses a human-readable date string into a yyyy-MM-dd string, ignoring
+ * any time of day. Returns null if the input is not recognised.
+ *
+ * @param input  The raw text to parse (case-insensitive)
+ * @param now    Reference date (defaults to new Date()). Pass a fixed date in tests.
+ */
+export function parseRelativeDate(input: string, now: Date = new Date()): string | null {
+  return parseNaturalDate(input, now)?.date ?? null
+}
+
+/**
+ * The longest run of leading words in `text` that reads as a date, so
+ * "end of month call Bob" resolves "end of month" and leaves the rest.
+ * `phrase` is the matched text exactly as it appears in `text`.
+ */
+export function parseLeadingDate(
+  text: string,
+  now: Date = new Date()
+): (ParsedDate & { phrase: string }) | null {
+  const wordEnds = [...text.matchAll(/\S+/g)]
+    .slice(0, MAX_PHRASE_WORDS)
+    .map((m) => m.index! + m[0].length)
+
+  for (let i = wordEnds.length - 1; i >= 0; i--) {
+    const phrase = text.slice(0, wordEnds[i])
+    const parsed = parseNaturalDate(phrase, now)
+    if (parsed) return { ...parsed, phrase }
+  }
   return null
 }
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { isMultiLinePaste, splitPastedTasks } from './parsePastedTasks'
+
+describe('isMultiLinePaste', () => {
+  it('needs more than one non-empty line', () => {
+    expect(isMultiLinePaste('Buy milk')).toBe(false)
+    expect(isMultiLinePaste('Buy milk\n\n')).toBe(false)
+    expect(isMultiLinePaste('Buy milk\r\nCall Bob')).toBe(true)
+  })
+})
+
+describe('splitPastedTasks', () => {
+  it('makes one task per line and strips list bullets', () => {
+    expect(splitPastedTasks('- Buy milk\n* Call Bob\n\n1. Book flights #Work', 'tasks')).toEqual([
+      { line: 'Buy milk', checklist: [] },
+      { line: 'Call Bob', checklist: [] },
+      { line: 'Book flights #Work', checklist: [] },
+    ])
+  })
+
+  it('adds checkbox lines to the checklist of the task above', () => {
+    expect(splitPastedTasks('Pack\n- [ ] passport\n- [x] charger\nBook taxi', 'tasks')).toEqual([
+      { line: 'Pack', checklist: ['passport', 'charger'] },
+      { line: 'Book taxi', checklist: [] },
+    ])
+  })
+
+  it('makes a leading checkbox line a task of its own', () => {
+    expect(splitPastedTasks('[ ] passport\n[ ] charger', 'tasks')).toEqual([
+      { line: 'passport', checklist: ['charger'] },
+    ])
+  })
+
+  it('uses the first line as the task in checklist mode', () => {
+    expect(splitPastedTasks('Groceries\n- milk\n- [ ] eggs', 'checklist')).toEqual([
+      { line: 'Groceries', checklist: ['milk', 'eggs'] },
+    ])
+  })
+
+  it('returns nothing for blank text', () => {
+    expect(splitPastedTasks(' \n ', 'tasks')).toEqual([])
+  })
+})
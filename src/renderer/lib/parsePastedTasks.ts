@@ -0,0 +1,52 @@
+/** How pasted lines become tasks: one task per line, or the first line with the rest as its checklist */
+export type PasteMode = 'tasks' | 'checklist'
+
+export interface PastedTask {
+  /** Quick-add text for the task, tokens included */
+  line: string
+  checklist: string[]
+}
+
+// List bullets people paste from notes and markdown: "- ", "* ", "• ", "1. ", "2) "
+const BULLET = /^(?:[-*•]|\d+[.)])\s+/
+// Markdown task list markers: "[ ]", "[]", "[x]"
+const CHECKBOX = /^\[[ xX]?\]\s*/
+
+/** Whether pasted text should go through the multi-line preview instead of the title field */
+export function isMultiLinePaste(text: string): boolean {
+  return text.split(/\r?\n/).filter((line) => line.trim()).length > 1
+}
+
+/**
+ * Split pasted text into tasks. In 'tasks' mode every line is a task, except
+ * checkbox lines ("- [ ] item"), which join the checklist of the task above.
+ * In 'checklist' mode the first line is the task and every other line an item.
+ */
+export function splitPastedTasks(text: string, mode: PasteMode): PastedTask[] {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim().replace(BULLET, ''))
+    .filter(Boolean)
+  if (lines.length === 0) return []
+
+  if (mode === 'checklist') {
+    const [first, ...rest] = lines
+    return [{
+      line: first.replace(CHECKBOX, ''),
+      checklist: rest.map((line) => line.replace(CHECKBOX, '')).filter(Boolean),
+    }]
+  }
+
+  const tasks: PastedTask[] = []
+  for (const line of lines) {
+    const item = line.replace(CHECKBOX, '')
+    if (!item) continue
+    const previous = tasks[tasks.length - 1]
+    if (CHECKBOX.test(line) && previous) {
+      previous.checklist.push(item)
+    } else {
+      tasks.push({ line: item, checklist: [] })
+    }
+  }
+  return tasks
+}
@@ -1,6 +1,6 @@
 // @vitest-environment jsdom
 import { describe, it, expect } from 'vitest'
-import { parseTaskInput } from './parseTaskInput'
+import { parseTaskInput, type QuickAddAssignee } from './parseTaskInput'
 import type { Context, Project } from '../../shared/types'
 
 // Fixed reference date: 2026-02-20 (Friday)
@@ -60,6 +60,11 @@ const PROJECTS: Project[] = [
   },
 ]
 
+const ASSIGNEES: QuickAddAssignee[] = [
+  { id: 'agent-1', name: 'Research Bot' },
+  { id: 'sh-1', name: 'Anna Schmidt' },
+]
+
 describe('parseTaskInput', () => {
   describe('context token (#)', () => {
     it('extracts context token from "Task #Work"', () => {
@@ -174,6 +179,20 @@ describe('parseTaskInput', () => {
       expect(result.whenDate).toBeUndefined()
       expect(result.raw.whenDate).toBe('foobar')
     })
+
+    it('takes a multi-word phrase and keeps the words after it in the title', () => {
+      const result = parseTaskInput('Call do:next friday about invoice', CONTEXTS, PROJECTS, NOW)
+      expect(result.title).toBe('Call about invoice')
+      expect(result.whenDate).toBe('2026-02-27')
+      expect(result.raw.whenDate).toBe('next friday')
+    })
+
+    it('extracts a German phrase with a time "do:nächsten Montag 9 Uhr"', () => {
+      const result = parseTaskInput('Standup do:nächsten Montag 9 Uhr', CONTEXTS, PROJECTS, NOW)
+      expect(result.title).toBe('Standup')
+      expect(result.whenDate).toBe('2026-02-23')
+      expect(result.whenTime).toBe('09:00')
+    })
   })
 
   describe('deadline token (due:)', () => {
@@ -195,6 +214,152 @@ describe('parseTaskInput', () => {
       expect(result.deadline).toBeUndefined()
       expect(result.raw.deadline).toBe('foobar')
     })
+
+    it('extracts "due:end of month" before another token', () => {
+      const result = parseTaskInput('Invoices due:end of month #Work', CONTEXTS, PROJECTS, NOW)
+      expect(result.title).toBe('Invoices')
+      expect(result.deadline).toBe('2026-02-28')
+      expect(result.contextId).toBe('ctx-1')
+    })
+
+    it('extracts a hyphenated phrase "due:in-3-days"', () => {
+      const result = parseTaskInput('Task due:in-3-days', CONTEXTS, PROJECTS, NOW)
+      expect(result.deadline).toBe('2026-02-23')
+      expect(result.deadlineTime).toBeUndefined()
+    })
+  })
+
+  describe('estimate token (~)', () => {
+    it('extracts minutes from "Write report ~30m"', () => {
+      const result = parseTaskInput('Write report ~30m', CONTEXTS, PROJECTS, NOW)
+      expect(result.title).toBe('Write report')
+      expect(result.estimateMinutes).toBe(30)
+      expect(result.raw.estimate).toBe('30m')
+    })
+
+    it('extracts hours alongside other tokens', () => {
+      const result = parseTaskInput('Plan launch ~1h30 #work do:today', CONTEXTS, PROJECTS, NOW)
+      expect(result.title).toBe('Plan launch')
+      expect(result.estimateMinutes).toBe(90)
+      expect(result.contextId).toBe('ctx-1')
+    })
+
+    it('leaves the estimate undefined for an unreadable value', () => {
+      const result = parseTaskInput('Task ~soon', CONTEXTS, PROJECTS, NOW)
+      expect(result.title).toBe('Task')
+      expect(result.estimateMinutes).toBeUndefined()
+      expect(result.raw.estimate).toBe('soon')
+    })
+
+    it('ignores a tilde inside a word', () => {
+      const result = parseTaskInput('Fix a~b', CONTEXTS, PROJECTS, NOW)
+      expect(result.title).toBe('Fix a~b')
+      expect(result.raw.estimate).toBeUndefined()
+    })
+  })
+
+  describe('repeat token (every:)', () => {
+    it('extracts a weekly rule from "Task every:mon"', () => {
+      const result = parseTaskInput('Task every:mon', CONTEXTS, PROJECTS, NOW)
+      expect(result.title).toBe('Task')
+      expect(result.recurrence).toBe('weekly:mon')
+      expect(result.raw.recurrence).toBe('mon')
+    })
+
+    it('extracts a completion-based rule from "Task every:3d"', () => {
+      const result = parseTaskInput('Task every:3d', CONTEXTS, PROJECTS, NOW)
+      expect(result.recurrence).toBe('after:3')
+    })
+
+    it('leaves recurrence undefined for unrecognised every: value', () => {
+      const result = parseTaskInput('Task every:sometimes', CONTEXTS, PROJECTS, NOW)
+      expect(result.recurrence).toBeUndefined()
+      expect(result.raw.recurrence).toBe('sometimes')
+    })
+  })
+
+  describe('priority token (!)', () => {
+    it('extracts "!p1"', () => {
+      const result = parseTaskInput('Fix login !p1', CONTEXTS, PROJECTS, NOW)
+      expect(result.title).toBe('Fix login')
+      expect(result.priority).toBe('P1')
+      expect(result.raw.priority).toBe('!p1')
+    })
+
+    it('reads "!!!" as P1 and "!!" as P2', () => {
+      expect(parseTaskInput('Fix login !!!', CONTEXTS, PROJECTS, NOW).priority).toBe('P1')
+      expect(parseTaskInput('!! Fix login', CONTEXTS, PROJECTS, NOW).priority).toBe('P2')
+    })
+
+    it('leaves priority undefined for "!p5"', () => {
+      const result = parseTaskInput('Task !p5', CONTEXTS, PROJECTS, NOW)
+      expect(result.title).toBe('Task')
+      expect(result.priority).toBeUndefined()
+      expect(result.raw.priority).toBe('!p5')
+    })
+
+    it('ignores exclamation marks that end a word', () => {
+      const result = parseTaskInput('Ship it!!', CONTEXTS, PROJECTS, NOW)
+      expect(result.title).toBe('Ship it!!')
+      expect(result.raw.priority).toBeUndefined()
+    })
+  })
+
+  describe('assignee token (@)', () => {
+    it('matches an agent by prefix', () => {
+      const result = parseTaskInput('Summarise papers @research', CONTEXTS, PROJECTS, NOW, ASSIGNEES)
+      expect(result.title).toBe('Summarise papers')
+      expect(result.assigneeId).toBe('agent-1')
+    })
+
+    it('matches a stakeholder written with an underscore', () => {
+      const result = parseTaskInput('Send contract @anna_schmidt', CONTEXTS, PROJECTS, NOW, ASSIGNEES)
+      expect(result.assigneeId).toBe('sh-1')
+      expect(result.raw.assignee).toBe('anna_schmidt')
+    })
+
+    it('leaves assigneeId undefined when nobody matches', () => {
+      const result = parseTaskInput('Task @nobody', CONTEXTS, PROJECTS, NOW, ASSIGNEES)
+      expect(result.assigneeId).toBeUndefined()
+    })
+
+    it('ignores @ inside an email address', () => {
+      const result = parseTaskInput('Mail anna@example.com', CONTEXTS, PROJECTS, NOW, ASSIGNEES)
+      expect(result.title).toBe('Mail anna@example.com')
+      expect(result.raw.assignee).toBeUndefined()
+    })
+  })
+
+  describe('tag token (*)', () => {
+    it('collects every tag and strips them from the title', () => {
+      const result = parseTaskInput('Buy stamps *errand #Work *town', CONTEXTS, PROJECTS, NOW)
+      expect(result.title).toBe('Buy stamps')
+      expect(result.tags).toEqual(['errand', 'town'])
+      expect(result.contextId).toBe('ctx-1')
+    })
+
+    it('keeps one of the same tag written twice', () => {
+      expect(parseTaskInput('Task *Errand *errand', CONTEXTS, PROJECTS, NOW).tags).toEqual(['Errand'])
+    })
+
+    it('ignores asterisks used for emphasis or arithmetic', () => {
+      const result = parseTaskInput('Check 3 * 4 and **bold**', CONTEXTS, PROJECTS, NOW)
+      expect(result.title).toBe('Check 3 * 4 and **bold**')
+      expect(result.tags).toBeUndefined()
+    })
+  })
+
+  describe('checklist syntax ([ ])', () => {
+    it('splits "[ ] item" parts into the checklist', () => {
+      const result = parseTaskInput('Pack #Work [ ] passport [] charger', CONTEXTS, PROJECTS, NOW)
+      expect(result.title).toBe('Pack')
+      expect(result.contextId).toBe('ctx-1')
+      expect(result.checklist).toEqual(['passport', 'charger'])
+    })
+
+    it('leaves checklist undefined without items', () => {
+      expect(parseTaskInput('Pack [ ]', CONTEXTS, PROJECTS, NOW).checklist).toBeUndefined()
+    })
   })
 
   describe('multiple tokens', () => {
@@ -1,25 +1,65 @@
-import type { Context, Project } from '../../shared/types'
-import { parseRelativeDate } from './parseDate'
+import type { Context, Priority, Project } from '../../shared/types'
+import { parseLeadingDate, parseNaturalDate } from './parseDate'
+import { parseRecurrenceToken } from '../../shared/recurrence'
+import { parseEstimate } from '../../shared/estimate'
 
 export interface ParsedTask {
   title: string
   contextId?: string
   projectId?: string
   whenDate?: string
+  /** HH:mm when the `do:` phrase named a time of day */
+  whenTime?: string
   deadline?: string
+  /** HH:mm when the `due:` phrase named a time of day */
+  deadlineTime?: string
+  recurrence?: string
+  estimateMinutes?: number
+  priority?: Priority
+  assigneeId?: string
+  /** Items written as `[ ] item` after the title */
+  checklist?: string[]
+  /** Tag names from `*name`; unknown names become new tags */
+  tags?: string[]
   raw: {
     context?: string
     project?: string
     whenDate?: string
     deadline?: string
+    recurrence?: string
+    estimate?: string
+    priority?: string
+    assignee?: string
+    tags?: string[]
   }
 }
 
+/** Someone a task can be assigned to with `@name`: an agent or a stakeholder */
+export interface QuickAddAssignee {
+  id: string
+  name: string
+}
+
 // Tokens must be preceded by start-of-string or whitespace
 const CONTEXT_REGEX = /(?:^|\s)#(\S+)/g
 const PROJECT_REGEX = /(?:^|\s)\+(\S+)/g
 const WHEN_REGEX = /(?:^|\s)do:(\S+)/g
 const DUE_REGEX = /(?:^|\s)due:(\S+)/g
+const EVERY_REGEX = /(?:^|\s)every:(\S+)/g
+const ESTIMATE_REGEX = /(?:^|\s)~(\S+)/g
+const PRIORITY_REGEX = /(?:^|\s)(!p\d|!!!?)(?=\s|$)/gi
+const ASSIGNEE_REGEX = /(?:^|\s)@(\S+)/g
+const TAG_REGEX = /(?:^|\s)\*([^\s*]+)(?=\s|$)/g
+// "[ ]" or "[]" starts a checklist item; everything before the first one is the task
+const CHECKLIST_SPLIT = /\s*\[ ?\]\s*/
+
+const PRIORITY_TOKENS: Record<string, Priority> = {
+  '!p1': 'P1',
+  '!p2': 'P2',
+  '!p3': 'P3',
+  '!!!': 'P1',
+  '!!': 'P2',
+}
 
 /** Exact → prefix → contains, case-insensitive */
 function fuzzyMatch(
@@ -47,24 +87,46 @@ function fuzzyMatch(
  * @param contexts  Available contexts for matching
  * @param projects  Available projects for matching
  * @param now       Reference date (defaults to new Date()). Pass a fixed date in tests.
+ * @param assignees Agents and stakeholders `@name` can match
  */
 export function parseTaskInput(
   input: string,
   contexts: Context[],
   projects: Project[],
-  now: Date = new Date()
+  now: Date = new Date(),
+  assignees: QuickAddAssignee[] = []
 ): ParsedTask {
   const raw: ParsedTask['raw'] = {}
-  let title = input.trim()
+  const [head, ...items] = input.split(CHECKLIST_SPLIT)
+  let title = head.trim()
+  const checklist = items.map((item) => item.trim()).filter(Boolean)
 
   // Helper: extract the first match value and strip that token from title
   function extractFirst(regex: RegExp): string | undefined {
     regex.lastIndex = 0
     const match = regex.exec(title)
     if (!match) return undefined
-    const value = match[1]
+    removeSegment(match[0])
+    return match[1]
+  }
+
+  // Helper: like extractFirst, but a date may run over several words
+  // ("due:end of month", "do:nächsten Montag 9 Uhr"). Takes the longest
+  // phrase that still reads as a date; the words after it stay in the title.
+  function extractDate(regex: RegExp): string | undefined {
+    regex.lastIndex = 0
+    const match = regex.exec(title)
+    if (!match) return undefined
+    const prefix = match[0].slice(0, match[0].length - match[1].length)
+    const leading = parseLeadingDate(title.slice(match.index + prefix.length), now)
+    const value = leading?.phrase ?? match[1]
+    removeSegment(prefix + value)
+    return value
+  }
+
+  // Helper: strip a matched segment from title
+  function removeSegment(fullMatch: string): void {
     // Remove the matched segment (preserve leading space if needed)
-    const fullMatch = match[0]
     // If match starts with whitespace, the leading whitespace belongs to the separator —
     // replace the full match with a single space (so surrounding words don't merge).
     // If match starts at position 0 (no leading space), replace with empty string.
@@ -75,7 +137,6 @@ export function parseTaskInput(
     }
     // Strip any duplicate spaces and trim
     title = title.replace(/\s{2,}/g, ' ').trim()
-    return value
   }
 
   // Extract context (#)
@@ -91,18 +152,52 @@ export function parseTaskInput(
   }
 
   // Extract when date (do:)
-  const whenRaw = extractFirst(WHEN_REGEX)
+  const whenRaw = extractDate(WHEN_REGEX)
   if (whenRaw !== undefined) {
     raw.whenDate = whenRaw
   }
 
   // Extract deadline (due:)
-  const dueRaw = extractFirst(DUE_REGEX)
+  const dueRaw = extractDate(DUE_REGEX)
   if (dueRaw !== undefined) {
     raw.deadline = dueRaw
   }
 
+  // Extract repeat rule (every:)
+  const everyRaw = extractFirst(EVERY_REGEX)
+  if (everyRaw !== undefined) {
+    raw.recurrence = everyRaw
+  }
+
+  // Extract estimate (~)
+  const estimateRaw = extractFirst(ESTIMATE_REGEX)
+  if (estimateRaw !== undefined) {
+    raw.estimate = estimateRaw
+  }
+
+  // Extract priority (!p1 / !!)
+  const priorityRaw = extractFirst(PRIORITY_REGEX)
+  if (priorityRaw !== undefined) {
+    raw.priority = priorityRaw
+  }
+
+  // Extract assignee (@)
+  const assigneeRaw = extractFirst(ASSIGNEE_REGEX)
+  if (assigneeRaw !== undefined) {
+    raw.assignee = assigneeRaw
+  }
+
+  // Extract tags (*), as many as there are
+  const tagsRaw: string[] = []
+  for (let tagRaw = extractFirst(TAG_REGEX); tagRaw !== undefined; tagRaw = extractFirst(TAG_REGEX)) {
+    tagsRaw.push(tagRaw)
+  }
+  if (tagsRaw.length > 0) {
+    raw.tags = tagsRaw
+  }
+
   const result: ParsedTask = { title, raw }
+  if (checklist.length > 0) result.checklist = checklist
 
   // Resolve context
   if (raw.context !== undefined) {
@@ -119,14 +214,47 @@ export function parseTaskInput(
 
   // Resolve when date
   if (raw.whenDate !== undefined) {
-    const parsed = parseRelativeDate(raw.whenDate, now)
-    if (parsed) result.whenDate = parsed
+    const parsed = parseNaturalDate(raw.whenDate, now)
+    if (parsed) result.whenDate = parsed.date
+    if (parsed?.time) result.whenTime = parsed.time
   }
 
   // Resolve deadline
   if (raw.deadline !== undefined) {
-    const parsed = parseRelativeDate(raw.deadline, now)
-    if (parsed) result.deadline = parsed
+    const parsed = parseNaturalDate(raw.deadline, now)
+    if (parsed) result.deadline = parsed.date
+    if (parsed?.time) result.deadlineTime = parsed.time
+  }
+
+  // Resolve repeat rule
+  if (raw.recurrence !== undefined) {
+    const parsed = parseRecurrenceToken(raw.recurrence)
+    if (parsed) result.recurrence = parsed
+  }
+
+  // Resolve estimate
+  if (raw.estimate !== undefined) {
+    const parsed = parseEstimate(raw.estimate)
+    if (parsed) result.estimateMinutes = parsed
+  }
+
+  // Resolve priority
+  if (raw.priority !== undefined) {
+    const parsed = PRIORITY_TOKENS[raw.priority.toLowerCase()]
+    if (parsed) result.priority = parsed
+  }
+
+  // Resolve assignee ("@anna_schmidt" matches "Anna Schmidt")
+  if (raw.assignee !== undefined) {
+    const match = fuzzyMatch(raw.assignee.replace(/_/g, ' '), assignees)
+    if (match) result.assigneeId = match.id
+  }
+
+  // Resolve tags ("*Errand *errand" is one tag)
+  if (raw.tags !== undefined) {
+    result.tags = raw.tags.filter(
+      (tag, index) => raw.tags!.findIndex((t) => t.toLowerCase() === tag.toLowerCase()) === index
+    )
   }
 
   return result
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { filterByTags } from './tagFilter';
+import type { EntityTag, TaggableEntityType } from '@shared/types';
+
+const link = (tagId: string, entityId: string, entityType: TaggableEntityType = 'task'): EntityTag => ({
+  id: `${tagId}-${entityId}`,
+  tag_id: tagId,
+  entity_type: entityType,
+  entity_id: entityId,
+  created_at: '2026-02-17T00:00:00.000Z',
+  deleted_at: null,
+});
+
+const items = [{ id: 'a' }, { id: 'b' }, { id: 'c' }];
+
+describe('filterByTags', () => {
+  it('returns everything when no tag is active', () => {
+    expect(filterByTags(items, 'task', [], [])).toBe(items);
+  });
+
+  it('keeps items that carry every active tag', () => {
+    const entityTags = [link('errand', 'a'), link('town', 'a'), link('errand', 'b')];
+
+    expect(filterByTags(items, 'task', ['errand'], entityTags)).toEqual([{ id: 'a' }, { id: 'b' }]);
+    expect(filterByTags(items, 'task', ['errand', 'town'], entityTags)).toEqual([{ id: 'a' }]);
+  });
+
+  it('only looks at tags on the same kind of entity', () => {
+    expect(filterByTags(items, 'task', ['errand'], [link('errand', 'a', 'note')])).toEqual([]);
+  });
+});
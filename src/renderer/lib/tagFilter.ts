@@ -0,0 +1,22 @@
+import type { EntityTag, TaggableEntityType } from '@shared/types';
+
+/** Items that carry every one of `activeTagIds`; all items when no tag is active */
+export function filterByTags<T extends { id: string }>(
+  items: T[],
+  entityType: TaggableEntityType,
+  activeTagIds: string[],
+  entityTags: EntityTag[],
+): T[] {
+  if (activeTagIds.length === 0) return items;
+  const tagIdsByEntity = new Map<string, Set<string>>();
+  for (const et of entityTags) {
+    if (et.entity_type !== entityType) continue;
+    const ids = tagIdsByEntity.get(et.entity_id) ?? new Set<string>();
+    ids.add(et.tag_id);
+    tagIdsByEntity.set(et.entity_id, ids);
+  }
+  return items.filter((item) => {
+    const ids = tagIdsByEntity.get(item.id);
+    return !!ids && activeTagIds.every((id) => ids.has(id));
+  });
+}
@@ -1,6 +1,6 @@
 import {
-  Home, CalendarDays, FolderKanban, Inbox, CheckSquare, BookOpen,
-  Video, FileText, Users, Trash2, Settings, Clock, Sparkles, AlertTriangle,
+  Home, CalendarDays, CalendarRange, FolderKanban, Inbox, CheckSquare, BookOpen,
+  Video, FileText, Users, Trash2, Settings, Clock, Sparkles, AlertTriangle, ListFilter, ClipboardCheck, Timer,
   type LucideIcon,
 } from 'lucide-react';
 import type { SidebarView } from '../components/Sidebar';
@@ -13,6 +13,9 @@ export interface ViewMeta {
 export const VIEW_META: Record<SidebarView, ViewMeta> = {
   home: { label: 'Home', icon: Home },
   daily: { label: 'Daily', icon: CalendarDays },
+  calendar: { label: 'Calendar', icon: CalendarRange },
+  review: { label: 'Review', icon: ClipboardCheck },
+  time: { label: 'Time', icon: Timer },
   inbox: { label: 'Inbox', icon: Inbox },
   tasks: { label: 'Tasks', icon: CheckSquare },
   today: { label: 'Today', icon: CheckSquare },
@@ -21,6 +24,7 @@ export const VIEW_META: Record<SidebarView, ViewMeta> = {
   someday: { label: 'Someday', icon: BookOpen },
   stale: { label: 'Stale', icon: AlertTriangle },
   logbook: { label: 'Logbook', icon: BookOpen },
+  list: { label: 'List', icon: ListFilter },
   projects: { label: 'Projects', icon: FolderKanban },
   meetings: { label: 'Meetings', icon: Video },
   notes: { label: 'Notes', icon: FileText },
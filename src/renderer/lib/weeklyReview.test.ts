@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import type { Task, Project, Meeting, Stakeholder } from '@shared/types';
+import {
+  isReviewOverdue, projectsWithoutNextAction, getUpcomingItems, stakeholdersNotContacted,
+} from './weeklyReview';
+
+const task = (id: string, overrides: Partial<Task> = {}) =>
+  ({ id, status: 'anytime', deleted_at: null, project_id: null, deadline: null, ...overrides }) as Task;
+
+const project = (id: string, overrides: Partial<Project> = {}) =>
+  ({ id, status: 'active', deleted_at: null, ...overrides }) as Project;
+
+const meeting = (id: string, start: string, overrides: Partial<Meeting> = {}) =>
+  ({ id, start_time: start, status: 'scheduled', deleted_at: null, ...overrides }) as Meeting;
+
+const person = (id: string) => ({ id, name: id, deleted_at: null }) as Stakeholder;
+
+describe('isReviewOverdue', () => {
+  const now = new Date('2099-03-10T09:00:00');
+
+  it('is due when there was never a review or the last one is a week old', () => {
+    expect(isReviewOverdue(null, now)).toBe(true);
+    expect(isReviewOverdue('2099-03-03T18:00:00', now)).toBe(true);
+    expect(isReviewOverdue('2099-03-04T08:00:00', now)).toBe(false);
+  });
+});
+
+describe('projectsWithoutNextAction', () => {
+  it('lists active projects whose open tasks are all in Someday, done or blocked', () => {
+    const projects = [project('ok'), project('parked'), project('blocked'), project('empty'), project('planned', { status: 'planned' })];
+    const tasks = [
+      task('a', { project_id: 'ok' }),
+      task('b', { project_id: 'parked', status: 'someday' }),
+      task('c', { project_id: 'parked', status: 'logbook' }),
+      task('d', { project_id: 'blocked' }),
+      task('e'),
+    ];
+    const dependencies = [{ task_id: 'd', blocked_by_task_id: 'e' }];
+
+    expect(projectsWithoutNextAction(projects, tasks, dependencies).map((p) => p.id))
+      .toEqual(['parked', 'blocked', 'empty']);
+  });
+});
+
+describe('getUpcomingItems', () => {
+  it('keeps open deadlines and meetings within the next two weeks, soonest first', () => {
+    const tasks = [
+      task('later', { deadline: '2099-03-20' }),
+      task('soon', { deadline: '2099-03-11' }),
+      task('done', { deadline: '2099-03-12', status: 'logbook' }),
+      task('past', { deadline: '2099-03-09' }),
+      task('far', { deadline: '2099-03-25' }),
+    ];
+    const meetings = [
+      meeting('m2', '2099-03-15T10:00:00'),
+      meeting('m1', '2099-03-10T15:00:00'),
+      meeting('cancelled', '2099-03-12T10:00:00', { status: 'cancelled' }),
+      meeting('far', '2099-04-01T10:00:00'),
+    ];
+
+    const upcoming = getUpcomingItems(tasks, meetings, '2099-03-10');
+
+    expect(upcoming.deadlines.map((t) => t.id)).toEqual(['soon', 'later']);
+    expect(upcoming.meetings.map((m) => m.id)).toEqual(['m1', 'm2']);
+  });
+});
+
+describe('stakeholdersNotContacted', () => {
+  it('lists people not seen for 30 days, never-contacted first then oldest first', () => {
+    const contacts = { recent: '2099-03-01T10:00:00', old: '2099-01-02T10:00:00', older: '2098-12-01T10:00:00' };
+    const result = stakeholdersNotContacted(
+      [person('recent'), person('old'), person('never'), person('older')],
+      contacts,
+      new Date('2099-03-10T09:00:00'),
+    );
+
+    expect(result.map((r) => [r.stakeholder.id, r.lastContactAt])).toEqual([
+      ['never', null],
+      ['older', '2098-12-01T10:00:00'],
+      ['old', '2099-01-02T10:00:00'],
+    ]);
+  });
+});
@@ -0,0 +1,105 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { Task, Project, Meeting, Stakeholder, TaskDependency } from '@shared/types';
+import { getBlockedTaskIds, getNextActionableTask } from '@shared/task-dependencies';
+
+export type ReviewStageId = 'inbox' | 'stale' | 'projects' | 'someday' | 'upcoming' | 'stakeholders';
+
+export interface ReviewStage {
+  id: ReviewStageId;
+  label: string;
+  /** What to do in this stage, shown under its heading */
+  hint: string;
+}
+
+export const REVIEW_STAGES: ReviewStage[] = [
+  { id: 'inbox', label: 'Empty the inbox', hint: 'Give every inbox task a date, a project or a place in Someday, or finish it.' },
+  { id: 'stale', label: 'Stale tasks', hint: 'Pick each stale task back up, park it in Someday or let it go.' },
+  { id: 'projects', label: 'Projects without a next action', hint: 'Every active project needs something that can be done now.' },
+  { id: 'someday', label: 'Someday', hint: 'Bring back what is ready to start and drop what no longer matters.' },
+  { id: 'upcoming', label: 'Next two weeks', hint: 'Check the meetings and deadlines coming up and prepare what they need.' },
+  { id: 'stakeholders', label: 'People to catch up with', hint: 'People you have not met or written about in a while.' },
+];
+
+/** Days between reviews before Home starts nudging */
+export const REVIEW_INTERVAL_DAYS = 7;
+export const UPCOMING_WINDOW_DAYS = 14;
+/** Days without a meeting or linked note before a stakeholder is listed */
+export const STAKEHOLDER_CONTACT_DAYS = 30;
+
+/** Whether a review is due: never done, or done at least a week ago */
+export function isReviewOverdue(lastReviewAt: string | null, now: Date): boolean {
+  if (!lastReviewAt) return true;
+  return differenceInCalendarDays(now, parseISO(lastReviewAt)) >= REVIEW_INTERVAL_DAYS;
+}
+
+/** Active projects with nothing that can be worked on now (open, not in Someday, not blocked) */
+export function projectsWithoutNextAction(
+  projects: Project[],
+  tasks: Task[],
+  dependencies: Pick<TaskDependency, 'task_id' | 'blocked_by_task_id'>[],
+): Project[] {
+  const blockedIds = getBlockedTaskIds(tasks, dependencies);
+  return projects.filter((project) =>
+    project.status === 'active' &&
+    !project.deleted_at &&
+    !getNextActionableTask(tasks.filter((t) => t.project_id === project.id), blockedIds),
+  );
+}
+
+export interface UpcomingItems {
+  /** Open tasks due from today to the end of the window, soonest first */
+  deadlines: Task[];
+  /** Meetings that haven't been cancelled in the same window, soonest first */
+  meetings: Meeting[];
+}
+
+/** Deadlines and meetings from `today` (yyyy-MM-dd) through the next two weeks */
+export function getUpcomingItems(tasks: Task[], meetings: Meeting[], today: string): UpcomingItems {
+  const end = format(addDays(parseISO(today), UPCOMING_WINDOW_DAYS), 'yyyy-MM-dd');
+  const inWindow = (date: string) => date >= today && date <= end;
+  return {
+    deadlines: tasks
+      .filter((t) =>
+        !t.deleted_at &&
+        t.status !== 'logbook' &&
+        t.status !== 'cancelled' &&
+        t.deadline !== null &&
+        inWindow(t.deadline),
+      )
+      .sort((a, b) => a.deadline!.localeCompare(b.deadline!)),
+    meetings: meetings
+      .filter((m) =>
+        !m.deleted_at &&
+        m.status !== 'cancelled' &&
+        inWindow(format(parseISO(m.start_time), 'yyyy-MM-dd')),
+      )
+      .sort((a, b) => parseISO(a.start_time).getTime() - parseISO(b.start_time).getTime()),
+  };
+}
+
+export interface StakeholderToContact {
+  stakeholder: Stakeholder;
+  /** Last meeting or linked note, or null if there never was one */
+  lastContactAt: string | null;
+}
+
+/**
+ * Stakeholders not contacted in the last 30 days, never-contacted ones first,
+ * then longest ago first. `lastContacts` maps stakeholder id to timestamp.
+ */
+export function stakeholdersNotContacted(
+  stakeholders: Stakeholder[],
+  lastContacts: Record<string, string>,
+  now: Date,
+): StakeholderToContact[] {
+  return stakeholders
+    .filter((s) => !s.deleted_at)
+    .map((stakeholder) => ({ stakeholder, lastContactAt: lastContacts[stakeholder.id] ?? null }))
+    .filter(({ lastContactAt }) =>
+      !lastContactAt || differenceInCalendarDays(now, parseISO(lastContactAt)) >= STAKEHOLDER_CONTACT_DAYS,
+    )
+    .sort((a, b) => {
+      if (!a.lastContactAt || !b.lastContactAt) return a.lastContactAt ? 1 : b.lastContactAt ? -1 : 0;
+      return a.lastContactAt.localeCompare(b.lastContactAt);
+    });
+}
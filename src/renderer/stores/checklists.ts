@@ -1,5 +1,6 @@
 import { StateCreator } from 'zustand';
-import type { ChecklistItem, CreateChecklistItemInput, UpdateChecklistItemInput } from '../../shared/types';
+import type { ChecklistItem, CreateChecklistItemInput, UpdateChecklistItemInput, Task } from '../../shared/types';
+import type { TaskSlice } from './tasks';
 
 export interface ChecklistSlice {
   checklistItems: Record<string, ChecklistItem[]>;
@@ -11,9 +12,15 @@ export interface ChecklistSlice {
   updateChecklistItem: (id: string, taskId: string, input: UpdateChecklistItemInput) => Promise<ChecklistItem>;
   deleteChecklistItem: (id: string, taskId: string) => Promise<void>;
   reorderChecklistItems: (taskId: string, itemIds: string[]) => Promise<void>;
+  /** Drop one item at its place in `orderedIds`, the list as shown after the move */
+  moveChecklistItem: (id: string, taskId: string, orderedIds: string[]) => Promise<void>;
+  /** Turn an item into a task of its own; resolves to null when that fails */
+  promoteChecklistItem: (id: string, taskId: string) => Promise<Task | null>;
+  /** Fold a task into `targetTaskId`'s checklist. Rejects with the reason when it can't be */
+  demoteTask: (id: string, targetTaskId: string) => Promise<void>;
 }
 
-export const createChecklistSlice: StateCreator<ChecklistSlice> = (set, _get) => ({
+export const createChecklistSlice: StateCreator<ChecklistSlice & TaskSlice, [], [], ChecklistSlice> = (set, _get) => ({
   checklistItems: {},
   checklistsLoading: {},
   checklistsError: null,
@@ -113,4 +120,49 @@ export const createChecklistSlice: StateCreator<ChecklistSlice> = (set, _get) =>
       set({ checklistsError: err instanceof Error ? err.message : 'Unknown error' });
     }
   },
+
+  moveChecklistItem: async (id, taskId, orderedIds) => {
+    try {
+      const moved = await window.cortex.checklists.move(id, orderedIds);
+      const byId = new Map(moved.map((i) => [i.id, i]));
+      set((state) => ({
+        checklistItems: {
+          ...state.checklistItems,
+          [taskId]: (state.checklistItems[taskId] ?? []).map((i) => byId.get(i.id) ?? i),
+        },
+      }));
+    } catch (err) {
+      console.error('[ChecklistSlice] moveChecklistItem failed:', err);
+      set({ checklistsError: err instanceof Error ? err.message : 'Unknown error' });
+    }
+  },
+
+  promoteChecklistItem: async (id, taskId) => {
+    try {
+      const task = await window.cortex.checklists.promote(id);
+      set((state) => ({
+        checklistItems: {
+          ...state.checklistItems,
+          [taskId]: (state.checklistItems[taskId] ?? []).filter((i) => i.id !== id),
+        },
+        tasks: [...state.tasks, task],
+      }));
+      return task;
+    } catch (err) {
+      console.error('[ChecklistSlice] promoteChecklistItem failed:', err);
+      set({ checklistsError: err instanceof Error ? err.message : 'Unknown error' });
+      return null;
+    }
+  },
+
+  demoteTask: async (id, targetTaskId) => {
+    const item = await window.cortex.tasks.demote(id, targetTaskId);
+    set((state) => ({
+      checklistItems: {
+        ...state.checklistItems,
+        [targetTaskId]: [...(state.checklistItems[targetTaskId] ?? []), item],
+      },
+      tasks: state.tasks.filter((t) => t.id !== id),
+    }));
+  },
 });
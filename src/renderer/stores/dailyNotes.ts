@@ -0,0 +1,41 @@
+import { StateCreator } from 'zustand';
+import type { DailyNote } from '../../shared/types';
+
+export interface DailyNoteSlice {
+  dailyNotes: Record<string, DailyNote>;
+  dailyNotesError: string | null;
+
+  fetchDailyNote: (date: string) => Promise<DailyNote | null>;
+  saveDailyNote: (date: string, content: string) => Promise<DailyNote>;
+}
+
+export const createDailyNoteSlice: StateCreator<DailyNoteSlice> = (set) => ({
+  dailyNotes: {},
+  dailyNotesError: null,
+
+  fetchDailyNote: async (date) => {
+    try {
+      const note = await window.cortex.dailyNotes.get(date);
+      if (note) {
+        set((state) => ({ dailyNotes: { ...state.dailyNotes, [date]: note } }));
+      }
+      return note;
+    } catch (err) {
+      console.error('[DailyNoteSlice] fetchDailyNote failed:', err);
+      set({ dailyNotesError: err instanceof Error ? err.message : 'Unknown error' });
+      return null;
+    }
+  },
+
+  saveDailyNote: async (date, content) => {
+    try {
+      const note = await window.cortex.dailyNotes.upsert(date, content);
+      set((state) => ({ dailyNotes: { ...state.dailyNotes, [date]: note } }));
+      return note;
+    } catch (err) {
+      console.error('[DailyNoteSlice] saveDailyNote failed:', err);
+      set({ dailyNotesError: err instanceof Error ? err.message : 'Unknown error' });
+      return null as unknown as DailyNote;
+    }
+  },
+});
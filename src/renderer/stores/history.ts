@@ -0,0 +1,33 @@
+import { StateCreator } from 'zustand';
+import type { EntityChange } from '@shared/types';
+
+export interface HistorySlice {
+  /** Change history by task, project, note or meeting id, newest first. Only items whose history was opened */
+  entityChanges: Record<string, EntityChange[]>;
+
+  fetchEntityChanges: (entityId: string) => Promise<void>;
+  /** Put the item back the way it was right after `change` */
+  restoreEntityChange: (change: EntityChange) => Promise<void>;
+}
+
+export const createHistorySlice: StateCreator<HistorySlice> = (set, get) => ({
+  entityChanges: {},
+
+  fetchEntityChanges: async (entityId) => {
+    try {
+      const changes = await window.cortex.history.list(entityId);
+      set((state) => ({ entityChanges: { ...state.entityChanges, [entityId]: changes } }));
+    } catch (err) {
+      console.error('[HistorySlice] fetchEntityChanges failed:', err);
+    }
+  },
+
+  restoreEntityChange: async (change) => {
+    try {
+      await window.cortex.history.restore(change.id);
+      await get().fetchEntityChanges(change.entity_id);
+    } catch (err) {
+      console.error('[HistorySlice] restoreEntityChange failed:', err);
+    }
+  },
+});
@@ -9,22 +9,35 @@ import { createUISlice, UISlice } from './ui';
 import { createNoteSlice, NoteSlice } from './notes';
 import { createAuthSlice, AuthSlice } from './auth';
 import { createAIAgentSlice, AIAgentSlice } from './ai-agents';
+import { createProjectHeadingSlice, ProjectHeadingSlice } from './projectHeadings';
 import { createProjectStakeholderSlice, ProjectStakeholderSlice } from './projectStakeholders';
 import { createNoteStakeholderSlice, NoteStakeholderSlice } from './noteStakeholders';
-import { createSettingsSlice, SettingsSlice } from './settings';
+import { createSettingsSlice, SettingsSlice, extractLegacySettings } from './settings';
 import { createMeetingSlice, MeetingSlice } from './meetings';
 import { createMeetingAttendeeSlice, MeetingAttendeeSlice } from './meetingAttendees';
 import { createSearchSlice, SearchSlice } from './search';
 import { createRecordingSlice, RecordingSlice } from './recording';
 import { createTabsSlice, TabsSlice } from './tabs';
+import { createDailyNoteSlice, DailyNoteSlice } from './dailyNotes';
+import { createTrashSlice, TrashSlice } from './trash';
+import { createUndoSlice, UndoSlice } from './undo';
+import { createTaskDependencySlice, TaskDependencySlice } from './taskDependencies';
+import { createReminderSlice, ReminderSlice } from './reminders';
+import { createTagSlice, TagSlice } from './tags';
+import { createSmartListSlice, SmartListSlice } from './smartLists';
+import { createHistorySlice, HistorySlice } from './history';
+import { createReviewSlice, ReviewSlice } from './review';
+import { createTemplateSlice, TemplateSlice } from './templates';
+import { createTimeEntrySlice, TimeEntrySlice } from './timeEntries';
 
-export type StoreState = TaskSlice & ProjectSlice & ContextSlice & StakeholderSlice & ChecklistSlice & UISlice & NoteSlice & AuthSlice & AIAgentSlice & ProjectStakeholderSlice & NoteStakeholderSlice & SettingsSlice & MeetingSlice & MeetingAttendeeSlice & SearchSlice & RecordingSlice & TabsSlice;
+export type StoreState = TaskSlice & ProjectSlice & ProjectHeadingSlice & ContextSlice & StakeholderSlice & ChecklistSlice & UISlice & NoteSlice & AuthSlice & AIAgentSlice & ProjectStakeholderSlice & NoteStakeholderSlice & SettingsSlice & MeetingSlice & MeetingAttendeeSlice & SearchSlice & RecordingSlice & TabsSlice & DailyNoteSlice & TrashSlice & UndoSlice & TaskDependencySlice & ReminderSlice & TagSlice & SmartListSlice & HistorySlice & ReviewSlice & TemplateSlice & TimeEntrySlice;
 
 function makeStore() {
   const creator = persist<StoreState>(
     (...a) => ({
       ...createTaskSlice(...a),
       ...createProjectSlice(...a),
+      ...createProjectHeadingSlice(...a),
       ...createContextSlice(...a),
       ...createStakeholderSlice(...a),
       ...createChecklistSlice(...a),
@@ -40,22 +53,32 @@ function makeStore() {
       ...createSearchSlice(...a),
       ...createRecordingSlice(...a),
       ...createTabsSlice(...a),
+      ...createDailyNoteSlice(...a),
+      ...createTrashSlice(...a),
+      ...createUndoSlice(...a),
+      ...createTaskDependencySlice(...a),
+      ...createReminderSlice(...a),
+      ...createTagSlice(...a),
+      ...createSmartListSlice(...a),
+      ...createHistorySlice(...a),
+      ...createReviewSlice(...a),
+      ...createTemplateSlice(...a),
+      ...createTimeEntrySlice(...a),
     }),
     {
       name: 'cortex-store',
+      // Version 0 also persisted app settings; they now live in the main process
+      version: 1,
+      migrate: (persisted, version) => (
+        version === 0 ? extractLegacySettings(persisted as Record<string, unknown>) : persisted
+      ) as StoreState,
       partialize: (state) => ({
         activeContextIds: state.activeContextIds,
+        activeTagIds: state.activeTagIds,
         sidebarCollapsed: state.sidebarCollapsed,
-        userFirstName: state.userFirstName,
-        userLastName: state.userLastName,
-        weatherCity: state.weatherCity,
         tabs: state.tabs,
         activeTabId: state.activeTabId,
-        transcriptionProvider: state.transcriptionProvider,
-        openaiApiKey: state.openaiApiKey,
-        whisperModel: state.whisperModel,
-        defaultRecordingMode: state.defaultRecordingMode,
-        autoTranscribe: state.autoTranscribe,
+        reviewProgress: state.reviewProgress,
       }) as unknown as StoreState,
     }
   );
@@ -0,0 +1,115 @@
+import { StateCreator } from 'zustand';
+import type { ProjectHeading, CreateProjectHeadingInput, UpdateProjectHeadingInput } from '../../shared/types';
+
+export interface ProjectHeadingSlice {
+  projectHeadings: Record<string, ProjectHeading[]>;
+  projectHeadingsError: string | null;
+
+  fetchProjectHeadings: (projectId: string) => Promise<void>;
+  createProjectHeading: (input: CreateProjectHeadingInput) => Promise<ProjectHeading>;
+  updateProjectHeading: (id: string, projectId: string, input: UpdateProjectHeadingInput) => Promise<ProjectHeading>;
+  deleteProjectHeading: (id: string, projectId: string) => Promise<void>;
+  reorderProjectHeadings: (projectId: string, headingIds: string[]) => Promise<void>;
+  archiveProjectHeading: (id: string, projectId: string) => Promise<void>;
+}
+
+export const createProjectHeadingSlice: StateCreator<ProjectHeadingSlice> = (set) => ({
+  projectHeadings: {},
+  projectHeadingsError: null,
+
+  fetchProjectHeadings: async (projectId) => {
+    try {
+      const headings = await window.cortex.projectHeadings.list(projectId) as ProjectHeading[];
+      set((state) => ({
+        projectHeadings: { ...state.projectHeadings, [projectId]: headings },
+      }));
+    } catch (err) {
+      console.error('[ProjectHeadingSlice] fetchProjectHeadings failed:', err);
+      set({ projectHeadingsError: err instanceof Error ? err.message : 'Unknown error' });
+    }
+  },
+
+  createProjectHeading: async (input) => {
+    try {
+      const heading = await window.cortex.projectHeadings.create(input) as ProjectHeading;
+      set((state) => ({
+        projectHeadings: {
+          ...state.projectHeadings,
+          [input.project_id]: [...(state.projectHeadings[input.project_id] ?? []), heading],
+        },
+      }));
+      return heading;
+    } catch (err) {
+      console.error('[ProjectHeadingSlice] createProjectHeading failed:', err);
+      set({ projectHeadingsError: err instanceof Error ? err.message : 'Unknown error' });
+      return null as unknown as ProjectHeading;
+    }
+  },
+
+  updateProjectHeading: async (id, projectId, input) => {
+    try {
+      const heading = await window.cortex.projectHeadings.update(id, input) as ProjectHeading;
+      set((state) => ({
+        projectHeadings: {
+          ...state.projectHeadings,
+          [projectId]: (state.projectHeadings[projectId] ?? []).map((h) => (h.id === id ? heading : h)),
+        },
+      }));
+      return heading;
+    } catch (err) {
+      console.error('[ProjectHeadingSlice] updateProjectHeading failed:', err);
+      set({ projectHeadingsError: err instanceof Error ? err.message : 'Unknown error' });
+      return null as unknown as ProjectHeading;
+    }
+  },
+
+  deleteProjectHeading: async (id, projectId) => {
+    try {
+      await window.cortex.projectHeadings.delete(id);
+      set((state) => ({
+        projectHeadings: {
+          ...state.projectHeadings,
+          [projectId]: (state.projectHeadings[projectId] ?? []).filter((h) => h.id !== id),
+        },
+      }));
+    } catch (err) {
+      console.error('[ProjectHeadingSlice] deleteProjectHeading failed:', err);
+      set({ projectHeadingsError: err instanceof Error ? err.message : 'Unknown error' });
+    }
+  },
+
+  reorderProjectHeadings: async (projectId, headingIds) => {
+    // Optimistic: apply the new order immediately, the watcher refetch confirms it
+    set((state) => {
+      const byId = new Map((state.projectHeadings[projectId] ?? []).map((h) => [h.id, h]));
+      const reordered = headingIds
+        .map((id, i) => {
+          const heading = byId.get(id);
+          return heading ? { ...heading, sort_order: i } : null;
+        })
+        .filter((h): h is ProjectHeading => h !== null);
+      return { projectHeadings: { ...state.projectHeadings, [projectId]: reordered } };
+    });
+    try {
+      await window.cortex.projectHeadings.reorder(projectId, headingIds);
+    } catch (err) {
+      console.error('[ProjectHeadingSlice] reorderProjectHeadings failed:', err);
+      set({ projectHeadingsError: err instanceof Error ? err.message : 'Unknown error' });
+    }
+  },
+
+  archiveProjectHeading: async (id, projectId) => {
+    try {
+      await window.cortex.projectHeadings.archive(id);
+      set((state) => ({
+        projectHeadings: {
+          ...state.projectHeadings,
+          [projectId]: (state.projectHeadings[projectId] ?? []).filter((h) => h.id !== id),
+        },
+      }));
+    } catch (err) {
+      console.error('[ProjectHeadingSlice] archiveProjectHeading failed:', err);
+      set({ projectHeadingsError: err instanceof Error ? err.message : 'Unknown error' });
+    }
+  },
+});
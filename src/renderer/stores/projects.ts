@@ -9,6 +9,8 @@ export interface ProjectSlice {
   fetchProjects: () => Promise<void>;
   createProject: (input: CreateProjectInput) => Promise<Project>;
   updateProject: (id: string, input: UpdateProjectInput) => Promise<Project>;
+  /** Drop a project at its place in `orderedIds`, the list as shown after the move */
+  moveProject: (id: string, orderedIds: string[]) => Promise<void>;
   deleteProject: (id: string) => Promise<void>;
 }
 
@@ -54,6 +56,17 @@ export const createProjectSlice: StateCreator<ProjectSlice> = (set) => ({
     }
   },
 
+  moveProject: async (id, orderedIds) => {
+    try {
+      const moved = await window.cortex.projects.move(id, orderedIds);
+      const byId = new Map(moved.map((p) => [p.id, p]));
+      set((state) => ({ projects: state.projects.map((p) => byId.get(p.id) ?? p) }));
+    } catch (err) {
+      console.error('[ProjectSlice] moveProject failed:', err);
+      set({ projectsError: err instanceof Error ? err.message : 'Unknown error' });
+    }
+  },
+
   deleteProject: async (id) => {
     try {
       await window.cortex.projects.delete(id);
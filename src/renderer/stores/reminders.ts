@@ -0,0 +1,40 @@
+import { StateCreator } from 'zustand';
+import type { Reminder, CreateReminderInput } from '@shared/types';
+
+export interface ReminderSlice {
+  reminders: Reminder[];
+  fetchReminders: () => Promise<void>;
+  createReminder: (input: CreateReminderInput) => Promise<void>;
+  deleteReminder: (id: string) => Promise<void>;
+}
+
+export const createReminderSlice: StateCreator<ReminderSlice> = (set) => ({
+  reminders: [],
+
+  fetchReminders: async () => {
+    try {
+      const reminders = await window.cortex.reminders.list();
+      set({ reminders });
+    } catch (err) {
+      console.error('[ReminderSlice] fetchReminders failed:', err);
+    }
+  },
+
+  createReminder: async (input) => {
+    try {
+      const reminder = await window.cortex.reminders.create(input);
+      set((state) => ({ reminders: [...state.reminders, reminder] }));
+    } catch (err) {
+      console.error('[ReminderSlice] createReminder failed:', err);
+    }
+  },
+
+  deleteReminder: async (id) => {
+    try {
+      await window.cortex.reminders.delete(id);
+      set((state) => ({ reminders: state.reminders.filter((r) => r.id !== id) }));
+    } catch (err) {
+      console.error('[ReminderSlice] deleteReminder failed:', err);
+    }
+  },
+});
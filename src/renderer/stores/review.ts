@@ -0,0 +1,38 @@
+import { StateCreator } from 'zustand';
+import type { ReviewStageId } from '../lib/weeklyReview';
+
+export interface ReviewProgress {
+  /** Stage on screen, kept so a review can be picked up where it was left */
+  stage: ReviewStageId;
+  completedStages: ReviewStageId[];
+}
+
+export interface ReviewSlice {
+  /** The weekly review in progress, or null when none is. Persisted */
+  reviewProgress: ReviewProgress | null;
+
+  goToReviewStage: (stage: ReviewStageId) => void;
+  /** Tick off `stage` and move on to `next`, if given */
+  completeReviewStage: (stage: ReviewStageId, next?: ReviewStageId) => void;
+  resetReview: () => void;
+}
+
+export const createReviewSlice: StateCreator<ReviewSlice> = (set) => ({
+  reviewProgress: null,
+
+  goToReviewStage: (stage) => set((state) => ({
+    reviewProgress: { stage, completedStages: state.reviewProgress?.completedStages ?? [] },
+  })),
+
+  completeReviewStage: (stage, next) => set((state) => {
+    const completed = state.reviewProgress?.completedStages ?? [];
+    return {
+      reviewProgress: {
+        stage: next ?? stage,
+        completedStages: completed.includes(stage) ? completed : [...completed, stage],
+      },
+    };
+  }),
+
+  resetReview: () => set({ reviewProgress: null }),
+});
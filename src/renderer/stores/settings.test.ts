@@ -0,0 +1,119 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createSettingsSlice, extractLegacySettings, SettingsSlice } from './settings';
+import { DEFAULT_SETTINGS } from '@shared/settings-types';
+
+type SetFn = (partial: Partial<SettingsSlice> | ((s: SettingsSlice) => Partial<SettingsSlice>)) => void;
+type GetFn = () => SettingsSlice;
+
+function createStore(): SettingsSlice {
+  const state = {} as SettingsSlice;
+
+  const set: SetFn = (partial) => {
+    const update = typeof partial === 'function' ? partial(state) : partial;
+    Object.assign(state, update);
+  };
+
+  const get: GetFn = () => state;
+
+  const creator = createSettingsSlice as unknown as (
+    set: SetFn,
+    get: GetFn,
+    api: Record<string, never>,
+  ) => SettingsSlice;
+  Object.assign(state, creator(set, get, {}));
+
+  return state;
+}
+
+const mockCortex = {
+  system: {
+    getSettings: vi.fn(),
+    setSettings: vi.fn(),
+    migrateSettings: vi.fn(),
+  },
+};
+
+{
+  const g = globalThis as unknown as Record<string, Record<string, unknown>>;
+  g.window = { ...(g.window || {}), cortex: { ...(g.window?.cortex as Record<string, unknown> || {}), ...mockCortex } };
+}
+
+describe('SettingsSlice', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    mockCortex.system.setSettings.mockResolvedValue(DEFAULT_SETTINGS);
+  });
+
+  it('starts with defaults until settings are loaded', () => {
+    const store = createStore();
+
+    expect(store.whisperModel).toBe('base');
+    expect(store.settingsLoaded).toBe(false);
+  });
+
+  describe('loadSettings', () => {
+    it('loads settings from the main process', async () => {
+      mockCortex.system.getSettings.mockResolvedValue({ ...DEFAULT_SETTINGS, weatherCity: 'Berlin' });
+      const store = createStore();
+
+      await store.loadSettings();
+
+      expect(store.weatherCity).toBe('Berlin');
+      expect(store.settingsLoaded).toBe(true);
+      expect(mockCortex.system.migrateSettings).not.toHaveBeenCalled();
+    });
+
+    it('hands settings from the old localStorage store to the main process once', async () => {
+      const rest = extractLegacySettings({ openaiApiKey: 'sk-old', weatherCity: 'Oslo', tabs: [] });
+      mockCortex.system.migrateSettings.mockResolvedValue({ ...DEFAULT_SETTINGS, openaiApiKey: 'sk-old', weatherCity: 'Oslo' });
+      mockCortex.system.getSettings.mockResolvedValue(DEFAULT_SETTINGS);
+      const store = createStore();
+
+      await store.loadSettings();
+      await store.loadSettings();
+
+      expect(rest).toEqual({ tabs: [] });
+      expect(mockCortex.system.migrateSettings).toHaveBeenCalledTimes(1);
+      expect(mockCortex.system.migrateSettings).toHaveBeenCalledWith({ openaiApiKey: 'sk-old', weatherCity: 'Oslo' });
+    });
+
+    it('keeps the old settings in storage until the main process has taken them', async () => {
+      extractLegacySettings({ openaiApiKey: 'sk-old', tabs: [] });
+      mockCortex.system.migrateSettings.mockRejectedValueOnce(new Error('IPC failed'));
+      const spy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const store = createStore();
+
+      await store.loadSettings();
+      expect(store.settingsLoaded).toBe(false);
+
+      // A later load, e.g. after a reload, tries again
+      mockCortex.system.migrateSettings.mockResolvedValue({ ...DEFAULT_SETTINGS, openaiApiKey: 'sk-old' });
+      await createStore().loadSettings();
+
+      expect(mockCortex.system.migrateSettings).toHaveBeenCalledTimes(2);
+      expect(mockCortex.system.migrateSettings).toHaveBeenLastCalledWith({ openaiApiKey: 'sk-old' });
+      expect(localStorage.length).toBe(0);
+      spy.mockRestore();
+    });
+  });
+
+  it('saves changes through the main process', () => {
+    const store = createStore();
+
+    store.setUserProfile('Ada', 'Lovelace');
+
+    expect(store.userFirstName).toBe('Ada');
+    expect(mockCortex.system.setSettings).toHaveBeenCalledWith({ userFirstName: 'Ada', userLastName: 'Lovelace' });
+  });
+
+  it('applies snapshots pushed from the main process', () => {
+    const store = createStore();
+
+    store.applySettings({ ...DEFAULT_SETTINGS, autoTranscribe: true });
+
+    expect(store.autoTranscribe).toBe(true);
+    expect(store.settingsLoaded).toBe(true);
+  });
+});
@@ -1,5 +1,8 @@
 import { StateCreator } from 'zustand';
 import type { TranscriptionProvider, WhisperModel, RecordingMode } from '@shared/recording-types';
+import { DEFAULT_SETTINGS } from '@shared/settings-types';
+import type { AppSettings, AppSettingsPatch, RetentionSettings } from '@shared/settings-types';
+import type { Priority } from '@shared/types';
 
 export interface SettingsSlice {
   userFirstName: string;
@@ -10,6 +13,17 @@ export interface SettingsSlice {
   whisperModel: WhisperModel;
   defaultRecordingMode: RecordingMode;
   autoTranscribe: boolean;
+  staleAfterDays: number;
+  staleContextDays: Record<string, number>;
+  staleExemptPriorities: Priority[];
+  staleDeadlineWindowDays: number;
+  trashRetentionDays: number;
+  workdayHours: number;
+  lastWeeklyReviewAt: string | null;
+  settingsLoaded: boolean;
+  loadSettings: () => Promise<void>;
+  /** Replace local settings with a snapshot pushed from the main process */
+  applySettings: (settings: AppSettings) => void;
   setUserProfile: (firstName: string, lastName: string) => void;
   setWeatherCity: (city: string) => void;
   setTranscriptionProvider: (provider: TranscriptionProvider) => void;
@@ -17,22 +31,81 @@ export interface SettingsSlice {
   setWhisperModel: (model: WhisperModel) => void;
   setDefaultRecordingMode: (mode: RecordingMode) => void;
   setAutoTranscribe: (enabled: boolean) => void;
+  setRetentionSettings: (settings: RetentionSettings) => void;
+  setWorkdayHours: (hours: number) => void;
+  setLastWeeklyReviewAt: (at: string) => void;
 }
 
-export const createSettingsSlice: StateCreator<SettingsSlice> = (set) => ({
-  userFirstName: '',
-  userLastName: '',
-  weatherCity: '',
-  transcriptionProvider: 'local',
-  openaiApiKey: '',
-  whisperModel: 'base',
-  defaultRecordingMode: 'both',
-  autoTranscribe: false,
-  setUserProfile: (firstName, lastName) => set({ userFirstName: firstName, userLastName: lastName }),
-  setWeatherCity: (city) => set({ weatherCity: city }),
-  setTranscriptionProvider: (provider) => set({ transcriptionProvider: provider }),
-  setOpenaiApiKey: (key) => set({ openaiApiKey: key }),
-  setWhisperModel: (model) => set({ whisperModel: model }),
-  setDefaultRecordingMode: (mode) => set({ defaultRecordingMode: mode }),
-  setAutoTranscribe: (enabled) => set({ autoTranscribe: enabled }),
-});
+const SETTING_KEYS = Object.keys(DEFAULT_SETTINGS) as (keyof AppSettings)[];
+
+// Settings found in the old localStorage blob wait under their own key until
+// the main process has taken them, so a failed or interrupted hand-over is
+// retried on the next load instead of losing them
+const LEGACY_SETTINGS_KEY = 'cortex-legacy-settings';
+
+function readLegacySettings(): Record<string, unknown> | null {
+  try {
+    const stored = localStorage.getItem(LEGACY_SETTINGS_KEY);
+    return stored ? JSON.parse(stored) as Record<string, unknown> : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Persist migration for store version 0, which kept settings in localStorage.
+ * Moves them out of the persisted state so they are never written back.
+ */
+export function extractLegacySettings(persisted: Record<string, unknown>): Record<string, unknown> {
+  const rest = { ...persisted };
+  const found: Record<string, unknown> = {};
+  for (const key of SETTING_KEYS) {
+    if (key in rest) {
+      found[key] = rest[key];
+      delete rest[key];
+    }
+  }
+  if (Object.keys(found).length > 0) localStorage.setItem(LEGACY_SETTINGS_KEY, JSON.stringify(found));
+  return rest;
+}
+
+export const createSettingsSlice: StateCreator<SettingsSlice> = (set) => {
+  // Optimistic: update the store right away, the main process confirms via onSettingsChanged
+  function save(patch: AppSettingsPatch) {
+    set(patch);
+    window.cortex.system.setSettings(patch).catch((err) => {
+      console.error('[SettingsSlice] saveSettings failed:', err);
+    });
+  }
+
+  return {
+    ...DEFAULT_SETTINGS,
+    settingsLoaded: false,
+
+    loadSettings: async () => {
+      try {
+        const legacy = readLegacySettings();
+        const settings = legacy
+          ? await window.cortex.system.migrateSettings(legacy)
+          : await window.cortex.system.getSettings();
+        if (legacy) localStorage.removeItem(LEGACY_SETTINGS_KEY);
+        set({ ...settings, settingsLoaded: true });
+      } catch (err) {
+        console.error('[SettingsSlice] loadSettings failed:', err);
+      }
+    },
+
+    applySettings: (settings) => set({ ...settings, settingsLoaded: true }),
+
+    setUserProfile: (firstName, lastName) => save({ userFirstName: firstName, userLastName: lastName }),
+    setWeatherCity: (city) => save({ weatherCity: city }),
+    setTranscriptionProvider: (provider) => save({ transcriptionProvider: provider }),
+    setOpenaiApiKey: (key) => save({ openaiApiKey: key }),
+    setWhisperModel: (model) => save({ whisperModel: model }),
+    setDefaultRecordingMode: (mode) => save({ defaultRecordingMode: mode }),
+    setAutoTranscribe: (enabled) => save({ autoTranscribe: enabled }),
+    setRetentionSettings: (settings) => save(settings),
+    setWorkdayHours: (hours) => save({ workdayHours: hours }),
+    setLastWeeklyReviewAt: (at) => save({ lastWeeklyReviewAt: at }),
+  };
+};
@@ -0,0 +1,74 @@
+import { StateCreator } from 'zustand';
+import type { SmartList, CreateSmartListInput, UpdateSmartListInput, Task } from '@shared/types';
+
+export interface SmartListSlice {
+  smartLists: SmartList[];
+  /** Matching task count per list id, for the sidebar */
+  smartListCounts: Record<string, number>;
+
+  fetchSmartLists: () => Promise<void>;
+  fetchSmartListCounts: () => Promise<void>;
+  /** Tasks the list matches; rejects when its query can't be run */
+  fetchSmartListTasks: (id: string) => Promise<Task[]>;
+  createSmartList: (input: CreateSmartListInput) => Promise<SmartList | null>;
+  updateSmartList: (id: string, input: UpdateSmartListInput) => Promise<void>;
+  deleteSmartList: (id: string) => Promise<void>;
+}
+
+export const createSmartListSlice: StateCreator<SmartListSlice> = (set, get) => ({
+  smartLists: [],
+  smartListCounts: {},
+
+  fetchSmartLists: async () => {
+    try {
+      const smartLists = await window.cortex.smartLists.list();
+      set({ smartLists });
+    } catch (err) {
+      console.error('[SmartListSlice] fetchSmartLists failed:', err);
+    }
+  },
+
+  fetchSmartListCounts: async () => {
+    try {
+      const smartListCounts = await window.cortex.smartLists.counts();
+      set({ smartListCounts });
+    } catch (err) {
+      console.error('[SmartListSlice] fetchSmartListCounts failed:', err);
+    }
+  },
+
+  fetchSmartListTasks: (id) => window.cortex.smartLists.tasks(id),
+
+  createSmartList: async (input) => {
+    try {
+      const list = await window.cortex.smartLists.create(input);
+      set((state) => ({ smartLists: [...state.smartLists, list].sort((a, b) => a.name.localeCompare(b.name)) }));
+      get().fetchSmartListCounts();
+      return list;
+    } catch (err) {
+      console.error('[SmartListSlice] createSmartList failed:', err);
+      return null;
+    }
+  },
+
+  updateSmartList: async (id, input) => {
+    try {
+      const list = await window.cortex.smartLists.update(id, input);
+      set((state) => ({
+        smartLists: state.smartLists.map((l) => (l.id === id ? list : l)).sort((a, b) => a.name.localeCompare(b.name)),
+      }));
+      get().fetchSmartListCounts();
+    } catch (err) {
+      console.error('[SmartListSlice] updateSmartList failed:', err);
+    }
+  },
+
+  deleteSmartList: async (id) => {
+    try {
+      await window.cortex.smartLists.delete(id);
+      set((state) => ({ smartLists: state.smartLists.filter((l) => l.id !== id) }));
+    } catch (err) {
+      console.error('[SmartListSlice] deleteSmartList failed:', err);
+    }
+  },
+});
@@ -5,11 +5,14 @@ export interface StakeholderSlice {
   stakeholders: Stakeholder[];
   stakeholdersLoading: boolean;
   stakeholdersError: string | null;
+  /** Last meeting or linked note per stakeholder id */
+  stakeholderLastContacts: Record<string, string>;
 
   fetchStakeholders: () => Promise<void>;
   createStakeholder: (input: CreateStakeholderInput) => Promise<Stakeholder>;
   updateStakeholder: (id: string, input: UpdateStakeholderInput) => Promise<Stakeholder>;
   deleteStakeholder: (id: string) => Promise<void>;
+  fetchStakeholderLastContacts: () => Promise<void>;
 
   selectedStakeholderId: string | null;
   selectStakeholder: (id: string) => void;
@@ -20,6 +23,7 @@ export const createStakeholderSlice: StateCreator<StakeholderSlice> = (set) => (
   stakeholders: [],
   stakeholdersLoading: false,
   stakeholdersError: null,
+  stakeholderLastContacts: {},
 
   selectedStakeholderId: null,
   selectStakeholder: (id) => set({ selectedStakeholderId: id }),
@@ -73,4 +77,13 @@ export const createStakeholderSlice: StateCreator<StakeholderSlice> = (set) => (
       set({ stakeholdersError: err instanceof Error ? err.message : 'Unknown error' });
     }
   },
+
+  fetchStakeholderLastContacts: async () => {
+    try {
+      const contacts = await window.cortex.stakeholders.lastContacts();
+      set({ stakeholderLastContacts: Object.fromEntries(contacts.map((c) => [c.stakeholder_id, c.last_contact_at])) });
+    } catch (err) {
+      console.error('[StakeholderSlice] fetchStakeholderLastContacts failed:', err);
+    }
+  },
 });
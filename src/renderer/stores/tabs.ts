@@ -5,7 +5,7 @@ import type { StoreState } from './index';
 export interface TabState {
   view: SidebarView;
   entityId?: string;
-  entityType?: 'project' | 'note' | 'meeting' | 'stakeholder';
+  entityType?: 'project' | 'note' | 'meeting' | 'stakeholder' | 'smartList';
 }
 
 export interface Tab {
@@ -0,0 +1,119 @@
+import { StateCreator } from 'zustand';
+import type { Tag, EntityTag, CreateTagInput, UpdateTagInput, TaggableEntityType } from '@shared/types';
+
+export interface TagSlice {
+  tags: Tag[];
+  entityTags: EntityTag[];
+  /** Tags the list views are filtered by; an item must carry all of them */
+  activeTagIds: string[];
+
+  fetchTags: () => Promise<void>;
+  fetchEntityTags: () => Promise<void>;
+  createTag: (input: CreateTagInput) => Promise<Tag | null>;
+  updateTag: (id: string, input: UpdateTagInput) => Promise<void>;
+  deleteTag: (id: string) => Promise<void>;
+  tagEntity: (tagId: string, entityType: TaggableEntityType, entityId: string) => Promise<void>;
+  untagEntity: (tagId: string, entityType: TaggableEntityType, entityId: string) => Promise<void>;
+
+  toggleTagFilter: (id: string) => void;
+  clearTagFilter: () => void;
+}
+
+export const createTagSlice: StateCreator<TagSlice> = (set) => ({
+  tags: [],
+  entityTags: [],
+  activeTagIds: [],
+
+  fetchTags: async () => {
+    try {
+      const tags = await window.cortex.tags.list();
+      // A tag deleted on another device drops out of the filter too
+      set((state) => ({
+        tags,
+        activeTagIds: state.activeTagIds.filter((id) => tags.some((t) => t.id === id)),
+      }));
+    } catch (err) {
+      console.error('[TagSlice] fetchTags failed:', err);
+    }
+  },
+
+  fetchEntityTags: async () => {
+    try {
+      const entityTags = await window.cortex.tags.listEntityTags();
+      set({ entityTags });
+    } catch (err) {
+      console.error('[TagSlice] fetchEntityTags failed:', err);
+    }
+  },
+
+  createTag: async (input) => {
+    try {
+      const tag = await window.cortex.tags.create(input);
+      set((state) => ({ tags: [...state.tags.filter((t) => t.id !== tag.id), tag] }));
+      return tag;
+    } catch (err) {
+      console.error('[TagSlice] createTag failed:', err);
+      return null;
+    }
+  },
+
+  // Rethrows so a rename onto an existing name can be reported
+  updateTag: async (id, input) => {
+    try {
+      const tag = await window.cortex.tags.update(id, input);
+      set((state) => ({ tags: state.tags.map((t) => (t.id === id ? tag : t)) }));
+    } catch (err) {
+      console.error('[TagSlice] updateTag failed:', err);
+      throw err;
+    }
+  },
+
+  deleteTag: async (id) => {
+    try {
+      await window.cortex.tags.delete(id);
+      set((state) => ({
+        tags: state.tags.filter((t) => t.id !== id),
+        entityTags: state.entityTags.filter((et) => et.tag_id !== id),
+        activeTagIds: state.activeTagIds.filter((tagId) => tagId !== id),
+      }));
+    } catch (err) {
+      console.error('[TagSlice] deleteTag failed:', err);
+    }
+  },
+
+  tagEntity: async (tagId, entityType, entityId) => {
+    try {
+      const entityTag = await window.cortex.tags.tag({ tag_id: tagId, entity_type: entityType, entity_id: entityId });
+      set((state) => ({
+        entityTags: [...state.entityTags.filter((et) => et.id !== entityTag.id), entityTag],
+      }));
+    } catch (err) {
+      console.error('[TagSlice] tagEntity failed:', err);
+    }
+  },
+
+  untagEntity: async (tagId, entityType, entityId) => {
+    try {
+      await window.cortex.tags.untag({ tag_id: tagId, entity_type: entityType, entity_id: entityId });
+      set((state) => ({
+        entityTags: state.entityTags.filter(
+          (et) => !(et.tag_id === tagId && et.entity_type === entityType && et.entity_id === entityId)
+        ),
+      }));
+    } catch (err) {
+      console.error('[TagSlice] untagEntity failed:', err);
+    }
+  },
+
+  toggleTagFilter: (id) => {
+    set((state) => ({
+      activeTagIds: state.activeTagIds.includes(id)
+        ? state.activeTagIds.filter((tagId) => tagId !== id)
+        : [...state.activeTagIds, id],
+    }));
+  },
+
+  clearTagFilter: () => {
+    set({ activeTagIds: [] });
+  },
+});
@@ -0,0 +1,48 @@
+import { StateCreator } from 'zustand';
+import type { TaskDependency } from '@shared/types';
+
+export interface TaskDependencySlice {
+  taskDependencies: TaskDependency[];
+  fetchTaskDependencies: () => Promise<void>;
+  linkTaskDependency: (taskId: string, blockedById: string) => Promise<void>;
+  unlinkTaskDependency: (taskId: string, blockedById: string) => Promise<void>;
+}
+
+export const createTaskDependencySlice: StateCreator<TaskDependencySlice> = (set) => ({
+  taskDependencies: [],
+
+  fetchTaskDependencies: async () => {
+    try {
+      const taskDependencies = await window.cortex.taskDependencies.list();
+      set({ taskDependencies });
+    } catch (err) {
+      console.error('[TaskDependencySlice] fetchTaskDependencies failed:', err);
+    }
+  },
+
+  // Rethrows so the picker can tell the user why a link was refused (e.g. a cycle)
+  linkTaskDependency: async (taskId, blockedById) => {
+    try {
+      const dependency = await window.cortex.taskDependencies.link({ task_id: taskId, blocked_by_task_id: blockedById });
+      set((state) => ({
+        taskDependencies: [...state.taskDependencies.filter((d) => d.id !== dependency.id), dependency],
+      }));
+    } catch (err) {
+      console.error('[TaskDependencySlice] linkTaskDependency failed:', err);
+      throw err;
+    }
+  },
+
+  unlinkTaskDependency: async (taskId, blockedById) => {
+    try {
+      await window.cortex.taskDependencies.unlink({ task_id: taskId, blocked_by_task_id: blockedById });
+      set((state) => ({
+        taskDependencies: state.taskDependencies.filter(
+          (d) => !(d.task_id === taskId && d.blocked_by_task_id === blockedById)
+        ),
+      }));
+    } catch (err) {
+      console.error('[TaskDependencySlice] unlinkTaskDependency failed:', err);
+    }
+  },
+});
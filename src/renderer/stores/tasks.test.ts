@@ -32,6 +32,7 @@ const mockCortex = {
     list: vi.fn(),
     get: vi.fn(),
     create: vi.fn(),
+    createMany: vi.fn(),
     update: vi.fn(),
     delete: vi.fn(),
     listTrashed: vi.fn(),
@@ -61,6 +62,8 @@ const fakeTask = (overrides = {}) => ({
   deleted_at: null,
   stale_at: null,
   assignee_id: null,
+  recurrence: null,
+  estimate_minutes: null,
   ...overrides,
 });
 
@@ -95,6 +98,29 @@ describe('TaskSlice', () => {
     });
   });
 
+  describe('createTasks', () => {
+    it('appends every created task', async () => {
+      mockCortex.tasks.createMany.mockResolvedValue([fakeTask({ id: 'a' }), fakeTask({ id: 'b' })]);
+
+      const store = createStore({ tasks: [fakeTask()] as TaskSlice['tasks'] });
+      const created = await store.createTasks([{ title: 'A' }, { title: 'B' }]);
+
+      expect(created).toHaveLength(2);
+      expect(store.tasks.map((t) => t.id)).toEqual(['task-1', 'a', 'b']);
+    });
+
+    it('returns nothing and sets tasksError on failure', async () => {
+      const spy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockCortex.tasks.createMany.mockRejectedValue(new Error('batch failed'));
+
+      const store = createStore();
+      expect(await store.createTasks([{ title: 'A' }])).toEqual([]);
+
+      expect(store.tasksError).toBe('batch failed');
+      spy.mockRestore();
+    });
+  });
+
   describe('updateTask', () => {
     it('sets tasksError on failure', async () => {
       const spy = vi.spyOn(console, 'error').mockImplementation(() => {});
@@ -1,5 +1,5 @@
 import { StateCreator } from 'zustand';
-import type { Task, CreateTaskInput, UpdateTaskInput } from '../../shared/types';
+import type { Task, CreateTaskInput, UpdateTaskInput, BulkUpdateTaskInput } from '../../shared/types';
 
 export interface TaskSlice {
   tasks: Task[];
@@ -8,8 +8,14 @@ export interface TaskSlice {
 
   fetchTasks: () => Promise<void>;
   createTask: (input: CreateTaskInput) => Promise<Task>;
+  /** Create several tasks with their checklists in one write; all or nothing */
+  createTasks: (inputs: CreateTaskInput[]) => Promise<Task[]>;
   updateTask: (id: string, input: UpdateTaskInput) => Promise<Task>;
   deleteTask: (id: string) => Promise<void>;
+  /** Apply one change to several tasks, or trash them all with `{ delete: true }` */
+  bulkUpdateTasks: (ids: string[], input: BulkUpdateTaskInput) => Promise<void>;
+  /** Drop a task at its place in `orderedIds`, the list as shown after the move */
+  moveTask: (id: string, orderedIds: string[]) => Promise<void>;
 
   trashedTasks: Task[];
   fetchTrashedTasks: () => Promise<void>;
@@ -17,6 +23,11 @@ export interface TaskSlice {
   emptyTrash: () => Promise<void>;
 }
 
+// Same order as tasks:list
+function byManualOrder(a: Task, b: Task): number {
+  return a.sort_order - b.sort_order || a.created_at.localeCompare(b.created_at);
+}
+
 export const createTaskSlice: StateCreator<TaskSlice> = (set, get) => ({
   tasks: [],
   tasksLoading: false,
@@ -45,6 +56,18 @@ export const createTaskSlice: StateCreator<TaskSlice> = (set, get) => ({
     }
   },
 
+  createTasks: async (inputs) => {
+    try {
+      const created = await window.cortex.tasks.createMany(inputs) as Task[];
+      set((state) => ({ tasks: [...state.tasks, ...created] }));
+      return created;
+    } catch (err) {
+      console.error('[TaskSlice] createTasks failed:', err);
+      set({ tasksError: err instanceof Error ? err.message : 'Unknown error' });
+      return [];
+    }
+  },
+
   updateTask: async (id, input) => {
     try {
       const task = await window.cortex.tasks.update(id, input) as Task;
@@ -75,6 +98,40 @@ export const createTaskSlice: StateCreator<TaskSlice> = (set, get) => ({
     }
   },
 
+  bulkUpdateTasks: async (ids, input) => {
+    try {
+      const updated = await window.cortex.tasks.bulkUpdate(ids, input);
+      if (input.delete) {
+        const now = new Date().toISOString();
+        const removed = new Set(ids);
+        set((state) => ({
+          tasks: state.tasks.filter((t) => !removed.has(t.id)),
+          trashedTasks: [
+            ...state.trashedTasks,
+            ...state.tasks.filter((t) => removed.has(t.id)).map((t) => ({ ...t, deleted_at: now })),
+          ],
+        }));
+      } else {
+        const byId = new Map(updated.map((t) => [t.id, t]));
+        set((state) => ({ tasks: state.tasks.map((t) => byId.get(t.id) ?? t) }));
+      }
+    } catch (err) {
+      console.error('[TaskSlice] bulkUpdateTasks failed:', err);
+      set({ tasksError: err instanceof Error ? err.message : 'Unknown error' });
+    }
+  },
+
+  moveTask: async (id, orderedIds) => {
+    try {
+      const moved = await window.cortex.tasks.move(id, orderedIds);
+      const byId = new Map(moved.map((t) => [t.id, t]));
+      set((state) => ({ tasks: state.tasks.map((t) => byId.get(t.id) ?? t).sort(byManualOrder) }));
+    } catch (err) {
+      console.error('[TaskSlice] moveTask failed:', err);
+      set({ tasksError: err instanceof Error ? err.message : 'Unknown error' });
+    }
+  },
+
   trashedTasks: [],
 
   fetchTrashedTasks: async () => {
@@ -0,0 +1,68 @@
+import { StateCreator } from 'zustand';
+import type { Template, ApplyTemplateInput, AppliedTemplate } from '@shared/types';
+
+export interface TemplateSlice {
+  templates: Template[];
+
+  fetchTemplates: () => Promise<void>;
+  saveProjectAsTemplate: (projectId: string, name: string) => Promise<Template | null>;
+  saveTaskAsTemplate: (taskId: string, name: string) => Promise<Template | null>;
+  /** Create what the template describes; the new rows arrive through the sync refresh */
+  applyTemplate: (id: string, input: ApplyTemplateInput) => Promise<AppliedTemplate | null>;
+  deleteTemplate: (id: string) => Promise<void>;
+}
+
+const byName = (a: Template, b: Template) => a.name.localeCompare(b.name);
+
+export const createTemplateSlice: StateCreator<TemplateSlice> = (set) => ({
+  templates: [],
+
+  fetchTemplates: async () => {
+    try {
+      const templates = await window.cortex.templates.list();
+      set({ templates });
+    } catch (err) {
+      console.error('[TemplateSlice] fetchTemplates failed:', err);
+    }
+  },
+
+  saveProjectAsTemplate: async (projectId, name) => {
+    try {
+      const template = await window.cortex.templates.fromProject(projectId, name);
+      set((state) => ({ templates: [...state.templates, template].sort(byName) }));
+      return template;
+    } catch (err) {
+      console.error('[TemplateSlice] saveProjectAsTemplate failed:', err);
+      return null;
+    }
+  },
+
+  saveTaskAsTemplate: async (taskId, name) => {
+    try {
+      const template = await window.cortex.templates.fromTask(taskId, name);
+      set((state) => ({ templates: [...state.templates, template].sort(byName) }));
+      return template;
+    } catch (err) {
+      console.error('[TemplateSlice] saveTaskAsTemplate failed:', err);
+      return null;
+    }
+  },
+
+  applyTemplate: async (id, input) => {
+    try {
+      return await window.cortex.templates.apply(id, input);
+    } catch (err) {
+      console.error('[TemplateSlice] applyTemplate failed:', err);
+      return null;
+    }
+  },
+
+  deleteTemplate: async (id) => {
+    try {
+      await window.cortex.templates.delete(id);
+      set((state) => ({ templates: state.templates.filter((t) => t.id !== id) }));
+    } catch (err) {
+      console.error('[TemplateSlice] deleteTemplate failed:', err);
+    }
+  },
+});
@@ -0,0 +1,90 @@
+import { StateCreator } from 'zustand';
+import type { RunningTimeEntry, TimeRange, TimeReport, IdleTimeWarning } from '@shared/types';
+
+export interface TimeEntrySlice {
+  /** The timer that is running, on this or another device */
+  runningTimeEntry: RunningTimeEntry | null;
+  /** Time away from a running timer that the user hasn't decided about yet */
+  idleWarning: IdleTimeWarning | null;
+  timeReport: TimeReport | null;
+
+  fetchRunningTimeEntry: () => Promise<void>;
+  /** Time a task, stopping whichever timer was running */
+  startTimer: (taskId: string) => Promise<void>;
+  stopTimer: () => Promise<void>;
+  setIdleWarning: (warning: IdleTimeWarning | null) => void;
+  /** Drop the time away from the entry it was on; with `resume` the task is timed again from now */
+  discardIdleTime: (resume: boolean) => Promise<void>;
+  /** Load the report for `range`, or reload the one shown */
+  fetchTimeReport: (range?: TimeRange) => Promise<void>;
+  /** Returns the path written to, or null if cancelled or failed */
+  exportTimeCsv: (range: TimeRange) => Promise<string | null>;
+}
+
+export const createTimeEntrySlice: StateCreator<TimeEntrySlice> = (set, get) => ({
+  runningTimeEntry: null,
+  idleWarning: null,
+  timeReport: null,
+
+  fetchRunningTimeEntry: async () => {
+    try {
+      const runningTimeEntry = await window.cortex.timeEntries.running();
+      set({ runningTimeEntry });
+    } catch (err) {
+      console.error('[TimeEntrySlice] fetchRunningTimeEntry failed:', err);
+    }
+  },
+
+  startTimer: async (taskId) => {
+    try {
+      await window.cortex.timeEntries.start(taskId);
+      await get().fetchRunningTimeEntry();
+    } catch (err) {
+      console.error('[TimeEntrySlice] startTimer failed:', err);
+    }
+  },
+
+  stopTimer: async () => {
+    try {
+      await window.cortex.timeEntries.stop();
+      set({ runningTimeEntry: null });
+    } catch (err) {
+      console.error('[TimeEntrySlice] stopTimer failed:', err);
+    }
+  },
+
+  setIdleWarning: (idleWarning) => set({ idleWarning }),
+
+  discardIdleTime: async (resume) => {
+    const warning = get().idleWarning;
+    if (!warning) return;
+    set({ idleWarning: null });
+    try {
+      await window.cortex.timeEntries.discardIdle({ entry_id: warning.entry_id, idle_since: warning.idle_since, resume });
+      await get().fetchRunningTimeEntry();
+    } catch (err) {
+      console.error('[TimeEntrySlice] discardIdleTime failed:', err);
+    }
+  },
+
+  fetchTimeReport: async (range) => {
+    const current = get().timeReport;
+    const target = range ?? (current ? { from: current.from, to: current.to } : null);
+    if (!target) return;
+    try {
+      const timeReport = await window.cortex.timeEntries.report(target);
+      set({ timeReport });
+    } catch (err) {
+      console.error('[TimeEntrySlice] fetchTimeReport failed:', err);
+    }
+  },
+
+  exportTimeCsv: async (range) => {
+    try {
+      return await window.cortex.timeEntries.exportCsv(range);
+    } catch (err) {
+      console.error('[TimeEntrySlice] exportTimeCsv failed:', err);
+      return null;
+    }
+  },
+});
@@ -0,0 +1,98 @@
+import { StateCreator } from 'zustand';
+import type { Project, Note, Meeting, Stakeholder } from '../../shared/types';
+
+/** Trashed entities other than tasks, which live in the task slice */
+export interface TrashSlice {
+  trashedProjects: Project[];
+  trashedNotes: Note[];
+  trashedMeetings: Meeting[];
+  trashedStakeholders: Stakeholder[];
+  trashError: string | null;
+
+  fetchTrash: () => Promise<void>;
+  restoreProject: (id: string) => Promise<void>;
+  restoreNote: (id: string) => Promise<void>;
+  restoreMeeting: (id: string) => Promise<void>;
+  restoreStakeholder: (id: string) => Promise<void>;
+  /** Empty the trash for everything but tasks */
+  emptyEntityTrash: () => Promise<void>;
+}
+
+export const createTrashSlice: StateCreator<TrashSlice> = (set) => ({
+  trashedProjects: [],
+  trashedNotes: [],
+  trashedMeetings: [],
+  trashedStakeholders: [],
+  trashError: null,
+
+  fetchTrash: async () => {
+    try {
+      const [trashedProjects, trashedNotes, trashedMeetings, trashedStakeholders] = await Promise.all([
+        window.cortex.projects.listTrashed(),
+        window.cortex.notes.listTrashed() as Promise<Note[]>,
+        window.cortex.meetings.listTrashed(),
+        window.cortex.stakeholders.listTrashed() as Promise<Stakeholder[]>,
+      ]);
+      set({ trashedProjects, trashedNotes, trashedMeetings, trashedStakeholders, trashError: null });
+    } catch (err) {
+      console.error('[TrashSlice] fetchTrash failed:', err);
+      set({ trashError: err instanceof Error ? err.message : 'Unknown error' });
+    }
+  },
+
+  // Restored entities reach their own slices through the table-change refresh
+  restoreProject: async (id) => {
+    try {
+      await window.cortex.projects.restore(id);
+      set((state) => ({ trashedProjects: state.trashedProjects.filter((p) => p.id !== id) }));
+    } catch (err) {
+      console.error('[TrashSlice] restoreProject failed:', err);
+      set({ trashError: err instanceof Error ? err.message : 'Unknown error' });
+    }
+  },
+
+  restoreNote: async (id) => {
+    try {
+      await window.cortex.notes.restore(id);
+      set((state) => ({ trashedNotes: state.trashedNotes.filter((n) => n.id !== id) }));
+    } catch (err) {
+      console.error('[TrashSlice] restoreNote failed:', err);
+      set({ trashError: err instanceof Error ? err.message : 'Unknown error' });
+    }
+  },
+
+  restoreMeeting: async (id) => {
+    try {
+      await window.cortex.meetings.restore(id);
+      set((state) => ({ trashedMeetings: state.trashedMeetings.filter((m) => m.id !== id) }));
+    } catch (err) {
+      console.error('[TrashSlice] restoreMeeting failed:', err);
+      set({ trashError: err instanceof Error ? err.message : 'Unknown error' });
+    }
+  },
+
+  restoreStakeholder: async (id) => {
+    try {
+      await window.cortex.stakeholders.restore(id);
+      set((state) => ({ trashedStakeholders: state.trashedStakeholders.filter((s) => s.id !== id) }));
+    } catch (err) {
+      console.error('[TrashSlice] restoreStakeholder failed:', err);
+      set({ trashError: err instanceof Error ? err.message : 'Unknown error' });
+    }
+  },
+
+  emptyEntityTrash: async () => {
+    try {
+      await Promise.all([
+        window.cortex.projects.emptyTrash(),
+        window.cortex.notes.emptyTrash(),
+        window.cortex.meetings.emptyTrash(),
+        window.cortex.stakeholders.emptyTrash(),
+      ]);
+      set({ trashedProjects: [], trashedNotes: [], trashedMeetings: [], trashedStakeholders: [] });
+    } catch (err) {
+      console.error('[TrashSlice] emptyEntityTrash failed:', err);
+      set({ trashError: err instanceof Error ? err.message : 'Unknown error' });
+    }
+  },
+});
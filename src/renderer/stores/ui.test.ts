@@ -65,4 +65,44 @@ describe('UISlice', () => {
       expect(store.commandPaletteOpen).toBe(false);
     });
   });
+
+  describe('multi-selection', () => {
+    const ids = ['a', 'b', 'c', 'd'];
+
+    it('toggleTaskSelection adds to the open task and removes on a second click', () => {
+      const store = createStore({ selectedTaskId: 'a' });
+      store.toggleTaskSelection('c');
+      expect(store.selectedTaskIds).toEqual(['a', 'c']);
+      expect(store.selectedTaskId).toBeNull();
+
+      store.toggleTaskSelection('a');
+      expect(store.selectedTaskIds).toEqual(['c']);
+    });
+
+    it('selectTaskRange selects from the anchor in list order', () => {
+      const store = createStore();
+      store.selectTask('b');
+      store.selectTaskRange(ids, 'd');
+      expect(store.selectedTaskIds).toEqual(['b', 'c', 'd']);
+
+      store.selectTaskRange(ids, 'a');
+      expect(store.selectedTaskIds).toEqual(['a', 'b']);
+      expect(store.selectionFocusId).toBe('a');
+    });
+
+    it('selectTask starts over with a single open task', () => {
+      const store = createStore({ selectedTaskIds: ['a', 'b'] });
+      store.selectTask('c');
+      expect(store.selectedTaskIds).toEqual([]);
+      expect(store.selectedTaskId).toBe('c');
+    });
+
+    it('clearTaskSelection empties the selection', () => {
+      const store = createStore();
+      store.setTaskSelection(ids);
+      store.clearTaskSelection();
+      expect(store.selectedTaskIds).toEqual([]);
+      expect(store.selectionAnchorId).toBeNull();
+    });
+  });
 });
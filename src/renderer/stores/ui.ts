@@ -1,5 +1,5 @@
 import { StateCreator } from 'zustand';
-import type { TaskStatus } from '@shared/types';
+import type { TaskStatus, TemplateKind } from '@shared/types';
 
 export interface InlineCreateDefaults {
   when_date?: string;
@@ -7,6 +7,19 @@ export interface InlineCreateDefaults {
   project_id?: string;
 }
 
+/** What the "New from template" picker was opened for */
+export interface TemplatePickerRequest {
+  /** Templates of this kind are listed first */
+  kind: TemplateKind;
+  /** Where a task template's task lands when the template has no date of its own */
+  defaults?: InlineCreateDefaults;
+}
+
+export interface Toast {
+  id: number;
+  message: string;
+}
+
 export interface UISlice {
   activeContextId: string | null;
   setActiveContext: (id: string | null) => void;
@@ -27,6 +40,22 @@ export interface UISlice {
   selectTask: (id: string) => void;
   deselectTask: () => void;
 
+  /** Tasks picked for bulk actions with shift/cmd-click or the keyboard */
+  selectedTaskIds: string[];
+  /** Where a range selection starts */
+  selectionAnchorId: string | null;
+  /** Where a range selection currently ends; arrow keys move it */
+  selectionFocusId: string | null;
+  toggleTaskSelection: (id: string) => void;
+  /** Select everything between the anchor and `id` in `orderedIds` */
+  selectTaskRange: (orderedIds: string[], id: string) => void;
+  setTaskSelection: (ids: string[]) => void;
+  clearTaskSelection: () => void;
+
+  /** Task being dragged, so drop targets outside its list can show themselves */
+  draggingTaskId: string | null;
+  setDraggingTask: (id: string | null) => void;
+
   selectedProjectId: string | null;
   selectProject: (id: string) => void;
   deselectProject: () => void;
@@ -56,6 +85,14 @@ export interface UISlice {
   openCommandPalette: () => void;
   closeCommandPalette: () => void;
   toggleCommandPalette: () => void;
+
+  templatePicker: TemplatePickerRequest | null;
+  openTemplatePicker: (request: TemplatePickerRequest) => void;
+  closeTemplatePicker: () => void;
+
+  toast: Toast | null;
+  showToast: (message: string) => void;
+  dismissToast: () => void;
 }
 
 export const createUISlice: StateCreator<UISlice> = (set, get) => ({
@@ -75,9 +112,48 @@ export const createUISlice: StateCreator<UISlice> = (set, get) => ({
   closeModal: () => set({ activeModal: null, modalData: null }),
 
   selectedTaskId: null,
-  selectTask: (id) => set({ selectedTaskId: id }),
+  selectTask: (id) => set({ selectedTaskId: id, selectedTaskIds: [], selectionAnchorId: id, selectionFocusId: id }),
   deselectTask: () => set({ selectedTaskId: null }),
 
+  selectedTaskIds: [],
+  selectionAnchorId: null,
+  selectionFocusId: null,
+  toggleTaskSelection: (id) => {
+    const { selectedTaskIds, selectedTaskId } = get();
+    // Cmd-clicking next to an open task adds to it rather than starting over
+    const current = selectedTaskIds.length === 0 && selectedTaskId ? [selectedTaskId] : selectedTaskIds;
+    set({
+      selectedTaskIds: current.includes(id) ? current.filter((t) => t !== id) : [...current, id],
+      selectedTaskId: null,
+      selectionAnchorId: id,
+      selectionFocusId: id,
+    });
+  },
+  selectTaskRange: (orderedIds, id) => {
+    const { selectionAnchorId, selectedTaskId } = get();
+    const anchor = selectionAnchorId ?? selectedTaskId ?? id;
+    const from = orderedIds.indexOf(anchor);
+    const to = orderedIds.indexOf(id);
+    set({
+      selectedTaskIds: from === -1 || to === -1
+        ? [id]
+        : orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1),
+      selectedTaskId: null,
+      selectionAnchorId: from === -1 ? id : anchor,
+      selectionFocusId: id,
+    });
+  },
+  setTaskSelection: (ids) => set({
+    selectedTaskIds: ids,
+    selectedTaskId: null,
+    selectionAnchorId: ids[0] ?? null,
+    selectionFocusId: ids[ids.length - 1] ?? null,
+  }),
+  clearTaskSelection: () => set({ selectedTaskIds: [], selectionAnchorId: null, selectionFocusId: null }),
+
+  draggingTaskId: null,
+  setDraggingTask: (id) => set({ draggingTaskId: id }),
+
   selectedProjectId: null,
   selectProject: (id) => set({ selectedProjectId: id }),
   deselectProject: () => set({ selectedProjectId: null }),
@@ -122,4 +198,12 @@ export const createUISlice: StateCreator<UISlice> = (set, get) => ({
   openCommandPalette: () => set({ commandPaletteOpen: true }),
   closeCommandPalette: () => set({ commandPaletteOpen: false }),
   toggleCommandPalette: () => set((s) => ({ commandPaletteOpen: !s.commandPaletteOpen })),
+
+  templatePicker: null,
+  openTemplatePicker: (request) => set({ templatePicker: request }),
+  closeTemplatePicker: () => set({ templatePicker: null }),
+
+  toast: null,
+  showToast: (message) => set((s) => ({ toast: { id: (s.toast?.id ?? 0) + 1, message } })),
+  dismissToast: () => set({ toast: null }),
 });
@@ -0,0 +1,30 @@
+import { StateCreator } from 'zustand';
+import type { UISlice } from './ui';
+
+/** Undo and redo run in the main process; the affected slices refresh through table updates */
+export interface UndoSlice {
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+export const createUndoSlice: StateCreator<UndoSlice & UISlice, [], [], UndoSlice> = (_set, get) => ({
+  undo: async () => {
+    try {
+      const label = await window.cortex.undo.undo();
+      get().showToast(label ? `Undo: ${label}` : 'Nothing to undo');
+    } catch (err) {
+      console.error('[UndoSlice] undo failed:', err);
+      get().showToast('Could not undo the last change');
+    }
+  },
+
+  redo: async () => {
+    try {
+      const label = await window.cortex.undo.redo();
+      get().showToast(label ? `Redo: ${label}` : 'Nothing to redo');
+    } catch (err) {
+      console.error('[UndoSlice] redo failed:', err);
+      get().showToast('Could not redo the change');
+    }
+  },
+});
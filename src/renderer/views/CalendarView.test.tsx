@@ -0,0 +1,177 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, createEvent, within } from '@testing-library/react';
+import '@testing-library/jest-dom/vitest';
+import { CalendarView } from './CalendarView';
+
+let mockTasks: Record<string, unknown>[] = [];
+let mockMeetings: Record<string, unknown>[] = [];
+let mockActiveContextIds: string[] = [];
+const mockUpdateTask = vi.fn();
+const mockUpdateMeeting = vi.fn();
+const mockNavigateTab = vi.fn();
+const mockSetDraggingTask = vi.fn();
+const mockFetchTasks = vi.fn();
+const mockFetchMeetings = vi.fn();
+const mockContexts = [{ id: 'work', name: 'Work', color: '#22c55e' }, { id: 'home', name: 'Home', color: '#ec4899' }];
+const emptyList: unknown[] = [];
+
+vi.mock('../stores', () => ({
+  useStore: (selector: (state: Record<string, unknown>) => unknown) => selector({
+    tasks: mockTasks,
+    meetings: mockMeetings,
+    projects: emptyList,
+    contexts: mockContexts,
+    activeContextIds: mockActiveContextIds,
+    activeTagIds: emptyList,
+    entityTags: emptyList,
+    fetchTasks: mockFetchTasks,
+    fetchMeetings: mockFetchMeetings,
+    updateTask: mockUpdateTask,
+    updateMeeting: mockUpdateMeeting,
+    setDraggingTask: mockSetDraggingTask,
+    navigateTab: mockNavigateTab,
+  }),
+}));
+
+const fakeTask = (overrides: Record<string, unknown> = {}) => ({
+  id: 'task-1',
+  title: 'Write report',
+  status: 'upcoming',
+  when_date: '2099-01-16',
+  deadline: null,
+  project_id: null,
+  context_id: null,
+  deleted_at: null,
+  ...overrides,
+});
+
+const fakeMeeting = (overrides: Record<string, unknown> = {}) => ({
+  id: 'meeting-1',
+  title: 'Planning',
+  start_time: '2099-01-15T09:00:00',
+  end_time: '2099-01-15T10:00:00',
+  is_all_day: false,
+  status: 'scheduled',
+  context_id: null,
+  deleted_at: null,
+  ...overrides,
+});
+
+function makeDataTransfer() {
+  const data: Record<string, string> = {};
+  return {
+    setData: (type: string, value: string) => { data[type] = value; },
+    getData: (type: string) => data[type] ?? '',
+    get types() { return Object.keys(data); },
+    effectAllowed: 'none',
+  };
+}
+
+/** jsdom has no DragEvent, so pointer coordinates are set on the event by hand */
+function dragAt(kind: 'dragStart' | 'drop', element: HTMLElement, dataTransfer: object, clientY: number) {
+  const event = createEvent[kind](element, { dataTransfer });
+  Object.defineProperty(event, 'clientY', { value: clientY });
+  fireEvent(element, event);
+}
+
+describe('CalendarView', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // Thursday, January 15 2099
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2099, 0, 15, 12));
+    mockTasks = [];
+    mockMeetings = [];
+    mockActiveContextIds = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('shows the week with meetings on the grid, tasks by day and deadlines', () => {
+    mockTasks = [
+      fakeTask(),
+      fakeTask({ id: 'task-2', title: 'File taxes', when_date: null, status: 'anytime', deadline: '2099-01-17' }),
+    ];
+    mockMeetings = [fakeMeeting(), fakeMeeting({ id: 'meeting-2', title: 'Offsite', is_all_day: true, start_time: '2099-01-13T00:00:00', end_time: null })];
+    render(<CalendarView onNavigateToTask={vi.fn()} />);
+
+    expect(screen.getByText('January 12 – 18, 2099')).toBeInTheDocument();
+    expect(within(screen.getByTestId('calendar-grid-2099-01-15')).getByText('Planning')).toBeInTheDocument();
+    expect(within(screen.getByTestId('calendar-all-day-2099-01-13')).getByText('Offsite')).toBeInTheDocument();
+    expect(within(screen.getByTestId('calendar-all-day-2099-01-16')).getByText('Write report')).toBeInTheDocument();
+    expect(within(screen.getByTestId('calendar-all-day-2099-01-17')).getByTestId('calendar-deadline')).toHaveTextContent('File taxes');
+  });
+
+  it('leaves out meetings and tasks outside the active contexts', () => {
+    mockActiveContextIds = ['work'];
+    mockTasks = [fakeTask({ context_id: 'home' })];
+    mockMeetings = [fakeMeeting({ context_id: 'work' }), fakeMeeting({ id: 'meeting-2', title: 'Dentist', context_id: 'home' })];
+    render(<CalendarView onNavigateToTask={vi.fn()} />);
+
+    expect(screen.getByText('Planning')).toBeInTheDocument();
+    expect(screen.queryByText('Dentist')).not.toBeInTheDocument();
+    expect(screen.queryByText('Write report')).not.toBeInTheDocument();
+  });
+
+  it('moves a task to the day it is dropped on', () => {
+    mockTasks = [fakeTask()];
+    render(<CalendarView onNavigateToTask={vi.fn()} />);
+
+    const dataTransfer = makeDataTransfer();
+    fireEvent.dragStart(screen.getByTestId('calendar-task'), { dataTransfer });
+    expect(mockSetDraggingTask).toHaveBeenCalledWith('task-1');
+    const monday = screen.getByTestId('calendar-all-day-2099-01-12');
+    fireEvent.dragOver(monday, { dataTransfer });
+    fireEvent.drop(monday, { dataTransfer });
+
+    expect(mockUpdateTask).toHaveBeenCalledWith('task-1', { when_date: '2099-01-12' });
+  });
+
+  it('reschedules a meeting to the time it is dropped at, keeping its length', () => {
+    mockMeetings = [fakeMeeting()];
+    render(<CalendarView onNavigateToTask={vi.fn()} />);
+
+    const dataTransfer = makeDataTransfer();
+    dragAt('dragStart', screen.getByTestId('calendar-meeting'), dataTransfer, 0);
+    const friday = screen.getByTestId('calendar-grid-2099-01-16');
+    fireEvent.dragOver(friday, { dataTransfer });
+    // 14:30 on a 48px-per-hour grid
+    dragAt('drop', friday, dataTransfer, 14.5 * 48);
+
+    expect(mockUpdateMeeting).toHaveBeenCalledWith('meeting-1', {
+      start_time: '2099-01-16T14:30:00',
+      end_time: '2099-01-16T15:30:00',
+    });
+  });
+
+  it('moves a meeting to another day in the month, keeping its time', () => {
+    mockMeetings = [fakeMeeting()];
+    render(<CalendarView onNavigateToTask={vi.fn()} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Month' }));
+    expect(screen.getByText('January 2099')).toBeInTheDocument();
+
+    const dataTransfer = makeDataTransfer();
+    fireEvent.dragStart(screen.getByTestId('calendar-meeting'), { dataTransfer });
+    const target = screen.getByTestId('calendar-day-2099-01-28');
+    fireEvent.dragOver(target, { dataTransfer });
+    fireEvent.drop(target, { dataTransfer });
+
+    expect(mockUpdateMeeting).toHaveBeenCalledWith('meeting-1', {
+      start_time: '2099-01-28T09:00:00',
+      end_time: '2099-01-28T10:00:00',
+    });
+  });
+
+  it('opens a crowded day from the month', () => {
+    mockTasks = Array.from({ length: 5 }, (_, i) => fakeTask({ id: `task-${i}`, title: `Task ${i}` }));
+    render(<CalendarView onNavigateToTask={vi.fn()} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Month' }));
+
+    fireEvent.click(within(screen.getByTestId('calendar-day-2099-01-16')).getByText('+2 more'));
+    expect(screen.getByText('Friday, January 16, 2099')).toBeInTheDocument();
+    expect(screen.getAllByTestId('calendar-task')).toHaveLength(5);
+  });
+});
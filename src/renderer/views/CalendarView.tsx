@@ -0,0 +1,476 @@
+import { useEffect, useMemo, useRef, useState, type DragEvent, type ReactNode, type RefObject } from 'react';
+import { format, isSameMonth, isToday, parseISO } from 'date-fns';
+import { ChevronLeft, ChevronRight, Flag } from 'lucide-react';
+import type { Meeting, Task } from '@shared/types';
+import { useStore } from '../stores';
+import { Button } from '../components/ui/button';
+import { TASK_DRAG_TYPE } from '../hooks/useDragReorder';
+import { filterTasksByContext, getEffectiveContextId } from '../lib/contextFilter';
+import { filterByTags } from '../lib/tagFilter';
+import {
+  calendarDays, calendarTitle, dayKey, layoutDayMeetings, meetingStartsOn, rescheduleMeeting, shiftAnchor,
+  SNAP_MINUTES, type CalendarMode, type PlacedMeeting,
+} from '../lib/calendar';
+import { cn } from '../lib/utils';
+
+/** dataTransfer type for a meeting dragged within the calendar */
+const MEETING_DRAG_TYPE = 'application/x-cortex-meeting';
+
+const HOUR_HEIGHT = 48;
+/** The time grid opens scrolled to this hour */
+const FIRST_VISIBLE_HOUR = 8;
+/** Month cells list this many items before "+N more" */
+const MONTH_CELL_ITEMS = 3;
+
+const MODES: { value: CalendarMode; label: string }[] = [
+  { value: 'day', label: 'Day' },
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+];
+
+function isOpen(task: Task): boolean {
+  return task.status !== 'logbook' && task.status !== 'cancelled';
+}
+
+function hasCalendarDrag(e: DragEvent): boolean {
+  const types = Array.from(e.dataTransfer?.types ?? []);
+  return types.includes(TASK_DRAG_TYPE) || types.includes(MEETING_DRAG_TYPE);
+}
+
+interface DayItems {
+  tasks: Task[];
+  deadlines: Task[];
+  allDayMeetings: Meeting[];
+  meetings: Meeting[];
+}
+
+interface DropProps {
+  onDragOver: (e: DragEvent) => void;
+  onDragLeave: () => void;
+  onDrop: (e: DragEvent) => void;
+}
+
+interface MeetingDragProps {
+  draggable: boolean;
+  onDragStart: (e: DragEvent) => void;
+  onDragEnd: () => void;
+}
+
+interface CalendarViewProps {
+  onNavigateToTask: (task: Task) => void;
+}
+
+/** Meetings on a time grid with scheduled tasks and deadlines, by day, week or month */
+export function CalendarView({ onNavigateToTask }: CalendarViewProps) {
+  const tasks = useStore((s) => s.tasks);
+  const meetings = useStore((s) => s.meetings);
+  const projects = useStore((s) => s.projects);
+  const contexts = useStore((s) => s.contexts);
+  const activeContextIds = useStore((s) => s.activeContextIds);
+  const activeTagIds = useStore((s) => s.activeTagIds);
+  const entityTags = useStore((s) => s.entityTags);
+  const fetchTasks = useStore((s) => s.fetchTasks);
+  const fetchMeetings = useStore((s) => s.fetchMeetings);
+  const updateTask = useStore((s) => s.updateTask);
+  const updateMeeting = useStore((s) => s.updateMeeting);
+  const setDraggingTask = useStore((s) => s.setDraggingTask);
+  const navigateTab = useStore((s) => s.navigateTab);
+
+  const [mode, setMode] = useState<CalendarMode>('week');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [overKey, setOverKey] = useState<string | null>(null);
+  // Where in a meeting block the drag started, so the block lands under the pointer
+  const grabOffset = useRef(0);
+
+  useEffect(() => {
+    fetchTasks();
+    fetchMeetings();
+  }, [fetchTasks, fetchMeetings]);
+
+  const days = useMemo(() => calendarDays(mode, anchor), [mode, anchor]);
+
+  const itemsByDay = useMemo(() => {
+    const scopedTasks = filterByTags(
+      filterTasksByContext(tasks.filter((t) => !t.deleted_at && t.status !== 'cancelled'), activeContextIds, projects),
+      'task', activeTagIds, entityTags,
+    );
+    const scopedMeetings = filterByTags(
+      meetings.filter((m) => !m.deleted_at && m.status !== 'cancelled'
+        && (activeContextIds.length === 0 || (m.context_id !== null && activeContextIds.includes(m.context_id)))),
+      'meeting', activeTagIds, entityTags,
+    );
+    const byDay = new Map<string, DayItems>();
+    for (const day of days) {
+      const key = dayKey(day);
+      const dayMeetings = scopedMeetings
+        .filter((m) => meetingStartsOn(m, day))
+        .sort((a, b) => parseISO(a.start_time).getTime() - parseISO(b.start_time).getTime());
+      byDay.set(key, {
+        tasks: scopedTasks.filter((t) => t.when_date === key),
+        deadlines: scopedTasks.filter((t) => t.deadline === key && isOpen(t)),
+        allDayMeetings: dayMeetings.filter((m) => m.is_all_day),
+        meetings: dayMeetings,
+      });
+    }
+    return byDay;
+  }, [days, tasks, meetings, projects, activeContextIds, activeTagIds, entityTags]);
+
+  const contextColor = (contextId: string | null) =>
+    contexts.find((c) => c.id === contextId)?.color ?? undefined;
+
+  const openMeeting = (meeting: Meeting) =>
+    navigateTab({ view: 'meetings', entityId: meeting.id, entityType: 'meeting' });
+
+  const openDay = (day: Date) => {
+    setAnchor(day);
+    setMode('day');
+  };
+
+  const drop = (e: DragEvent, day: Date, startMinutes: number | null) => {
+    setOverKey(null);
+    const taskId = e.dataTransfer.getData(TASK_DRAG_TYPE);
+    const meetingId = e.dataTransfer.getData(MEETING_DRAG_TYPE);
+    if (taskId) {
+      const task = tasks.find((t) => t.id === taskId);
+      if (task && task.when_date !== dayKey(day)) updateTask(taskId, { when_date: dayKey(day) });
+    } else if (meetingId) {
+      const meeting = meetings.find((m) => m.id === meetingId);
+      if (meeting) updateMeeting(meetingId, rescheduleMeeting(meeting, day, startMinutes));
+    }
+  };
+
+  /** Drop handlers for a day; `minutesAt` reads the start time from the pointer on the time grid */
+  const dropProps = (key: string, day: Date, minutesAt?: (e: DragEvent) => number): DropProps => ({
+    onDragOver: (e: DragEvent) => {
+      if (!hasCalendarDrag(e)) return;
+      e.preventDefault();
+      if (overKey !== key) setOverKey(key);
+    },
+    onDragLeave: () => setOverKey((k) => (k === key ? null : k)),
+    onDrop: (e: DragEvent) => {
+      if (!hasCalendarDrag(e)) return;
+      e.preventDefault();
+      const isMeeting = Array.from(e.dataTransfer.types).includes(MEETING_DRAG_TYPE);
+      drop(e, day, minutesAt && isMeeting ? minutesAt(e) : null);
+    },
+  });
+
+  const taskDragProps = (task: Task) => ({
+    draggable: isOpen(task),
+    onDragStart: (e: DragEvent) => {
+      e.dataTransfer.setData(TASK_DRAG_TYPE, task.id);
+      e.dataTransfer.effectAllowed = 'move';
+      setDraggingTask(task.id);
+    },
+    onDragEnd: () => {
+      setDraggingTask(null);
+      setOverKey(null);
+    },
+  });
+
+  const meetingDragProps = (meeting: Meeting): MeetingDragProps => ({
+    draggable: true,
+    onDragStart: (e: DragEvent) => {
+      e.stopPropagation();
+      e.dataTransfer.setData(MEETING_DRAG_TYPE, meeting.id);
+      e.dataTransfer.effectAllowed = 'move';
+      grabOffset.current = e.clientY - (e.currentTarget as HTMLElement).getBoundingClientRect().top;
+    },
+    onDragEnd: () => setOverKey(null),
+  });
+
+  const chips = {
+    task: (task: Task) => (
+      <button
+        key={task.id}
+        type="button"
+        data-testid="calendar-task"
+        onClick={() => onNavigateToTask(task)}
+        {...taskDragProps(task)}
+        className={cn(
+          'flex items-center gap-1.5 w-full px-1.5 py-0.5 rounded text-xs text-left truncate bg-accent/60 hover:bg-accent cursor-default',
+          !isOpen(task) && 'line-through text-muted-foreground',
+        )}
+      >
+        <span
+          className="size-1.5 rounded-full shrink-0 bg-muted-foreground"
+          style={{ backgroundColor: contextColor(getEffectiveContextId(task, projects)) }}
+        />
+        <span className="truncate">{task.title}</span>
+      </button>
+    ),
+    deadline: (task: Task) => (
+      <button
+        key={`deadline-${task.id}`}
+        type="button"
+        data-testid="calendar-deadline"
+        onClick={() => onNavigateToTask(task)}
+        className="flex items-center gap-1 w-full px-1.5 py-0.5 text-xs text-left text-red-400 truncate cursor-default"
+        title={`Due: ${task.title}`}
+      >
+        <Flag className="size-3 shrink-0" />
+        <span className="truncate">{task.title}</span>
+      </button>
+    ),
+    meeting: (meeting: Meeting) => (
+      <button
+        key={meeting.id}
+        type="button"
+        data-testid="calendar-meeting"
+        onClick={() => openMeeting(meeting)}
+        {...meetingDragProps(meeting)}
+        className="flex items-center gap-1.5 w-full px-1.5 py-0.5 rounded text-xs text-left truncate bg-primary/15 text-primary hover:bg-primary/25 cursor-default"
+      >
+        {!meeting.is_all_day && (
+          <span className="tabular-nums opacity-80">{format(parseISO(meeting.start_time), 'HH:mm')}</span>
+        )}
+        <span className="truncate">{meeting.title}</span>
+      </button>
+    ),
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="flex items-center gap-3 px-8 pt-8 pb-4">
+        <h2 className="text-xl font-semibold text-foreground">{calendarTitle(mode, anchor)}</h2>
+        <div className="flex items-center gap-0.5">
+          <Button size="sm" variant="ghost" aria-label="Previous" onClick={() => setAnchor((a) => shiftAnchor(mode, a, -1))}>
+            <ChevronLeft className="size-3.5" />
+          </Button>
+          <Button size="sm" variant="ghost" aria-label="Next" onClick={() => setAnchor((a) => shiftAnchor(mode, a, 1))}>
+            <ChevronRight className="size-3.5" />
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setAnchor(new Date())}>Today</Button>
+        </div>
+        <div className="flex-1" />
+        <div className="flex gap-1">
+          {MODES.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => setMode(value)}
+              aria-pressed={mode === value}
+              className={`px-2.5 py-1 text-xs rounded-md transition-colors ${
+                mode === value
+                  ? 'bg-primary text-primary-foreground'
+                  : 'bg-muted text-muted-foreground hover:text-foreground'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {mode === 'month' ? (
+        <div className="flex-1 overflow-y-auto px-8 pb-8">
+          <div className="grid grid-cols-7 text-xs text-muted-foreground mb-1">
+            {days.slice(0, 7).map((day) => (
+              <span key={dayKey(day)} className="px-2">{format(day, 'EEE')}</span>
+            ))}
+          </div>
+          <div className="grid grid-cols-7 auto-rows-fr border-l border-t border-border">
+            {days.map((day) => {
+              const key = dayKey(day);
+              const items = itemsByDay.get(key)!;
+              const entries = [
+                ...items.deadlines.map(chips.deadline),
+                ...items.meetings.map(chips.meeting),
+                ...items.tasks.map(chips.task),
+              ];
+              return (
+                <div
+                  key={key}
+                  data-testid={`calendar-day-${key}`}
+                  {...dropProps(key, day)}
+                  className={cn(
+                    'min-h-28 p-1 flex flex-col gap-0.5 border-r border-b border-border min-w-0',
+                    !isSameMonth(day, anchor) && 'bg-muted/30',
+                    overKey === key && 'bg-primary/10',
+                  )}
+                >
+                  <button
+                    type="button"
+                    onClick={() => openDay(day)}
+                    className={cn(
+                      'self-start px-1.5 rounded text-xs tabular-nums cursor-default hover:bg-accent',
+                      isToday(day) ? 'bg-primary text-primary-foreground' : 'text-muted-foreground',
+                    )}
+                  >
+                    {format(day, 'd')}
+                  </button>
+                  {entries.slice(0, MONTH_CELL_ITEMS)}
+                  {entries.length > MONTH_CELL_ITEMS && (
+                    <button
+                      type="button"
+                      onClick={() => openDay(day)}
+                      className="px-1.5 text-left text-[11px] text-muted-foreground hover:text-foreground cursor-default"
+                    >
+                      +{entries.length - MONTH_CELL_ITEMS} more
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ) : (
+        <TimeGrid
+          days={days}
+          onOpenDay={mode === 'week' ? openDay : undefined}
+          renderAllDay={(day) => {
+            const items = itemsByDay.get(dayKey(day))!;
+            return [
+              ...items.deadlines.map(chips.deadline),
+              ...items.allDayMeetings.map(chips.meeting),
+              ...items.tasks.map(chips.task),
+            ];
+          }}
+          placedMeetings={(day) => layoutDayMeetings(itemsByDay.get(dayKey(day))!.meetings, day)}
+          dropProps={dropProps}
+          overKey={overKey}
+          grabOffset={grabOffset}
+          contextColor={contextColor}
+          meetingDragProps={meetingDragProps}
+          onOpenMeeting={openMeeting}
+        />
+      )}
+    </div>
+  );
+}
+
+interface TimeGridProps {
+  days: Date[];
+  onOpenDay?: (day: Date) => void;
+  renderAllDay: (day: Date) => ReactNode[];
+  placedMeetings: (day: Date) => PlacedMeeting[];
+  dropProps: (key: string, day: Date, minutesAt?: (e: DragEvent) => number) => DropProps;
+  overKey: string | null;
+  grabOffset: RefObject<number>;
+  contextColor: (contextId: string | null) => string | undefined;
+  meetingDragProps: (meeting: Meeting) => MeetingDragProps;
+  onOpenMeeting: (meeting: Meeting) => void;
+}
+
+function TimeGrid({
+  days, onOpenDay, renderAllDay, placedMeetings, dropProps, overKey, grabOffset, contextColor, meetingDragProps, onOpenMeeting,
+}: TimeGridProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = FIRST_VISIBLE_HOUR * HOUR_HEIGHT;
+  }, []);
+
+  const minutesAt = (e: DragEvent) => {
+    const top = (e.currentTarget as HTMLElement).getBoundingClientRect().top;
+    const minutes = ((e.clientY - top - grabOffset.current) / HOUR_HEIGHT) * 60;
+    const snapped = Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES;
+    return Math.min(24 * 60 - SNAP_MINUTES, Math.max(0, snapped));
+  };
+
+  const now = new Date();
+  const nowMinutes = now.getHours() * 60 + now.getMinutes();
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0 px-8 pb-8">
+      <div className="flex border-b border-border">
+        <div className="w-12 shrink-0" />
+        {days.map((day) => (
+          <div key={dayKey(day)} className="flex-1 min-w-0 px-1 py-1 text-xs text-center">
+            <button
+              type="button"
+              disabled={!onOpenDay}
+              onClick={() => onOpenDay?.(day)}
+              className={cn(
+                'px-1.5 rounded cursor-default enabled:hover:bg-accent',
+                isToday(day) ? 'text-primary font-semibold' : 'text-muted-foreground',
+              )}
+            >
+              {format(day, 'EEE d')}
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex border-b border-border">
+        <div className="w-12 shrink-0 py-1 text-[10px] text-muted-foreground">all-day</div>
+        {days.map((day) => {
+          const key = `${dayKey(day)}-all-day`;
+          return (
+            <div
+              key={key}
+              data-testid={`calendar-all-day-${dayKey(day)}`}
+              {...dropProps(key, day)}
+              className={cn(
+                'flex-1 min-w-0 min-h-8 max-h-32 overflow-y-auto p-0.5 flex flex-col gap-0.5 border-l border-border',
+                overKey === key && 'bg-primary/10',
+              )}
+            >
+              {renderAllDay(day)}
+            </div>
+          );
+        })}
+      </div>
+
+      <div ref={scrollRef} className="flex-1 overflow-y-auto">
+        <div className="flex relative" style={{ height: 24 * HOUR_HEIGHT }}>
+          <div className="w-12 shrink-0 relative">
+            {Array.from({ length: 23 }, (_, i) => i + 1).map((hour) => (
+              <span
+                key={hour}
+                className="absolute right-2 -translate-y-1/2 text-[10px] text-muted-foreground tabular-nums"
+                style={{ top: hour * HOUR_HEIGHT }}
+              >
+                {String(hour).padStart(2, '0')}:00
+              </span>
+            ))}
+          </div>
+          {days.map((day) => {
+            const key = `${dayKey(day)}-grid`;
+            return (
+              <div
+                key={key}
+                data-testid={`calendar-grid-${dayKey(day)}`}
+                {...dropProps(key, day, minutesAt)}
+                className={cn('flex-1 min-w-0 relative border-l border-border', overKey === key && 'bg-primary/5')}
+              >
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <div key={hour} className="border-b border-border/50" style={{ height: HOUR_HEIGHT }} />
+                ))}
+                {placedMeetings(day).map(({ meeting, start, end, lane, lanes }) => (
+                  <button
+                    key={meeting.id}
+                    type="button"
+                    data-testid="calendar-meeting"
+                    onClick={() => onOpenMeeting(meeting)}
+                    {...meetingDragProps(meeting)}
+                    className="absolute px-1.5 py-0.5 rounded-md text-left text-xs overflow-hidden bg-primary/15 text-primary hover:bg-primary/25 border-l-2 border-primary cursor-default"
+                    style={{
+                      top: (start / 60) * HOUR_HEIGHT,
+                      height: Math.max(((end - start) / 60) * HOUR_HEIGHT - 1, 16),
+                      left: `calc(${(lane / lanes) * 100}% + 1px)`,
+                      width: `calc(${100 / lanes}% - 2px)`,
+                      borderLeftColor: contextColor(meeting.context_id),
+                    }}
+                  >
+                    <span className="block truncate font-medium">{meeting.title}</span>
+                    <span className="block truncate tabular-nums opacity-80">
+                      {format(parseISO(meeting.start_time), 'HH:mm')}
+                      {meeting.end_time && ` – ${format(parseISO(meeting.end_time), 'HH:mm')}`}
+                    </span>
+                  </button>
+                ))}
+                {isToday(day) && (
+                  <div
+                    aria-hidden
+                    className="absolute inset-x-0 h-px bg-red-400 pointer-events-none"
+                    style={{ top: (nowMinutes / 60) * HOUR_HEIGHT }}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { format, parseISO, addDays, subDays } from 'date-fns';
+import { ChevronLeft, ChevronRight, Video } from 'lucide-react';
+import { useStore } from '../stores';
+import { MarkdownEditor } from '../components/MarkdownEditor';
+import { TaskList } from '../components/TaskList';
+import { useDebouncedCallback } from '../hooks/useDebouncedCallback';
+import { filterTasksByContext } from '../lib/contextFilter';
+import { filterByTags } from '../lib/tagFilter';
+import { getDailySummary } from '../lib/dailySummary';
+import type { Meeting } from '@shared/types';
+
+function getToday(): string {
+  return format(new Date(), 'yyyy-MM-dd');
+}
+
+function formatMeetingTime(meeting: Meeting): string {
+  if (meeting.is_all_day) return 'All day';
+  const start = format(parseISO(meeting.start_time), 'HH:mm');
+  return meeting.end_time ? `${start} – ${format(parseISO(meeting.end_time), 'HH:mm')}` : start;
+}
+
+export function DailyView() {
+  const tasks = useStore((s) => s.tasks);
+  const meetings = useStore((s) => s.meetings);
+  const projects = useStore((s) => s.projects);
+  const activeContextIds = useStore((s) => s.activeContextIds);
+  const activeTagIds = useStore((s) => s.activeTagIds);
+  const entityTags = useStore((s) => s.entityTags);
+  const updateTask = useStore((s) => s.updateTask);
+  const selectTask = useStore((s) => s.selectTask);
+  const selectedTaskId = useStore((s) => s.selectedTaskId);
+  const navigateTab = useStore((s) => s.navigateTab);
+  const fetchDailyNote = useStore((s) => s.fetchDailyNote);
+  const saveDailyNote = useStore((s) => s.saveDailyNote);
+
+  const today = getToday();
+  const [date, setDate] = useState(today);
+  const [content, setContent] = useState('');
+  const [loadedDate, setLoadedDate] = useState<string | null>(null);
+
+  const { debouncedFn: debouncedSave, flush } = useDebouncedCallback(
+    (noteDate: string, markdown: string) => saveDailyNote(noteDate, markdown),
+    500,
+  );
+
+  // Load the note whenever the selected day changes. Local state is only
+  // synced here so background refreshes never clobber what is being typed.
+  useEffect(() => {
+    let cancelled = false;
+    fetchDailyNote(date).then((note) => {
+      if (cancelled) return;
+      setContent(note?.content ?? '');
+      setLoadedDate(date);
+    });
+    return () => { cancelled = true; };
+  }, [date, fetchDailyNote]);
+
+  const goToDate = useCallback((next: string) => {
+    flush();
+    setDate(next);
+  }, [flush]);
+
+  const summary = useMemo(() => {
+    const visibleTasks = filterByTags(filterTasksByContext(tasks, activeContextIds, projects), 'task', activeTagIds, entityTags);
+    return getDailySummary(date, visibleTasks, filterByTags(meetings, 'meeting', activeTagIds, entityTags));
+  }, [date, tasks, meetings, activeContextIds, activeTagIds, entityTags, projects]);
+
+  const completedIds = useMemo(
+    () => new Set(summary.completedTasks.map((t) => t.id)),
+    [summary.completedTasks],
+  );
+
+  const handleUncomplete = useCallback(
+    (id: string) => { updateTask(id, { status: 'inbox' }); },
+    [updateTask],
+  );
+
+  const handleCompleteCarriedOver = useCallback(
+    (id: string) => { updateTask(id, { status: 'logbook' }); },
+    [updateTask],
+  );
+
+  const parsedDate = parseISO(date);
+  const isToday = date === today;
+
+  return (
+    <div className="flex-1 overflow-y-auto">
+      <div className="max-w-5xl mx-auto px-8 py-8">
+        {/* Date navigator */}
+        <div className="flex items-center gap-3 mb-6">
+          <h2 className="text-xl font-semibold text-foreground" data-testid="daily-date-title">
+            {format(parsedDate, 'EEEE, MMMM d')}
+          </h2>
+          <div className="flex items-center gap-0.5 ml-auto">
+            <button
+              onClick={() => goToDate(format(subDays(parsedDate, 1), 'yyyy-MM-dd'))}
+              className="p-1.5 rounded-md text-muted-foreground hover:text-foreground hover:bg-accent/50 transition-colors"
+              aria-label="Previous day"
+            >
+              <ChevronLeft className="size-4" />
+            </button>
+            <button
+              onClick={() => goToDate(today)}
+              disabled={isToday}
+              className="px-2 py-1 rounded-md text-xs font-medium text-muted-foreground hover:text-foreground hover:bg-accent/50 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+            >
+              Today
+            </button>
+            <button
+              onClick={() => goToDate(format(addDays(parsedDate, 1), 'yyyy-MM-dd'))}
+              className="p-1.5 rounded-md text-muted-foreground hover:text-foreground hover:bg-accent/50 transition-colors"
+              aria-label="Next day"
+            >
+              <ChevronRight className="size-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-[minmax(0,1fr)_18rem] gap-8">
+          {/* Journal */}
+          <div>
+            {loadedDate === date && (
+              <MarkdownEditor
+                key={date}
+                value={content}
+                placeholder="How did today go?"
+                onChange={(md) => {
+                  setContent(md);
+                  debouncedSave(date, md);
+                }}
+              />
+            )}
+          </div>
+
+          {/* Day summary */}
+          <aside className="flex flex-col gap-6">
+            <section>
+              <div className="flex items-center gap-3 px-3 pb-2">
+                <h3 className="text-xs font-medium uppercase tracking-wider text-muted-foreground">Meetings</h3>
+                {summary.meetings.length > 0 && (
+                  <span className="text-xs tabular-nums text-muted-foreground/60">{summary.meetings.length}</span>
+                )}
+              </div>
+              {summary.meetings.length === 0 ? (
+                <p className="px-3 py-4 text-sm text-muted-foreground">No meetings</p>
+              ) : (
+                <div className="flex flex-col">
+                  {summary.meetings.map((m) => (
+                    <div
+                      key={m.id}
+                      onClick={() => navigateTab({ view: 'meetings', entityId: m.id, entityType: 'meeting' })}
+                      className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-accent/40 cursor-default transition-colors"
+                    >
+                      <Video className="size-4 text-muted-foreground shrink-0" strokeWidth={1.5} />
+                      <div className="flex-1 min-w-0">
+                        <span className="font-medium text-sm truncate block">{m.title}</span>
+                        <span className="text-xs text-muted-foreground">{formatMeetingTime(m)}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+
+            <TaskList
+              title="Completed"
+              tasks={summary.completedTasks}
+              onCompleteTask={handleUncomplete}
+              onSelectTask={selectTask}
+              selectedTaskId={selectedTaskId}
+              completedIds={completedIds}
+            />
+
+            <TaskList
+              title="Carried over"
+              tasks={summary.carriedOver}
+              onCompleteTask={handleCompleteCarriedOver}
+              onSelectTask={selectTask}
+              selectedTaskId={selectedTaskId}
+            />
+          </aside>
+        </div>
+      </div>
+    </div>
+  );
+}
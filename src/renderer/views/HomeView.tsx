@@ -1,10 +1,13 @@
 import { useMemo, useState, useCallback, useRef, useEffect } from 'react';
-import { format, parseISO, isToday } from 'date-fns';
-import { CloudSun, CheckCircle2, Video, Plus, FolderKanban, Briefcase, Home as HomeIcon, FlaskConical, type LucideIcon } from 'lucide-react';
+import { format, parseISO, isToday, differenceInCalendarDays } from 'date-fns';
+import { CloudSun, CheckCircle2, Video, Plus, FolderKanban, Briefcase, Home as HomeIcon, FlaskConical, ClipboardCheck, ArrowRight, type LucideIcon } from 'lucide-react';
 import { useStore } from '../stores';
 import { useWeather } from '../hooks/useWeather';
 import { TaskList } from '../components/TaskList';
+import { CapacityBar } from '../components/CapacityBar';
 import { filterTasksByContext, filterProjectsByContext } from '../lib/contextFilter';
+import { filterByTags } from '../lib/tagFilter';
+import { isReviewOverdue } from '../lib/weeklyReview';
 import type { Meeting } from '../../shared/types';
 
 const ICON_MAP: Record<string, LucideIcon> = {
@@ -58,7 +61,7 @@ function getSubtitle(todayCount: number, overdueCount: number): string {
   return `Busy day — ${todayCount} tasks lined up.`;
 }
 
-export function HomeView(_props: HomeViewProps) {
+export function HomeView({ onNavigate }: HomeViewProps) {
   const now = useMemo(() => new Date(), []);
   const dayOfWeek = format(now, 'EEEE').toUpperCase();
   const monthDay = format(now, 'MMMM d').toUpperCase();
@@ -77,6 +80,11 @@ export function HomeView(_props: HomeViewProps) {
   const projects = useStore((s) => s.projects);
   const contexts = useStore((s) => s.contexts);
   const activeContextIds = useStore((s) => s.activeContextIds);
+  const activeTagIds = useStore((s) => s.activeTagIds);
+  const entityTags = useStore((s) => s.entityTags);
+  const settingsLoaded = useStore((s) => s.settingsLoaded);
+  const lastWeeklyReviewAt = useStore((s) => s.lastWeeklyReviewAt);
+  const reviewInProgress = useStore((s) => s.reviewProgress !== null);
   const weather = useWeather(weatherCity);
 
   const today = format(now, 'yyyy-MM-dd');
@@ -104,8 +112,8 @@ export function HomeView(_props: HomeViewProps) {
       }
       if (t.deadline && t.deadline < today) oc++;
     }
-    return { todayCount: tc, overdueCount: oc, todayTasks: filterTasksByContext(visible, activeContextIds, projects) };
-  }, [tasks, today, dismissedIds, activeContextIds, projects]);
+    return { todayCount: tc, overdueCount: oc, todayTasks: filterByTags(filterTasksByContext(visible, activeContextIds, projects), 'task', activeTagIds, entityTags) };
+  }, [tasks, today, dismissedIds, activeContextIds, activeTagIds, entityTags, projects]);
 
   const handleComplete = useCallback(
     (id: string) => {
@@ -157,8 +165,9 @@ export function HomeView(_props: HomeViewProps) {
             : m.context_id;
           return effectiveContextId !== null && activeContextIds.includes(effectiveContextId);
         });
-    return contextFiltered.sort((a, b) => parseISO(a.start_time).getTime() - parseISO(b.start_time).getTime());
-  }, [meetings, activeContextIds, projects]);
+    return filterByTags(contextFiltered, 'meeting', activeTagIds, entityTags)
+      .sort((a, b) => parseISO(a.start_time).getTime() - parseISO(b.start_time).getTime());
+  }, [meetings, activeContextIds, activeTagIds, entityTags, projects]);
 
   const handleAddMeeting = useCallback(async () => {
     const meeting = await createMeeting({
@@ -171,6 +180,8 @@ export function HomeView(_props: HomeViewProps) {
     }
   }, [createMeeting, navigateTab, setAutoFocusMeetingTitle]);
 
+  const reviewDue = settingsLoaded && isReviewOverdue(lastWeeklyReviewAt, now);
+
   const subtitle = getSubtitle(todayCount, overdueCount);
   const displayName = firstName || 'there';
 
@@ -251,6 +262,33 @@ export function HomeView(_props: HomeViewProps) {
           </div>
         </div>
 
+        {/* Weekly review nudge */}
+        {reviewDue && (
+          <div
+            role="status"
+            className="mt-6 flex items-center gap-3 rounded-xl border border-[oklch(1_0_0/6%)] px-6 py-4"
+            style={{ background: 'oklch(0.17 0.015 265 / 50%)' }}
+          >
+            <ClipboardCheck className="size-4 text-primary/70 shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-foreground">Time for your weekly review</p>
+              <p className="text-xs text-muted-foreground">
+                {lastWeeklyReviewAt
+                  ? `Last done ${differenceInCalendarDays(now, parseISO(lastWeeklyReviewAt))} days ago.`
+                  : 'Go through your inbox, projects and the weeks ahead to keep everything current.'}
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => onNavigate?.('review')}
+              className="inline-flex items-center gap-1 px-2 py-1 rounded-md text-xs text-foreground hover:bg-accent/60 transition-colors cursor-default"
+            >
+              <span>{reviewInProgress ? 'Continue review' : 'Start review'}</span>
+              <ArrowRight className="size-3" />
+            </button>
+          </div>
+        )}
+
         {/* Today's Tasks */}
         <div
           className="mt-6 rounded-xl border border-[oklch(1_0_0/6%)] overflow-hidden"
@@ -274,13 +312,16 @@ export function HomeView(_props: HomeViewProps) {
                 <p className="text-sm">All clear for today</p>
               </div>
             ) : (
-              <TaskList
-                tasks={todayTasks}
-                onCompleteTask={handleComplete}
-                onSelectTask={selectTask}
-                selectedTaskId={selectedTaskId}
-                completedIds={completedIds}
-              />
+              <>
+                <CapacityBar tasks={todayTasks} />
+                <TaskList
+                  tasks={todayTasks}
+                  onCompleteTask={handleComplete}
+                  onSelectTask={selectTask}
+                  selectedTaskId={selectedTaskId}
+                  completedIds={completedIds}
+                />
+              </>
             )}
           </div>
         </div>
@@ -13,6 +13,8 @@ const mockCancelInlineCreate = vi.fn();
 const mockState: Record<string, unknown> = {
   activeContextIds: [] as string[],
   projects: [] as Record<string, unknown>[],
+  entityTags: [] as Record<string, unknown>[],
+  activeTagIds: [] as string[],
 };
 
 vi.mock('../stores', () => ({
@@ -26,6 +28,7 @@ vi.mock('../stores', () => ({
       selectTask: vi.fn(),
       selectedTaskId: null,
       checklistItems: {},
+      projectHeadings: {},
       checklistsLoading: {},
       fetchChecklistItems: vi.fn(),
       createChecklistItem: vi.fn(),
@@ -38,6 +41,9 @@ vi.mock('../stores', () => ({
       fetchAgents: vi.fn(),
       authUser: null,
       activeContextIds: mockState.activeContextIds,
+      tags: [],
+      entityTags: mockState.entityTags,
+      activeTagIds: mockState.activeTagIds,
     };
     return selector(state);
   },
@@ -69,6 +75,8 @@ describe('InboxView', () => {
     mockIsInlineCreating = false;
     mockState.activeContextIds = [];
     mockState.projects = [];
+    mockState.entityTags = [];
+    mockState.activeTagIds = [];
   });
 
   it('filters to only inbox tasks', () => {
@@ -119,6 +127,26 @@ describe('InboxView', () => {
     expect(screen.queryByText(/no tasks in your inbox/i)).not.toBeInTheDocument();
   });
 
+  describe('tag filtering', () => {
+    it('shows only tasks carrying every active tag', () => {
+      mockState.activeTagIds = ['tag-errand', 'tag-town'];
+      mockState.entityTags = [
+        { id: 'et-1', tag_id: 'tag-errand', entity_type: 'task', entity_id: '1' },
+        { id: 'et-2', tag_id: 'tag-town', entity_type: 'task', entity_id: '1' },
+        { id: 'et-3', tag_id: 'tag-errand', entity_type: 'task', entity_id: '2' },
+      ];
+      mockTasks = [
+        fakeTask({ id: '1', title: 'Buy stamps' }),
+        fakeTask({ id: '2', title: 'Order ink online' }),
+        fakeTask({ id: '3', title: 'Untagged task' }),
+      ];
+      render(<InboxView />);
+      expect(screen.getByText('Buy stamps')).toBeInTheDocument();
+      expect(screen.queryByText('Order ink online')).not.toBeInTheDocument();
+      expect(screen.queryByText('Untagged task')).not.toBeInTheDocument();
+    });
+  });
+
   describe('context filtering', () => {
     it('hides tasks outside active context', () => {
       const workCtx = 'ctx-work';
@@ -5,6 +5,7 @@ import { useStore } from '../stores';
 import { TaskList } from '../components/TaskList';
 import { InlineTaskCard } from '../components/InlineTaskCard';
 import { filterTasksByContext } from '../lib/contextFilter';
+import { filterByTags } from '../lib/tagFilter';
 import { sortByPriority } from '../lib/prioritySort';
 
 function getToday(): string {
@@ -17,6 +18,8 @@ export function InboxView() {
   const tasks = useStore((s) => s.tasks);
   const projects = useStore((s) => s.projects);
   const activeContextIds = useStore((s) => s.activeContextIds);
+  const activeTagIds = useStore((s) => s.activeTagIds);
+  const entityTags = useStore((s) => s.entityTags);
   const updateTask = useStore((s) => s.updateTask);
   const selectTask = useStore((s) => s.selectTask);
   const selectedTaskId = useStore((s) => s.selectedTaskId);
@@ -81,8 +84,8 @@ export function InboxView() {
         !t.completed_at,
     );
     overdue.sort((a, b) => (a.deadline! < b.deadline! ? -1 : 1));
-    return sortByPriority(filterTasksByContext(overdue, activeContextIds, projects));
-  }, [tasks, today, activeContextIds, projects]);
+    return sortByPriority(filterByTags(filterTasksByContext(overdue, activeContextIds, projects), 'task', activeTagIds, entityTags));
+  }, [tasks, today, activeContextIds, activeTagIds, entityTags, projects]);
 
   const needsReschedulingTasks = useMemo(() => {
     const reschedule = tasks.filter(
@@ -95,8 +98,8 @@ export function InboxView() {
         !t.completed_at,
     );
     reschedule.sort((a, b) => (a.when_date! < b.when_date! ? -1 : 1));
-    return sortByPriority(filterTasksByContext(reschedule, activeContextIds, projects));
-  }, [tasks, today, activeContextIds, projects]);
+    return sortByPriority(filterByTags(filterTasksByContext(reschedule, activeContextIds, projects), 'task', activeTagIds, entityTags));
+  }, [tasks, today, activeContextIds, activeTagIds, entityTags, projects]);
 
   const inboxTasks = useMemo(() => {
     const visible = tasks.filter((t) => {
@@ -105,8 +108,8 @@ export function InboxView() {
       if (t.status === 'logbook' && everCompletedIds.current.has(t.id)) return true;
       return false;
     });
-    return sortByPriority(filterTasksByContext(visible, activeContextIds, projects));
-  }, [tasks, dismissedIds, activeContextIds, projects]);
+    return sortByPriority(filterByTags(filterTasksByContext(visible, activeContextIds, projects), 'task', activeTagIds, entityTags));
+  }, [tasks, dismissedIds, activeContextIds, activeTagIds, entityTags, projects]);
 
   const handleComplete = useCallback(
     (id: string) => {
@@ -1,10 +1,11 @@
 // @vitest-environment jsdom
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
 import '@testing-library/jest-dom/vitest';
 import { LogbookView } from './LogbookView';
 
 let mockTasks: Record<string, unknown>[] = [];
+let mockActiveContextIds: string[] = [];
 const mockFetchTasks = vi.fn();
 const mockUpdateTask = vi.fn();
 const mockSelectTask = vi.fn();
@@ -19,14 +20,18 @@ vi.mock('../stores', () => ({
       selectTask: mockSelectTask,
       selectedTaskId: null,
       checklistItems: {},
+      projectHeadings: {},
       checklistsLoading: {},
       fetchChecklistItems: vi.fn(),
       createChecklistItem: vi.fn(),
       deleteChecklistItem: vi.fn(),
       updateChecklistItem: vi.fn(),
       projects: [],
-      contexts: [],
-      activeContextIds: [],
+      contexts: [{ id: 'work', name: 'Work', color: '#22c55e' }, { id: 'home', name: 'Home', color: '#ec4899' }],
+      activeContextIds: mockActiveContextIds,
+      tags: [],
+      entityTags: [],
+      activeTagIds: [],
       fetchProjects: vi.fn(),
       agents: [],
       fetchAgents: vi.fn(),
@@ -59,6 +64,7 @@ describe('LogbookView', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     mockTasks = [];
+    mockActiveContextIds = [];
   });
 
   it('shows logbook tasks and excludes non-logbook tasks', () => {
@@ -140,4 +146,36 @@ describe('LogbookView', () => {
     expect(screen.getByText('Has date')).toBeInTheDocument();
     expect(screen.queryByText('No date')).not.toBeInTheDocument();
   });
+
+  describe('insights', () => {
+    it('summarises completions in the active contexts', () => {
+      const now = new Date();
+      const hoursAgo = (h: number) => new Date(now.getTime() - h * 3_600_000).toISOString();
+      mockActiveContextIds = ['work'];
+      mockTasks = [
+        fakeTask({ id: '1', context_id: 'work', created_at: hoursAgo(50), completed_at: hoursAgo(2) }),
+        fakeTask({ id: '2', context_id: 'work', created_at: hoursAgo(3), status: 'anytime', completed_at: null }),
+        fakeTask({ id: '3', context_id: 'home', created_at: hoursAgo(3), completed_at: hoursAgo(1) }),
+      ];
+      render(<LogbookView />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Insights' }));
+
+      const figure = (label: string) => screen.getByText(label, { selector: 'dt' }).nextElementSibling;
+      expect(figure('Completed')).toHaveTextContent('1');
+      expect(figure('Created')).toHaveTextContent('2');
+      expect(figure('Average age when done')).toHaveTextContent('2d');
+      const byContext = screen.getByRole('figure', { name: 'Completed per week, by context' });
+      expect(within(byContext).getByText('Work')).toBeInTheDocument();
+      expect(within(byContext).queryByText('Home')).not.toBeInTheDocument();
+    });
+
+    it('switches to daily buckets', () => {
+      render(<LogbookView />);
+      fireEvent.click(screen.getByRole('button', { name: 'Insights' }));
+
+      fireEvent.click(screen.getByRole('button', { name: 'Last 30 days' }));
+      expect(screen.getByRole('figure', { name: 'Completed per day, by context' })).toBeInTheDocument();
+    });
+  });
 });
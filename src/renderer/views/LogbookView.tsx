@@ -1,9 +1,11 @@
-import { useEffect, useMemo, useCallback } from 'react';
+import { useEffect, useMemo, useCallback, useState } from 'react';
 import { BookOpen } from 'lucide-react';
 import { format, differenceInCalendarDays, parseISO } from 'date-fns';
 import { useStore } from '../stores';
 import { TaskList } from '../components/TaskList';
+import { LogbookInsights } from '../components/LogbookInsights';
 import { filterTasksByContext } from '../lib/contextFilter';
+import { filterByTags } from '../lib/tagFilter';
 import { sortByPriority } from '../lib/prioritySort';
 import type { Task } from '@shared/types';
 
@@ -21,6 +23,13 @@ function dateKey(iso: string): string {
   return format(parseISO(iso), 'yyyy-MM-dd');
 }
 
+type LogbookTab = 'tasks' | 'insights';
+
+const TABS: { value: LogbookTab; label: string }[] = [
+  { value: 'tasks', label: 'Tasks' },
+  { value: 'insights', label: 'Insights' },
+];
+
 interface DateGroup {
   label: string;
   key: string;
@@ -31,24 +40,31 @@ export function LogbookView() {
   const tasks = useStore((s) => s.tasks);
   const projects = useStore((s) => s.projects);
   const activeContextIds = useStore((s) => s.activeContextIds);
+  const activeTagIds = useStore((s) => s.activeTagIds);
+  const entityTags = useStore((s) => s.entityTags);
   const fetchTasks = useStore((s) => s.fetchTasks);
   const updateTask = useStore((s) => s.updateTask);
   const selectTask = useStore((s) => s.selectTask);
   const selectedTaskId = useStore((s) => s.selectedTaskId);
+  const [tab, setTab] = useState<LogbookTab>('tasks');
 
   useEffect(() => {
     fetchTasks();
   }, [fetchTasks]);
 
+  // Insights also need open tasks, for tasks created and project velocity
+  const scopedTasks = useMemo(
+    () => filterByTags(filterTasksByContext(tasks, activeContextIds, projects), 'task', activeTagIds, entityTags),
+    [tasks, activeContextIds, activeTagIds, entityTags, projects],
+  );
+
   const logbookTasks = useMemo(() => {
-    const visible = tasks.filter((t) => t.status === 'logbook' && t.completed_at);
-    const filtered = filterTasksByContext(visible, activeContextIds, projects);
-    return filtered.sort(
+    return scopedTasks.filter((t) => t.status === 'logbook' && t.completed_at).sort(
       (a, b) =>
         parseISO(b.completed_at!).getTime() -
         parseISO(a.completed_at!).getTime(),
     );
-  }, [tasks, activeContextIds, projects]);
+  }, [scopedTasks]);
 
   const groupedTasks = useMemo(() => {
     const groups: DateGroup[] = [];
@@ -91,9 +107,27 @@ export function LogbookView() {
       <div className="max-w-5xl mx-auto px-8 py-8">
         <div className="flex items-center gap-3 mb-6">
           <h2 className="text-xl font-semibold text-foreground">Logbook</h2>
+          <div className="flex gap-1 ml-2">
+            {TABS.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => setTab(value)}
+                aria-pressed={tab === value}
+                className={`px-2.5 py-1 text-xs rounded-md transition-colors ${
+                  tab === value
+                    ? 'bg-primary text-primary-foreground'
+                    : 'bg-muted text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
         </div>
 
-        {count === 0 ? (
+        {tab === 'insights' ? (
+          <LogbookInsights tasks={scopedTasks} />
+        ) : count === 0 ? (
           <div className="flex flex-col items-center justify-center py-20 text-muted-foreground">
             <BookOpen className="size-10 mb-3 opacity-30" strokeWidth={1.25} />
             <p className="text-sm">No completed tasks</p>
@@ -10,6 +10,9 @@ import { AudioPlayer, type AudioPlayerHandle } from '../components/AudioPlayer';
 import { TranscriptView } from '../components/TranscriptView';
 import { DatePickerButton } from '../components/DatePickerButton';
 import { TimePickerButton } from '../components/TimePickerButton';
+import { ReminderPicker } from '../components/ReminderPicker';
+import { TagPicker } from '../components/TagPicker';
+import { ChangeHistory } from '../components/ChangeHistory';
 import type { TranscriptSegment } from '@shared/recording-types';
 
 type MeetingStatus = 'scheduled' | 'completed' | 'cancelled';
@@ -343,6 +346,11 @@ export function MeetingDetailView({ meetingId }: MeetingDetailViewProps) {
               />
             </>
           )}
+          {meeting.status === 'scheduled' && (
+            <ReminderPicker meetingId={meetingId} startTime={meeting.start_time} />
+          )}
+          <TagPicker entityType="meeting" entityId={meetingId} />
+          <ChangeHistory entityId={meetingId} />
         </div>
 
         {/* Details */}
@@ -3,6 +3,7 @@ import { Video, Plus, Search } from 'lucide-react';
 import { parseISO, isToday, isBefore, startOfDay } from 'date-fns';
 import { useStore } from '../stores';
 import { InlineMeetingCard } from '../components/InlineMeetingCard';
+import { filterByTags } from '../lib/tagFilter';
 import type { Meeting, Context } from '../../shared/types';
 
 type MeetingSort = 'date' | 'updated' | 'title';
@@ -77,6 +78,8 @@ export function MeetingsOverviewView() {
   const meetings = useStore(s => s.meetings);
   const contexts = useStore(s => s.contexts) as Context[];
   const activeContextIds = useStore(s => s.activeContextIds);
+  const activeTagIds = useStore(s => s.activeTagIds);
+  const entityTags = useStore(s => s.entityTags);
   const fetchMeetings = useStore(s => s.fetchMeetings);
   const navigateTab = useStore(s => s.navigateTab);
   const isInlineMeetingCreating = useStore(s => s.isInlineMeetingCreating);
@@ -98,6 +101,9 @@ export function MeetingsOverviewView() {
       result = result.filter(m => m.context_id !== null && activeContextIds.includes(m.context_id));
     }
 
+    // Tag filter
+    result = filterByTags(result, 'meeting', activeTagIds, entityTags);
+
     // Search filter
     if (search) {
       const q = search.toLowerCase();
@@ -108,7 +114,7 @@ export function MeetingsOverviewView() {
     }
 
     return result;
-  }, [meetings, activeContextIds, search]);
+  }, [meetings, activeContextIds, activeTagIds, entityTags, search]);
 
   const { todayMeetings, upcomingMeetings, pastMeetings } = useMemo(() => {
     const now = new Date();
@@ -29,6 +29,16 @@ vi.mock('../stores', () => ({
       contexts: mockContexts,
       projects: mockProjects,
       stakeholders: [],
+      tags: [],
+      entityTags: [],
+      createTag: vi.fn(),
+      tagEntity: vi.fn(),
+      untagEntity: vi.fn(),
+      agents: [],
+      projectHeadings: {},
+      entityChanges: {},
+      fetchEntityChanges: vi.fn(),
+      restoreEntityChange: vi.fn(),
       noteStakeholderLinks: [],
       fetchNoteStakeholders: vi.fn(),
       linkStakeholderToNote: vi.fn(),
@@ -5,6 +5,8 @@ import { MarkdownEditor, type MarkdownEditorHandle } from '../components/Markdow
 import { useDebouncedCallback } from '../hooks/useDebouncedCallback';
 import { Popover, PopoverContent, PopoverTrigger } from '../components/ui/popover';
 import { StakeholderPicker } from '../components/StakeholderPicker';
+import { TagPicker } from '../components/TagPicker';
+import { ChangeHistory } from '../components/ChangeHistory';
 
 interface NoteDetailViewProps {
   noteId: string;
@@ -248,6 +250,10 @@ export function NoteDetailView({ noteId }: NoteDetailViewProps) {
             onLink={(stakeholderId) => linkStakeholderToNote(noteId, stakeholderId)}
             onUnlink={(stakeholderId) => unlinkStakeholderFromNote(noteId, stakeholderId)}
           />
+
+          {/* Tags */}
+          <TagPicker entityType="note" entityId={noteId} />
+          <ChangeHistory entityId={noteId} />
         </div>
 
         {/* Editor */}
@@ -19,6 +19,9 @@ vi.mock('../stores', () => ({
       notesLoading: false,
       contexts: mockContexts,
       activeContextIds: mockActiveContextIds,
+      tags: [],
+      entityTags: [],
+      activeTagIds: [],
       fetchNotes: mockFetchNotes,
       createNote: mockCreateNote,
       navigateTab: mockNavigateTab,
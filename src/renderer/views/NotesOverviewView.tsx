@@ -2,6 +2,7 @@ import React, { useState, useMemo, useEffect } from 'react';
 import { parseISO } from 'date-fns';
 import { FileText, Pin, Plus } from 'lucide-react';
 import { useStore } from '../stores';
+import { filterByTags } from '../lib/tagFilter';
 import type { Note, Context } from '../../shared/types';
 
 type NoteSort = 'updated' | 'created' | 'title';
@@ -64,6 +65,8 @@ export function NotesOverviewView() {
   const notes = useStore(s => s.notes);
   const contexts = useStore(s => s.contexts) as Context[];
   const activeContextIds = useStore(s => s.activeContextIds);
+  const activeTagIds = useStore(s => s.activeTagIds);
+  const entityTags = useStore(s => s.entityTags);
   const fetchNotes = useStore(s => s.fetchNotes);
   const createNote = useStore(s => s.createNote);
   const navigateTab = useStore(s => s.navigateTab);
@@ -95,6 +98,9 @@ export function NotesOverviewView() {
       result = result.filter(n => n.context_id !== null && activeContextIds.includes(n.context_id));
     }
 
+    // Tag filter
+    result = filterByTags(result, 'note', activeTagIds, entityTags);
+
     // Sort
     const sorted = [...result].sort((a, b) => {
       // Pinned always first
@@ -108,7 +114,7 @@ export function NotesOverviewView() {
     });
 
     return sorted;
-  }, [notes, activeContextIds, sort]);
+  }, [notes, activeContextIds, activeTagIds, entityTags, sort]);
 
   return (
     <div className="flex-1 overflow-y-auto">
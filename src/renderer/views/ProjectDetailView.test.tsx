@@ -1,9 +1,9 @@
 // @vitest-environment jsdom
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
 import '@testing-library/jest-dom/vitest';
 import { ProjectDetailView } from './ProjectDetailView';
-import type { Project, Task, Context } from '@shared/types';
+import type { Project, Task, Context, ProjectHeading, TaskDependency } from '@shared/types';
 
 const mockUpdateProject = vi.fn();
 const mockGoBack = vi.fn();
@@ -14,10 +14,16 @@ const mockSelectTask = vi.fn();
 const mockCancelInlineCreate = vi.fn();
 const mockStartInlineCreate = vi.fn();
 const mockDeleteProject = vi.fn();
+const mockFetchProjectHeadings = vi.fn();
+const mockCreateProjectHeading = vi.fn();
+const mockReorderProjectHeadings = vi.fn();
+const mockArchiveProjectHeading = vi.fn();
 
 let mockProjects: Project[] = [];
+let mockTaskDependencies: TaskDependency[] = [];
 let mockTasks: Task[] = [];
 let mockContexts: Context[] = [];
+let mockHeadings: ProjectHeading[] = [];
 let mockSelectedTaskId: string | null = null;
 let mockIsInlineCreating = false;
 let mockInlineCreateDefaults: Record<string, unknown> | null = null;
@@ -34,6 +40,7 @@ vi.mock('../stores', () => ({
     const state = {
       projects: mockProjects,
       tasks: mockTasks,
+      taskDependencies: mockTaskDependencies,
       contexts: mockContexts,
       updateProject: mockUpdateProject,
       goBack: mockGoBack,
@@ -42,6 +49,7 @@ vi.mock('../stores', () => ({
       fetchAgents: vi.fn(),
       authUser: null,
       createTask: mockCreateTask,
+      createTasks: (inputs: unknown[]) => Promise.all(inputs.map((input) => mockCreateTask(input))),
       updateTask: mockUpdateTask,
       selectTask: mockSelectTask,
       selectedTaskId: mockSelectedTaskId,
@@ -50,14 +58,26 @@ vi.mock('../stores', () => ({
       startInlineCreate: mockStartInlineCreate,
       cancelInlineCreate: mockCancelInlineCreate,
       deleteProject: mockDeleteProject,
+      saveProjectAsTemplate: vi.fn(),
+      showToast: vi.fn(),
       createChecklistItem: vi.fn(),
       checklistItems: {},
+      projectHeadings: { 'proj-1': mockHeadings },
+      fetchProjectHeadings: mockFetchProjectHeadings,
+      createProjectHeading: mockCreateProjectHeading,
+      updateProjectHeading: vi.fn(),
+      deleteProjectHeading: vi.fn(),
+      reorderProjectHeadings: mockReorderProjectHeadings,
+      archiveProjectHeading: mockArchiveProjectHeading,
       checklistsLoading: {},
       fetchChecklistItems: vi.fn(),
       deleteChecklistItem: vi.fn(),
       updateChecklistItem: vi.fn(),
       activeContextIds: [],
       stakeholders: [],
+      entityChanges: {},
+      fetchEntityChanges: vi.fn(),
+      restoreEntityChange: vi.fn(),
       projectStakeholderLinks: [],
       fetchProjectStakeholders: vi.fn(),
       linkStakeholderToProject: vi.fn(),
@@ -104,6 +124,22 @@ function makeTask(overrides?: Partial<Task>): Task {
     deleted_at: null,
     stale_at: null,
     assignee_id: null,
+    recurrence: null,
+    estimate_minutes: null,
+    ...overrides,
+  };
+}
+
+function makeHeading(overrides?: Partial<ProjectHeading>): ProjectHeading {
+  return {
+    id: 'heading-1',
+    project_id: 'proj-1',
+    title: 'Design',
+    sort_order: 0,
+    created_at: '2026-02-01T00:00:00.000Z',
+    updated_at: '2026-02-01T00:00:00.000Z',
+    archived_at: null,
+    deleted_at: null,
     ...overrides,
   };
 }
@@ -128,7 +164,9 @@ describe('ProjectDetailView', () => {
     vi.useFakeTimers();
     mockProjects = [makeProject()];
     mockTasks = [];
+    mockTaskDependencies = [];
     mockContexts = [];
+    mockHeadings = [];
     mockSelectedTaskId = null;
     mockIsInlineCreating = false;
     mockInlineCreateDefaults = null;
@@ -333,6 +371,37 @@ describe('ProjectDetailView', () => {
     expect(screen.getByText('Active task')).toBeInTheDocument();
   });
 
+  // --- Next actionable task ---
+
+  it('shows the first open task that is not blocked as next', () => {
+    mockTasks = [
+      makeTask({ id: 't1', title: 'Ship it', project_id: 'proj-1', status: 'anytime' }),
+      makeTask({ id: 't2', title: 'Write tests', project_id: 'proj-1', status: 'anytime' }),
+      makeTask({ id: 't3', title: 'Someday idea', project_id: 'proj-1', status: 'someday' }),
+    ];
+    mockTaskDependencies = [
+      { id: 'dep-1', task_id: 't1', blocked_by_task_id: 't2', created_at: '2026-02-17T00:00:00.000Z', deleted_at: null },
+    ];
+    render(<ProjectDetailView projectId="proj-1" />);
+
+    const [row] = screen.getAllByTestId('task-item').filter((el) => el.textContent?.includes('Write tests'));
+    expect(within(row).getByTestId('next-indicator')).toBeInTheDocument();
+    expect(screen.getAllByTestId('next-indicator')).toHaveLength(1);
+  });
+
+  it('shows no next task when everything is blocked or parked', () => {
+    mockTasks = [
+      makeTask({ id: 't1', title: 'Ship it', project_id: 'proj-1', status: 'anytime' }),
+      makeTask({ id: 't2', title: 'Other project', project_id: 'proj-2', status: 'anytime' }),
+    ];
+    mockTaskDependencies = [
+      { id: 'dep-1', task_id: 't1', blocked_by_task_id: 't2', created_at: '2026-02-17T00:00:00.000Z', deleted_at: null },
+    ];
+    render(<ProjectDetailView projectId="proj-1" />);
+
+    expect(screen.queryByTestId('next-indicator')).not.toBeInTheDocument();
+  });
+
   // --- Inline task creation ---
 
   it('shows InlineTaskCard when isInlineCreating is true', () => {
@@ -462,6 +531,79 @@ describe('ProjectDetailView', () => {
     expect(screen.queryByText('Confirm?')).not.toBeInTheDocument();
   });
 
+  // --- Headings ---
+
+  it('fetches headings for the project on mount', () => {
+    render(<ProjectDetailView projectId="proj-1" />);
+
+    expect(mockFetchProjectHeadings).toHaveBeenCalledWith('proj-1');
+  });
+
+  it('groups tasks under their heading', () => {
+    mockHeadings = [makeHeading()];
+    mockTasks = [
+      makeTask({ id: 't1', title: 'Loose task', project_id: 'proj-1' }),
+      makeTask({ id: 't2', title: 'Wireframes', project_id: 'proj-1', heading_id: 'heading-1' }),
+    ];
+    render(<ProjectDetailView projectId="proj-1" />);
+
+    const section = screen.getByTestId('project-heading');
+    expect(section).toHaveTextContent('Wireframes');
+    expect(section).not.toHaveTextContent('Loose task');
+    expect(screen.getByText('Loose task')).toBeInTheDocument();
+  });
+
+  it('collapsing a heading hides its tasks', () => {
+    mockHeadings = [makeHeading()];
+    mockTasks = [makeTask({ id: 't2', title: 'Wireframes', project_id: 'proj-1', heading_id: 'heading-1' })];
+    render(<ProjectDetailView projectId="proj-1" />);
+
+    fireEvent.click(screen.getByLabelText('Collapse Design'));
+
+    expect(screen.queryByText('Wireframes')).not.toBeInTheDocument();
+    expect(screen.getByLabelText('Expand Design')).toBeInTheDocument();
+  });
+
+  it('shows headings instead of the empty state when a project has no tasks', () => {
+    mockHeadings = [makeHeading()];
+    render(<ProjectDetailView projectId="proj-1" />);
+
+    expect(screen.queryByTestId('empty-state-cta')).not.toBeInTheDocument();
+    expect(screen.getByTestId('project-heading')).toBeInTheDocument();
+  });
+
+  it('creates a heading from the add heading input', () => {
+    render(<ProjectDetailView projectId="proj-1" />);
+
+    fireEvent.click(screen.getByText('Add heading'));
+    const input = screen.getByLabelText('New heading title');
+    fireEvent.change(input, { target: { value: 'Launch prep' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(mockCreateProjectHeading).toHaveBeenCalledWith({ project_id: 'proj-1', title: 'Launch prep' });
+  });
+
+  it('moving a heading down reorders the project headings', () => {
+    mockHeadings = [
+      makeHeading({ id: 'h1', title: 'Design', sort_order: 0 }),
+      makeHeading({ id: 'h2', title: 'Build', sort_order: 1 }),
+    ];
+    render(<ProjectDetailView projectId="proj-1" />);
+
+    fireEvent.click(screen.getAllByLabelText('Move heading down')[0]);
+
+    expect(mockReorderProjectHeadings).toHaveBeenCalledWith('proj-1', ['h2', 'h1']);
+  });
+
+  it('archives a heading', () => {
+    mockHeadings = [makeHeading()];
+    render(<ProjectDetailView projectId="proj-1" />);
+
+    fireEvent.click(screen.getByLabelText('Archive heading'));
+
+    expect(mockArchiveProjectHeading).toHaveBeenCalledWith('heading-1', 'proj-1');
+  });
+
   // --- Not found ---
 
   it('renders not-found state when project does not exist', () => {
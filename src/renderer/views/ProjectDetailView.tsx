@@ -1,14 +1,19 @@
-import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo, type KeyboardEvent } from 'react';
 import { parseISO } from 'date-fns';
-import { ArrowLeft, Clock, FolderKanban, Plus, Trash2, Check, X, Briefcase, Home, FlaskConical, type LucideIcon } from 'lucide-react';
-import type { ProjectStatus } from '@shared/types';
+import { ArrowLeft, Clock, FolderKanban, Plus, Trash2, Check, X, Briefcase, Home, FlaskConical, Heading, type LucideIcon } from 'lucide-react';
+import type { ProjectStatus, ProjectHeading } from '@shared/types';
+import { getBlockedTaskIds, getNextActionableTask } from '@shared/task-dependencies';
 import { useStore } from '../stores';
 import { useDebouncedCallback } from '../hooks/useDebouncedCallback';
 import { TaskList } from '../components/TaskList';
 import { InlineTaskCard } from '../components/InlineTaskCard';
+import { ProjectHeadingSection } from '../components/ProjectHeadingSection';
 import { Popover, PopoverContent, PopoverTrigger } from '../components/ui/popover';
 import { StakeholderPicker } from '../components/StakeholderPicker';
+import { ChangeHistory } from '../components/ChangeHistory';
+import { SaveAsTemplateButton } from '../components/SaveAsTemplateButton';
 import { sortByPriority } from '../lib/prioritySort';
+import { groupTasksByHeading } from '../lib/groupTasksByHeading';
 
 const ICON_MAP: Record<string, LucideIcon> = {
   Briefcase,
@@ -19,6 +24,7 @@ const ICON_MAP: Record<string, LucideIcon> = {
 const DEBOUNCE_MS = 500;
 const STALENESS_DAYS = 14;
 const DISMISS_DELAY_MS = 2500;
+const NO_HEADINGS: ProjectHeading[] = [];
 
 const STATUS_OPTIONS: { value: ProjectStatus; label: string; className: string }[] = [
   { value: 'planned', label: 'Planned', className: 'bg-muted-foreground/20 text-muted-foreground' },
@@ -44,9 +50,11 @@ interface ProjectDetailViewProps {
 export function ProjectDetailView({ projectId }: ProjectDetailViewProps) {
   const projects = useStore((s) => s.projects);
   const tasks = useStore((s) => s.tasks);
+  const taskDependencies = useStore((s) => s.taskDependencies);
   const contexts = useStore((s) => s.contexts);
   const updateProject = useStore((s) => s.updateProject);
   const deleteProject = useStore((s) => s.deleteProject);
+  const saveProjectAsTemplate = useStore((s) => s.saveProjectAsTemplate);
   const goBack = useStore((s) => s.goBack);
   const updateTask = useStore((s) => s.updateTask);
   const selectTask = useStore((s) => s.selectTask);
@@ -58,6 +66,13 @@ export function ProjectDetailView({ projectId }: ProjectDetailViewProps) {
   const fetchProjectStakeholders = useStore((s) => s.fetchProjectStakeholders);
   const linkStakeholderToProject = useStore((s) => s.linkStakeholderToProject);
   const unlinkStakeholderFromProject = useStore((s) => s.unlinkStakeholderFromProject);
+  const headings = useStore((s) => s.projectHeadings[projectId] ?? NO_HEADINGS);
+  const fetchProjectHeadings = useStore((s) => s.fetchProjectHeadings);
+  const createProjectHeading = useStore((s) => s.createProjectHeading);
+  const updateProjectHeading = useStore((s) => s.updateProjectHeading);
+  const deleteProjectHeading = useStore((s) => s.deleteProjectHeading);
+  const reorderProjectHeadings = useStore((s) => s.reorderProjectHeadings);
+  const archiveProjectHeading = useStore((s) => s.archiveProjectHeading);
 
   const project = useMemo(
     () => projects.find((p) => p.id === projectId) ?? null,
@@ -71,6 +86,9 @@ export function ProjectDetailView({ projectId }: ProjectDetailViewProps) {
   const [ownerOpen, setOwnerOpen] = useState(false);
   const [completionWarning, setCompletionWarning] = useState(false);
   const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [addingHeading, setAddingHeading] = useState(false);
+  const [newHeadingTitle, setNewHeadingTitle] = useState('');
+  const [collapsedHeadingIds, setCollapsedHeadingIds] = useState<Set<string>>(new Set());
 
   // --- Completion animation state (same as InboxView / TodayView) ---
   const [completedIds, setCompletedIds] = useState<Set<string>>(new Set());
@@ -102,6 +120,22 @@ export function ProjectDetailView({ projectId }: ProjectDetailViewProps) {
     return sortByPriority(filtered);
   }, [tasks, projectId, dismissedIds]);
 
+  const groupedTasks = useMemo(
+    () => groupTasksByHeading(projectTasks, headings),
+    [projectTasks, headings],
+  );
+
+  const blockedIds = useMemo(() => getBlockedTaskIds(tasks, taskDependencies), [tasks, taskDependencies]);
+
+  // Follows the on-screen order: tasks without a heading, then each heading
+  const nextTask = useMemo(
+    () => getNextActionableTask(
+      [...groupedTasks.ungrouped, ...groupedTasks.groups.flatMap((g) => g.tasks)].filter((t) => !completedIds.has(t.id)),
+      blockedIds,
+    ),
+    [groupedTasks, blockedIds, completedIds],
+  );
+
   const hasIncompleteTasks = useMemo(
     () => projectTasks.some((t) => t.status !== 'logbook' && t.status !== 'cancelled'),
     [projectTasks],
@@ -116,6 +150,10 @@ export function ProjectDetailView({ projectId }: ProjectDetailViewProps) {
     fetchProjectStakeholders(projectId);
   }, [projectId, fetchProjectStakeholders]);
 
+  useEffect(() => {
+    fetchProjectHeadings(projectId);
+  }, [projectId, fetchProjectHeadings]);
+
   // --- Debounced saves ---
 
   const saveTitle = useCallback(
@@ -225,6 +263,39 @@ export function ProjectDetailView({ projectId }: ProjectDetailViewProps) {
     [updateTask],
   );
 
+  // --- Headings ---
+
+  const handleNewHeadingKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' && newHeadingTitle.trim()) {
+      e.preventDefault();
+      createProjectHeading({ project_id: projectId, title: newHeadingTitle.trim() });
+      setNewHeadingTitle('');
+      setAddingHeading(false);
+    }
+    if (e.key === 'Escape') {
+      setNewHeadingTitle('');
+      setAddingHeading(false);
+    }
+  };
+
+  const handleToggleHeading = useCallback((id: string) => {
+    setCollapsedHeadingIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }, []);
+
+  const handleMoveHeading = (id: string, direction: -1 | 1) => {
+    const ids = groupedTasks.groups.map((g) => g.heading.id);
+    const index = ids.indexOf(id);
+    const target = index + direction;
+    if (index === -1 || target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderProjectHeadings(projectId, ids);
+  };
+
   // --- Not found ---
 
   if (!project) {
@@ -241,7 +312,7 @@ export function ProjectDetailView({ projectId }: ProjectDetailViewProps) {
   return (
     <div className="flex-1 overflow-y-auto">
       <div className="max-w-5xl mx-auto px-8 py-8">
-        {/* Top bar: back + delete */}
+        {/* Top bar: back + save as template + delete */}
         <div className="flex items-center justify-between mb-6">
           <button
             onClick={goBack}
@@ -252,39 +323,45 @@ export function ProjectDetailView({ projectId }: ProjectDetailViewProps) {
             <span>Projects</span>
           </button>
 
-          {confirmingDelete ? (
-            <div className="flex items-center gap-1.5 rounded-lg bg-accent px-2.5 py-1">
-              <span className="text-sm text-muted-foreground mr-1">Confirm?</span>
-              <button
-                type="button"
-                aria-label="Confirm delete project"
-                onClick={() => {
-                  deleteProject(projectId);
-                  goBack();
-                }}
-                className="p-1 rounded bg-destructive/15 text-destructive hover:bg-destructive/25 transition-colors"
-              >
-                <Check className="size-3.5" />
-              </button>
+          <div className="flex items-center gap-1.5">
+            <SaveAsTemplateButton
+              defaultName={project.title}
+              onSave={(name) => saveProjectAsTemplate(projectId, name)}
+            />
+            {confirmingDelete ? (
+              <div className="flex items-center gap-1.5 rounded-lg bg-accent px-2.5 py-1">
+                <span className="text-sm text-muted-foreground mr-1">Confirm?</span>
+                <button
+                  type="button"
+                  aria-label="Confirm delete project"
+                  onClick={() => {
+                    deleteProject(projectId);
+                    goBack();
+                  }}
+                  className="p-1 rounded bg-destructive/15 text-destructive hover:bg-destructive/25 transition-colors"
+                >
+                  <Check className="size-3.5" />
+                </button>
+                <button
+                  type="button"
+                  aria-label="Cancel delete project"
+                  onClick={() => setConfirmingDelete(false)}
+                  className="p-1 rounded text-muted-foreground hover:bg-accent hover:text-foreground transition-colors"
+                >
+                  <X className="size-3.5" />
+                </button>
+              </div>
+            ) : (
               <button
                 type="button"
-                aria-label="Cancel delete project"
-                onClick={() => setConfirmingDelete(false)}
-                className="p-1 rounded text-muted-foreground hover:bg-accent hover:text-foreground transition-colors"
+                aria-label="Delete project"
+                onClick={() => setConfirmingDelete(true)}
+                className="p-1 rounded text-muted-foreground/40 hover:text-destructive transition-colors"
               >
-                <X className="size-3.5" />
+                <Trash2 className="size-3.5" />
               </button>
-            </div>
-          ) : (
-            <button
-              type="button"
-              aria-label="Delete project"
-              onClick={() => setConfirmingDelete(true)}
-              className="p-1 rounded text-muted-foreground/40 hover:text-destructive transition-colors"
-            >
-              <Trash2 className="size-3.5" />
-            </button>
-          )}
+            )}
+          </div>
         </div>
 
         {/* Header */}
@@ -461,6 +538,7 @@ export function ProjectDetailView({ projectId }: ProjectDetailViewProps) {
               </PopoverContent>
             </Popover>
 
+            <ChangeHistory entityId={projectId} />
           </div>
         </div>
 
@@ -495,7 +573,7 @@ export function ProjectDetailView({ projectId }: ProjectDetailViewProps) {
         {isInlineCreating && <InlineTaskCard />}
 
         {/* Task list */}
-        {!isInlineCreating && projectTasks.length === 0 ? (
+        {!isInlineCreating && projectTasks.length === 0 && headings.length === 0 ? (
           <div className="flex flex-col items-center justify-center py-20 text-muted-foreground">
             <FolderKanban className="size-10 mb-3 opacity-30" strokeWidth={1.25} />
             <p className="text-sm">No tasks in this project</p>
@@ -509,15 +587,70 @@ export function ProjectDetailView({ projectId }: ProjectDetailViewProps) {
               <span>Add a task</span>
             </button>
           </div>
-        ) : projectTasks.length > 0 ? (
-          <TaskList
-            tasks={projectTasks}
-            onCompleteTask={handleComplete}
-            onSelectTask={selectTask}
-            selectedTaskId={selectedTaskId}
-            completedIds={completedIds}
-          />
-        ) : null}
+        ) : (
+          <>
+            {groupedTasks.ungrouped.length > 0 && (
+              <TaskList
+                tasks={groupedTasks.ungrouped}
+                onCompleteTask={handleComplete}
+                onSelectTask={selectTask}
+                selectedTaskId={selectedTaskId}
+                completedIds={completedIds}
+                blockedIds={blockedIds}
+                nextTaskId={nextTask?.id}
+              />
+            )}
+            {groupedTasks.groups.map(({ heading, tasks: headingTasks }, i) => (
+              <ProjectHeadingSection
+                key={heading.id}
+                heading={heading}
+                tasks={headingTasks}
+                collapsed={collapsedHeadingIds.has(heading.id)}
+                isFirst={i === 0}
+                isLast={i === groupedTasks.groups.length - 1}
+                onToggleCollapsed={handleToggleHeading}
+                onRename={(id, value) => updateProjectHeading(id, projectId, { title: value })}
+                onMove={handleMoveHeading}
+                onArchive={(id) => archiveProjectHeading(id, projectId)}
+                onDelete={(id) => deleteProjectHeading(id, projectId)}
+                onCompleteTask={handleComplete}
+                onSelectTask={selectTask}
+                selectedTaskId={selectedTaskId}
+                completedIds={completedIds}
+                blockedIds={blockedIds}
+                nextTaskId={nextTask?.id}
+              />
+            ))}
+          </>
+        )}
+
+        {/* Add heading */}
+        <div className="mt-6">
+          {addingHeading ? (
+            <input
+              type="text"
+              autoFocus
+              aria-label="New heading title"
+              value={newHeadingTitle}
+              onChange={(e) => setNewHeadingTitle(e.target.value)}
+              onKeyDown={handleNewHeadingKeyDown}
+              onBlur={() => {
+                if (!newHeadingTitle.trim()) setAddingHeading(false);
+              }}
+              placeholder="Heading name"
+              className="w-full bg-transparent text-sm font-semibold text-foreground px-1 py-1.5 border-b border-border/60 focus:outline-none focus:ring-0"
+            />
+          ) : (
+            <button
+              type="button"
+              onClick={() => setAddingHeading(true)}
+              className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors cursor-default"
+            >
+              <Heading className="size-3.5" />
+              <span>Add heading</span>
+            </button>
+          )}
+        </div>
       </div>
     </div>
   );
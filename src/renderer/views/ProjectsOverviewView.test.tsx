@@ -13,6 +13,7 @@ const mockCreateProject = vi.fn();
 const mockCancelInlineProjectCreate = vi.fn();
 const mockDeleteProject = vi.fn();
 const mockUpdateProject = vi.fn();
+const mockMoveProject = vi.fn();
 
 let mockActiveContextIds: string[] = [];
 let mockContexts: Record<string, unknown>[] = [];
@@ -32,6 +33,7 @@ vi.mock('../stores', () => ({
       selectProject: vi.fn(),
       deleteProject: mockDeleteProject,
       updateProject: mockUpdateProject,
+      moveProject: mockMoveProject,
       activeContextIds: mockActiveContextIds,
     };
     return selector(state);
@@ -164,6 +166,30 @@ describe('ProjectsOverviewView', () => {
     expect(cards[1]).toHaveTextContent('Older');
   });
 
+  it('puts manually ordered projects first', () => {
+    mockProjects = [
+      fakeProject({ id: 'p1', title: 'Newer', created_at: '2026-02-15T00:00:00.000Z' }),
+      fakeProject({ id: 'p2', title: 'Moved', sort_order: -1, created_at: '2026-01-01T00:00:00.000Z' }),
+    ];
+    render(<ProjectsOverviewView />);
+    const cards = screen.getAllByTestId('project-card');
+    expect(cards[0]).toHaveTextContent('Moved');
+  });
+
+  it('moves a project when its card is dropped on another', () => {
+    mockProjects = [
+      fakeProject({ id: 'p1', title: 'First', sort_order: 0 }),
+      fakeProject({ id: 'p2', title: 'Second', sort_order: 1 }),
+    ];
+    render(<ProjectsOverviewView />);
+    const [first, second] = screen.getAllByTestId('project-card');
+    const dataTransfer = { setData: vi.fn(), effectAllowed: 'none' };
+    fireEvent.dragStart(first, { dataTransfer });
+    fireEvent.dragOver(second, { dataTransfer });
+    fireEvent.drop(second, { dataTransfer });
+    expect(mockMoveProject).toHaveBeenCalledWith('p1', ['p2', 'p1']);
+  });
+
   describe('project deletion', () => {
     it('shows confirmation when delete button is clicked', () => {
       mockProjects = [
@@ -6,6 +6,8 @@ import { useStore } from '../stores';
 import { InlineProjectCard } from '../components/InlineProjectCard';
 import { Popover, PopoverContent, PopoverTrigger } from '../components/ui/popover';
 import { filterProjectsByContext } from '../lib/contextFilter';
+import { useDragReorder } from '../hooks/useDragReorder';
+import { DropIndicator } from '../components/DropIndicator';
 import { CompletedProjectsView } from './CompletedProjectsView';
 import { ArchivedProjectsView } from './ArchivedProjectsView';
 
@@ -25,6 +27,7 @@ const TABS: { key: ProjectsTab; label: string }[] = [
 
 const ACTIVE_STATUSES: ProjectStatus[] = ['planned', 'active', 'on_hold', 'blocked'];
 const STALENESS_DAYS = 14;
+const PROJECT_DRAG_TYPE = 'application/x-cortex-project';
 
 const STATUS_OPTIONS: { value: ProjectStatus; label: string; className: string }[] = [
   { value: 'planned', label: 'Planned', className: 'bg-muted-foreground/20 text-muted-foreground' },
@@ -58,6 +61,7 @@ export function ProjectsOverviewView() {
   const cancelInlineProjectCreate = useStore((s) => s.cancelInlineProjectCreate);
   const navigateTab = useStore((s) => s.navigateTab);
   const deleteProject = useStore((s) => s.deleteProject);
+  const moveProject = useStore((s) => s.moveProject);
   const [activeTab, setActiveTab] = useState<ProjectsTab>('active');
   const [isLocalCreating, setIsLocalCreating] = useState(false);
   const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
@@ -74,10 +78,19 @@ export function ProjectsOverviewView() {
     const statusFiltered = projects
       .filter((p) => ACTIVE_STATUSES.includes(p.status) && !p.deleted_at);
     const contextFiltered = filterProjectsByContext(statusFiltered, activeContextIds);
+    // Manual order first; projects that were never moved share a key and show newest first
     return contextFiltered
-      .sort((a, b) => parseISO(b.created_at).getTime() - parseISO(a.created_at).getTime());
+      .sort((a, b) => a.sort_order - b.sort_order || parseISO(b.created_at).getTime() - parseISO(a.created_at).getTime());
   }, [projects, activeContextIds]);
 
+  const activeProjectIds = useMemo(() => activeProjects.map((p) => p.id), [activeProjects]);
+  const { dropTarget, itemProps } = useDragReorder({
+    ids: activeProjectIds,
+    type: PROJECT_DRAG_TYPE,
+    onMove: moveProject,
+    axis: 'x',
+  });
+
   const taskCountsByProject = useMemo(() => {
     const counts: Record<string, number> = {};
     for (const task of tasks) {
@@ -151,8 +164,10 @@ export function ProjectsOverviewView() {
                 data-testid="project-card"
                 onClick={() => navigateTab({ view: 'projects', entityId: project.id, entityType: 'project' })}
                 onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') navigateTab({ view: 'projects', entityId: project.id, entityType: 'project' }); }}
-                className="group/card rounded-lg border border-border bg-card/40 backdrop-blur-xl p-4 transition-colors hover:bg-accent/40 text-left cursor-default"
+                {...itemProps(project.id)}
+                className="relative group/card rounded-lg border border-border bg-card/40 backdrop-blur-xl p-4 transition-colors hover:bg-accent/40 text-left cursor-default"
               >
+                <DropIndicator target={dropTarget} id={project.id} axis="x" />
                 <div className="flex items-start justify-between gap-2 mb-3">
                   <h3 className="text-sm font-medium text-foreground truncate">{project.title}</h3>
                   <div className="flex items-center gap-1.5 shrink-0">
@@ -0,0 +1,71 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom/vitest';
+import { ReviewView } from './ReviewView';
+
+const mockCreateTask = vi.fn();
+const mockCompleteReviewStage = vi.fn();
+const mockResetReview = vi.fn();
+const mockSetLastWeeklyReviewAt = vi.fn();
+const mockFetchStakeholderLastContacts = vi.fn();
+let mockReviewProgress: Record<string, unknown> | null = null;
+
+vi.mock('../stores', () => ({
+  useStore: (selector: (state: Record<string, unknown>) => unknown) => selector({
+    tasks: [],
+    projects: [{ id: 'p1', title: 'Launch', status: 'active', deleted_at: null }],
+    meetings: [],
+    stakeholders: [{ id: 's1', name: 'Dana', organization: null, deleted_at: null }],
+    taskDependencies: [],
+    stakeholderLastContacts: {},
+    fetchStakeholderLastContacts: mockFetchStakeholderLastContacts,
+    reviewProgress: mockReviewProgress,
+    goToReviewStage: vi.fn(),
+    completeReviewStage: mockCompleteReviewStage,
+    resetReview: mockResetReview,
+    lastWeeklyReviewAt: null,
+    setLastWeeklyReviewAt: mockSetLastWeeklyReviewAt,
+    createTask: mockCreateTask,
+    updateTask: vi.fn(),
+    selectTask: vi.fn(),
+    selectedTaskId: null,
+    navigateTab: vi.fn(),
+  }),
+}));
+
+describe('ReviewView', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockReviewProgress = null;
+  });
+
+  it('adds a next action to a project that has none and moves on', () => {
+    mockReviewProgress = { stage: 'projects', completedStages: ['inbox', 'stale'] };
+    render(<ReviewView />);
+
+    expect(screen.getByRole('progressbar')).toHaveAttribute('aria-valuenow', '2');
+    const input = screen.getByLabelText('Next action for Launch');
+    fireEvent.change(input, { target: { value: 'Draft announcement' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(mockCreateTask).toHaveBeenCalledWith({ title: 'Draft announcement', project_id: 'p1', status: 'anytime' });
+
+    fireEvent.click(screen.getByRole('button', { name: /Done, next stage/ }));
+    expect(mockCompleteReviewStage).toHaveBeenCalledWith('projects', 'someday');
+  });
+
+  it('records the completion date when the last stage is finished', () => {
+    mockReviewProgress = { stage: 'stakeholders', completedStages: [] };
+    render(<ReviewView />);
+
+    expect(mockFetchStakeholderLastContacts).toHaveBeenCalled();
+    expect(screen.getByText('No contact yet')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Follow up' }));
+    expect(mockCreateTask).toHaveBeenCalledWith({ title: 'Follow up with Dana' });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Finish review' }));
+    expect(mockSetLastWeeklyReviewAt).toHaveBeenCalledWith(expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/));
+    expect(mockResetReview).toHaveBeenCalled();
+    expect(screen.getByText('Weekly review done')).toBeInTheDocument();
+  });
+});
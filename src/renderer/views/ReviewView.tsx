@@ -0,0 +1,340 @@
+import { useState, useEffect, useRef, useMemo, useCallback, type KeyboardEvent } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Check, CheckCircle2, ChevronLeft, ChevronRight, FolderKanban, Video, UserRound, Plus } from 'lucide-react';
+import type { Task, TaskStatus } from '@shared/types';
+import { useStore } from '../stores';
+import { TaskList } from '../components/TaskList';
+import { Button } from '../components/ui/button';
+import { cn } from '../lib/utils';
+import {
+  REVIEW_STAGES, getUpcomingItems, projectsWithoutNextAction, stakeholdersNotContacted,
+  type ReviewStageId,
+} from '../lib/weeklyReview';
+
+/** Task statuses whose stage lists them */
+const STAGE_STATUS: Partial<Record<ReviewStageId, TaskStatus>> = {
+  inbox: 'inbox',
+  stale: 'stale',
+  someday: 'someday',
+};
+
+/** Weekly review: one stage at a time, each with the items to go through and ways to act on them in place */
+export function ReviewView() {
+  const tasks = useStore((s) => s.tasks);
+  const projects = useStore((s) => s.projects);
+  const meetings = useStore((s) => s.meetings);
+  const stakeholders = useStore((s) => s.stakeholders);
+  const taskDependencies = useStore((s) => s.taskDependencies);
+  const stakeholderLastContacts = useStore((s) => s.stakeholderLastContacts);
+  const fetchStakeholderLastContacts = useStore((s) => s.fetchStakeholderLastContacts);
+  const reviewProgress = useStore((s) => s.reviewProgress);
+  const goToReviewStage = useStore((s) => s.goToReviewStage);
+  const completeReviewStage = useStore((s) => s.completeReviewStage);
+  const resetReview = useStore((s) => s.resetReview);
+  const lastWeeklyReviewAt = useStore((s) => s.lastWeeklyReviewAt);
+  const setLastWeeklyReviewAt = useStore((s) => s.setLastWeeklyReviewAt);
+  const createTask = useStore((s) => s.createTask);
+  const updateTask = useStore((s) => s.updateTask);
+  const selectTask = useStore((s) => s.selectTask);
+  const selectedTaskId = useStore((s) => s.selectedTaskId);
+  const navigateTab = useStore((s) => s.navigateTab);
+
+  const [finished, setFinished] = useState(false);
+  const [nextActionDrafts, setNextActionDrafts] = useState<Record<string, string>>({});
+  const [followedUpIds, setFollowedUpIds] = useState<Set<string>>(new Set());
+  // Status each task had before it was completed here, so it stays in its stage and uncompleting puts it back
+  const [previousStatuses, setPreviousStatuses] = useState<Map<string, TaskStatus>>(new Map());
+  const previousStatusesRef = useRef(previousStatuses);
+  previousStatusesRef.current = previousStatuses;
+  const completedIds = useMemo(() => new Set(previousStatuses.keys()), [previousStatuses]);
+
+  useEffect(() => {
+    fetchStakeholderLastContacts();
+  }, [fetchStakeholderLastContacts]);
+
+  const now = useMemo(() => new Date(), []);
+  const today = format(now, 'yyyy-MM-dd');
+  const stageId = reviewProgress?.stage ?? REVIEW_STAGES[0].id;
+  const stageIndex = REVIEW_STAGES.findIndex((s) => s.id === stageId);
+  const stage = REVIEW_STAGES[stageIndex];
+  const completedStages = reviewProgress?.completedStages ?? [];
+
+  const tasksByStage = useMemo(() => {
+    const result: Partial<Record<ReviewStageId, Task[]>> = {};
+    for (const [id, status] of Object.entries(STAGE_STATUS) as [ReviewStageId, TaskStatus][]) {
+      result[id] = tasks.filter((t) => !t.deleted_at && (t.status === status || previousStatuses.get(t.id) === status));
+    }
+    return result;
+  }, [tasks, previousStatuses]);
+
+  const stalledProjects = useMemo(
+    () => projectsWithoutNextAction(projects, tasks, taskDependencies),
+    [projects, tasks, taskDependencies],
+  );
+  const upcoming = useMemo(() => getUpcomingItems(tasks, meetings, today), [tasks, meetings, today]);
+  const peopleToContact = useMemo(
+    () => stakeholdersNotContacted(stakeholders, stakeholderLastContacts, now),
+    [stakeholders, stakeholderLastContacts, now],
+  );
+
+  const remaining: Record<ReviewStageId, number> = {
+    inbox: tasksByStage.inbox!.filter((t) => t.status === 'inbox').length,
+    stale: tasksByStage.stale!.filter((t) => t.status === 'stale').length,
+    projects: stalledProjects.length,
+    someday: tasksByStage.someday!.filter((t) => t.status === 'someday').length,
+    upcoming: upcoming.deadlines.length + upcoming.meetings.length,
+    stakeholders: peopleToContact.length,
+  };
+
+  const handleComplete = useCallback(
+    (id: string) => {
+      const previous = previousStatusesRef.current.get(id);
+      if (previous) {
+        updateTask(id, { status: previous });
+        setPreviousStatuses((prev) => {
+          const next = new Map(prev);
+          next.delete(id);
+          return next;
+        });
+        return;
+      }
+      const task = useStore.getState().tasks.find((t) => t.id === id);
+      if (!task) return;
+      updateTask(id, { status: 'logbook' });
+      setPreviousStatuses((prev) => new Map(prev).set(id, task.status));
+    },
+    [updateTask],
+  );
+
+  const addNextAction = (projectId: string) => (e: KeyboardEvent<HTMLInputElement>) => {
+    const title = nextActionDrafts[projectId]?.trim();
+    if (e.key !== 'Enter' || !title) return;
+    e.preventDefault();
+    createTask({ title, project_id: projectId, status: 'anytime' });
+    setNextActionDrafts((prev) => ({ ...prev, [projectId]: '' }));
+  };
+
+  const addFollowUp = (stakeholderId: string, name: string) => {
+    createTask({ title: `Follow up with ${name}` });
+    setFollowedUpIds((prev) => new Set(prev).add(stakeholderId));
+  };
+
+  const handleNext = () => {
+    const next = REVIEW_STAGES[stageIndex + 1];
+    completeReviewStage(stage.id, next?.id);
+    if (!next) {
+      setLastWeeklyReviewAt(new Date().toISOString());
+      resetReview();
+      setFinished(true);
+    }
+  };
+
+  if (finished) {
+    return (
+      <div className="flex-1 overflow-y-auto">
+        <div className="flex flex-col items-center justify-center py-24 text-muted-foreground">
+          <CheckCircle2 className="size-10 mb-3 opacity-40" strokeWidth={1.25} />
+          <p className="text-sm text-foreground">Weekly review done</p>
+          <p className="text-xs mt-1">Everything is where it belongs. See you next week.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const progress = (completedStages.length / REVIEW_STAGES.length) * 100;
+
+  return (
+    <div className="flex-1 overflow-y-auto">
+      <div className="max-w-5xl mx-auto px-8 py-8">
+        <div className="flex items-baseline gap-3 mb-1">
+          <h2 className="text-xl font-semibold text-foreground">Weekly Review</h2>
+          <span className="text-xs text-muted-foreground">
+            {lastWeeklyReviewAt ? `Last done ${format(parseISO(lastWeeklyReviewAt), 'MMM d')}` : 'First review'}
+          </span>
+        </div>
+
+        {/* Progress */}
+        <div className="mt-4 mb-6">
+          <div
+            role="progressbar"
+            aria-label="Review progress"
+            aria-valuenow={completedStages.length}
+            aria-valuemin={0}
+            aria-valuemax={REVIEW_STAGES.length}
+            className="h-1 rounded-full bg-accent overflow-hidden"
+          >
+            <div className="h-full rounded-full bg-primary transition-[width] duration-300" style={{ width: `${progress}%` }} />
+          </div>
+          <ol className="mt-3 flex flex-wrap gap-1">
+            {REVIEW_STAGES.map((s) => {
+              const done = completedStages.includes(s.id);
+              return (
+                <li key={s.id}>
+                  <button
+                    type="button"
+                    onClick={() => goToReviewStage(s.id)}
+                    aria-current={s.id === stage.id ? 'step' : undefined}
+                    className={cn(
+                      'inline-flex items-center gap-1.5 px-2 py-1 rounded-md text-xs transition-colors cursor-default',
+                      s.id === stage.id ? 'bg-accent text-foreground' : 'text-muted-foreground hover:bg-accent/60',
+                    )}
+                  >
+                    {done && <Check className="size-3 text-primary" />}
+                    <span>{s.label}</span>
+                    <span className="tabular-nums text-muted-foreground/60">{remaining[s.id]}</span>
+                  </button>
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+
+        <h3 className="text-sm font-semibold text-foreground">{stage.label}</h3>
+        <p className="text-xs text-muted-foreground mt-0.5 mb-4">{stage.hint}</p>
+
+        {STAGE_STATUS[stage.id] && (
+          tasksByStage[stage.id]!.length === 0 ? (
+            <EmptyStage />
+          ) : (
+            <TaskList
+              tasks={tasksByStage[stage.id]!}
+              onCompleteTask={handleComplete}
+              onSelectTask={selectTask}
+              selectedTaskId={selectedTaskId}
+              completedIds={completedIds}
+            />
+          )
+        )}
+
+        {stage.id === 'projects' && (
+          stalledProjects.length === 0 ? (
+            <EmptyStage />
+          ) : (
+            <div className="flex flex-col gap-1">
+              {stalledProjects.map((p) => (
+                <div key={p.id} className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-accent/40">
+                  <button
+                    type="button"
+                    onClick={() => navigateTab({ view: 'projects', entityId: p.id, entityType: 'project' })}
+                    className="flex items-center gap-2.5 min-w-0 w-56 text-left cursor-default"
+                  >
+                    <FolderKanban className="size-4 text-muted-foreground/60 shrink-0" strokeWidth={1.5} />
+                    <span className="text-sm font-medium truncate">{p.title}</span>
+                  </button>
+                  <div className="flex-1 flex items-center gap-1.5 text-muted-foreground">
+                    <Plus className="size-3.5 shrink-0" />
+                    <input
+                      value={nextActionDrafts[p.id] ?? ''}
+                      onChange={(e) => setNextActionDrafts((prev) => ({ ...prev, [p.id]: e.target.value }))}
+                      onKeyDown={addNextAction(p.id)}
+                      placeholder="Add a next action…"
+                      aria-label={`Next action for ${p.title}`}
+                      className="flex-1 bg-transparent text-sm text-foreground placeholder:text-muted-foreground/50 outline-none"
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )
+        )}
+
+        {stage.id === 'upcoming' && (
+          upcoming.meetings.length === 0 && upcoming.deadlines.length === 0 ? (
+            <EmptyStage />
+          ) : (
+            <div className="flex flex-col gap-6">
+              {upcoming.meetings.length > 0 && (
+                <div className="flex flex-col">
+                  {upcoming.meetings.map((m) => (
+                    <div
+                      key={m.id}
+                      onClick={() => navigateTab({ view: 'meetings', entityId: m.id, entityType: 'meeting' })}
+                      className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-accent/40 cursor-default transition-colors"
+                    >
+                      <Video className="size-4 text-muted-foreground shrink-0" strokeWidth={1.5} />
+                      <span className="flex-1 min-w-0 text-sm truncate">{m.title}</span>
+                      <span className="text-xs text-muted-foreground tabular-nums">
+                        {format(parseISO(m.start_time), m.is_all_day ? 'EEE MMM d' : 'EEE MMM d, HH:mm')}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {upcoming.deadlines.length > 0 && (
+                <TaskList
+                  title="Deadlines"
+                  tasks={upcoming.deadlines}
+                  onCompleteTask={handleComplete}
+                  onSelectTask={selectTask}
+                  selectedTaskId={selectedTaskId}
+                />
+              )}
+            </div>
+          )
+        )}
+
+        {stage.id === 'stakeholders' && (
+          peopleToContact.length === 0 ? (
+            <EmptyStage />
+          ) : (
+            <div className="flex flex-col">
+              {peopleToContact.map(({ stakeholder, lastContactAt }) => (
+                <div key={stakeholder.id} className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-accent/40">
+                  <button
+                    type="button"
+                    onClick={() => navigateTab({ view: 'stakeholders', entityId: stakeholder.id, entityType: 'stakeholder' })}
+                    className="flex-1 flex items-center gap-2.5 min-w-0 text-left cursor-default"
+                  >
+                    <UserRound className="size-4 text-muted-foreground/60 shrink-0" strokeWidth={1.5} />
+                    <span className="text-sm font-medium truncate">{stakeholder.name}</span>
+                    {stakeholder.organization && (
+                      <span className="text-xs text-muted-foreground truncate">{stakeholder.organization}</span>
+                    )}
+                  </button>
+                  <span className="text-xs text-muted-foreground">
+                    {lastContactAt ? `Last contact ${format(parseISO(lastContactAt), 'MMM d')}` : 'No contact yet'}
+                  </span>
+                  {followedUpIds.has(stakeholder.id) ? (
+                    <span className="inline-flex items-center gap-1 text-xs text-muted-foreground w-24 justify-end">
+                      <Check className="size-3" />
+                      In inbox
+                    </span>
+                  ) : (
+                    <Button size="sm" variant="ghost" className="w-24" onClick={() => addFollowUp(stakeholder.id, stakeholder.name)}>
+                      Follow up
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )
+        )}
+
+        <div className="flex items-center justify-between mt-8 pt-4 border-t border-border/50">
+          <Button
+            size="sm"
+            variant="ghost"
+            disabled={stageIndex === 0}
+            onClick={() => goToReviewStage(REVIEW_STAGES[stageIndex - 1].id)}
+          >
+            <ChevronLeft className="size-3.5" />
+            Back
+          </Button>
+          <Button size="sm" onClick={handleNext}>
+            {stageIndex === REVIEW_STAGES.length - 1 ? 'Finish review' : 'Done, next stage'}
+            {stageIndex < REVIEW_STAGES.length - 1 && <ChevronRight className="size-3.5" />}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function EmptyStage() {
+  return (
+    <div className="flex flex-col items-center justify-center py-14 text-muted-foreground">
+      <CheckCircle2 className="size-8 mb-2 opacity-20" strokeWidth={1.25} />
+      <p className="text-sm">Nothing to go through here</p>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useEffect, useState } from 'react';
 import { format, parseISO } from 'date-fns';
-import { Bot, Plus, KeyRound, User, CloudSun, Layers, Mic } from 'lucide-react';
+import { Bot, Plus, KeyRound, User, CloudSun, Layers, Mic, Database, FileInput, Hourglass, Timer } from 'lucide-react';
 import { useStore } from '../stores';
 import { Button } from '@renderer/components/ui/button';
 import { Input } from '@renderer/components/ui/input';
@@ -8,6 +8,9 @@ import { Label } from '@renderer/components/ui/label';
 import { CreateAgentDialog } from '@renderer/components/settings/CreateAgentDialog';
 import { ContextSettings } from '@renderer/components/ContextSettings';
 import { RecordingTranscriptionSettings } from '@renderer/components/settings/RecordingTranscriptionSettings';
+import { DataSettings } from '@renderer/components/settings/DataSettings';
+import { TaskImportSettings } from '@renderer/components/settings/TaskImportSettings';
+import { RetentionPolicySettings } from '@renderer/components/settings/RetentionPolicySettings';
 
 export function SettingsView() {
   const agents = useStore((s) => s.agents);
@@ -29,6 +32,11 @@ export function SettingsView() {
   const setWeatherCity = useStore((s) => s.setWeatherCity);
   const [city, setCity] = useState(weatherCity);
 
+  // Planning settings
+  const workdayHours = useStore((s) => s.workdayHours);
+  const setWorkdayHours = useStore((s) => s.setWorkdayHours);
+  const [hours, setHours] = useState(String(workdayHours));
+
   useEffect(() => {
     fetchAgents();
   }, [fetchAgents]);
@@ -38,6 +46,9 @@ export function SettingsView() {
 
   const profileDirty = firstName !== userFirstName || lastName !== userLastName;
   const cityDirty = city !== weatherCity;
+  const parsedHours = Number(hours);
+  const hoursValid = hours.trim() !== '' && parsedHours >= 0.5 && parsedHours <= 24;
+  const hoursDirty = hoursValid && parsedHours !== workdayHours;
 
   return (
     <div className="flex-1 overflow-y-auto">
@@ -120,6 +131,41 @@ export function SettingsView() {
           </div>
         </section>
 
+        {/* Planning Section */}
+        <section className="mb-8">
+          <div className="flex items-center gap-2 mb-4">
+            <Timer className="size-4 text-muted-foreground" />
+            <h2 className="text-sm font-medium">Planning</h2>
+          </div>
+          <div className="rounded-lg border border-border p-4 space-y-4">
+            <div className="space-y-1.5">
+              <Label htmlFor="workdayHours" className="text-xs text-muted-foreground">Workday length (hours)</Label>
+              <Input
+                id="workdayHours"
+                type="number"
+                min={0.5}
+                max={24}
+                step={0.5}
+                value={hours}
+                onChange={(e) => setHours(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Today compares task estimates against this, minus the day&apos;s meetings.
+              </p>
+            </div>
+            {hoursDirty && (
+              <div className="flex justify-end">
+                <Button
+                  size="sm"
+                  onClick={() => setWorkdayHours(parsedHours)}
+                >
+                  Save
+                </Button>
+              </div>
+            )}
+          </div>
+        </section>
+
         {/* Recording & Transcription Section */}
         <section className="mb-8">
           <div className="flex items-center gap-2 mb-4">
@@ -138,6 +184,33 @@ export function SettingsView() {
           <ContextSettings />
         </section>
 
+        {/* Stale Tasks & Trash Section */}
+        <section className="mb-8">
+          <div className="flex items-center gap-2 mb-4">
+            <Hourglass className="size-4 text-muted-foreground" />
+            <h2 className="text-sm font-medium">Stale Tasks & Trash</h2>
+          </div>
+          <RetentionPolicySettings />
+        </section>
+
+        {/* Data Section */}
+        <section className="mb-8">
+          <div className="flex items-center gap-2 mb-4">
+            <Database className="size-4 text-muted-foreground" />
+            <h2 className="text-sm font-medium">Data</h2>
+          </div>
+          <DataSettings />
+        </section>
+
+        {/* Import from other apps Section */}
+        <section className="mb-8">
+          <div className="flex items-center gap-2 mb-4">
+            <FileInput className="size-4 text-muted-foreground" />
+            <h2 className="text-sm font-medium">Import from other apps</h2>
+          </div>
+          <TaskImportSettings />
+        </section>
+
         {/* AI Agents Section */}
         <section>
           <div className="flex items-center justify-between mb-4">
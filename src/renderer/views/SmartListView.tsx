@@ -0,0 +1,192 @@
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { ListFilter, Pencil, Trash2, Check, X } from 'lucide-react';
+import type { TaskStatus } from '@shared/types';
+import { useStore } from '../stores';
+import { TaskList } from '../components/TaskList';
+import { SmartListEditor } from '../components/SmartListEditor';
+import { Popover, PopoverContent, PopoverTrigger } from '../components/ui/popover';
+
+const DISMISS_DELAY_MS = 2500;
+
+interface SmartListViewProps {
+  listId: string;
+}
+
+export function SmartListView({ listId }: SmartListViewProps) {
+  const list = useStore((s) => s.smartLists.find((l) => l.id === listId));
+  const tasks = useStore((s) => s.tasks);
+  const fetchSmartListTasks = useStore((s) => s.fetchSmartListTasks);
+  const updateSmartList = useStore((s) => s.updateSmartList);
+  const deleteSmartList = useStore((s) => s.deleteSmartList);
+  const navigateTab = useStore((s) => s.navigateTab);
+  const updateTask = useStore((s) => s.updateTask);
+  const selectTask = useStore((s) => s.selectTask);
+  const selectedTaskId = useStore((s) => s.selectedTaskId);
+
+  const [matchedIds, setMatchedIds] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [completedIds, setCompletedIds] = useState<Set<string>>(new Set());
+  const [dismissedIds, setDismissedIds] = useState<Set<string>>(new Set());
+  // Status each task had before it was completed here, so uncompleting puts it back
+  const previousStatuses = useRef(new Map<string, TaskStatus>());
+  const dismissTimers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  const completedIdsRef = useRef(completedIds);
+  completedIdsRef.current = completedIds;
+
+  useEffect(() => {
+    const timers = dismissTimers.current;
+    return () => timers.forEach(clearTimeout);
+  }, []);
+
+  // The query runs in the main process; re-run it whenever tasks change so edits move tasks in and out
+  useEffect(() => {
+    if (!list) return;
+    let cancelled = false;
+    fetchSmartListTasks(list.id)
+      .then((matched) => {
+        if (cancelled) return;
+        setMatchedIds(new Set(matched.map((t) => t.id)));
+        setError(null);
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : String(err));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [list, tasks, fetchSmartListTasks]);
+
+  const listTasks = useMemo(
+    () => tasks.filter((t) => {
+      if (dismissedIds.has(t.id)) return false;
+      return matchedIds.has(t.id) || previousStatuses.current.has(t.id);
+    }),
+    [tasks, matchedIds, dismissedIds],
+  );
+
+  const handleComplete = useCallback(
+    (id: string) => {
+      if (completedIdsRef.current.has(id)) {
+        updateTask(id, { status: previousStatuses.current.get(id) ?? 'inbox' });
+        previousStatuses.current.delete(id);
+        setCompletedIds((prev) => {
+          const next = new Set(prev);
+          next.delete(id);
+          return next;
+        });
+        const existing = dismissTimers.current.get(id);
+        if (existing) {
+          clearTimeout(existing);
+          dismissTimers.current.delete(id);
+        }
+      } else {
+        const task = useStore.getState().tasks.find((t) => t.id === id);
+        if (!task) return;
+        previousStatuses.current.set(id, task.status);
+        updateTask(id, { status: 'logbook' });
+        setCompletedIds((prev) => new Set(prev).add(id));
+        const timer = setTimeout(() => {
+          setDismissedIds((prev) => new Set(prev).add(id));
+          dismissTimers.current.delete(id);
+        }, DISMISS_DELAY_MS);
+        dismissTimers.current.set(id, timer);
+      }
+    },
+    [updateTask],
+  );
+
+  if (!list) {
+    return (
+      <div className="flex-1 flex items-center justify-center text-sm text-muted-foreground">
+        List not found
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 overflow-y-auto">
+      <div className="max-w-5xl mx-auto px-8 py-8">
+        <div className="flex items-center gap-3 mb-1">
+          <h2 className="flex-1 text-xl font-semibold text-foreground truncate">{list.name}</h2>
+          <Popover open={editing} onOpenChange={setEditing}>
+            <PopoverTrigger asChild>
+              <button
+                type="button"
+                aria-label="Edit list"
+                className="p-1 rounded text-muted-foreground/40 hover:text-foreground transition-colors"
+              >
+                <Pencil className="size-3.5" />
+              </button>
+            </PopoverTrigger>
+            <PopoverContent className="w-80 p-3" align="end">
+              <SmartListEditor
+                initial={{ name: list.name, query: list.query }}
+                onCancel={() => setEditing(false)}
+                onSave={(input) => {
+                  updateSmartList(list.id, input);
+                  setEditing(false);
+                }}
+              />
+            </PopoverContent>
+          </Popover>
+          {confirmingDelete ? (
+            <div className="flex items-center gap-1.5 rounded-lg bg-accent px-2.5 py-1">
+              <span className="text-sm text-muted-foreground mr-1">Confirm?</span>
+              <button
+                type="button"
+                aria-label="Confirm delete list"
+                onClick={() => {
+                  deleteSmartList(list.id);
+                  navigateTab({ view: 'home' });
+                }}
+                className="p-1 rounded bg-destructive/15 text-destructive hover:bg-destructive/25 transition-colors"
+              >
+                <Check className="size-3.5" />
+              </button>
+              <button
+                type="button"
+                aria-label="Cancel delete list"
+                onClick={() => setConfirmingDelete(false)}
+                className="p-1 rounded text-muted-foreground hover:bg-accent hover:text-foreground transition-colors"
+              >
+                <X className="size-3.5" />
+              </button>
+            </div>
+          ) : (
+            <button
+              type="button"
+              aria-label="Delete list"
+              onClick={() => setConfirmingDelete(true)}
+              className="p-1 rounded text-muted-foreground/40 hover:text-destructive transition-colors"
+            >
+              <Trash2 className="size-3.5" />
+            </button>
+          )}
+        </div>
+        <p className="font-mono text-xs text-muted-foreground mb-6">{list.query}</p>
+
+        {error ? (
+          <div role="alert" className="py-20 text-center text-sm text-destructive">
+            This list's query can't be run: {error}
+          </div>
+        ) : listTasks.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-20 text-muted-foreground">
+            <ListFilter className="size-10 mb-3 opacity-30" strokeWidth={1.25} />
+            <p className="text-sm">No tasks match this list</p>
+          </div>
+        ) : (
+          <TaskList
+            tasks={listTasks}
+            onCompleteTask={handleComplete}
+            onSelectTask={selectTask}
+            selectedTaskId={selectedTaskId}
+            completedIds={completedIds}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useStore } from '../stores';
 import { TaskList } from '../components/TaskList';
 import { InlineTaskCard } from '../components/InlineTaskCard';
 import { filterTasksByContext } from '../lib/contextFilter';
+import { filterByTags } from '../lib/tagFilter';
 import { sortByPriority } from '../lib/prioritySort';
 
 const DISMISS_DELAY_MS = 2500;
@@ -12,6 +13,8 @@ export function SomedayView() {
   const tasks = useStore((s) => s.tasks);
   const projects = useStore((s) => s.projects);
   const activeContextIds = useStore((s) => s.activeContextIds);
+  const activeTagIds = useStore((s) => s.activeTagIds);
+  const entityTags = useStore((s) => s.entityTags);
   const fetchTasks = useStore((s) => s.fetchTasks);
   const updateTask = useStore((s) => s.updateTask);
   const selectTask = useStore((s) => s.selectTask);
@@ -41,8 +44,8 @@ export function SomedayView() {
       if (t.status === 'someday') return true;
       return false;
     });
-    return sortByPriority(filterTasksByContext(visible, activeContextIds, projects));
-  }, [tasks, dismissedIds, activeContextIds, projects]);
+    return sortByPriority(filterByTags(filterTasksByContext(visible, activeContextIds, projects), 'task', activeTagIds, entityTags));
+  }, [tasks, dismissedIds, activeContextIds, activeTagIds, entityTags, projects]);
 
   const handleComplete = useCallback(
     (id: string) => {
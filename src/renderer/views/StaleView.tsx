@@ -3,6 +3,7 @@ import { Clock } from 'lucide-react';
 import { useStore } from '../stores';
 import { TaskList } from '../components/TaskList';
 import { filterTasksByContext } from '../lib/contextFilter';
+import { filterByTags } from '../lib/tagFilter';
 import { sortByPriority } from '../lib/prioritySort';
 
 const DISMISS_DELAY_MS = 2500;
@@ -11,6 +12,8 @@ export function StaleView() {
   const tasks = useStore((s) => s.tasks);
   const projects = useStore((s) => s.projects);
   const activeContextIds = useStore((s) => s.activeContextIds);
+  const activeTagIds = useStore((s) => s.activeTagIds);
+  const entityTags = useStore((s) => s.entityTags);
   const fetchTasks = useStore((s) => s.fetchTasks);
   const updateTask = useStore((s) => s.updateTask);
   const selectTask = useStore((s) => s.selectTask);
@@ -39,8 +42,8 @@ export function StaleView() {
       if (t.status === 'stale') return true;
       return false;
     });
-    return sortByPriority(filterTasksByContext(visible, activeContextIds, projects));
-  }, [tasks, dismissedIds, activeContextIds, projects]);
+    return sortByPriority(filterByTags(filterTasksByContext(visible, activeContextIds, projects), 'task', activeTagIds, entityTags));
+  }, [tasks, dismissedIds, activeContextIds, activeTagIds, entityTags, projects]);
 
   const handleComplete = useCallback(
     (id: string) => {
@@ -0,0 +1,63 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, within, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom/vitest';
+import { addWeeks, startOfWeek } from 'date-fns';
+import { TimeReportView } from './TimeReportView';
+
+const mockFetchTimeReport = vi.fn();
+const mockExportTimeCsv = vi.fn();
+const mockShowToast = vi.fn();
+
+const weekStart = startOfWeek(new Date(), { weekStartsOn: 1 });
+const thisWeek = { from: weekStart.toISOString(), to: addWeeks(weekStart, 1).toISOString() };
+const mockReport = {
+  ...thisWeek,
+  total_seconds: 9000,
+  by_project: [{ id: 'p1', name: 'Acme site', seconds: 7200 }, { id: null, name: 'No project', seconds: 1800 }],
+  by_context: [{ id: 'c1', name: 'Work', seconds: 9000 }],
+  by_stakeholder: [{ id: 's1', name: 'Acme', seconds: 7200 }, { id: null, name: 'No stakeholder', seconds: 1800 }],
+};
+
+vi.mock('../stores', () => ({
+  useStore: (selector: (state: Record<string, unknown>) => unknown) => selector({
+    timeReport: mockReport,
+    fetchTimeReport: mockFetchTimeReport,
+    exportTimeCsv: mockExportTimeCsv,
+    runningTimeEntry: null,
+    showToast: mockShowToast,
+  }),
+}));
+
+describe('TimeReportView', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('summarises this week by project, context and stakeholder', () => {
+    render(<TimeReportView />);
+
+    expect(mockFetchTimeReport).toHaveBeenCalledWith(thisWeek);
+    expect(screen.getByTestId('time-total')).toHaveTextContent('2h 30m');
+    const byProject = within(screen.getByRole('region', { name: 'By project' }));
+    expect(byProject.getByText('Acme site')).toBeInTheDocument();
+    expect(byProject.getByText('2h')).toBeInTheDocument();
+    expect(within(screen.getByRole('region', { name: 'By stakeholder' })).getByText('No stakeholder')).toBeInTheDocument();
+  });
+
+  it('moves between weeks and exports the one shown', async () => {
+    mockExportTimeCsv.mockResolvedValue('/tmp/time.csv');
+    render(<TimeReportView />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Previous week' }));
+    const lastWeek = { from: addWeeks(weekStart, -1).toISOString(), to: weekStart.toISOString() };
+    expect(mockFetchTimeReport).toHaveBeenLastCalledWith(lastWeek);
+    // The loaded report is for another week until the new one arrives
+    expect(screen.queryByTestId('time-total')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'This week' }));
+    fireEvent.click(screen.getByRole('button', { name: /Export CSV/ }));
+    expect(mockExportTimeCsv).toHaveBeenCalledWith(thisWeek);
+    await waitFor(() => expect(mockShowToast).toHaveBeenCalledWith('Time exported as CSV'));
+  });
+});
@@ -0,0 +1,128 @@
+import { useState, useEffect, useMemo } from 'react';
+import { addWeeks, format, isSameMonth, startOfWeek } from 'date-fns';
+import { ChevronLeft, ChevronRight, Download, Timer } from 'lucide-react';
+import type { TimeReportRow } from '@shared/types';
+import { formatEstimate } from '@shared/estimate';
+import { useStore } from '../stores';
+import { Button } from '../components/ui/button';
+
+/** Reports refresh this often while a timer runs, so its time keeps adding up */
+const RUNNING_REFRESH_MS = 60_000;
+
+function formatDuration(seconds: number): string {
+  return formatEstimate(Math.round(seconds / 60));
+}
+
+function weekLabel(start: Date): string {
+  const end = addWeeks(start, 1);
+  end.setDate(end.getDate() - 1);
+  return isSameMonth(start, end)
+    ? `${format(start, 'MMM d')} – ${format(end, 'd, yyyy')}`
+    : `${format(start, 'MMM d')} – ${format(end, 'MMM d, yyyy')}`;
+}
+
+/** Tracked time for one week, by project, context and stakeholder */
+export function TimeReportView() {
+  const timeReport = useStore((s) => s.timeReport);
+  const fetchTimeReport = useStore((s) => s.fetchTimeReport);
+  const exportTimeCsv = useStore((s) => s.exportTimeCsv);
+  const runningTimeEntry = useStore((s) => s.runningTimeEntry);
+  const showToast = useStore((s) => s.showToast);
+
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const range = useMemo(
+    () => ({ from: weekStart.toISOString(), to: addWeeks(weekStart, 1).toISOString() }),
+    [weekStart],
+  );
+  const runningId = runningTimeEntry?.id ?? null;
+
+  useEffect(() => {
+    fetchTimeReport(range);
+    if (!runningId) return;
+    const timer = setInterval(() => fetchTimeReport(range), RUNNING_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [range, runningId, fetchTimeReport]);
+
+  // A report for another week may still be showing while this one loads
+  const report = timeReport?.from === range.from ? timeReport : null;
+  const isThisWeek = range.from === startOfWeek(new Date(), { weekStartsOn: 1 }).toISOString();
+
+  const handleExport = async () => {
+    const path = await exportTimeCsv(range);
+    if (path) showToast('Time exported as CSV');
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto">
+      <div className="max-w-3xl mx-auto px-8 py-8">
+        <div className="flex items-center gap-3 mb-6">
+          <h2 className="text-xl font-semibold text-foreground">Time</h2>
+          <div className="flex items-center gap-0.5 ml-2">
+            <Button size="sm" variant="ghost" aria-label="Previous week" onClick={() => setWeekStart((w) => addWeeks(w, -1))}>
+              <ChevronLeft className="size-3.5" />
+            </Button>
+            <span className="text-sm text-foreground tabular-nums min-w-36 text-center">{weekLabel(weekStart)}</span>
+            <Button size="sm" variant="ghost" aria-label="Next week" onClick={() => setWeekStart((w) => addWeeks(w, 1))}>
+              <ChevronRight className="size-3.5" />
+            </Button>
+          </div>
+          {!isThisWeek && (
+            <Button size="sm" variant="ghost" onClick={() => setWeekStart(startOfWeek(new Date(), { weekStartsOn: 1 }))}>
+              This week
+            </Button>
+          )}
+          <div className="flex-1" />
+          <Button size="sm" variant="outline" onClick={handleExport} disabled={!report || report.total_seconds === 0}>
+            <Download className="size-3.5" />
+            Export CSV
+          </Button>
+        </div>
+
+        {report && report.total_seconds === 0 && (
+          <div className="flex flex-col items-center justify-center py-20 text-muted-foreground">
+            <Timer className="size-8 mb-2 opacity-20" strokeWidth={1.25} />
+            <p className="text-sm">No time tracked this week</p>
+            <p className="text-xs mt-1">Start a timer from any task with the play button.</p>
+          </div>
+        )}
+
+        {report && report.total_seconds > 0 && (
+          <div className="flex flex-col gap-8">
+            <p className="text-sm text-muted-foreground">
+              Total <span data-testid="time-total" className="text-foreground font-medium tabular-nums">{formatDuration(report.total_seconds)}</span>
+            </p>
+            <ReportSection title="By project" rows={report.by_project} />
+            <ReportSection title="By context" rows={report.by_context} />
+            <ReportSection
+              title="By stakeholder"
+              hint="Time on a project counts for each of its stakeholders."
+              rows={report.by_stakeholder}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ReportSection({ title, hint, rows }: { title: string; hint?: string; rows: TimeReportRow[] }) {
+  const longest = Math.max(...rows.map((row) => row.seconds), 1);
+
+  return (
+    <section aria-label={title}>
+      <h3 className="text-sm font-semibold text-foreground">{title}</h3>
+      {hint && <p className="text-xs text-muted-foreground mt-0.5">{hint}</p>}
+      <ul className="mt-2 flex flex-col">
+        {rows.map((row) => (
+          <li key={row.id ?? 'none'} className="flex items-center gap-3 px-3 py-1.5 rounded-lg hover:bg-accent/40">
+            <span className={`w-48 text-sm truncate ${row.id ? 'text-foreground' : 'text-muted-foreground'}`}>{row.name}</span>
+            <div className="flex-1 h-1.5 rounded-full bg-accent overflow-hidden">
+              <div className="h-full rounded-full bg-primary/70" style={{ width: `${(row.seconds / longest) * 100}%` }} />
+            </div>
+            <span className="w-16 text-right text-xs tabular-nums text-muted-foreground">{formatDuration(row.seconds)}</span>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -4,9 +4,14 @@ import { render, screen, act } from '@testing-library/react';
 import '@testing-library/jest-dom/vitest';
 import { TodayView } from './TodayView';
 
+let mockTaskDependencies: Record<string, unknown>[] = [];
 let mockTasks: Record<string, unknown>[] = [];
 let mockProjects: Record<string, unknown>[] = [];
 let mockActiveContextIds: string[] = [];
+let mockMeetings: Record<string, unknown>[] = [];
+const mockEntityTags: Record<string, unknown>[] = [];
+const mockActiveTagIds: string[] = [];
+const mockBulkUpdateTasks = vi.fn();
 const mockUpdateTask = vi.fn();
 const mockSelectTask = vi.fn();
 
@@ -14,12 +19,17 @@ vi.mock('../stores', () => ({
   useStore: (selector: (state: Record<string, unknown>) => unknown) => {
     const state = {
       tasks: mockTasks,
+      taskDependencies: mockTaskDependencies,
       projects: mockProjects,
       updateTask: mockUpdateTask,
       selectTask: mockSelectTask,
       selectedTaskId: null,
       activeContextIds: mockActiveContextIds,
+      tags: [],
+      entityTags: mockEntityTags,
+      activeTagIds: mockActiveTagIds,
       checklistItems: {},
+      projectHeadings: {},
       checklistsLoading: {},
       fetchChecklistItems: vi.fn(),
       createChecklistItem: vi.fn(),
@@ -30,6 +40,9 @@ vi.mock('../stores', () => ({
       agents: [],
       fetchAgents: vi.fn(),
       authUser: null,
+      meetings: mockMeetings,
+      workdayHours: 8,
+      bulkUpdateTasks: mockBulkUpdateTasks,
     };
     return selector(state);
   },
@@ -80,8 +93,10 @@ describe('TodayView', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     mockTasks = [];
+    mockTaskDependencies = [];
     mockProjects = [];
     mockActiveContextIds = [];
+    mockMeetings = [];
   });
 
   it('shows tasks with when_date=today regardless of status', () => {
@@ -124,6 +139,64 @@ describe('TodayView', () => {
     expect(mockUpdateTask).toHaveBeenCalledWith('task-42', { status: 'logbook' });
   });
 
+  describe('capacity', () => {
+    it('stays hidden while no task has an estimate', () => {
+      mockTasks = [fakeTask({ id: '1', title: 'Unplanned' })];
+      render(<TodayView />);
+      expect(screen.queryByTestId('capacity-bar')).not.toBeInTheDocument();
+    });
+
+    it('compares estimates with the workday minus meetings', () => {
+      mockTasks = [fakeTask({ id: '1', estimate_minutes: 90 })];
+      mockMeetings = [{
+        id: 'm1', start_time: `${TODAY}T10:00:00`, end_time: `${TODAY}T12:00:00`,
+        is_all_day: false, status: 'scheduled', deleted_at: null,
+      }];
+      render(<TodayView />);
+      expect(screen.getByTestId('capacity-bar')).toHaveTextContent('1h 30m planned of 6h available · 2h in meetings');
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    });
+
+    it('warns when over capacity and moves the overflow to tomorrow', () => {
+      mockTasks = [
+        fakeTask({ id: '1', title: 'Big', priority: 'P1', estimate_minutes: 420 }),
+        fakeTask({ id: '2', title: 'Small', estimate_minutes: 90 }),
+        fakeTask({ id: '3', title: 'Later', estimate_minutes: 30 }),
+      ];
+      render(<TodayView />);
+      expect(screen.getByRole('alert')).toHaveTextContent('Over capacity by 1h; 2 tasks don’t fit');
+
+      act(() => { screen.getByRole('button', { name: /move overflow to tomorrow/i }).click(); });
+      expect(mockBulkUpdateTasks).toHaveBeenCalledWith(['2', '3'], { when_date: TOMORROW });
+    });
+  });
+
+  describe('dependencies', () => {
+    const dependency = { id: 'dep-1', task_id: '2', blocked_by_task_id: '1', created_at: '2026-02-17T00:00:00.000Z', deleted_at: null };
+
+    it('dims tasks waiting on an open blocker', () => {
+      mockTasks = [
+        fakeTask({ id: '1', title: 'Write spec', status: 'anytime' }),
+        fakeTask({ id: '2', title: 'Build feature', status: 'today' }),
+      ];
+      mockTaskDependencies = [dependency];
+      render(<TodayView />);
+      expect(screen.getByText('Build feature')).toHaveClass('text-muted-foreground/60');
+      expect(screen.getByTestId('blocked-indicator')).toBeInTheDocument();
+    });
+
+    it('frees a dependent once its blocker is in the logbook', () => {
+      mockTasks = [
+        fakeTask({ id: '1', title: 'Write spec', status: 'logbook' }),
+        fakeTask({ id: '2', title: 'Build feature', status: 'today' }),
+      ];
+      mockTaskDependencies = [dependency];
+      render(<TodayView />);
+      expect(screen.getByText('Build feature')).not.toHaveClass('text-muted-foreground/60');
+      expect(screen.queryByTestId('blocked-indicator')).not.toBeInTheDocument();
+    });
+  });
+
   describe('completed tasks', () => {
     it('keeps a completed task visible in the list', () => {
       mockTasks = [fakeTask({ id: '1', title: 'Just completed', status: 'today' })];
@@ -1,10 +1,13 @@
 import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { Sun } from 'lucide-react';
 import { format } from 'date-fns';
+import { getBlockedTaskIds } from '@shared/task-dependencies';
 import { useStore } from '../stores';
 import { TaskList } from '../components/TaskList';
 import { InlineTaskCard } from '../components/InlineTaskCard';
+import { CapacityBar } from '../components/CapacityBar';
 import { filterTasksByContext } from '../lib/contextFilter';
+import { filterByTags } from '../lib/tagFilter';
 import { sortByPriority } from '../lib/prioritySort';
 
 const DISMISS_DELAY_MS = 2500;
@@ -18,8 +21,11 @@ function getToday(): string {
 
 export function TodayView() {
   const tasks = useStore((s) => s.tasks);
+  const taskDependencies = useStore((s) => s.taskDependencies);
   const projects = useStore((s) => s.projects);
   const activeContextIds = useStore((s) => s.activeContextIds);
+  const activeTagIds = useStore((s) => s.activeTagIds);
+  const entityTags = useStore((s) => s.entityTags);
   const updateTask = useStore((s) => s.updateTask);
   const selectTask = useStore((s) => s.selectTask);
   const selectedTaskId = useStore((s) => s.selectedTaskId);
@@ -109,8 +115,10 @@ export function TodayView() {
       if (t.deadline && t.deadline < today) return false;
       return t.status === 'today' || t.when_date === today;
     });
-    return sortByPriority(filterTasksByContext(visible, activeContextIds, projects));
-  }, [tasks, today, dismissedIds, activeContextIds, projects]);
+    return sortByPriority(filterByTags(filterTasksByContext(visible, activeContextIds, projects), 'task', activeTagIds, entityTags));
+  }, [tasks, today, dismissedIds, activeContextIds, activeTagIds, entityTags, projects]);
+
+  const blockedIds = useMemo(() => getBlockedTaskIds(tasks, taskDependencies), [tasks, taskDependencies]);
 
   const handleComplete = useCallback(
     (id: string) => {
@@ -159,6 +167,8 @@ export function TodayView() {
           <h2 className="text-xl font-semibold text-foreground">Today</h2>
         </div>
 
+        <CapacityBar tasks={todayTasks} />
+
         {isInlineCreating && <InlineTaskCard />}
 
         {todayTasks.length === 0 && !isInlineCreating ? (
@@ -173,6 +183,7 @@ export function TodayView() {
             onSelectTask={selectTask}
             selectedTaskId={selectedTaskId}
             completedIds={completedIds}
+            blockedIds={blockedIds}
           />
         )}
       </div>
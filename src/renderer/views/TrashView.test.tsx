@@ -7,9 +7,19 @@ import { TrashView } from './TrashView';
 // Mock the store
 const mockStore: Record<string, unknown> = {
   trashedTasks: [],
+  trashedProjects: [],
+  trashedNotes: [],
+  trashedMeetings: [],
+  trashedStakeholders: [],
   fetchTrashedTasks: vi.fn(),
+  fetchTrash: vi.fn(),
   restoreTask: vi.fn(),
+  restoreProject: vi.fn(),
+  restoreNote: vi.fn(),
+  restoreMeeting: vi.fn(),
+  restoreStakeholder: vi.fn(),
   emptyTrash: vi.fn(),
+  emptyEntityTrash: vi.fn(),
 };
 
 vi.mock('../stores', () => ({
@@ -39,6 +49,10 @@ describe('TrashView', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     mockStore.trashedTasks = [];
+    mockStore.trashedProjects = [];
+    mockStore.trashedNotes = [];
+    mockStore.trashedMeetings = [];
+    mockStore.trashedStakeholders = [];
   });
 
   it('does not call emptyTrash on first click — shows confirmation', () => {
@@ -57,6 +71,7 @@ describe('TrashView', () => {
     fireEvent.click(screen.getByLabelText('Empty Trash'));
     fireEvent.click(screen.getByLabelText('Confirm empty trash'));
     expect(mockStore.emptyTrash).toHaveBeenCalledOnce();
+    expect(mockStore.emptyEntityTrash).toHaveBeenCalledOnce();
   });
 
   it('resets confirmation when No clicked', () => {
@@ -77,5 +92,33 @@ describe('TrashView', () => {
     expect(mockStore.restoreTask).toHaveBeenCalledWith('task-1');
   });
 
-});
+  it('lists tasks trashed with a project under that project', () => {
+    const deletedAt = '2026-03-01T09:00:00.000Z';
+    mockStore.trashedProjects = [{ id: 'project-1', title: 'Launch', deleted_at: deletedAt }];
+    mockStore.trashedTasks = [
+      fakeTask({ id: 'task-1', title: 'Cascaded', project_id: 'project-1', deleted_at: deletedAt }),
+      fakeTask({ id: 'task-2', title: 'Loose task' }),
+    ];
+    render(<TrashView />);
+    expect(screen.queryByText('Cascaded')).not.toBeInTheDocument();
+    expect(screen.getByText('1 task')).toBeInTheDocument();
+    fireEvent.click(screen.getByLabelText('Restore project'));
+    expect(mockStore.restoreProject).toHaveBeenCalledWith('project-1');
+  });
+
+  it('filters by entity type and title', () => {
+    mockStore.trashedTasks = [fakeTask({ title: 'Old task' })];
+    mockStore.trashedNotes = [{ id: 'note-1', title: 'Meeting prep', deleted_at: '2026-03-01T09:00:00.000Z' }];
+    mockStore.trashedStakeholders = [{ id: 'sh-1', name: 'Ada', organization: null, deleted_at: '2026-03-01T09:00:00.000Z' }];
+    render(<TrashView />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Notes' }));
+    expect(screen.getByText('Meeting prep')).toBeInTheDocument();
+    expect(screen.queryByText('Old task')).not.toBeInTheDocument();
 
+    fireEvent.click(screen.getByRole('button', { name: 'All' }));
+    fireEvent.change(screen.getByLabelText('Filter trash'), { target: { value: 'ada' } });
+    expect(screen.getByText('Ada')).toBeInTheDocument();
+    expect(screen.queryByText('Meeting prep')).not.toBeInTheDocument();
+  });
+});
@@ -1,21 +1,108 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { format, parseISO } from 'date-fns';
-import { Trash2, RotateCcw, Check, X } from 'lucide-react';
+import { Trash2, RotateCcw, Check, X, Search } from 'lucide-react';
 import { useStore } from '../stores';
 
+type TrashKind = 'task' | 'project' | 'note' | 'meeting' | 'stakeholder';
+type TrashFilter = 'all' | TrashKind;
+
+interface TrashRow {
+  id: string;
+  kind: TrashKind;
+  title: string;
+  /** Secondary text, e.g. how many tasks went to the trash with a project */
+  detail?: string;
+  deletedAt: string | null;
+}
+
+const SECTIONS: { kind: TrashKind; label: string }[] = [
+  { kind: 'task', label: 'Tasks' },
+  { kind: 'project', label: 'Projects' },
+  { kind: 'note', label: 'Notes' },
+  { kind: 'meeting', label: 'Meetings' },
+  { kind: 'stakeholder', label: 'Stakeholders' },
+];
+
 export function TrashView() {
   const trashedTasks = useStore((s) => s.trashedTasks);
+  const trashedProjects = useStore((s) => s.trashedProjects);
+  const trashedNotes = useStore((s) => s.trashedNotes);
+  const trashedMeetings = useStore((s) => s.trashedMeetings);
+  const trashedStakeholders = useStore((s) => s.trashedStakeholders);
   const fetchTrashedTasks = useStore((s) => s.fetchTrashedTasks);
+  const fetchTrash = useStore((s) => s.fetchTrash);
   const restoreTask = useStore((s) => s.restoreTask);
+  const restoreProject = useStore((s) => s.restoreProject);
+  const restoreNote = useStore((s) => s.restoreNote);
+  const restoreMeeting = useStore((s) => s.restoreMeeting);
+  const restoreStakeholder = useStore((s) => s.restoreStakeholder);
   const emptyTrash = useStore((s) => s.emptyTrash);
+  const emptyEntityTrash = useStore((s) => s.emptyEntityTrash);
 
   const [confirming, setConfirming] = useState(false);
+  const [filter, setFilter] = useState<TrashFilter>('all');
+  const [query, setQuery] = useState('');
 
   useEffect(() => {
     fetchTrashedTasks();
-  }, [fetchTrashedTasks]);
+    fetchTrash();
+  }, [fetchTrashedTasks, fetchTrash]);
+
+  const rows = useMemo<TrashRow[]>(() => {
+    // Tasks trashed together with their project come back with it, so they
+    // are listed under the project rather than on their own
+    const projectDeletedAt = new Map(trashedProjects.map((p) => [p.id, p.deleted_at]));
+    const cascaded = new Map<string, number>();
+    const tasks: TrashRow[] = [];
+    for (const task of trashedTasks) {
+      if (task.project_id && task.deleted_at && projectDeletedAt.get(task.project_id) === task.deleted_at) {
+        cascaded.set(task.project_id, (cascaded.get(task.project_id) ?? 0) + 1);
+        continue;
+      }
+      tasks.push({ id: task.id, kind: 'task', title: task.title, deletedAt: task.deleted_at });
+    }
 
-  const count = trashedTasks.length;
+    return [
+      ...tasks,
+      ...trashedProjects.map((p): TrashRow => {
+        const taskCount = cascaded.get(p.id) ?? 0;
+        return {
+          id: p.id,
+          kind: 'project',
+          title: p.title,
+          detail: taskCount > 0 ? `${taskCount} ${taskCount === 1 ? 'task' : 'tasks'}` : undefined,
+          deletedAt: p.deleted_at,
+        };
+      }),
+      ...trashedNotes.map((n): TrashRow => ({ id: n.id, kind: 'note', title: n.title, deletedAt: n.deleted_at })),
+      ...trashedMeetings.map((m): TrashRow => ({ id: m.id, kind: 'meeting', title: m.title, deletedAt: m.deleted_at })),
+      ...trashedStakeholders.map((s): TrashRow => ({
+        id: s.id,
+        kind: 'stakeholder',
+        title: s.name,
+        detail: s.organization ?? undefined,
+        deletedAt: s.deleted_at,
+      })),
+    ];
+  }, [trashedTasks, trashedProjects, trashedNotes, trashedMeetings, trashedStakeholders]);
+
+  const visibleRows = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return rows.filter((row) =>
+      (filter === 'all' || row.kind === filter) &&
+      (!needle || row.title.toLowerCase().includes(needle)),
+    );
+  }, [rows, filter, query]);
+
+  const restore: Record<TrashKind, (id: string) => Promise<void>> = {
+    task: restoreTask,
+    project: restoreProject,
+    note: restoreNote,
+    meeting: restoreMeeting,
+    stakeholder: restoreStakeholder,
+  };
+
+  const count = rows.length;
 
   return (
     <div className="flex-1 overflow-y-auto">
@@ -32,6 +119,7 @@ export function TrashView() {
                   aria-label="Confirm empty trash"
                   onClick={() => {
                     emptyTrash();
+                    emptyEntityTrash();
                     setConfirming(false);
                   }}
                   className="p-1 rounded bg-destructive/15 text-destructive hover:bg-destructive/25 transition-colors"
@@ -64,30 +152,79 @@ export function TrashView() {
             <p className="text-sm">Trash is empty</p>
           </div>
         ) : (
-          <div className="flex flex-col">
-            {trashedTasks.map((task) => (
-              <div
-                key={task.id}
-                className="group flex items-center gap-3 px-3 py-2.5 rounded-lg hover:bg-accent/40 transition-colors"
-              >
-                <span className="flex-1 text-sm text-muted-foreground line-through truncate">
-                  {task.title}
-                </span>
-                <button
-                  onClick={() => restoreTask(task.id)}
-                  aria-label="Restore task"
-                  className="opacity-0 group-hover:opacity-100 p-1 rounded text-muted-foreground hover:text-foreground transition-all"
-                >
-                  <RotateCcw className="size-3.5" />
-                </button>
-                {task.deleted_at && (
-                  <span className="text-xs text-muted-foreground/60 shrink-0">
-                    {format(parseISO(task.deleted_at), 'M/d/yyyy')}
-                  </span>
-                )}
+          <>
+            <div className="flex items-center gap-3 mb-4">
+              <div className="flex gap-1">
+                {[{ kind: 'all' as const, label: 'All' }, ...SECTIONS].map(({ kind, label }) => (
+                  <button
+                    key={kind}
+                    onClick={() => setFilter(kind)}
+                    aria-pressed={filter === kind}
+                    className={`px-2.5 py-1 text-xs rounded-md transition-colors ${
+                      filter === kind
+                        ? 'bg-primary text-primary-foreground'
+                        : 'bg-muted text-muted-foreground hover:text-foreground'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
               </div>
-            ))}
-          </div>
+              <div className="relative flex-1 max-w-xs ml-auto">
+                <Search className="absolute left-2 top-1/2 -translate-y-1/2 size-3.5 text-muted-foreground" />
+                <input
+                  aria-label="Filter trash"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder="Filter"
+                  className="w-full rounded-md bg-muted pl-7 pr-2 py-1 text-sm text-foreground placeholder:text-muted-foreground outline-none"
+                />
+              </div>
+            </div>
+
+            {visibleRows.length === 0 ? (
+              <p className="py-10 text-center text-sm text-muted-foreground">Nothing matches</p>
+            ) : (
+              <div className="flex flex-col gap-6">
+                {SECTIONS.map(({ kind, label }) => {
+                  const sectionRows = visibleRows.filter((row) => row.kind === kind);
+                  if (sectionRows.length === 0) return null;
+                  return (
+                    <section key={kind} aria-label={label}>
+                      <h3 className="px-3 mb-1 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                        {label} <span className="text-muted-foreground/60">{sectionRows.length}</span>
+                      </h3>
+                      {sectionRows.map((row) => (
+                        <div
+                          key={row.id}
+                          className="group flex items-center gap-3 px-3 py-2.5 rounded-lg hover:bg-accent/40 transition-colors"
+                        >
+                          <span className="flex-1 text-sm text-muted-foreground line-through truncate">
+                            {row.title}
+                          </span>
+                          {row.detail && (
+                            <span className="text-xs text-muted-foreground/60 shrink-0">{row.detail}</span>
+                          )}
+                          <button
+                            onClick={() => restore[row.kind](row.id)}
+                            aria-label={`Restore ${row.kind}`}
+                            className="opacity-0 group-hover:opacity-100 p-1 rounded text-muted-foreground hover:text-foreground transition-all"
+                          >
+                            <RotateCcw className="size-3.5" />
+                          </button>
+                          {row.deletedAt && (
+                            <span className="text-xs text-muted-foreground/60 shrink-0">
+                              {format(parseISO(row.deletedAt), 'M/d/yyyy')}
+                            </span>
+                          )}
+                        </div>
+                      ))}
+                    </section>
+                  );
+                })}
+              </div>
+            )}
+          </>
         )}
       </div>
     </div>
@@ -19,6 +19,7 @@ vi.mock('../stores', () => ({
       selectTask: mockSelectTask,
       selectedTaskId: null,
       checklistItems: {},
+      projectHeadings: {},
       checklistsLoading: {},
       fetchChecklistItems: vi.fn(),
       createChecklistItem: vi.fn(),
@@ -27,6 +28,9 @@ vi.mock('../stores', () => ({
       projects: [],
       contexts: [],
       activeContextIds: [],
+      tags: [],
+      entityTags: [],
+      activeTagIds: [],
       fetchProjects: vi.fn(),
       agents: [],
       fetchAgents: vi.fn(),
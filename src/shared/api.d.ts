@@ -1,12 +1,26 @@
 import type {
-  Task, CreateTaskInput, UpdateTaskInput,
+  Task, CreateTaskInput, UpdateTaskInput, BulkUpdateTaskInput,
   Project, CreateProjectInput, UpdateProjectInput,
+  ProjectHeading, CreateProjectHeadingInput, UpdateProjectHeadingInput,
   Context, CreateContextInput, UpdateContextInput,
   ChecklistItem, CreateChecklistItemInput, UpdateChecklistItemInput,
+  TaskDependency,
+  Reminder, CreateReminderInput, ReminderTarget,
+  Tag, CreateTagInput, UpdateTagInput, EntityTag, TaggableEntityType,
+  SmartList, CreateSmartListInput, UpdateSmartListInput,
+  Template, CreateTemplateInput, UpdateTemplateInput, ApplyTemplateInput, AppliedTemplate,
+  TimeEntry, RunningTimeEntry, TimeRange, TimeReport, IdleTimeWarning,
+  EntityChange,
+  StakeholderContact,
   AIAgent, CreateAIAgentInput,
   Meeting, CreateMeetingInput, UpdateMeetingInput, MeetingAttendee,
+  DailyNote,
+  ExportOptions, ImportSummary,
+  ImportFormat, TaskImportPreview, TaskImportResult,
+  RetentionPreview, UndoStatus,
 } from './types';
 import type { HybridSearchResult, SearchStatus, SearchableEntityType } from './search-types';
+import type { AppSettings, AppSettingsPatch, RetentionSettings } from './settings-types';
 import type { AudioSource, WhisperModelInfo, WhisperModel } from './recording-types';
 
 declare global {
@@ -16,8 +30,13 @@ declare global {
         list(): Promise<Task[]>;
         get(id: string): Promise<Task | null>;
         create(input: CreateTaskInput): Promise<Task>;
+        createMany(inputs: CreateTaskInput[]): Promise<Task[]>;
         update(id: string, input: UpdateTaskInput): Promise<Task>;
+        bulkUpdate(ids: string[], input: BulkUpdateTaskInput): Promise<Task[]>;
+        move(id: string, orderedIds: string[]): Promise<Task[]>;
         delete(id: string): Promise<void>;
+        /** Fold the task into another task's checklist; the task goes to the trash */
+        demote(id: string, targetTaskId: string): Promise<ChecklistItem>;
         listTrashed(): Promise<Task[]>;
         restore(id: string): Promise<Task>;
         emptyTrash(): Promise<void>;
@@ -28,7 +47,19 @@ declare global {
         get(id: string): Promise<Project | null>;
         create(input: CreateProjectInput): Promise<Project>;
         update(id: string, input: UpdateProjectInput): Promise<Project>;
+        move(id: string, orderedIds: string[]): Promise<Project[]>;
         delete(id: string): Promise<void>;
+        listTrashed(): Promise<Project[]>;
+        restore(id: string): Promise<Project>;
+        emptyTrash(): Promise<void>;
+      };
+      projectHeadings: {
+        list(projectId: string): Promise<ProjectHeading[]>;
+        create(input: CreateProjectHeadingInput): Promise<ProjectHeading>;
+        update(id: string, input: UpdateProjectHeadingInput): Promise<ProjectHeading>;
+        delete(id: string): Promise<void>;
+        reorder(projectId: string, headingIds: string[]): Promise<void>;
+        archive(id: string): Promise<ProjectHeading>;
       };
       contexts: {
         list(): Promise<Context[]>;
@@ -43,6 +74,9 @@ declare global {
         create(input: unknown): Promise<unknown>;
         update(id: string, input: unknown): Promise<unknown>;
         delete(id: string): Promise<void>;
+        listTrashed(): Promise<unknown[]>;
+        restore(id: string): Promise<unknown>;
+        emptyTrash(): Promise<void>;
       };
       meetings: {
         list(): Promise<Meeting[]>;
@@ -50,6 +84,9 @@ declare global {
         create(input: CreateMeetingInput): Promise<Meeting>;
         update(id: string, input: UpdateMeetingInput): Promise<Meeting>;
         delete(id: string): Promise<void>;
+        listTrashed(): Promise<Meeting[]>;
+        restore(id: string): Promise<Meeting>;
+        emptyTrash(): Promise<void>;
       };
       meetingAttendees: {
         list: (meetingId: string) => Promise<MeetingAttendee[]>;
@@ -63,6 +100,9 @@ declare global {
         update(id: string, input: UpdateChecklistItemInput): Promise<ChecklistItem>;
         delete(id: string): Promise<void>;
         reorder(taskId: string, itemIds: string[]): Promise<void>;
+        move(id: string, orderedIds: string[]): Promise<ChecklistItem[]>;
+        /** Turn the item into a task in its task's project, heading and context */
+        promote(id: string): Promise<Task>;
       };
       agents: {
         list(): Promise<AIAgent[]>;
@@ -75,6 +115,71 @@ declare global {
         create(input: unknown): Promise<unknown>;
         update(id: string, input: unknown): Promise<unknown>;
         delete(id: string): Promise<void>;
+        listTrashed(): Promise<unknown[]>;
+        restore(id: string): Promise<unknown>;
+        emptyTrash(): Promise<void>;
+        lastContacts(): Promise<StakeholderContact[]>;
+      };
+      taskDependencies: {
+        list(): Promise<TaskDependency[]>;
+        listByTask(taskId: string): Promise<TaskDependency[]>;
+        link(input: { task_id: string; blocked_by_task_id: string }): Promise<TaskDependency>;
+        unlink(input: { task_id: string; blocked_by_task_id: string }): Promise<void>;
+      };
+      reminders: {
+        list(): Promise<Reminder[]>;
+        create(input: CreateReminderInput): Promise<Reminder>;
+        delete(id: string): Promise<void>;
+        onOpen(callback: (target: ReminderTarget) => void): () => void;
+      };
+      tags: {
+        list(): Promise<Tag[]>;
+        create(input: CreateTagInput): Promise<Tag>;
+        update(id: string, input: UpdateTagInput): Promise<Tag>;
+        delete(id: string): Promise<void>;
+        listEntityTags(): Promise<EntityTag[]>;
+        tag(input: { tag_id: string; entity_type: TaggableEntityType; entity_id: string }): Promise<EntityTag>;
+        untag(input: { tag_id: string; entity_type: TaggableEntityType; entity_id: string }): Promise<void>;
+      };
+      smartLists: {
+        list(): Promise<SmartList[]>;
+        create(input: CreateSmartListInput): Promise<SmartList>;
+        update(id: string, input: UpdateSmartListInput): Promise<SmartList>;
+        delete(id: string): Promise<void>;
+        /** Tasks the list's query matches */
+        tasks(id: string): Promise<Task[]>;
+        /** Matching task count per list id */
+        counts(): Promise<Record<string, number>>;
+      };
+      templates: {
+        list(): Promise<Template[]>;
+        create(input: CreateTemplateInput): Promise<Template>;
+        update(id: string, input: UpdateTemplateInput): Promise<Template>;
+        delete(id: string): Promise<void>;
+        /** Save a project's open tasks, headings and checklists as a template */
+        fromProject(projectId: string, name: string): Promise<Template>;
+        fromTask(taskId: string, name: string): Promise<Template>;
+        /** Create the project or task the template describes */
+        apply(id: string, input: ApplyTemplateInput): Promise<AppliedTemplate>;
+      };
+      timeEntries: {
+        /** The entry whose timer is running, if any */
+        running(): Promise<RunningTimeEntry | null>;
+        /** Time a task, stopping whichever timer was running */
+        start(taskId: string): Promise<TimeEntry>;
+        stop(): Promise<TimeEntry | null>;
+        /** Drop the time after `idle_since`; with `resume` the task is timed again from now */
+        discardIdle(input: { entry_id: string; idle_since: string; resume: boolean }): Promise<TimeEntry | null>;
+        report(range: TimeRange): Promise<TimeReport>;
+        /** Returns the path the CSV was written to, or null if the user cancelled */
+        exportCsv(range: TimeRange): Promise<string | null>;
+        onIdle(callback: (warning: IdleTimeWarning) => void): () => void;
+      };
+      history: {
+        /** Changes to a task, project, note or meeting, newest first */
+        list(entityId: string): Promise<EntityChange[]>;
+        /** Puts the item back the way it was right after the change */
+        restore(changeId: string): Promise<void>;
       };
       projectStakeholders: {
         list: (projectId: string) => Promise<{ project_id: string; stakeholder_id: string; created_at: string }[]>;
@@ -89,8 +194,14 @@ declare global {
         unlink: (input: { note_id: string; stakeholder_id: string }) => Promise<void>;
       };
       dailyNotes: {
-        get(date: string): Promise<unknown>;
-        upsert(date: string, content: string): Promise<unknown>;
+        get(date: string): Promise<DailyNote | null>;
+        list(): Promise<DailyNote[]>;
+        upsert(date: string, content: string): Promise<DailyNote>;
+      };
+      undo: {
+        status(): Promise<UndoStatus>;
+        undo(): Promise<string | null>;
+        redo(): Promise<string | null>;
       };
       onFocusTaskInput(callback: () => void): () => void;
       onStaleCheckComplete(callback: () => void): () => void;
@@ -114,10 +225,15 @@ declare global {
         status(): Promise<SearchStatus>;
       };
       system: {
-        exportData(): Promise<unknown>;
-        importData(filePath: string): Promise<void>;
-        getSettings(): Promise<unknown>;
-        setSettings(settings: unknown): Promise<void>;
+        exportData(options?: ExportOptions): Promise<string | null>;
+        importData(filePath?: string): Promise<ImportSummary | null>;
+        previewTaskImport(format: ImportFormat, filePath?: string): Promise<TaskImportPreview | null>;
+        applyTaskImport(format: ImportFormat, filePath: string): Promise<TaskImportResult>;
+        getSettings(): Promise<AppSettings>;
+        setSettings(patch: AppSettingsPatch): Promise<AppSettings>;
+        migrateSettings(legacy: Record<string, unknown>): Promise<AppSettings>;
+        previewRetention(settings: RetentionSettings): Promise<RetentionPreview>;
+        onSettingsChanged(callback: (settings: AppSettings) => void): () => void;
       };
       recording: {
         getSources(): Promise<AudioSource[]>;
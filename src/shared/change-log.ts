@@ -0,0 +1,56 @@
+/**
+ * Field-level history of tasks, projects, notes and meetings.
+ *
+ * Each write becomes one `entity_changes` row listing the columns it changed
+ * with their old and new values, stored as JSON. The desktop app records
+ * writes made through IPC and the agent daemon records its own, so the
+ * timeline covers both. Bookkeeping columns (timestamps, ordering, who
+ * created or last touched the row) are left out; who made the change is the
+ * history row's own `source` / `agent_id`.
+ */
+import type { EntityChangeAction, FieldChange, HistoryEntityType } from './types';
+
+type Row = Record<string, unknown>;
+
+/** Tables with a change history, and the entity type their rows are logged under */
+export const HISTORY_TABLES: Record<string, HistoryEntityType> = {
+  tasks: 'task',
+  projects: 'project',
+  notes: 'note',
+  meetings: 'meeting',
+};
+
+const UNTRACKED_COLUMNS = new Set([
+  'id', 'user_id', 'created_at', 'updated_at', 'sort_order',
+  'source', 'agent_id', 'updated_by_source', 'updated_by_agent_id',
+]);
+
+export function isTrackedColumn(column: string): boolean {
+  return !UNTRACKED_COLUMNS.has(column);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return a === b || (a == null && b == null);
+}
+
+/** The tracked columns that differ between two versions of a row. null stands for a row that doesn't exist */
+export function diffFields(before: Row | null, after: Row | null): Record<string, FieldChange> {
+  const columns = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  const changes: Record<string, FieldChange> = {};
+  for (const column of columns) {
+    if (!isTrackedColumn(column)) continue;
+    const from = before?.[column] ?? null;
+    const to = after?.[column] ?? null;
+    // A new row lists only the fields it was given
+    if (!before && to === null) continue;
+    if (!sameValue(from, to)) changes[column] = { from, to };
+  }
+  return changes;
+}
+
+/** Moving to the trash counts as a delete, like removing the row */
+export function changeAction(before: Row | null, after: Row | null): EntityChangeAction {
+  if (!before) return 'create';
+  if (!after || (!before.deleted_at && after.deleted_at)) return 'delete';
+  return 'update';
+}
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { parseEstimate, formatEstimate } from './estimate';
+
+describe('parseEstimate', () => {
+  it('reads minutes', () => {
+    expect(parseEstimate('30')).toBe(30);
+    expect(parseEstimate('30m')).toBe(30);
+    expect(parseEstimate('45min')).toBe(45);
+  });
+
+  it('reads hours and mixed values', () => {
+    expect(parseEstimate('2h')).toBe(120);
+    expect(parseEstimate('1.5h')).toBe(90);
+    expect(parseEstimate('1,5h')).toBe(90);
+    expect(parseEstimate('1h30')).toBe(90);
+    expect(parseEstimate('1H30M')).toBe(90);
+  });
+
+  it('rejects anything else', () => {
+    expect(parseEstimate('')).toBeNull();
+    expect(parseEstimate('h')).toBeNull();
+    expect(parseEstimate('soon')).toBeNull();
+    expect(parseEstimate('0m')).toBeNull();
+    expect(parseEstimate('25h')).toBeNull();
+  });
+});
+
+describe('formatEstimate', () => {
+  it('uses the shortest label', () => {
+    expect(formatEstimate(45)).toBe('45m');
+    expect(formatEstimate(120)).toBe('2h');
+    expect(formatEstimate(90)).toBe('1h 30m');
+  });
+});
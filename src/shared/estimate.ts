@@ -0,0 +1,35 @@
+/**
+ * Time estimates for tasks, stored as whole minutes on `tasks.estimate_minutes`.
+ *
+ * Accepted input:
+ *
+ *   30 | 30m | 30min   minutes
+ *   2h | 1.5h         hours
+ *   1h30 | 1h30m      hours and minutes
+ */
+
+/** Longest estimate a single task can carry: one full day */
+export const MAX_ESTIMATE_MINUTES = 24 * 60;
+
+const ESTIMATE_PATTERN = /^(?:(\d+(?:[.,]\d+)?)h)?(?:(\d+)(?:m|min)?)?$/;
+
+/** Parse an estimate into minutes, or null if it isn't one */
+export function parseEstimate(text: string): number | null {
+  const value = text.trim().toLowerCase();
+  const match = ESTIMATE_PATTERN.exec(value);
+  if (!value || !match) return null;
+  const [, hours, minutes] = match;
+  // "1.5" on its own is ambiguous; decimals need an h
+  if (hours === undefined && minutes === undefined) return null;
+
+  const total = Math.round(Number((hours ?? '0').replace(',', '.')) * 60) + Number(minutes ?? 0);
+  return total >= 1 && total <= MAX_ESTIMATE_MINUTES ? total : null;
+}
+
+/** Short label: 45m, 2h, 1h 30m */
+export function formatEstimate(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseRecurrenceRule,
+  formatRecurrenceRule,
+  parseRecurrenceToken,
+  describeRecurrence,
+  firstOccurrence,
+  nextOccurrence,
+} from './recurrence';
+
+// 2026-02-20 is a Friday
+
+describe('parseRecurrenceRule', () => {
+  it('parses every supported rule', () => {
+    expect(parseRecurrenceRule('daily')).toEqual({ type: 'daily' });
+    expect(parseRecurrenceRule('weekly:thu,mon')).toEqual({ type: 'weekly', weekdays: [1, 4] });
+    expect(parseRecurrenceRule('monthly:15')).toEqual({ type: 'monthly', day: 15 });
+    expect(parseRecurrenceRule('after:3')).toEqual({ type: 'after_completion', days: 3 });
+  });
+
+  it('rejects malformed rules', () => {
+    expect(parseRecurrenceRule('weekly')).toBeNull();
+    expect(parseRecurrenceRule('weekly:funday')).toBeNull();
+    expect(parseRecurrenceRule('monthly:32')).toBeNull();
+    expect(parseRecurrenceRule('after:0')).toBeNull();
+    expect(parseRecurrenceRule('hourly:1')).toBeNull();
+  });
+
+  it('round-trips through formatRecurrenceRule', () => {
+    for (const value of ['daily', 'weekly:mon,thu', 'monthly:1', 'after:14']) {
+      expect(formatRecurrenceRule(parseRecurrenceRule(value)!)).toBe(value);
+    }
+  });
+});
+
+describe('parseRecurrenceToken', () => {
+  it('maps quick-add values to stored rules', () => {
+    expect(parseRecurrenceToken('day')).toBe('daily');
+    expect(parseRecurrenceToken('mon')).toBe('weekly:mon');
+    expect(parseRecurrenceToken('Friday,tue')).toBe('weekly:tue,fri');
+    expect(parseRecurrenceToken('weekdays')).toBe('weekly:mon,tue,wed,thu,fri');
+    expect(parseRecurrenceToken('15th')).toBe('monthly:15');
+    expect(parseRecurrenceToken('3d')).toBe('after:3');
+  });
+
+  it('returns null for unknown values', () => {
+    expect(parseRecurrenceToken('fortnight')).toBeNull();
+    expect(parseRecurrenceToken('40th')).toBeNull();
+    expect(parseRecurrenceToken('')).toBeNull();
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('produces readable labels', () => {
+    expect(describeRecurrence('daily')).toBe('Daily');
+    expect(describeRecurrence('weekly:mon,tue,wed,thu,fri')).toBe('Every weekday');
+    expect(describeRecurrence('weekly:mon,thu')).toBe('Every Mon, Thu');
+    expect(describeRecurrence('monthly:2')).toBe('Monthly on the 2nd');
+    expect(describeRecurrence('after:1')).toBe('1 day after completion');
+  });
+});
+
+describe('firstOccurrence', () => {
+  it('includes the start date when it matches', () => {
+    expect(firstOccurrence({ type: 'weekly', weekdays: [5] }, '2026-02-20')).toBe('2026-02-20');
+  });
+
+  it('finds the next matching day otherwise', () => {
+    expect(firstOccurrence({ type: 'weekly', weekdays: [1] }, '2026-02-20')).toBe('2026-02-23');
+  });
+
+  it('has no fixed first date for completion-based rules', () => {
+    expect(firstOccurrence({ type: 'after_completion', days: 2 }, '2026-02-20')).toBeNull();
+  });
+});
+
+describe('nextOccurrence', () => {
+  it('advances a daily task to the day after the anchor', () => {
+    expect(nextOccurrence({ type: 'daily' }, '2026-02-20', '2026-02-20')).toBe('2026-02-21');
+  });
+
+  it('advances a weekly task completed on time by a week', () => {
+    expect(nextOccurrence({ type: 'weekly', weekdays: [1] }, '2026-02-23', '2026-02-23')).toBe('2026-03-02');
+  });
+
+  it('skips occurrences that are already past when completed late', () => {
+    expect(nextOccurrence({ type: 'weekly', weekdays: [1] }, '2026-02-09', '2026-02-18')).toBe('2026-02-23');
+  });
+
+  it('continues from a future anchor when completed early', () => {
+    expect(nextOccurrence({ type: 'weekly', weekdays: [1] }, '2026-02-23', '2026-02-20')).toBe('2026-03-02');
+  });
+
+  it('clamps monthly rules to the end of shorter months', () => {
+    expect(nextOccurrence({ type: 'monthly', day: 31 }, '2026-01-31', '2026-01-31')).toBe('2026-02-28');
+  });
+
+  it('counts completion-based rules from the completion day', () => {
+    expect(nextOccurrence({ type: 'after_completion', days: 3 }, '2026-02-01', '2026-02-20')).toBe('2026-02-23');
+  });
+});
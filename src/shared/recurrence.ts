@@ -0,0 +1,206 @@
+/**
+ * Repeat rules for recurring tasks.
+ *
+ * Rules are stored on `tasks.recurrence` as short strings so they sync and
+ * diff cleanly:
+ *
+ *   daily            every day
+ *   weekly:mon,thu   on the listed weekdays
+ *   monthly:15       on day 15 (clamped to the last day of shorter months)
+ *   after:3          3 days after the previous instance was completed
+ *
+ * All dates are yyyy-MM-dd strings and all arithmetic is done in UTC, the
+ * same way TaskService derives "today".
+ */
+
+export type RecurrenceRule =
+  | { type: 'daily' }
+  | { type: 'weekly'; weekdays: number[] } // 0 = Sunday … 6 = Saturday
+  | { type: 'monthly'; day: number }
+  | { type: 'after_completion'; days: number };
+
+const WEEKDAY_KEYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const WEEKDAY_ALIASES: Record<string, number> = {
+  sun: 0, sunday: 0,
+  mon: 1, monday: 1,
+  tue: 2, tues: 2, tuesday: 2,
+  wed: 3, wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4,
+  fri: 5, friday: 5,
+  sat: 6, saturday: 6,
+};
+
+// Upper bound for the day-by-day search; any valid rule matches well within it
+const MAX_SEARCH_DAYS = 400;
+
+function toDate(value: string): Date {
+  const [y, m, d] = value.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+export function addDaysToDate(value: string, days: number): string {
+  const date = toDate(value);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toDateString(date);
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((toDate(to).getTime() - toDate(from).getTime()) / (24 * 60 * 60 * 1000));
+}
+
+function daysInMonth(date: Date): number {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+}
+
+function matches(rule: RecurrenceRule, value: string): boolean {
+  const date = toDate(value);
+  switch (rule.type) {
+    case 'daily':
+      return true;
+    case 'weekly':
+      return rule.weekdays.includes(date.getUTCDay());
+    case 'monthly':
+      return date.getUTCDate() === Math.min(rule.day, daysInMonth(date));
+    case 'after_completion':
+      return false;
+  }
+}
+
+function ordinal(n: number): string {
+  const mod100 = n % 100;
+  if (mod100 >= 11 && mod100 <= 13) return `${n}th`;
+  switch (n % 10) {
+    case 1: return `${n}st`;
+    case 2: return `${n}nd`;
+    case 3: return `${n}rd`;
+    default: return `${n}th`;
+  }
+}
+
+/** Parse a stored rule string. Returns null if it is not a valid rule. */
+export function parseRecurrenceRule(value: string): RecurrenceRule | null {
+  if (value === 'daily') return { type: 'daily' };
+
+  const [kind, arg] = value.split(':');
+  if (arg === undefined) return null;
+
+  if (kind === 'weekly') {
+    const weekdays = arg.split(',').map((d) => WEEKDAY_KEYS.indexOf(d as typeof WEEKDAY_KEYS[number]));
+    if (weekdays.length === 0 || weekdays.includes(-1)) return null;
+    return { type: 'weekly', weekdays: [...new Set(weekdays)].sort() };
+  }
+
+  if (!/^\d+$/.test(arg)) return null;
+  const n = parseInt(arg, 10);
+
+  if (kind === 'monthly' && n >= 1 && n <= 31) return { type: 'monthly', day: n };
+  if (kind === 'after' && n >= 1 && n <= 365) return { type: 'after_completion', days: n };
+  return null;
+}
+
+/** Serialize a rule to its stored string form. */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  switch (rule.type) {
+    case 'daily':
+      return 'daily';
+    case 'weekly':
+      return `weekly:${[...rule.weekdays].sort().map((d) => WEEKDAY_KEYS[d]).join(',')}`;
+    case 'monthly':
+      return `monthly:${rule.day}`;
+    case 'after_completion':
+      return `after:${rule.days}`;
+  }
+}
+
+/** Human-readable label, e.g. "Every Mon, Thu" or "Monthly on the 15th". */
+export function describeRecurrence(value: string): string {
+  const rule = parseRecurrenceRule(value);
+  if (!rule) return value;
+  switch (rule.type) {
+    case 'daily':
+      return 'Daily';
+    case 'weekly':
+      if (rule.weekdays.join(',') === '1,2,3,4,5') return 'Every weekday';
+      return `Every ${rule.weekdays.map((d) => WEEKDAY_LABELS[d]).join(', ')}`;
+    case 'monthly':
+      return `Monthly on the ${ordinal(rule.day)}`;
+    case 'after_completion':
+      return rule.days === 1 ? '1 day after completion' : `${rule.days} days after completion`;
+  }
+}
+
+/**
+ * Parse the value of an `every:` quick-add token into a stored rule string.
+ *
+ *   every:day, every:daily   → daily
+ *   every:mon, every:mon,thu → weekly:mon,thu
+ *   every:weekday            → weekly:mon,tue,wed,thu,fri
+ *   every:15th               → monthly:15
+ *   every:3d                 → after:3
+ */
+export function parseRecurrenceToken(input: string): string | null {
+  const raw = input.trim().toLowerCase();
+  if (!raw) return null;
+
+  if (raw === 'day' || raw === 'daily') return 'daily';
+  if (raw === 'weekday' || raw === 'weekdays') return 'weekly:mon,tue,wed,thu,fri';
+
+  const dayOfMonth = raw.match(/^(\d{1,2})(st|nd|rd|th)$/);
+  if (dayOfMonth) {
+    const day = parseInt(dayOfMonth[1], 10);
+    return day >= 1 && day <= 31 ? `monthly:${day}` : null;
+  }
+
+  const afterDays = raw.match(/^(\d+)(d|day|days)$/);
+  if (afterDays) {
+    const days = parseInt(afterDays[1], 10);
+    return days >= 1 && days <= 365 ? `after:${days}` : null;
+  }
+
+  const weekdays = raw.split(',').map((d) => WEEKDAY_ALIASES[d]);
+  if (weekdays.every((d) => d !== undefined)) {
+    return formatRecurrenceRule({ type: 'weekly', weekdays });
+  }
+
+  return null;
+}
+
+/**
+ * First date on or after `from` that fits the rule. Used to schedule a new
+ * recurring task that was created without a date. Completion-based rules
+ * have no fixed schedule, so they return null.
+ */
+export function firstOccurrence(rule: RecurrenceRule, from: string): string | null {
+  if (rule.type === 'after_completion') return null;
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++) {
+    const candidate = addDaysToDate(from, i);
+    if (matches(rule, candidate)) return candidate;
+  }
+  return null;
+}
+
+/**
+ * Date of the instance that follows one anchored at `anchor` (its when_date,
+ * or deadline if it had no when_date) and completed on `completedOn`.
+ *
+ * Schedule-based rules continue from the anchor but never land on or before
+ * the completion day, so finishing late does not produce instances that are
+ * already overdue (and would immediately be picked up by markStaleTasks).
+ */
+export function nextOccurrence(rule: RecurrenceRule, anchor: string | null, completedOn: string): string {
+  if (rule.type === 'after_completion') {
+    return addDaysToDate(completedOn, rule.days);
+  }
+
+  const from = anchor && anchor > completedOn ? anchor : completedOn;
+  for (let i = 1; i <= MAX_SEARCH_DAYS; i++) {
+    const candidate = addDaysToDate(from, i);
+    if (matches(rule, candidate)) return candidate;
+  }
+  throw new Error('Recurrence rule has no upcoming occurrence');
+}
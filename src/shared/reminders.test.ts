@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { getReminderTime, getReminderDueAt, isReminderDue, snoozeUntil } from './reminders';
+
+const reminder = (overrides: Partial<Parameters<typeof isReminderDue>[0]> = {}) => ({
+  meeting_id: null,
+  remind_at: null,
+  offset_minutes: null,
+  snoozed_until: null,
+  fired_at: null,
+  ...overrides,
+});
+
+describe('getReminderTime', () => {
+  it('uses the absolute time when set', () => {
+    const at = '2026-02-20T14:30:00.000Z';
+    expect(getReminderTime(reminder({ remind_at: at }), {})).toEqual(new Date(at));
+  });
+
+  it('counts back from the morning of the deadline', () => {
+    const time = getReminderTime(reminder({ offset_minutes: 24 * 60 }), { deadline: '2026-02-20' });
+    expect(time).toEqual(new Date(2026, 1, 19, 9));
+  });
+
+  it('counts back from the start of a meeting', () => {
+    const time = getReminderTime(
+      reminder({ meeting_id: 'm-1', offset_minutes: 10 }),
+      { start_time: '2026-02-20T14:00:00.000Z' },
+    );
+    expect(time).toEqual(new Date('2026-02-20T13:50:00.000Z'));
+  });
+
+  it('has no time while the task has no deadline', () => {
+    expect(getReminderTime(reminder({ offset_minutes: 0 }), { deadline: null })).toBeNull();
+  });
+});
+
+describe('getReminderDueAt', () => {
+  it('prefers the snooze over the computed time', () => {
+    const snoozed = '2026-02-21T08:00:00.000Z';
+    const due = getReminderDueAt(reminder({ offset_minutes: 0, snoozed_until: snoozed }), { deadline: '2026-02-20' });
+    expect(due).toEqual(new Date(snoozed));
+  });
+});
+
+describe('isReminderDue', () => {
+  const now = new Date('2026-02-20T12:00:00.000Z');
+
+  it('fires once its time has passed, including missed ones', () => {
+    expect(isReminderDue(reminder({ remind_at: '2026-02-20T11:59:00.000Z' }), {}, now)).toBe(true);
+    expect(isReminderDue(reminder({ remind_at: '2026-02-18T08:00:00.000Z' }), {}, now)).toBe(true);
+    expect(isReminderDue(reminder({ remind_at: '2026-02-20T12:01:00.000Z' }), {}, now)).toBe(false);
+  });
+
+  it('skips reminders already shown for their current time', () => {
+    const shown = reminder({ remind_at: '2026-02-20T11:00:00.000Z', fired_at: '2026-02-20T11:00:05.000Z' });
+    expect(isReminderDue(shown, {}, now)).toBe(false);
+  });
+
+  it('fires again after a snooze runs out', () => {
+    const snoozed = reminder({
+      remind_at: '2026-02-20T11:00:00.000Z',
+      fired_at: '2026-02-20T11:00:05.000Z',
+      snoozed_until: '2026-02-20T11:10:05.000Z',
+    });
+    expect(isReminderDue(snoozed, {}, now)).toBe(true);
+  });
+});
+
+describe('snoozeUntil', () => {
+  const now = new Date(2026, 1, 20, 16, 45);
+
+  it('adds ten minutes or an hour', () => {
+    expect(snoozeUntil('10m', now)).toEqual(new Date(2026, 1, 20, 16, 55));
+    expect(snoozeUntil('1h', now)).toEqual(new Date(2026, 1, 20, 17, 45));
+  });
+
+  it('moves to tomorrow morning', () => {
+    expect(snoozeUntil('tomorrow', now)).toEqual(new Date(2026, 1, 21, 9));
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * When reminders go off.
+ *
+ * A reminder fires at its absolute `remind_at`, or `offset_minutes` before
+ * what it is attached to: a meeting's start, or a task's deadline. Deadlines
+ * are dates, so their reminders count back from the morning of that day.
+ * Once snoozed, `snoozed_until` replaces the computed time.
+ */
+import type { Reminder } from './types';
+
+/** Hour on the deadline day that deadline offsets count back from; also where "tomorrow" snoozes to */
+export const REMINDER_MORNING_HOUR = 9;
+
+export type SnoozeOption = '10m' | '1h' | 'tomorrow';
+
+type Schedule = Pick<Reminder, 'meeting_id' | 'remind_at' | 'offset_minutes' | 'snoozed_until'>;
+
+/** What a reminder counts back from */
+export interface ReminderAnchor {
+  deadline?: string | null;
+  start_time?: string | null;
+}
+
+function validDate(date: Date): Date | null {
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/** The morning of a YYYY-MM-DD deadline in local time */
+export function deadlineMorning(deadline: string): Date | null {
+  const [year, month, day] = deadline.split('-').map(Number);
+  if (!year || !month || !day) return null;
+  return new Date(year, month - 1, day, REMINDER_MORNING_HOUR);
+}
+
+/** The time a reminder is set for, ignoring snoozes; null while its task has no deadline */
+export function getReminderTime(reminder: Schedule, anchor: ReminderAnchor): Date | null {
+  if (reminder.remind_at) return validDate(new Date(reminder.remind_at));
+  if (reminder.offset_minutes == null) return null;
+
+  const base = reminder.meeting_id
+    ? anchor.start_time ? validDate(new Date(anchor.start_time)) : null
+    : anchor.deadline ? deadlineMorning(anchor.deadline) : null;
+  return base && new Date(base.getTime() - reminder.offset_minutes * 60_000);
+}
+
+/** The time a reminder goes off next, snoozes included */
+export function getReminderDueAt(reminder: Schedule, anchor: ReminderAnchor): Date | null {
+  if (reminder.snoozed_until) return validDate(new Date(reminder.snoozed_until));
+  return getReminderTime(reminder, anchor);
+}
+
+/**
+ * Whether a reminder should fire at `now`: its time has come and no device
+ * has shown it since. Moving the deadline or snoozing sets a later time, so
+ * the same reminder can fire again.
+ */
+export function isReminderDue(
+  reminder: Schedule & Pick<Reminder, 'fired_at'>,
+  anchor: ReminderAnchor,
+  now: Date,
+): boolean {
+  const dueAt = getReminderDueAt(reminder, anchor);
+  if (!dueAt || dueAt > now) return false;
+  return !reminder.fired_at || new Date(reminder.fired_at) < dueAt;
+}
+
+export function snoozeUntil(option: SnoozeOption, now: Date): Date {
+  switch (option) {
+    case '10m':
+      return new Date(now.getTime() + 10 * 60_000);
+    case '1h':
+      return new Date(now.getTime() + 60 * 60_000);
+    case 'tomorrow':
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1, REMINDER_MORNING_HOUR);
+  }
+}
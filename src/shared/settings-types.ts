@@ -0,0 +1,57 @@
+import type { TranscriptionProvider, WhisperModel, RecordingMode } from './recording-types';
+import type { Priority } from './types';
+
+/** App settings, persisted by the main process in `<userData>/settings.json` */
+export interface AppSettings {
+  userFirstName: string;
+  userLastName: string;
+  weatherCity: string;
+  transcriptionProvider: TranscriptionProvider;
+  openaiApiKey: string;
+  whisperModel: WhisperModel;
+  defaultRecordingMode: RecordingMode;
+  autoTranscribe: boolean;
+  /** Days without progress before an open task is marked stale */
+  staleAfterDays: number;
+  /** Per-context overrides of staleAfterDays, keyed by context id */
+  staleContextDays: Record<string, number>;
+  /** Priorities that never go stale */
+  staleExemptPriorities: Priority[];
+  /** Tasks due within this many days stay active; 0 turns the rule off */
+  staleDeadlineWindowDays: number;
+  /** Days a trashed item is kept before it is purged */
+  trashRetentionDays: number;
+  /** Hours available for tasks and meetings on a workday */
+  workdayHours: number;
+  /** When the last weekly review was finished, as an ISO timestamp */
+  lastWeeklyReviewAt: string | null;
+}
+
+export type AppSettingsPatch = Partial<AppSettings>;
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  userFirstName: '',
+  userLastName: '',
+  weatherCity: '',
+  transcriptionProvider: 'local',
+  openaiApiKey: '',
+  whisperModel: 'base',
+  defaultRecordingMode: 'both',
+  autoTranscribe: false,
+  staleAfterDays: 5,
+  staleContextDays: {},
+  staleExemptPriorities: [],
+  staleDeadlineWindowDays: 0,
+  trashRetentionDays: 30,
+  workdayHours: 8,
+  lastWeeklyReviewAt: null,
+};
+
+/** The settings that decide which tasks go stale and when trash is purged */
+export type RetentionSettings = Pick<
+  AppSettings,
+  'staleAfterDays' | 'staleContextDays' | 'staleExemptPriorities' | 'staleDeadlineWindowDays' | 'trashRetentionDays'
+>;
+
+/** Keys stored encrypted with safeStorage instead of as plain JSON */
+export const SECRET_SETTING_KEYS: readonly (keyof AppSettings)[] = ['openaiApiKey'];
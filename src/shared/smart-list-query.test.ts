@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { parseSmartListQuery, getSmartListQueryError } from './smart-list-query';
+
+describe('parseSmartListQuery', () => {
+  it('reads every field', () => {
+    expect(parseSmartListQuery('status:today,upcoming priority:P1 context:Work has:checklist')).toEqual([
+      { field: 'status', negated: false, values: ['today', 'upcoming'] },
+      { field: 'priority', negated: false, values: ['P1'] },
+      { field: 'context', negated: false, values: [{ kind: 'name', name: 'Work' }] },
+      { field: 'has', negated: false, values: ['checklist'] },
+    ]);
+  });
+
+  it('negates with - or not', () => {
+    expect(parseSmartListQuery('-project:any not assignee:none')).toEqual([
+      { field: 'project', negated: true, values: [{ kind: 'any' }] },
+      { field: 'assignee', negated: true, values: [{ kind: 'none' }] },
+    ]);
+  });
+
+  it('reads quoted and underscored names', () => {
+    expect(parseSmartListQuery('project:"Website redesign" assignee:Anna_Schmidt context:"none"')).toEqual([
+      { field: 'project', negated: false, values: [{ kind: 'name', name: 'Website redesign' }] },
+      { field: 'assignee', negated: false, values: [{ kind: 'name', name: 'Anna Schmidt' }] },
+      { field: 'context', negated: false, values: [{ kind: 'name', name: 'none' }] },
+    ]);
+  });
+
+  it('reads deadline keywords, dates, comparisons and ranges', () => {
+    expect(parseSmartListQuery('due:overdue,this-week,2099-01-31,<=+7d,today..+2w')[0].values).toEqual([
+      { kind: 'compare', op: '<', at: { days: 0 } },
+      { kind: 'period', period: 'this-week' },
+      { kind: 'between', from: { date: '2099-01-31' }, to: { date: '2099-01-31' } },
+      { kind: 'compare', op: '<=', at: { days: 7 } },
+      { kind: 'between', from: { days: 0 }, to: { days: 14 } },
+    ]);
+  });
+
+  it('explains what is wrong', () => {
+    expect(getSmartListQueryError('colour:red')).toBe('Unknown field "colour"');
+    expect(getSmartListQueryError('urgent')).toBe('Expected field:value, got "urgent"');
+    expect(getSmartListQueryError('priority:p4')).toBe('"p4" is not a valid priority');
+    expect(getSmartListQueryError('due:2099-02-30')).toBe('"2099-02-30" is not a valid due');
+    expect(getSmartListQueryError('project:"Website')).toBe('Missing closing quote');
+    expect(getSmartListQueryError('status:')).toBe('Missing value for status:');
+    expect(getSmartListQueryError('priority:p1 due:today')).toBeNull();
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * The filter language behind smart lists.
+ *
+ * A query is a list of `field:value` terms that must all match:
+ *
+ *   status:today,upcoming      any of the listed statuses
+ *   priority:p1                p1–p3, none or any
+ *   context:Work               context name (inherited from the project), none or any
+ *   project:"Website redesign" project name, none or any
+ *   assignee:Anna_Schmidt      agent or stakeholder name, none or any
+ *   due:this-week              see DUE VALUES below
+ *   has:checklist              has at least one checklist item
+ *
+ * Commas list alternatives within one term. `-` or `not` in front of a term
+ * negates it. Names with spaces are quoted or written with `_`, the same as
+ * quick-add; quoting also makes `"none"` a name rather than the keyword.
+ *
+ * DUE VALUES: none, any, overdue, today, tomorrow, this-week, next-week,
+ * this-month, next-month, a date (`2099-01-31`, `+7d`, `-2w`), a comparison
+ * (`<=+7d`, `>today`) or a range (`today..+14d`). Weeks start on Monday.
+ *
+ * Completed and cancelled tasks are left out unless the query asks for a
+ * status. Parsing is pure; main/db/smart-list-sql.ts turns terms into SQL.
+ */
+import type { TaskStatus, Priority } from './types';
+
+export type SmartListField = 'status' | 'priority' | 'context' | 'project' | 'assignee' | 'due' | 'has';
+
+/** A day relative to today, or a fixed yyyy-MM-dd date */
+export type DateAtom = { days: number } | { date: string };
+
+export type NameMatch = { kind: 'none' } | { kind: 'any' } | { kind: 'name'; name: string };
+
+export type DuePeriod = 'this-week' | 'next-week' | 'this-month' | 'next-month';
+
+export type DueMatch =
+  | { kind: 'none' }
+  | { kind: 'any' }
+  | { kind: 'period'; period: DuePeriod }
+  | { kind: 'compare'; op: '<' | '<=' | '>' | '>='; at: DateAtom }
+  | { kind: 'between'; from: DateAtom; to: DateAtom };
+
+export type SmartListTerm = { negated: boolean } & (
+  | { field: 'status'; values: TaskStatus[] }
+  | { field: 'priority'; values: Array<Priority | 'none' | 'any'> }
+  | { field: 'context' | 'project' | 'assignee'; values: NameMatch[] }
+  | { field: 'due'; values: DueMatch[] }
+  | { field: 'has'; values: Array<'checklist'> }
+);
+
+const STATUSES: TaskStatus[] = ['inbox', 'today', 'upcoming', 'anytime', 'someday', 'stale', 'logbook', 'cancelled'];
+const FIELDS: SmartListField[] = ['status', 'priority', 'context', 'project', 'assignee', 'due', 'has'];
+const DUE_PERIODS: DuePeriod[] = ['this-week', 'next-week', 'this-month', 'next-month'];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const RELATIVE_DATE = /^([+-])(\d{1,4})([dw])$/;
+
+/** A value as written: quoted values are always names */
+interface RawValue {
+  text: string;
+  quoted: boolean;
+}
+
+/** Split on whitespace outside double quotes */
+function splitTerms(query: string): string[] {
+  const terms: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (const char of query) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (/\s/.test(char) && !inQuotes) {
+      if (current) terms.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (inQuotes) throw new Error('Missing closing quote');
+  if (current) terms.push(current);
+  return terms;
+}
+
+/** Split on commas outside double quotes and strip the quotes */
+function splitValues(value: string): RawValue[] {
+  const values: RawValue[] = [];
+  let current = '';
+  let quoted = false;
+  let inQuotes = false;
+  for (const char of value) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+      quoted = true;
+    } else if (char === ',' && !inQuotes) {
+      values.push({ text: current, quoted });
+      current = '';
+      quoted = false;
+    } else {
+      current += char;
+    }
+  }
+  values.push({ text: current, quoted });
+  return values;
+}
+
+function parseDateAtom(text: string): DateAtom | null {
+  const value = text.toLowerCase();
+  if (value === 'today') return { days: 0 };
+  if (value === 'tomorrow') return { days: 1 };
+  if (value === 'yesterday') return { days: -1 };
+  // Round-tripping rejects dates such as 2099-02-30
+  if (ISO_DATE.test(value) && !Number.isNaN(Date.parse(value)) && new Date(value).toISOString().startsWith(value)) {
+    return { date: value };
+  }
+  const relative = RELATIVE_DATE.exec(value);
+  if (relative) {
+    const amount = Number(relative[2]) * (relative[3] === 'w' ? 7 : 1);
+    return { days: relative[1] === '-' ? -amount : amount };
+  }
+  return null;
+}
+
+function parseDue(text: string): DueMatch | null {
+  const value = text.toLowerCase();
+  if (value === 'none' || value === 'any') return { kind: value };
+  if (value === 'overdue') return { kind: 'compare', op: '<', at: { days: 0 } };
+  if ((DUE_PERIODS as string[]).includes(value)) return { kind: 'period', period: value as DuePeriod };
+
+  const compare = /^(<=|>=|<|>)(.+)$/.exec(value);
+  if (compare) {
+    const at = parseDateAtom(compare[2]);
+    return at ? { kind: 'compare', op: compare[1] as '<' | '<=' | '>' | '>=', at } : null;
+  }
+
+  const range = value.split('..');
+  if (range.length === 2) {
+    const from = parseDateAtom(range[0]);
+    const to = parseDateAtom(range[1]);
+    return from && to ? { kind: 'between', from, to } : null;
+  }
+
+  const at = parseDateAtom(value);
+  return at ? { kind: 'between', from: at, to: at } : null;
+}
+
+function parseName({ text, quoted }: RawValue): NameMatch {
+  const keyword = text.toLowerCase();
+  if (!quoted && (keyword === 'none' || keyword === 'any')) return { kind: keyword };
+  // "Anna_Schmidt" is how quick-add writes names with spaces
+  return { kind: 'name', name: quoted ? text : text.replace(/_/g, ' ') };
+}
+
+function parseTerm(raw: string, negated: boolean): SmartListTerm {
+  const colon = raw.indexOf(':');
+  if (colon <= 0) throw new Error(`Expected field:value, got "${raw}"`);
+
+  const field = raw.slice(0, colon).toLowerCase() as SmartListField;
+  if (!FIELDS.includes(field)) throw new Error(`Unknown field "${raw.slice(0, colon)}"`);
+
+  const values = splitValues(raw.slice(colon + 1));
+  if (values.some((v) => !v.text.trim())) throw new Error(`Missing value for ${field}:`);
+  const invalid = (v: RawValue) => new Error(`"${v.text}" is not a valid ${field}`);
+
+  switch (field) {
+    case 'status':
+      return {
+        field, negated, values: values.map((v) => {
+          const status = v.text.toLowerCase() as TaskStatus;
+          if (!STATUSES.includes(status)) throw invalid(v);
+          return status;
+        }),
+      };
+    case 'priority':
+      return {
+        field, negated, values: values.map((v) => {
+          const priority = v.text.toLowerCase();
+          if (priority === 'none' || priority === 'any') return priority;
+          if (!/^p[1-3]$/.test(priority)) throw invalid(v);
+          return priority.toUpperCase() as Priority;
+        }),
+      };
+    case 'due':
+      return {
+        field, negated, values: values.map((v) => {
+          const due = parseDue(v.text);
+          if (!due) throw invalid(v);
+          return due;
+        }),
+      };
+    case 'has':
+      return {
+        field, negated, values: values.map((v) => {
+          if (v.text.toLowerCase() !== 'checklist') throw invalid(v);
+          return 'checklist' as const;
+        }),
+      };
+    default:
+      return { field, negated, values: values.map(parseName) };
+  }
+}
+
+/** Parse a query into terms. Throws with a message fit for the user on bad input */
+export function parseSmartListQuery(query: string): SmartListTerm[] {
+  const words = splitTerms(query);
+  const terms: SmartListTerm[] = [];
+  for (let i = 0; i < words.length; i++) {
+    let word = words[i];
+    let negated = false;
+    if (word.toLowerCase() === 'not') {
+      if (i === words.length - 1) throw new Error('Nothing follows "not"');
+      negated = true;
+      word = words[++i];
+    } else if (word.startsWith('-')) {
+      negated = true;
+      word = word.slice(1);
+    }
+    terms.push(parseTerm(word, negated));
+  }
+  return terms;
+}
+
+/** The parse error for a query, or null if it is valid */
+export function getSmartListQueryError(query: string): string | null {
+  try {
+    parseSmartListQuery(query);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
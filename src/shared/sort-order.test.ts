@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { sortKeyBetween, moveId } from './sort-order';
+
+describe('sortKeyBetween', () => {
+  it('picks the midpoint between two neighbours', () => {
+    expect(sortKeyBetween(1, 2)).toBe(1.5);
+    expect(sortKeyBetween(-3, 5)).toBe(1);
+  });
+
+  it('steps past the first or last row', () => {
+    expect(sortKeyBetween(null, 4)).toBe(3);
+    expect(sortKeyBetween(4, null)).toBe(5);
+    expect(sortKeyBetween(null, null)).toBe(0);
+  });
+
+  it('returns null when the neighbours leave no room', () => {
+    expect(sortKeyBetween(0, 0)).toBeNull();
+    expect(sortKeyBetween(2, 1)).toBeNull();
+    expect(sortKeyBetween(1, 1 + Number.EPSILON)).toBeNull();
+  });
+
+  it('keeps finding keys through many inserts at the same spot', () => {
+    let after = 1;
+    for (let i = 0; i < 40; i++) {
+      const key = sortKeyBetween(0, after);
+      expect(key).not.toBeNull();
+      after = key!;
+    }
+  });
+});
+
+describe('moveId', () => {
+  it('moves an id to its new position', () => {
+    expect(moveId(['a', 'b', 'c', 'd'], 'a', 2)).toEqual(['b', 'c', 'a', 'd']);
+    expect(moveId(['a', 'b', 'c', 'd'], 'd', 0)).toEqual(['d', 'a', 'b', 'c']);
+  });
+
+  it('clamps the position to the list', () => {
+    expect(moveId(['a', 'b'], 'a', 10)).toEqual(['b', 'a']);
+  });
+});
@@ -0,0 +1,26 @@
+/**
+ * Fractional sort keys for manual ordering.
+ *
+ * `sort_order` is a REAL, so moving a row between two others only rewrites
+ * that row: its new key is the midpoint of its neighbours' keys. When the
+ * neighbours share a key (rows created before manual ordering existed all
+ * have 0) or the gap has been halved down to float precision, there is no
+ * key in between and the caller renumbers the list once instead.
+ */
+
+/** Key that sorts strictly between `before` and `after`, or null if none fits. null neighbours mean the start or end of the list. */
+export function sortKeyBetween(before: number | null, after: number | null): number | null {
+  if (before === null && after === null) return 0;
+  if (before === null) return after! - 1;
+  if (after === null) return before + 1;
+  if (after <= before) return null;
+  const mid = (before + after) / 2;
+  return mid > before && mid < after ? mid : null;
+}
+
+/** `ids` with `id` moved to `index` (the position it ends up at) */
+export function moveId(ids: string[], id: string, index: number): string[] {
+  const rest = ids.filter((other) => other !== id);
+  const at = Math.max(0, Math.min(index, rest.length));
+  return [...rest.slice(0, at), id, ...rest.slice(at)];
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import type { TaskStatus } from './types';
+import { wouldCreateCycle, getBlockedTaskIds, getNextActionableTask } from './task-dependencies';
+
+const edge = (task_id: string, blocked_by_task_id: string) => ({ task_id, blocked_by_task_id });
+const task = (id: string, status: TaskStatus = 'inbox', deleted_at: string | null = null) => ({ id, status, deleted_at });
+
+describe('wouldCreateCycle', () => {
+  it('rejects a task waiting on itself', () => {
+    expect(wouldCreateCycle([], 'a', 'a')).toBe(true);
+  });
+
+  it('rejects direct and indirect loops', () => {
+    const edges = [edge('b', 'a'), edge('c', 'b')];
+    expect(wouldCreateCycle(edges, 'a', 'b')).toBe(true);
+    expect(wouldCreateCycle(edges, 'a', 'c')).toBe(true);
+  });
+
+  it('allows links that keep the graph acyclic', () => {
+    const edges = [edge('b', 'a'), edge('c', 'b')];
+    expect(wouldCreateCycle(edges, 'c', 'a')).toBe(false);
+    expect(wouldCreateCycle(edges, 'd', 'c')).toBe(false);
+  });
+});
+
+describe('getBlockedTaskIds', () => {
+  it('blocks a task while any blocker is open', () => {
+    const tasks = [task('a'), task('b', 'logbook'), task('c')];
+    const blocked = getBlockedTaskIds(tasks, [edge('c', 'a'), edge('c', 'b')]);
+    expect([...blocked]).toEqual(['c']);
+  });
+
+  it('ignores completed, cancelled and trashed blockers', () => {
+    const tasks = [task('a', 'logbook'), task('b', 'cancelled'), task('d', 'inbox', '2026-02-17T00:00:00.000Z'), task('c')];
+    expect(getBlockedTaskIds(tasks, [edge('c', 'a'), edge('c', 'b'), edge('c', 'd')]).size).toBe(0);
+  });
+});
+
+describe('getNextActionableTask', () => {
+  it('returns the first open, unblocked task that is not parked', () => {
+    const ordered = [task('a', 'logbook'), task('b'), task('c', 'someday'), task('d')];
+    expect(getNextActionableTask(ordered, new Set(['b']))?.id).toBe('d');
+  });
+
+  it('returns null when nothing can be started', () => {
+    expect(getNextActionableTask([task('a', 'cancelled')], new Set())).toBeNull();
+  });
+});
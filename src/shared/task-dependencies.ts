@@ -0,0 +1,59 @@
+/**
+ * "Blocked by" links between tasks.
+ *
+ * A task is blocked while any of its blockers is still open. Completed and
+ * cancelled blockers no longer count, and neither do blockers in the trash,
+ * so a dependent becomes available as soon as its last blocker reaches the
+ * logbook without anything being written to it.
+ */
+import type { Task, TaskDependency } from './types';
+
+type Edge = Pick<TaskDependency, 'task_id' | 'blocked_by_task_id'>;
+
+function isOpen(task: Pick<Task, 'status' | 'deleted_at'>): boolean {
+  return !task.deleted_at && task.status !== 'logbook' && task.status !== 'cancelled';
+}
+
+/**
+ * Whether making `taskId` wait on `blockedById` would close a loop, i.e.
+ * `blockedById` already waits on `taskId` directly or through other tasks.
+ */
+export function wouldCreateCycle(edges: Edge[], taskId: string, blockedById: string): boolean {
+  if (taskId === blockedById) return true;
+  const blockersOf = new Map<string, string[]>();
+  for (const edge of edges) {
+    blockersOf.set(edge.task_id, [...(blockersOf.get(edge.task_id) ?? []), edge.blocked_by_task_id]);
+  }
+
+  const seen = new Set<string>();
+  const stack = [blockedById];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === taskId) return true;
+    if (seen.has(current)) continue;
+    seen.add(current);
+    stack.push(...(blockersOf.get(current) ?? []));
+  }
+  return false;
+}
+
+/** Ids of tasks that have at least one open blocker among `tasks` */
+export function getBlockedTaskIds(tasks: Pick<Task, 'id' | 'status' | 'deleted_at'>[], edges: Edge[]): Set<string> {
+  const open = new Set(tasks.filter(isOpen).map((task) => task.id));
+  const blocked = new Set<string>();
+  for (const edge of edges) {
+    if (open.has(edge.blocked_by_task_id)) blocked.add(edge.task_id);
+  }
+  return blocked;
+}
+
+/**
+ * First task in `ordered` that can be worked on now: open, not parked in
+ * someday and not waiting on anything in `blockedIds`.
+ */
+export function getNextActionableTask<T extends Pick<Task, 'id' | 'status' | 'deleted_at'>>(
+  ordered: T[],
+  blockedIds: Set<string>,
+): T | null {
+  return ordered.find((task) => isOpen(task) && task.status !== 'someday' && !blockedIds.has(task.id)) ?? null;
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { getTemplatePlaceholders, fillPlaceholders } from './templates';
+import type { TemplateTask } from './types';
+
+const task = (title: string, overrides: Partial<TemplateTask> = {}): TemplateTask => ({
+  title,
+  notes: null,
+  priority: null,
+  estimate_minutes: null,
+  when_offset: null,
+  deadline_offset: null,
+  checklist: [],
+  ...overrides,
+});
+
+describe('getTemplatePlaceholders', () => {
+  it('collects placeholder names from every text in a project, once each', () => {
+    expect(getTemplatePlaceholders({
+      kind: 'project',
+      body: {
+        title: 'Release {{Version}}',
+        description: 'Cut on {{date}}',
+        context_id: null,
+        tasks: [task('Tag {{ version }}')],
+        headings: [{ title: 'Launch', tasks: [task('Tell {{stakeholder}}', { checklist: ['Send notes to {{team_lead}}'] })] }],
+      },
+    })).toEqual(['version', 'date', 'stakeholder', 'team_lead']);
+  });
+});
+
+describe('fillPlaceholders', () => {
+  it('fills known names and leaves the rest as written', () => {
+    expect(fillPlaceholders('1:1 prep with {{Stakeholder}} on {{date}} ({{room}})', { stakeholder: 'Dana', date: '2099-01-05' }))
+      .toBe('1:1 prep with Dana on 2099-01-05 ({{room}})');
+  });
+});
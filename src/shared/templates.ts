@@ -0,0 +1,41 @@
+import type { TemplateTask, ProjectTemplateBody } from './types';
+
+/** The parts of a template that hold its content */
+type TemplateContent =
+  | { kind: 'task'; body: TemplateTask }
+  | { kind: 'project'; body: ProjectTemplateBody };
+
+const PLACEHOLDER = /\{\{\s*([a-z][a-z0-9_]*)\s*\}\}/gi;
+
+/** `{{date}}` is always filled with the day the template is applied */
+export const DATE_PLACEHOLDER = 'date';
+
+function taskTexts(task: TemplateTask): string[] {
+  return [task.title, task.notes ?? '', ...task.checklist];
+}
+
+/** Every piece of text in a template that may hold placeholders */
+function templateTexts(template: TemplateContent): string[] {
+  if (template.kind === 'task') return taskTexts(template.body);
+  const body = template.body;
+  return [
+    body.title,
+    body.description ?? '',
+    ...body.tasks.flatMap(taskTexts),
+    ...body.headings.flatMap((h) => [h.title, ...h.tasks.flatMap(taskTexts)]),
+  ];
+}
+
+/** Placeholder names used in a template, lower-cased, in order of first use */
+export function getTemplatePlaceholders(template: TemplateContent): string[] {
+  const names = new Set<string>();
+  for (const text of templateTexts(template)) {
+    for (const match of text.matchAll(PLACEHOLDER)) names.add(match[1].toLowerCase());
+  }
+  return [...names];
+}
+
+/** Replace `{{name}}` with its value; placeholders without a value are left as written */
+export function fillPlaceholders(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER, (whole, name: string) => values[name.toLowerCase()] ?? whole);
+}
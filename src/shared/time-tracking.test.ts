@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { secondsInRange, formatElapsed, summarizeTimeEntries, timeEntriesToCsv } from './time-tracking';
+import type { TimeEntryDetail } from './types';
+
+// Local times, as the report's week is the user's week
+const at = (day: number, hour: number, minute = 0) => new Date(2099, 0, day, hour, minute).toISOString();
+const week = { from: at(5, 0), to: at(12, 0) };
+const now = new Date(2099, 0, 7, 12, 0);
+
+const entry = (started_at: string, ended_at: string | null, overrides: Partial<TimeEntryDetail> = {}): TimeEntryDetail => ({
+  id: started_at,
+  task_id: 't1',
+  started_at,
+  ended_at,
+  created_at: started_at,
+  updated_at: started_at,
+  deleted_at: null,
+  task_title: 'Write spec',
+  project_id: null,
+  project_title: null,
+  context_id: null,
+  context_name: null,
+  stakeholders: [],
+  ...overrides,
+});
+
+describe('secondsInRange', () => {
+  it('counts only the part inside the range, and running entries up to now', () => {
+    expect(secondsInRange(entry(at(4, 23), at(5, 1)), week, now)).toBe(3600);
+    expect(secondsInRange(entry(at(7, 11, 30), null), week, now)).toBe(1800);
+    expect(secondsInRange(entry(at(3, 9), at(3, 10)), week, now)).toBe(0);
+  });
+});
+
+describe('formatElapsed', () => {
+  it('reads like a clock', () => {
+    expect(formatElapsed(5)).toBe('0:05');
+    expect(formatElapsed(245)).toBe('4:05');
+    expect(formatElapsed(3723)).toBe('1:02:03');
+  });
+});
+
+describe('summarizeTimeEntries', () => {
+  it('groups time by project, context and each of the project stakeholders', () => {
+    const acme = { project_id: 'p1', project_title: 'Acme site', context_id: 'c1', context_name: 'Work' };
+    const report = summarizeTimeEntries([
+      entry(at(5, 9), at(5, 11), { ...acme, stakeholders: [{ id: 's1', name: 'Acme' }, { id: 's2', name: 'Dana' }] }),
+      entry(at(6, 9), at(6, 10)),
+      entry(at(6, 14), at(6, 14, 30), { context_id: 'c1', context_name: 'Work' }),
+    ], week, now);
+
+    expect(report.total_seconds).toBe(3.5 * 3600);
+    expect(report.by_project).toEqual([
+      { id: 'p1', name: 'Acme site', seconds: 7200 },
+      { id: null, name: 'No project', seconds: 5400 },
+    ]);
+    expect(report.by_context).toEqual([
+      { id: 'c1', name: 'Work', seconds: 9000 },
+      { id: null, name: 'No context', seconds: 3600 },
+    ]);
+    expect(report.by_stakeholder.map((row) => [row.name, row.seconds])).toEqual([
+      ['Acme', 7200],
+      ['Dana', 7200],
+      ['No stakeholder', 5400],
+    ]);
+  });
+});
+
+describe('timeEntriesToCsv', () => {
+  it('writes one line per entry in local time, cut to the range', () => {
+    const csv = timeEntriesToCsv([
+      entry(at(7, 11, 30), null, { task_title: 'Call, then "notes"', stakeholders: [{ id: 's1', name: 'Acme' }, { id: 's2', name: 'Dana' }] }),
+      entry(at(4, 23), at(5, 1, 15), { project_title: 'Acme site' }),
+      entry(at(1, 9), at(1, 10)),
+    ], week, now);
+
+    expect(csv.split('\r\n')).toEqual([
+      'Date,Start,End,Hours,Task,Project,Context,Stakeholders',
+      '2099-01-05,00:00,01:15,1.25,Write spec,Acme site,,',
+      '2099-01-07,11:30,,0.50,"Call, then ""notes""",,,Acme; Dana',
+      '',
+    ]);
+  });
+
+  it('keeps names that start like a formula from running as one', () => {
+    const csv = timeEntriesToCsv([
+      entry(at(6, 9), at(6, 10), {
+        task_title: '=HYPERLINK("http://evil.example","x")',
+        project_title: '+1 project',
+        context_name: '@home',
+        stakeholders: [{ id: 's1', name: '-Dana' }],
+      }),
+    ], week, now);
+
+    expect(csv.split('\r\n')[1]).toBe(
+      `2099-01-06,09:00,10:00,1.00,"'=HYPERLINK(""http://evil.example"",""x"")",'+1 project,'@home,'-Dana`,
+    );
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Time tracking: how tracked time is counted into the weekly report and its
+ * CSV export. Entries count only the part of them inside the report's range,
+ * and a running entry counts up to now.
+ */
+import type { TimeEntry, TimeEntryDetail, TimeRange, TimeReport, TimeReportRow } from './types';
+
+/** Away from the computer this long while a timer runs, the app asks what to do with the time */
+export const IDLE_THRESHOLD_MINUTES = 10;
+
+/** Whole seconds of `entry` that fall inside `range` */
+export function secondsInRange(entry: Pick<TimeEntry, 'started_at' | 'ended_at'>, range: TimeRange, now: Date): number {
+  const start = Math.max(new Date(entry.started_at).getTime(), new Date(range.from).getTime());
+  const end = Math.min(entry.ended_at ? new Date(entry.ended_at).getTime() : now.getTime(), new Date(range.to).getTime());
+  return end > start ? Math.floor((end - start) / 1000) : 0;
+}
+
+/** Clock-style running time: 4:05, 1:02:03 */
+export function formatElapsed(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = String(seconds % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+function sortRows(rows: Map<string | null, TimeReportRow>): TimeReportRow[] {
+  // Untracked groupings ("No project") go last
+  return [...rows.values()].sort((a, b) =>
+    Number(a.id === null) - Number(b.id === null) || b.seconds - a.seconds || a.name.localeCompare(b.name));
+}
+
+function addTo(rows: Map<string | null, TimeReportRow>, id: string | null, name: string, seconds: number): void {
+  const row = rows.get(id);
+  if (row) row.seconds += seconds;
+  else rows.set(id, { id, name, seconds });
+}
+
+export function summarizeTimeEntries(entries: TimeEntryDetail[], range: TimeRange, now: Date): TimeReport {
+  const projects = new Map<string | null, TimeReportRow>();
+  const contexts = new Map<string | null, TimeReportRow>();
+  const stakeholders = new Map<string | null, TimeReportRow>();
+  let total = 0;
+
+  for (const entry of entries) {
+    const seconds = secondsInRange(entry, range, now);
+    if (seconds === 0) continue;
+    total += seconds;
+    addTo(projects, entry.project_id, entry.project_title ?? 'No project', seconds);
+    addTo(contexts, entry.context_id, entry.context_name ?? 'No context', seconds);
+    if (entry.stakeholders.length === 0) addTo(stakeholders, null, 'No stakeholder', seconds);
+    for (const stakeholder of entry.stakeholders) addTo(stakeholders, stakeholder.id, stakeholder.name, seconds);
+  }
+
+  return {
+    ...range,
+    total_seconds: total,
+    by_project: sortRows(projects),
+    by_context: sortRows(contexts),
+    by_stakeholder: sortRows(stakeholders),
+  };
+}
+
+const CSV_HEADER = ['Date', 'Start', 'End', 'Hours', 'Task', 'Project', 'Context', 'Stakeholders'];
+
+/** Cells starting with one of these run as formulas in Excel and Sheets */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvField(value: string): string {
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+/**
+ * One line per entry within `range`, in local time, with hours as a decimal
+ * for billing. Entries are cut at the range's edges so the hours add up to the
+ * report; a running entry has no end.
+ */
+export function timeEntriesToCsv(entries: TimeEntryDetail[], range: TimeRange, now: Date): string {
+  const from = new Date(range.from).getTime();
+  const to = new Date(range.to).getTime();
+  const lines = [CSV_HEADER.join(',')];
+
+  const sorted = [...entries].sort((a, b) => a.started_at.localeCompare(b.started_at));
+  for (const entry of sorted) {
+    const seconds = secondsInRange(entry, range, now);
+    if (seconds === 0) continue;
+    const start = new Date(Math.max(new Date(entry.started_at).getTime(), from));
+    const end = entry.ended_at ? new Date(Math.min(new Date(entry.ended_at).getTime(), to)) : null;
+    lines.push([
+      `${start.getFullYear()}-${pad(start.getMonth() + 1)}-${pad(start.getDate())}`,
+      `${pad(start.getHours())}:${pad(start.getMinutes())}`,
+      end ? `${pad(end.getHours())}:${pad(end.getMinutes())}` : '',
+      (seconds / 3600).toFixed(2),
+      entry.task_title,
+      entry.project_title ?? '',
+      entry.context_name ?? '',
+      entry.stakeholders.map((s) => s.name).join('; '),
+    ].map(csvField).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
@@ -46,6 +46,9 @@ export interface Task {
   deleted_at: string | null;
   stale_at: string | null;
   assignee_id: string | null;
+  recurrence: string | null;
+  /** Planned effort in minutes */
+  estimate_minutes: number | null;
 }
 
 export interface CreateTaskInput {
@@ -58,6 +61,17 @@ export interface CreateTaskInput {
   heading_id?: string;
   context_id?: string;
   priority?: Priority;
+  recurrence?: string;
+  estimate_minutes?: number;
+  /** Agent, stakeholder or user the task is assigned to */
+  assignee_id?: string;
+  /** Checklist item titles, created along with the task */
+  checklist?: string[];
+  /** Tag names; tags that don't exist yet are created */
+  tags?: string[];
+  /** ISO timestamps; a reminder at each is created along with the task */
+  reminders?: string[];
+  source?: DataSource;
 }
 
 export interface UpdateTaskInput {
@@ -72,6 +86,47 @@ export interface UpdateTaskInput {
   priority?: Priority | null;
   sort_order?: number;
   assignee_id?: string | null;
+  recurrence?: string | null;
+  estimate_minutes?: number | null;
+}
+
+/** Changes applied to every selected task at once. `delete` moves them to the trash instead */
+export interface BulkUpdateTaskInput extends Pick<
+  UpdateTaskInput,
+  'status' | 'when_date' | 'deadline' | 'priority' | 'project_id' | 'context_id' | 'assignee_id'
+> {
+  delete?: boolean;
+}
+
+/** Rules that refine the default stale threshold */
+export interface StaleRules {
+  /** Threshold per context id, replacing the default for that context */
+  contextDays?: Record<string, number>;
+  /** Priorities that never go stale */
+  exemptPriorities?: Priority[];
+  /** Tasks due within this many days stay active */
+  deadlineWindowDays?: number;
+}
+
+/** Trashable entities and how many of each a purge touches */
+export interface TrashCounts {
+  tasks: number;
+  projects: number;
+  notes: number;
+  meetings: number;
+  stakeholders: number;
+}
+
+/** What applying a set of retention settings would change right now */
+export interface RetentionPreview {
+  staleTasks: number;
+  expiredTrash: TrashCounts;
+}
+
+/** Labels of the writes that Cmd+Z / Cmd+Shift+Z would reverse or reapply next */
+export interface UndoStatus {
+  undoLabel: string | null;
+  redoLabel: string | null;
 }
 
 export interface Project {
@@ -96,6 +151,7 @@ export interface CreateProjectInput {
   description?: string;
   status?: ProjectStatus;
   context_id?: string;
+  source?: DataSource;
 }
 
 export interface UpdateProjectInput {
@@ -108,6 +164,27 @@ export interface UpdateProjectInput {
   owner_stakeholder_id?: string | null;
 }
 
+export interface ProjectHeading {
+  id: string;
+  project_id: string;
+  title: string;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+  archived_at: string | null;
+  deleted_at: string | null;
+}
+
+export interface CreateProjectHeadingInput {
+  project_id: string;
+  title: string;
+}
+
+export interface UpdateProjectHeadingInput {
+  title?: string;
+  sort_order?: number;
+}
+
 export interface Context {
   id: string;
   name: string;
@@ -166,6 +243,12 @@ export interface UpdateStakeholderInput {
   avatar_url?: string | null;
 }
 
+/** When the user last met a stakeholder or wrote a note about them */
+export interface StakeholderContact {
+  stakeholder_id: string;
+  last_contact_at: string;
+}
+
 export interface Note {
   id: string;
   title: string;
@@ -194,6 +277,14 @@ export interface UpdateNoteInput {
   is_pinned?: boolean;
 }
 
+export interface DailyNote {
+  id: string;
+  date: string;
+  content: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface ProjectStakeholder {
   id: string;
   project_id: string;
@@ -201,6 +292,249 @@ export interface ProjectStakeholder {
   created_at: string;
 }
 
+/** `task_id` can't be started until `blocked_by_task_id` is done */
+export interface TaskDependency {
+  id: string;
+  task_id: string;
+  blocked_by_task_id: string;
+  created_at: string;
+  deleted_at: string | null;
+}
+
+export type TemplateKind = 'task' | 'project';
+
+/**
+ * A task as a template stores it. Dates are days after the day the template
+ * is applied; text may hold placeholders such as `{{date}}` (see shared/templates.ts).
+ */
+export interface TemplateTask {
+  title: string;
+  notes: string | null;
+  priority: Priority | null;
+  estimate_minutes: number | null;
+  when_offset: number | null;
+  deadline_offset: number | null;
+  checklist: string[];
+}
+
+export interface ProjectTemplateBody {
+  title: string;
+  description: string | null;
+  context_id: string | null;
+  /** Tasks outside any heading */
+  tasks: TemplateTask[];
+  headings: { title: string; tasks: TemplateTask[] }[];
+}
+
+interface TemplateBase {
+  id: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+export type Template =
+  | (TemplateBase & { kind: 'task'; body: TemplateTask })
+  | (TemplateBase & { kind: 'project'; body: ProjectTemplateBody });
+
+export type CreateTemplateInput =
+  | { name: string; kind: 'task'; body: TemplateTask }
+  | { name: string; kind: 'project'; body: ProjectTemplateBody };
+
+export interface UpdateTemplateInput {
+  name?: string;
+}
+
+export interface ApplyTemplateInput {
+  /** Day relative dates count from, yyyy-MM-dd; today if left out. Also fills `{{date}}` */
+  start_date?: string;
+  /** Placeholder values by name, e.g. `{ stakeholder: 'Dana' }` */
+  values?: Record<string, string>;
+  /** Task templates only: where the task goes when the template gives it no date */
+  project_id?: string;
+  status?: TaskStatus;
+  when_date?: string;
+}
+
+/** A template row as stored, with its body as JSON text */
+export type StoredTemplate = Omit<Template, 'body'> & { body: string };
+
+export interface AppliedTemplate {
+  /** The new project, for project templates */
+  project_id: string | null;
+  task_ids: string[];
+}
+
+/** A stretch of work on a task; `ended_at` is null while its timer runs */
+export interface TimeEntry {
+  id: string;
+  task_id: string;
+  started_at: string;
+  ended_at: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+/** The running entry, with the title of the task it times */
+export interface RunningTimeEntry extends TimeEntry {
+  task_title: string;
+}
+
+/** A time entry with what the time report groups it by */
+export interface TimeEntryDetail extends TimeEntry {
+  task_title: string;
+  project_id: string | null;
+  project_title: string | null;
+  /** The project's context, else the task's own */
+  context_id: string | null;
+  context_name: string | null;
+  /** The project's stakeholders */
+  stakeholders: { id: string; name: string }[];
+}
+
+/** ISO datetimes; `to` is exclusive */
+export interface TimeRange {
+  from: string;
+  to: string;
+}
+
+export interface TimeReportRow {
+  /** Null for time on tasks without a project, context or stakeholder */
+  id: string | null;
+  name: string;
+  seconds: number;
+}
+
+/** Time tracked within a range, longest first in each grouping */
+export interface TimeReport extends TimeRange {
+  total_seconds: number;
+  by_project: TimeReportRow[];
+  by_context: TimeReportRow[];
+  /** Time on a project counts for each of its stakeholders */
+  by_stakeholder: TimeReportRow[];
+}
+
+/** Sent when the user comes back to a running timer after being away */
+export interface IdleTimeWarning {
+  entry_id: string;
+  task_id: string;
+  task_title: string;
+  idle_since: string;
+  idle_until: string;
+}
+
+/** A saved task query (see shared/smart-list-query.ts) shown under Lists in the sidebar */
+export interface SmartList {
+  id: string;
+  name: string;
+  query: string;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+export interface CreateSmartListInput {
+  name: string;
+  query: string;
+}
+
+export interface UpdateSmartListInput {
+  name?: string;
+  query?: string;
+}
+
+/** Items whose edits are kept in the change history */
+export type HistoryEntityType = 'task' | 'project' | 'note' | 'meeting';
+
+export type EntityChangeAction = 'create' | 'update' | 'delete';
+
+/** A column's value before and after a write */
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+/** One write to a task, project, note or meeting, with the fields it changed (see shared/change-log.ts) */
+export interface EntityChange {
+  id: string;
+  entity_type: HistoryEntityType;
+  entity_id: string;
+  action: EntityChangeAction;
+  changes: Record<string, FieldChange>;
+  /** Who made the change: the user in the app, or an agent through the daemon */
+  source: DataSource;
+  agent_id: string | null;
+  /** Name of the agent behind `agent_id`, when it still exists */
+  agent_name: string | null;
+  created_at: string;
+}
+
+/**
+ * A reminder on a task or a meeting. It fires at `remind_at`, or
+ * `offset_minutes` before the task's deadline or the meeting's start.
+ * Snoozing replaces that time with `snoozed_until`.
+ */
+export interface Reminder {
+  id: string;
+  task_id: string | null;
+  meeting_id: string | null;
+  remind_at: string | null;
+  offset_minutes: number | null;
+  snoozed_until: string | null;
+  /** When a device last showed it; it fires again only if its time moves past this */
+  fired_at: string | null;
+  /** PowerSync client id of the device that showed it */
+  fired_by: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+/** Either `remind_at` or `offset_minutes`; offsets need a task deadline or a meeting */
+export interface CreateReminderInput {
+  task_id?: string;
+  meeting_id?: string;
+  remind_at?: string;
+  offset_minutes?: number;
+}
+
+/** What opening a reminder's notification navigates to */
+export type ReminderTarget = { taskId: string } | { meetingId: string };
+
+/** A label that can be put on any number of tasks, notes and meetings */
+export interface Tag {
+  id: string;
+  name: string;
+  color: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+export interface CreateTagInput {
+  name: string;
+  color?: string;
+}
+
+export interface UpdateTagInput {
+  name?: string;
+  color?: string | null;
+}
+
+export type TaggableEntityType = 'task' | 'note' | 'meeting';
+
+/** Puts `tag_id` on the task, note or meeting `entity_id` */
+export interface EntityTag {
+  id: string;
+  tag_id: string;
+  entity_type: TaggableEntityType;
+  entity_id: string;
+  created_at: string;
+  deleted_at: string | null;
+}
+
 export interface NoteStakeholder {
   id: string;
   note_id: string;
@@ -281,6 +615,7 @@ export interface ChecklistItem {
 export interface CreateChecklistItemInput {
   task_id: string;
   title: string;
+  source?: DataSource;
 }
 
 export interface UpdateChecklistItemInput {
@@ -288,3 +623,76 @@ export interface UpdateChecklistItemInput {
   is_done?: boolean;
   sort_order?: number;
 }
+
+// Export / import
+
+export interface ExportRecording {
+  meeting_id: string;
+  file_name: string;
+  /** Base64-encoded audio file */
+  data: string;
+}
+
+export interface ExportArchive {
+  format: 'cortex-export';
+  version: number;
+  exported_at: string;
+  data: {
+    contexts: Context[];
+    stakeholders: Stakeholder[];
+    projects: Project[];
+    project_headings: ProjectHeading[];
+    tasks: Task[];
+    task_checklists: ChecklistItem[];
+    task_dependencies: TaskDependency[];
+    project_stakeholders: ProjectStakeholder[];
+    notes: Note[];
+    note_stakeholders: NoteStakeholder[];
+    meetings: Meeting[];
+    meeting_attendees: MeetingAttendee[];
+    reminders: Reminder[];
+    tags: Tag[];
+    entity_tags: EntityTag[];
+    smart_lists: SmartList[];
+    templates: StoredTemplate[];
+    time_entries: TimeEntry[];
+    daily_notes: DailyNote[];
+  };
+  recordings?: ExportRecording[];
+}
+
+export interface ExportOptions {
+  includeRecordings?: boolean;
+}
+
+export interface ImportSummary {
+  inserted: number;
+  updated: number;
+  skipped: number;
+  /** Rows whose id was already taken by a different record and got a new one */
+  remapped: number;
+  recordings: number;
+}
+
+// Importers for other task managers
+
+export type ImportFormat = 'things' | 'todoist' | 'omnifocus';
+
+export interface TaskImportPreview {
+  format: ImportFormat;
+  filePath: string;
+  projects: { title: string; area: string | null; headings: string[]; exists: boolean }[];
+  tasks: { title: string; status: TaskStatus | null; project: string | null; area: string | null; checklist: number }[];
+  /** Projects referenced by the file that have no local match and will be created */
+  unmatchedProjects: string[];
+  /** Areas/labels with no local context; items from them are imported without one */
+  unmatchedAreas: string[];
+  warnings: string[];
+}
+
+export interface TaskImportResult {
+  projects: number;
+  headings: number;
+  tasks: number;
+  checklistItems: number;
+}
@@ -21,6 +21,7 @@ import {
   CreateAIAgentSchema,
   AIAgentIdSchema,
   UpdateMeetingSchema,
+  CreateReminderSchema,
 } from './validation';
 
 const VALID_UUID = '123e4567-e89b-12d3-a456-426614174000';
@@ -99,6 +100,23 @@ describe('UpdateTaskSchema', () => {
   it('rejects invalid status', () => {
     expect(() => UpdateTaskSchema.parse({ status: 'bad' })).toThrow();
   });
+
+  it('accepts a valid recurrence rule or null', () => {
+    expect(UpdateTaskSchema.parse({ recurrence: 'weekly:mon,thu' }).recurrence).toBe('weekly:mon,thu');
+    expect(UpdateTaskSchema.parse({ recurrence: null }).recurrence).toBeNull();
+  });
+
+  it('rejects a malformed recurrence rule', () => {
+    expect(() => UpdateTaskSchema.parse({ recurrence: 'every:monday' })).toThrow();
+  });
+
+  it('accepts whole-minute estimates up to a day', () => {
+    expect(UpdateTaskSchema.parse({ estimate_minutes: 90 }).estimate_minutes).toBe(90);
+    expect(UpdateTaskSchema.parse({ estimate_minutes: null }).estimate_minutes).toBeNull();
+    expect(() => UpdateTaskSchema.parse({ estimate_minutes: 0 })).toThrow();
+    expect(() => UpdateTaskSchema.parse({ estimate_minutes: 1.5 })).toThrow();
+    expect(() => UpdateTaskSchema.parse({ estimate_minutes: 1441 })).toThrow();
+  });
 });
 
 describe('ProjectIdSchema', () => {
@@ -387,3 +405,25 @@ describe('UpdateMeetingSchema - transcription fields', () => {
     expect(() => UpdateMeetingSchema.parse({})).not.toThrow();
   });
 });
+
+describe('CreateReminderSchema', () => {
+  it('accepts a fixed time or an offset on a task or meeting', () => {
+    expect(() => CreateReminderSchema.parse({ task_id: VALID_UUID, remind_at: '2099-03-01T09:00:00.000Z' })).not.toThrow();
+    expect(() => CreateReminderSchema.parse({ meeting_id: VALID_UUID, offset_minutes: 10 })).not.toThrow();
+  });
+
+  it('requires exactly one of task_id and meeting_id', () => {
+    expect(() => CreateReminderSchema.parse({ offset_minutes: 10 })).toThrow();
+    expect(() => CreateReminderSchema.parse({ task_id: VALID_UUID, meeting_id: VALID_UUID, offset_minutes: 10 })).toThrow();
+  });
+
+  it('requires exactly one of remind_at and offset_minutes', () => {
+    expect(() => CreateReminderSchema.parse({ task_id: VALID_UUID })).toThrow();
+    expect(() => CreateReminderSchema.parse({ task_id: VALID_UUID, remind_at: '2099-03-01T09:00:00.000Z', offset_minutes: 0 })).toThrow();
+  });
+
+  it('rejects negative offsets and times without a zone', () => {
+    expect(() => CreateReminderSchema.parse({ task_id: VALID_UUID, offset_minutes: -5 })).toThrow();
+    expect(() => CreateReminderSchema.parse({ task_id: VALID_UUID, remind_at: '2099-03-01T09:00' })).toThrow();
+  });
+});
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { parseRecurrenceRule } from './recurrence';
+import { getSmartListQueryError } from './smart-list-query';
 
 const uuid = z.string().uuid();
 const uuidOrNull = z.string().uuid().nullable().optional();
@@ -6,6 +8,10 @@ const uuidOrNull = z.string().uuid().nullable().optional();
 // Tasks
 const taskStatusSchema = z.enum(['inbox', 'today', 'upcoming', 'anytime', 'someday', 'stale', 'logbook', 'cancelled']);
 const prioritySchema = z.enum(['P1', 'P2', 'P3']);
+const recurrenceSchema = z.string().refine((v) => parseRecurrenceRule(v) !== null, 'Invalid recurrence rule');
+const estimateSchema = z.number().int().min(1).max(1440);
+// Single words so they can be typed as `*name` in quick-add
+const tagNameSchema = z.string().trim().min(1).max(50).regex(/^\S+$/, 'Tag names cannot contain spaces');
 
 export const CreateTaskSchema = z.object({
   title: z.string().min(1),
@@ -17,8 +23,16 @@ export const CreateTaskSchema = z.object({
   heading_id: z.string().uuid().optional(),
   context_id: z.string().uuid().optional(),
   priority: prioritySchema.optional(),
+  recurrence: recurrenceSchema.optional(),
+  estimate_minutes: estimateSchema.optional(),
+  assignee_id: z.string().min(1).optional(),
+  checklist: z.array(z.string().min(1)).optional(),
+  tags: z.array(tagNameSchema).optional(),
+  reminders: z.array(z.string().datetime({ offset: true })).optional(),
 });
 
+export const CreateTaskListSchema = z.array(CreateTaskSchema).min(1);
+
 export const UpdateTaskSchema = z.object({
   title: z.string().min(1).optional(),
   notes: z.string().nullable().optional(),
@@ -31,10 +45,26 @@ export const UpdateTaskSchema = z.object({
   priority: prioritySchema.nullable().optional(),
   sort_order: z.number().optional(),
   assignee_id: uuidOrNull,
+  recurrence: recurrenceSchema.nullable().optional(),
+  estimate_minutes: estimateSchema.nullable().optional(),
 });
 
 export const TaskIdSchema = uuid;
 
+export const TaskIdListSchema = z.array(uuid).min(1);
+
+export const BulkUpdateTaskSchema = UpdateTaskSchema.pick({
+  status: true,
+  when_date: true,
+  deadline: true,
+  priority: true,
+  project_id: true,
+  context_id: true,
+  assignee_id: true,
+}).extend({
+  delete: z.boolean().optional(),
+});
+
 // Projects
 const projectStatusSchema = z.enum(['planned', 'active', 'on_hold', 'blocked', 'completed', 'archived']);
 
@@ -56,6 +86,20 @@ export const UpdateProjectSchema = z.object({
 });
 
 export const ProjectIdSchema = uuid;
+export const ProjectIdListSchema = z.array(uuid).min(1);
+
+// Project Headings
+export const CreateProjectHeadingSchema = z.object({
+  project_id: z.string().uuid(),
+  title: z.string().min(1),
+});
+
+export const UpdateProjectHeadingSchema = z.object({
+  title: z.string().min(1).optional(),
+  sort_order: z.number().optional(),
+});
+
+export const ProjectHeadingIdSchema = uuid;
 
 // Contexts
 export const CreateContextSchema = z.object({
@@ -96,6 +140,122 @@ export const UpdateStakeholderSchema = z.object({
 
 export const StakeholderIdSchema = uuid;
 
+export const LinkTaskDependencySchema = z.object({
+  task_id: z.string().uuid(),
+  blocked_by_task_id: z.string().uuid(),
+});
+
+export const CreateReminderSchema = z.object({
+  task_id: uuid.optional(),
+  meeting_id: uuid.optional(),
+  remind_at: z.string().datetime({ offset: true }).optional(),
+  offset_minutes: z.number().int().min(0).max(60 * 24 * 30).optional(),
+})
+  .refine((input) => !input.task_id !== !input.meeting_id, { message: 'A reminder belongs to either a task or a meeting' })
+  .refine((input) => (input.remind_at === undefined) !== (input.offset_minutes === undefined), { message: 'Set either remind_at or offset_minutes' });
+
+export const ReminderIdSchema = uuid;
+
+// Tags
+export const CreateTagSchema = z.object({
+  name: tagNameSchema,
+  color: z.string().optional(),
+});
+
+export const UpdateTagSchema = z.object({
+  name: tagNameSchema.optional(),
+  color: z.string().nullable().optional(),
+});
+
+export const TagIdSchema = uuid;
+
+export const EntityTagSchema = z.object({
+  tag_id: uuid,
+  entity_type: z.enum(['task', 'note', 'meeting']),
+  entity_id: uuid,
+});
+
+// Smart lists
+const smartListQuerySchema = z.string().trim().min(1).max(500).superRefine((query, ctx) => {
+  const error = getSmartListQueryError(query);
+  if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+});
+
+export const CreateSmartListSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  query: smartListQuerySchema,
+});
+
+export const UpdateSmartListSchema = CreateSmartListSchema.partial();
+
+export const SmartListIdSchema = uuid;
+
+// Templates
+const dayOffsetSchema = z.number().int().min(-3650).max(3650).nullable();
+
+const TemplateTaskSchema = z.object({
+  title: z.string().trim().min(1).max(500),
+  notes: z.string().max(100_000).nullable(),
+  priority: prioritySchema.nullable(),
+  estimate_minutes: estimateSchema.nullable(),
+  when_offset: dayOffsetSchema,
+  deadline_offset: dayOffsetSchema,
+  checklist: z.array(z.string().trim().min(1).max(500)).max(200),
+});
+
+const ProjectTemplateBodySchema = z.object({
+  title: z.string().trim().min(1).max(500),
+  description: z.string().max(100_000).nullable(),
+  context_id: uuid.nullable(),
+  tasks: z.array(TemplateTaskSchema).max(500),
+  headings: z.array(z.object({
+    title: z.string().trim().min(1).max(200),
+    tasks: z.array(TemplateTaskSchema).max(500),
+  })).max(100),
+});
+
+const templateNameSchema = z.string().trim().min(1).max(100);
+
+export const CreateTemplateSchema = z.discriminatedUnion('kind', [
+  z.object({ name: templateNameSchema, kind: z.literal('task'), body: TemplateTaskSchema }),
+  z.object({ name: templateNameSchema, kind: z.literal('project'), body: ProjectTemplateBodySchema }),
+]);
+
+export const UpdateTemplateSchema = z.object({
+  name: templateNameSchema.optional(),
+});
+
+export const TemplateNameSchema = templateNameSchema;
+
+export const ApplyTemplateSchema = z.object({
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  values: z.record(z.string().regex(/^[a-z][a-z0-9_]*$/), z.string().max(500)).optional(),
+  project_id: uuid.optional(),
+  status: taskStatusSchema.optional(),
+  when_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+});
+
+export const TemplateIdSchema = uuid;
+
+// Time tracking
+const datetimeSchema = z.string().datetime({ offset: true });
+
+export const TimeRangeSchema = z.object({
+  from: datetimeSchema,
+  to: datetimeSchema,
+}).refine((range) => new Date(range.from) < new Date(range.to), { message: 'The range must end after it starts' });
+
+export const DiscardIdleTimeSchema = z.object({
+  entry_id: uuid,
+  idle_since: datetimeSchema,
+  /** Start a new entry for the task now, as if the timer had kept going */
+  resume: z.boolean(),
+});
+
+/** A task, project, note or meeting id, for the change history */
+export const EntityIdSchema = uuid;
+export const EntityChangeIdSchema = uuid;
+
 export const LinkProjectStakeholderSchema = z.object({
   project_id: z.string().uuid(),
   stakeholder_id: z.string().uuid(),
@@ -160,6 +320,7 @@ export const UpdateChecklistItemSchema = z.object({
 });
 
 export const ChecklistItemIdSchema = uuid;
+export const ChecklistItemIdListSchema = z.array(uuid).min(1);
 
 export const CreateNoteSchema = z.object({
   title: z.string().min(1),
@@ -179,6 +340,14 @@ export const UpdateNoteSchema = z.object({
 
 export const NoteIdSchema = uuid;
 
+// Daily Notes
+export const DailyNoteDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+export const UpsertDailyNoteSchema = z.object({
+  date: DailyNoteDateSchema,
+  content: z.string(),
+});
+
 // AI Agents
 export const CreateAIAgentSchema = z.object({
   name: z.string().min(1),
@@ -190,6 +359,152 @@ export const CreateAIAgentSchema = z.object({
 
 export const AIAgentIdSchema = z.string().uuid();
 
+// Export / import
+// Archive rows reuse the update schemas, so columns added after an archive
+// was written are simply absent and fall back to their defaults on import.
+const rowMeta = {
+  id: uuid,
+  created_at: z.string().min(1),
+  updated_at: z.string().min(1),
+  deleted_at: z.string().nullable().optional(),
+};
+
+const ContextRowSchema = UpdateContextSchema.extend({
+  ...rowMeta,
+  name: z.string().min(1),
+});
+
+const StakeholderRowSchema = UpdateStakeholderSchema.extend({
+  ...rowMeta,
+  name: z.string().min(1),
+});
+
+const ProjectRowSchema = UpdateProjectSchema.extend({
+  ...rowMeta,
+  title: z.string().min(1),
+  status: projectStatusSchema,
+  completed_at: z.string().nullable().optional(),
+});
+
+const ProjectHeadingRowSchema = UpdateProjectHeadingSchema.extend({
+  ...rowMeta,
+  project_id: uuid,
+  title: z.string().min(1),
+  archived_at: z.string().nullable().optional(),
+});
+
+const TaskRowSchema = UpdateTaskSchema.extend({
+  ...rowMeta,
+  title: z.string().min(1),
+  status: taskStatusSchema,
+  completed_at: z.string().nullable().optional(),
+  stale_at: z.string().nullable().optional(),
+});
+
+const ChecklistItemRowSchema = UpdateChecklistItemSchema.extend({
+  ...rowMeta,
+  task_id: uuid,
+  title: z.string().min(1),
+});
+
+const NoteRowSchema = UpdateNoteSchema.extend({
+  ...rowMeta,
+  title: z.string().min(1),
+});
+
+const MeetingRowSchema = UpdateMeetingSchema.extend({
+  ...rowMeta,
+  title: z.string().min(1),
+  start_time: z.string().min(1),
+});
+
+const ReminderRowSchema = z.object({
+  id: uuid,
+  task_id: uuid.nullable(),
+  meeting_id: uuid.nullable(),
+  remind_at: z.string().nullable(),
+  offset_minutes: z.number().int().nullable(),
+  snoozed_until: z.string().nullable().optional(),
+  fired_at: z.string().nullable().optional(),
+  created_at: z.string().min(1),
+  updated_at: z.string().min(1),
+});
+
+const TagRowSchema = z.object({
+  ...rowMeta,
+  name: z.string().min(1),
+  color: z.string().nullable().optional(),
+});
+
+// Stored queries are not re-parsed, so lists saved by a newer version still import
+const SmartListRowSchema = z.object({
+  ...rowMeta,
+  name: z.string().min(1),
+  query: z.string(),
+});
+
+// The body stays JSON text, as it is stored
+const TemplateRowSchema = z.object({
+  ...rowMeta,
+  name: z.string().min(1),
+  kind: z.enum(['task', 'project']),
+  body: z.string(),
+});
+
+const TimeEntryRowSchema = z.object({
+  ...rowMeta,
+  task_id: uuid,
+  started_at: z.string().min(1),
+  ended_at: z.string().nullable(),
+});
+
+const DailyNoteRowSchema = UpsertDailyNoteSchema.extend({
+  id: uuid,
+  content: z.string().nullable(),
+  created_at: z.string().min(1),
+  updated_at: z.string().min(1),
+});
+
+export const ExportArchiveSchema = z.object({
+  format: z.literal('cortex-export'),
+  version: z.number().int().positive(),
+  exported_at: z.string(),
+  data: z.object({
+    contexts: z.array(ContextRowSchema).default([]),
+    stakeholders: z.array(StakeholderRowSchema).default([]),
+    projects: z.array(ProjectRowSchema).default([]),
+    project_headings: z.array(ProjectHeadingRowSchema).default([]),
+    tasks: z.array(TaskRowSchema).default([]),
+    task_checklists: z.array(ChecklistItemRowSchema).default([]),
+    task_dependencies: z.array(LinkTaskDependencySchema.extend({ id: uuid, created_at: z.string().optional() })).default([]),
+    project_stakeholders: z.array(LinkProjectStakeholderSchema.extend({ id: uuid, created_at: z.string().optional() })).default([]),
+    notes: z.array(NoteRowSchema).default([]),
+    note_stakeholders: z.array(LinkNoteStakeholderSchema.extend({ id: uuid })).default([]),
+    meetings: z.array(MeetingRowSchema).default([]),
+    meeting_attendees: z.array(LinkMeetingAttendeeSchema.extend({ id: uuid })).default([]),
+    reminders: z.array(ReminderRowSchema).default([]),
+    tags: z.array(TagRowSchema).default([]),
+    entity_tags: z.array(EntityTagSchema.extend({ id: uuid, created_at: z.string().optional() })).default([]),
+    smart_lists: z.array(SmartListRowSchema).default([]),
+    templates: z.array(TemplateRowSchema).default([]),
+    time_entries: z.array(TimeEntryRowSchema).default([]),
+    daily_notes: z.array(DailyNoteRowSchema).default([]),
+  }),
+  recordings: z.array(z.object({
+    meeting_id: uuid,
+    file_name: z.string().min(1),
+    data: z.string(),
+  })).optional(),
+});
+
+export const ExportOptionsSchema = z.object({
+  includeRecordings: z.boolean().optional(),
+}).optional();
+
+export const ImportFilePathSchema = z.string().min(1).optional();
+
+export const ImportFormatSchema = z.enum(['things', 'todoist', 'omnifocus']);
+
 // Transcription
 export const TranscriptionProviderSchema = z.enum(['local', 'api']);
 export const WhisperModelSchema = z.enum(['tiny', 'base', 'small', 'medium', 'large']);
@@ -216,3 +531,34 @@ export const UpdateUserMetadataSchema = z.object({
   first_name: z.string().optional(),
   last_name: z.string().optional(),
 });
+
+// Settings
+export const RecordingModeSchema = z.enum(['system', 'mic', 'both']);
+
+export const AppSettingsSchema = z.object({
+  userFirstName: z.string().max(200),
+  userLastName: z.string().max(200),
+  weatherCity: z.string().max(200),
+  transcriptionProvider: TranscriptionProviderSchema,
+  openaiApiKey: z.string().max(500),
+  whisperModel: WhisperModelSchema,
+  defaultRecordingMode: RecordingModeSchema,
+  autoTranscribe: z.boolean(),
+  staleAfterDays: z.number().int().min(1).max(365),
+  staleContextDays: z.record(z.string().uuid(), z.number().int().min(1).max(365)),
+  staleExemptPriorities: z.array(prioritySchema).max(3),
+  staleDeadlineWindowDays: z.number().int().min(0).max(365),
+  trashRetentionDays: z.number().int().min(1).max(3650),
+  workdayHours: z.number().min(0.5).max(24),
+  lastWeeklyReviewAt: z.string().datetime({ offset: true }).nullable(),
+});
+
+export const AppSettingsPatchSchema = AppSettingsSchema.partial().strict();
+
+export const RetentionSettingsSchema = AppSettingsSchema.pick({
+  staleAfterDays: true,
+  staleContextDays: true,
+  staleExemptPriorities: true,
+  staleDeadlineWindowDays: true,
+  trashRetentionDays: true,
+});
@@ -0,0 +1,2 @@
+-- Archiving a heading hides it from the project and completes its tasks
+ALTER TABLE public.project_headings ADD COLUMN IF NOT EXISTS archived_at TEXT;
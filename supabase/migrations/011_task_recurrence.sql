@@ -0,0 +1,2 @@
+-- Repeat rule for recurring tasks (daily | weekly:mon,thu | monthly:15 | after:3)
+ALTER TABLE public.tasks ADD COLUMN IF NOT EXISTS recurrence TEXT;
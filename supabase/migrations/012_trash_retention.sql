@@ -0,0 +1,5 @@
+-- Trash retention covers every trashable entity, not just tasks
+ALTER TABLE public.projects ADD COLUMN IF NOT EXISTS permanently_deleted_at TEXT;
+ALTER TABLE public.notes ADD COLUMN IF NOT EXISTS permanently_deleted_at TEXT;
+ALTER TABLE public.meetings ADD COLUMN IF NOT EXISTS permanently_deleted_at TEXT;
+ALTER TABLE public.stakeholders ADD COLUMN IF NOT EXISTS permanently_deleted_at TEXT;
@@ -0,0 +1,4 @@
+-- Manual ordering uses fractional keys: a moved row gets the midpoint of its neighbours
+ALTER TABLE public.tasks ALTER COLUMN sort_order TYPE DOUBLE PRECISION;
+ALTER TABLE public.projects ALTER COLUMN sort_order TYPE DOUBLE PRECISION;
+ALTER TABLE public.task_checklists ALTER COLUMN sort_order TYPE DOUBLE PRECISION;
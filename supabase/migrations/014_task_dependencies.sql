@@ -0,0 +1,70 @@
+-- "Blocked by" links between tasks: task_id waits on blocked_by_task_id
+
+CREATE TABLE public.task_dependencies (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::TEXT,
+  task_id TEXT NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  blocked_by_task_id TEXT NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  deleted_at TEXT,
+  source TEXT DEFAULT 'user' CHECK (source IN ('user', 'ai', 'import', 'api')),
+  agent_id TEXT REFERENCES public.ai_agents(id),
+  UNIQUE(task_id, blocked_by_task_id),
+  CHECK (task_id <> blocked_by_task_id)
+);
+
+-- RLS
+ALTER TABLE public.task_dependencies ENABLE ROW LEVEL SECURITY;
+
+-- User policies
+CREATE POLICY task_dependencies_select_policy ON public.task_dependencies FOR SELECT
+USING (
+  user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.ai_agents
+    WHERE ai_agents.id = auth.jwt()->>'agent_id'
+      AND ai_agents.user_id = task_dependencies.user_id
+      AND ai_agents.revoked_at IS NULL
+      AND (ai_agents.permissions->>'read')::boolean = true
+  )
+);
+
+CREATE POLICY task_dependencies_insert_policy ON public.task_dependencies FOR INSERT
+WITH CHECK (
+  user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.ai_agents
+    WHERE ai_agents.id = auth.jwt()->>'agent_id'
+      AND ai_agents.user_id = task_dependencies.user_id
+      AND ai_agents.revoked_at IS NULL
+      AND (ai_agents.permissions->>'write')::boolean = true
+  )
+);
+
+CREATE POLICY task_dependencies_update_policy ON public.task_dependencies FOR UPDATE
+USING (
+  user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.ai_agents
+    WHERE ai_agents.id = auth.jwt()->>'agent_id'
+      AND ai_agents.user_id = task_dependencies.user_id
+      AND ai_agents.revoked_at IS NULL
+      AND (ai_agents.permissions->>'write')::boolean = true
+  )
+);
+
+CREATE POLICY task_dependencies_delete_policy ON public.task_dependencies FOR DELETE
+USING (
+  user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.ai_agents
+    WHERE ai_agents.id = auth.jwt()->>'agent_id'
+      AND ai_agents.user_id = task_dependencies.user_id
+      AND ai_agents.revoked_at IS NULL
+      AND (ai_agents.permissions->>'write')::boolean = true
+  )
+);
+
+-- Indexes
+CREATE INDEX idx_task_dependencies_task ON public.task_dependencies(task_id);
+CREATE INDEX idx_task_dependencies_blocked_by ON public.task_dependencies(blocked_by_task_id);
@@ -0,0 +1,3 @@
+-- Planned effort in minutes, used for daily capacity planning
+ALTER TABLE public.tasks ADD COLUMN IF NOT EXISTS estimate_minutes INTEGER
+  CHECK (estimate_minutes IS NULL OR estimate_minutes > 0);
@@ -0,0 +1,77 @@
+-- Reminders on tasks and meetings. A reminder fires at remind_at, or
+-- offset_minutes before the task's deadline or the meeting's start
+
+CREATE TABLE public.reminders (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::TEXT,
+  task_id TEXT REFERENCES public.tasks(id) ON DELETE CASCADE,
+  meeting_id TEXT REFERENCES public.meetings(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  remind_at TEXT,
+  offset_minutes INTEGER,
+  snoozed_until TEXT,
+  fired_at TEXT,
+  fired_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  deleted_at TEXT,
+  source TEXT DEFAULT 'user' CHECK (source IN ('user', 'ai', 'import', 'api')),
+  agent_id TEXT REFERENCES public.ai_agents(id),
+  CHECK ((task_id IS NULL) <> (meeting_id IS NULL)),
+  CHECK ((remind_at IS NULL) <> (offset_minutes IS NULL))
+);
+
+-- RLS
+ALTER TABLE public.reminders ENABLE ROW LEVEL SECURITY;
+
+-- User policies
+CREATE POLICY reminders_select_policy ON public.reminders FOR SELECT
+USING (
+  user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.ai_agents
+    WHERE ai_agents.id = auth.jwt()->>'agent_id'
+      AND ai_agents.user_id = reminders.user_id
+      AND ai_agents.revoked_at IS NULL
+      AND (ai_agents.permissions->>'read')::boolean = true
+  )
+);
+
+CREATE POLICY reminders_insert_policy ON public.reminders FOR INSERT
+WITH CHECK (
+  user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.ai_agents
+    WHERE ai_agents.id = auth.jwt()->>'agent_id'
+      AND ai_agents.user_id = reminders.user_id
+      AND ai_agents.revoked_at IS NULL
+      AND (ai_agents.permissions->>'write')::boolean = true
+  )
+);
+
+CREATE POLICY reminders_update_policy ON public.reminders FOR UPDATE
+USING (
+  user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.ai_agents
+    WHERE ai_agents.id = auth.jwt()->>'agent_id'
+      AND ai_agents.user_id = reminders.user_id
+      AND ai_agents.revoked_at IS NULL
+      AND (ai_agents.permissions->>'write')::boolean = true
+  )
+);
+
+CREATE POLICY reminders_delete_policy ON public.reminders FOR DELETE
+USING (
+  user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.ai_agents
+    WHERE ai_agents.id = auth.jwt()->>'agent_id'
+      AND ai_agents.user_id = reminders.user_id
+      AND ai_agents.revoked_at IS NULL
+      AND (ai_agents.permissions->>'write')::boolean = true
+  )
+);
+
+-- Indexes
+CREATE INDEX idx_reminders_task ON public.reminders(task_id);
+CREATE INDEX idx_reminders_meeting ON public.reminders(meeting_id);
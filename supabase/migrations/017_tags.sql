@@ -0,0 +1,133 @@
+-- Tags: cross-cutting labels on tasks, notes and meetings.
+-- entity_tags.entity_id points into tasks, notes or meetings depending on entity_type
+
+CREATE TABLE public.tags (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::TEXT,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  name TEXT NOT NULL,
+  color TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  deleted_at TEXT,
+  source TEXT DEFAULT 'user' CHECK (source IN ('user', 'ai', 'import', 'api')),
+  agent_id TEXT REFERENCES public.ai_agents(id)
+);
+
+CREATE TABLE public.entity_tags (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::TEXT,
+  tag_id TEXT NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('task', 'note', 'meeting')),
+  entity_id TEXT NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  deleted_at TEXT,
+  source TEXT DEFAULT 'user' CHECK (source IN ('user', 'ai', 'import', 'api')),
+  agent_id TEXT REFERENCES public.ai_agents(id),
+  UNIQUE(tag_id, entity_type, entity_id)
+);
+
+-- RLS
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.entity_tags ENABLE ROW LEVEL SECURITY;
+
+-- User policies (tags)
+CREATE POLICY tags_select_policy ON public.tags FOR SELECT
+USING (
+  user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.ai_agents
+    WHERE ai_agents.id = auth.jwt()->>'agent_id'
+      AND ai_agents.user_id = tags.user_id
+      AND ai_agents.revoked_at IS NULL
+      AND (ai_agents.permissions->>'read')::boolean = true
+  )
+);
+
+CREATE POLICY tags_insert_policy ON public.tags FOR INSERT
+WITH CHECK (
+  user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.ai_agents
+    WHERE ai_agents.id = auth.jwt()->>'agent_id'
+      AND ai_agents.user_id = tags.user_id
+      AND ai_agents.revoked_at IS NULL
+      AND (ai_agents.permissions->>'write')::boolean = true
+  )
+);
+
+CREATE POLICY tags_update_policy ON public.tags FOR UPDATE
+USING (
+  user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.ai_agents
+    WHERE ai_agents.id = auth.jwt()->>'agent_id'
+      AND ai_agents.user_id = tags.user_id
+      AND ai_agents.revoked_at IS NULL
+      AND (ai_agents.permissions->>'write')::boolean = true
+  )
+);
+
+CREATE POLICY tags_delete_policy ON public.tags FOR DELETE
+USING (
+  user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.ai_agents
+    WHERE ai_agents.id = auth.jwt()->>'agent_id'
+      AND ai_agents.user_id = tags.user_id
+      AND ai_agents.revoked_at IS NULL
+      AND (ai_agents.permissions->>'write')::boolean = true
+  )
+);
+
+-- User policies (entity_tags)
+CREATE POLICY entity_tags_select_policy ON public.entity_tags FOR SELECT
+USING (
+  user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.ai_agents
+    WHERE ai_agents.id = auth.jwt()->>'agent_id'
+      AND ai_agents.user_id = entity_tags.user_id
+      AND ai_agents.revoked_at IS NULL
+      AND (ai_agents.permissions->>'read')::boolean = true
+  )
+);
+
+CREATE POLICY entity_tags_insert_policy ON public.entity_tags FOR INSERT
+WITH CHECK (
+  user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.ai_agents
+    WHERE ai_agents.id = auth.jwt()->>'agent_id'
+      AND ai_agents.user_id = entity_tags.user_id
+      AND ai_agents.revoked_at IS NULL
+      AND (ai_agents.permissions->>'write')::boolean = true
+  )
+);
+
+CREATE POLICY entity_tags_update_policy ON public.entity_tags FOR UPDATE
+USING (
+  user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.ai_agents
+    WHERE ai_agents.id = auth.jwt()->>'agent_id'
+      AND ai_agents.user_id = entity_tags.user_id
+      AND ai_agents.revoked_at IS NULL
+      AND (ai_agents.permissions->>'write')::boolean = true
+  )
+);
+
+CREATE POLICY entity_tags_delete_policy ON public.entity_tags FOR DELETE
+USING (
+  user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.ai_agents
+    WHERE ai_agents.id = auth.jwt()->>'agent_id'
+      AND ai_agents.user_id = entity_tags.user_id
+      AND ai_agents.revoked_at IS NULL
+      AND (ai_agents.permissions->>'write')::boolean = true
+  )
+);
+
+-- Indexes
+CREATE INDEX idx_tags_user ON public.tags(user_id);
+CREATE INDEX idx_entity_tags_entity ON public.entity_tags(entity_type, entity_id);
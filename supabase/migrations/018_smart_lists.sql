@@ -0,0 +1,67 @@
+-- Smart lists: saved task queries shown under Lists in the sidebar
+
+CREATE TABLE public.smart_lists (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::TEXT,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  name TEXT NOT NULL,
+  query TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  deleted_at TEXT,
+  source TEXT DEFAULT 'user' CHECK (source IN ('user', 'ai', 'import', 'api')),
+  agent_id TEXT REFERENCES public.ai_agents(id)
+);
+
+-- RLS
+ALTER TABLE public.smart_lists ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY smart_lists_select_policy ON public.smart_lists FOR SELECT
+USING (
+  user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.ai_agents
+    WHERE ai_agents.id = auth.jwt()->>'agent_id'
+      AND ai_agents.user_id = smart_lists.user_id
+      AND ai_agents.revoked_at IS NULL
+      AND (ai_agents.permissions->>'read')::boolean = true
+  )
+);
+
+CREATE POLICY smart_lists_insert_policy ON public.smart_lists FOR INSERT
+WITH CHECK (
+  user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.ai_agents
+    WHERE ai_agents.id = auth.jwt()->>'agent_id'
+      AND ai_agents.user_id = smart_lists.user_id
+      AND ai_agents.revoked_at IS NULL
+      AND (ai_agents.permissions->>'write')::boolean = true
+  )
+);
+
+CREATE POLICY smart_lists_update_policy ON public.smart_lists FOR UPDATE
+USING (
+  user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.ai_agents
+    WHERE ai_agents.id = auth.jwt()->>'agent_id'
+      AND ai_agents.user_id = smart_lists.user_id
+      AND ai_agents.revoked_at IS NULL
+      AND (ai_agents.permissions->>'write')::boolean = true
+  )
+);
+
+CREATE POLICY smart_lists_delete_policy ON public.smart_lists FOR DELETE
+USING (
+  user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.ai_agents
+    WHERE ai_agents.id = auth.jwt()->>'agent_id'
+      AND ai_agents.user_id = smart_lists.user_id
+      AND ai_agents.revoked_at IS NULL
+      AND (ai_agents.permissions->>'write')::boolean = true
+  )
+);
+
+-- Indexes
+CREATE INDEX idx_smart_lists_user ON public.smart_lists(user_id);
@@ -0,0 +1,70 @@
+-- Change history of tasks, projects, notes and meetings.
+-- changes holds {"field": {"from": ..., "to": ...}} for every field a write touched;
+-- source / agent_id say whether the user or an agent made it
+
+CREATE TABLE public.entity_changes (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::TEXT,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('task', 'project', 'note', 'meeting')),
+  entity_id TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete')),
+  changes TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  source TEXT DEFAULT 'user' CHECK (source IN ('user', 'ai', 'import', 'api')),
+  agent_id TEXT REFERENCES public.ai_agents(id)
+);
+
+-- RLS
+ALTER TABLE public.entity_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY entity_changes_select_policy ON public.entity_changes FOR SELECT
+USING (
+  user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.ai_agents
+    WHERE ai_agents.id = auth.jwt()->>'agent_id'
+      AND ai_agents.user_id = entity_changes.user_id
+      AND ai_agents.revoked_at IS NULL
+      AND (ai_agents.permissions->>'read')::boolean = true
+  )
+);
+
+CREATE POLICY entity_changes_insert_policy ON public.entity_changes FOR INSERT
+WITH CHECK (
+  user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.ai_agents
+    WHERE ai_agents.id = auth.jwt()->>'agent_id'
+      AND ai_agents.user_id = entity_changes.user_id
+      AND ai_agents.revoked_at IS NULL
+      AND (ai_agents.permissions->>'write')::boolean = true
+  )
+);
+
+CREATE POLICY entity_changes_update_policy ON public.entity_changes FOR UPDATE
+USING (
+  user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.ai_agents
+    WHERE ai_agents.id = auth.jwt()->>'agent_id'
+      AND ai_agents.user_id = entity_changes.user_id
+      AND ai_agents.revoked_at IS NULL
+      AND (ai_agents.permissions->>'write')::boolean = true
+  )
+);
+
+CREATE POLICY entity_changes_delete_policy ON public.entity_changes FOR DELETE
+USING (
+  user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.ai_agents
+    WHERE ai_agents.id = auth.jwt()->>'agent_id'
+      AND ai_agents.user_id = entity_changes.user_id
+      AND ai_agents.revoked_at IS NULL
+      AND (ai_agents.permissions->>'write')::boolean = true
+  )
+);
+
+-- Indexes
+CREATE INDEX idx_entity_changes_user ON public.entity_changes(user_id);
+CREATE INDEX idx_entity_changes_entity ON public.entity_changes(entity_id, created_at);
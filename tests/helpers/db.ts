@@ -1,6 +1,6 @@
 import Database from 'better-sqlite3';
 import { v4 as uuid } from 'uuid';
-import type { AsyncDatabase, DbContext } from '../../src/main/db/types';
+import type { AsyncDatabase, DbContext, QueryResult } from '../../src/main/db/types';
 
 /**
  * In-memory SQLite database for testing.
@@ -93,8 +93,15 @@ export interface RawAgent {
 
 function createAsyncAdapter(sqliteDb: Database.Database): AsyncDatabase & Pick<Database.Database, 'prepare' | 'exec'> {
   return {
-    async execute(sql: string, params: unknown[] = []): Promise<{ rowsAffected: number }> {
-      const result = sqliteDb.prepare(sql).run(...params);
+    async execute(sql: string, params: unknown[] = []): Promise<QueryResult> {
+      const statement = sqliteDb.prepare(sql);
+      // Statements with RETURNING produce rows and must be read, not run
+      if (statement.reader) {
+        const rows = statement.all(...params) as Record<string, unknown>[];
+        const { changes } = sqliteDb.prepare('SELECT changes() AS changes').get() as { changes: number };
+        return { rowsAffected: changes, rows };
+      }
+      const result = statement.run(...params);
       return { rowsAffected: result.changes };
     },
     async getAll<T>(sql: string, params: unknown[] = []): Promise<T[]> {
@@ -158,11 +165,12 @@ export function createTestDb(): TestDb {
       description TEXT,
       status TEXT NOT NULL DEFAULT 'active',
       context_id TEXT REFERENCES contexts(id),
-      sort_order INTEGER DEFAULT 0,
+      sort_order REAL DEFAULT 0,
       created_at TEXT NOT NULL,
       updated_at TEXT NOT NULL,
       completed_at TEXT,
       deleted_at TEXT,
+      permanently_deleted_at TEXT,
       owner_type TEXT DEFAULT 'user' CHECK (owner_type IN ('user', 'stakeholder')),
       owner_stakeholder_id TEXT REFERENCES stakeholders(id),
       source TEXT DEFAULT 'user',
@@ -181,6 +189,20 @@ export function createTestDb(): TestDb {
       created_at TEXT NOT NULL,
       updated_at TEXT NOT NULL,
       deleted_at TEXT,
+      permanently_deleted_at TEXT,
+      source TEXT DEFAULT 'user',
+      agent_id TEXT REFERENCES ai_agents(id)
+    );
+
+    CREATE TABLE project_headings (
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL REFERENCES projects(id),
+      title TEXT NOT NULL,
+      sort_order INTEGER DEFAULT 0,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      archived_at TEXT,
+      deleted_at TEXT,
       source TEXT DEFAULT 'user',
       agent_id TEXT REFERENCES ai_agents(id)
     );
@@ -196,7 +218,7 @@ export function createTestDb(): TestDb {
       heading_id TEXT,
       context_id TEXT REFERENCES contexts(id),
       priority TEXT,
-      sort_order INTEGER DEFAULT 0,
+      sort_order REAL DEFAULT 0,
       created_at TEXT NOT NULL,
       updated_at TEXT NOT NULL,
       completed_at TEXT,
@@ -204,6 +226,8 @@ export function createTestDb(): TestDb {
       permanently_deleted_at TEXT,
       stale_at TEXT,
       assignee_id TEXT,
+      recurrence TEXT,
+      estimate_minutes INTEGER,
       source TEXT DEFAULT 'user',
       agent_id TEXT REFERENCES ai_agents(id)
     );
@@ -213,7 +237,7 @@ export function createTestDb(): TestDb {
       task_id TEXT NOT NULL REFERENCES tasks(id),
       title TEXT NOT NULL,
       is_done INTEGER NOT NULL DEFAULT 0,
-      sort_order INTEGER DEFAULT 0,
+      sort_order REAL DEFAULT 0,
       created_at TEXT NOT NULL,
       updated_at TEXT NOT NULL,
       deleted_at TEXT,
@@ -233,22 +257,150 @@ export function createTestDb(): TestDb {
       created_at TEXT NOT NULL,
       updated_at TEXT NOT NULL,
       deleted_at TEXT,
+      permanently_deleted_at TEXT,
       source TEXT DEFAULT 'user',
       agent_id TEXT REFERENCES ai_agents(id)
     );
 
     CREATE TABLE note_stakeholders (
+      id TEXT,
       note_id TEXT NOT NULL REFERENCES notes(id),
       stakeholder_id TEXT NOT NULL REFERENCES stakeholders(id),
       PRIMARY KEY (note_id, stakeholder_id)
     );
 
+    CREATE TABLE task_dependencies (
+      id TEXT PRIMARY KEY,
+      task_id TEXT NOT NULL REFERENCES tasks(id),
+      blocked_by_task_id TEXT NOT NULL REFERENCES tasks(id),
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      deleted_at TEXT,
+      UNIQUE (task_id, blocked_by_task_id)
+    );
+
+    CREATE TABLE reminders (
+      id TEXT PRIMARY KEY,
+      task_id TEXT REFERENCES tasks(id),
+      meeting_id TEXT REFERENCES meetings(id),
+      remind_at TEXT,
+      offset_minutes INTEGER,
+      snoozed_until TEXT,
+      fired_at TEXT,
+      fired_by TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      deleted_at TEXT
+    );
+
+    CREATE TABLE tags (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      color TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      deleted_at TEXT
+    );
+
+    CREATE TABLE entity_tags (
+      id TEXT PRIMARY KEY,
+      tag_id TEXT NOT NULL REFERENCES tags(id),
+      entity_type TEXT NOT NULL,
+      entity_id TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      deleted_at TEXT,
+      UNIQUE (tag_id, entity_type, entity_id)
+    );
+
+    CREATE TABLE smart_lists (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      query TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      deleted_at TEXT
+    );
+
+    CREATE TABLE templates (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      kind TEXT NOT NULL CHECK (kind IN ('task', 'project')),
+      body TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      deleted_at TEXT
+    );
+
+    CREATE TABLE time_entries (
+      id TEXT PRIMARY KEY,
+      task_id TEXT NOT NULL REFERENCES tasks(id),
+      started_at TEXT NOT NULL,
+      ended_at TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      deleted_at TEXT
+    );
+
+    CREATE TABLE entity_changes (
+      id TEXT PRIMARY KEY,
+      entity_type TEXT NOT NULL,
+      entity_id TEXT NOT NULL,
+      action TEXT NOT NULL,
+      changes TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      source TEXT DEFAULT 'user',
+      agent_id TEXT REFERENCES ai_agents(id)
+    );
+
     CREATE TABLE project_stakeholders (
+      id TEXT,
       project_id TEXT NOT NULL REFERENCES projects(id),
       stakeholder_id TEXT NOT NULL REFERENCES stakeholders(id),
       created_at TEXT NOT NULL DEFAULT (datetime('now')),
       PRIMARY KEY (project_id, stakeholder_id)
     );
+
+    CREATE TABLE meetings (
+      id TEXT PRIMARY KEY,
+      title TEXT NOT NULL,
+      description TEXT,
+      start_time TEXT NOT NULL,
+      end_time TEXT,
+      is_all_day INTEGER NOT NULL DEFAULT 0,
+      location TEXT,
+      meeting_url TEXT,
+      status TEXT NOT NULL DEFAULT 'scheduled',
+      context_id TEXT REFERENCES contexts(id),
+      project_id TEXT REFERENCES projects(id),
+      notes TEXT,
+      audio_path TEXT,
+      recording_duration INTEGER,
+      transcript TEXT,
+      transcript_segments TEXT,
+      transcription_status TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      deleted_at TEXT,
+      permanently_deleted_at TEXT,
+      source TEXT DEFAULT 'user',
+      agent_id TEXT REFERENCES ai_agents(id)
+    );
+
+    CREATE TABLE meeting_attendees (
+      id TEXT,
+      meeting_id TEXT NOT NULL REFERENCES meetings(id),
+      stakeholder_id TEXT NOT NULL REFERENCES stakeholders(id),
+      PRIMARY KEY (meeting_id, stakeholder_id)
+    );
+
+    CREATE TABLE daily_notes (
+      id TEXT PRIMARY KEY,
+      date TEXT NOT NULL UNIQUE,
+      content TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      source TEXT DEFAULT 'user',
+      agent_id TEXT REFERENCES ai_agents(id)
+    );
   `);
 
   const db = createAsyncAdapter(sqliteDb);
@@ -329,3 +481,30 @@ export function createTestDb(): TestDb {
     },
   };
 }
+
+/**
+ * Turn tables into views over renamed backing tables, written through
+ * INSTEAD OF triggers, the way PowerSync stores synced tables. Writes
+ * through such a view report 0 `rowsAffected`, as they do in the app, so
+ * tests can catch code that relies on it.
+ */
+export function backTablesWithViews(testDb: TestDb, tables: string[]): void {
+  const raw = testDb.db;
+  for (const table of tables) {
+    const columns = (raw.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map((c) => c.name);
+    const backing = `ps_data__${table}`;
+    raw.exec(`
+      ALTER TABLE ${table} RENAME TO ${backing};
+      CREATE VIEW ${table} AS SELECT * FROM ${backing};
+      CREATE TRIGGER ${table}_insert INSTEAD OF INSERT ON ${table} BEGIN
+        INSERT INTO ${backing} (${columns.join(', ')}) VALUES (${columns.map((c) => `NEW.${c}`).join(', ')});
+      END;
+      CREATE TRIGGER ${table}_update INSTEAD OF UPDATE ON ${table} BEGIN
+        UPDATE ${backing} SET ${columns.map((c) => `${c} = NEW.${c}`).join(', ')} WHERE id = OLD.id;
+      END;
+      CREATE TRIGGER ${table}_delete INSTEAD OF DELETE ON ${table} BEGIN
+        DELETE FROM ${backing} WHERE id = OLD.id;
+      END;
+    `);
+  }
+}